@@ -0,0 +1,75 @@
+import { DominoTile, TilePlacement } from '../../../src/types/dominos.types';
+import { DominosAIContext, DominosAIService } from '../../../src/services/dominos/DominosAIService';
+
+const tile = (left: number, right: number): DominoTile => ({
+  id: `${left}-${right}`,
+  left,
+  right,
+  isDouble: left === right,
+  orientation: 'horizontal',
+});
+
+const placement = (placed: DominoTile): TilePlacement => ({
+  tile: placed,
+  position: 0,
+  side: 'right',
+  timestamp: 0,
+  playerId: 'joueur',
+});
+
+// Plateau 2-5 : extrémités 2 à gauche, 5 à droite
+const context = (missingSuits: number[] = []): DominosAIContext => ({
+  board: [placement(tile(2, 5))],
+  leftEnd: 2,
+  rightEnd: 5,
+  opponentModel: { missingSuits },
+});
+
+const HAND = [tile(2, 3), tile(5, 4)];
+
+describe('IA des Dominos', () => {
+  it('retient les extrémités que l\'adversaire n\'a pas pu suivre en passant', () => {
+    let model = DominosAIService.createOpponentModel();
+    model = DominosAIService.recordOpponentCannotPlay(model, 3, 5);
+    model = DominosAIService.recordOpponentCannotPlay(model, 5, null);
+
+    expect(model.missingSuits).toEqual([3, 5]);
+  });
+
+  it('oublie une valeur que l\'adversaire vient de poser', () => {
+    const model = DominosAIService.recordOpponentPlay({ missingSuits: [3, 5, 6] }, tile(5, 1));
+
+    expect(model.missingSuits).toEqual([3, 6]);
+  });
+
+  it('oublie toutes les déductions quand l\'adversaire pioche', () => {
+    const model = DominosAIService.recordOpponentCannotPlay(DominosAIService.createOpponentModel(), 3, 5);
+
+    expect(model.missingSuits).toEqual([3, 5]);
+    expect(DominosAIService.recordOpponentDraw().missingSuits).toEqual([]);
+  });
+
+  it('ne joue rien sans tuile posable', () => {
+    expect(DominosAIService.chooseMove([tile(0, 1)], context(), 'hard')).toBeNull();
+  });
+
+  it('se débarrasse de la tuile la plus lourde en moyen', () => {
+    expect(DominosAIService.chooseMove(HAND, context(), 'medium')).toMatchObject({
+      tile: { id: '5-4' },
+      side: 'right',
+    });
+  });
+
+  it('ferme le jeu sur une valeur manquante de l\'adversaire en difficile', () => {
+    const move = DominosAIService.chooseMove(HAND, context([3]), 'hard');
+
+    expect(move).toMatchObject({ tile: { id: '2-3' }, side: 'left' });
+    expect(move?.reasoning).toContain('Ferme le jeu');
+  });
+
+  it('ne compte plus sur une valeur manquante après une pioche de l\'adversaire', () => {
+    const afterDraw = DominosAIService.recordOpponentDraw();
+
+    expect(DominosAIService.chooseMove(HAND, context(afterDraw.missingSuits), 'hard')?.tile.id).toBe('5-4');
+  });
+});
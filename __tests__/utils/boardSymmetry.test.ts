@@ -0,0 +1,71 @@
+import {
+  fromCanonicalPosition,
+  getCanonicalBoard,
+  getSymmetryTransforms,
+} from '../../src/utils/boardSymmetry';
+
+// Image d'un plateau (une lettre par case) par une permutation de positions
+const applyTransform = (cells: string, transform: number[]): string => {
+  const image: string[] = new Array(cells.length);
+  for (let position = 0; position < cells.length; position++) {
+    image[transform[position]] = cells[position];
+  }
+  return image.join('');
+};
+
+describe('symétries du plateau', () => {
+  it('produit 8 permutations distinctes, la première étant l\'identité', () => {
+    for (const size of [3, 4, 5]) {
+      const transforms = getSymmetryTransforms(size);
+      const identity = Array.from({ length: size * size }, (_, i) => i);
+
+      expect(transforms).toHaveLength(8);
+      expect(transforms[0]).toEqual(identity);
+      expect(new Set(transforms.map(t => t.join(','))).size).toBe(8);
+      transforms.forEach(transform => {
+        expect([...transform].sort((a, b) => a - b)).toEqual(identity);
+      });
+    }
+  });
+
+  it('applique rotations et miroirs au coin et au centre du 3x3', () => {
+    const transforms = getSymmetryTransforms(3);
+
+    // Le coin haut-gauche parcourt les 4 coins, le centre reste fixe
+    expect(transforms.map(t => t[0])).toEqual([0, 2, 8, 6, 2, 6, 0, 8]);
+    expect(transforms.every(t => t[4] === 4)).toBe(true);
+  });
+
+  it('donne la même forme canonique aux 8 images d\'un plateau', () => {
+    const cells = 'X--O-X---';
+    const { key } = getCanonicalBoard(cells, 3);
+
+    getSymmetryTransforms(3).forEach(transform => {
+      expect(getCanonicalBoard(applyTransform(cells, transform), 3).key).toBe(key);
+    });
+  });
+
+  it('choisit la plus petite image dans l\'ordre lexicographique', () => {
+    const cells = '---O--X-O-------';
+    const images = getSymmetryTransforms(4).map(t => applyTransform(cells, t));
+    const canonical = getCanonicalBoard(cells, 4);
+
+    expect(canonical.key).toBe([...images].sort()[0]);
+    expect(applyTransform(cells, canonical.transform)).toBe(canonical.key);
+  });
+
+  it('ramène un coup du plateau canonique vers le plateau réel', () => {
+    const cells = '-----X--O';
+
+    getSymmetryTransforms(3).forEach(transform => {
+      const board = applyTransform(cells, transform);
+      const canonical = getCanonicalBoard(board, 3);
+
+      for (let position = 0; position < 9; position++) {
+        const canonicalPosition = canonical.transform[position];
+        expect(fromCanonicalPosition(canonicalPosition, canonical.transform)).toBe(position);
+        expect(canonical.key[canonicalPosition]).toBe(board[position]);
+      }
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import {
+  applyGameResult,
+  createRatingEntry,
+  DEFAULT_RATING,
+  ESTABLISHED_K_FACTOR,
+  getExpectedScore,
+  getKFactor,
+  getRatingKey,
+  MIN_RATING,
+  PROVISIONAL_GAMES,
+  PROVISIONAL_K_FACTOR,
+} from '../../src/utils/eloLogic';
+
+describe('classement Elo du Morpion', () => {
+  it('un classement par taille de plateau et par variante', () => {
+    expect(getRatingKey({ boardSize: 3 })).toBe('3x3');
+    expect(getRatingKey({ boardSize: 5, variant: 'classic' })).toBe('5x5');
+    expect(getRatingKey({ boardSize: 9, variant: 'ultimate' })).toBe('ultimate');
+    expect(getRatingKey({ boardSize: 15, variant: 'gomoku' })).toBe('gomoku');
+  });
+
+  it('score attendu symétrique', () => {
+    expect(getExpectedScore(1200, 1200)).toBeCloseTo(0.5);
+    expect(getExpectedScore(1600, 1200)).toBeCloseTo(10 / 11);
+    expect(getExpectedScore(1500, 1300) + getExpectedScore(1300, 1500)).toBeCloseTo(1);
+  });
+
+  it('facteur K réduit après la période provisoire', () => {
+    expect(getKFactor(0)).toBe(PROVISIONAL_K_FACTOR);
+    expect(getKFactor(PROVISIONAL_GAMES - 1)).toBe(PROVISIONAL_K_FACTOR);
+    expect(getKFactor(PROVISIONAL_GAMES)).toBe(ESTABLISHED_K_FACTOR);
+  });
+
+  it('victoire, nul et défaite entre joueurs de même niveau', () => {
+    const entry = createRatingEntry(0);
+    const win = applyGameResult(entry, DEFAULT_RATING, 1, 1);
+    const draw = applyGameResult(entry, DEFAULT_RATING, 0.5, 1);
+    const loss = applyGameResult(entry, DEFAULT_RATING, 0, 1);
+
+    expect(win).toMatchObject({ rating: DEFAULT_RATING + 20, games: 1, wins: 1, peak: DEFAULT_RATING + 20 });
+    expect(draw).toMatchObject({ rating: DEFAULT_RATING, draws: 1 });
+    expect(loss).toMatchObject({ rating: DEFAULT_RATING - 20, losses: 1, peak: DEFAULT_RATING });
+  });
+
+  it('le classement ne descend pas sous le minimum', () => {
+    const entry = { ...createRatingEntry(0), rating: MIN_RATING, games: 30 };
+    expect(applyGameResult(entry, MIN_RATING, 0, 1).rating).toBe(MIN_RATING);
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  checkGomokuWinner,
+  findWinningLineThrough,
+  getInitialOpeningPhase,
+  getSwap2PhaseAfterChoice,
+  getSwap2PhaseAfterMove,
+  GOMOKU_BOARD_SIZE,
+  shouldSwapSymbols,
+} from '../../src/utils/gomokuLogic';
+
+const SIZE = GOMOKU_BOARD_SIZE;
+
+const boardWith = (symbol: string, positions: number[]): (string | null)[] => {
+  const board: (string | null)[] = Array(SIZE * SIZE).fill(null);
+  positions.forEach(position => {
+    board[position] = symbol;
+  });
+  return board;
+};
+
+const row = (r: number, fromCol: number, length: number): number[] =>
+  Array.from({ length }, (_, i) => r * SIZE + fromCol + i);
+
+describe('Gomoku', () => {
+  it('cinq alignés gagnent, quatre non', () => {
+    expect(checkGomokuWinner(boardWith('X', row(7, 3, 5)), SIZE, 'X')).toEqual(row(7, 3, 5));
+    expect(checkGomokuWinner(boardWith('X', row(7, 3, 4)), SIZE, 'X')).toBeNull();
+  });
+
+  it('trouve la ligne passant par le dernier coup, dans les deux sens', () => {
+    const diagonal = [0, 1, 2, 3, 4].map(i => (2 + i) * SIZE + (10 - i));
+    const line = findWinningLineThrough(boardWith('O', diagonal), SIZE, diagonal[2], 'O');
+    expect([...(line || [])].sort((a, b) => a - b)).toEqual([...diagonal].sort((a, b) => a - b));
+  });
+
+  it('une ligne ne continue pas sur la rangée suivante', () => {
+    const wrapped = [SIZE - 2, SIZE - 1, SIZE, SIZE + 1, SIZE + 2];
+    expect(checkGomokuWinner(boardWith('X', wrapped), SIZE, 'X')).toBeNull();
+  });
+
+  it('avec exactlyFive, une ligne de six ne gagne pas', () => {
+    const board = boardWith('X', row(4, 0, 6));
+    expect(checkGomokuWinner(board, SIZE, 'X')).not.toBeNull();
+    expect(checkGomokuWinner(board, SIZE, 'X', 5, true)).toBeNull();
+  });
+
+  it('déroule les phases de l\'ouverture swap2', () => {
+    expect(getInitialOpeningPhase({ exactlyFive: false, openingRule: 'standard' })).toBeNull();
+    expect(getInitialOpeningPhase({ exactlyFive: false, openingRule: 'swap2' })).toBe('place3');
+    expect(getSwap2PhaseAfterMove('place3', 2)).toBe('place3');
+    expect(getSwap2PhaseAfterMove('place3', 3)).toBe('choose');
+    expect(getSwap2PhaseAfterChoice('choose', 'place2')).toBe('place2');
+    expect(getSwap2PhaseAfterChoice('choose', 'white')).toBeNull();
+    expect(getSwap2PhaseAfterMove('place2', 5)).toBe('finalChoose');
+  });
+
+  it('échange les symboles seulement si le choix change de couleur', () => {
+    expect(shouldSwapSymbols('X', 'white')).toBe(true);
+    expect(shouldSwapSymbols('X', 'black')).toBe(false);
+    expect(shouldSwapSymbols('O', 'black')).toBe(true);
+    expect(shouldSwapSymbols('O', 'place2')).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+import { CellValue } from '../../src/types/puissance4.types';
+import {
+  applyAction,
+  canPop,
+  createPop10State,
+  getLegalActions,
+  getPop10Phase,
+  Pop10State,
+  Puissance4Rules,
+  Puissance4Variant,
+} from '../../src/utils/puissance4Logic';
+
+const rulesFor = (variant: Puissance4Variant, winLength = 3): Puissance4Rules => ({
+  rows: 4,
+  cols: 4,
+  winLength,
+  variant,
+});
+
+// Plateau écrit de haut en bas : R = Rouge, J = Jaune, . = vide
+const parse = (...rows: string[]): CellValue[][] =>
+  rows.map(row => [...row].map((cell): CellValue => (cell === 'R' ? 'Rouge' : cell === 'J' ? 'Jaune' : null)));
+
+const pop10State = (kept: Partial<Pop10State['kept']>, pendingDrop: Pop10State['pendingDrop'] = null): Pop10State => ({
+  kept: { Rouge: 0, Jaune: 0, ...kept },
+  pendingDrop,
+});
+
+// Plein, sans alignement de quatre
+const FULL_MINUS_ONE = ['RJR.', 'RJRJ', 'JRJR', 'JRJR'];
+
+describe('PopOut', () => {
+  it('retire son propre jeton du bas et fait descendre la colonne', () => {
+    const board = parse('....', '....', 'J...', 'RJ..');
+
+    const result = applyAction(board, { type: 'pop', column: 0 }, 'Rouge', rulesFor('popout'));
+
+    expect(result?.board).toEqual(parse('....', '....', '....', 'JJ..'));
+    expect(result?.winner).toBeNull();
+    expect(result?.nextPlayer).toBe('Jaune');
+  });
+
+  it('refuse de retirer un jeton adverse, et tout retrait en classique', () => {
+    const board = parse('....', '....', 'J...', 'RJ..');
+
+    expect(applyAction(board, { type: 'pop', column: 0 }, 'Jaune', rulesFor('popout'))).toBeNull();
+    expect(canPop(board, 0, 'Rouge', rulesFor('classic'))).toBe(false);
+    expect(getLegalActions(board, 'Jaune', rulesFor('popout'))).toContainEqual({ type: 'pop', column: 1 });
+  });
+
+  it('fait gagner celui qui retire quand le retrait aligne les deux couleurs', () => {
+    const board = parse('....', 'R...', 'JRR.', 'RJJ.');
+
+    const result = applyAction(board, { type: 'pop', column: 0 }, 'Rouge', rulesFor('popout'));
+
+    expect(result?.winner).toBe('Rouge');
+    expect(result?.winningLine).toEqual([{ row: 2, col: 0 }, { row: 2, col: 1 }, { row: 2, col: 2 }]);
+  });
+
+  it('fait gagner l\'adversaire quand le retrait n\'aligne que ses jetons', () => {
+    const board = parse('....', 'R...', 'JR..', 'RJJ.');
+
+    expect(applyAction(board, { type: 'pop', column: 0 }, 'Rouge', rulesFor('popout'))?.winner).toBe('Jaune');
+  });
+
+  it('un plateau plein n\'est nul que si l\'adversaire ne peut rien retirer', () => {
+    const board = parse(...FULL_MINUS_ONE);
+    const drop = { type: 'drop' as const, column: 3 };
+
+    expect(applyAction(board, drop, 'Jaune', rulesFor('classic', 4))?.winner).toBe('draw');
+    expect(applyAction(board, drop, 'Jaune', rulesFor('popout', 4))?.winner).toBeNull();
+  });
+});
+
+describe('Pop 10', () => {
+  const rules = rulesFor('pop10');
+  const FULL = parse('JRJR', 'JRJR', 'RJRJ', 'RRRJ');
+
+  it('passe du remplissage aux retraits, puis au dépôt du jeton retiré', () => {
+    expect(getPop10Phase(parse('....', '....', '....', 'R...'), createPop10State())).toBe('fill');
+    expect(getPop10Phase(FULL, createPop10State())).toBe('pop');
+    expect(getPop10Phase(parse('....', '....', '....', 'R...'), pop10State({ Rouge: 1 }))).toBe('pop');
+    expect(getPop10Phase(FULL, pop10State({}, 'Jaune'))).toBe('redrop');
+  });
+
+  it('ne compte pas les alignements pendant le remplissage', () => {
+    const board = parse('....', '....', '....', 'RR..');
+
+    const result = applyAction(board, { type: 'drop', column: 2 }, 'Rouge', rules);
+
+    expect(result?.winner).toBeNull();
+    expect(result?.nextPlayer).toBe('Jaune');
+    expect(getLegalActions(board, 'Jaune', rules).every(action => action.type === 'drop')).toBe(true);
+  });
+
+  it('garde un jeton retiré d\'un alignement et fait rejouer', () => {
+    const result = applyAction(FULL, { type: 'pop', column: 0 }, 'Rouge', rules, createPop10State());
+
+    expect(result?.pop10).toEqual(pop10State({ Rouge: 1 }));
+    expect(result?.nextPlayer).toBe('Rouge');
+    expect(result?.board[0][0]).toBeNull();
+  });
+
+  it('fait reposer un jeton retiré hors alignement, par le seul joueur qui l\'a retiré', () => {
+    const popped = applyAction(FULL, { type: 'pop', column: 3 }, 'Jaune', rules, createPop10State());
+    expect(popped?.pop10).toEqual(pop10State({}, 'Jaune'));
+    expect(popped?.nextPlayer).toBe('Jaune');
+
+    const board = popped!.board;
+    const state = popped!.pop10!;
+    expect(getLegalActions(board, 'Jaune', rules, state)).toEqual([{ type: 'drop', column: 3 }]);
+    expect(applyAction(board, { type: 'drop', column: 3 }, 'Rouge', rules, state)).toBeNull();
+
+    const redropped = applyAction(board, { type: 'drop', column: 3 }, 'Jaune', rules, state);
+    expect(redropped?.pop10?.pendingDrop).toBeNull();
+    expect(redropped?.nextPlayer).toBe('Rouge');
+  });
+
+  it('fait gagner le premier qui garde le nombre de jetons visé', () => {
+    const result = applyAction(FULL, { type: 'pop', column: 0 }, 'Rouge', rules, pop10State({ Rouge: 3 }));
+
+    expect(result?.winner).toBe('Rouge');
+    expect(result?.pop10?.kept.Rouge).toBe(4);
+  });
+
+  it('fait passer le joueur qui n\'a aucun jeton à retirer', () => {
+    const board = parse('....', '....', '....', 'JJ..');
+
+    const result = applyAction(board, { type: 'drop', column: 3 }, 'Jaune', rules, pop10State({ Rouge: 1 }, 'Jaune'));
+
+    expect(result?.winner).toBeNull();
+    expect(result?.nextPlayer).toBe('Jaune');
+  });
+});
@@ -0,0 +1,82 @@
+import { CellValue } from '../../src/types/puissance4.types';
+import {
+  analyzePosition,
+  analyzePositionAsync,
+  getMovesToResult,
+  solvePosition,
+} from '../../src/utils/puissance4Solver';
+
+const MAX_NODES = 200000;
+
+// Quatre rangées du bas remplies sans alignement, deux rangées libres
+const openingBoard = (): CellValue[][] =>
+  Array.from({ length: 6 }, (_, row) => Array.from({ length: 7 }, (__, col): CellValue => {
+    if (row < 2) return null;
+    return (Math.floor((5 - row) / 2) + col) % 2 === 0 ? 'Rouge' : 'Jaune';
+  }));
+
+const place = (board: CellValue[][], color: CellValue, cells: [number, number][]) => {
+  cells.forEach(([row, col]) => {
+    board[row][col] = color;
+  });
+};
+
+describe('solveur du Puissance 4', () => {
+  it('joue le coup gagnant immédiat', () => {
+    const board = openingBoard();
+    place(board, 'Rouge', [[1, 0], [1, 1], [1, 2]]);
+    place(board, 'Jaune', [[0, 0], [0, 1], [0, 2]]);
+
+    expect(analyzePosition(board, 'Rouge', MAX_NODES)).toMatchObject({
+      bestColumn: 3,
+      outcome: 'win',
+      movesToEnd: 1,
+    });
+  });
+
+  it('bloque la menace adverse', () => {
+    const board = openingBoard();
+    place(board, 'Jaune', [[1, 0], [1, 1], [1, 2]]);
+    place(board, 'Rouge', [[1, 4], [1, 6], [0, 6]]);
+
+    expect(analyzePosition(board, 'Rouge', MAX_NODES)?.bestColumn).toBe(3);
+  });
+
+  it('le score de la position est celui du meilleur coup', () => {
+    const board = openingBoard();
+    const analysis = analyzePosition(board, 'Rouge', MAX_NODES);
+
+    expect(analysis).not.toBeNull();
+    expect(solvePosition(board, 'Rouge', MAX_NODES)).toBe(analysis?.score);
+    expect(analysis?.moves).toHaveLength(7);
+  });
+
+  it('abandonne si le budget de nœuds est dépassé', () => {
+    const empty = Array.from({ length: 6 }, () => Array<CellValue>(7).fill(null));
+    expect(analyzePosition(empty, 'Rouge', 10)).toBeNull();
+    expect(solvePosition(empty, 'Rouge', 10)).toBeNull();
+  });
+
+  it('l\'analyse par tranches donne le même résultat que l\'analyse directe', async () => {
+    const board = openingBoard();
+    place(board, 'Jaune', [[1, 3]]);
+
+    expect(await analyzePositionAsync(board, 'Rouge', 60000)).toEqual(
+      analyzePosition(board, 'Rouge', MAX_NODES)
+    );
+  });
+
+  it('rend la main à l\'interface et s\'arrête quand le temps ou la partie s\'achève', async () => {
+    const empty = Array.from({ length: 6 }, () => Array<CellValue>(7).fill(null));
+    let slices = 0;
+    const isCancelled = () => ++slices > 2;
+
+    expect(await analyzePositionAsync(empty, 'Rouge', 60000, isCancelled)).toBeNull();
+    expect(slices).toBe(3);
+    expect(await analyzePositionAsync(empty, 'Rouge', 0)).toBeNull();
+  });
+
+  it('pas de nombre de coups pour un nul', () => {
+    expect(getMovesToResult(0, 10)).toBeNull();
+  });
+});
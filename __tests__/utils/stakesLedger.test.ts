@@ -0,0 +1,89 @@
+import {
+  canUpdateDebtStatus,
+  createStakeDebt,
+  MAX_STAKE_REMINDERS,
+  shouldSendReminder,
+  StakeDebt,
+  STAKE_DEBT_DUE_DAYS,
+  STAKE_REMINDER_INTERVAL_MS,
+  summarizeLedger,
+} from '../../src/utils/stakesLedger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 1700000000000;
+const DEBTOR = 'alice';
+const CREDITOR = 'bob';
+
+const debt = (overrides: Partial<StakeDebt> = {}): StakeDebt => ({
+  ...createStakeDebt(
+    {
+      gameType: 'puissance4',
+      gameId: 'game-1',
+      debtorId: DEBTOR,
+      debtorName: 'Alice',
+      creditorId: CREDITOR,
+      creditorName: 'Bob',
+      description: 'Un massage',
+    },
+    NOW
+  ),
+  ...overrides,
+});
+
+describe('carnet des gages', () => {
+  it('crée une dette par partie, due après le délai', () => {
+    const created = debt();
+
+    expect(created.id).toBe('puissance4_game-1');
+    expect(created.participants).toEqual([DEBTOR, CREDITOR]);
+    expect(created.status).toBe('owed');
+    expect(created.dueAt - created.createdAt).toBe(STAKE_DEBT_DUE_DAYS * DAY_MS);
+  });
+
+  it('ne laisse que le créancier réclamer puis marquer la dette honorée', () => {
+    expect(canUpdateDebtStatus(debt(), 'claimed', CREDITOR)).toBe(true);
+    expect(canUpdateDebtStatus(debt(), 'claimed', DEBTOR)).toBe(false);
+    expect(canUpdateDebtStatus(debt({ status: 'claimed' }), 'claimed', CREDITOR)).toBe(false);
+
+    expect(canUpdateDebtStatus(debt(), 'fulfilled', CREDITOR)).toBe(true);
+    expect(canUpdateDebtStatus(debt({ status: 'claimed' }), 'fulfilled', CREDITOR)).toBe(true);
+    expect(canUpdateDebtStatus(debt({ status: 'fulfilled' }), 'fulfilled', CREDITOR)).toBe(false);
+    expect(canUpdateDebtStatus(debt(), 'owed', CREDITOR)).toBe(false);
+  });
+
+  it('relance une dette en retard, espacée et en nombre limité', () => {
+    const overdue = NOW + (STAKE_DEBT_DUE_DAYS + 1) * DAY_MS;
+
+    expect(shouldSendReminder(debt(), NOW + DAY_MS)).toBe(false);
+    expect(shouldSendReminder(debt(), overdue)).toBe(true);
+    expect(shouldSendReminder(debt({ status: 'fulfilled' }), overdue)).toBe(false);
+    expect(shouldSendReminder(debt({ lastReminderAt: overdue - DAY_MS, reminderCount: 1 }), overdue)).toBe(false);
+    expect(
+      shouldSendReminder(debt({ lastReminderAt: overdue - STAKE_REMINDER_INTERVAL_MS, reminderCount: 1 }), overdue)
+    ).toBe(true);
+    expect(shouldSendReminder(debt({ reminderCount: MAX_STAKE_REMINDERS }), overdue)).toBe(false);
+  });
+
+  it('résume les dettes du point de vue du joueur', () => {
+    const overdue = NOW + (STAKE_DEBT_DUE_DAYS + 1) * DAY_MS;
+    const debts = [
+      debt(),
+      debt({ id: 'b', dueAt: overdue + DAY_MS }),
+      debt({ id: 'c', debtorId: CREDITOR, creditorId: DEBTOR }),
+      debt({ id: 'd', status: 'fulfilled' }),
+    ];
+
+    expect(summarizeLedger(debts, DEBTOR, overdue)).toEqual({
+      owedByMe: 2,
+      owedToMe: 1,
+      overdueByMe: 1,
+      fulfilled: 1,
+    });
+    expect(summarizeLedger(debts, CREDITOR, overdue)).toEqual({
+      owedByMe: 1,
+      owedToMe: 2,
+      overdueByMe: 1,
+      fulfilled: 1,
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  createInitialClocks,
+  describeTimeControl,
+  getClocksAfterMove,
+  getPauseCredit,
+  getTurnDeadline,
+  hasFlagFallen,
+  MAX_PAUSE_CREDIT_MS,
+  TimeControl,
+} from '../../src/utils/timeControl';
+
+const BLITZ: TimeControl = { moveLimitMs: null, bankMs: 180000, incrementMs: 2000 };
+const PER_MOVE: TimeControl = { moveLimitMs: 30000, bankMs: null, incrementMs: 0 };
+const MIXED: TimeControl = { moveLimitMs: 30000, bankMs: 20000, incrementMs: 0 };
+
+describe('pendules', () => {
+  it('donne la même banque à chaque camp, ou aucune sans banque', () => {
+    expect(createInitialClocks(BLITZ, ['X', 'O'])).toEqual({ X: 180000, O: 180000 });
+    expect(createInitialClocks(PER_MOVE, ['X', 'O'])).toBeNull();
+    expect(createInitialClocks(null, ['X', 'O'])).toBeNull();
+  });
+
+  it('fait tomber le drapeau à la fin de la banque ou de la limite par coup', () => {
+    const clocks = { X: 180000, O: 5000 };
+
+    expect(getTurnDeadline(BLITZ, clocks, 'O', 1000)).toBe(6000);
+    expect(hasFlagFallen(BLITZ, clocks, 'O', 1000, 6000)).toBe(false);
+    expect(hasFlagFallen(BLITZ, clocks, 'O', 1000, 6001)).toBe(true);
+    expect(getTurnDeadline(PER_MOVE, null, 'X', 1000)).toBe(31000);
+  });
+
+  it('retient la plus courte de la banque et de la limite par coup', () => {
+    expect(getTurnDeadline(MIXED, { X: 20000 }, 'X', 1000)).toBe(21000);
+    expect(getTurnDeadline(MIXED, { X: 50000 }, 'X', 1000)).toBe(31000);
+  });
+
+  it('n\'a pas de drapeau sans cadence ou avant le premier tour', () => {
+    expect(getTurnDeadline(null, null, 'X', 1000)).toBeNull();
+    expect(getTurnDeadline(BLITZ, { X: 1000 }, 'X', null)).toBeNull();
+    expect(hasFlagFallen(undefined, null, 'X', 1000, Number.MAX_SAFE_INTEGER)).toBe(false);
+  });
+
+  it('retire le temps consommé et ajoute l\'incrément au seul joueur qui a joué', () => {
+    const clocks = { X: 180000, O: 180000 };
+
+    expect(getClocksAfterMove(BLITZ, clocks, 'X', 1000, 11000)).toEqual({ X: 172000, O: 180000 });
+    // Banque épuisée : jamais négative avant l'incrément
+    expect(getClocksAfterMove(BLITZ, { X: 3000, O: 0 }, 'X', 1000, 11000)).toEqual({ X: 2000, O: 0 });
+    expect(getClocksAfterMove(PER_MOVE, null, 'X', 1000, 11000)).toBeNull();
+  });
+
+  it('rend le temps de pause dans la limite du plafond', () => {
+    expect(getPauseCredit(null, 5000)).toBe(0);
+    expect(getPauseCredit(1000, 5000)).toBe(4000);
+    expect(getPauseCredit(5000, 1000)).toBe(0);
+    expect(getPauseCredit(1, MAX_PAUSE_CREDIT_MS * 2)).toBe(MAX_PAUSE_CREDIT_MS);
+  });
+
+  it('décrit les cadences prédéfinies et personnalisées', () => {
+    expect(describeTimeControl(BLITZ)).toBe('3 min + 2 s');
+    expect(describeTimeControl(null)).toBe('Sans limite');
+    expect(describeTimeControl(MIXED)).toBe('Cadence personnalisée');
+  });
+});
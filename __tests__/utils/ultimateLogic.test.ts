@@ -0,0 +1,64 @@
+import {
+  checkUltimateWinner,
+  getActiveSubBoards,
+  getCellIndexInSubBoard,
+  getSubBoardIndex,
+  getSubBoardPositions,
+  getSubBoardResult,
+  getUltimateMoveError,
+} from '../../src/utils/ultimateLogic';
+
+const emptyBoard = (): (string | null)[] => Array(81).fill(null);
+
+// Gagner une petite grille avec sa première rangée
+const winSubBoard = (board: (string | null)[], subBoard: number, symbol: string) => {
+  getSubBoardPositions(subBoard).slice(0, 3).forEach(position => {
+    board[position] = symbol;
+  });
+};
+
+describe('Morpion Ultimate', () => {
+  it('associe chaque position à sa petite grille et à sa case', () => {
+    expect(getSubBoardIndex(0)).toBe(0);
+    expect(getSubBoardIndex(40)).toBe(4);
+    expect(getSubBoardIndex(80)).toBe(8);
+    expect(getCellIndexInSubBoard(40)).toBe(4);
+    expect(getCellIndexInSubBoard(12)).toBe(3);
+    expect(getSubBoardPositions(4)).toEqual([30, 31, 32, 39, 40, 41, 48, 49, 50]);
+  });
+
+  it('le dernier coup impose la petite grille correspondante', () => {
+    const board = emptyBoard();
+    board[12] = 'X'; // Case 3 de la grille 1
+    expect(getActiveSubBoards(board, 12)).toEqual([3]);
+    expect(getUltimateMoveError(board, 27, 12)).toBeNull();
+    expect(getUltimateMoveError(board, 0, 12)).toBe('WRONG_SUB_BOARD');
+  });
+
+  it('une grille cible terminée laisse le choix libre', () => {
+    const board = emptyBoard();
+    winSubBoard(board, 3, 'O');
+    board[12] = 'X';
+    expect(getSubBoardResult(board, 3)).toBe('O');
+    expect(getActiveSubBoards(board, 12)).not.toContain(3);
+    expect(getActiveSubBoards(board, 12)).toHaveLength(8);
+    expect(getUltimateMoveError(board, 27, 12)).toBe('SUB_BOARD_CLOSED');
+  });
+
+  it('trois petites grilles alignées gagnent la partie', () => {
+    const board = emptyBoard();
+    [0, 4, 8].forEach(subBoard => winSubBoard(board, subBoard, 'X'));
+    const result = checkUltimateWinner(board);
+    expect(result.winner).toBe('X');
+    expect(result.line).toHaveLength(27);
+  });
+
+  it('partie nulle quand aucune petite grille ne reste ouverte', () => {
+    const board = emptyBoard();
+    // X, O, X / O, X, O / O, X, O : aucune ligne de grilles
+    ['X', 'O', 'X', 'O', 'X', 'O', 'O', 'X', 'O'].forEach((symbol, subBoard) => {
+      winSubBoard(board, subBoard, symbol);
+    });
+    expect(checkUltimateWinner(board)).toEqual({ winner: 'draw', line: [] });
+  });
+});
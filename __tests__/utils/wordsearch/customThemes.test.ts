@@ -0,0 +1,77 @@
+import { CustomWordTheme } from '../../../src/types/wordSearch.types';
+import {
+  CUSTOM_THEME_MAX_WORDS,
+  CUSTOM_THEME_MIN_WORDS,
+  getFittingWords,
+  normalizeCustomWord,
+  parseCustomWordsInput,
+  toWordTheme,
+  validateCustomWords,
+} from '../../../src/utils/wordsearch/customThemes';
+
+const WORDS = ['Paris', 'Lyon', 'Nantes', 'Brest', 'Nice'];
+
+const theme = (words: string[] = validateCustomWords(WORDS).words): CustomWordTheme => ({
+  id: 'custom_1',
+  ownerId: 'alice',
+  ownerName: 'Alice',
+  name: 'Nos voyages',
+  icon: '✈️',
+  color: '#4ECDC4',
+  words,
+  sharedWithPartner: true,
+  memberIds: ['alice', 'bob'],
+  createdAt: 1,
+  updatedAt: 1,
+});
+
+describe('thèmes personnalisés', () => {
+  it('ramène accents, ligatures, espaces et traits d\'union aux lettres de la grille', () => {
+    expect(normalizeCustomWord(' Saint-Malo ')).toBe('SAINTMALO');
+    expect(normalizeCustomWord('Crème brûlée')).toBe('CREMEBRULEE');
+    expect(normalizeCustomWord('Cœur')).toBe('COEUR');
+    expect(normalizeCustomWord('l\'été')).toBe('LETE');
+  });
+
+  it('découpe la saisie par ligne, virgule ou point-virgule', () => {
+    expect(parseCustomWordsInput('Paris\nLyon, Nantes;; \n Brest')).toEqual(['Paris', 'Lyon', 'Nantes', 'Brest']);
+  });
+
+  it('écarte les mots invalides, trop courts, trop longs ou en double', () => {
+    const validation = validateCustomWords([...WORDS, 'R2D2', 'Oz', 'Anticonstitutionnellement', 'paris', 'Pâris']);
+
+    expect(validation.words).toEqual(['PARIS', 'LYON', 'NANTES', 'BREST', 'NICE']);
+    expect(validation.rejected.map(check => [check.input, check.issue])).toEqual([
+      ['R2D2', 'invalid_characters'],
+      ['Oz', 'too_short'],
+      ['Anticonstitutionnellement', 'too_long'],
+      ['paris', 'duplicate'],
+      ['Pâris', 'duplicate'],
+    ]);
+    expect(validation.isValid).toBe(true);
+  });
+
+  it('demande assez de mots, sans dépasser le maximum', () => {
+    expect(validateCustomWords(WORDS.slice(0, CUSTOM_THEME_MIN_WORDS - 1)).isValid).toBe(false);
+
+    const tooMany = Array.from({ length: CUSTOM_THEME_MAX_WORDS + 1 }, (_, i) =>
+      `MOT${String.fromCharCode(65 + (i % 26))}${String.fromCharCode(65 + Math.floor(i / 26))}`
+    );
+    expect(validateCustomWords(tooMany).errors).toEqual([`${CUSTOM_THEME_MAX_WORDS} mots maximum`]);
+  });
+
+  it('ne propose que les difficultés dont la grille contient les mots', () => {
+    const longWords = ['AEROPORTS', 'CROISIERES', 'MONTAGNES', 'VOYAGEURS', 'PAYSAGES'];
+    const validation = validateCustomWords(longWords);
+
+    expect(getFittingWords(longWords, 'easy')).toEqual(['PAYSAGES']);
+    expect(validation.playableDifficulties).toEqual(['medium', 'hard', 'expert']);
+    expect(toWordTheme(theme(validation.words), 'alice', 'easy').unlocked).toBe(false);
+    expect(toWordTheme(theme(validation.words), 'alice', 'medium').unlocked).toBe(true);
+  });
+
+  it('présente le thème comme le sien au propriétaire et comme partagé au partenaire', () => {
+    expect(toWordTheme(theme(), 'alice')).toMatchObject({ description: 'Mon thème', sharedBy: undefined, custom: true });
+    expect(toWordTheme(theme(), 'bob')).toMatchObject({ description: 'Partagé par Alice', sharedBy: 'Alice' });
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  applyVerifiedEntries,
+  createLedgerEntry,
+  createLevelRewardEntry,
+  createOpeningEntries,
+  createStarterPack,
+  getGameRewardEntryId,
+  getLedgerBalances,
+  getMaxGameReward,
+  getOpeningBalances,
+  isValidLedgerEntry,
+  rekeyOpeningEntries,
+  sanitizeLedger,
+  STARTER_POWER_UPS,
+} from '../../../src/utils/wordsearch/economyLedger';
+import { getShopItemById, POWER_UP_UNIT_PRICES } from '../../../src/data/shop';
+import { LedgerEntry } from '../../../src/types/wordSearch.types';
+
+const owner = { id: 'p1', level: 3, openingBalances: { coins: 100 } };
+
+const gameResult = {
+  score: 500,
+  timeElapsed: 120,
+  wordsFound: 3,
+  totalWords: 5,
+  bonusWordsFound: 0,
+  difficulty: 'easy' as const,
+  theme: 'animals',
+};
+
+const reward = (amount: number, id = getGameRewardEntryId(gameResult, 1)): LedgerEntry => createLedgerEntry({
+  id,
+  type: 'earn',
+  currency: 'coins',
+  amount,
+  reason: 'game_reward',
+  gameResult,
+}, 1);
+
+const opening = (id: string): LedgerEntry => createLedgerEntry({
+  id,
+  type: 'earn',
+  currency: 'coins',
+  amount: 100,
+  reason: 'opening_balance',
+}, 1);
+
+const spend = (id: string, amount: number, itemId?: string): LedgerEntry => createLedgerEntry({
+  id,
+  type: 'spend',
+  currency: 'coins',
+  amount,
+  reason: 'shop_purchase',
+  itemId,
+}, 2);
+
+// Power-ups reçus avec un achat, à la date du paiement
+const grant = (id: string, amount: number, itemId: string, createdAt = 2): LedgerEntry => createLedgerEntry({
+  id,
+  type: 'earn',
+  currency: 'revealLetter',
+  amount,
+  reason: 'shop_purchase',
+  itemId,
+}, createdAt);
+
+const refund = (id: string, refundOf: string, amount: number): LedgerEntry => createLedgerEntry({
+  id,
+  type: 'refund',
+  currency: 'coins',
+  amount,
+  reason: 'shop_purchase',
+  refundOf,
+}, 3);
+
+describe('registre de l\'économie Mots Mêlés', () => {
+  it('le pack de départ donne les power-ups de départ', () => {
+    expect(getLedgerBalances(createStarterPack(1), owner).powerUps).toEqual(STARTER_POWER_UPS);
+    expect(isValidLedgerEntry({ ...createStarterPack(1)[0], id: 'starter_bis' }, owner)).toBe(false);
+  });
+
+  it('une récompense de partie ne dépasse pas le maximum du résultat', () => {
+    const max = getMaxGameReward(gameResult);
+
+    expect(max).toBe(10);
+    expect(isValidLedgerEntry(reward(max), owner)).toBe(true);
+    expect(isValidLedgerEntry(reward(max + 1), owner)).toBe(false);
+  });
+
+  it('l\'id d\'une récompense de partie dépend de son résultat', () => {
+    expect(isValidLedgerEntry(reward(10, 'copie_1'), owner)).toBe(false);
+    expect(isValidLedgerEntry({ ...reward(10), gameResult: { ...gameResult, score: 900 } }, owner)).toBe(false);
+  });
+
+  it('une récompense de niveau seulement pour un niveau atteint', () => {
+    expect(isValidLedgerEntry(createLevelRewardEntry(3, 1), owner)).toBe(true);
+    expect(isValidLedgerEntry(createLevelRewardEntry(4, 1), owner)).toBe(false);
+    expect(isValidLedgerEntry(createLevelRewardEntry(1, 1), owner)).toBe(false);
+    expect(isValidLedgerEntry({ ...createLevelRewardEntry(2, 1), id: 'level_2_bis' }, owner)).toBe(false);
+  });
+
+  it('une seule écriture d\'ouverture par monnaie, liée au profil et à ses soldes figés', () => {
+    expect(isValidLedgerEntry(opening('opening_p1'), owner)).toBe(true);
+    expect(isValidLedgerEntry(opening('opening_p2'), owner)).toBe(false);
+    expect(isValidLedgerEntry(opening('opening_p1_revealLetter'), owner)).toBe(false);
+    expect(isValidLedgerEntry({ ...opening('opening_p1'), type: 'spend' }, owner)).toBe(false);
+    expect(isValidLedgerEntry({ ...opening('opening_p1'), amount: 5000 }, owner)).toBe(false);
+    expect(isValidLedgerEntry(opening('opening_p1'), { id: 'p1', level: 3 })).toBe(false);
+    expect(getLedgerBalances([opening('opening_p1'), opening('opening_p1')], owner).coins).toBe(100);
+  });
+
+  it('refuse les montants négatifs ou non entiers', () => {
+    expect(isValidLedgerEntry({ ...createLevelRewardEntry(2, 1), amount: -50 }, owner)).toBe(false);
+    expect(isValidLedgerEntry({ ...spend('achat', 10), amount: 2.5 }, owner)).toBe(false);
+  });
+
+  it('déduplique par id : un niveau n\'est payé qu\'une fois', () => {
+    const ledger = [createLevelRewardEntry(2, 1), createLevelRewardEntry(2, 5)];
+    expect(sanitizeLedger(ledger, owner)).toHaveLength(1);
+  });
+
+  it('un seul remboursement par dépense, jamais supérieur à celle-ci', () => {
+    const ledger = [
+      opening('opening_p1'),
+      spend('achat', 40),
+      refund('remb1', 'achat', 40),
+      refund('remb2', 'achat', 40),
+      refund('remb3', 'inconnu', 40),
+    ];
+    expect(getLedgerBalances(ledger, owner).coins).toBe(100);
+    expect(getLedgerBalances([opening('opening_p1'), spend('achat', 40), refund('trop', 'achat', 50)], owner).coins)
+      .toBe(60);
+  });
+
+  it('reprend le solde d\'un ancien profil', () => {
+    const legacy = { ...owner, coins: 75, powerUps: STARTER_POWER_UPS, createdAt: 1 };
+    const openingBalances = getOpeningBalances(legacy);
+    const entries = createOpeningEntries(legacy, openingBalances);
+
+    expect(openingBalances).toEqual({ coins: 75, revealLetter: 3, revealWord: 1 });
+    expect(entries.map(entry => entry.id)).toContain('opening_p1');
+    expect(getLedgerBalances(entries, { ...owner, openingBalances })).toEqual({ coins: 75, powerUps: STARTER_POWER_UPS });
+  });
+
+  it('reprend l\'ancien registre de pièces : niveaux et dépenses gardent leur id', () => {
+    const legacy = {
+      ...owner,
+      coins: 0,
+      powerUps: STARTER_POWER_UPS,
+      createdAt: 1,
+      coinLedger: [
+        { id: 'bonus_a', amount: 30, createdAt: 1 },
+        { id: 'bonus_b', amount: 20, createdAt: 2 },
+        { id: 'level_2', amount: 50, createdAt: 3 },
+        { id: 'achat_a', amount: -15, createdAt: 4 },
+      ],
+    };
+    const openingBalances = getOpeningBalances(legacy);
+    const entries = createOpeningEntries(legacy, openingBalances);
+
+    expect(openingBalances.coins).toBe(50);
+    expect(entries.map(entry => entry.id)).toEqual(expect.arrayContaining(['level_2', 'achat_a', 'opening_p1']));
+    expect(getLedgerBalances(entries, { ...owner, openingBalances }).coins).toBe(85);
+  });
+
+  it('les écritures d\'ouverture suivent le profil qui prend l\'id du compte', () => {
+    const legacy = { id: 'local', coins: 40, powerUps: STARTER_POWER_UPS, createdAt: 1 };
+    const openingBalances = getOpeningBalances(legacy);
+    const entries = createOpeningEntries(legacy, openingBalances);
+    const account = { id: 'uid', level: 1, openingBalances };
+
+    expect(getLedgerBalances(entries, account).coins).toBe(0);
+    expect(getLedgerBalances(rekeyOpeningEntries(entries, 'local', 'uid'), account))
+      .toEqual({ coins: 40, powerUps: STARTER_POWER_UPS });
+  });
+
+  it('refuse des pièces gagnées avec un achat ou un power-up utilisé', () => {
+    expect(isValidLedgerEntry({ ...spend('achat', 10), type: 'earn' }, owner)).toBe(false);
+    expect(isValidLedgerEntry({ ...spend('achat', 10), type: 'earn', reason: 'power_up_used' }, owner)).toBe(false);
+    expect(isValidLedgerEntry({ ...grant('gain', 1, 'hint_letter'), reason: 'power_up_used' }, owner)).toBe(false);
+  });
+
+  it('des power-ups achetés seulement contre leur paiement, dans la quantité du catalogue', () => {
+    const price = getShopItemById('hint_bundle_5')!.price;
+    const payment = spend('achat', price, 'hint_bundle_5');
+
+    expect(getLedgerBalances([opening('opening_p1'), payment, grant('gain', 5, 'hint_bundle_5')], owner))
+      .toMatchObject({ coins: 100 - price, powerUps: { revealLetter: 5 } });
+    expect(getLedgerBalances([grant('gain', 5, 'hint_bundle_5')], owner).powerUps.revealLetter).toBe(0);
+    expect(getLedgerBalances([payment, grant('gain', 6, 'hint_bundle_5')], owner).powerUps.revealLetter).toBe(0);
+    expect(getLedgerBalances([payment, grant('gain', 5, 'hint_bundle_5', 9)], owner).powerUps.revealLetter).toBe(0);
+    expect(getLedgerBalances([payment, grant('gain', 5, 'hint_bundle_10')], owner).powerUps.revealLetter).toBe(0);
+    expect(getLedgerBalances([{ ...payment, amount: 1 }, grant('gain', 5, 'hint_bundle_5')], owner).powerUps.revealLetter)
+      .toBe(0);
+  });
+
+  it('un paiement ne donne ses power-ups qu\'une fois, et plus du tout s\'il est remboursé', () => {
+    const payment = spend('achat', POWER_UP_UNIT_PRICES.revealLetter * 3, 'quick_revealLetter');
+    const gain = grant('gain', 3, 'quick_revealLetter');
+
+    expect(getLedgerBalances([payment, gain, grant('copie', 3, 'quick_revealLetter')], owner).powerUps.revealLetter)
+      .toBe(3);
+    expect(getLedgerBalances([payment, grant('gain', 4, 'quick_revealLetter')], owner).powerUps.revealLetter).toBe(0);
+    expect(getLedgerBalances([payment, gain, refund('remb', 'achat', payment.amount)], owner).powerUps.revealLetter)
+      .toBe(0);
+  });
+
+  it('ne garde que les récompenses en ligne vérifiées par le serveur', () => {
+    const online = (id: string): LedgerEntry => createLedgerEntry({
+      id,
+      type: 'earn',
+      currency: 'coins',
+      amount: 30,
+      reason: 'online_game_reward',
+      gameId: id,
+    }, 1);
+
+    const ledger = applyVerifiedEntries([online('local'), online('verifiee')], [online('verifiee')], owner);
+    expect(ledger.map(entry => entry.id)).toEqual(['verifiee']);
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  createShapeMask,
+  getLongestRun,
+  isPlayableCell,
+  parseMask,
+  resolveGridMask,
+} from '../../../src/utils/wordsearch/gridMasks';
+
+describe('grilles en forme', () => {
+  it.each(['circle', 'heart', 'star'] as const)('le masque %s a la taille de la grille', shape => {
+    const mask = createShapeMask(shape, 12);
+    expect(mask).toHaveLength(12);
+    mask.forEach(row => expect(row).toHaveLength(12));
+    expect(mask.flat().some(Boolean)).toBe(true);
+    expect(mask.flat().every(Boolean)).toBe(false);
+  });
+
+  it('le cercle est symétrique et plein au centre', () => {
+    const mask = createShapeMask('circle', 10);
+    expect(mask[0][0]).toBe(false);
+    expect(mask[5][5]).toBe(true);
+    mask.forEach(row => expect(row).toEqual([...row].reverse()));
+  });
+
+  it('lit un masque dessiné', () => {
+    expect(parseMask(['#.', '.#'])).toEqual([[true, false], [false, true]]);
+  });
+
+  it('refuse un masque libre de mauvaise taille', () => {
+    expect(() => resolveGridMask(parseMask(['##', '##']), 3)).toThrow('3x3');
+    expect(resolveGridMask(parseMask(['##', '#.']), 2)).toEqual([[true, true], [true, false]]);
+  });
+
+  it('sans masque, toutes les cases sont jouables', () => {
+    const mask = parseMask(['#.']);
+    expect(isPlayableCell(null, 4, 4)).toBe(true);
+    expect(isPlayableCell(mask, 0, 0)).toBe(true);
+    expect(isPlayableCell(mask, 0, 1)).toBe(false);
+    expect(isPlayableCell(mask, 1, 0)).toBe(false);
+  });
+
+  it('plus longue suite jouable selon les directions', () => {
+    const mask = parseMask([
+      '###.',
+      '#...',
+      '#...',
+      '#...',
+    ]);
+    expect(getLongestRun(mask, ['horizontal'])).toBe(3);
+    expect(getLongestRun(mask, ['vertical'])).toBe(4);
+    expect(getLongestRun(mask, ['diagonal'])).toBe(1);
+  });
+});
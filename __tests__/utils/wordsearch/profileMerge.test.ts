@@ -0,0 +1,61 @@
+import { createLevelRewardEntry } from '../../../src/utils/wordsearch/economyLedger';
+import { mergeProfiles, normalizeProfile, STARTER_THEMES, withProfileId } from '../../../src/utils/wordsearch/profileMerge';
+import { PlayerProfile } from '../../../src/types/wordSearch.types';
+
+const profile = (id: string, fields: Partial<PlayerProfile>): PlayerProfile =>
+  normalizeProfile({ createdAt: 1, ledger: [], ...fields }, id);
+
+describe('fusion du profil Mots Mêlés', () => {
+  it('complète un ancien profil et reprend son solde', () => {
+    const normalized = normalizeProfile({ coins: 40, createdAt: 1 }, 'local');
+    expect(normalized).toMatchObject({ id: 'local', level: 1, coins: 40, unlockedThemes: STARTER_THEMES });
+    expect(normalized.ledger?.length).toBeGreaterThan(0);
+  });
+
+  it('ne perd aucune progression', () => {
+    const local = profile('local', {
+      level: 3,
+      xp: 300,
+      updatedAt: 10,
+      unlockedThemes: ['animals', 'space'],
+      ledger: [createLevelRewardEntry(2, 1), createLevelRewardEntry(3, 2)],
+    });
+    const remote = profile('compte', {
+      level: 2,
+      xp: 150,
+      updatedAt: 5,
+      unlockedThemes: ['animals', 'ocean'],
+      ledger: [createLevelRewardEntry(2, 1)],
+    });
+
+    const merged = mergeProfiles(local, remote);
+    expect(merged).toMatchObject({ id: 'compte', level: 3, xp: 300, updatedAt: 10 });
+    expect(merged.unlockedThemes).toEqual(['animals', 'space', 'ocean']);
+    expect(merged.ledger).toHaveLength(2);
+    expect(merged.coins).toBe(local.coins);
+  });
+
+  it('fusionner deux fois donne le même résultat', () => {
+    const local = profile('local', { level: 2, updatedAt: 10, ledger: [createLevelRewardEntry(2, 1)] });
+    const remote = profile('compte', { level: 3, updatedAt: 5, ledger: [createLevelRewardEntry(3, 2)] });
+
+    const once = mergeProfiles(local, remote);
+    expect(once.ledger).toHaveLength(2);
+    expect(mergeProfiles(local, once)).toEqual(once);
+  });
+
+  it('le solde repris d\'un ancien profil local suit le profil sur le compte', () => {
+    const local = normalizeProfile({ coins: 40, createdAt: 1 }, 'local');
+    const remote = profile('compte', { updatedAt: 5 });
+
+    expect(mergeProfiles(local, remote)).toMatchObject({ id: 'compte', coins: 40 });
+    expect(withProfileId(local, 'compte')).toMatchObject({ id: 'compte', coins: 40 });
+  });
+
+  it('une réinitialisation plus récente l\'emporte', () => {
+    const local = profile('local', { level: 8, xp: 2000, updatedAt: 10 });
+    const remote = profile('compte', { level: 1, xp: 0, updatedAt: 5, progressResetAt: 20 });
+
+    expect(mergeProfiles(local, remote)).toMatchObject({ id: 'compte', level: 1, xp: 0, updatedAt: 10 });
+  });
+});
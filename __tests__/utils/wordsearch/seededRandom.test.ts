@@ -0,0 +1,34 @@
+import { createSeededRandom, getGridSeed, shuffleWithRandom } from '../../../src/utils/wordsearch/seededRandom';
+
+const take = (seed: string, count: number): number[] => {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: count }, () => random());
+};
+
+describe('aléatoire reproductible', () => {
+  it('une même graine donne la même suite', () => {
+    expect(take('2026-10-19', 20)).toEqual(take('2026-10-19', 20));
+    expect(take('2026-10-19', 20)).not.toEqual(take('2026-10-20', 20));
+  });
+
+  it('les nombres restent dans [0, 1)', () => {
+    take('bornes', 1000).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('la graine de grille dépend du thème et de la difficulté', () => {
+    expect(getGridSeed('abc', 'animals', 'easy')).not.toBe(getGridSeed('abc', 'food', 'easy'));
+    expect(getGridSeed('abc', 'animals', 'easy')).not.toBe(getGridSeed('abc', 'animals', 'hard'));
+  });
+
+  it('le mélange est reproductible et garde les éléments', () => {
+    const items = Array.from({ length: 10 }, (_, i) => i);
+    const shuffled = shuffleWithRandom(items, createSeededRandom('mélange'));
+
+    expect(shuffled).toEqual(shuffleWithRandom(items, createSeededRandom('mélange')));
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(items);
+    expect(items).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+});
@@ -0,0 +1,12 @@
+/**
+ * Tests unitaires des règles (sans émulateur).
+ * Les tests *.emulator.test.ts passent par `npm run test:emulator`.
+ */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/test'],
+  testPathIgnorePatterns: ['/node_modules/', '\\.emulator\\.test\\.ts$'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: 'tsconfig.test.json' }],
+  },
+};
@@ -0,0 +1,14 @@
+/**
+ * Tests contre l'émulateur Firestore, lancés par `npm run test:emulator`
+ * (firebase emulators:exec fournit FIRESTORE_EMULATOR_HOST)
+ */
+const base = require('./jest.config');
+
+module.exports = {
+  ...base,
+  testPathIgnorePatterns: ['/node_modules/'],
+  testMatch: ['**/*.emulator.test.ts'],
+  testTimeout: 20000,
+  // Les tests partagent la même base émulée
+  maxWorkers: 1,
+};
@@ -0,0 +1,55 @@
+/**
+ * Copie les modules de règles partagés de l'application (src/utils) dans
+ * functions/src/shared, pour que le client et les Cloud Functions appliquent
+ * exactement le même code. Les copies sont versionnées et ne se modifient pas
+ * à la main : `node scripts/syncShared.js --check` échoue si l'une d'elles
+ * n'est plus à jour (lancé aussi par les tests unitaires).
+ */
+const fs = require('fs');
+const path = require('path');
+
+const ROOT_DIR = path.resolve(__dirname, '..', '..');
+const SHARED_DIR = path.resolve(__dirname, '..', 'src', 'shared');
+
+const SHARED_MODULES = [
+  'src/utils/timeControl.ts',
+  'src/utils/gomokuLogic.ts',
+  'src/utils/ultimateLogic.ts',
+  'src/utils/eloLogic.ts',
+  'src/utils/morpionMoveErrors.ts',
+  'src/utils/stakesLedger.ts',
+];
+
+const renderSharedModule = (source) =>
+  `// Généré depuis ${source} par functions/scripts/syncShared.js : ne pas modifier.\n` +
+  fs.readFileSync(path.join(ROOT_DIR, source), 'utf8');
+
+const getTargetPath = (source) => path.join(SHARED_DIR, path.basename(source));
+
+const check = process.argv.includes('--check');
+const outdated = [];
+
+if (!check) {
+  fs.mkdirSync(SHARED_DIR, { recursive: true });
+}
+
+SHARED_MODULES.forEach((source) => {
+  const target = getTargetPath(source);
+  const content = renderSharedModule(source);
+  const current = fs.existsSync(target) ? fs.readFileSync(target, 'utf8') : null;
+
+  if (current === content) {
+    return;
+  }
+  if (check) {
+    outdated.push(path.relative(ROOT_DIR, target));
+  } else {
+    fs.writeFileSync(target, content);
+    console.log(`${source} -> ${path.relative(ROOT_DIR, target)}`);
+  }
+});
+
+if (outdated.length > 0) {
+  console.error(`Copies partagées à régénérer (npm run sync:shared) :\n  ${outdated.join('\n  ')}`);
+  process.exit(1);
+}
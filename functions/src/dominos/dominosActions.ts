@@ -0,0 +1,607 @@
+import * as admin from 'firebase-admin';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import {
+  arrangeTeamSeats,
+  assertExpectedTurn,
+  calculateScore,
+  canPlaceTile,
+  dealHands,
+  determineStartingPlayer,
+  DominoSide,
+  DominosDeck,
+  DominosGame,
+  DominosHand,
+  DominosMoveErrorCode,
+  DominosMaxValue,
+  DominosMoveRejection,
+  DominosPlayer,
+  DominosRoundResult,
+  DominosRuleset,
+  DominoTile,
+  DOMINOS_DECK_DOC_ID,
+  DOMINOS_GAMES_COLLECTION,
+  DOMINOS_HAND_SIZES,
+  DOMINOS_HANDS_SUBCOLLECTION,
+  DOMINOS_MOVE_ERROR_MESSAGES,
+  DOMINOS_PRIVATE_SUBCOLLECTION,
+  DOMINOS_SEAT_COUNTS,
+  generateDominoSet,
+  getBlockedGameWinnerId,
+  getConnectingValue,
+  getKochonIds,
+  getNextPlayerId,
+  getReplayedResult,
+  getRoundScore,
+  getSideIds,
+  hasPlayableTile,
+  hasTopDoubleDealt,
+  isGameBlocked,
+  isValidActionId,
+  isValidExpectedTurn,
+  normalizeMaxValue,
+  normalizeRuleset,
+  normalizeTargetScore,
+  shuffleTiles,
+  TilePlacement,
+} from './dominosRules';
+
+interface GameRequest {
+  gameId: string;
+}
+
+/**
+ * Action de tour : actionId rend les nouvelles tentatives idempotentes,
+ * expectedTurn refuse une action préparée sur un état dépassé
+ */
+interface TurnActionRequest {
+  gameId: string;
+  actionId?: string;
+  expectedTurn?: number;
+}
+
+interface PlaceTileRequest extends TurnActionRequest {
+  tileId: string;
+  side: DominoSide;
+}
+
+interface TurnActionOutcome {
+  updateData: Record<string, unknown>;
+  result: Record<string, unknown>;
+}
+
+type TurnAction = (
+  transaction: admin.firestore.Transaction,
+  gameRef: admin.firestore.DocumentReference,
+  game: DominosGame,
+  uid: string,
+  now: number
+) => Promise<TurnActionOutcome>;
+
+const toHttpsError = (reason: DominosMoveErrorCode): HttpsError => {
+  const code = reason === 'UNAUTHENTICATED'
+    ? 'unauthenticated'
+    : reason === 'INVALID_ARGUMENT'
+      ? 'invalid-argument'
+      : reason === 'GAME_NOT_FOUND'
+        ? 'not-found'
+        : reason === 'NOT_A_PLAYER' || reason === 'NOT_HOST'
+          ? 'permission-denied'
+          : 'failed-precondition';
+
+  return new HttpsError(code, DOMINOS_MOVE_ERROR_MESSAGES[reason], { reason });
+};
+
+const getHandRef = (
+  gameRef: admin.firestore.DocumentReference,
+  playerId: string
+): admin.firestore.DocumentReference =>
+  gameRef.collection(DOMINOS_HANDS_SUBCOLLECTION).doc(playerId);
+
+const getDeckRef = (gameRef: admin.firestore.DocumentReference): admin.firestore.DocumentReference =>
+  gameRef.collection(DOMINOS_PRIVATE_SUBCOLLECTION).doc(DOMINOS_DECK_DOC_ID);
+
+const isValidTurnRequest = (data: TurnActionRequest): boolean =>
+  typeof data.gameId === 'string' && isValidActionId(data.actionId) && isValidExpectedTurn(data.expectedTurn);
+
+/**
+ * Exécuter une action de tour dans une transaction : la partie est relue,
+ * l'appelant doit jouer et avoir la main, puis le compteur de tours avance.
+ * Une nouvelle tentative du même actionId renvoie le résultat déjà obtenu
+ * sans rien réappliquer (double appui, reconnexion, withRetry).
+ */
+const runTurnAction = async (
+  uid: string,
+  { gameId, actionId, expectedTurn }: TurnActionRequest,
+  action: TurnAction
+): Promise<Record<string, unknown>> => {
+  const db = admin.firestore();
+  const gameRef = db.collection(DOMINOS_GAMES_COLLECTION).doc(gameId);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists) {
+        throw new DominosMoveRejection('GAME_NOT_FOUND');
+      }
+
+      const game = { id: gameDoc.id, ...gameDoc.data() } as DominosGame;
+      const replayed = getReplayedResult(game, uid, actionId);
+      if (replayed) {
+        return replayed;
+      }
+
+      if (game.status !== 'playing') {
+        throw new DominosMoveRejection('GAME_NOT_PLAYING');
+      }
+      if (!game.players.some(p => p.id === uid)) {
+        throw new DominosMoveRejection('NOT_A_PLAYER');
+      }
+      if (game.currentPlayerId !== uid) {
+        throw new DominosMoveRejection('NOT_YOUR_TURN');
+      }
+      assertExpectedTurn(game, expectedTurn);
+
+      const now = Date.now();
+      const { updateData, result } = await action(transaction, gameRef, game, uid, now);
+      const turnNumber = (game.turnNumber || 0) + 1;
+
+      transaction.update(gameRef, {
+        ...updateData,
+        turnNumber,
+        ...(actionId
+          ? { lastActions: { ...(game.lastActions || {}), [uid]: { actionId, turnNumber, result } } }
+          : {}),
+        updatedAt: now,
+      });
+
+      return result;
+    });
+  } catch (error) {
+    if (error instanceof DominosMoveRejection) {
+      throw toHttpsError(error.reason);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Lire les mains de tous les joueurs (avant toute écriture de la transaction)
+ */
+const getHands = async (
+  transaction: admin.firestore.Transaction,
+  gameRef: admin.firestore.DocumentReference,
+  game: DominosGame
+): Promise<Record<string, DominoTile[]>> => {
+  const handDocs = await Promise.all(
+    game.players.map(p => transaction.get(getHandRef(gameRef, p.id)))
+  );
+
+  const hands: Record<string, DominoTile[]> = {};
+  game.players.forEach((p, index) => {
+    hands[p.id] = (handDocs[index].data() as DominosHand | undefined)?.tiles || [];
+  });
+  return hands;
+};
+
+/**
+ * Champs de fin de partie : les mains sont révélées pour le décompte des points
+ */
+const getFinishData = (
+  winnerId: string,
+  winReason: 'emptied_hand' | 'lowest_score',
+  hands: Record<string, DominoTile[]>,
+  now: number
+): Record<string, unknown> => ({
+  status: 'finished',
+  winnerId,
+  winReason,
+  isBlocked: winReason === 'lowest_score',
+  finalHands: hands,
+  completedAt: now,
+});
+
+/**
+ * Mélanger et distribuer une manche. Sans joueur imposé (première manche),
+ * le double le plus haut est posé automatiquement ; sinon le gagnant de la
+ * manche précédente commence sur une table vide.
+ */
+const dealRound = (
+  transaction: admin.firestore.Transaction,
+  gameRef: admin.firestore.DocumentReference,
+  players: DominosPlayer[],
+  startingPlayerId: string | null,
+  ruleset: DominosRuleset,
+  maxValue: DominosMaxValue,
+  now: number
+): Record<string, unknown> => {
+  const playerIds = players.map(p => p.id);
+  const deal = () => dealHands(shuffleTiles(generateDominoSet(maxValue)), playerIds, DOMINOS_HAND_SIZES[maxValue]);
+  let dealt = deal();
+
+  // Règles haïtiennes : la première manche s'ouvre au plus haut double du
+  // jeu, on redistribue tant qu'il est resté hors des mains
+  while (ruleset === 'haitian' && !startingPlayerId && !hasTopDoubleDealt(dealt.hands, maxValue)) {
+    dealt = deal();
+  }
+
+  const { hands } = dealt;
+  // Pas de pioche en règles haïtiennes : les tuiles restantes sont écartées
+  const drawPile = ruleset === 'haitian' ? [] : dealt.drawPile;
+
+  let board: TilePlacement[] = [];
+  let leftEnd: number | null = null;
+  let rightEnd: number | null = null;
+  let currentPlayerId = startingPlayerId || playerIds[0];
+
+  if (!startingPlayerId) {
+    const { startingPlayerId: doubleHolderId, highestDouble } = determineStartingPlayer(playerIds, hands);
+    if (highestDouble) {
+      hands[doubleHolderId] = hands[doubleHolderId].filter(t => t.id !== highestDouble.id);
+      board = [{
+        tile: { ...highestDouble, orientation: 'vertical' },
+        position: 0,
+        side: 'left',
+        timestamp: now,
+        playerId: doubleHolderId,
+      }];
+      leftEnd = highestDouble.left;
+      rightEnd = highestDouble.right;
+      currentPlayerId = getNextPlayerId(playerIds, doubleHolderId);
+    }
+  }
+
+  playerIds.forEach(playerId => {
+    const hand: DominosHand = { playerId, tiles: hands[playerId], updatedAt: now };
+    transaction.set(getHandRef(gameRef, playerId), hand);
+  });
+  const deck: DominosDeck = { tiles: drawPile };
+  transaction.set(getDeckRef(gameRef), deck);
+
+  return {
+    currentPlayerId,
+    board,
+    players: players.map(p => ({
+      ...p,
+      tilesCount: hands[p.id].length,
+      hasDrawn: false,
+      hasPassed: false,
+    })),
+    drawPileCount: drawPile.length,
+    leftEnd,
+    rightEnd,
+    isBlocked: false,
+  };
+};
+
+/**
+ * Clore une manche : le camp gagnant marque les points restants adverses.
+ * Tant que l'objectif du match n'est pas atteint, une nouvelle manche est
+ * distribuée dans la même transaction (redealt = true : les mains ont déjà
+ * été réécrites).
+ */
+const endRound = (
+  transaction: admin.firestore.Transaction,
+  gameRef: admin.firestore.DocumentReference,
+  game: DominosGame,
+  players: DominosPlayer[],
+  winnerId: string,
+  winReason: 'emptied_hand' | 'lowest_score',
+  hands: Record<string, DominoTile[]>,
+  now: number
+): { updateData: Record<string, unknown>; redealt: boolean } => {
+  const playerIds = players.map(p => p.id);
+  const ruleset = normalizeRuleset(game.ruleset);
+  // À quatre, le partenaire du gagnant marque aussi : score d'équipe
+  const winnerIds = getSideIds(players, winnerId);
+  const points = getRoundScore(ruleset, playerIds, hands, winnerIds);
+  const scoredPlayers = players.map(p => (winnerIds.includes(p.id) ? { ...p, score: p.score + points } : p));
+
+  const remainingPips: Record<string, number> = {};
+  playerIds.forEach(playerId => {
+    remainingPips[playerId] = calculateScore(hands[playerId] || []);
+  });
+
+  const roundNumber = game.roundNumber || 1;
+  const round: DominosRoundResult = { roundNumber, winnerId, winReason, points, remainingPips, completedAt: now };
+  const roundData = { rounds: [...(game.rounds || []), round], finalHands: hands };
+
+  const winnerScore = scoredPlayers.find(p => p.id === winnerId)!.score;
+  if (winnerScore >= normalizeTargetScore(game.targetScore, ruleset)) {
+    return {
+      updateData: {
+        ...getFinishData(winnerId, winReason, hands, now),
+        ...roundData,
+        players: scoredPlayers,
+        kochonIds: getKochonIds(ruleset, scoredPlayers, winnerIds),
+      },
+      redealt: false,
+    };
+  }
+
+  return {
+    updateData: {
+      ...dealRound(transaction, gameRef, scoredPlayers, winnerId, ruleset, normalizeMaxValue(game.maxValue), now),
+      ...roundData,
+      roundNumber: roundNumber + 1,
+    },
+    redealt: true,
+  };
+};
+
+/**
+ * Démarrer un match de Dominos (hôte seulement).
+ *
+ * Le serveur mélange et distribue : chaque main est écrite dans la
+ * sous-collection hands et la pioche dans private/deck, jamais dans le
+ * document partagé. Le double le plus haut est posé automatiquement.
+ * Les manches s'enchaînent jusqu'à ce qu'un camp atteigne targetScore.
+ * À quatre (deux contre deux), les 28 tuiles sont distribuées : pas de pioche.
+ */
+export const dominosStartGame = onCall<GameRequest>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw toHttpsError('UNAUTHENTICATED');
+  }
+
+  const { gameId } = request.data || ({} as GameRequest);
+  if (typeof gameId !== 'string') {
+    throw toHttpsError('INVALID_ARGUMENT');
+  }
+
+  const db = admin.firestore();
+  const gameRef = db.collection(DOMINOS_GAMES_COLLECTION).doc(gameId);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists) {
+        throw new DominosMoveRejection('GAME_NOT_FOUND');
+      }
+
+      const game = { id: gameDoc.id, ...gameDoc.data() } as DominosGame;
+      if (game.hostId !== uid) {
+        throw new DominosMoveRejection('NOT_HOST');
+      }
+      if (game.status !== 'waiting') {
+        throw new DominosMoveRejection('GAME_NOT_WAITING');
+      }
+      const seatCount = DOMINOS_SEAT_COUNTS.includes(game.maxPlayers || 2) ? game.maxPlayers || 2 : 2;
+      if (game.players.length !== seatCount) {
+        throw new DominosMoveRejection('PLAYERS_MISSING');
+      }
+      if (!game.players.every(p => p.isReady)) {
+        throw new DominosMoveRejection('PLAYERS_NOT_READY');
+      }
+
+      // À quatre, les partenaires s'assoient face à face
+      const seatedPlayers = seatCount === 4 ? arrangeTeamSeats(game.players) : game.players;
+      if (!seatedPlayers) {
+        throw new DominosMoveRejection('TEAMS_UNBALANCED');
+      }
+
+      const now = Date.now();
+      const ruleset = normalizeRuleset(game.ruleset);
+      const maxValue = normalizeMaxValue(game.maxValue);
+      const players = seatedPlayers.map(p => ({ ...p, score: 0 }));
+      const roundData = dealRound(transaction, gameRef, players, null, ruleset, maxValue, now);
+
+      transaction.update(gameRef, {
+        ...roundData,
+        status: 'playing',
+        startedAt: now,
+        ruleset,
+        maxValue,
+        targetScore: normalizeTargetScore(game.targetScore, ruleset),
+        roundNumber: 1,
+        rounds: [],
+        finalHands: null,
+        kochonIds: [],
+        turnNumber: 0,
+        lastActions: {},
+        updatedAt: now,
+      });
+
+      const board = roundData.board as TilePlacement[];
+      return { currentPlayerId: roundData.currentPlayerId, firstTilePlaced: board.length > 0 };
+    });
+  } catch (error) {
+    if (error instanceof DominosMoveRejection) {
+      throw toHttpsError(error.reason);
+    }
+    throw error;
+  }
+});
+
+/**
+ * Poser une tuile de sa main à une extrémité de la chaîne
+ */
+const placeTile = (tileId: string, side: DominoSide): TurnAction =>
+  async (transaction, gameRef, game, uid, now) => {
+    const hands = await getHands(transaction, gameRef, game);
+
+    const tile = hands[uid].find(t => t.id === tileId);
+    if (!tile) {
+      throw new DominosMoveRejection('TILE_NOT_IN_HAND');
+    }
+
+    const { canPlaceLeft, canPlaceRight } = canPlaceTile(tile, game.leftEnd, game.rightEnd);
+    if ((side === 'left' && !canPlaceLeft) || (side === 'right' && !canPlaceRight)) {
+      throw new DominosMoveRejection('INVALID_PLACEMENT');
+    }
+
+    let leftEnd = game.leftEnd;
+    let rightEnd = game.rightEnd;
+    if (game.board.length === 0) {
+      leftEnd = tile.left;
+      rightEnd = tile.right;
+    } else if (side === 'left') {
+      leftEnd = getConnectingValue(tile, game.leftEnd!);
+    } else {
+      rightEnd = getConnectingValue(tile, game.rightEnd!);
+    }
+
+    const placement: TilePlacement = {
+      tile: { ...tile, orientation: tile.isDouble ? 'vertical' : 'horizontal' },
+      position: side === 'left' ? -game.board.length : game.board.length,
+      side,
+      timestamp: now,
+      playerId: uid,
+    };
+
+    hands[uid] = hands[uid].filter(t => t.id !== tileId);
+    const playerIds = game.players.map(p => p.id);
+
+    const updateData: Record<string, unknown> = {
+      board: [...game.board, placement],
+      leftEnd,
+      rightEnd,
+      players: game.players.map(p => ({
+        ...p,
+        tilesCount: hands[p.id].length,
+        hasDrawn: false,
+        hasPassed: false,
+      })),
+      currentPlayerId: getNextPlayerId(playerIds, uid),
+    };
+
+    let winnerId: string | null = null;
+    let winReason: 'emptied_hand' | 'lowest_score' | null = null;
+    if (hands[uid].length === 0) {
+      winnerId = uid;
+      winReason = 'emptied_hand';
+      updateData.currentPlayerId = uid;
+    } else if (isGameBlocked(Object.values(hands), leftEnd, rightEnd, game.drawPileCount)) {
+      // Le poseur de cette tuile a bloqué le jeu
+      winnerId = getBlockedGameWinnerId(normalizeRuleset(game.ruleset), playerIds, hands, uid);
+      winReason = 'lowest_score';
+    }
+
+    let redealt = false;
+    if (winnerId && winReason) {
+      const round = endRound(
+        transaction, gameRef, game, updateData.players as DominosPlayer[], winnerId, winReason, hands, now
+      );
+      Object.assign(updateData, round.updateData);
+      redealt = round.redealt;
+    }
+
+    // Une nouvelle donne a déjà réécrit toutes les mains
+    if (!redealt) {
+      transaction.set(getHandRef(gameRef, uid), { playerId: uid, tiles: hands[uid], updatedAt: now });
+    }
+
+    return { updateData, result: { winnerId, roundEnded: !!winnerId, matchEnded: !!winnerId && !redealt } };
+  };
+
+/**
+ * Piocher une tuile (une fois par tour), tirée de la pioche cachée
+ */
+const drawTile: TurnAction = async (transaction, gameRef, game, uid, now) => {
+  const deckDoc = await transaction.get(getDeckRef(gameRef));
+  const handDoc = await transaction.get(getHandRef(gameRef, uid));
+
+  const drawPile = (deckDoc.data() as DominosDeck | undefined)?.tiles || [];
+  if (drawPile.length === 0) {
+    throw new DominosMoveRejection('DRAW_PILE_EMPTY');
+  }
+  if (game.players.find(p => p.id === uid)?.hasDrawn) {
+    throw new DominosMoveRejection('ALREADY_DRAWN');
+  }
+
+  const [drawnTile, ...remaining] = drawPile;
+  const hand = [...((handDoc.data() as DominosHand | undefined)?.tiles || []), drawnTile];
+
+  transaction.set(getDeckRef(gameRef), { tiles: remaining });
+  transaction.set(getHandRef(gameRef, uid), { playerId: uid, tiles: hand, updatedAt: now });
+
+  return {
+    updateData: {
+      players: game.players.map(p =>
+        p.id === uid ? { ...p, tilesCount: hand.length, hasDrawn: true } : p
+      ),
+      drawPileCount: remaining.length,
+    },
+    result: { drawPileCount: remaining.length },
+  };
+};
+
+/**
+ * Passer son tour, seulement sans coup possible et après avoir pioché
+ * (ou pioche vide). Si plus personne ne peut poser, la partie est bloquée.
+ */
+const passTurn: TurnAction = async (transaction, gameRef, game, uid, now) => {
+  const hands = await getHands(transaction, gameRef, game);
+  const player = game.players.find(p => p.id === uid)!;
+
+  if (hasPlayableTile(hands[uid], game.leftEnd, game.rightEnd)) {
+    throw new DominosMoveRejection('MOVES_AVAILABLE');
+  }
+  if (game.drawPileCount > 0 && !player.hasDrawn) {
+    throw new DominosMoveRejection('MUST_DRAW');
+  }
+
+  const playerIds = game.players.map(p => p.id);
+  const updateData: Record<string, unknown> = {
+    players: game.players.map(p =>
+      p.id === uid ? { ...p, hasPassed: true, hasDrawn: false } : { ...p, hasDrawn: false }
+    ),
+    currentPlayerId: getNextPlayerId(playerIds, uid),
+  };
+
+  let winnerId: string | null = null;
+  let redealt = false;
+  if (isGameBlocked(Object.values(hands), game.leftEnd, game.rightEnd, game.drawPileCount)) {
+    const blockerId = game.board[game.board.length - 1]?.playerId || null;
+    winnerId = getBlockedGameWinnerId(normalizeRuleset(game.ruleset), playerIds, hands, blockerId);
+    const round = endRound(
+      transaction, gameRef, game, updateData.players as DominosPlayer[], winnerId, 'lowest_score', hands, now
+    );
+    Object.assign(updateData, round.updateData);
+    redealt = round.redealt;
+  }
+
+  return { updateData, result: { winnerId, roundEnded: !!winnerId, matchEnded: !!winnerId && !redealt } };
+};
+
+export const dominosPlaceTile = onCall<PlaceTileRequest>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw toHttpsError('UNAUTHENTICATED');
+  }
+
+  const data = request.data || ({} as PlaceTileRequest);
+  const { tileId, side } = data;
+  if (!isValidTurnRequest(data) || typeof tileId !== 'string' || (side !== 'left' && side !== 'right')) {
+    throw toHttpsError('INVALID_ARGUMENT');
+  }
+
+  return runTurnAction(uid, data, placeTile(tileId, side));
+});
+
+export const dominosDrawTile = onCall<TurnActionRequest>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw toHttpsError('UNAUTHENTICATED');
+  }
+
+  const data = request.data || ({} as TurnActionRequest);
+  if (!isValidTurnRequest(data)) {
+    throw toHttpsError('INVALID_ARGUMENT');
+  }
+
+  return runTurnAction(uid, data, drawTile);
+});
+
+export const dominosPassTurn = onCall<TurnActionRequest>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw toHttpsError('UNAUTHENTICATED');
+  }
+
+  const data = request.data || ({} as TurnActionRequest);
+  if (!isValidTurnRequest(data)) {
+    throw toHttpsError('INVALID_ARGUMENT');
+  }
+
+  return runTurnAction(uid, data, passTurn);
+});
@@ -0,0 +1,459 @@
+import { randomInt } from 'crypto';
+
+/**
+ * Règles des Dominos côté serveur.
+ *
+ * Les mains et la pioche ne sont jamais écrites dans le document partagé :
+ * chaque main vit dans dominos_games/{gameId}/hands/{playerId} (lisible par
+ * son seul propriétaire) et la pioche dans dominos_games/{gameId}/private/deck
+ * (inaccessible aux clients). Seules ces Cloud Functions les modifient.
+ * Miroir côté application : src/utils/dominosLogic.ts
+ */
+
+export const DOMINOS_GAMES_COLLECTION = 'dominos_games';
+export const DOMINOS_HANDS_SUBCOLLECTION = 'hands';
+export const DOMINOS_PRIVATE_SUBCOLLECTION = 'private';
+export const DOMINOS_DECK_DOC_ID = 'deck';
+
+/**
+ * Jeux disponibles (valeur maximale d'une moitié) et taille des mains
+ * jusqu'à quatre joueurs : 7 tuiles au double-six, 10 au double-neuf,
+ * 12 au double-douze
+ */
+export type DominosMaxValue = 6 | 9 | 12;
+export const DOMINOS_HAND_SIZES: Record<DominosMaxValue, number> = { 6: 7, 9: 10, 12: 12 };
+export const DOMINOS_DEFAULT_MAX_VALUE: DominosMaxValue = 6;
+export const DOMINOS_TARGET_SCORES = [50, 100, 150];
+export const DOMINOS_DEFAULT_TARGET_SCORE = 100;
+export const DOMINOS_SEAT_COUNTS = [2, 4];
+export const DOMINOS_HAITIAN_TARGET_WINS = [3, 4, 5];
+export const DOMINOS_HAITIAN_DEFAULT_TARGET_WINS = 3;
+
+/**
+ * classic : pioche, le gagnant d'une manche marque les points adverses.
+ * haitian : sans pioche, première manche ouverte au plus haut double, une
+ * manche gagnée vaut un point et le perdant sans manche est « kochon ».
+ */
+export type DominosRuleset = 'classic' | 'haitian';
+
+export type DominoSide = 'left' | 'right';
+
+export interface DominoTile {
+  id: string;
+  left: number;
+  right: number;
+  isDouble: boolean;
+  orientation: 'horizontal' | 'vertical';
+}
+
+export interface TilePlacement {
+  tile: DominoTile;
+  position: number;
+  side: DominoSide;
+  timestamp: number;
+  playerId: string;
+}
+
+export interface DominosPlayer {
+  id: string;
+  profile: { id: string; name: string; [key: string]: unknown };
+  tilesCount: number;
+  hasDrawn: boolean;
+  hasPassed: boolean;
+  score: number; // Score de l'équipe en partie à quatre
+  isReady: boolean;
+  team?: number; // 0 ou 1 en partie à quatre (deux contre deux)
+}
+
+/** Résultat d'une manche du match */
+export interface DominosRoundResult {
+  roundNumber: number;
+  winnerId: string;
+  winReason: 'emptied_hand' | 'lowest_score';
+  points: number; // Points restants dans la main adverse, marqués par le gagnant
+  remainingPips: Record<string, number>;
+  completedAt: number;
+}
+
+/**
+ * Dernière action de tour d'un joueur : rejouer le même actionId renvoie
+ * ce résultat sans rien réappliquer
+ */
+export interface DominosActionReceipt {
+  actionId: string;
+  turnNumber: number; // Numéro de l'action dans la partie
+  result: Record<string, unknown>;
+}
+
+export interface DominosGame {
+  id: string;
+  roomCode: string;
+  hostId: string;
+  players: DominosPlayer[]; // Ordre des places = ordre du jeu
+  maxPlayers?: number;
+  maxValue?: DominosMaxValue;
+  status: 'waiting' | 'playing' | 'finished';
+  currentPlayerId: string;
+  board: TilePlacement[];
+  drawPileCount: number;
+  leftEnd: number | null;
+  rightEnd: number | null;
+  isBlocked: boolean;
+  winnerId: string | null;
+  winReason: 'emptied_hand' | 'lowest_score' | 'opponent_left' | null;
+  finalHands?: Record<string, DominoTile[]> | null;
+  ruleset?: DominosRuleset;
+  targetScore?: number; // Points (classic) ou manches gagnées (haitian)
+  kochonIds?: string[]; // Perdants sans aucune manche (haitian)
+  roundNumber?: number;
+  rounds?: DominosRoundResult[];
+  turnNumber?: number; // Nombre d'actions de tour (poser, piocher, passer) depuis le début du match
+  lastActions?: Record<string, DominosActionReceipt>;
+  startedAt: number | null;
+  completedAt: number | null;
+}
+
+/** Main privée d'un joueur (sous-collection hands) */
+export interface DominosHand {
+  playerId: string;
+  tiles: DominoTile[];
+  updatedAt: number;
+}
+
+/** Pioche cachée (sous-collection private) */
+export interface DominosDeck {
+  tiles: DominoTile[];
+}
+
+/**
+ * Codes d'erreur renvoyés au client dans `HttpsError.details.reason`.
+ * Doit rester synchronisé avec DominosMoveErrorCode côté application.
+ */
+export type DominosMoveErrorCode =
+  | 'UNAUTHENTICATED'
+  | 'INVALID_ARGUMENT'
+  | 'GAME_NOT_FOUND'
+  | 'GAME_NOT_WAITING'
+  | 'GAME_NOT_PLAYING'
+  | 'NOT_HOST'
+  | 'PLAYERS_MISSING'
+  | 'PLAYERS_NOT_READY'
+  | 'TEAMS_UNBALANCED'
+  | 'NOT_A_PLAYER'
+  | 'NOT_YOUR_TURN'
+  | 'STALE_ACTION'
+  | 'TILE_NOT_IN_HAND'
+  | 'INVALID_PLACEMENT'
+  | 'DRAW_PILE_EMPTY'
+  | 'ALREADY_DRAWN'
+  | 'MOVES_AVAILABLE'
+  | 'MUST_DRAW';
+
+export const DOMINOS_MOVE_ERROR_MESSAGES: Record<DominosMoveErrorCode, string> = {
+  UNAUTHENTICATED: 'Vous devez être connecté pour jouer',
+  INVALID_ARGUMENT: 'Action invalide',
+  GAME_NOT_FOUND: 'Partie non trouvée',
+  GAME_NOT_WAITING: 'La partie a déjà commencé',
+  GAME_NOT_PLAYING: 'La partie n\'est pas en cours',
+  NOT_HOST: 'Seul l\'hôte peut démarrer la partie',
+  PLAYERS_MISSING: 'Toutes les places doivent être occupées',
+  PLAYERS_NOT_READY: 'Tous les joueurs doivent être prêts',
+  TEAMS_UNBALANCED: 'Chaque équipe doit compter deux joueurs',
+  NOT_A_PLAYER: 'Joueur non trouvé',
+  NOT_YOUR_TURN: 'Ce n\'est pas votre tour',
+  STALE_ACTION: 'La partie a changé, veuillez réessayer',
+  TILE_NOT_IN_HAND: 'Tuile non trouvée dans votre main',
+  INVALID_PLACEMENT: 'Impossible de placer cette tuile de ce côté',
+  DRAW_PILE_EMPTY: 'La pioche est vide',
+  ALREADY_DRAWN: 'Vous avez déjà pioché ce tour',
+  MOVES_AVAILABLE: 'Vous avez encore des coups possibles',
+  MUST_DRAW: 'Vous devez piocher avant de passer',
+};
+
+export class DominosMoveRejection extends Error {
+  constructor(public readonly reason: DominosMoveErrorCode) {
+    super(DOMINOS_MOVE_ERROR_MESSAGES[reason]);
+    this.name = 'DominosMoveRejection';
+  }
+}
+
+/** Identifiant d'action envoyé par le client (réutilisé à chaque nouvelle tentative) */
+export const DOMINOS_ACTION_ID_MAX_LENGTH = 64;
+
+export function isValidActionId(actionId: unknown): boolean {
+  return actionId === undefined ||
+    (typeof actionId === 'string' && actionId.length > 0 && actionId.length <= DOMINOS_ACTION_ID_MAX_LENGTH);
+}
+
+export function isValidExpectedTurn(expectedTurn: unknown): boolean {
+  return expectedTurn === undefined || (Number.isInteger(expectedTurn) && (expectedTurn as number) >= 0);
+}
+
+/**
+ * Résultat déjà renvoyé pour cette action du joueur (nouvelle tentative
+ * après une coupure réseau), ou null si l'action est nouvelle
+ */
+export function getReplayedResult(
+  game: DominosGame,
+  playerId: string,
+  actionId: string | undefined
+): Record<string, unknown> | null {
+  if (!actionId) return null;
+  const receipt = game.lastActions?.[playerId];
+  return receipt && receipt.actionId === actionId ? receipt.result : null;
+}
+
+/**
+ * Refuser une action préparée sur un état de la partie déjà dépassé
+ */
+export function assertExpectedTurn(game: DominosGame, expectedTurn: number | undefined): void {
+  if (expectedTurn !== undefined && expectedTurn !== (game.turnNumber || 0)) {
+    throw new DominosMoveRejection('STALE_ACTION');
+  }
+}
+
+export function generateDominoSet(maxValue: number = 6): DominoTile[] {
+  const tiles: DominoTile[] = [];
+  let id = 0;
+
+  for (let i = 0; i <= maxValue; i++) {
+    for (let j = i; j <= maxValue; j++) {
+      tiles.push({
+        id: `domino-${id++}`,
+        left: i,
+        right: j,
+        isDouble: i === j,
+        orientation: 'horizontal',
+      });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Mélange Fisher-Yates avec un générateur cryptographique :
+ * l'ordre de la pioche ne doit pas être prévisible
+ */
+export function shuffleTiles(tiles: DominoTile[]): DominoTile[] {
+  const shuffled = [...tiles];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+export function normalizeMaxValue(maxValue: unknown): DominosMaxValue {
+  return maxValue === 9 || maxValue === 12 ? maxValue : DOMINOS_DEFAULT_MAX_VALUE;
+}
+
+/**
+ * Distribuer handSize tuiles à chaque joueur, le reste forme la pioche
+ */
+export function dealHands(
+  deck: DominoTile[],
+  playerIds: string[],
+  handSize: number = DOMINOS_HAND_SIZES[DOMINOS_DEFAULT_MAX_VALUE]
+): { hands: Record<string, DominoTile[]>; drawPile: DominoTile[] } {
+  const hands: Record<string, DominoTile[]> = {};
+  playerIds.forEach((playerId, index) => {
+    hands[playerId] = deck.slice(index * handSize, (index + 1) * handSize);
+  });
+
+  return { hands, drawPile: deck.slice(playerIds.length * handSize) };
+}
+
+export function canPlaceTile(
+  tile: DominoTile,
+  leftEnd: number | null,
+  rightEnd: number | null
+): { canPlaceLeft: boolean; canPlaceRight: boolean } {
+  if (leftEnd === null && rightEnd === null) {
+    return { canPlaceLeft: true, canPlaceRight: true };
+  }
+
+  const canPlaceLeft = leftEnd !== null && (tile.left === leftEnd || tile.right === leftEnd);
+  const canPlaceRight = rightEnd !== null && (tile.right === rightEnd || tile.left === rightEnd);
+
+  return { canPlaceLeft, canPlaceRight };
+}
+
+export function getConnectingValue(tile: DominoTile, endValue: number): number {
+  if (tile.left === endValue) return tile.right;
+  if (tile.right === endValue) return tile.left;
+  return -1;
+}
+
+export function hasPlayableTile(
+  hand: DominoTile[],
+  leftEnd: number | null,
+  rightEnd: number | null
+): boolean {
+  return hand.some(tile => {
+    const { canPlaceLeft, canPlaceRight } = canPlaceTile(tile, leftEnd, rightEnd);
+    return canPlaceLeft || canPlaceRight;
+  });
+}
+
+/**
+ * Points restants dans une main
+ */
+export function calculateScore(hand: DominoTile[]): number {
+  return hand.reduce((sum, tile) => sum + tile.left + tile.right, 0);
+}
+
+export function findHighestDouble(hand: DominoTile[]): DominoTile | null {
+  return hand
+    .filter(tile => tile.left === tile.right)
+    .reduce<DominoTile | null>((best, tile) => (!best || tile.left > best.left ? tile : best), null);
+}
+
+/**
+ * Le joueur qui a le double le plus haut commence ; sans double, l'ordre des places
+ */
+export function determineStartingPlayer(
+  playerIds: string[],
+  hands: Record<string, DominoTile[]>
+): { startingPlayerId: string; highestDouble: DominoTile | null } {
+  let highestDouble: DominoTile | null = null;
+  let startingPlayerId = playerIds[0];
+
+  for (const playerId of playerIds) {
+    const double = findHighestDouble(hands[playerId] || []);
+    if (double && (!highestDouble || double.left > highestDouble.left)) {
+      highestDouble = double;
+      startingPlayerId = playerId;
+    }
+  }
+
+  return { startingPlayerId, highestDouble };
+}
+
+/**
+ * Jeu bloqué : pioche vide et personne ne peut poser
+ */
+export function isGameBlocked(
+  hands: DominoTile[][],
+  leftEnd: number | null,
+  rightEnd: number | null,
+  drawPileCount: number
+): boolean {
+  if (drawPileCount > 0) return false;
+  return hands.every(hand => !hasPlayableTile(hand, leftEnd, rightEnd));
+}
+
+/**
+ * Joueur avec le moins de points en main (le premier en cas d'égalité)
+ */
+export function getLowestScorePlayerId(
+  playerIds: string[],
+  hands: Record<string, DominoTile[]>
+): string {
+  return playerIds.reduce((best, playerId) =>
+    calculateScore(hands[playerId] || []) < calculateScore(hands[best] || []) ? playerId : best
+  );
+}
+
+/**
+ * Joueurs du même camp : le joueur seul à deux, son équipe à quatre
+ */
+export function getSideIds(players: { id: string; team?: number }[], playerId: string): string[] {
+  const player = players.find(p => p.id === playerId);
+  if (player?.team === undefined) return [playerId];
+  return players.filter(p => p.team === player.team).map(p => p.id);
+}
+
+/**
+ * Places d'une partie à quatre : les équipes alternent autour de la table,
+ * les partenaires se font face. Null si les équipes ne sont pas à deux contre deux.
+ */
+export function arrangeTeamSeats<T extends { team?: number }>(players: T[]): T[] | null {
+  const teamA = players.filter(p => p.team === 0);
+  const teamB = players.filter(p => p.team === 1);
+  if (teamA.length !== 2 || teamB.length !== 2) return null;
+  return [teamA[0], teamB[0], teamA[1], teamB[1]];
+}
+
+/**
+ * Points marqués par le camp gagnant d'une manche : le total des mains adverses
+ */
+export function getRoundPoints(
+  playerIds: string[],
+  hands: Record<string, DominoTile[]>,
+  winnerIds: string[]
+): number {
+  return playerIds
+    .filter(playerId => !winnerIds.includes(playerId))
+    .reduce((sum, playerId) => sum + calculateScore(hands[playerId] || []), 0);
+}
+
+/**
+ * Points marqués par le camp gagnant selon les règles :
+ * une manche gagnée vaut un point en règles haïtiennes
+ */
+export function getRoundScore(
+  ruleset: DominosRuleset,
+  playerIds: string[],
+  hands: Record<string, DominoTile[]>,
+  winnerIds: string[]
+): number {
+  return ruleset === 'haitian' ? 1 : getRoundPoints(playerIds, hands, winnerIds);
+}
+
+export function normalizeRuleset(ruleset: unknown): DominosRuleset {
+  return ruleset === 'haitian' ? 'haitian' : 'classic';
+}
+
+/**
+ * Objectif du match, ramené à une valeur autorisée pour les règles
+ */
+export function normalizeTargetScore(targetScore: unknown, ruleset: DominosRuleset = 'classic'): number {
+  const allowed = ruleset === 'haitian' ? DOMINOS_HAITIAN_TARGET_WINS : DOMINOS_TARGET_SCORES;
+  const fallback = ruleset === 'haitian' ? DOMINOS_HAITIAN_DEFAULT_TARGET_WINS : DOMINOS_DEFAULT_TARGET_SCORE;
+  return typeof targetScore === 'number' && allowed.includes(targetScore) ? targetScore : fallback;
+}
+
+/**
+ * Jeu bloqué : le moins de points en main gagne. En règles haïtiennes,
+ * une égalité revient au joueur qui a bloqué le jeu (dernière tuile posée)
+ */
+export function getBlockedGameWinnerId(
+  ruleset: DominosRuleset,
+  playerIds: string[],
+  hands: Record<string, DominoTile[]>,
+  blockerId: string | null
+): string {
+  const lowestId = getLowestScorePlayerId(playerIds, hands);
+  if (ruleset !== 'haitian' || !blockerId || blockerId === lowestId) {
+    return lowestId;
+  }
+
+  const lowestScore = calculateScore(hands[lowestId] || []);
+  return calculateScore(hands[blockerId] || []) === lowestScore ? blockerId : lowestId;
+}
+
+/**
+ * Kochon : perdants d'un match haïtien sans avoir gagné une seule manche
+ */
+export function getKochonIds(
+  ruleset: DominosRuleset,
+  players: { id: string; score: number }[],
+  winnerIds: string[]
+): string[] {
+  if (ruleset !== 'haitian') return [];
+  return players.filter(p => !winnerIds.includes(p.id) && p.score === 0).map(p => p.id);
+}
+
+/**
+ * Règles haïtiennes : la première manche s'ouvre toujours au plus haut
+ * double du jeu (double-six, double-neuf ou double-douze)
+ */
+export function hasTopDoubleDealt(hands: Record<string, DominoTile[]>, maxValue: number): boolean {
+  return Object.values(hands).some(hand => hand.some(tile => tile.left === maxValue && tile.right === maxValue));
+}
+
+export function getNextPlayerId(playerIds: string[], playerId: string): string {
+  const index = playerIds.indexOf(playerId);
+  return playerIds[(index + 1) % playerIds.length];
+}
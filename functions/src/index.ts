@@ -0,0 +1,22 @@
+import * as admin from 'firebase-admin';
+
+admin.initializeApp();
+
+export {
+  morpionPlayMove,
+  morpionForfeitGame,
+  morpionSwap2Choice,
+  morpionClaimTimeout,
+  morpionStartGame,
+  morpionPauseGame,
+  morpionResumeGame,
+} from './morpion/playMove';
+export {
+  dominosStartGame,
+  dominosPlaceTile,
+  dominosDrawTile,
+  dominosPassTurn,
+} from './dominos/dominosActions';
+export { puissance4ClaimTimeout } from './puissance4/puissance4Actions';
+export { stakesSendReminders } from './stakes/stakesReminders';
+export { wordSearchClaimOnlineReward } from './wordsearch/onlineRewards';
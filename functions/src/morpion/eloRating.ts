@@ -0,0 +1,51 @@
+import { GOMOKU_BOARD_SIZE, GOMOKU_WIN_LENGTH, MorpionVariant } from '../shared/gomokuLogic';
+import { getRatingKey } from '../shared/eloLogic';
+import { ULTIMATE_BOARD_SIZE, ULTIMATE_SUB_SIZE } from '../shared/ultimateLogic';
+import type { MorpionGame } from './morpionRules';
+
+/**
+ * Parties du Morpion en ligne qui comptent au classement Elo.
+ * Le calcul des classements est celui de l'application (shared/eloLogic).
+ */
+
+/**
+ * Alignement exigé par classement : les plateaux proposés par l'écran de
+ * choix de taille, l'Ultimate et le Gomoku. Les autres réglages restent
+ * jouables mais ne comptent pas au classement.
+ */
+const RATED_WIN_CONDITIONS: Record<string, number> = {
+  '3x3': 3,
+  '4x4': 4,
+  '5x5': 4,
+  '6x6': 5,
+  ultimate: ULTIMATE_SUB_SIZE,
+  gomoku: GOMOKU_WIN_LENGTH,
+};
+
+const RATED_BOARD_SIZES: Partial<Record<MorpionVariant, number>> = {
+  ultimate: ULTIMATE_BOARD_SIZE,
+  gomoku: GOMOKU_BOARD_SIZE,
+};
+
+/**
+ * Partie comptant au classement : réglages standard, et deux joueurs
+ * distincts figés par les règles Firestore au lancement de la partie
+ */
+export function isRatedGame(
+  game: Pick<MorpionGame, 'boardSize' | 'winCondition' | 'variant' | 'players' | 'startedAt'>
+): boolean {
+  const variant = game.variant || 'classic';
+  const expectedBoardSize = RATED_BOARD_SIZES[variant];
+  if (expectedBoardSize !== undefined && game.boardSize !== expectedBoardSize) {
+    return false;
+  }
+  if (RATED_WIN_CONDITIONS[getRatingKey(game)] !== game.winCondition) {
+    return false;
+  }
+
+  const [player1, player2] = game.players;
+  return game.players.length === 2 &&
+    player1.id !== player2.id &&
+    player1.symbol !== player2.symbol &&
+    game.startedAt !== null;
+}
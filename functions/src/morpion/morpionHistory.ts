@@ -0,0 +1,111 @@
+import * as admin from 'firebase-admin';
+import { MorpionGame, MorpionSymbol } from './morpionRules';
+import { applyGameResult, createRatingEntry, getRatingKey, RatingChange, RatingEntry } from '../shared/eloLogic';
+import { WinReason } from '../shared/timeControl';
+import { isRatedGame } from './eloRating';
+
+export const MORPION_GAMES_COLLECTION = 'morpion_games';
+export const MORPION_HISTORY_COLLECTION = 'morpion_history';
+export const MORPION_RATINGS_COLLECTION = 'morpion_ratings';
+
+/**
+ * Enregistrer une partie terminée dans l'historique et mettre à jour le
+ * classement Elo des deux joueurs, dans la même transaction que l'écriture
+ * du coup final. Les parties aux réglages non standard sont enregistrées
+ * sans classement (voir isRatedGame).
+ * Les lectures des classements ont lieu ici : appeler avant toute écriture.
+ * Même format que MorpionService.saveGameHistory côté application.
+ */
+export async function saveGameHistory(
+  transaction: admin.firestore.Transaction,
+  game: MorpionGame,
+  result: MorpionSymbol | 'draw',
+  moveCount: number,
+  winningLine: number[],
+  completedAt: number,
+  winReason: WinReason = result === 'draw' ? 'draw' : 'alignment'
+): Promise<void> {
+  const player1 = game.players[0];
+  const player2 = game.players[1];
+
+  if (!player1 || !player2) {
+    console.error('Cannot save history: missing players');
+    return;
+  }
+
+  const winnerId = result === 'draw'
+    ? null
+    : game.players.find(p => p.symbol === result)?.id || null;
+
+  const loserId = result === 'draw'
+    ? null
+    : game.players.find(p => p.symbol !== result)?.id || null;
+
+  const db = admin.firestore();
+  const historyRef = db.collection(MORPION_HISTORY_COLLECTION).doc();
+  const historyData = {
+    gameId: game.id,
+    roomCode: game.roomCode,
+    players: [player1.id, player2.id],
+    playerProfiles: [player1.profile, player2.profile],
+    winner: winnerId,
+    loser: loserId,
+    result,
+    moves: game.moves,
+    moveCount,
+    duration: game.startedAt ? completedAt - game.startedAt : 0,
+    boardSize: game.boardSize,
+    winCondition: game.winCondition,
+    variant: game.variant || 'classic',
+    gomokuRules: game.gomokuRules || null,
+    winningLine,
+    forfeited: winReason === 'forfeit',
+    winReason,
+    timeControl: game.timeControl || null,
+    timestamp: completedAt,
+    mode: 'online',
+  };
+
+  if (!isRatedGame(game)) {
+    transaction.set(historyRef, historyData);
+    return;
+  }
+
+  const ratingRefs = [player1, player2].map(p => db.collection(MORPION_RATINGS_COLLECTION).doc(p.id));
+  const ratingDocs = await transaction.getAll(...ratingRefs);
+
+  const ratingKey = getRatingKey(game);
+  const entries: RatingEntry[] = ratingDocs.map(
+    doc => doc.get(`ratings.${ratingKey}`) || createRatingEntry(completedAt)
+  );
+  const scores = [player1, player2].map(p =>
+    result === 'draw' ? 0.5 : p.id === winnerId ? 1 : 0
+  ) as (0 | 0.5 | 1)[];
+  const updated = entries.map((entry, index) =>
+    applyGameResult(entry, entries[1 - index].rating, scores[index], completedAt)
+  );
+
+  const ratingChanges: Record<string, RatingChange> = {
+    [player1.id]: { before: entries[0].rating, after: updated[0].rating },
+    [player2.id]: { before: entries[1].rating, after: updated[1].rating },
+  };
+
+  transaction.set(historyRef, {
+    ...historyData,
+    ratingKey,
+    ratingChanges,
+  });
+
+  [player1, player2].forEach((player, index) => {
+    transaction.set(
+      ratingRefs[index],
+      {
+        userId: player.id,
+        name: player.profile.name,
+        ratings: { [ratingKey]: updated[index] },
+        updatedAt: completedAt,
+      },
+      { merge: true }
+    );
+  });
+}
@@ -0,0 +1,345 @@
+import {
+  findWinningLineThrough,
+  getSwap2PhaseAfterMove,
+  GomokuRules,
+  isHostOpeningTurn,
+  isOpeningChoicePhase,
+  MorpionVariant,
+  Swap2Phase,
+} from '../shared/gomokuLogic';
+import { MORPION_MOVE_ERROR_MESSAGES, MorpionMoveErrorCode } from '../shared/morpionMoveErrors';
+import { checkUltimateWinner, getUltimateMoveError } from '../shared/ultimateLogic';
+import { TimeControl, WinReason } from '../shared/timeControl';
+
+/**
+ * Règles du Morpion côté serveur.
+ *
+ * Miroir de MorpionService.checkWinner / isBoardFull côté application :
+ * le serveur reconstruit le plateau à partir de l'historique des coups
+ * plutôt que de faire confiance au plateau stocké dans le document.
+ */
+
+export type MorpionSymbol = 'X' | 'O';
+export type CellValue = MorpionSymbol | null;
+export type MorpionPauseReason = 'player_disconnected' | 'manual';
+
+export interface MorpionPlayer {
+  id: string;
+  profile: { id: string; name: string; [key: string]: unknown };
+  symbol: MorpionSymbol;
+  isReady: boolean;
+}
+
+export interface MorpionMove {
+  playerId: string;
+  symbol: MorpionSymbol;
+  position: number;
+  timestamp: number;
+}
+
+/** Résultat d'un coup renvoyé par morpionPlayMove */
+export interface PlayMoveResult {
+  winner: MorpionSymbol | 'draw' | null;
+  winningLine: number[];
+  moveCount: number;
+  timedOut: boolean;
+}
+
+/**
+ * Dernier coup appliqué pour un joueur : une nouvelle tentative portant le
+ * même actionId reçoit ce résultat au lieu d'un refus STALE_MOVE
+ */
+export interface MorpionActionReceipt {
+  actionId: string;
+  moveCount: number; // Nombre de coups après celui-ci
+  result: PlayMoveResult;
+}
+
+export interface MorpionGame {
+  id: string;
+  roomCode: string;
+  hostId: string;
+  players: MorpionPlayer[];
+  status: 'waiting' | 'playing' | 'finished' | 'paused';
+  board: CellValue[];
+  boardSize: number;
+  winCondition: number;
+  currentPlayer: MorpionSymbol;
+  moves: MorpionMove[];
+  winner: MorpionSymbol | 'draw' | null;
+  winningLine: number[];
+  startedAt: number | null;
+  completedAt: number | null;
+  variant?: MorpionVariant;
+  gomokuRules?: GomokuRules;
+  openingPhase?: Swap2Phase | null;
+  timeControl?: TimeControl | null;
+  clocks?: Record<string, number> | null; // Banque restante par symbole au début du tour
+  turnStartedAt?: number | null;
+  pausedAt?: number | null; // Heure du serveur au début de la pause
+  pausedBy?: string | null; // Appelant de morpionPauseGame
+  pauseReason?: MorpionPauseReason | null;
+  pauseCount?: number; // Pauses déjà prises (plafonné à MAX_PAUSES_PER_GAME)
+  winReason?: WinReason | null;
+  lastActions?: Record<string, MorpionActionReceipt>;
+}
+
+export class MorpionMoveRejection extends Error {
+  constructor(public readonly reason: MorpionMoveErrorCode) {
+    super(MORPION_MOVE_ERROR_MESSAGES[reason]);
+    this.name = 'MorpionMoveRejection';
+  }
+}
+
+/** Identifiant de coup envoyé par le client (réutilisé à chaque nouvelle tentative) */
+export const MORPION_ACTION_ID_MAX_LENGTH = 64;
+
+export function isValidActionId(actionId: unknown): boolean {
+  return actionId === undefined ||
+    (typeof actionId === 'string' && actionId.length > 0 && actionId.length <= MORPION_ACTION_ID_MAX_LENGTH);
+}
+
+/**
+ * Résultat déjà renvoyé pour ce coup du joueur (nouvelle tentative après
+ * une coupure réseau), ou null si le coup est nouveau
+ */
+export function getReplayedResult(
+  game: MorpionGame,
+  playerId: string,
+  actionId: string | undefined
+): PlayMoveResult | null {
+  if (!actionId) return null;
+  const receipt = game.lastActions?.[playerId];
+  return receipt && receipt.actionId === actionId ? receipt.result : null;
+}
+
+export interface MoveOutcome {
+  board: CellValue[];
+  move: MorpionMove;
+  moves: MorpionMove[];
+  winner: MorpionSymbol | 'draw' | null;
+  winningLine: number[];
+  nextPlayer: MorpionSymbol;
+  openingPhase: Swap2Phase | null;
+}
+
+/**
+ * Vérifier s'il y a un gagnant
+ */
+export function checkWinner(
+  board: CellValue[],
+  boardSize: number,
+  winCondition: number,
+  symbol: MorpionSymbol
+): { winner: boolean; line: number[] } {
+  // Directions : ligne, colonne, diagonale, anti-diagonale
+  const directions = [
+    { dRow: 0, dCol: 1 },
+    { dRow: 1, dCol: 0 },
+    { dRow: 1, dCol: 1 },
+    { dRow: 1, dCol: -1 },
+  ];
+
+  for (const { dRow, dCol } of directions) {
+    for (let row = 0; row < boardSize; row++) {
+      for (let col = 0; col < boardSize; col++) {
+        const endRow = row + dRow * (winCondition - 1);
+        const endCol = col + dCol * (winCondition - 1);
+        if (endRow >= boardSize || endCol < 0 || endCol >= boardSize) {
+          continue;
+        }
+
+        const line: number[] = [];
+        for (let i = 0; i < winCondition; i++) {
+          const pos = (row + dRow * i) * boardSize + (col + dCol * i);
+          if (board[pos] !== symbol) {
+            break;
+          }
+          line.push(pos);
+        }
+
+        if (line.length === winCondition) {
+          return { winner: true, line };
+        }
+      }
+    }
+  }
+
+  return { winner: false, line: [] };
+}
+
+/**
+ * Vérifier si le plateau est plein
+ */
+export function isBoardFull(board: CellValue[]): boolean {
+  return board.every(cell => cell !== null);
+}
+
+/**
+ * Ligne gagnante créée par le coup joué en `position`, selon la variante
+ */
+export function findWinningLine(
+  game: Pick<MorpionGame, 'boardSize' | 'winCondition' | 'variant' | 'gomokuRules'>,
+  board: CellValue[],
+  position: number,
+  symbol: MorpionSymbol
+): number[] | null {
+  if (game.variant === 'ultimate') {
+    const result = checkUltimateWinner(board);
+    return result.winner === symbol ? result.line : null;
+  }
+
+  if (game.variant === 'gomoku') {
+    return findWinningLineThrough(
+      board,
+      game.boardSize,
+      position,
+      symbol,
+      game.winCondition,
+      game.gomokuRules?.exactlyFive ?? false
+    );
+  }
+
+  const result = checkWinner(board, game.boardSize, game.winCondition, symbol);
+  return result.winner ? result.line : null;
+}
+
+/**
+ * Partie nulle : plateau plein, ou plus aucune petite grille ouverte en Ultimate
+ */
+export function isGameDrawn(
+  game: Pick<MorpionGame, 'variant'>,
+  board: CellValue[]
+): boolean {
+  if (game.variant === 'ultimate') {
+    return checkUltimateWinner(board).winner === 'draw';
+  }
+  return isBoardFull(board);
+}
+
+/**
+ * Reconstruire le plateau à partir de l'historique des coups.
+ * Lève CORRUPTED_HISTORY si l'historique ne respecte pas l'alternance X/O,
+ * rejoue une case occupée ou continue après une victoire.
+ */
+export function replayMoves(
+  moves: MorpionMove[],
+  game: Pick<MorpionGame, 'boardSize' | 'winCondition' | 'variant' | 'gomokuRules'>
+): CellValue[] {
+  const board: CellValue[] = Array(game.boardSize * game.boardSize).fill(null);
+  let expected: MorpionSymbol = 'X';
+
+  moves.forEach((move, index) => {
+    if (
+      move.symbol !== expected ||
+      !Number.isInteger(move.position) ||
+      move.position < 0 ||
+      move.position >= board.length ||
+      board[move.position] !== null ||
+      (game.variant === 'ultimate' &&
+        getUltimateMoveError(board, move.position, index > 0 ? moves[index - 1].position : null))
+    ) {
+      throw new MorpionMoveRejection('CORRUPTED_HISTORY');
+    }
+
+    board[move.position] = move.symbol;
+
+    const isLast = index === moves.length - 1;
+    if (!isLast && findWinningLine(game, board, move.position, move.symbol)) {
+      throw new MorpionMoveRejection('CORRUPTED_HISTORY');
+    }
+
+    expected = expected === 'X' ? 'O' : 'X';
+  });
+
+  return board;
+}
+
+/**
+ * Valider l'intention de coup d'un joueur et calculer le nouvel état.
+ * Fonction pure : aucune écriture, testable sans Firestore.
+ */
+export function applyMove(
+  game: MorpionGame,
+  playerId: string,
+  position: number,
+  expectedMoveCount: number | undefined,
+  now: number
+): MoveOutcome {
+  if (game.status === 'paused') {
+    throw new MorpionMoveRejection('GAME_PAUSED');
+  }
+  if (game.status !== 'playing') {
+    throw new MorpionMoveRejection('GAME_NOT_PLAYING');
+  }
+
+  const player = game.players.find(p => p.id === playerId);
+  if (!player) {
+    throw new MorpionMoveRejection('NOT_A_PLAYER');
+  }
+
+  const moves = game.moves || [];
+  if (expectedMoveCount !== undefined && expectedMoveCount !== moves.length) {
+    throw new MorpionMoveRejection('STALE_MOVE');
+  }
+
+  const board = replayMoves(moves, game);
+  const currentPlayer: MorpionSymbol = moves.length % 2 === 0 ? 'X' : 'O';
+  const openingPhase = game.openingPhase ?? null;
+
+  if (isOpeningChoicePhase(openingPhase)) {
+    throw new MorpionMoveRejection('OPENING_CHOICE_PENDING');
+  }
+
+  if (openingPhase) {
+    // Ouverture swap2 : les pierres sont posées par un joueur désigné, quelle que soit sa couleur
+    const isHost = game.hostId === playerId;
+    if (isHost !== isHostOpeningTurn(openingPhase)) {
+      throw new MorpionMoveRejection('NOT_OPENING_PLAYER');
+    }
+  } else if (player.symbol !== currentPlayer) {
+    throw new MorpionMoveRejection('NOT_YOUR_TURN');
+  }
+
+  if (!Number.isInteger(position) || position < 0 || position >= board.length) {
+    throw new MorpionMoveRejection('INVALID_POSITION');
+  }
+
+  if (board[position] !== null) {
+    throw new MorpionMoveRejection('CELL_OCCUPIED');
+  }
+
+  if (game.variant === 'ultimate') {
+    const lastPosition = moves.length > 0 ? moves[moves.length - 1].position : null;
+    const ultimateError = getUltimateMoveError(board, position, lastPosition);
+    if (ultimateError) {
+      throw new MorpionMoveRejection(ultimateError);
+    }
+  }
+
+  board[position] = currentPlayer;
+
+  const move: MorpionMove = {
+    playerId,
+    symbol: currentPlayer,
+    position,
+    timestamp: now,
+  };
+
+  const winningLine = findWinningLine(game, board, position, currentPlayer);
+  const winner = winningLine
+    ? currentPlayer
+    : isGameDrawn(game, board)
+      ? 'draw'
+      : null;
+
+  return {
+    board,
+    move,
+    moves: [...moves, move],
+    winner,
+    winningLine: winningLine || [],
+    nextPlayer: currentPlayer === 'X' ? 'O' : 'X',
+    openingPhase: getSwap2PhaseAfterMove(openingPhase, moves.length + 1),
+  };
+}
@@ -0,0 +1,613 @@
+import * as admin from 'firebase-admin';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import {
+  applyMove,
+  getReplayedResult,
+  isValidActionId,
+  MorpionGame,
+  MorpionPauseReason,
+  MorpionMoveRejection,
+  PlayMoveResult,
+} from './morpionRules';
+import { MORPION_GAMES_COLLECTION, saveGameHistory } from './morpionHistory';
+import { getSwap2PhaseAfterChoice, isHostOpeningTurn, shouldSwapSymbols, Swap2Choice } from '../shared/gomokuLogic';
+import { MORPION_MOVE_ERROR_MESSAGES, MorpionMoveErrorCode } from '../shared/morpionMoveErrors';
+import { getClocksAfterMove, getPauseCredit, hasFlagFallen, MAX_PAUSES_PER_GAME } from '../shared/timeControl';
+
+/**
+ * Coup joué : actionId rend les nouvelles tentatives idempotentes,
+ * expectedMoveCount refuse un coup préparé sur un plateau dépassé
+ */
+interface PlayMoveRequest {
+  gameId: string;
+  position: number;
+  actionId?: string;
+  expectedMoveCount?: number;
+}
+
+interface ForfeitRequest {
+  gameId: string;
+}
+
+interface Swap2ChoiceRequest {
+  gameId: string;
+  choice: Swap2Choice;
+}
+
+interface ClaimTimeoutRequest {
+  gameId: string;
+}
+
+interface GameRequest {
+  gameId: string;
+}
+
+interface PauseRequest {
+  gameId: string;
+  reason: MorpionPauseReason;
+}
+
+const SWAP2_CHOICES: Swap2Choice[] = ['white', 'black', 'place2'];
+const PAUSE_REASONS: MorpionPauseReason[] = ['player_disconnected', 'manual'];
+
+const toHttpsError = (reason: MorpionMoveErrorCode): HttpsError => {
+  const code = reason === 'UNAUTHENTICATED'
+    ? 'unauthenticated'
+    : reason === 'INVALID_ARGUMENT'
+      ? 'invalid-argument'
+      : reason === 'GAME_NOT_FOUND'
+        ? 'not-found'
+        : reason === 'NOT_A_PLAYER' || reason === 'NOT_HOST' || reason === 'NOT_DISCONNECTED_PLAYER'
+          ? 'permission-denied'
+          : 'failed-precondition';
+
+  return new HttpsError(code, MORPION_MOVE_ERROR_MESSAGES[reason], { reason });
+};
+
+/**
+ * Drapeau du joueur au trait tombé, à l'heure du serveur.
+ * Pendant une pause, le temps de pause (plafonné) n'est pas décompté :
+ * une pause ne sauve pas un joueur dont le drapeau était déjà tombé.
+ */
+const isFlagDown = (game: MorpionGame, now: number): boolean => {
+  if (game.status !== 'playing' && game.status !== 'paused') {
+    return false;
+  }
+  const pauseCredit = game.status === 'paused' ? getPauseCredit(game.pausedAt, now) : 0;
+  return hasFlagFallen(game.timeControl, game.clocks, game.currentPlayer, game.turnStartedAt, now - pauseCredit);
+};
+
+/**
+ * Terminer la partie au temps : le joueur au trait perd.
+ * Doit être appelée avant toute autre écriture de la transaction.
+ */
+const finishOnTimeout = async (
+  transaction: admin.firestore.Transaction,
+  gameRef: admin.firestore.DocumentReference,
+  game: MorpionGame,
+  now: number
+): Promise<MorpionGame['winner']> => {
+  const winner = game.currentPlayer === 'X' ? 'O' : 'X';
+
+  await saveGameHistory(transaction, game, winner, (game.moves || []).length, [], now, 'timeout');
+
+  const updateData: Record<string, unknown> = {
+    status: 'finished',
+    winner,
+    winReason: 'timeout',
+    completedAt: now,
+    updatedAt: now,
+  };
+  if (game.openingPhase !== undefined) {
+    updateData.openingPhase = null;
+  }
+  transaction.update(gameRef, updateData);
+
+  return winner;
+};
+
+/**
+ * Jouer un coup de Morpion.
+ *
+ * Le client n'envoie que son intention (gameId + position). Le plateau est
+ * reconstruit depuis l'historique des coups, le coup est validé puis écrit
+ * dans une transaction avec le vainqueur éventuel et l'historique.
+ */
+export const morpionPlayMove = onCall<PlayMoveRequest>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw toHttpsError('UNAUTHENTICATED');
+  }
+
+  const { gameId, position, actionId, expectedMoveCount } = request.data || ({} as PlayMoveRequest);
+  if (
+    typeof gameId !== 'string' ||
+    typeof position !== 'number' ||
+    !isValidActionId(actionId) ||
+    (expectedMoveCount !== undefined && typeof expectedMoveCount !== 'number')
+  ) {
+    throw toHttpsError('INVALID_ARGUMENT');
+  }
+
+  const db = admin.firestore();
+  const gameRef = db.collection(MORPION_GAMES_COLLECTION).doc(gameId);
+
+  try {
+    const result = await db.runTransaction(async (transaction): Promise<PlayMoveResult> => {
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists) {
+        throw new MorpionMoveRejection('GAME_NOT_FOUND');
+      }
+
+      const game = { id: gameDoc.id, ...gameDoc.data() } as MorpionGame;
+
+      // Nouvelle tentative d'un coup déjà appliqué (double appui, withRetry)
+      const replayed = getReplayedResult(game, uid, actionId);
+      if (replayed) {
+        return replayed;
+      }
+
+      const now = Date.now();
+
+      // Coup arrivé après la chute du drapeau : la partie est perdue au temps
+      if (isFlagDown(game, now) && game.players.some(p => p.id === uid)) {
+        const winner = await finishOnTimeout(transaction, gameRef, game, now);
+        return { winner, winningLine: [], moveCount: (game.moves || []).length, timedOut: true };
+      }
+
+      const outcome = applyMove(game, uid, position, expectedMoveCount, now);
+
+      const updateData: Record<string, unknown> = {
+        board: outcome.board,
+        moves: outcome.moves,
+        updatedAt: now,
+      };
+
+      if (game.openingPhase !== undefined) {
+        updateData.openingPhase = outcome.winner ? null : outcome.openingPhase;
+      }
+
+      if (game.timeControl) {
+        updateData.clocks = getClocksAfterMove(
+          game.timeControl,
+          game.clocks,
+          outcome.move.symbol,
+          game.turnStartedAt,
+          now
+        );
+        updateData.turnStartedAt = now;
+      }
+
+      if (outcome.winner) {
+        updateData.winner = outcome.winner;
+        updateData.winningLine = outcome.winningLine;
+        updateData.winReason = outcome.winner === 'draw' ? 'draw' : 'alignment';
+        updateData.status = 'finished';
+        updateData.completedAt = now;
+
+        await saveGameHistory(
+          transaction,
+          { ...game, moves: outcome.moves },
+          outcome.winner,
+          outcome.moves.length,
+          outcome.winningLine,
+          now
+        );
+      } else {
+        updateData.currentPlayer = outcome.nextPlayer;
+      }
+
+      const moveResult: PlayMoveResult = {
+        winner: outcome.winner,
+        winningLine: outcome.winningLine,
+        moveCount: outcome.moves.length,
+        timedOut: false,
+      };
+      if (actionId) {
+        updateData.lastActions = {
+          ...(game.lastActions || {}),
+          [uid]: { actionId, moveCount: outcome.moves.length, result: moveResult },
+        };
+      }
+
+      transaction.update(gameRef, updateData);
+
+      return moveResult;
+    });
+
+    if (result.timedOut) {
+      throw new MorpionMoveRejection('TIME_EXPIRED');
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof MorpionMoveRejection) {
+      throw toHttpsError(error.reason);
+    }
+    throw error;
+  }
+});
+
+/**
+ * Abandonner une partie de Morpion.
+ * L'adversaire de l'appelant est déclaré vainqueur.
+ */
+export const morpionForfeitGame = onCall<ForfeitRequest>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw toHttpsError('UNAUTHENTICATED');
+  }
+
+  const { gameId } = request.data || ({} as ForfeitRequest);
+  if (typeof gameId !== 'string') {
+    throw toHttpsError('INVALID_ARGUMENT');
+  }
+
+  const db = admin.firestore();
+  const gameRef = db.collection(MORPION_GAMES_COLLECTION).doc(gameId);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists) {
+        throw new MorpionMoveRejection('GAME_NOT_FOUND');
+      }
+
+      const game = { id: gameDoc.id, ...gameDoc.data() } as MorpionGame;
+
+      const forfeitingPlayer = game.players.find(p => p.id === uid);
+      if (!forfeitingPlayer) {
+        throw new MorpionMoveRejection('NOT_A_PLAYER');
+      }
+
+      if (game.status !== 'playing' && game.status !== 'paused') {
+        throw new MorpionMoveRejection('GAME_NOT_PLAYING');
+      }
+
+      const now = Date.now();
+      const winnerSymbol = forfeitingPlayer.symbol === 'X' ? 'O' : 'X';
+
+      await saveGameHistory(transaction, game, winnerSymbol, game.moves.length, [], now, 'forfeit');
+
+      transaction.update(gameRef, {
+        status: 'finished',
+        winner: winnerSymbol,
+        winReason: 'forfeit',
+        completedAt: now,
+        updatedAt: now,
+      });
+
+      return { winner: winnerSymbol };
+    });
+  } catch (error) {
+    if (error instanceof MorpionMoveRejection) {
+      throw toHttpsError(error.reason);
+    }
+    throw error;
+  }
+});
+
+/**
+ * Choix de couleur pendant l'ouverture swap2 du Gomoku.
+ * L'invité choisit après les trois premières pierres, l'hôte après les cinq.
+ * Les symboles et l'hôte ne sont écrits que par cette fonction : les règles
+ * Firestore figent players et hostId dès que la partie quitte le salon.
+ */
+export const morpionSwap2Choice = onCall<Swap2ChoiceRequest>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw toHttpsError('UNAUTHENTICATED');
+  }
+
+  const { gameId, choice } = request.data || ({} as Swap2ChoiceRequest);
+  if (typeof gameId !== 'string' || !SWAP2_CHOICES.includes(choice)) {
+    throw toHttpsError('INVALID_ARGUMENT');
+  }
+
+  const db = admin.firestore();
+  const gameRef = db.collection(MORPION_GAMES_COLLECTION).doc(gameId);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists) {
+        throw new MorpionMoveRejection('GAME_NOT_FOUND');
+      }
+
+      const game = { id: gameDoc.id, ...gameDoc.data() } as MorpionGame;
+
+      if (game.status !== 'playing') {
+        throw new MorpionMoveRejection('GAME_NOT_PLAYING');
+      }
+
+      const chooser = game.players.find(p => p.id === uid);
+      if (!chooser) {
+        throw new MorpionMoveRejection('NOT_A_PLAYER');
+      }
+      // Deux joueurs de symboles différents, sinon l'échange n'a pas de sens
+      if (game.players.length !== 2 || game.players[0].symbol === game.players[1].symbol) {
+        throw new MorpionMoveRejection('CORRUPTED_HISTORY');
+      }
+
+      const phase = game.openingPhase;
+      if (phase !== 'choose' && phase !== 'finalChoose') {
+        throw new MorpionMoveRejection('INVALID_CHOICE');
+      }
+      if (phase === 'finalChoose' && choice === 'place2') {
+        throw new MorpionMoveRejection('INVALID_CHOICE');
+      }
+      if ((game.hostId === uid) !== isHostOpeningTurn(phase)) {
+        throw new MorpionMoveRejection('NOT_OPENING_PLAYER');
+      }
+
+      const players = shouldSwapSymbols(chooser.symbol, choice)
+        ? game.players.map(p => ({ ...p, symbol: p.symbol === 'X' ? 'O' : 'X' }))
+        : game.players;
+      const openingPhase = getSwap2PhaseAfterChoice(phase, choice);
+
+      const now = Date.now();
+      const updateData: Record<string, unknown> = {
+        players,
+        openingPhase,
+        updatedAt: now,
+      };
+      // Le temps de réflexion du choix n'est décompté à personne
+      if (game.timeControl) {
+        updateData.turnStartedAt = now;
+      }
+      transaction.update(gameRef, updateData);
+
+      return { openingPhase };
+    });
+  } catch (error) {
+    if (error instanceof MorpionMoveRejection) {
+      throw toHttpsError(error.reason);
+    }
+    throw error;
+  }
+});
+
+/**
+ * Réclamer la victoire au temps quand le drapeau du joueur au trait est tombé.
+ * Appelée par le client de l'adversaire, qui ne peut pas compter sur le joueur bloqué.
+ */
+export const morpionClaimTimeout = onCall<ClaimTimeoutRequest>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw toHttpsError('UNAUTHENTICATED');
+  }
+
+  const { gameId } = request.data || ({} as ClaimTimeoutRequest);
+  if (typeof gameId !== 'string') {
+    throw toHttpsError('INVALID_ARGUMENT');
+  }
+
+  const db = admin.firestore();
+  const gameRef = db.collection(MORPION_GAMES_COLLECTION).doc(gameId);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists) {
+        throw new MorpionMoveRejection('GAME_NOT_FOUND');
+      }
+
+      const game = { id: gameDoc.id, ...gameDoc.data() } as MorpionGame;
+
+      if (!game.players.some(p => p.id === uid)) {
+        throw new MorpionMoveRejection('NOT_A_PLAYER');
+      }
+      if (game.status !== 'playing' && game.status !== 'paused') {
+        throw new MorpionMoveRejection('GAME_NOT_PLAYING');
+      }
+
+      const now = Date.now();
+      if (!isFlagDown(game, now)) {
+        throw new MorpionMoveRejection(game.status === 'paused' ? 'GAME_PAUSED' : 'CLOCK_RUNNING');
+      }
+
+      const winner = await finishOnTimeout(transaction, gameRef, game, now);
+      return { winner };
+    });
+  } catch (error) {
+    if (error instanceof MorpionMoveRejection) {
+      throw toHttpsError(error.reason);
+    }
+    throw error;
+  }
+});
+
+/**
+ * Démarrer la partie (hôte seulement), une fois les deux joueurs prêts.
+ * La pendule du premier joueur part à l'heure du serveur.
+ */
+export const morpionStartGame = onCall<GameRequest>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw toHttpsError('UNAUTHENTICATED');
+  }
+
+  const { gameId } = request.data || ({} as GameRequest);
+  if (typeof gameId !== 'string') {
+    throw toHttpsError('INVALID_ARGUMENT');
+  }
+
+  const db = admin.firestore();
+  const gameRef = db.collection(MORPION_GAMES_COLLECTION).doc(gameId);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists) {
+        throw new MorpionMoveRejection('GAME_NOT_FOUND');
+      }
+
+      const game = { id: gameDoc.id, ...gameDoc.data() } as MorpionGame;
+      if (game.hostId !== uid) {
+        throw new MorpionMoveRejection('NOT_HOST');
+      }
+      if (game.status !== 'waiting') {
+        throw new MorpionMoveRejection('GAME_NOT_WAITING');
+      }
+      if (game.players.length !== 2) {
+        throw new MorpionMoveRejection('PLAYERS_MISSING');
+      }
+      if (!game.players.every(p => p.isReady)) {
+        throw new MorpionMoveRejection('PLAYERS_NOT_READY');
+      }
+
+      const now = Date.now();
+      transaction.update(gameRef, {
+        status: 'playing',
+        startedAt: now,
+        turnStartedAt: now,
+        pauseCount: 0,
+        updatedAt: now,
+      });
+
+      return { startedAt: now };
+    });
+  } catch (error) {
+    if (error instanceof MorpionMoveRejection) {
+      throw toHttpsError(error.reason);
+    }
+    throw error;
+  }
+});
+
+/**
+ * Mettre la partie en pause (déconnexion de l'adversaire, ou pause manuelle).
+ * L'heure de pause et pausedBy (l'appelant) sont fixés par le serveur et le
+ * nombre de pauses est plafonné. Une partie déjà en pause n'est pas modifiée.
+ */
+export const morpionPauseGame = onCall<PauseRequest>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw toHttpsError('UNAUTHENTICATED');
+  }
+
+  const { gameId, reason } = request.data || ({} as PauseRequest);
+  if (typeof gameId !== 'string' || !PAUSE_REASONS.includes(reason)) {
+    throw toHttpsError('INVALID_ARGUMENT');
+  }
+
+  const db = admin.firestore();
+  const gameRef = db.collection(MORPION_GAMES_COLLECTION).doc(gameId);
+
+  try {
+    const result = await db.runTransaction(async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists) {
+        throw new MorpionMoveRejection('GAME_NOT_FOUND');
+      }
+
+      const game = { id: gameDoc.id, ...gameDoc.data() } as MorpionGame;
+      if (!game.players.some(p => p.id === uid)) {
+        throw new MorpionMoveRejection('NOT_A_PLAYER');
+      }
+      // Les deux joueurs peuvent constater la même déconnexion
+      if (game.status === 'paused') {
+        return { timedOut: false };
+      }
+      if (game.status !== 'playing') {
+        throw new MorpionMoveRejection('GAME_NOT_PLAYING');
+      }
+
+      // Pause demandée après la chute du drapeau : la partie est perdue au temps
+      const now = Date.now();
+      if (isFlagDown(game, now)) {
+        await finishOnTimeout(transaction, gameRef, game, now);
+        return { timedOut: true };
+      }
+
+      const pauseCount = game.pauseCount || 0;
+      if (pauseCount >= MAX_PAUSES_PER_GAME) {
+        throw new MorpionMoveRejection('PAUSE_LIMIT_REACHED');
+      }
+
+      transaction.update(gameRef, {
+        status: 'paused',
+        pausedAt: now,
+        pausedBy: uid,
+        pauseReason: reason,
+        pauseCount: pauseCount + 1,
+        updatedAt: now,
+      });
+
+      return { timedOut: false };
+    });
+
+    if (result.timedOut) {
+      throw new MorpionMoveRejection('TIME_EXPIRED');
+    }
+    return { status: 'paused' };
+  } catch (error) {
+    if (error instanceof MorpionMoveRejection) {
+      throw toHttpsError(error.reason);
+    }
+    throw error;
+  }
+});
+
+/**
+ * Reprendre une partie en pause.
+ * Une pause pour déconnexion ne peut être levée que par le joueur déconnecté
+ * (celui qui ne l'a pas demandée). Le temps de pause, plafonné, est rendu au
+ * joueur au trait. Une partie déjà reprise n'est pas modifiée.
+ */
+export const morpionResumeGame = onCall<GameRequest>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw toHttpsError('UNAUTHENTICATED');
+  }
+
+  const { gameId } = request.data || ({} as GameRequest);
+  if (typeof gameId !== 'string') {
+    throw toHttpsError('INVALID_ARGUMENT');
+  }
+
+  const db = admin.firestore();
+  const gameRef = db.collection(MORPION_GAMES_COLLECTION).doc(gameId);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists) {
+        throw new MorpionMoveRejection('GAME_NOT_FOUND');
+      }
+
+      const game = { id: gameDoc.id, ...gameDoc.data() } as MorpionGame;
+      if (!game.players.some(p => p.id === uid)) {
+        throw new MorpionMoveRejection('NOT_A_PLAYER');
+      }
+      if (game.status === 'playing') {
+        return { status: 'playing' };
+      }
+      if (game.status !== 'paused') {
+        throw new MorpionMoveRejection('GAME_NOT_PAUSED');
+      }
+      if (game.pauseReason === 'player_disconnected' && game.pausedBy === uid) {
+        throw new MorpionMoveRejection('NOT_DISCONNECTED_PLAYER');
+      }
+
+      const now = Date.now();
+      const updateData: Record<string, unknown> = {
+        status: 'playing',
+        pausedAt: null,
+        pausedBy: null,
+        pauseReason: null,
+        updatedAt: now,
+      };
+      if (game.timeControl && game.turnStartedAt) {
+        updateData.turnStartedAt = game.turnStartedAt + getPauseCredit(game.pausedAt, now);
+      }
+      transaction.update(gameRef, updateData);
+
+      return { status: 'playing' };
+    });
+  } catch (error) {
+    if (error instanceof MorpionMoveRejection) {
+      throw toHttpsError(error.reason);
+    }
+    throw error;
+  }
+});
@@ -0,0 +1,82 @@
+import * as admin from 'firebase-admin';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import {
+  isTurnExpired,
+  Puissance4ErrorCode,
+  Puissance4Game,
+  Puissance4Rejection,
+  PUISSANCE4_ERROR_MESSAGES,
+  PUISSANCE4_GAMES_COLLECTION,
+} from './puissance4Rules';
+
+interface ClaimTimeoutRequest {
+  gameId: string;
+}
+
+const toHttpsError = (reason: Puissance4ErrorCode): HttpsError => {
+  const code = reason === 'UNAUTHENTICATED'
+    ? 'unauthenticated'
+    : reason === 'INVALID_ARGUMENT'
+      ? 'invalid-argument'
+      : reason === 'GAME_NOT_FOUND'
+        ? 'not-found'
+        : 'permission-denied';
+
+  return new HttpsError(code, PUISSANCE4_ERROR_MESSAGES[reason], { reason });
+};
+
+/**
+ * Réclamer la victoire au temps quand le drapeau du joueur au trait est tombé.
+ * L'heure du serveur fait foi : les horloges des deux appareils peuvent différer.
+ * Renvoie finished: false si la pendule tourne encore ou si la partie est déjà finie,
+ * pour qu'un seul des deux clients enregistre l'historique.
+ */
+export const puissance4ClaimTimeout = onCall<ClaimTimeoutRequest>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw toHttpsError('UNAUTHENTICATED');
+  }
+
+  const { gameId } = request.data || ({} as ClaimTimeoutRequest);
+  if (typeof gameId !== 'string') {
+    throw toHttpsError('INVALID_ARGUMENT');
+  }
+
+  const db = admin.firestore();
+  const gameRef = db.collection(PUISSANCE4_GAMES_COLLECTION).doc(gameId);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists) {
+        throw new Puissance4Rejection('GAME_NOT_FOUND');
+      }
+
+      const game = { id: gameDoc.id, ...gameDoc.data() } as Puissance4Game;
+      if (!game.players.some(p => p.id === uid)) {
+        throw new Puissance4Rejection('NOT_A_PLAYER');
+      }
+
+      const now = Date.now();
+      if (!isTurnExpired(game, now)) {
+        return { finished: false };
+      }
+
+      const winner = game.currentPlayer === 'Rouge' ? 'Jaune' : 'Rouge';
+      transaction.update(gameRef, {
+        status: 'finished',
+        winner,
+        winReason: 'timeout',
+        completedAt: now,
+        updatedAt: now,
+      });
+
+      return { finished: true, winner };
+    });
+  } catch (error) {
+    if (error instanceof Puissance4Rejection) {
+      throw toHttpsError(error.reason);
+    }
+    throw error;
+  }
+});
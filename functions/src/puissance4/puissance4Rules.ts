@@ -0,0 +1,64 @@
+import { hasFlagFallen, TimeControl } from '../shared/timeControl';
+
+/**
+ * Règles du Puissance 4 côté serveur.
+ *
+ * Les coups restent écrits par l'application (transaction Firestore) ; le
+ * serveur tranche la fin de partie au temps avec sa propre horloge, et
+ * `turnStartedAt` est un horodatage serveur (FieldValue.serverTimestamp).
+ */
+
+export const PUISSANCE4_GAMES_COLLECTION = 'puissance4_games';
+
+export type Puissance4Color = 'Rouge' | 'Jaune';
+
+/** Horodatage Firestore, ou millisecondes sur les parties créées avant l'horodatage serveur */
+export type TurnTimestamp = { toMillis: () => number } | number | null;
+
+export interface Puissance4Game {
+  id: string;
+  players: { id: string; color: Puissance4Color }[];
+  status: 'waiting' | 'playing' | 'finished';
+  currentPlayer: Puissance4Color;
+  timeControl?: TimeControl | null;
+  clocks?: Record<string, number> | null;
+  turnStartedAt?: TurnTimestamp;
+}
+
+/**
+ * Codes d'erreur renvoyés au client dans `HttpsError.details.reason`
+ */
+export type Puissance4ErrorCode =
+  | 'UNAUTHENTICATED'
+  | 'INVALID_ARGUMENT'
+  | 'GAME_NOT_FOUND'
+  | 'NOT_A_PLAYER';
+
+export const PUISSANCE4_ERROR_MESSAGES: Record<Puissance4ErrorCode, string> = {
+  UNAUTHENTICATED: 'Vous devez être connecté pour jouer',
+  INVALID_ARGUMENT: 'Action invalide',
+  GAME_NOT_FOUND: 'Partie non trouvée',
+  NOT_A_PLAYER: 'Joueur non trouvé',
+};
+
+export class Puissance4Rejection extends Error {
+  constructor(public readonly reason: Puissance4ErrorCode) {
+    super(PUISSANCE4_ERROR_MESSAGES[reason]);
+    this.name = 'Puissance4Rejection';
+  }
+}
+
+export function toMillis(value: TurnTimestamp | undefined): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return typeof value === 'number' ? value : value.toMillis();
+}
+
+/**
+ * Drapeau du joueur au trait tombé à l'heure `now` du serveur
+ */
+export function isTurnExpired(game: Puissance4Game, now: number): boolean {
+  return game.status === 'playing' &&
+    hasFlagFallen(game.timeControl, game.clocks, game.currentPlayer, toMillis(game.turnStartedAt), now);
+}
@@ -0,0 +1,134 @@
+// Généré depuis src/utils/stakesLedger.ts par functions/scripts/syncShared.js : ne pas modifier.
+/**
+ * Carnet des gages du couple.
+ *
+ * Chaque partie terminée avec un enjeu crée une dette du perdant envers le
+ * gagnant. Le gagnant la réclame puis la marque comme honorée ; une dette
+ * non honorée après le délai est en retard et déclenche des rappels.
+ * Copié dans functions/src/shared par functions/scripts/syncShared.js
+ */
+
+export type StakeGameType = 'puissance4' | 'morpion' | 'dominos' | 'quiz';
+export type StakeDebtStatus = 'owed' | 'claimed' | 'fulfilled';
+
+export interface StakeDebt {
+  id: string;
+  gameType: StakeGameType;
+  gameId: string;
+  participants: string[]; // [débiteur, créancier] pour les requêtes array-contains
+  debtorId: string;
+  debtorName: string;
+  creditorId: string;
+  creditorName: string;
+  description: string;
+  presetId: string | null;
+  status: StakeDebtStatus;
+  createdAt: number;
+  dueAt: number;
+  claimedAt: number | null;
+  fulfilledAt: number | null;
+  lastReminderAt: number | null;
+  reminderCount: number;
+}
+
+export interface StakeDebtInput {
+  gameType: StakeGameType;
+  gameId: string;
+  debtorId: string;
+  debtorName: string;
+  creditorId: string;
+  creditorName: string;
+  description: string;
+  presetId?: string | null;
+}
+
+export interface StakesLedgerSummary {
+  owedByMe: number;
+  owedToMe: number;
+  overdueByMe: number;
+  fulfilled: number;
+}
+
+export const STAKE_DEBTS_COLLECTION = 'stake_debts';
+export const STAKE_DEBT_DUE_DAYS = 7; // Repris par la règle Firestore de création
+export const STAKE_REMINDER_INTERVAL_MS = 2 * 24 * 60 * 60 * 1000;
+export const MAX_STAKE_REMINDERS = 5;
+
+export const STAKE_GAME_LABELS: Record<StakeGameType, string> = {
+  puissance4: 'Puissance 4',
+  morpion: 'Morpion',
+  dominos: 'Dominos',
+  quiz: 'Quiz Couple',
+};
+
+/**
+ * Une seule dette par partie, même si les deux joueurs enregistrent le résultat
+ */
+export function getStakeDebtId(gameType: StakeGameType, gameId: string): string {
+  return `${gameType}_${gameId}`;
+}
+
+export function createStakeDebt(input: StakeDebtInput, now: number): StakeDebt {
+  return {
+    id: getStakeDebtId(input.gameType, input.gameId),
+    gameType: input.gameType,
+    gameId: input.gameId,
+    participants: [input.debtorId, input.creditorId],
+    debtorId: input.debtorId,
+    debtorName: input.debtorName,
+    creditorId: input.creditorId,
+    creditorName: input.creditorName,
+    description: input.description,
+    presetId: input.presetId ?? null,
+    status: 'owed',
+    createdAt: now,
+    dueAt: now + STAKE_DEBT_DUE_DAYS * 24 * 60 * 60 * 1000,
+    claimedAt: null,
+    fulfilledAt: null,
+    lastReminderAt: null,
+    reminderCount: 0,
+  };
+}
+
+export function isDebtOverdue(debt: StakeDebt, now: number): boolean {
+  return debt.status !== 'fulfilled' && debt.dueAt <= now;
+}
+
+/**
+ * Rappel au débiteur : dette en retard, intervalle respecté, pas plus de MAX_STAKE_REMINDERS
+ */
+export function shouldSendReminder(debt: StakeDebt, now: number): boolean {
+  if (!isDebtOverdue(debt, now) || debt.reminderCount >= MAX_STAKE_REMINDERS) return false;
+  return debt.lastReminderAt === null || now - debt.lastReminderAt >= STAKE_REMINDER_INTERVAL_MS;
+}
+
+/**
+ * Seul le créancier fait avancer une dette : réclamée, puis honorée
+ */
+export function canUpdateDebtStatus(
+  debt: StakeDebt,
+  status: StakeDebtStatus,
+  userId: string
+): boolean {
+  if (debt.creditorId !== userId) return false;
+  if (status === 'claimed') return debt.status === 'owed';
+  if (status === 'fulfilled') return debt.status !== 'fulfilled';
+  return false;
+}
+
+export function summarizeLedger(debts: StakeDebt[], userId: string, now: number): StakesLedgerSummary {
+  return debts.reduce<StakesLedgerSummary>(
+    (summary, debt) => {
+      if (debt.status === 'fulfilled') {
+        summary.fulfilled++;
+      } else if (debt.debtorId === userId) {
+        summary.owedByMe++;
+        if (isDebtOverdue(debt, now)) summary.overdueByMe++;
+      } else if (debt.creditorId === userId) {
+        summary.owedToMe++;
+      }
+      return summary;
+    },
+    { owedByMe: 0, owedToMe: 0, overdueByMe: 0, fulfilled: 0 }
+  );
+}
@@ -0,0 +1,142 @@
+// Généré depuis src/utils/ultimateLogic.ts par functions/scripts/syncShared.js : ne pas modifier.
+/**
+ * Règles du Morpion Ultimate : neuf petites grilles 3x3 dans une grande.
+ *
+ * Le plateau est stocké comme une grille 9x9 classique (position = ligne * 9 + colonne),
+ * ce qui garde le replay et l'historique compatibles. La case jouée dans une
+ * petite grille envoie l'adversaire dans la petite grille correspondante.
+ * Copié dans functions/src/shared par functions/scripts/syncShared.js
+ */
+
+export const ULTIMATE_BOARD_SIZE = 9;
+export const ULTIMATE_SUB_SIZE = 3;
+
+export type SubBoardResult = 'X' | 'O' | 'draw' | null;
+
+const LINES = [
+  [0, 1, 2], [3, 4, 5], [6, 7, 8],
+  [0, 3, 6], [1, 4, 7], [2, 5, 8],
+  [0, 4, 8], [2, 4, 6],
+];
+
+/**
+ * Index (0-8) de la petite grille contenant une position du plateau 9x9
+ */
+export function getSubBoardIndex(position: number): number {
+  const row = Math.floor(position / ULTIMATE_BOARD_SIZE);
+  const col = position % ULTIMATE_BOARD_SIZE;
+  return Math.floor(row / ULTIMATE_SUB_SIZE) * ULTIMATE_SUB_SIZE + Math.floor(col / ULTIMATE_SUB_SIZE);
+}
+
+/**
+ * Index (0-8) de la case à l'intérieur de sa petite grille
+ */
+export function getCellIndexInSubBoard(position: number): number {
+  const row = Math.floor(position / ULTIMATE_BOARD_SIZE);
+  const col = position % ULTIMATE_BOARD_SIZE;
+  return (row % ULTIMATE_SUB_SIZE) * ULTIMATE_SUB_SIZE + (col % ULTIMATE_SUB_SIZE);
+}
+
+/**
+ * Positions du plateau 9x9 appartenant à une petite grille, dans l'ordre des cases
+ */
+export function getSubBoardPositions(subBoard: number): number[] {
+  const baseRow = Math.floor(subBoard / ULTIMATE_SUB_SIZE) * ULTIMATE_SUB_SIZE;
+  const baseCol = (subBoard % ULTIMATE_SUB_SIZE) * ULTIMATE_SUB_SIZE;
+  const positions: number[] = [];
+  for (let cell = 0; cell < 9; cell++) {
+    const row = baseRow + Math.floor(cell / ULTIMATE_SUB_SIZE);
+    const col = baseCol + (cell % ULTIMATE_SUB_SIZE);
+    positions.push(row * ULTIMATE_BOARD_SIZE + col);
+  }
+  return positions;
+}
+
+const getLineWinner = (cells: (string | null)[]): { symbol: string; line: number[] } | null => {
+  for (const line of LINES) {
+    const [a, b, c] = line;
+    if (cells[a] && cells[a] !== 'draw' && cells[a] === cells[b] && cells[a] === cells[c]) {
+      return { symbol: cells[a] as string, line };
+    }
+  }
+  return null;
+};
+
+/**
+ * Résultat d'une petite grille : gagnée, nulle (pleine) ou en cours
+ */
+export function getSubBoardResult(board: (string | null)[], subBoard: number): SubBoardResult {
+  const cells = getSubBoardPositions(subBoard).map(position => board[position]);
+  const winner = getLineWinner(cells);
+  if (winner) {
+    return winner.symbol as 'X' | 'O';
+  }
+  return cells.every(cell => cell !== null) ? 'draw' : null;
+}
+
+export function getSubBoardResults(board: (string | null)[]): SubBoardResult[] {
+  return Array.from({ length: 9 }, (_, subBoard) => getSubBoardResult(board, subBoard));
+}
+
+/**
+ * Petites grilles où le prochain joueur peut jouer.
+ * Le dernier coup désigne la grille cible ; si elle est terminée, le choix est libre.
+ */
+export function getActiveSubBoards(board: (string | null)[], lastPosition: number | null): number[] {
+  const results = getSubBoardResults(board);
+  const openSubBoards = results
+    .map((result, subBoard) => (result === null ? subBoard : -1))
+    .filter(subBoard => subBoard >= 0);
+
+  if (lastPosition === null || lastPosition === undefined) {
+    return openSubBoards;
+  }
+
+  const target = getCellIndexInSubBoard(lastPosition);
+  return results[target] === null ? [target] : openSubBoards;
+}
+
+export type UltimateMoveError = 'WRONG_SUB_BOARD' | 'SUB_BOARD_CLOSED';
+
+/**
+ * Vérifier qu'un coup respecte la grille imposée (la case doit être vide, vérifié ailleurs)
+ */
+export function getUltimateMoveError(
+  board: (string | null)[],
+  position: number,
+  lastPosition: number | null
+): UltimateMoveError | null {
+  const subBoard = getSubBoardIndex(position);
+  if (getSubBoardResult(board, subBoard) !== null) {
+    return 'SUB_BOARD_CLOSED';
+  }
+  if (!getActiveSubBoards(board, lastPosition).includes(subBoard)) {
+    return 'WRONG_SUB_BOARD';
+  }
+  return null;
+}
+
+/**
+ * Résultat de la grande grille. La ligne gagnante contient toutes les cases
+ * des trois petites grilles alignées.
+ */
+export function checkUltimateWinner(
+  board: (string | null)[]
+): { winner: 'X' | 'O' | 'draw' | null; line: number[] } {
+  const results = getSubBoardResults(board);
+  const macroWinner = getLineWinner(results);
+
+  if (macroWinner) {
+    return {
+      winner: macroWinner.symbol as 'X' | 'O',
+      line: macroWinner.line.flatMap(subBoard => getSubBoardPositions(subBoard)),
+    };
+  }
+
+  // Plus aucune petite grille ouverte : partie nulle
+  if (results.every(result => result !== null)) {
+    return { winner: 'draw', line: [] };
+  }
+
+  return { winner: null, line: [] };
+}
@@ -0,0 +1,64 @@
+import * as admin from 'firebase-admin';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import {
+  StakeDebt,
+  STAKE_DEBTS_COLLECTION,
+  STAKE_GAME_LABELS,
+  shouldSendReminder,
+} from '../shared/stakesLedger';
+
+/**
+ * Notifier le débiteur d'un gage en retard.
+ * Le rappel est compté même sans jeton FCM pour ne pas réessayer à chaque passage.
+ */
+const sendReminder = async (db: admin.firestore.Firestore, debt: StakeDebt, now: number): Promise<void> => {
+  const debtorDoc = await db.collection('users').doc(debt.debtorId).get();
+  const token = debtorDoc.get('fcmToken') as string | undefined;
+
+  if (token) {
+    try {
+      await admin.messaging().send({
+        token,
+        notification: {
+          title: 'Gage en attente 💌',
+          body: `Tu dois encore à ${debt.creditorName} : ${debt.description} (${STAKE_GAME_LABELS[debt.gameType]})`,
+        },
+        data: {
+          type: 'stake_reminder',
+          debtId: debt.id,
+        },
+      });
+    } catch (error) {
+      console.error('Error sending stake reminder:', { debtId: debt.id, error });
+    }
+  }
+
+  await db.collection(STAKE_DEBTS_COLLECTION).doc(debt.id).update({
+    lastReminderAt: now,
+    reminderCount: admin.firestore.FieldValue.increment(1),
+  });
+};
+
+/**
+ * Rappels quotidiens des gages en retard (réclamés ou non)
+ */
+export const stakesSendReminders = onSchedule('every 24 hours', async () => {
+  const db = admin.firestore();
+  const now = Date.now();
+
+  const snapshot = await db
+    .collection(STAKE_DEBTS_COLLECTION)
+    .where('status', 'in', ['owed', 'claimed'])
+    .where('dueAt', '<=', now)
+    .get();
+
+  const debts = snapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() }) as StakeDebt)
+    .filter(debt => shouldSendReminder(debt, now));
+
+  for (const debt of debts) {
+    await sendReminder(db, debt, now);
+  }
+
+  console.log('Stake reminders sent:', { count: debts.length });
+});
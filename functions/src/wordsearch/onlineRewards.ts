@@ -0,0 +1,86 @@
+import * as admin from 'firebase-admin';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import {
+  createOnlineRewardEntry,
+  getOnlineReward,
+  getOnlineRewardEntryId,
+  isOnlineGameMode,
+  LEDGER_ENTRIES_SUBCOLLECTION,
+  OnlineGame,
+  OnlineGameMode,
+  OnlineRewardEntry,
+  OnlineRewardErrorCode,
+  OnlineRewardRejection,
+  ONLINE_GAME_COLLECTIONS,
+  ONLINE_REWARD_ERROR_MESSAGES,
+  WORD_SEARCH_LEDGER_COLLECTION,
+} from './wordSearchEconomy';
+
+interface ClaimRewardRequest {
+  mode: OnlineGameMode;
+  gameId: string;
+}
+
+const toHttpsError = (reason: OnlineRewardErrorCode): HttpsError => {
+  const code = reason === 'UNAUTHENTICATED'
+    ? 'unauthenticated'
+    : reason === 'INVALID_ARGUMENT'
+      ? 'invalid-argument'
+      : reason === 'GAME_NOT_FOUND'
+        ? 'not-found'
+        : reason === 'NOT_A_PLAYER'
+          ? 'permission-denied'
+          : 'failed-precondition';
+
+  return new HttpsError(code, ONLINE_REWARD_ERROR_MESSAGES[reason], { reason });
+};
+
+/**
+ * Réclamer la récompense d'une partie en ligne terminée.
+ * Idempotent : une nouvelle demande renvoie l'écriture déjà enregistrée.
+ */
+export const wordSearchClaimOnlineReward = onCall<ClaimRewardRequest>(async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw toHttpsError('UNAUTHENTICATED');
+  }
+
+  const { mode, gameId } = request.data || ({} as ClaimRewardRequest);
+  if (!isOnlineGameMode(mode) || typeof gameId !== 'string' || !gameId) {
+    throw toHttpsError('INVALID_ARGUMENT');
+  }
+
+  const db = admin.firestore();
+  const gameRef = db.collection(ONLINE_GAME_COLLECTIONS[mode]).doc(gameId);
+  const entryRef = db
+    .collection(WORD_SEARCH_LEDGER_COLLECTION)
+    .doc(uid)
+    .collection(LEDGER_ENTRIES_SUBCOLLECTION)
+    .doc(getOnlineRewardEntryId(mode, gameId));
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const existing = await transaction.get(entryRef);
+      if (existing.exists) {
+        return existing.data() as OnlineRewardEntry;
+      }
+
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists) {
+        throw new OnlineRewardRejection('GAME_NOT_FOUND');
+      }
+
+      const amount = getOnlineReward(mode, gameDoc.data() as OnlineGame, uid);
+      const entry = createOnlineRewardEntry(mode, gameId, amount, Date.now());
+      transaction.set(entryRef, entry);
+
+      console.log('Word search online reward granted:', { uid, mode, gameId, amount });
+      return entry;
+    });
+  } catch (error) {
+    if (error instanceof OnlineRewardRejection) {
+      throw toHttpsError(error.reason);
+    }
+    throw error;
+  }
+});
@@ -0,0 +1,199 @@
+/**
+ * Récompenses des parties Mots Mêlés en ligne.
+ *
+ * Le joueur ne peut pas écrire lui-même ces écritures : le serveur relit la
+ * partie terminée, calcule la récompense et l'ajoute à son registre
+ * (word_search_ledger/{uid}/entries), une seule fois par partie. Les
+ * joueurs écrivent eux-mêmes la partie : elle n'est payée que si elle a pu
+ * être jouée dans l'application (voir isPlayedGame).
+ * Miroir côté application : src/utils/wordsearch/economyLedger.ts
+ */
+
+export type OnlineGameMode = 'multiplayer' | 'cooperative';
+
+export interface OnlineRewardEntry {
+  id: string;
+  type: 'earn';
+  currency: 'coins';
+  amount: number;
+  reason: 'online_game_reward';
+  createdAt: number;
+  gameId: string;
+}
+
+export interface OnlineGamePlayer {
+  id: string;
+  score: number;
+  wordsFound: string[];
+}
+
+export interface OnlineGame {
+  status: string;
+  players: OnlineGamePlayer[];
+  playerIds?: string[]; // Participants tenus par les règles Firestore
+  winnerId?: string;
+  grid?: { words?: { text: string; isBonus?: boolean }[] }; // Multijoueur
+  words?: string[]; // Coopératif : mots à trouver
+  wordsFound?: string[]; // Coopératif : mots trouvés ensemble
+}
+
+export type OnlineRewardErrorCode =
+  | 'UNAUTHENTICATED'
+  | 'INVALID_ARGUMENT'
+  | 'GAME_NOT_FOUND'
+  | 'NOT_A_PLAYER'
+  | 'GAME_NOT_FINISHED'
+  | 'INVALID_GAME'
+  | 'NOT_ELIGIBLE';
+
+export const ONLINE_REWARD_ERROR_MESSAGES: Record<OnlineRewardErrorCode, string> = {
+  UNAUTHENTICATED: 'Vous devez être connecté pour recevoir une récompense',
+  INVALID_ARGUMENT: 'Demande invalide',
+  GAME_NOT_FOUND: 'Partie non trouvée',
+  NOT_A_PLAYER: 'Vous ne faisiez pas partie de cette partie',
+  GAME_NOT_FINISHED: 'La partie n\'est pas terminée',
+  INVALID_GAME: 'Cette partie n\'a pas été jouée dans l\'application',
+  NOT_ELIGIBLE: 'Cette partie ne donne pas de récompense',
+};
+
+export class OnlineRewardRejection extends Error {
+  constructor(public readonly reason: OnlineRewardErrorCode) {
+    super(ONLINE_REWARD_ERROR_MESSAGES[reason]);
+    this.name = 'OnlineRewardRejection';
+  }
+}
+
+export const WORD_SEARCH_LEDGER_COLLECTION = 'word_search_ledger';
+export const LEDGER_ENTRIES_SUBCOLLECTION = 'entries';
+
+export const ONLINE_GAME_COLLECTIONS: Record<OnlineGameMode, string> = {
+  multiplayer: 'multiplayer_games',
+  cooperative: 'cooperative_games',
+};
+
+// Statut d'une partie terminée selon le mode
+const FINISHED_STATUSES: Record<OnlineGameMode, string> = {
+  multiplayer: 'finished',
+  cooperative: 'completed',
+};
+
+// Mêmes montants que COIN_REWARDS côté application
+export const ONLINE_COIN_REWARDS = {
+  multiplayerWin: 50,
+  multiplayerParticipation: 10,
+  cooperativeCompleted: 50,
+};
+
+export function isOnlineGameMode(mode: unknown): mode is OnlineGameMode {
+  return mode === 'multiplayer' || mode === 'cooperative';
+}
+
+/**
+ * Une seule récompense par joueur et par partie
+ */
+export function getOnlineRewardEntryId(mode: OnlineGameMode, gameId: string): string {
+  return `${mode}_${gameId}`;
+}
+
+/**
+ * Mots de la grille : ceux du multijoueur peuvent être des mots bonus,
+ * qui ne comptent pas pour gagner
+ */
+function getGameWords(mode: OnlineGameMode, game: OnlineGame, withBonus: boolean): string[] {
+  if (mode === 'cooperative') {
+    return Array.isArray(game.words) ? game.words : [];
+  }
+  const words = Array.isArray(game.grid?.words) ? game.grid.words : [];
+  return words.filter(word => withBonus || !word.isBonus).map(word => word.text);
+}
+
+/**
+ * Mots distincts, tous pris dans la grille
+ */
+function isWordListOf(found: unknown, words: string[]): found is string[] {
+  return Array.isArray(found)
+    && new Set(found).size === found.length
+    && found.every(word => words.includes(word));
+}
+
+/**
+ * Partie jouée dans l'application : ses joueurs sont exactement les
+ * participants que les règles Firestore laissent écrire (playerIds), chacun
+ * n'a trouvé que des mots de la grille, et une partie coopérative terminée
+ * a trouvé tous ses mots
+ */
+export function isPlayedGame(mode: OnlineGameMode, game: OnlineGame): boolean {
+  const playerIds = Array.isArray(game.playerIds) ? game.playerIds : [];
+  const ids = game.players.map(p => p.id);
+  if (
+    ids.length !== playerIds.length ||
+    new Set(ids).size !== ids.length ||
+    !ids.every(id => playerIds.includes(id))
+  ) {
+    return false;
+  }
+
+  const words = getGameWords(mode, game, true);
+  if (words.length === 0 || !game.players.every(p => isWordListOf(p.wordsFound || [], words))) {
+    return false;
+  }
+
+  return mode === 'multiplayer'
+    || (isWordListOf(game.wordsFound, words) && game.wordsFound.length === words.length);
+}
+
+/**
+ * Récompense d'un joueur pour une partie terminée.
+ * Multijoueur : le gagnant doit avoir le meilleur score et tous les mots de
+ * la grille, les autres au moins un mot. Coopératif : tous les mots trouvés ensemble.
+ * @throws OnlineRewardRejection si la partie ne donne rien à ce joueur
+ */
+export function getOnlineReward(mode: OnlineGameMode, game: OnlineGame, uid: string): number {
+  if (!Array.isArray(game.players)) {
+    throw new OnlineRewardRejection('INVALID_GAME');
+  }
+  const player = game.players.find(p => p.id === uid);
+  if (!player) {
+    throw new OnlineRewardRejection('NOT_A_PLAYER');
+  }
+  if (game.status !== FINISHED_STATUSES[mode]) {
+    throw new OnlineRewardRejection('GAME_NOT_FINISHED');
+  }
+  if (!isPlayedGame(mode, game)) {
+    throw new OnlineRewardRejection('INVALID_GAME');
+  }
+  if (game.players.length < 2) {
+    throw new OnlineRewardRejection('NOT_ELIGIBLE');
+  }
+
+  if (mode === 'cooperative') {
+    return ONLINE_COIN_REWARDS.cooperativeCompleted;
+  }
+
+  const bestScore = Math.max(...game.players.map(p => p.score || 0));
+  const foundAll = getGameWords(mode, game, false).every(word => (player.wordsFound || []).includes(word));
+  if (game.winnerId === uid && player.score === bestScore && foundAll) {
+    return ONLINE_COIN_REWARDS.multiplayerWin;
+  }
+  if ((player.wordsFound || []).length === 0) {
+    throw new OnlineRewardRejection('NOT_ELIGIBLE');
+  }
+  return ONLINE_COIN_REWARDS.multiplayerParticipation;
+}
+
+export function createOnlineRewardEntry(
+  mode: OnlineGameMode,
+  gameId: string,
+  amount: number,
+  now: number
+): OnlineRewardEntry {
+  return {
+    id: getOnlineRewardEntryId(mode, gameId),
+    type: 'earn',
+    currency: 'coins',
+    amount,
+    reason: 'online_game_reward',
+    createdAt: now,
+    gameId,
+  };
+}
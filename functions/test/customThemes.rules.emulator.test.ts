@@ -0,0 +1,74 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { PROJECT_ID } from './emulator';
+
+const THEME_ID = 'custom_1';
+const THEME_PATH = `word_search_custom_themes/${THEME_ID}`;
+const ALICE = 'alice'; // Propriétaire
+const BOB = 'bob'; // Partenaire d'Alice
+const EVE = 'eve';
+
+let rulesEnv: RulesTestEnvironment;
+
+const firestoreAs = (uid: string) => rulesEnv.authenticatedContext(uid).firestore();
+
+const themeData = (memberIds: string[], ownerId = ALICE) => ({
+  id: THEME_ID,
+  ownerId,
+  name: 'Nos voyages',
+  words: ['PARIS', 'LYON', 'NANTES', 'BREST', 'NICE'],
+  memberIds,
+});
+
+const saveTheme = (uid: string, memberIds: string[], ownerId = uid) =>
+  setDoc(doc(firestoreAs(uid), THEME_PATH), themeData(memberIds, ownerId));
+
+describe('règles Firestore des thèmes personnalisés (émulateur)', () => {
+  beforeAll(async () => {
+    rulesEnv = await initializeTestEnvironment({
+      projectId: PROJECT_ID,
+      firestore: { rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8') },
+    });
+  });
+
+  beforeEach(async () => {
+    await rulesEnv.clearFirestore();
+    await rulesEnv.withSecurityRulesDisabled(async context => {
+      await setDoc(doc(context.firestore(), `users/${ALICE}`), { partnerId: BOB });
+      await setDoc(doc(context.firestore(), `users/${EVE}`), {});
+    });
+  });
+
+  afterAll(() => rulesEnv.cleanup());
+
+  it('partage un thème avec le seul partenaire du propriétaire', async () => {
+    await assertSucceeds(saveTheme(ALICE, [ALICE]));
+    await assertSucceeds(saveTheme(ALICE, [ALICE, BOB]));
+    await assertFails(saveTheme(ALICE, [ALICE, EVE]));
+    await assertFails(saveTheme(ALICE, [ALICE, BOB, EVE]));
+    await assertFails(saveTheme(EVE, [EVE, BOB]));
+  });
+
+  it('refuse un thème créé au nom d\'un autre joueur', async () => {
+    await assertFails(saveTheme(EVE, [EVE], ALICE));
+    await assertFails(saveTheme(EVE, [ALICE]));
+  });
+
+  it('laisse les membres lire le thème, et seulement le propriétaire le modifier', async () => {
+    await rulesEnv.withSecurityRulesDisabled(async context => {
+      await setDoc(doc(context.firestore(), THEME_PATH), themeData([ALICE, BOB]));
+    });
+
+    await assertSucceeds(getDoc(doc(firestoreAs(BOB), THEME_PATH)));
+    await assertFails(getDoc(doc(firestoreAs(EVE), THEME_PATH)));
+    await assertFails(saveTheme(BOB, [BOB], BOB));
+    await assertSucceeds(saveTheme(ALICE, [ALICE]));
+  });
+});
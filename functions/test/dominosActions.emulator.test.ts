@@ -0,0 +1,149 @@
+import { dominosDrawTile, dominosPlaceTile } from '../src/dominos/dominosActions';
+import {
+  DominoTile,
+  DominosGame,
+  DOMINOS_DECK_DOC_ID,
+  DOMINOS_GAMES_COLLECTION,
+  DOMINOS_HANDS_SUBCOLLECTION,
+  DOMINOS_PRIVATE_SUBCOLLECTION,
+} from '../src/dominos/dominosRules';
+import { callAs, clearFirestore, db, getRejectionReason, testEnv } from './emulator';
+
+const GAME_ID = 'game-dominos';
+const ALICE = 'alice';
+const BOB = 'bob';
+
+const tile = (left: number, right: number): DominoTile => ({
+  id: `${left}-${right}`,
+  left,
+  right,
+  isDouble: left === right,
+  orientation: 'horizontal',
+});
+
+const gameRef = () => db.collection(DOMINOS_GAMES_COLLECTION).doc(GAME_ID);
+const handRef = (playerId: string) => gameRef().collection(DOMINOS_HANDS_SUBCOLLECTION).doc(playerId);
+const deckRef = () => gameRef().collection(DOMINOS_PRIVATE_SUBCOLLECTION).doc(DOMINOS_DECK_DOC_ID);
+
+const readGame = async (): Promise<DominosGame> => (await gameRef().get()).data() as DominosGame;
+const readHand = async (playerId: string): Promise<DominoTile[]> => (await handRef(playerId).get()).data()?.tiles;
+const readDeck = async (): Promise<DominoTile[]> => (await deckRef().get()).data()?.tiles;
+
+/**
+ * Partie en cours : double-six au centre, Alice a la main avec un 6-1 à poser
+ */
+const seedGame = async (aliceTiles: DominoTile[]): Promise<void> => {
+  const player = (id: string, tilesCount: number) => ({
+    id,
+    profile: { id, name: id },
+    tilesCount,
+    hasDrawn: false,
+    hasPassed: false,
+    score: 0,
+    isReady: true,
+  });
+  const bobTiles = [tile(0, 0), tile(0, 2)];
+  const deck = [tile(4, 5), tile(3, 3)];
+
+  await gameRef().set({
+    roomCode: 'ABC123',
+    hostId: ALICE,
+    players: [player(ALICE, aliceTiles.length), player(BOB, bobTiles.length)],
+    maxPlayers: 2,
+    maxValue: 6,
+    status: 'playing',
+    currentPlayerId: ALICE,
+    board: [{ tile: tile(6, 6), position: 0, side: 'left', timestamp: 0, playerId: BOB }],
+    drawPileCount: deck.length,
+    leftEnd: 6,
+    rightEnd: 6,
+    isBlocked: false,
+    winnerId: null,
+    winReason: null,
+    ruleset: 'classic',
+    targetScore: 100,
+    roundNumber: 1,
+    rounds: [],
+    turnNumber: 0,
+    lastActions: {},
+    startedAt: 0,
+    completedAt: null,
+  });
+  await handRef(ALICE).set({ playerId: ALICE, tiles: aliceTiles, updatedAt: 0 });
+  await handRef(BOB).set({ playerId: BOB, tiles: bobTiles, updatedAt: 0 });
+  await deckRef().set({ tiles: deck });
+};
+
+describe('actions de tour Dominos (émulateur)', () => {
+  beforeEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('rejoue une pioche renvoyée avec le même actionId sans piocher deux fois', async () => {
+    await seedGame([tile(1, 2), tile(2, 3)]);
+    const request = { gameId: GAME_ID, actionId: 'draw-1', expectedTurn: 0 };
+
+    const first = await callAs(dominosDrawTile, ALICE, request);
+    const retry = await callAs(dominosDrawTile, ALICE, request);
+
+    expect(retry).toEqual(first);
+    expect(await readHand(ALICE)).toHaveLength(3);
+    expect(await readDeck()).toHaveLength(1);
+    expect((await readGame()).turnNumber).toBe(1);
+  });
+
+  it('rejoue une pose déjà appliquée même si le tour est passé', async () => {
+    await seedGame([tile(6, 1), tile(2, 3)]);
+    const request = { gameId: GAME_ID, actionId: 'place-1', expectedTurn: 0, tileId: '6-1', side: 'left' };
+
+    const first = await callAs(dominosPlaceTile, ALICE, request);
+    const retry = await callAs(dominosPlaceTile, ALICE, request);
+
+    const game = await readGame();
+    expect(retry).toEqual(first);
+    expect(game.board).toHaveLength(2);
+    expect(game.currentPlayerId).toBe(BOB);
+    expect(await readHand(ALICE)).toEqual([tile(2, 3)]);
+  });
+
+  it('refuse une action préparée sur un tour dépassé', async () => {
+    await seedGame([tile(6, 1), tile(2, 3)]);
+    await callAs(dominosDrawTile, ALICE, { gameId: GAME_ID, actionId: 'draw-1', expectedTurn: 0 });
+
+    const reason = await getRejectionReason(
+      callAs(dominosPlaceTile, ALICE, { gameId: GAME_ID, actionId: 'place-1', expectedTurn: 0, tileId: '6-1', side: 'left' })
+    );
+
+    expect(reason).toBe('STALE_ACTION');
+    expect((await readGame()).board).toHaveLength(1);
+  });
+
+  it("n'applique qu'une des deux actions envoyées en même temps sur le même tour", async () => {
+    await seedGame([tile(1, 2), tile(2, 3)]);
+
+    const outcomes = await Promise.allSettled([
+      callAs(dominosDrawTile, ALICE, { gameId: GAME_ID, actionId: 'draw-a', expectedTurn: 0 }),
+      callAs(dominosDrawTile, ALICE, { gameId: GAME_ID, actionId: 'draw-b', expectedTurn: 0 }),
+    ]);
+
+    const rejected = outcomes.filter((o): o is PromiseRejectedResult => o.status === 'rejected');
+    expect(outcomes.filter(o => o.status === 'fulfilled')).toHaveLength(1);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason?.details?.reason).toBe('STALE_ACTION');
+    expect(await readHand(ALICE)).toHaveLength(3);
+    expect((await readGame()).turnNumber).toBe(1);
+  });
+
+  it('applique une seule fois le même actionId envoyé deux fois en même temps', async () => {
+    await seedGame([tile(1, 2), tile(2, 3)]);
+    const request = { gameId: GAME_ID, actionId: 'draw-1', expectedTurn: 0 };
+
+    const [first, second] = await Promise.all([
+      callAs(dominosDrawTile, ALICE, request),
+      callAs(dominosDrawTile, ALICE, request),
+    ]);
+
+    expect(second).toEqual(first);
+    expect(await readHand(ALICE)).toHaveLength(3);
+    expect(await readDeck()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,65 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import {
+  DOMINOS_DECK_DOC_ID,
+  DOMINOS_GAMES_COLLECTION,
+  DOMINOS_HANDS_SUBCOLLECTION,
+  DOMINOS_PRIVATE_SUBCOLLECTION,
+} from '../src/dominos/dominosRules';
+import { PROJECT_ID } from './emulator';
+
+const GAME_ID = 'game-dominos';
+const ALICE = 'alice';
+const BOB = 'bob';
+
+const handPath = (playerId: string) =>
+  `${DOMINOS_GAMES_COLLECTION}/${GAME_ID}/${DOMINOS_HANDS_SUBCOLLECTION}/${playerId}`;
+const deckPath = `${DOMINOS_GAMES_COLLECTION}/${GAME_ID}/${DOMINOS_PRIVATE_SUBCOLLECTION}/${DOMINOS_DECK_DOC_ID}`;
+
+let rulesEnv: RulesTestEnvironment;
+
+const firestoreAs = (uid: string) => rulesEnv.authenticatedContext(uid).firestore();
+
+describe('règles Firestore des mains Dominos (émulateur)', () => {
+  beforeAll(async () => {
+    rulesEnv = await initializeTestEnvironment({
+      projectId: PROJECT_ID,
+      firestore: { rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8') },
+    });
+  });
+
+  beforeEach(async () => {
+    await rulesEnv.clearFirestore();
+    await rulesEnv.withSecurityRulesDisabled(async context => {
+      const firestore = context.firestore();
+      await setDoc(doc(firestore, handPath(ALICE)), { playerId: ALICE, tiles: [{ id: '6-1' }], updatedAt: 0 });
+      await setDoc(doc(firestore, handPath(BOB)), { playerId: BOB, tiles: [{ id: '0-0' }], updatedAt: 0 });
+      await setDoc(doc(firestore, deckPath), { tiles: [{ id: '4-5' }] });
+    });
+  });
+
+  afterAll(() => rulesEnv.cleanup());
+
+  it('chaque joueur ne lit que sa propre main', async () => {
+    await assertSucceeds(getDoc(doc(firestoreAs(ALICE), handPath(ALICE))));
+    await assertFails(getDoc(doc(firestoreAs(ALICE), handPath(BOB))));
+    await assertFails(getDoc(doc(rulesEnv.unauthenticatedContext().firestore(), handPath(ALICE))));
+  });
+
+  it('aucun client ne modifie une main, même la sienne', async () => {
+    await assertFails(updateDoc(doc(firestoreAs(ALICE), handPath(ALICE)), { tiles: [{ id: '6-6' }] }));
+    await assertFails(setDoc(doc(firestoreAs(ALICE), handPath(BOB)), { playerId: BOB, tiles: [] }));
+  });
+
+  it('la pioche est illisible et non modifiable par les clients', async () => {
+    await assertFails(getDoc(doc(firestoreAs(ALICE), deckPath)));
+    await assertFails(setDoc(doc(firestoreAs(ALICE), deckPath), { tiles: [] }));
+  });
+});
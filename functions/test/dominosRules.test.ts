@@ -0,0 +1,141 @@
+import {
+  arrangeTeamSeats,
+  assertExpectedTurn,
+  canPlaceTile,
+  dealHands,
+  determineStartingPlayer,
+  DominoTile,
+  DominosGame,
+  DominosMoveRejection,
+  generateDominoSet,
+  getBlockedGameWinnerId,
+  getKochonIds,
+  getReplayedResult,
+  getRoundScore,
+  isGameBlocked,
+  isValidActionId,
+  isValidExpectedTurn,
+  normalizeTargetScore,
+  shuffleTiles,
+} from '../src/dominos/dominosRules';
+
+const tile = (left: number, right: number): DominoTile => ({
+  id: `${left}-${right}`,
+  left,
+  right,
+  isDouble: left === right,
+  orientation: 'horizontal',
+});
+
+const gameWith = (fields: Partial<DominosGame>): DominosGame => ({ ...fields } as DominosGame);
+
+describe('jeu de dominos', () => {
+  it.each([
+    [6, 28],
+    [9, 55],
+    [12, 91],
+  ])('double-%i : %i tuiles toutes différentes', (maxValue, count) => {
+    const tiles = generateDominoSet(maxValue);
+    expect(tiles).toHaveLength(count);
+    expect(new Set(tiles.map(t => `${t.left}-${t.right}`)).size).toBe(count);
+  });
+
+  it('le mélange garde les mêmes tuiles', () => {
+    const tiles = generateDominoSet(6);
+    const shuffled = shuffleTiles(tiles);
+    expect(shuffled).toHaveLength(tiles.length);
+    expect([...shuffled].sort((a, b) => a.id.localeCompare(b.id))).toEqual(
+      [...tiles].sort((a, b) => a.id.localeCompare(b.id))
+    );
+  });
+
+  it('distribue les mains et laisse le reste en pioche', () => {
+    const { hands, drawPile } = dealHands(generateDominoSet(6), ['a', 'b'], 7);
+    expect(hands.a).toHaveLength(7);
+    expect(hands.b).toHaveLength(7);
+    expect(drawPile).toHaveLength(14);
+  });
+});
+
+describe('pose et blocage', () => {
+  it('une tuile se pose du côté dont elle partage la valeur', () => {
+    expect(canPlaceTile(tile(6, 1), 6, 3)).toEqual({ canPlaceLeft: true, canPlaceRight: false });
+    expect(canPlaceTile(tile(2, 4), null, null)).toEqual({ canPlaceLeft: true, canPlaceRight: true });
+  });
+
+  it('le plus haut double commence', () => {
+    const { startingPlayerId, highestDouble } = determineStartingPlayer(['a', 'b'], {
+      a: [tile(3, 3), tile(1, 2)],
+      b: [tile(5, 5)],
+    });
+    expect(startingPlayerId).toBe('b');
+    expect(highestDouble).toEqual(tile(5, 5));
+  });
+
+  it("le jeu n'est bloqué qu'avec une pioche vide", () => {
+    const hands = [[tile(1, 2)], [tile(3, 4)]];
+    expect(isGameBlocked(hands, 6, 6, 0)).toBe(true);
+    expect(isGameBlocked(hands, 6, 6, 3)).toBe(false);
+  });
+
+  it("en règles haïtiennes, l'égalité revient au joueur qui a bloqué", () => {
+    const hands = { a: [tile(1, 2)], b: [tile(0, 3)] };
+    expect(getBlockedGameWinnerId('classic', ['a', 'b'], hands, 'b')).toBe('a');
+    expect(getBlockedGameWinnerId('haitian', ['a', 'b'], hands, 'b')).toBe('b');
+  });
+});
+
+describe('match', () => {
+  it('une manche haïtienne vaut un point, une manche classique les points adverses', () => {
+    const hands = { a: [], b: [tile(6, 5), tile(1, 1)] };
+    expect(getRoundScore('haitian', ['a', 'b'], hands, ['a'])).toBe(1);
+    expect(getRoundScore('classic', ['a', 'b'], hands, ['a'])).toBe(13);
+  });
+
+  it('ramène un objectif inconnu à la valeur par défaut', () => {
+    expect(normalizeTargetScore(150)).toBe(150);
+    expect(normalizeTargetScore(42)).toBe(100);
+    expect(normalizeTargetScore(4, 'haitian')).toBe(4);
+    expect(normalizeTargetScore(100, 'haitian')).toBe(3);
+  });
+
+  it('les perdants sans manche gagnée sont kochon en règles haïtiennes', () => {
+    const players = [{ id: 'a', score: 3 }, { id: 'b', score: 0 }];
+    expect(getKochonIds('haitian', players, ['a'])).toEqual(['b']);
+    expect(getKochonIds('classic', players, ['a'])).toEqual([]);
+  });
+
+  it('à quatre, les partenaires se font face', () => {
+    const players = [{ id: 'a', team: 0 }, { id: 'b', team: 0 }, { id: 'c', team: 1 }, { id: 'd', team: 1 }];
+    expect(arrangeTeamSeats(players)?.map(p => p.id)).toEqual(['a', 'c', 'b', 'd']);
+    expect(arrangeTeamSeats(players.slice(0, 3))).toBeNull();
+  });
+});
+
+describe('actions de tour', () => {
+  it('valide actionId et expectedTurn', () => {
+    expect(isValidActionId(undefined)).toBe(true);
+    expect(isValidActionId('')).toBe(false);
+    expect(isValidActionId('x'.repeat(65))).toBe(false);
+    expect(isValidExpectedTurn(3)).toBe(true);
+    expect(isValidExpectedTurn(-1)).toBe(false);
+    expect(isValidExpectedTurn(1.5)).toBe(false);
+  });
+
+  it('renvoie le résultat déjà obtenu pour le même actionId', () => {
+    const game = gameWith({
+      lastActions: { a: { actionId: 'draw-1', turnNumber: 4, result: { drawPileCount: 3 } } },
+    });
+    expect(getReplayedResult(game, 'a', 'draw-1')).toEqual({ drawPileCount: 3 });
+    expect(getReplayedResult(game, 'a', 'draw-2')).toBeNull();
+    expect(getReplayedResult(game, 'b', 'draw-1')).toBeNull();
+    expect(getReplayedResult(game, 'a', undefined)).toBeNull();
+  });
+
+  it('refuse une action préparée sur un tour dépassé', () => {
+    const game = gameWith({ turnNumber: 2 });
+    expect(() => assertExpectedTurn(game, 2)).not.toThrow();
+    expect(() => assertExpectedTurn(game, undefined)).not.toThrow();
+    expect(() => assertExpectedTurn(game, 1)).toThrow(DominosMoveRejection);
+  });
+});
@@ -0,0 +1,94 @@
+import { dominosStartGame } from '../src/dominos/dominosActions';
+import {
+  DominoTile,
+  DominosGame,
+  DOMINOS_DECK_DOC_ID,
+  DOMINOS_GAMES_COLLECTION,
+  DOMINOS_HANDS_SUBCOLLECTION,
+  DOMINOS_PRIVATE_SUBCOLLECTION,
+} from '../src/dominos/dominosRules';
+import { callAs, clearFirestore, db, getRejectionReason, testEnv } from './emulator';
+
+const GAME_ID = 'game-dominos';
+const ALICE = 'alice';
+const BOB = 'bob';
+
+const gameRef = () => db.collection(DOMINOS_GAMES_COLLECTION).doc(GAME_ID);
+const readGame = async (): Promise<DominosGame> => (await gameRef().get()).data() as DominosGame;
+const readHand = async (playerId: string): Promise<DominoTile[]> =>
+  (await gameRef().collection(DOMINOS_HANDS_SUBCOLLECTION).doc(playerId).get()).data()?.tiles;
+const readDeck = async (): Promise<DominoTile[]> =>
+  (await gameRef().collection(DOMINOS_PRIVATE_SUBCOLLECTION).doc(DOMINOS_DECK_DOC_ID).get()).data()?.tiles;
+
+/**
+ * Salon complet : Alice (hôte) et Bob sont prêts
+ */
+const seedLobby = async (): Promise<void> => {
+  const player = (id: string) => ({
+    id,
+    profile: { id, name: id },
+    tilesCount: 0,
+    hasDrawn: false,
+    hasPassed: false,
+    score: 0,
+    isReady: true,
+  });
+
+  await gameRef().set({
+    roomCode: 'ABC123',
+    hostId: ALICE,
+    players: [player(ALICE), player(BOB)],
+    maxPlayers: 2,
+    maxValue: 6,
+    status: 'waiting',
+    currentPlayerId: null,
+    board: [],
+    drawPileCount: 0,
+    leftEnd: null,
+    rightEnd: null,
+    isBlocked: false,
+    winnerId: null,
+    winReason: null,
+    ruleset: 'classic',
+    startedAt: null,
+    completedAt: null,
+  });
+};
+
+describe('distribution des mains Dominos (émulateur)', () => {
+  beforeEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('distribue les mains hors du document public de la partie', async () => {
+    await seedLobby();
+
+    await callAs(dominosStartGame, ALICE, { gameId: GAME_ID });
+
+    const game = await readGame();
+    const aliceHand = await readHand(ALICE);
+    const bobHand = await readHand(BOB);
+    const deck = await readDeck();
+
+    expect(game.status).toBe('playing');
+    expect(game).not.toHaveProperty('hands');
+    expect(game).not.toHaveProperty('drawPile');
+    expect(game.players.map(p => p.tilesCount)).toEqual([aliceHand.length, bobHand.length]);
+    expect(game.drawPileCount).toBe(deck.length);
+
+    // Chaque tuile du jeu est à un seul endroit : mains, pioche ou plateau
+    const tileIds = [...aliceHand, ...bobHand, ...deck, ...game.board.map(placement => placement.tile)]
+      .map(tile => tile.id);
+    expect(tileIds).toHaveLength(28);
+    expect(new Set(tileIds).size).toBe(28);
+  });
+
+  it("refuse le lancement par un joueur qui n'est pas l'hôte", async () => {
+    await seedLobby();
+
+    const reason = await getRejectionReason(callAs(dominosStartGame, BOB, { gameId: GAME_ID }));
+
+    expect(reason).toBe('NOT_HOST');
+    expect(await readHand(ALICE)).toBeUndefined();
+    expect((await readGame()).status).toBe('waiting');
+  });
+});
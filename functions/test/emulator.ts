@@ -0,0 +1,52 @@
+import * as admin from 'firebase-admin';
+import functionsTest from 'firebase-functions-test';
+
+/**
+ * Environnement commun des tests contre l'émulateur Firestore.
+ * Projet « demo- » : aucune ressource réelle ne peut être touchée.
+ */
+export const PROJECT_ID = 'demo-itsyouapp';
+
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+if (!emulatorHost) {
+  throw new Error('FIRESTORE_EMULATOR_HOST manquant : lancer ces tests avec `npm run test:emulator`');
+}
+
+export const testEnv = functionsTest({ projectId: PROJECT_ID });
+
+if (admin.apps.length === 0) {
+  admin.initializeApp({ projectId: PROJECT_ID });
+}
+
+export const db = admin.firestore();
+
+/**
+ * Appeler une fonction callable comme l'utilisateur `uid`
+ */
+export const callAs = <T>(callable: T, uid: string, data: Record<string, unknown>): Promise<any> =>
+  testEnv.wrap(callable as any)({ data, auth: { uid, token: {} } } as any);
+
+/**
+ * Raison métier d'un refus (`HttpsError.details.reason`)
+ */
+export const getRejectionReason = async (promise: Promise<unknown>): Promise<string | undefined> => {
+  try {
+    await promise;
+  } catch (error: any) {
+    return error?.details?.reason;
+  }
+  throw new Error('La requête aurait dû être refusée');
+};
+
+/**
+ * Vider la base émulée entre deux tests
+ */
+export const clearFirestore = async (): Promise<void> => {
+  const response = await fetch(
+    `http://${emulatorHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+    { method: 'DELETE' }
+  );
+  if (!response.ok) {
+    throw new Error(`Impossible de vider l'émulateur (${response.status})`);
+  }
+};
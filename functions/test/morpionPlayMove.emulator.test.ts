@@ -0,0 +1,172 @@
+import { morpionPauseGame, morpionPlayMove, morpionResumeGame } from '../src/morpion/playMove';
+import { MorpionGame, MorpionMove, MorpionSymbol } from '../src/morpion/morpionRules';
+import { MORPION_GAMES_COLLECTION, MORPION_HISTORY_COLLECTION } from '../src/morpion/morpionHistory';
+import { callAs, clearFirestore, db, getRejectionReason, testEnv } from './emulator';
+
+const GAME_ID = 'game-morpion';
+const ALICE = 'alice'; // X
+const BOB = 'bob'; // O
+
+const gameRef = () => db.collection(MORPION_GAMES_COLLECTION).doc(GAME_ID);
+const readGame = async (): Promise<MorpionGame> => (await gameRef().get()).data() as MorpionGame;
+
+/**
+ * Partie 3x3 en cours, rejouée depuis les positions données (X commence)
+ */
+const seedGame = async (positions: number[] = []): Promise<void> => {
+  const player = (id: string, symbol: MorpionSymbol) => ({
+    id,
+    profile: { id, name: id },
+    symbol,
+    isReady: true,
+  });
+  const moves: MorpionMove[] = positions.map((position, index) => ({
+    playerId: index % 2 === 0 ? ALICE : BOB,
+    symbol: index % 2 === 0 ? 'X' : 'O',
+    position,
+    timestamp: index,
+  }));
+  const board = Array(9).fill(null);
+  moves.forEach(move => {
+    board[move.position] = move.symbol;
+  });
+
+  await gameRef().set({
+    roomCode: 'ABC123',
+    hostId: ALICE,
+    players: [player(ALICE, 'X'), player(BOB, 'O')],
+    status: 'playing',
+    board,
+    boardSize: 3,
+    winCondition: 3,
+    currentPlayer: moves.length % 2 === 0 ? 'X' : 'O',
+    moves,
+    winner: null,
+    winningLine: [],
+    startedAt: 0,
+    completedAt: null,
+    lastActions: {},
+  });
+};
+
+describe('coups de Morpion validés par le serveur (émulateur)', () => {
+  beforeEach(clearFirestore);
+  afterAll(() => testEnv.cleanup());
+
+  it('rejoue un coup renvoyé avec le même actionId sans le jouer deux fois', async () => {
+    await seedGame();
+    const request = { gameId: GAME_ID, position: 4, actionId: 'move-1', expectedMoveCount: 0 };
+
+    const first = await callAs(morpionPlayMove, ALICE, request);
+    const retry = await callAs(morpionPlayMove, ALICE, request);
+
+    const game = await readGame();
+    expect(retry).toEqual(first);
+    expect(game.moves).toHaveLength(1);
+    expect(game.currentPlayer).toBe('O');
+  });
+
+  it('rejoue un coup gagnant sans réécrire l\'historique', async () => {
+    await seedGame([0, 3, 1, 4]);
+    const request = { gameId: GAME_ID, position: 2, actionId: 'move-win', expectedMoveCount: 4 };
+
+    const first = await callAs(morpionPlayMove, ALICE, request);
+    const retry = await callAs(morpionPlayMove, ALICE, request);
+
+    const history = await db.collection(MORPION_HISTORY_COLLECTION).where('gameId', '==', GAME_ID).get();
+    expect(first).toMatchObject({ winner: 'X', winningLine: [0, 1, 2] });
+    expect(retry).toEqual(first);
+    expect(history.size).toBe(1);
+    expect((await readGame()).status).toBe('finished');
+  });
+
+  it('refuse un coup préparé sur un plateau dépassé', async () => {
+    await seedGame([4]);
+
+    const reason = await getRejectionReason(
+      callAs(morpionPlayMove, BOB, { gameId: GAME_ID, position: 0, actionId: 'move-2', expectedMoveCount: 0 })
+    );
+
+    expect(reason).toBe('STALE_MOVE');
+    expect((await readGame()).moves).toHaveLength(1);
+  });
+
+  it.each([
+    ['hors de son tour', ALICE, 0, 'NOT_YOUR_TURN'],
+    ['sur une case occupée', BOB, 4, 'CELL_OCCUPIED'],
+    ['hors du plateau', BOB, 9, 'INVALID_POSITION'],
+    ['par un spectateur', 'carol', 0, 'NOT_A_PLAYER'],
+  ])('refuse un coup %s', async (_, uid, position, expected) => {
+    await seedGame([4]);
+
+    const reason = await getRejectionReason(
+      callAs(morpionPlayMove, uid, { gameId: GAME_ID, position, actionId: 'move-2', expectedMoveCount: 1 })
+    );
+
+    expect(reason).toBe(expected);
+    expect((await readGame()).moves).toHaveLength(1);
+  });
+
+  it("n'applique qu'un des deux coups envoyés en même temps sur le même plateau", async () => {
+    await seedGame();
+
+    const outcomes = await Promise.allSettled([
+      callAs(morpionPlayMove, ALICE, { gameId: GAME_ID, position: 0, actionId: 'move-a', expectedMoveCount: 0 }),
+      callAs(morpionPlayMove, ALICE, { gameId: GAME_ID, position: 8, actionId: 'move-b', expectedMoveCount: 0 }),
+    ]);
+
+    const rejected = outcomes.filter((o): o is PromiseRejectedResult => o.status === 'rejected');
+    expect(outcomes.filter(o => o.status === 'fulfilled')).toHaveLength(1);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason?.details?.reason).toBe('STALE_MOVE');
+    expect((await readGame()).moves).toHaveLength(1);
+  });
+
+  it('applique une seule fois le même actionId envoyé deux fois en même temps', async () => {
+    await seedGame();
+    const request = { gameId: GAME_ID, position: 4, actionId: 'move-1', expectedMoveCount: 0 };
+
+    const [first, second] = await Promise.all([
+      callAs(morpionPlayMove, ALICE, request),
+      callAs(morpionPlayMove, ALICE, request),
+    ]);
+
+    expect(second).toEqual(first);
+    expect((await readGame()).moves).toHaveLength(1);
+  });
+
+  it('enregistre l\'appelant comme auteur de la pause, sans se fier au client', async () => {
+    await seedGame();
+
+    await callAs(morpionPauseGame, ALICE, { gameId: GAME_ID, pausedBy: BOB, reason: 'player_disconnected' });
+
+    const game = await readGame();
+    expect(game.status).toBe('paused');
+    expect(game.pausedBy).toBe(ALICE);
+  });
+
+  it('ne laisse que le joueur déconnecté reprendre la partie', async () => {
+    await seedGame();
+    await callAs(morpionPauseGame, ALICE, { gameId: GAME_ID, reason: 'player_disconnected' });
+
+    const reason = await getRejectionReason(callAs(morpionResumeGame, ALICE, { gameId: GAME_ID }));
+    expect(reason).toBe('NOT_DISCONNECTED_PLAYER');
+
+    await callAs(morpionResumeGame, BOB, { gameId: GAME_ID });
+    expect((await readGame()).status).toBe('playing');
+  });
+
+  it('ignore une pause ou une reprise déjà appliquée', async () => {
+    await seedGame();
+
+    await callAs(morpionPauseGame, ALICE, { gameId: GAME_ID, reason: 'player_disconnected' });
+    await callAs(morpionPauseGame, BOB, { gameId: GAME_ID, reason: 'player_disconnected' });
+    const paused = await readGame();
+    expect(paused.pausedBy).toBe(ALICE);
+    expect(paused.pauseCount).toBe(1);
+
+    await callAs(morpionResumeGame, BOB, { gameId: GAME_ID });
+    await callAs(morpionResumeGame, BOB, { gameId: GAME_ID });
+    expect((await readGame()).status).toBe('playing');
+  });
+});
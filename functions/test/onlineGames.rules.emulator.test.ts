@@ -0,0 +1,77 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { doc, setDoc, updateDoc } from 'firebase/firestore';
+import { ONLINE_GAME_COLLECTIONS } from '../src/wordsearch/wordSearchEconomy';
+import { PROJECT_ID } from './emulator';
+
+const GAME_PATH = `${ONLINE_GAME_COLLECTIONS.multiplayer}/game-1`;
+const ALICE = 'alice'; // Hôte
+const BOB = 'bob';
+const EVE = 'eve';
+
+let rulesEnv: RulesTestEnvironment;
+
+const firestoreAs = (uid: string) => rulesEnv.authenticatedContext(uid).firestore();
+
+const player = (id: string) => ({ id, score: 0, wordsFound: [] });
+
+const seedGame = (fields: Record<string, unknown>) =>
+  rulesEnv.withSecurityRulesDisabled(async context => {
+    await setDoc(doc(context.firestore(), GAME_PATH), {
+      hostId: ALICE,
+      players: [player(ALICE), player(BOB)],
+      playerIds: [ALICE, BOB],
+      status: 'playing',
+      ...fields,
+    });
+  });
+
+describe('règles Firestore des parties Mots Mêlés en ligne (émulateur)', () => {
+  beforeAll(async () => {
+    rulesEnv = await initializeTestEnvironment({
+      projectId: PROJECT_ID,
+      firestore: { rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8') },
+    });
+  });
+
+  beforeEach(() => rulesEnv.clearFirestore());
+
+  afterAll(() => rulesEnv.cleanup());
+
+  it('ne crée qu\'un salon en attente dont l\'hôte est le seul joueur', async () => {
+    const game = { hostId: ALICE, players: [player(ALICE)], playerIds: [ALICE], status: 'waiting' };
+
+    await assertSucceeds(setDoc(doc(firestoreAs(ALICE), GAME_PATH), game));
+    await assertFails(setDoc(doc(firestoreAs(ALICE), GAME_PATH), { ...game, status: 'finished' }));
+    await assertFails(setDoc(doc(firestoreAs(ALICE), GAME_PATH), { ...game, playerIds: [ALICE, BOB] }));
+  });
+
+  it('ne laisse rejoindre un salon qu\'en s\'y ajoutant soi-même', async () => {
+    await seedGame({ status: 'waiting', players: [player(ALICE)], playerIds: [ALICE] });
+    const players = [player(ALICE), player(EVE)];
+
+    await assertFails(updateDoc(doc(firestoreAs(EVE), GAME_PATH), { players, playerIds: [ALICE, BOB] }));
+    await assertFails(updateDoc(doc(firestoreAs(EVE), GAME_PATH), { players, playerIds: [ALICE, EVE], status: 'playing' }));
+    await assertSucceeds(updateDoc(doc(firestoreAs(EVE), GAME_PATH), { players, playerIds: [ALICE, EVE] }));
+  });
+
+  it('refuse toute écriture d\'un non-participant sur une partie commencée', async () => {
+    await seedGame({});
+
+    await assertFails(updateDoc(doc(firestoreAs(EVE), GAME_PATH), { status: 'finished', winnerId: EVE }));
+  });
+
+  it('fait seulement avancer le statut, sans ajouter de participant', async () => {
+    await seedGame({});
+
+    await assertFails(updateDoc(doc(firestoreAs(ALICE), GAME_PATH), { status: 'waiting' }));
+    await assertFails(updateDoc(doc(firestoreAs(ALICE), GAME_PATH), { playerIds: [ALICE, BOB, EVE] }));
+    await assertSucceeds(updateDoc(doc(firestoreAs(BOB), GAME_PATH), { status: 'finished', winnerId: BOB }));
+  });
+});
@@ -0,0 +1,16 @@
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+
+/**
+ * Les règles partagées (src/shared) sont des copies générées du code de
+ * l'application : toute divergence doit passer par `npm run sync:shared`.
+ */
+describe('modules partagés avec l\'application', () => {
+  it('sont à jour avec leur source dans src/utils', () => {
+    expect(() =>
+      execFileSync('node', [path.join(__dirname, '..', 'scripts', 'syncShared.js'), '--check'], {
+        stdio: 'pipe',
+      })
+    ).not.toThrow();
+  });
+});
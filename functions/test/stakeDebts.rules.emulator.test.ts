@@ -0,0 +1,80 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { doc, setDoc } from 'firebase/firestore';
+import { PUISSANCE4_GAMES_COLLECTION } from '../src/puissance4/puissance4Rules';
+import { STAKE_DEBT_DUE_DAYS, STAKE_DEBTS_COLLECTION } from '../src/shared/stakesLedger';
+import { PROJECT_ID } from './emulator';
+
+const GAME_ID = 'game-p4';
+const ALICE = 'alice'; // Rouge, perdante
+const BOB = 'bob'; // Jaune, gagnant
+const DESCRIPTION = 'Un massage';
+const DUE_MS = STAKE_DEBT_DUE_DAYS * 24 * 60 * 60 * 1000;
+
+let rulesEnv: RulesTestEnvironment;
+
+const firestoreAs = (uid: string) => rulesEnv.authenticatedContext(uid).firestore();
+
+const debtData = (createdAt: number, dueAt = createdAt + DUE_MS) => ({
+  id: `puissance4_${GAME_ID}`,
+  gameType: 'puissance4',
+  gameId: GAME_ID,
+  participants: [ALICE, BOB],
+  debtorId: ALICE,
+  debtorName: ALICE,
+  creditorId: BOB,
+  creditorName: BOB,
+  description: DESCRIPTION,
+  presetId: null,
+  status: 'owed',
+  createdAt,
+  dueAt,
+  claimedAt: null,
+  fulfilledAt: null,
+  lastReminderAt: null,
+  reminderCount: 0,
+});
+
+const createDebt = (createdAt: number, dueAt?: number) =>
+  setDoc(
+    doc(firestoreAs(ALICE), `${STAKE_DEBTS_COLLECTION}/puissance4_${GAME_ID}`),
+    debtData(createdAt, dueAt)
+  );
+
+describe('règles Firestore du carnet des gages (émulateur)', () => {
+  beforeAll(async () => {
+    rulesEnv = await initializeTestEnvironment({
+      projectId: PROJECT_ID,
+      firestore: { rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8') },
+    });
+  });
+
+  beforeEach(async () => {
+    await rulesEnv.clearFirestore();
+    await rulesEnv.withSecurityRulesDisabled(async context => {
+      await setDoc(doc(context.firestore(), `${PUISSANCE4_GAMES_COLLECTION}/${GAME_ID}`), {
+        status: 'finished',
+        winner: 'Jaune',
+        stakes: { description: DESCRIPTION },
+        players: [{ id: ALICE, color: 'Rouge' }, { id: BOB, color: 'Jaune' }],
+      });
+    });
+  });
+
+  afterAll(() => rulesEnv.cleanup());
+
+  it('accepte une dette datée de maintenant et due après le délai', async () => {
+    await assertSucceeds(createDebt(Date.now()));
+  });
+
+  it('refuse une dette antidatée ou à l\'échéance modifiée', async () => {
+    await assertFails(createDebt(Date.now() - DUE_MS));
+    await assertFails(createDebt(Date.now(), Date.now() + DUE_MS * 10));
+  });
+});
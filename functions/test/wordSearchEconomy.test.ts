@@ -0,0 +1,95 @@
+import {
+  getOnlineReward,
+  OnlineGame,
+  OnlineGameMode,
+  OnlineRewardErrorCode,
+  ONLINE_COIN_REWARDS,
+} from '../src/wordsearch/wordSearchEconomy';
+
+const ALICE = 'alice';
+const BOB = 'bob';
+const WORDS = ['chat', 'chien', 'lapin'];
+
+const multiplayerGame = (fields: Partial<OnlineGame> = {}): OnlineGame => ({
+  status: 'finished',
+  playerIds: [ALICE, BOB],
+  players: [
+    { id: ALICE, score: 300, wordsFound: WORDS },
+    { id: BOB, score: 100, wordsFound: ['chat'] },
+  ],
+  winnerId: ALICE,
+  grid: { words: [...WORDS.map(text => ({ text })), { text: 'bonus', isBonus: true }] },
+  ...fields,
+});
+
+const cooperativeGame = (fields: Partial<OnlineGame> = {}): OnlineGame => ({
+  status: 'completed',
+  playerIds: [ALICE, BOB],
+  players: [
+    { id: ALICE, score: 90, wordsFound: ['chat', 'chien'] },
+    { id: BOB, score: 50, wordsFound: ['lapin'] },
+  ],
+  words: WORDS,
+  wordsFound: WORDS,
+  ...fields,
+});
+
+const rejection = (mode: OnlineGameMode, game: OnlineGame, uid: string): OnlineRewardErrorCode | null => {
+  try {
+    getOnlineReward(mode, game, uid);
+    return null;
+  } catch (error) {
+    return (error as { reason: OnlineRewardErrorCode }).reason;
+  }
+};
+
+describe('récompenses des parties Mots Mêlés en ligne', () => {
+  it('paie le gagnant et la participation d\'une partie multijoueur', () => {
+    expect(getOnlineReward('multiplayer', multiplayerGame(), ALICE)).toBe(ONLINE_COIN_REWARDS.multiplayerWin);
+    expect(getOnlineReward('multiplayer', multiplayerGame(), BOB)).toBe(ONLINE_COIN_REWARDS.multiplayerParticipation);
+    expect(getOnlineReward('cooperative', cooperativeGame(), BOB)).toBe(ONLINE_COIN_REWARDS.cooperativeCompleted);
+  });
+
+  it('ne paie ni un inconnu, ni une partie en cours', () => {
+    expect(rejection('multiplayer', multiplayerGame(), 'eve')).toBe('NOT_A_PLAYER');
+    expect(rejection('multiplayer', multiplayerGame({ status: 'playing' }), ALICE)).toBe('GAME_NOT_FINISHED');
+    expect(rejection('cooperative', cooperativeGame({ status: 'finished' }), ALICE)).toBe('GAME_NOT_FINISHED');
+  });
+
+  it('refuse un joueur ajouté sans passer par les participants', () => {
+    expect(rejection('multiplayer', multiplayerGame({ playerIds: [ALICE] }), ALICE)).toBe('INVALID_GAME');
+    expect(rejection('multiplayer', multiplayerGame({ playerIds: undefined }), ALICE)).toBe('INVALID_GAME');
+    expect(rejection('cooperative', cooperativeGame({
+      players: [{ id: ALICE, score: 90, wordsFound: [] }, { id: ALICE, score: 90, wordsFound: [] }],
+      playerIds: [ALICE, ALICE],
+    }), ALICE)).toBe('INVALID_GAME');
+  });
+
+  it('refuse des mots absents de la grille ou comptés deux fois', () => {
+    const players = [
+      { id: ALICE, score: 300, wordsFound: ['inventé'] },
+      { id: BOB, score: 100, wordsFound: ['chat', 'chat'] },
+    ];
+
+    expect(rejection('multiplayer', multiplayerGame({ players }), BOB)).toBe('INVALID_GAME');
+    expect(rejection('multiplayer', multiplayerGame({ grid: { words: [] } }), ALICE)).toBe('INVALID_GAME');
+    expect(rejection('cooperative', cooperativeGame({ wordsFound: ['chat'] }), ALICE)).toBe('INVALID_GAME');
+  });
+
+  it('ne déclare gagnant que celui qui a trouvé tous les mots', () => {
+    const game = multiplayerGame({
+      players: [
+        { id: ALICE, score: 300, wordsFound: ['chat', 'bonus'] },
+        { id: BOB, score: 100, wordsFound: ['chat'] },
+      ],
+    });
+
+    expect(getOnlineReward('multiplayer', game, ALICE)).toBe(ONLINE_COIN_REWARDS.multiplayerParticipation);
+  });
+
+  it('ne paie rien à une partie à un seul joueur', () => {
+    const game = multiplayerGame({ playerIds: [ALICE], players: [{ id: ALICE, score: 300, wordsFound: WORDS }] });
+
+    expect(rejection('multiplayer', game, ALICE)).toBe('NOT_ELIGIBLE');
+  });
+});
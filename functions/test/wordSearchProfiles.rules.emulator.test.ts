@@ -0,0 +1,48 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { doc, setDoc, updateDoc } from 'firebase/firestore';
+import { PROJECT_ID } from './emulator';
+
+const ALICE = 'alice';
+const PROFILE_PATH = `word_search_profiles/${ALICE}`;
+
+let rulesEnv: RulesTestEnvironment;
+
+const firestoreAs = (uid: string) => rulesEnv.authenticatedContext(uid).firestore();
+
+describe('règles Firestore du profil Mots Mêlés (émulateur)', () => {
+  beforeAll(async () => {
+    rulesEnv = await initializeTestEnvironment({
+      projectId: PROJECT_ID,
+      firestore: { rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8') },
+    });
+  });
+
+  beforeEach(async () => {
+    await rulesEnv.clearFirestore();
+    await rulesEnv.withSecurityRulesDisabled(async context => {
+      await setDoc(doc(context.firestore(), PROFILE_PATH), {
+        id: ALICE,
+        level: 2,
+        openingBalances: { coins: 75 },
+      });
+    });
+  });
+
+  afterAll(() => rulesEnv.cleanup());
+
+  it('laisse le joueur modifier son profil sans toucher aux soldes figés', async () => {
+    await assertSucceeds(updateDoc(doc(firestoreAs(ALICE), PROFILE_PATH), { level: 3 }));
+  });
+
+  it('refuse de modifier ou de retirer les soldes d\'ouverture figés', async () => {
+    await assertFails(updateDoc(doc(firestoreAs(ALICE), PROFILE_PATH), { openingBalances: { coins: 5000 } }));
+    await assertFails(setDoc(doc(firestoreAs(ALICE), PROFILE_PATH), { id: ALICE, level: 2 }));
+  });
+});
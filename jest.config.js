@@ -1,3 +1,5 @@
 module.exports = {
   preset: 'react-native',
+  // Les Cloud Functions ont leur propre configuration Jest
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/functions/'],
 };
@@ -9,9 +9,78 @@ import * as Animatable from 'react-native-animatable';
 
 interface CountdownTimerProps {
   style?: any;
+  // Mode pendule de partie : compte à rebours jusqu'à `endsAt` quand `isActive`
+  endsAt?: number | null;
+  remainingMs?: number | null; // Temps affiché quand la pendule est arrêtée (null : illimité)
+  label?: string;
+  isActive?: boolean;
+  onExpire?: () => void;
 }
 
-export const CountdownTimer: React.FC<CountdownTimerProps> = ({ style }) => {
+type GameClockProps = Omit<CountdownTimerProps, 'style'> & { style?: any };
+
+const LOW_TIME_MS = 10000;
+
+const formatClock = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+/**
+ * Pendule d'une partie en ligne : temps restant du joueur, en rouge sous 10 secondes.
+ * `onExpire` est appelé une seule fois quand le temps atteint zéro.
+ */
+const GameClock: React.FC<GameClockProps> = ({ style, endsAt, remainingMs, label, isActive, onExpire }) => {
+  const [now, setNow] = useState(Date.now());
+  const expiredRef = useRef(false);
+
+  const isRunning = !!isActive && !!endsAt;
+  const remaining = isRunning ? Math.max(0, endsAt! - now) : remainingMs ?? null;
+
+  useEffect(() => {
+    expiredRef.current = false;
+    if (!isRunning) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [isRunning, endsAt]);
+
+  useEffect(() => {
+    if (isRunning && remaining === 0 && !expiredRef.current) {
+      expiredRef.current = true;
+      onExpire?.();
+    }
+  }, [isRunning, remaining, onExpire]);
+
+  const isLow = remaining !== null && remaining < LOW_TIME_MS;
+
+  return (
+    <View style={[styles.clockContainer, isActive && styles.clockActive, isLow && styles.clockLow, style]}>
+      {label ? <Text style={styles.clockLabel} numberOfLines={1}>{label}</Text> : null}
+      <Text style={[styles.clockTime, isLow && styles.clockTimeLow]}>
+        {remaining === null ? '∞' : formatClock(remaining)}
+      </Text>
+    </View>
+  );
+};
+
+/**
+ * Compteur du temps passé ensemble (écran d'accueil), ou pendule de partie
+ * quand `endsAt` ou `remainingMs` est fourni.
+ */
+export const CountdownTimer: React.FC<CountdownTimerProps> = (props) => {
+  if (props.endsAt !== undefined || props.remainingMs !== undefined) {
+    return <GameClock {...props} />;
+  }
+  return <RelationshipCounter style={props.style} />;
+};
+
+const RelationshipCounter: React.FC<{ style?: any }> = ({ style }) => {
   const [timeElapsed, setTimeElapsed] = useState({
     years: 0,
     days: 282,
@@ -125,6 +194,37 @@ export const CountdownTimer: React.FC<CountdownTimerProps> = ({ style }) => {
 };
 
 const styles = StyleSheet.create({
+  clockContainer: {
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+    minWidth: 88,
+  },
+  clockActive: {
+    backgroundColor: 'rgba(255,105,180,0.25)',
+    borderColor: 'rgba(255,105,180,0.6)',
+  },
+  clockLow: {
+    borderColor: '#FF6B6B',
+  },
+  clockLabel: {
+    fontSize: 11,
+    color: 'rgba(255,255,255,0.7)',
+    marginBottom: 2,
+  },
+  clockTime: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    fontVariant: ['tabular-nums'],
+  },
+  clockTimeLow: {
+    color: '#FF6B6B',
+  },
   container: {
     alignItems: 'center',
     paddingVertical: 20,
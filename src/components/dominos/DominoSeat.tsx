@@ -0,0 +1,76 @@
+import React from 'react';
+import { View, StyleSheet, Text } from 'react-native';
+import { DominosPlayer } from '../../types/dominos.types';
+
+interface DominoSeatProps {
+  player: DominosPlayer;
+  isCurrentTurn?: boolean;
+  caption?: string;
+}
+
+/**
+ * Place d'un autre joueur autour de la table : seul le nombre de tuiles est connu
+ */
+export const DominoSeat: React.FC<DominoSeatProps> = ({
+  player,
+  isCurrentTurn = false,
+  caption,
+}) => {
+  return (
+    <View style={[styles.container, isCurrentTurn && styles.containerActive]}>
+      <Text style={styles.name} numberOfLines={1}>
+        {player.profile.name}
+      </Text>
+      {caption && <Text style={styles.caption}>{caption}</Text>}
+      <View style={styles.tilesBadge}>
+        <View style={styles.tileBack} />
+        <Text style={styles.tilesCount}>{player.tilesCount}</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: 76,
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 4,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.25)',
+    borderWidth: 1.5,
+    borderColor: 'transparent',
+  },
+  containerActive: {
+    borderColor: '#FFD700',
+  },
+  name: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFF',
+  },
+  caption: {
+    fontSize: 10,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 2,
+  },
+  tilesBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  tileBack: {
+    width: 10,
+    height: 18,
+    borderRadius: 2,
+    backgroundColor: '#2C3E50',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.6)',
+  },
+  tilesCount: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#FFF',
+  },
+});
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Animated } from 'react-native';
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
 import { DominoTile } from '../../types/dominos.types';
+import { getDotPositions, getDotScale } from '../../utils/dominoPips';
 
 interface DominoTileProps {
   tile: DominoTile;
@@ -15,6 +16,8 @@ interface DominoTileProps {
   enableDrag?: boolean;
 }
 
+const DOT_SIZE = 8;
+
 export const DominoTileComponent: React.FC<DominoTileProps> = ({
   tile,
   onPress,
@@ -83,6 +86,7 @@ export const DominoTileComponent: React.FC<DominoTileProps> = ({
   const renderDots = (value: number) => {
     const dots = [];
     const positions = getDotPositions(value);
+    const dotSize = DOT_SIZE * getDotScale(value);
 
     positions.forEach((pos, index) => {
       dots.push(
@@ -90,6 +94,7 @@ export const DominoTileComponent: React.FC<DominoTileProps> = ({
           key={index}
           style={[
             styles.dot,
+            { width: dotSize, height: dotSize, borderRadius: dotSize / 2 },
             { top: pos.top, left: pos.left, right: pos.right, bottom: pos.bottom },
           ]}
         />
@@ -158,48 +163,6 @@ export const DominoTileComponent: React.FC<DominoTileProps> = ({
   );
 };
 
-function getDotPositions(value: number) {
-  const positions = [];
-
-  switch (value) {
-    case 1:
-      positions.push({ top: '40%', left: '40%' });
-      break;
-    case 2:
-      positions.push({ top: '20%', left: '20%' });
-      positions.push({ bottom: '20%', right: '20%' });
-      break;
-    case 3:
-      positions.push({ top: '20%', left: '20%' });
-      positions.push({ top: '40%', left: '40%' });
-      positions.push({ bottom: '20%', right: '20%' });
-      break;
-    case 4:
-      positions.push({ top: '20%', left: '20%' });
-      positions.push({ top: '20%', right: '20%' });
-      positions.push({ bottom: '20%', left: '20%' });
-      positions.push({ bottom: '20%', right: '20%' });
-      break;
-    case 5:
-      positions.push({ top: '20%', left: '20%' });
-      positions.push({ top: '20%', right: '20%' });
-      positions.push({ top: '40%', left: '40%' });
-      positions.push({ bottom: '20%', left: '20%' });
-      positions.push({ bottom: '20%', right: '20%' });
-      break;
-    case 6:
-      positions.push({ top: '15%', left: '20%' });
-      positions.push({ top: '15%', right: '20%' });
-      positions.push({ top: '42%', left: '20%' });
-      positions.push({ top: '42%', right: '20%' });
-      positions.push({ bottom: '15%', left: '20%' });
-      positions.push({ bottom: '15%', right: '20%' });
-      break;
-  }
-
-  return positions;
-}
-
 const styles = StyleSheet.create({
   container: {
     width: 50,
@@ -252,9 +215,6 @@ const styles = StyleSheet.create({
     backgroundColor: '#000000',
   },
   dot: {
-    width: 8,
-    height: 8,
-    borderRadius: 4,
     backgroundColor: '#000000',
     position: 'absolute',
   },
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, Animated } from 'react-native';
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
 import { DominoTile } from '../../types/dominos.types';
+import { getDotPositions, getDotScale } from '../../utils/dominoPips';
 
 interface DominoTile3DProps {
   tile: DominoTile;
@@ -96,7 +97,8 @@ export const DominoTile3D: React.FC<DominoTile3DProps> = ({
   };
 
   const renderDots = (value: number) => {
-    const positions = getDotPositions(value, tileWidth, tileHeight);
+    const positions = getDotPositions(value);
+    const scaledDotSize = dotSize * getDotScale(value);
 
     return positions.map((pos, index) => (
       <View
@@ -104,9 +106,9 @@ export const DominoTile3D: React.FC<DominoTile3DProps> = ({
         style={[
           styles.dot,
           {
-            width: dotSize,
-            height: dotSize,
-            borderRadius: dotSize / 2,
+            width: scaledDotSize,
+            height: scaledDotSize,
+            borderRadius: scaledDotSize / 2,
             top: pos.top,
             left: pos.left,
             right: pos.right,
@@ -191,59 +193,6 @@ export const DominoTile3D: React.FC<DominoTile3DProps> = ({
   return tileContent;
 };
 
-function getDotPositions(
-  value: number,
-  tileWidth: number,
-  tileHeight: number
-): Array<{
-  top?: number | string;
-  left?: number | string;
-  right?: number | string;
-  bottom?: number | string;
-}> {
-  const positions: any[] = [];
-  const halfHeight = tileHeight / 2;
-
-  // Percentages for positioning
-  switch (value) {
-    case 1:
-      positions.push({ top: '40%', left: '40%' });
-      break;
-    case 2:
-      positions.push({ top: '20%', left: '20%' });
-      positions.push({ bottom: '20%', right: '20%' });
-      break;
-    case 3:
-      positions.push({ top: '20%', left: '20%' });
-      positions.push({ top: '40%', left: '40%' });
-      positions.push({ bottom: '20%', right: '20%' });
-      break;
-    case 4:
-      positions.push({ top: '20%', left: '20%' });
-      positions.push({ top: '20%', right: '20%' });
-      positions.push({ bottom: '20%', left: '20%' });
-      positions.push({ bottom: '20%', right: '20%' });
-      break;
-    case 5:
-      positions.push({ top: '20%', left: '20%' });
-      positions.push({ top: '20%', right: '20%' });
-      positions.push({ top: '40%', left: '40%' });
-      positions.push({ bottom: '20%', left: '20%' });
-      positions.push({ bottom: '20%', right: '20%' });
-      break;
-    case 6:
-      positions.push({ top: '15%', left: '20%' });
-      positions.push({ top: '15%', right: '20%' });
-      positions.push({ top: '42%', left: '20%' });
-      positions.push({ top: '42%', right: '20%' });
-      positions.push({ bottom: '15%', left: '20%' });
-      positions.push({ bottom: '15%', right: '20%' });
-      break;
-  }
-
-  return positions;
-}
-
 const styles = StyleSheet.create({
   tileContainer: {
     backgroundColor: '#F5F5DC', // Ivoire
@@ -6,14 +6,21 @@ import {
   Animated,
   TouchableOpacity,
   Easing,
+  Text,
 } from 'react-native';
 import { BlurView } from '@react-native-community/blur';
 import MorpionCell from './MorpionCell';
+import ZoomableBoard from './ZoomableBoard';
+import { MorpionVariant } from '../../utils/gomokuLogic';
+import { getSubBoardPositions, getSubBoardResults } from '../../utils/ultimateLogic';
 import { useApp } from '../../context/AppContext';
 import SoundService from '../../services/SoundService';
 
 const { width } = Dimensions.get('window');
 
+// Au-delà, les cases animées sont trop lourdes : rendu simplifié (Gomoku 15x15)
+const COMPACT_BOARD_THRESHOLD = 7;
+
 interface MorpionBoardProps {
   board: string[];
   onCellPress: (index: number) => void;
@@ -21,6 +28,11 @@ interface MorpionBoardProps {
   winningCombination?: number[] | null;
   currentPlayer?: 'X' | 'O';
   size?: 'small' | 'medium' | 'large';
+  boardSize?: number; // 3, 4, 5, 9 (Ultimate) ou 15 (Gomoku) cases par côté
+  lastMoveIndex?: number | null;
+  zoomable?: boolean; // Pincer pour zoomer (grands plateaux)
+  variant?: MorpionVariant;
+  activeSubBoards?: number[] | null; // Ultimate : petites grilles jouables
   style?: any;
 }
 
@@ -31,15 +43,22 @@ const MorpionBoard: React.FC<MorpionBoardProps> = ({
   winningCombination = null,
   currentPlayer = 'X',
   size = 'large',
+  boardSize = 3,
+  lastMoveIndex = null,
+  zoomable = false,
+  variant = 'classic',
+  activeSubBoards = null,
   style,
 }) => {
   const { currentTheme } = useApp();
-  const styles = createStyles(currentTheme, size);
+  const styles = createStyles(currentTheme, size, boardSize);
+  const isCompact = boardSize > COMPACT_BOARD_THRESHOLD;
 
   // Animation references
   const boardScaleAnim = useRef(new Animated.Value(0.8)).current;
+  // Une barre par séparation : (boardSize - 1) horizontales puis (boardSize - 1) verticales
   const gridBarAnimations = useRef(
-    Array.from({ length: 4 }, () => new Animated.Value(0))
+    Array.from({ length: isCompact ? 0 : (boardSize - 1) * 2 }, () => new Animated.Value(0))
   ).current;
   const boardRotateAnim = useRef(new Animated.Value(0)).current;
 
@@ -130,139 +149,174 @@ const MorpionBoard: React.FC<MorpionBoardProps> = ({
     outputRange: ['0deg', '0.5deg'],
   });
 
-  return (
-    <View style={[styles.container, style]}>
-      <Animated.View
+  const renderCompactCell = (value: string, index: number, cellStyle?: any) => {
+    const isWinningCell = winningCombination?.includes(index);
+
+    return (
+      <TouchableOpacity
+        key={index}
+        style={[
+          styles.compactCell,
+          cellStyle,
+          index === lastMoveIndex && styles.compactLastMoveCell,
+          isWinningCell && styles.compactWinningCell,
+        ]}
+        onPress={() => handleCellPress(index)}
+        disabled={disabled || value !== ''}
+        activeOpacity={0.6}
+      >
+        {value !== '' && (
+          <Text style={[styles.compactSymbol, value === 'X' ? styles.compactSymbolX : styles.compactSymbolO]}>
+            {value}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderCell = (value: string, index: number) => {
+    const row = Math.floor(index / boardSize);
+    const col = index % boardSize;
+    const isWinningCell = winningCombination?.includes(index);
+
+    return (
+      <TouchableOpacity
+        key={index}
         style={[
-          styles.boardContainer,
+          styles.cellWrapper,
           {
-            transform: [
-              { scale: boardScaleAnim },
-              { rotate: boardRotation },
-            ],
+            top: row * (styles.cellWrapper.height + styles.cellWrapper.margin),
+            left: col * (styles.cellWrapper.width + styles.cellWrapper.margin),
           },
         ]}
+        onPress={() => handleCellPress(index)}
+        disabled={disabled || value !== ''}
+        activeOpacity={0.8}
       >
-        {/* Board Background */}
-        <BlurView style={styles.boardBlur} blurType="dark" blurAmount={15}>
-          <View style={styles.boardGlass} />
-        </BlurView>
-
-        {/* Grid Lines */}
-        <View style={styles.gridContainer}>
-          {/* Horizontal lines */}
-          <Animated.View
-            style={[
-              styles.gridBar,
-              styles.horizontalBar,
-              styles.topHorizontalBar,
-              { opacity: gridBarAnimations[0] },
-            ]}
-          >
-            <BlurView style={styles.barBlur} blurType="light" blurAmount={10}>
-              <View style={styles.barGlow} />
-            </BlurView>
-          </Animated.View>
+        <MorpionCell
+          value={value}
+          isWinning={isWinningCell}
+          isHighlighted={
+            index === lastMoveIndex ||
+            (!disabled && value === '' && !winningCombination)
+          }
+          currentPlayer={currentPlayer}
+          size={size}
+        />
+      </TouchableOpacity>
+    );
+  };
 
-          <Animated.View
-            style={[
-              styles.gridBar,
-              styles.horizontalBar,
-              styles.bottomHorizontalBar,
-              { opacity: gridBarAnimations[1] },
-            ]}
-          >
-            <BlurView style={styles.barBlur} blurType="light" blurAmount={10}>
-              <View style={styles.barGlow} />
-            </BlurView>
-          </Animated.View>
+  // Ultimate : neuf petites grilles, celles où l'on peut jouer sont surlignées
+  const renderUltimateCells = () => {
+    const subBoardResults = getSubBoardResults(board.map(cell => cell || null));
 
-          {/* Vertical lines */}
-          <Animated.View
-            style={[
-              styles.gridBar,
-              styles.verticalBar,
-              styles.leftVerticalBar,
-              { opacity: gridBarAnimations[2] },
-            ]}
-          >
-            <BlurView style={styles.barBlur} blurType="light" blurAmount={10}>
-              <View style={styles.barGlow} />
-            </BlurView>
-          </Animated.View>
+    return Array.from({ length: 9 }, (_, subBoard) => {
+      const result = subBoardResults[subBoard];
+      const isActive = !disabled && !winningCombination && !!activeSubBoards?.includes(subBoard);
 
-          <Animated.View
-            style={[
-              styles.gridBar,
-              styles.verticalBar,
-              styles.rightVerticalBar,
-              { opacity: gridBarAnimations[3] },
-            ]}
-          >
-            <BlurView style={styles.barBlur} blurType="light" blurAmount={10}>
-              <View style={styles.barGlow} />
-            </BlurView>
-          </Animated.View>
+      return (
+        <View
+          key={subBoard}
+          style={[styles.subBoard, isActive && styles.activeSubBoard, result !== null && styles.closedSubBoard]}
+        >
+          {getSubBoardPositions(subBoard).map(position =>
+            renderCompactCell(board[position], position, styles.ultimateCell)
+          )}
+          {(result === 'X' || result === 'O') && (
+            <View style={styles.subBoardWinner} pointerEvents="none">
+              <Text style={[styles.subBoardWinnerText, result === 'X' ? styles.compactSymbolX : styles.compactSymbolO]}>
+                {result}
+              </Text>
+            </View>
+          )}
         </View>
+      );
+    });
+  };
+
+  const boardContent = (
+    <Animated.View
+      style={[
+        styles.boardContainer,
+        {
+          transform: [
+            { scale: boardScaleAnim },
+            { rotate: boardRotation },
+          ],
+        },
+      ]}
+    >
+      {/* Board Background */}
+      <BlurView style={styles.boardBlur} blurType="dark" blurAmount={15}>
+        <View style={styles.boardGlass} />
+      </BlurView>
 
-        {/* Game Cells */}
-        <View style={styles.cellsContainer}>
-          {board.map((value, index) => {
-            const row = Math.floor(index / 3);
-            const col = index % 3;
-            const isWinningCell = winningCombination?.includes(index);
+      {/* Grid Lines */}
+      <View style={styles.gridContainer}>
+        {gridBarAnimations.map((anim, barIndex) => {
+          const isHorizontal = barIndex < boardSize - 1;
+          const offset = `${(((barIndex % (boardSize - 1)) + 1) * 100) / boardSize}%` as const;
 
-            return (
-              <TouchableOpacity
-                key={index}
-                style={[
-                  styles.cellWrapper,
-                  {
-                    top: row * (styles.cellWrapper.height + styles.cellWrapper.margin),
-                    left: col * (styles.cellWrapper.width + styles.cellWrapper.margin),
-                  },
-                ]}
-                onPress={() => handleCellPress(index)}
-                disabled={disabled || value !== ''}
-                activeOpacity={0.8}
-              >
-                <MorpionCell
-                  value={value}
-                  isWinning={isWinningCell}
-                  isHighlighted={!disabled && value === '' && !winningCombination}
-                  currentPlayer={currentPlayer}
-                  size={size}
-                />
-              </TouchableOpacity>
-            );
-          })}
+          return (
+            <Animated.View
+              key={barIndex}
+              style={[
+                styles.gridBar,
+                isHorizontal ? styles.horizontalBar : styles.verticalBar,
+                isHorizontal ? { top: offset } : { left: offset },
+                { opacity: anim },
+              ]}
+            >
+              <BlurView style={styles.barBlur} blurType="light" blurAmount={10}>
+                <View style={styles.barGlow} />
+              </BlurView>
+            </Animated.View>
+          );
+        })}
+      </View>
+
+      {/* Game Cells */}
+      <View style={[styles.cellsContainer, isCompact && styles.compactCellsContainer]}>
+        {variant === 'ultimate'
+          ? renderUltimateCells()
+          : board.map((value, index) => (isCompact ? renderCompactCell(value, index) : renderCell(value, index)))}
+      </View>
+
+      {/* Winning Line Overlay */}
+      {winningCombination && (
+        <View style={styles.winningLineContainer}>
+          {/* Add winning line animation here if needed */}
         </View>
+      )}
+    </Animated.View>
+  );
 
-        {/* Winning Line Overlay */}
-        {winningCombination && (
-          <View style={styles.winningLineContainer}>
-            {/* Add winning line animation here if needed */}
-          </View>
-        )}
-      </Animated.View>
+  return (
+    <View style={[styles.container, style]}>
+      {zoomable ? (
+        <ZoomableBoard size={styles.boardContainer.width}>{boardContent}</ZoomableBoard>
+      ) : (
+        boardContent
+      )}
     </View>
   );
 };
 
-const createStyles = (theme: any, size: 'small' | 'medium' | 'large') => {
+const createStyles = (theme: any, size: 'small' | 'medium' | 'large', cellsPerSide: number) => {
   const getSizeDimensions = () => {
     switch (size) {
       case 'small':
         return {
           boardSize: Math.min(width * 0.6, 240),
-          cellSize: Math.min(width * 0.6, 240) / 3.5,
+          cellSize: Math.min(width * 0.6, 240) / (cellsPerSide + 0.5),
           borderRadius: 16,
           padding: 15,
         };
       case 'medium':
         return {
           boardSize: Math.min(width * 0.75, 300),
-          cellSize: Math.min(width * 0.75, 300) / 3.5,
+          cellSize: Math.min(width * 0.75, 300) / (cellsPerSide + 0.5),
           borderRadius: 20,
           padding: 20,
         };
@@ -270,7 +324,7 @@ const createStyles = (theme: any, size: 'small' | 'medium' | 'large') => {
       default:
         return {
           boardSize: Math.min(width * 0.85, 340),
-          cellSize: Math.min(width * 0.85, 340) / 3.5,
+          cellSize: Math.min(width * 0.85, 340) / (cellsPerSide + 0.5),
           borderRadius: 24,
           padding: 25,
         };
@@ -279,6 +333,11 @@ const createStyles = (theme: any, size: 'small' | 'medium' | 'large') => {
 
   const { boardSize, cellSize, borderRadius, padding } = getSizeDimensions();
   const cellMargin = padding / 5;
+  const compactPadding = padding / 2;
+  const compactCellSize = (boardSize - compactPadding * 2) / cellsPerSide;
+  const subBoardBorder = 2;
+  const subBoardSize = (boardSize - compactPadding * 2) / 3;
+  const ultimateCellSize = (subBoardSize - subBoardBorder * 2) / 3;
 
   return StyleSheet.create({
     container: {
@@ -332,18 +391,6 @@ const createStyles = (theme: any, size: 'small' | 'medium' | 'large') => {
       top: 0,
       bottom: 0,
     },
-    topHorizontalBar: {
-      top: '33.33%',
-    },
-    bottomHorizontalBar: {
-      bottom: '33.33%',
-    },
-    leftVerticalBar: {
-      left: '33.33%',
-    },
-    rightVerticalBar: {
-      right: '33.33%',
-    },
     barBlur: {
       flex: 1,
     },
@@ -369,6 +416,71 @@ const createStyles = (theme: any, size: 'small' | 'medium' | 'large') => {
       height: cellSize,
       margin: cellMargin,
     },
+    compactCellsContainer: {
+      top: compactPadding,
+      left: compactPadding,
+      right: compactPadding,
+      bottom: compactPadding,
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    compactCell: {
+      width: compactCellSize,
+      height: compactCellSize,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: 'rgba(255, 255, 255, 0.35)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    compactLastMoveCell: {
+      backgroundColor: 'rgba(255, 255, 255, 0.18)',
+    },
+    compactWinningCell: {
+      backgroundColor: 'rgba(255, 215, 0, 0.45)',
+    },
+    compactSymbol: {
+      fontSize: compactCellSize * 0.7,
+      fontWeight: 'bold',
+    },
+    compactSymbolX: {
+      color: '#FF69B4',
+    },
+    compactSymbolO: {
+      color: '#4ECDC4',
+    },
+    subBoard: {
+      width: subBoardSize,
+      height: subBoardSize,
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      borderWidth: subBoardBorder,
+      borderColor: 'rgba(255, 255, 255, 0.6)',
+    },
+    activeSubBoard: {
+      borderColor: '#FFD700',
+      backgroundColor: 'rgba(255, 215, 0, 0.12)',
+    },
+    closedSubBoard: {
+      opacity: 0.6,
+    },
+    ultimateCell: {
+      width: ultimateCellSize,
+      height: ultimateCellSize,
+    },
+    subBoardWinner: {
+      position: 'absolute',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    subBoardWinnerText: {
+      fontSize: subBoardSize * 0.8,
+      fontWeight: 'bold',
+      opacity: 0.85,
+    },
     winningLineContainer: {
       position: 'absolute',
       top: 0,
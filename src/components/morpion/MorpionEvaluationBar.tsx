@@ -0,0 +1,82 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, Animated, Easing } from 'react-native';
+import { CurrentTheme } from '../../constants/Themes';
+
+interface MorpionEvaluationBarProps {
+  evaluation: number; // De -1 (O gagne) à 1 (X gagne)
+  width: number;
+}
+
+const X_COLOR = '#FF69B4';
+const O_COLOR = '#4ECDC4';
+
+const getEvaluationLabel = (evaluation: number): string => {
+  if (evaluation >= 1) return 'X gagne';
+  if (evaluation <= -1) return 'O gagne';
+  if (evaluation > 0.2) return 'Avantage X';
+  if (evaluation < -0.2) return 'Avantage O';
+  return 'Équilibré';
+};
+
+/**
+ * Barre d'évaluation horizontale : la part rose représente X, la part turquoise O
+ */
+const MorpionEvaluationBar: React.FC<MorpionEvaluationBarProps> = ({ evaluation, width }) => {
+  const fillAnim = useRef(new Animated.Value((evaluation + 1) / 2)).current;
+
+  useEffect(() => {
+    Animated.timing(fillAnim, {
+      toValue: (evaluation + 1) / 2,
+      duration: 300,
+      easing: Easing.out(Easing.ease),
+      useNativeDriver: false,
+    }).start();
+  }, [evaluation, fillAnim]);
+
+  const xWidth = fillAnim.interpolate({
+    inputRange: [0, 1],
+    outputRange: [0, width],
+  });
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.track, { width }]}>
+        <Animated.View style={[styles.xFill, { width: xWidth }]} />
+        <View style={[styles.centerMark, { left: width / 2 - 1 }]} />
+      </View>
+      <Text style={styles.label}>{getEvaluationLabel(evaluation)}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  track: {
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: O_COLOR,
+    overflow: 'hidden',
+  },
+  xFill: {
+    height: '100%',
+    backgroundColor: X_COLOR,
+  },
+  centerMark: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: 'rgba(255, 255, 255, 0.8)',
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: CurrentTheme.text.secondary,
+    marginTop: 6,
+  },
+});
+
+export default MorpionEvaluationBar;
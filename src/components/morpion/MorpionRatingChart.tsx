@@ -0,0 +1,133 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { CurrentTheme } from '../../constants/Themes';
+import { MorpionRatingPoint } from '../../services/MorpionService';
+
+interface MorpionRatingChartProps {
+  points: MorpionRatingPoint[];
+  width: number;
+  height?: number;
+}
+
+const POINT_SIZE = 8;
+const LINE_THICKNESS = 2;
+const LABEL_WIDTH = 44;
+
+/**
+ * Courbe d'évolution du classement Elo, dessinée avec des segments pivotés
+ */
+const MorpionRatingChart: React.FC<MorpionRatingChartProps> = ({ points, width, height = 160 }) => {
+  if (points.length === 0) {
+    return (
+      <View style={[styles.empty, { width, height }]}>
+        <Text style={styles.emptyText}>Jouez une partie classée pour voir votre courbe</Text>
+      </View>
+    );
+  }
+
+  const ratings = points.map(point => point.rating);
+  const maxRating = Math.max(...ratings);
+  const minRating = Math.min(...ratings);
+  // Éviter une courbe plate collée en haut quand tous les classements sont égaux
+  const range = Math.max(maxRating - minRating, 20);
+  const plotWidth = width - LABEL_WIDTH;
+
+  const coordinates = points.map((point, index) => ({
+    x: points.length === 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth,
+    y: height - ((point.rating - minRating) / range) * height,
+  }));
+
+  return (
+    <View style={[styles.container, { width, height: height + POINT_SIZE }]}>
+      <View style={[styles.labels, { height }]}>
+        <Text style={styles.label}>{maxRating}</Text>
+        <Text style={styles.label}>{minRating}</Text>
+      </View>
+
+      <View style={[styles.plot, { width: plotWidth, height }]}>
+        {coordinates.slice(1).map((end, index) => {
+          const start = coordinates[index];
+          const dx = end.x - start.x;
+          const dy = end.y - start.y;
+          const length = Math.hypot(dx, dy);
+
+          return (
+            <View
+              key={`segment-${index}`}
+              style={[
+                styles.segment,
+                {
+                  width: length,
+                  left: (start.x + end.x) / 2 - length / 2,
+                  top: (start.y + end.y) / 2 - LINE_THICKNESS / 2,
+                  transform: [{ rotate: `${Math.atan2(dy, dx)}rad` }],
+                },
+              ]}
+            />
+          );
+        })}
+
+        {coordinates.map((point, index) => (
+          <View
+            key={`point-${index}`}
+            style={[
+              styles.point,
+              index === coordinates.length - 1 && styles.lastPoint,
+              { left: point.x - POINT_SIZE / 2, top: point.y - POINT_SIZE / 2 },
+            ]}
+          />
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignSelf: 'center',
+  },
+  labels: {
+    width: LABEL_WIDTH,
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 11,
+    color: CurrentTheme.text.tertiary,
+  },
+  plot: {
+    borderLeftWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  segment: {
+    position: 'absolute',
+    height: LINE_THICKNESS,
+    backgroundColor: CurrentTheme.romantic.primary,
+  },
+  point: {
+    position: 'absolute',
+    width: POINT_SIZE,
+    height: POINT_SIZE,
+    borderRadius: POINT_SIZE / 2,
+    backgroundColor: CurrentTheme.romantic.primary,
+  },
+  lastPoint: {
+    backgroundColor: '#FFD700',
+  },
+  empty: {
+    alignSelf: 'center',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: CurrentTheme.text.secondary,
+    textAlign: 'center',
+    paddingHorizontal: 20,
+  },
+});
+
+export default MorpionRatingChart;
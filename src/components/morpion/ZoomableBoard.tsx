@@ -0,0 +1,131 @@
+import React, { useRef } from 'react';
+import {
+  View,
+  StyleSheet,
+  Animated,
+  PanResponder,
+  GestureResponderEvent,
+  PanResponderGestureState,
+} from 'react-native';
+
+interface ZoomableBoardProps {
+  size: number; // Taille affichée du plateau (carré)
+  maxScale?: number;
+  children: React.ReactNode;
+}
+
+const MIN_SCALE = 1;
+const PAN_THRESHOLD = 8;
+
+const getTouchDistance = (event: GestureResponderEvent): number => {
+  const [a, b] = event.nativeEvent.touches;
+  if (!a || !b) return 0;
+  return Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Conteneur zoomable pour les grands plateaux (Gomoku 15x15).
+ * Pincer pour zoomer, glisser pour se déplacer une fois zoomé.
+ * Les simples appuis restent transmis aux cases.
+ */
+const ZoomableBoard: React.FC<ZoomableBoardProps> = ({ size, maxScale = 3, children }) => {
+  const scaleAnim = useRef(new Animated.Value(MIN_SCALE)).current;
+  const translateXAnim = useRef(new Animated.Value(0)).current;
+  const translateYAnim = useRef(new Animated.Value(0)).current;
+
+  // Valeurs courantes (les Animated.Value ne sont pas lisibles de façon synchrone)
+  const transform = useRef({ scale: MIN_SCALE, x: 0, y: 0 }).current;
+  const gesture = useRef({ startScale: MIN_SCALE, startX: 0, startY: 0, startDistance: 0 }).current;
+
+  const clampTranslation = (value: number, scale: number) => {
+    const limit = (size * (scale - 1)) / 2;
+    return clamp(value, -limit, limit);
+  };
+
+  const applyTransform = (scale: number, x: number, y: number) => {
+    transform.scale = scale;
+    transform.x = clampTranslation(x, scale);
+    transform.y = clampTranslation(y, scale);
+    scaleAnim.setValue(transform.scale);
+    translateXAnim.setValue(transform.x);
+    translateYAnim.setValue(transform.y);
+  };
+
+  const beginGesture = (event: GestureResponderEvent) => {
+    gesture.startScale = transform.scale;
+    gesture.startX = transform.x;
+    gesture.startY = transform.y;
+    gesture.startDistance = getTouchDistance(event);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Ne jamais capturer au toucher : les appuis doivent atteindre les cases
+      onStartShouldSetPanResponder: () => false,
+      onMoveShouldSetPanResponder: (event, state: PanResponderGestureState) =>
+        state.numberActiveTouches === 2 ||
+        (transform.scale > MIN_SCALE &&
+          (Math.abs(state.dx) > PAN_THRESHOLD || Math.abs(state.dy) > PAN_THRESHOLD)),
+      onPanResponderGrant: beginGesture,
+      onPanResponderMove: (event, state) => {
+        if (state.numberActiveTouches === 2) {
+          const distance = getTouchDistance(event);
+          if (gesture.startDistance === 0) {
+            // Le deuxième doigt vient de se poser
+            beginGesture(event);
+            return;
+          }
+          const scale = clamp(
+            (gesture.startScale * distance) / gesture.startDistance,
+            MIN_SCALE,
+            maxScale
+          );
+          applyTransform(scale, gesture.startX, gesture.startY);
+        } else {
+          if (gesture.startDistance !== 0) {
+            // Retour à un doigt après un pincement : repartir de la position actuelle
+            gesture.startDistance = 0;
+            gesture.startX = transform.x - state.dx;
+            gesture.startY = transform.y - state.dy;
+          }
+          applyTransform(transform.scale, gesture.startX + state.dx, gesture.startY + state.dy);
+        }
+      },
+      onPanResponderRelease: () => {
+        if (transform.scale < MIN_SCALE + 0.05) {
+          applyTransform(MIN_SCALE, 0, 0);
+        }
+      },
+      onPanResponderTerminationRequest: () => false,
+    })
+  ).current;
+
+  return (
+    <View style={[styles.viewport, { width: size, height: size }]} {...panResponder.panHandlers}>
+      <Animated.View
+        style={{
+          width: size,
+          height: size,
+          transform: [
+            { translateX: translateXAnim },
+            { translateY: translateYAnim },
+            { scale: scaleAnim },
+          ],
+        }}
+      >
+        {children}
+      </Animated.View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  viewport: {
+    overflow: 'hidden',
+    alignSelf: 'center',
+  },
+});
+
+export default ZoomableBoard;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { TIME_CONTROL_PRESETS } from '../../utils/timeControl';
+
+interface TimeControlPickerProps {
+  selectedId: string;
+  onSelect: (presetId: string) => void;
+  accentColor?: string;
+}
+
+/**
+ * Choix de la cadence (pendule) avant de créer une partie en ligne
+ */
+const TimeControlPicker: React.FC<TimeControlPickerProps> = ({
+  selectedId,
+  onSelect,
+  accentColor = '#FF69B4',
+}) => (
+  <View style={styles.container}>
+    <View style={styles.titleRow}>
+      <MaterialCommunityIcons name="timer-outline" size={18} color="rgba(255, 255, 255, 0.8)" />
+      <Text style={styles.title}>Cadence</Text>
+    </View>
+    <View style={styles.options}>
+      {TIME_CONTROL_PRESETS.map(preset => {
+        const isSelected = preset.id === selectedId;
+        return (
+          <TouchableOpacity
+            key={preset.id}
+            style={[styles.option, isSelected && { backgroundColor: accentColor, borderColor: accentColor }]}
+            onPress={() => onSelect(preset.id)}
+          >
+            <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+              {preset.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginBottom: 20,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  optionText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
+
+export default TimeControlPicker;
@@ -1,7 +1,7 @@
 import React from 'react';
-import { View, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet } from 'react-native';
 import Puissance4Token from './Puissance4Token';
-import { CellValue } from '../../types/puissance4.types';
+import { CellValue, CoachThreat } from '../../types/puissance4.types';
 import { PUISSANCE4_CONFIG } from '../../constants/Puissance4Constants';
 
 interface Puissance4CellProps {
@@ -11,6 +11,7 @@ interface Puissance4CellProps {
   dropAnimation?: boolean;
   dropDelay?: number;
   photoUrl?: string | null;
+  threat?: CoachThreat; // Mode coach : case vide qui complèterait un alignement
 }
 
 const Puissance4Cell: React.FC<Puissance4CellProps> = ({
@@ -20,6 +21,7 @@ const Puissance4Cell: React.FC<Puissance4CellProps> = ({
   dropAnimation = false,
   dropDelay = 0,
   photoUrl = null,
+  threat,
 }) => {
   return (
     <View style={[styles.container, { width: size, height: size }]}>
@@ -33,6 +35,22 @@ const Puissance4Cell: React.FC<Puissance4CellProps> = ({
             photoUrl={photoUrl}
           />
         )}
+        {!value && threat && (
+          <View
+            style={[
+              styles.threatMarker,
+              !threat.isFavorable && styles.threatMarkerUnfavorable,
+              {
+                borderColor:
+                  threat.color === 'Rouge'
+                    ? PUISSANCE4_CONFIG.COLORS.ROUGE
+                    : PUISSANCE4_CONFIG.COLORS.JAUNE,
+              },
+            ]}
+          >
+            <Text style={styles.threatText}>{threat.rowFromBottom % 2 === 1 ? 'I' : 'P'}</Text>
+          </View>
+        )}
       </View>
     </View>
   );
@@ -56,6 +74,23 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 5,
   },
+  threatMarker: {
+    flex: 1,
+    margin: 6,
+    borderRadius: 1000,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  threatMarkerUnfavorable: {
+    borderStyle: 'dashed',
+    opacity: 0.6,
+  },
+  threatText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
 });
 
 export default Puissance4Cell;
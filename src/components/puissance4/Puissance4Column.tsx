@@ -5,13 +5,14 @@ import {
   TouchableOpacity,
   Dimensions,
 } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import Puissance4Cell from './Puissance4Cell';
-import { CellValue } from '../../types/puissance4.types';
+import { CellValue, CoachHighlight, CoachThreat } from '../../types/puissance4.types';
 import { PUISSANCE4_CONFIG } from '../../constants/Puissance4Constants';
 import FeedbackService from '../../services/FeedbackService';
 
 const { width } = Dimensions.get('window');
-const CELL_SIZE = (width - 60) / PUISSANCE4_CONFIG.COLS;
+const DEFAULT_CELL_SIZE = (width - 60) / PUISSANCE4_CONFIG.COLS;
 
 interface Puissance4ColumnProps {
   columnIndex: number;
@@ -20,8 +21,19 @@ interface Puissance4ColumnProps {
   disabled?: boolean;
   previewColor?: 'Rouge' | 'Jaune';
   winningCells?: Set<number>; // Set de row indexes gagnants dans cette colonne
+  cellSize?: number; // Dépend du nombre de colonnes du plateau
+  canPop?: boolean; // PopOut : le jeton du bas appartient au joueur au trait
+  onPop?: (columnIndex: number) => void;
+  highlight?: CoachHighlight; // Mode coach : colonne gagnante, à bloquer ou à éviter
+  threats?: Map<number, CoachThreat>; // Mode coach : menaces par row index
 }
 
+const HIGHLIGHT_COLORS: Record<CoachHighlight, string> = {
+  win: 'rgba(76, 175, 80, 0.35)',
+  block: 'rgba(255, 165, 2, 0.35)',
+  danger: 'rgba(255, 71, 87, 0.3)',
+};
+
 const Puissance4Column: React.FC<Puissance4ColumnProps> = ({
   columnIndex,
   cells,
@@ -29,6 +41,11 @@ const Puissance4Column: React.FC<Puissance4ColumnProps> = ({
   disabled = false,
   previewColor,
   winningCells = new Set(),
+  cellSize = DEFAULT_CELL_SIZE,
+  canPop = false,
+  onPop,
+  highlight,
+  threats,
 }) => {
   const [isHovered, setIsHovered] = useState(false);
 
@@ -51,6 +68,16 @@ const Puissance4Column: React.FC<Puissance4ColumnProps> = ({
     onPress(columnIndex);
   };
 
+  const handlePop = () => {
+    if (disabled || !onPop) {
+      FeedbackService.error();
+      return;
+    }
+
+    FeedbackService.buttonPress();
+    onPop(columnIndex);
+  };
+
   const handlePressIn = () => {
     if (!disabled) {
       setIsHovered(true);
@@ -73,17 +100,20 @@ const Puissance4Column: React.FC<Puissance4ColumnProps> = ({
         onPressIn={handlePressIn}
         onPressOut={handlePressOut}
         disabled={disabled || isFull}
-        style={styles.column}
+        style={[styles.column, highlight && { backgroundColor: HIGHLIGHT_COLORS[highlight] }]}
       >
         {/* Preview du jeton si hover et colonne non pleine */}
         {isHovered && !isFull && previewColor && (
-          <View style={[styles.previewContainer, { top: -CELL_SIZE - 10 }]} pointerEvents="none">
+          <View
+            style={[styles.previewContainer, { top: -cellSize - 10, height: cellSize }]}
+            pointerEvents="none"
+          >
             <View
               style={[
                 styles.previewToken,
                 {
-                  width: CELL_SIZE * 0.7,
-                  height: CELL_SIZE * 0.7,
+                  width: cellSize * 0.7,
+                  height: cellSize * 0.7,
                   backgroundColor:
                     previewColor === 'Rouge'
                       ? PUISSANCE4_CONFIG.COLORS.ROUGE_LIGHT
@@ -102,14 +132,30 @@ const Puissance4Column: React.FC<Puissance4ColumnProps> = ({
             <Puissance4Cell
               key={`${columnIndex}-${rowIndex}`}
               value={cell}
-              size={CELL_SIZE}
+              size={cellSize}
               isWinning={isWinning}
+              threat={threats?.get(rowIndex)}
               dropAnimation={false}
               dropDelay={0}
             />
           );
         })}
       </TouchableOpacity>
+
+      {/* PopOut : retirer son jeton du bas */}
+      {canPop && (
+        <TouchableOpacity
+          style={[styles.popButton, { height: cellSize * 0.5 }]}
+          onPress={handlePop}
+          disabled={disabled}
+        >
+          <MaterialCommunityIcons
+            name="arrow-down-bold-circle-outline"
+            size={Math.min(22, cellSize * 0.45)}
+            color="#FFFFFF"
+          />
+        </TouchableOpacity>
+      )}
     </View>
   );
 };
@@ -122,6 +168,7 @@ const styles = StyleSheet.create({
     flex: 1,
     position: 'relative',
     overflow: 'visible',
+    borderRadius: 8,
   },
   previewContainer: {
     position: 'absolute',
@@ -129,13 +176,17 @@ const styles = StyleSheet.create({
     right: 0,
     alignItems: 'center',
     justifyContent: 'center',
-    height: CELL_SIZE,
     zIndex: 10,
   },
   previewToken: {
     borderRadius: 1000,
     opacity: 0.6,
   },
+  popButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 4,
+  },
 });
 
 export default Puissance4Column;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { CurrentTheme } from '../../constants/Themes';
+import FeedbackService from '../../services/FeedbackService';
+import {
+  Puissance4Rules,
+  PUISSANCE4_BOARD_SIZES,
+  PUISSANCE4_VARIANTS,
+  MIN_WIN_LENGTH,
+  MAX_WIN_LENGTH,
+  clampWinLength,
+} from '../../utils/puissance4Logic';
+
+interface Puissance4RulesPickerProps {
+  rules: Puissance4Rules;
+  onChange: (rules: Puissance4Rules) => void;
+}
+
+/**
+ * Choix de la variante, de la taille du plateau et de la longueur d'alignement
+ */
+const Puissance4RulesPicker: React.FC<Puissance4RulesPickerProps> = ({ rules, onChange }) => {
+  const update = (changes: Partial<Puissance4Rules>) => {
+    FeedbackService.selection();
+    const next = { ...rules, ...changes };
+    onChange({ ...next, winLength: clampWinLength(next.winLength, next.rows, next.cols) });
+  };
+
+  const winLengths = Array.from(
+    { length: MAX_WIN_LENGTH - MIN_WIN_LENGTH + 1 },
+    (_, i) => MIN_WIN_LENGTH + i
+  ).filter(length => length <= Math.max(rules.rows, rules.cols));
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Variante</Text>
+      <View style={styles.options}>
+        {PUISSANCE4_VARIANTS.map(variant => (
+          <TouchableOpacity
+            key={variant.id}
+            style={[styles.option, rules.variant === variant.id && styles.optionSelected]}
+            onPress={() => update({ variant: variant.id })}
+          >
+            <Text style={styles.optionText}>{variant.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.hint}>
+        {PUISSANCE4_VARIANTS.find(variant => variant.id === rules.variant)?.description}
+      </Text>
+
+      <Text style={styles.label}>Plateau (lignes x colonnes)</Text>
+      <View style={styles.options}>
+        {PUISSANCE4_BOARD_SIZES.map(size => (
+          <TouchableOpacity
+            key={size.id}
+            style={[
+              styles.option,
+              rules.rows === size.rows && rules.cols === size.cols && styles.optionSelected,
+            ]}
+            onPress={() => update({ rows: size.rows, cols: size.cols })}
+          >
+            <Text style={styles.optionText}>{size.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Jetons à aligner</Text>
+      <View style={styles.options}>
+        {winLengths.map(length => (
+          <TouchableOpacity
+            key={length}
+            style={[styles.option, rules.winLength === length && styles.optionSelected]}
+            onPress={() => update({ winLength: length })}
+          >
+            <Text style={styles.optionText}>{length}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  option: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  optionSelected: {
+    backgroundColor: CurrentTheme.romantic.primary,
+    borderColor: CurrentTheme.romantic.primary,
+  },
+  optionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+  },
+  hint: {
+    fontSize: 12,
+    color: CurrentTheme.text.secondary,
+    marginTop: -4,
+    marginBottom: 12,
+  },
+});
+
+export default Puissance4RulesPicker;
@@ -16,6 +16,11 @@ interface GridCellProps {
 const GridCell: React.FC<GridCellProps> = ({ cell, size, isSelected = false, isHighlighted = false, theme }) => {
   const isDarkMode = theme?.name === 'dark';
 
+  // Case hors de la forme de la grille : emplacement vide, sans bordure
+  if (cell.isBlank) {
+    return <View style={{ width: size, height: size }} />;
+  }
+
   // Couleurs pour mode dark (glassmorphism)
   const getGlassColor = () => {
     if (cell.isFound) {
@@ -72,7 +72,8 @@ const WordSearchGrid: React.FC<WordSearchGridProps> = ({
 
           const cellPos = getCellFromTouch(touch, gridLayoutRef.current, cellSize, grid.size);
 
-          if (cellPos) {
+          // Une sélection ne commence pas sur une case hors de la forme
+          if (cellPos && !grid.cells[cellPos.row][cellPos.col].isBlank) {
             console.log('Cell position:', cellPos);
             startCellRef.current = cellPos;
             const cell = grid.cells[cellPos.row][cellPos.col];
@@ -96,7 +97,7 @@ const WordSearchGrid: React.FC<WordSearchGridProps> = ({
             if (!isSamePosition(cellPos, startCellRef.current)) {
               // Get all cells between start and current
               const cells = getCellsBetween(grid.cells, startCellRef.current, cellPos);
-              if (cells.length > 0) {
+              if (cells.length > 0 && !cells.some(cell => cell.isBlank)) {
                 setSelectedCells(cells);
               }
             } else {
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { StyleSheet, View, Text, TouchableOpacity, Modal } from 'react-native';
 import { WORD_SEARCH_COLORS } from '../../../data/constants/colors';
 import { PlayerPowerUps } from '../../../types/wordSearch.types';
+import { POWER_UP_UNIT_PRICES } from '../../../data/shop';
 import CustomAlert from '../../common/CustomAlert';
 import { useCustomAlert } from '../../../hooks/useCustomAlert';
 import { useApp } from '../../../context/AppContext';
@@ -26,25 +27,25 @@ const POWER_UP_SHOP: Record<keyof PlayerPowerUps, PowerUpShopInfo> = {
     icon: '💡',
     name: 'Révéler une Lettre',
     description: 'Révèle une lettre aléatoire d\'un mot non trouvé',
-    pricePerUnit: 10,
+    pricePerUnit: POWER_UP_UNIT_PRICES.revealLetter,
   },
   revealWord: {
     icon: '🔍',
     name: 'Révéler un Mot',
     description: 'Révèle automatiquement un mot complet',
-    pricePerUnit: 30,
+    pricePerUnit: POWER_UP_UNIT_PRICES.revealWord,
   },
   timeFreeze: {
     icon: '⏸️',
     name: 'Gel du Temps',
     description: 'Arrête le chrono pendant 30 secondes',
-    pricePerUnit: 20,
+    pricePerUnit: POWER_UP_UNIT_PRICES.timeFreeze,
   },
   highlightFirst: {
     icon: '✨',
     name: 'Premières Lettres',
     description: 'Surligne la première lettre de chaque mot',
-    pricePerUnit: 15,
+    pricePerUnit: POWER_UP_UNIT_PRICES.highlightFirst,
   },
 };
 
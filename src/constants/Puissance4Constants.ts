@@ -42,13 +42,23 @@ export const PUISSANCE4_CONFIG = {
       moyen: 1000,
       difficile: 1400,
       expert: 1800,
+      imbattable: 1800,
     },
     MINIMAX_DEPTH: {
       facile: 2,     // +1 - Voit 2 coups à l'avance (minimal viable)
       moyen: 5,      // +2 - Stratégie intermédiaire solide
       difficile: 7,  // +2 - Vraiment difficile
       expert: 10,    // +3 - Quasi-imbattable (10 coups à l'avance)
+      imbattable: 42, // Solveur exact jusqu'à la fin de la partie
     },
+    // Temps accordé au solveur exact (par tranches, sans bloquer l'interface)
+    // avant de revenir à l'heuristique, et pour l'analyse affichée au joueur
+    SOLVER_TIME_BUDGET_MS: 1500,
+    HINT_TIME_BUDGET_MS: 4000,
+    // En deçà, la position est trop ouverte pour être résolue : pas de tentative
+    SOLVER_MIN_STONES: 10,
+    // Profondeur de recherche du mode coach (recalculée à chaque tour du joueur)
+    COACH_DEPTH: 4,
   },
 };
 
@@ -176,6 +186,18 @@ export const PUISSANCE4_MESSAGES = {
         message: 'L\'IA expert ne laisse rien au hasard!'
       },
     ],
+    imbattable: [
+      {
+        emoji: '🤖',
+        title: 'L\'IA Gagne!',
+        message: 'Le jeu parfait ne pardonne aucune erreur!'
+      },
+      {
+        emoji: '🧮',
+        title: 'Calcul Parfait!',
+        message: 'L\'IA avait tout résolu d\'avance!'
+      },
+    ],
   } as Record<string, GameMessage[]>,
 
   JOUEUR_VICTOIRE_VS_IA: {
@@ -217,6 +239,13 @@ export const PUISSANCE4_MESSAGES = {
         message: 'Tu es un maître du Puissance 4!'
       },
     ],
+    imbattable: [
+      {
+        emoji: '🤯',
+        title: 'Impossible!',
+        message: 'Tu as battu l\'IA imbattable!'
+      },
+    ],
   } as Record<string, GameMessage[]>,
 };
 
@@ -258,6 +287,31 @@ export const AI_REASONING_MESSAGES = {
     'Tentons notre chance! 🍀',
     'Un coup exploratoire! 🔍',
   ],
+  SOLVED_WIN: [
+    'Victoire forcée en {n} coups! 🧮',
+    'J\'ai tout calculé : {n} coups et c\'est fini! 🎯',
+  ],
+  SOLVED_DRAW: [
+    'Avec un jeu parfait, c\'est nul! ⚖️',
+    'Tu tiens bon... pour l\'instant! 🛡️',
+  ],
+  SOLVED_LOSS: [
+    'Bien joué... mais je résiste! 😤',
+    'Je retarde l\'inévitable! ⏳',
+  ],
+};
+
+// Explications du mode coach ({col} : colonne, {cols} : colonnes, {row} : rangée depuis le bas, {parity} : paire/impaire)
+export const COACH_MESSAGES = {
+  WIN_DROP: 'Jouez en colonne {col} : vous alignez vos jetons et gagnez tout de suite ! 🏆',
+  WIN_POP: 'Retirez votre jeton de la colonne {col} : l\'alignement est à vous ! 🏆',
+  BLOCK: 'Bloquez en colonne {col}, sinon l\'adversaire gagne au prochain coup. 🛡️',
+  DOUBLE_THREAT: 'L\'adversaire menace {cols} : impossible de tout bloquer. Colonne {col} pour limiter la casse. 😬',
+  SAFE_MOVE: 'Colonne {col} : le coup le plus solide, sans cadeau pour l\'adversaire. 👍',
+  NO_SAFE_MOVE: 'Tous les coups laissent une ouverture... Colonne {col} est le moindre mal. ⚠️',
+  DANGER: 'Évitez {cols} : l\'adversaire gagnerait au coup suivant.',
+  GOOD_PARITY: 'Votre menace en rangée {row} ({parity}) est bien placée : en fin de partie, la colonne {col} se remplira à votre avantage.',
+  OPPONENT_PARITY: 'Attention à la menace adverse en colonne {col}, rangée {row} ({parity}) : ne jouez pas juste en dessous.',
 };
 
 // Configuration des niveaux d'IA
@@ -286,4 +340,10 @@ export const AI_LEVEL_CONFIG = {
     icon: '🔴',
     color: '#FF4757',
   },
+  imbattable: {
+    name: 'Imbattable',
+    description: 'Jeu parfait, aucune erreur',
+    icon: '⚫',
+    color: '#8E44AD',
+  },
 };
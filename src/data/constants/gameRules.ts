@@ -123,8 +123,8 @@ export const FILLER_LETTERS = {
 };
 
 // Get random filler letter based on weights
-export const getRandomFillerLetter = (): string => {
-  const rand = Math.random();
+export const getRandomFillerLetter = (random: () => number = Math.random): string => {
+  const rand = random();
   let letters: string[];
 
   if (rand < FILLER_LETTERS.weights.common) {
@@ -135,5 +135,5 @@ export const getRandomFillerLetter = (): string => {
     letters = FILLER_LETTERS.rare;
   }
 
-  return letters[Math.floor(Math.random() * letters.length)];
+  return letters[Math.floor(random() * letters.length)];
 };
@@ -20,9 +20,10 @@ export const COIN_REWARDS = {
   // Daily game bonus
   dailyBonus: 10,
 
-  // Multiplayer rewards
+  // Multiplayer rewards (versées par le serveur)
   multiplayerWin: 50,
   multiplayerParticipation: 10,
+  cooperativeCompleted: 50,
 };
 
 // XP rewards
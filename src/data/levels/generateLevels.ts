@@ -1,4 +1,4 @@
-import { Difficulty } from '../../types/wordSearch.types';
+import { Difficulty, GridShapeName } from '../../types/wordSearch.types';
 import { LevelDefinition } from './levelDefinitions';
 
 // Thèmes disponibles par monde
@@ -65,6 +65,22 @@ const QUALIFIERS = [
   'Fantastique', 'Merveilleux', 'Prodigieux', 'Fascinant', 'Spectaculaire',
 ];
 
+// Niveaux spéciaux (tous les 10 niveaux) : grilles en forme.
+// Pas d'étoile en facile : ses branches sont trop étroites pour une petite grille
+const SPECIAL_LEVEL_SHAPES: Record<Difficulty, GridShapeName[]> = {
+  easy: ['circle', 'heart'],
+  medium: ['heart', 'circle', 'star'],
+  hard: ['star', 'heart', 'circle'],
+  expert: ['heart', 'star', 'circle'],
+};
+
+function getSpecialLevelShape(id: number, difficulty: Difficulty): GridShapeName | undefined {
+  if (id % 10 !== 0) return undefined;
+
+  const shapes = SPECIAL_LEVEL_SHAPES[difficulty];
+  return shapes[(id / 10) % shapes.length];
+}
+
 export function generateLevel(id: number): LevelDefinition {
   // Déterminer la difficulté basée sur l'ID
   let difficulty: Difficulty;
@@ -140,6 +156,7 @@ export function generateLevel(id: number): LevelDefinition {
     timeLimit,
     coinReward,
     xpReward,
+    shape: getSpecialLevelShape(id, difficulty),
     unlockRequirement,
   };
 }
@@ -1,4 +1,4 @@
-import { Difficulty } from '../../types/wordSearch.types';
+import { Difficulty, GridShapeName } from '../../types/wordSearch.types';
 import { generateAllLevels } from './generateLevels';
 
 export interface LevelDefinition {
@@ -11,6 +11,7 @@ export interface LevelDefinition {
   timeLimit: number; // in seconds
   coinReward: number;
   xpReward: number;
+  shape?: GridShapeName; // Niveau spécial : grille en forme (cœur, étoile, cercle)
   unlockRequirement?: {
     level?: number;
     coins?: number;
@@ -131,6 +132,7 @@ const HANDCRAFTED_LEVELS: LevelDefinition[] = [
     timeLimit: 360,
     coinReward: 20,
     xpReward: 90,
+    shape: 'circle',
   },
 
   // MONDE 2: AVENTURE (Levels 11-25) - Medium
@@ -247,6 +249,7 @@ const HANDCRAFTED_LEVELS: LevelDefinition[] = [
     timeLimit: 510,
     coinReward: 35,
     xpReward: 140,
+    shape: 'heart',
   },
   {
     id: 21,
@@ -360,6 +363,7 @@ const HANDCRAFTED_LEVELS: LevelDefinition[] = [
     timeLimit: 660,
     coinReward: 60,
     xpReward: 220,
+    shape: 'star',
   },
   {
     id: 31,
@@ -470,6 +474,7 @@ const HANDCRAFTED_LEVELS: LevelDefinition[] = [
     timeLimit: 810,
     coinReward: 85,
     xpReward: 270,
+    shape: 'heart',
   },
 
   // MONDE 4: MAÎTRE (Levels 41-60) - Expert
@@ -583,6 +588,7 @@ const HANDCRAFTED_LEVELS: LevelDefinition[] = [
     timeLimit: 1050,
     coinReward: 135,
     xpReward: 470,
+    shape: 'star',
   },
   {
     id: 51,
@@ -693,6 +699,7 @@ const HANDCRAFTED_LEVELS: LevelDefinition[] = [
     timeLimit: 1500,
     coinReward: 200,
     xpReward: 600,
+    shape: 'circle',
   },
 ];
 
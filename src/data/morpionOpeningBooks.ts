@@ -0,0 +1,145 @@
+/**
+ * Livres d'ouvertures du Morpion 4x4 et 5x5 (trois alignés).
+ *
+ * Généré par MorpionAIService.generateOpeningBook (2 coups, profondeur 6 en 4x4 et 4 en 5x5).
+ * Clé : plateau canonique (voir utils/boardSymmetry), une lettre par case, '0' pour une case vide.
+ * Valeur : position du meilleur coup dans ce plateau canonique.
+ */
+
+export type OpeningBook = Record<string, number>;
+
+export const MORPION_OPENING_BOOKS: Record<number, OpeningBook> = {
+  4: {
+    '0000000000000000': 10,
+    '000000000000000X': 10,
+    '00000000000000X0': 12,
+    '0000000000X00000': 0,
+    '000O00000000X000': 4,
+    '0000000O0000X000': 4,
+    '00000000000OX000': 4,
+    '000000000000O00X': 10,
+    '000000O00000X000': 4,
+    '0000000000O0X000': 4,
+    '0000000000000O0X': 10,
+    '0000000000O0000X': 11,
+    '00000000000000OX': 10,
+    '0000000X0000O000': 11,
+    '0000000OX0000000': 4,
+    '00000000O00X0000': 7,
+    '00000000000XO000': 7,
+    '0000000O00000X00': 14,
+    '0000000X0O000000': 11,
+    '000000000O0X0000': 7,
+    '00000000000X0O00': 7,
+    '00000000000O0X00': 14,
+    '0000000000O00X00': 14,
+    '0000000000O000X0': 13,
+    '00000000000O00X0': 13,
+    '0000000000000X0O': 12,
+    '0000000000000OX0': 10,
+    '00000000000000XO': 10,
+    '000000X00000O000': 10,
+    '0000000O0X000000': 10,
+    '000000000X0O0000': 5,
+    '0000000000X0O000': 5,
+    '000000O00X000000': 10,
+    '000000000OX00000': 5,
+    '0000000000X00O00': 5,
+    '0000000000X000O0': 5,
+    '0000000000X0000O': 6,
+  },
+  5: {
+    '0000000000000000000000000': 12,
+    '000000000000000000000000X': 12,
+    '00000000000000000000000X0': 24,
+    '0000000000000000000000X00': 21,
+    '000000000000000000X000000': 12,
+    '00000000000000000X0000000': 12,
+    '000000000000X000000000000': 0,
+    '0000O000000000000000X0000': 12,
+    '000000000O0000000000X0000': 12,
+    '00000000000000O00000X0000': 12,
+    '0000000000000000000OX0000': 12,
+    '00000000000000000000O000X': 12,
+    '00000000O00000000000X0000': 12,
+    '0000000000000O000000X0000': 12,
+    '000000000000000000O0X0000': 12,
+    '000000000000000000000O00X': 12,
+    '000000000000O00000000000X': 14,
+    '00000000000000000O000000X': 19,
+    '0000000000000000000000O0X': 12,
+    '000000000000000000O00000X': 14,
+    '00000000000000000000000OX': 12,
+    '000000000X0000000000O0000': 14,
+    '000000000O00000X000000000': 10,
+    '00000000000000OX000000000': 10,
+    '000000000000000O000X00000': 14,
+    '0000000000000000000XO0000': 14,
+    '000000000O00000000000X000': 22,
+    '000000000X000000O00000000': 14,
+    '0000000000000O0X000000000': 10,
+    '0000000000000000O00X00000': 14,
+    '0000000000000000000X0O000': 14,
+    '00000000000000O000000X000': 22,
+    '0000000000000O0000000X000': 22,
+    '000000000000O0000000000X0': 22,
+    '00000000000000000O0X00000': 14,
+    '0000000000000000000X00O00': 14,
+    '0000000000000000000O0X000': 22,
+    '000000000000000000O00X000': 22,
+    '00000000000000000O00000X0': 22,
+    '000000000000000000O0000X0': 22,
+    '0000000000000000000O000X0': 22,
+    '000000000000000000000X00O': 22,
+    '000000000000000000000O0X0': 24,
+    '0000000000000000000000OX0': 11,
+    '00000000000000000000000XO': 12,
+    '00000000000000X00000O0000': 9,
+    '00000000000000XO000000000': 9,
+    '0000000000O000X0000000000': 9,
+    '00000000000000X000000O000': 9,
+    '00000000000000X0O00000000': 9,
+    '00000000000O00X0000000000': 9,
+    '00000000000000O0000000X00': 21,
+    '00000000000000X00O0000000': 9,
+    '000000000000O000000000X00': 21,
+    '0000000000000000000O00X00': 21,
+    '000000000000000000O000X00': 21,
+    '00000000000000000O0000X00': 21,
+    '0000000000000000000000X0O': 21,
+    '0000000000000000000000XO0': 20,
+    '00000000X00000000000O0000': 12,
+    '000000000O000000X00000000': 12,
+    '00000000000000O0X00000000': 12,
+    '0000000000000000X00O00000': 12,
+    '000000000000000000X0O0000': 12,
+    '00000000O0000000X00000000': 11,
+    '0000000000000O00X00000000': 12,
+    '0000000000000000O0X000000': 12,
+    '000000000000000000X00O000': 12,
+    '000000000000O00000X000000': 13,
+    '00000000000000000OX000000': 12,
+    '000000000000000000X000O00': 12,
+    '000000000000000000X0000O0': 12,
+    '000000000000000000X00000O': 13,
+    '0000000000000X000000O0000': 12,
+    '0000000000000X0O000000000': 12,
+    '00000000000X00O0000000000': 12,
+    '0000000000000X0000000O000': 12,
+    '0000000000000X00O00000000': 12,
+    '00000000000O0X00000000000': 7,
+    '00000000000000O00X0000000': 12,
+    '0000000000000O000X0000000': 12,
+    '000000000000O0000X0000000': 11,
+    '00000000000000000X0O00000': 12,
+    '00000000000000000XO000000': 12,
+    '00000000000000000X000000O': 12,
+    '00000000000000000X00000O0': 12,
+    '00000000000000000X0000O00': 11,
+    '000000000000X00000000000O': 6,
+    '000000000000X0000000000O0': 6,
+    '000000000000X000000000O00': 6,
+    '000000000000X00000O000000': 7,
+    '000000000000X0000O0000000': 6,
+  },
+};
@@ -1,4 +1,4 @@
-import { ShopItem, PowerUp } from '../../types/wordSearch.types';
+import { ShopItem, PowerUp, PlayerPowerUps } from '../../types/wordSearch.types';
 
 export const SHOP_ITEMS: ShopItem[] = [
   // Consommables - Indices
@@ -80,6 +80,24 @@ export const SHOP_ITEMS: ShopItem[] = [
   },
 ];
 
+// Power-ups obtenus avec chaque article du magasin
+export const SHOP_ITEM_GRANTS: Record<string, { type: keyof PlayerPowerUps; quantity: number }> = {
+  hint_letter: { type: 'revealLetter', quantity: 1 },
+  hint_word: { type: 'revealWord', quantity: 1 },
+  time_freeze: { type: 'timeFreeze', quantity: 1 },
+  highlight_first: { type: 'highlightFirst', quantity: 1 },
+  hint_bundle_5: { type: 'revealLetter', quantity: 5 },
+  hint_bundle_10: { type: 'revealLetter', quantity: 10 },
+};
+
+// Prix unitaires de la boutique rapide, en cours de partie
+export const POWER_UP_UNIT_PRICES: Record<keyof PlayerPowerUps, number> = {
+  revealLetter: 10,
+  revealWord: 30,
+  timeFreeze: 20,
+  highlightFirst: 15,
+};
+
 export const POWER_UPS: Record<string, PowerUp> = {
   revealLetter: {
     id: 'revealLetter',
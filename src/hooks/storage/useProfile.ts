@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { PlayerProfile, Avatar, PlayerStats } from '../../types/wordSearch.types';
+import { PlayerProfile, Avatar, PlayerStats, GameResult, LedgerEntry } from '../../types/wordSearch.types';
 import { ProfileService } from '../../services/storage/ProfileService';
 import auth from '@react-native-firebase/auth';
 
@@ -13,17 +13,29 @@ export const useProfile = () => {
   }, []);
 
   const initializeProfile = async () => {
+    // Afficher d'abord le profil local : le jeu reste jouable hors ligne.
+    // Sans profil local, attendre le compte avant d'en créer un nouveau.
+    const localProfile = await ProfileService.loadProfile();
+    if (localProfile) {
+      setProfile(localProfile);
+      setLoading(false);
+    }
+
     try {
-      // S'authentifier anonymement auprès de Firebase pour le multijoueur
-      await auth().signInAnonymously();
-      console.log('Authentification Firebase réussie');
+      // S'authentifier anonymement auprès de Firebase pour le multijoueur,
+      // sans remplacer le compte de l'application s'il est déjà connecté
+      if (!auth().currentUser) {
+        await auth().signInAnonymously();
+        console.log('Authentification Firebase réussie');
+      }
 
-      // Charger le profil local
-      await loadProfile();
+      // Fusionner avec le profil du compte (restaure la progression après une réinstallation)
+      await syncProfile();
     } catch (error) {
       console.error('Erreur lors de l\'initialisation:', error);
-      // Continuer même si l'auth échoue, charger juste le profil
-      await loadProfile();
+      // Continuer même si l'auth échoue avec le profil local
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -39,6 +51,19 @@ export const useProfile = () => {
     }
   };
 
+  const syncProfile = useCallback(async () => {
+    try {
+      const syncedProfile = await ProfileService.syncWithCloud();
+      if (syncedProfile) {
+        setProfile(syncedProfile);
+      }
+      return syncedProfile;
+    } catch (error) {
+      console.error('Erreur lors de la synchronisation du profil:', error);
+      return null;
+    }
+  }, []);
+
   const createProfile = useCallback(async (name: string, avatar: Avatar, photoURL?: string) => {
     try {
       const newProfile = await ProfileService.createProfile(name, avatar, photoURL);
@@ -74,9 +99,20 @@ export const useProfile = () => {
     }
   }, []);
 
-  const addCoins = useCallback(async (coins: number) => {
+  const rewardGame = useCallback(async (result: GameResult, gameId?: string) => {
     try {
-      const updatedProfile = await ProfileService.addCoins(coins);
+      const reward = await ProfileService.rewardGame(result, gameId);
+      setProfile(reward.profile);
+      return reward;
+    } catch (error) {
+      console.error('Erreur lors de l\'ajout de pièces:', error);
+      throw error;
+    }
+  }, []);
+
+  const recordOnlineReward = useCallback(async (entry: LedgerEntry) => {
+    try {
+      const updatedProfile = await ProfileService.recordOnlineReward(entry);
       setProfile(updatedProfile);
       return updatedProfile;
     } catch (error) {
@@ -85,27 +121,24 @@ export const useProfile = () => {
     }
   }, []);
 
-  const spendCoins = useCallback(async (coins: number) => {
+  const purchaseItem = useCallback(async (itemId: string) => {
     try {
-      const updatedProfile = await ProfileService.spendCoins(coins);
+      const updatedProfile = await ProfileService.purchaseItem(itemId);
       setProfile(updatedProfile);
       return updatedProfile;
     } catch (error) {
-      console.error('Erreur lors de la dépense de pièces:', error);
+      console.error('Erreur lors de l\'achat:', error);
       throw error;
     }
   }, []);
 
-  const unlockTheme = useCallback(async (themeId: string, price: number) => {
+  const purchasePowerUp = useCallback(async (powerUpType: keyof PlayerProfile['powerUps'], quantity: number) => {
     try {
-      // Dépenser les pièces d'abord
-      await ProfileService.spendCoins(price);
-      // Puis débloquer le thème
-      const updatedProfile = await ProfileService.unlockTheme(themeId);
+      const updatedProfile = await ProfileService.purchasePowerUp(powerUpType, quantity);
       setProfile(updatedProfile);
       return updatedProfile;
     } catch (error) {
-      console.error('Erreur lors du déblocage du thème:', error);
+      console.error('Erreur lors de l\'achat de power-up:', error);
       throw error;
     }
   }, []);
@@ -121,24 +154,24 @@ export const useProfile = () => {
     }
   }, []);
 
-  const addPowerUp = useCallback(async (powerUpType: keyof PlayerProfile['powerUps'], quantity: number) => {
+  const usePowerUp = useCallback(async (powerUpType: keyof PlayerProfile['powerUps']) => {
     try {
-      const updatedProfile = await ProfileService.addPowerUp(powerUpType, quantity);
+      const { entryId, profile: updatedProfile } = await ProfileService.usePowerUp(powerUpType);
       setProfile(updatedProfile);
-      return updatedProfile;
+      return entryId;
     } catch (error) {
-      console.error('Erreur lors de l\'ajout de power-up:', error);
+      console.error('Erreur lors de l\'utilisation de power-up:', error);
       throw error;
     }
   }, []);
 
-  const usePowerUp = useCallback(async (powerUpType: keyof PlayerProfile['powerUps']) => {
+  const refundEntry = useCallback(async (entryId: string) => {
     try {
-      const updatedProfile = await ProfileService.usePowerUp(powerUpType);
+      const updatedProfile = await ProfileService.refundEntry(entryId);
       setProfile(updatedProfile);
       return updatedProfile;
     } catch (error) {
-      console.error('Erreur lors de l\'utilisation de power-up:', error);
+      console.error('Erreur lors du remboursement:', error);
       throw error;
     }
   }, []);
@@ -181,15 +214,17 @@ export const useProfile = () => {
     createProfile,
     updateProfile,
     addXP,
-    addCoins,
-    spendCoins,
-    unlockTheme,
+    rewardGame,
+    recordOnlineReward,
+    purchaseItem,
+    purchasePowerUp,
     completeLevel,
-    addPowerUp,
     usePowerUp,
+    refundEntry,
     resetProgress,
     deleteProfile,
     updateStats,
     refreshProfile: loadProfile,
+    syncProfile,
   };
 };
@@ -0,0 +1,396 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { DominosGame, DominosMaxValue, DominosPlayer, DominoTile, TilePlacement } from '../types/dominos.types';
+import { PlayerProfile } from '../types/wordSearch.types';
+import {
+  canPlaceTile,
+  getConnectingValue,
+  getAllPossibleMoves,
+  initializeDeck,
+  distributeTiles,
+  getHandSize,
+  determineStartingPlayer,
+  isGameBlocked,
+  getWinnerByScore,
+} from '../utils/dominosLogic';
+import {
+  DominosAIService,
+  DominosAIDifficulty,
+  DominosOpponentModel,
+} from '../services/dominos/DominosAIService';
+
+export const DOMINOS_AI_PLAYER_ID = 'dominos-ai';
+const AI_MOVE_DELAY_MS = 900;
+const EMPTY_HAND: DominoTile[] = [];
+
+interface UseDominosAIGameProps {
+  enabled: boolean;
+  playerProfile: PlayerProfile | null;
+  difficulty: DominosAIDifficulty;
+  maxValue?: DominosMaxValue;
+}
+
+/**
+ * Partie hors ligne : mêmes règles que les Cloud Functions, mais tout l'état
+ * (mains et pioche comprises) reste sur l'appareil
+ */
+interface LocalDominosState {
+  game: DominosGame;
+  hands: Record<string, DominoTile[]>;
+  drawPile: DominoTile[];
+}
+
+const createLocalGame = (playerProfile: PlayerProfile, maxValue: DominosMaxValue): LocalDominosState => {
+  const now = Date.now();
+  const { player1Hand, player2Hand, drawPile } = distributeTiles(initializeDeck(maxValue), getHandSize(maxValue));
+  const hands: Record<string, DominoTile[]> = {
+    [playerProfile.id]: player1Hand,
+    [DOMINOS_AI_PLAYER_ID]: player2Hand,
+  };
+  const playerIds = [playerProfile.id, DOMINOS_AI_PLAYER_ID];
+  const { startingPlayerId, highestDouble } = determineStartingPlayer(playerIds, hands);
+
+  // Comme en ligne : le double le plus haut est posé d'office
+  let board: TilePlacement[] = [];
+  let currentPlayerId = playerProfile.id;
+  if (highestDouble) {
+    hands[startingPlayerId] = hands[startingPlayerId].filter(t => t.id !== highestDouble.id);
+    board = [{
+      tile: { ...highestDouble, orientation: 'vertical' },
+      position: 0,
+      side: 'left',
+      timestamp: now,
+      playerId: startingPlayerId,
+    }];
+    currentPlayerId = playerIds.find(id => id !== startingPlayerId)!;
+  }
+
+  const aiProfile: PlayerProfile = {
+    ...playerProfile,
+    id: DOMINOS_AI_PLAYER_ID,
+    name: 'IA',
+    avatar: { type: 'emoji', value: '🤖' },
+    photoURL: undefined,
+  };
+
+  const players: DominosPlayer[] = [playerProfile, aiProfile].map(profile => ({
+    id: profile.id,
+    profile,
+    tilesCount: hands[profile.id].length,
+    hasDrawn: false,
+    hasPassed: false,
+    score: 0,
+    isReady: true,
+  }));
+
+  return {
+    game: {
+      id: 'local',
+      roomCode: '',
+      hostId: playerProfile.id,
+      players,
+      maxPlayers: 2,
+      maxValue,
+      status: 'playing',
+      currentPlayerId,
+      board,
+      drawPileCount: drawPile.length,
+      leftEnd: highestDouble ? highestDouble.left : null,
+      rightEnd: highestDouble ? highestDouble.right : null,
+      isBlocked: false,
+      winnerId: null,
+      winReason: null,
+      finalHands: null,
+      createdAt: now,
+      startedAt: now,
+      completedAt: null,
+      updatedAt: now,
+    },
+    hands,
+    drawPile,
+  };
+};
+
+const getNextPlayerId = (game: DominosGame, playerId: string): string =>
+  game.players.find(p => p.id !== playerId)!.id;
+
+/**
+ * Fin de partie au score si plus personne ne peut poser
+ */
+const finishIfBlocked = (state: LocalDominosState, now: number): LocalDominosState => {
+  const { game, hands, drawPile } = state;
+  const playerIds = game.players.map(p => p.id);
+  const playerHands = playerIds.map(id => hands[id]);
+  if (!isGameBlocked(playerHands, game.leftEnd, game.rightEnd, drawPile.length)) {
+    return state;
+  }
+
+  return {
+    ...state,
+    game: {
+      ...game,
+      status: 'finished',
+      winnerId: playerIds[getWinnerByScore(playerHands)],
+      winReason: 'lowest_score',
+      isBlocked: true,
+      finalHands: hands,
+      completedAt: now,
+    },
+  };
+};
+
+const assertTurn = (game: DominosGame, playerId: string) => {
+  if (game.status !== 'playing') {
+    throw new Error("La partie n'est pas en cours");
+  }
+  if (game.currentPlayerId !== playerId) {
+    throw new Error("Ce n'est pas votre tour");
+  }
+};
+
+const applyPlaceTile = (
+  state: LocalDominosState,
+  playerId: string,
+  tileId: string,
+  side: 'left' | 'right'
+): LocalDominosState => {
+  const { game, hands } = state;
+  assertTurn(game, playerId);
+
+  const tile = hands[playerId].find(t => t.id === tileId);
+  if (!tile) {
+    throw new Error('Tuile non trouvée dans votre main');
+  }
+
+  const { canPlaceLeft, canPlaceRight } = canPlaceTile(tile, game.leftEnd, game.rightEnd);
+  if ((side === 'left' && !canPlaceLeft) || (side === 'right' && !canPlaceRight)) {
+    throw new Error('Impossible de placer cette tuile de ce côté');
+  }
+
+  let leftEnd = game.leftEnd;
+  let rightEnd = game.rightEnd;
+  if (game.board.length === 0) {
+    leftEnd = tile.left;
+    rightEnd = tile.right;
+  } else if (side === 'left') {
+    leftEnd = getConnectingValue(tile, game.leftEnd!);
+  } else {
+    rightEnd = getConnectingValue(tile, game.rightEnd!);
+  }
+
+  const now = Date.now();
+  const updatedHands = { ...hands, [playerId]: hands[playerId].filter(t => t.id !== tileId) };
+  const hasWon = updatedHands[playerId].length === 0;
+
+  const nextState: LocalDominosState = {
+    ...state,
+    hands: updatedHands,
+    game: {
+      ...game,
+      board: [...game.board, {
+        tile: { ...tile, orientation: tile.isDouble ? 'vertical' : 'horizontal' },
+        position: side === 'left' ? -game.board.length : game.board.length,
+        side,
+        timestamp: now,
+        playerId,
+      }],
+      leftEnd,
+      rightEnd,
+      players: game.players.map(p => ({
+        ...p,
+        tilesCount: updatedHands[p.id].length,
+        hasDrawn: false,
+        hasPassed: false,
+      })),
+      currentPlayerId: hasWon ? playerId : getNextPlayerId(game, playerId),
+      updatedAt: now,
+    },
+  };
+
+  if (hasWon) {
+    return {
+      ...nextState,
+      game: {
+        ...nextState.game,
+        status: 'finished',
+        winnerId: playerId,
+        winReason: 'emptied_hand',
+        finalHands: updatedHands,
+        completedAt: now,
+      },
+    };
+  }
+
+  return finishIfBlocked(nextState, now);
+};
+
+const applyDrawTile = (state: LocalDominosState, playerId: string): LocalDominosState => {
+  const { game, hands, drawPile } = state;
+  assertTurn(game, playerId);
+
+  if (drawPile.length === 0) {
+    throw new Error('La pioche est vide');
+  }
+  if (game.players.find(p => p.id === playerId)?.hasDrawn) {
+    throw new Error('Vous avez déjà pioché ce tour');
+  }
+
+  const [drawnTile, ...remaining] = drawPile;
+  const hand = [...hands[playerId], drawnTile];
+
+  return {
+    hands: { ...hands, [playerId]: hand },
+    drawPile: remaining,
+    game: {
+      ...game,
+      players: game.players.map(p =>
+        p.id === playerId ? { ...p, tilesCount: hand.length, hasDrawn: true } : p
+      ),
+      drawPileCount: remaining.length,
+      updatedAt: Date.now(),
+    },
+  };
+};
+
+const applyPassTurn = (state: LocalDominosState, playerId: string): LocalDominosState => {
+  const { game, hands, drawPile } = state;
+  assertTurn(game, playerId);
+
+  if (getAllPossibleMoves(hands[playerId], game.leftEnd, game.rightEnd).length > 0) {
+    throw new Error('Vous avez encore des coups possibles');
+  }
+  if (drawPile.length > 0 && !game.players.find(p => p.id === playerId)?.hasDrawn) {
+    throw new Error('Vous devez piocher avant de passer');
+  }
+
+  const now = Date.now();
+  return finishIfBlocked({
+    ...state,
+    game: {
+      ...game,
+      players: game.players.map(p =>
+        p.id === playerId ? { ...p, hasPassed: true, hasDrawn: false } : { ...p, hasDrawn: false }
+      ),
+      currentPlayerId: getNextPlayerId(game, playerId),
+      updatedAt: now,
+    },
+  }, now);
+};
+
+export const useDominosAIGame = ({
+  enabled,
+  playerProfile,
+  difficulty,
+  maxValue = 6,
+}: UseDominosAIGameProps) => {
+  const [state, setState] = useState<LocalDominosState | null>(null);
+  const [isAIThinking, setIsAIThinking] = useState(false);
+  const [aiReasoning, setAiReasoning] = useState('');
+  const stateRef = useRef<LocalDominosState | null>(null);
+  // Ce que l'IA sait de la main du joueur (ses pioches et ses passes)
+  const opponentModelRef = useRef<DominosOpponentModel>(DominosAIService.createOpponentModel());
+
+  const commit = useCallback((nextState: LocalDominosState) => {
+    stateRef.current = nextState;
+    setState(nextState);
+  }, []);
+
+  const startNewGame = useCallback(() => {
+    if (!playerProfile) return;
+    opponentModelRef.current = DominosAIService.createOpponentModel();
+    setAiReasoning('');
+    commit(createLocalGame(playerProfile, maxValue));
+  }, [playerProfile, maxValue, commit]);
+
+  useEffect(() => {
+    if (enabled && !stateRef.current) {
+      startNewGame();
+    }
+  }, [enabled, startNewGame]);
+
+  const placeTile = useCallback(async (tileId: string, side: 'left' | 'right') => {
+    const current = stateRef.current;
+    if (!current || !playerProfile) return;
+
+    const tile = current.hands[playerProfile.id].find(t => t.id === tileId);
+    commit(applyPlaceTile(current, playerProfile.id, tileId, side));
+    if (tile) {
+      opponentModelRef.current = DominosAIService.recordOpponentPlay(opponentModelRef.current, tile);
+    }
+  }, [playerProfile, commit]);
+
+  const drawTile = useCallback(async () => {
+    const current = stateRef.current;
+    if (!current || !playerProfile) return;
+
+    commit(applyDrawTile(current, playerProfile.id));
+    opponentModelRef.current = DominosAIService.recordOpponentDraw();
+  }, [playerProfile, commit]);
+
+  const passTurn = useCallback(async () => {
+    const current = stateRef.current;
+    if (!current || !playerProfile) return;
+
+    commit(applyPassTurn(current, playerProfile.id));
+    opponentModelRef.current = DominosAIService.recordOpponentCannotPlay(
+      opponentModelRef.current,
+      current.game.leftEnd,
+      current.game.rightEnd
+    );
+  }, [playerProfile, commit]);
+
+  // Tour de l'IA : poser, sinon piocher une fois, sinon passer
+  useEffect(() => {
+    if (!enabled || !state) return;
+    const { game } = state;
+    if (game.status !== 'playing' || game.currentPlayerId !== DOMINOS_AI_PLAYER_ID) return;
+
+    setIsAIThinking(true);
+    const timer = setTimeout(() => {
+      const current = stateRef.current;
+      if (!current) return;
+
+      try {
+        const move = DominosAIService.chooseMove(
+          current.hands[DOMINOS_AI_PLAYER_ID],
+          {
+            board: current.game.board,
+            leftEnd: current.game.leftEnd,
+            rightEnd: current.game.rightEnd,
+            opponentModel: opponentModelRef.current,
+            maxValue: current.game.maxValue,
+          },
+          difficulty
+        );
+
+        const aiPlayer = current.game.players.find(p => p.id === DOMINOS_AI_PLAYER_ID);
+        if (move) {
+          setAiReasoning(move.reasoning);
+          commit(applyPlaceTile(current, DOMINOS_AI_PLAYER_ID, move.tile.id, move.side));
+        } else if (current.drawPile.length > 0 && !aiPlayer?.hasDrawn) {
+          setAiReasoning('Pioche');
+          commit(applyDrawTile(current, DOMINOS_AI_PLAYER_ID));
+        } else {
+          setAiReasoning('Passe son tour');
+          commit(applyPassTurn(current, DOMINOS_AI_PLAYER_ID));
+        }
+      } catch (error) {
+        console.error('Dominos AI move failed:', error);
+      } finally {
+        setIsAIThinking(false);
+      }
+    }, AI_MOVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [enabled, state, difficulty, commit]);
+
+  return {
+    game: state?.game ?? null,
+    hand: state && playerProfile ? state.hands[playerProfile.id] : EMPTY_HAND,
+    isAIThinking,
+    aiReasoning,
+    placeTile,
+    drawTile,
+    passTurn,
+    startNewGame,
+  };
+};
@@ -0,0 +1,126 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { MorpionMove, MorpionService, CellValue } from '../services/MorpionService';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4] as const;
+export type ReplaySpeed = typeof REPLAY_SPEEDS[number];
+
+// Délai entre deux coups en autoplay à vitesse x1
+const BASE_AUTOPLAY_DELAY = 1200;
+
+interface UseMorpionReplayProps {
+  moves: MorpionMove[];
+  boardSize: number;
+  winningLine?: number[];
+}
+
+/**
+ * Navigation coup par coup dans une partie de Morpion terminée
+ */
+export const useMorpionReplay = ({
+  moves,
+  boardSize,
+  winningLine = [],
+}: UseMorpionReplayProps) => {
+  // Nombre de coups affichés (0 = plateau vide, moves.length = position finale)
+  const [moveIndex, setMoveIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+
+  const autoplayTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  const totalMoves = moves.length;
+  const isAtStart = moveIndex === 0;
+  const isAtEnd = moveIndex === totalMoves;
+
+  const board: CellValue[] = useMemo(
+    () => MorpionService.getBoardAtMove(moves, boardSize, moveIndex),
+    [moves, boardSize, moveIndex]
+  );
+
+  const lastMove: MorpionMove | null = moveIndex > 0 ? moves[moveIndex - 1] : null;
+
+  // La ligne gagnante n'est surlignée qu'une fois la position finale atteinte
+  const visibleWinningLine = isAtEnd && winningLine.length > 0 ? winningLine : null;
+
+  const stepForward = useCallback(() => {
+    setMoveIndex(prev => Math.min(prev + 1, totalMoves));
+  }, [totalMoves]);
+
+  const stepBackward = useCallback(() => {
+    setIsPlaying(false);
+    setMoveIndex(prev => Math.max(prev - 1, 0));
+  }, []);
+
+  const goToStart = useCallback(() => {
+    setIsPlaying(false);
+    setMoveIndex(0);
+  }, []);
+
+  const goToEnd = useCallback(() => {
+    setIsPlaying(false);
+    setMoveIndex(totalMoves);
+  }, [totalMoves]);
+
+  const goToMove = useCallback((index: number) => {
+    setIsPlaying(false);
+    setMoveIndex(Math.max(0, Math.min(index, totalMoves)));
+  }, [totalMoves]);
+
+  const togglePlay = useCallback(() => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Relancer depuis le début si on est déjà à la fin
+    if (moveIndex >= totalMoves) {
+      setMoveIndex(0);
+    }
+    setIsPlaying(true);
+  }, [isPlaying, moveIndex, totalMoves]);
+
+  const cycleSpeed = useCallback(() => {
+    setSpeed(prev => {
+      const currentIndex = REPLAY_SPEEDS.indexOf(prev);
+      return REPLAY_SPEEDS[(currentIndex + 1) % REPLAY_SPEEDS.length];
+    });
+  }, []);
+
+  // Autoplay
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    if (moveIndex >= totalMoves) {
+      setIsPlaying(false);
+      return;
+    }
+
+    autoplayTimeoutRef.current = setTimeout(() => {
+      setMoveIndex(prev => Math.min(prev + 1, totalMoves));
+    }, BASE_AUTOPLAY_DELAY / speed);
+
+    return () => {
+      if (autoplayTimeoutRef.current) {
+        clearTimeout(autoplayTimeoutRef.current);
+      }
+    };
+  }, [isPlaying, moveIndex, totalMoves, speed]);
+
+  return {
+    board,
+    moveIndex,
+    totalMoves,
+    lastMove,
+    visibleWinningLine,
+    isAtStart,
+    isAtEnd,
+    isPlaying,
+    speed,
+    stepForward,
+    stepBackward,
+    goToStart,
+    goToEnd,
+    goToMove,
+    togglePlay,
+    cycleSpeed,
+  };
+};
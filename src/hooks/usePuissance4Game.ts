@@ -1,8 +1,20 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { CellValue, AIDifficulty } from '../types/puissance4.types';
 import { PUISSANCE4_CONFIG } from '../constants/Puissance4Constants';
+import {
+  Puissance4Rules,
+  Puissance4ActionType,
+  Puissance4ActionResult,
+  Pop10State,
+  resolveRules,
+  createEmptyBoard,
+  createPop10State,
+  applyAction,
+  getLegalActions,
+} from '../utils/puissance4Logic';
 import Puissance4AIService from '../services/Puissance4AIService';
-import { Puissance4Service } from '../services/Puissance4Service';
+import { Puissance4Service, Puissance4Game, Puissance4Spectator } from '../services/Puissance4Service';
+import { WinReason } from '../utils/timeControl';
 import SoundService from '../services/SoundService';
 
 interface UsePuissance4GameProps {
@@ -11,6 +23,8 @@ interface UsePuissance4GameProps {
   playerColor?: 'Rouge' | 'Jaune';
   gameId?: string;
   playerId?: string;
+  rules?: Puissance4Rules; // Modes local et IA (en ligne : lues sur la partie)
+  isSpectator?: boolean; // En ligne : regarder la partie sans jouer
   onGameEnd?: (winner: 'Rouge' | 'Jaune' | 'draw') => void;
 }
 
@@ -20,25 +34,39 @@ export const usePuissance4Game = ({
   playerColor = 'Rouge',
   gameId,
   playerId,
+  rules: initialRules,
+  isSpectator = false,
   onGameEnd,
 }: UsePuissance4GameProps) => {
-  // État du plateau (6 lignes x 7 colonnes)
+  const [rules, setRules] = useState<Puissance4Rules>(() => resolveRules(initialRules));
+
+  // État du plateau (rows lignes x cols colonnes)
   const [board, setBoard] = useState<CellValue[][]>(() => {
-    const initialBoard = Array.from({ length: PUISSANCE4_CONFIG.ROWS }, () =>
-      Array.from({ length: PUISSANCE4_CONFIG.COLS }, () => null)
-    );
+    const initialBoard = createEmptyBoard(rules);
     console.log('🎮 Initial board created:', initialBoard.length, 'x', initialBoard[0]?.length);
     return initialBoard;
   });
 
   const [currentPlayer, setCurrentPlayer] = useState<'Rouge' | 'Jaune'>('Rouge');
+  // Pop 10 : jetons gardés et jeton retiré à reposer
+  const [pop10State, setPop10State] = useState<Pop10State>(createPop10State);
   const [winner, setWinner] = useState<'Rouge' | 'Jaune' | 'draw' | null>(null);
   const [winningLine, setWinningLine] = useState<{ row: number; col: number }[]>([]);
   const [isAIThinking, setIsAIThinking] = useState(false);
   const [aiReasoning, setAiReasoning] = useState('');
   const [moveCount, setMoveCount] = useState(0);
+  // Pendules de la partie en ligne (null : sans limite de temps)
+  const [clockState, setClockState] = useState<Pick<
+    Puissance4Game,
+    'timeControl' | 'clocks' | 'turnStartedAt' | 'status'
+  > | null>(null);
+  const [winReason, setWinReason] = useState<WinReason | null>(null);
+  const [spectators, setSpectators] = useState<Puissance4Spectator[]>([]);
 
   const unsubscribeRef = useRef<(() => void) | null>(null);
+  // En ligne : numéro du dernier coup vu, et coup en cours d'envoi (anti double appui)
+  const moveNumberRef = useRef(0);
+  const isSubmittingMoveRef = useRef(false);
   const aiTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const aiReasoningTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -74,30 +102,38 @@ export const usePuissance4Game = ({
           });
 
           if (game) {
-            // Firebase stocke le board comme un tableau plat de 42 éléments (6x7)
+            // Firebase stocke le board comme un tableau plat de rows x cols éléments
             // Il faut le convertir en tableau 2D
+            const gameRules = resolveRules(game.rules);
+            setRules(gameRules);
             if (game.board && Array.isArray(game.board)) {
-              if (game.board.length === PUISSANCE4_CONFIG.ROWS * PUISSANCE4_CONFIG.COLS) {
+              if (game.board.length === gameRules.rows * gameRules.cols) {
                 // Convertir le tableau plat en 2D
-                const board2D = Puissance4Service.flatTo2D(game.board);
+                const board2D = Puissance4Service.flatTo2D(game.board, gameRules);
                 console.log('📥 Board converted from flat to 2D:', board2D.length, 'x', board2D[0]?.length);
                 console.log('🎮 Updating local board state');
                 setBoard(board2D);
               } else {
-                console.error('Invalid flat board size from Firebase:', game.board.length, '(expected 42)');
+                console.error('Invalid flat board size from Firebase:', game.board.length, `(expected ${gameRules.rows * gameRules.cols})`);
                 // Réinitialiser le plateau si la taille est incorrecte
-                setBoard(
-                  Array.from({ length: PUISSANCE4_CONFIG.ROWS }, () =>
-                    Array.from({ length: PUISSANCE4_CONFIG.COLS }, () => null)
-                  )
-                );
+                setBoard(createEmptyBoard(gameRules));
               }
             } else {
               console.error('Invalid board from Firebase:', game.board);
             }
             console.log('👤 Updating current player to:', game.currentPlayer);
             setCurrentPlayer(game.currentPlayer);
+            setPop10State(game.pop10 || createPop10State());
             setMoveCount(game.moves.length);
+            moveNumberRef.current = Puissance4Service.getMoveNumber(game);
+            setSpectators(game.spectators || []);
+            setClockState(game.timeControl ? {
+              timeControl: game.timeControl,
+              clocks: game.clocks,
+              turnStartedAt: game.turnStartedAt,
+              status: game.status,
+            } : null);
+            setWinReason(game.winReason || null);
 
             if (game.status === 'finished') {
               if (game.winner === 'draw') {
@@ -127,134 +163,62 @@ export const usePuissance4Game = ({
     }
   }, [mode, gameId, onGameEnd]);
 
-  // Trouver la ligne disponible dans une colonne
-  const findAvailableRow = useCallback((col: number): number => {
-    if (!board || !Array.isArray(board) || board.length === 0) {
-      console.error('Invalid board state:', board);
-      return -1;
-    }
-
-    for (let row = PUISSANCE4_CONFIG.ROWS - 1; row >= 0; row--) {
-      if (board[row] && Array.isArray(board[row]) && board[row][col] === null) {
-        return row;
-      }
-    }
-    return -1;
-  }, [board]);
-
-  // Vérifier s'il y a un gagnant
-  const checkWinner = useCallback(
-    (
-      newBoard: CellValue[][],
-      row: number,
-      col: number,
-      color: 'Rouge' | 'Jaune'
-    ): { winner: boolean; line: { row: number; col: number }[] } => {
-      const directions = [
-        { dr: 0, dc: 1 },  // Horizontal →
-        { dr: 1, dc: 0 },  // Vertical ↓
-        { dr: 1, dc: 1 },  // Diagonale ↘
-        { dr: 1, dc: -1 }, // Diagonale ↙
-      ];
-
-      for (const { dr, dc } of directions) {
-        const line: { row: number; col: number }[] = [{ row, col }];
-        let count = 1;
-
-        // Direction positive
-        let r = row + dr;
-        let c = col + dc;
-        while (
-          r >= 0 &&
-          r < PUISSANCE4_CONFIG.ROWS &&
-          c >= 0 &&
-          c < PUISSANCE4_CONFIG.COLS &&
-          newBoard[r][c] === color
-        ) {
-          line.push({ row: r, col: c });
-          count++;
-          r += dr;
-          c += dc;
-        }
-
-        // Direction négative
-        r = row - dr;
-        c = col - dc;
-        while (
-          r >= 0 &&
-          r < PUISSANCE4_CONFIG.ROWS &&
-          c >= 0 &&
-          c < PUISSANCE4_CONFIG.COLS &&
-          newBoard[r][c] === color
-        ) {
-          line.unshift({ row: r, col: c });
-          count++;
-          r -= dr;
-          c -= dc;
-        }
-
-        if (count >= PUISSANCE4_CONFIG.WIN_LENGTH) {
-          return { winner: true, line };
-        }
-      }
-
-      return { winner: false, line: [] };
-    },
-    []
-  );
-
-  // Vérifier si le plateau est plein
-  const isBoardFull = useCallback((newBoard: CellValue[][]): boolean => {
-    return newBoard[0].every(cell => cell !== null);
-  }, []);
-
-  // Jouer un coup
+  // Jouer un coup (dépôt, ou retrait d'un jeton du bas en PopOut)
   const playMove = useCallback(
-    async (col: number) => {
+    async (col: number, moveType: Puissance4ActionType = 'drop') => {
       if (winner) return; // Partie terminée
       if (isAIThinking) return; // Attendre l'IA
+      if (isSpectator) return; // Lecture seule
 
-      const row = findAvailableRow(col);
-      if (row === -1) {
+      const isLegal = getLegalActions(board, currentPlayer, rules, pop10State).some(
+        action => action.type === moveType && action.column === col
+      );
+      if (!isLegal) {
         SoundService.playInvalidMove();
-        return; // Colonne pleine
+        return; // Colonne pleine, jeton adverse ou coup hors phase (Pop 10)
       }
 
       // Pour le mode online, envoyer le coup à Firebase
       if (mode === 'online' && gameId && playerId) {
+        if (isSubmittingMoveRef.current) return;
+        isSubmittingMoveRef.current = true;
         try {
-          console.log('📤 Sending move to Firebase:', { gameId, playerId, col, row });
-          await Puissance4Service.playMove(gameId, playerId, col);
+          console.log('📤 Sending move to Firebase:', { gameId, playerId, col, moveType });
+          await Puissance4Service.playMove(gameId, playerId, col, moveType, moveNumberRef.current);
           console.log('✅ Move sent successfully to Firebase');
         } catch (error) {
+          // Coup obsolète compris : le plateau est resynchronisé par l'abonnement
           console.error('❌ Error playing move:', error);
+        } finally {
+          isSubmittingMoveRef.current = false;
         }
         return;
       }
 
       // Mode local ou AI: gérer localement
-      const newBoard = board.map(r => [...r]);
-      newBoard[row][col] = currentPlayer;
-      setBoard(newBoard);
+      const result = applyAction(board, { type: moveType, column: col }, currentPlayer, rules, pop10State);
+      if (!result) return;
+      setBoard(result.board);
+      setPop10State(result.pop10 || pop10State);
       setMoveCount(prev => prev + 1);
 
       // Play tile placement sound
       SoundService.playTilePlace();
 
-      // Vérifier la victoire
-      const winResult = checkWinner(newBoard, row, col, currentPlayer);
-      if (winResult.winner) {
-        setWinner(currentPlayer);
-        setWinningLine(winResult.line);
+      // Vérifier la victoire (en PopOut, un retrait peut faire gagner l'adversaire)
+      if (result.winner && result.winner !== 'draw') {
+        const winnerColor = result.winner;
+        setWinner(winnerColor);
+        setWinningLine(result.winningLine);
         SoundService.playGameWin();
         if (onGameEnd) {
-          onGameEnd(currentPlayer);
+          onGameEnd(winnerColor);
         }
         return;
       }
 
       // Vérifier le match nul
-      if (isBoardFull(newBoard)) {
+      if (result.winner === 'draw') {
         setWinner('draw');
         SoundService.playGameEnd();
         if (onGameEnd) {
@@ -263,8 +227,8 @@ export const usePuissance4Game = ({
         return;
       }
 
-      // Passer au joueur suivant
-      const nextPlayer = currentPlayer === 'Rouge' ? 'Jaune' : 'Rouge';
+      // Passer au joueur suivant (en Pop 10, un jeton gardé fait rejouer)
+      const nextPlayer = result.nextPlayer;
       setCurrentPlayer(nextPlayer);
 
       // Si mode IA et c'est le tour de l'IA
@@ -274,53 +238,63 @@ export const usePuissance4Game = ({
         setAiReasoning('');
 
         // Créer une référence stable du plateau pour l'IA
-        const boardForAI = newBoard.map(r => [...r]);
+        let boardForAI = result.board.map(r => [...r]);
+        let pop10ForAI = result.pop10 || pop10State;
 
         aiTimeoutRef.current = setTimeout(async () => {
           const aiColor = nextPlayer;
-
-          // Calculer le meilleur coup de l'IA avec le plateau actuel
-          const aiMove = Puissance4AIService.getBestMove(boardForAI, aiColor, difficulty);
-
-          setAiReasoning(aiMove.reasoning);
-
-          // Attendre encore un peu pour que l'utilisateur puisse lire
-          await new Promise(resolve => {
-            aiReasoningTimeoutRef.current = setTimeout(resolve, 500);
-          });
-
-          // Trouver la ligne disponible dans la colonne choisie par l'IA
-          let aiRow = -1;
-          for (let row = PUISSANCE4_CONFIG.ROWS - 1; row >= 0; row--) {
-            if (boardForAI[row][aiMove.column] === null) {
-              aiRow = row;
-              break;
+          let aiResult: Puissance4ActionResult | null = null;
+
+          // En Pop 10, l'IA rejoue tant qu'elle garde ses jetons ou doit en reposer un
+          do {
+            // Calculer le meilleur coup de l'IA avec le plateau actuel
+            const aiMove = await Puissance4AIService.getBestMove(boardForAI, aiColor, difficulty, rules, pop10ForAI);
+
+            setAiReasoning(aiMove.reasoning);
+
+            // Attendre encore un peu pour que l'utilisateur puisse lire
+            await new Promise(resolve => {
+              aiReasoningTimeoutRef.current = setTimeout(resolve, 500);
+            });
+
+            // Jouer le coup de l'IA (ou, s'il est illégal - ne devrait pas arriver, le premier coup possible)
+            aiResult = applyAction(
+              boardForAI,
+              { type: aiMove.type || 'drop', column: aiMove.column },
+              aiColor,
+              rules,
+              pop10ForAI
+            );
+            if (!aiResult) {
+              console.error('AI chose an illegal move, finding alternative...');
+              const [fallback] = getLegalActions(boardForAI, aiColor, rules, pop10ForAI);
+              aiResult = fallback ? applyAction(boardForAI, fallback, aiColor, rules, pop10ForAI) : null;
             }
-          }
-
-          // Jouer le coup de l'IA
-          if (aiRow !== -1) {
-            const aiBoard = boardForAI.map(r => [...r]);
-            aiBoard[aiRow][aiMove.column] = aiColor;
+            if (!aiResult) break;
 
             // Mettre à jour le plateau immédiatement
-            setBoard(aiBoard);
+            boardForAI = aiResult.board;
+            pop10ForAI = aiResult.pop10 || pop10ForAI;
+            setBoard(aiResult.board);
+            setPop10State(pop10ForAI);
             setMoveCount(prev => prev + 1);
 
             // Play AI tile placement sound
             SoundService.playTilePlace();
+          } while (!aiResult.winner && aiResult.nextPlayer === aiColor);
 
+          if (aiResult) {
             // Vérifier la victoire de l'IA
-            const aiWinResult = checkWinner(aiBoard, aiRow, aiMove.column, aiColor);
-            if (aiWinResult.winner) {
-              setWinner(aiColor);
-              setWinningLine(aiWinResult.line);
+            if (aiResult.winner && aiResult.winner !== 'draw') {
+              const winnerColor = aiResult.winner;
+              setWinner(winnerColor);
+              setWinningLine(aiResult.winningLine);
               setIsAIThinking(false);
               SoundService.playGameWin();
               if (onGameEnd) {
-                onGameEnd(aiColor);
+                onGameEnd(winnerColor);
               }
-            } else if (isBoardFull(aiBoard)) {
+            } else if (aiResult.winner === 'draw') {
               setWinner('draw');
               setIsAIThinking(false);
               SoundService.playGameEnd();
@@ -333,25 +307,6 @@ export const usePuissance4Game = ({
               setIsAIThinking(false);
             }
           } else {
-            // Si la colonne est pleine (ne devrait pas arriver), essayer une autre
-            console.error('AI chose a full column, finding alternative...');
-            for (let col = 0; col < PUISSANCE4_CONFIG.COLS; col++) {
-              let altRow = -1;
-              for (let row = PUISSANCE4_CONFIG.ROWS - 1; row >= 0; row--) {
-                if (boardForAI[row][col] === null) {
-                  altRow = row;
-                  break;
-                }
-              }
-              if (altRow !== -1) {
-                const aiBoard = boardForAI.map(r => [...r]);
-                aiBoard[altRow][col] = aiColor;
-                setBoard(aiBoard);
-                setMoveCount(prev => prev + 1);
-                setCurrentPlayer(playerColor);
-                break;
-              }
-            }
             setIsAIThinking(false);
           }
         }, PUISSANCE4_CONFIG.AI.THINK_DURATION[difficulty]);
@@ -360,49 +315,70 @@ export const usePuissance4Game = ({
     [
       board,
       currentPlayer,
+      pop10State,
       winner,
       isAIThinking,
+      isSpectator,
       mode,
       gameId,
       playerId,
       playerColor,
       difficulty,
-      findAvailableRow,
-      checkWinner,
-      isBoardFull,
+      rules,
       onGameEnd,
     ]
   );
 
   // Réinitialiser la partie
   const resetGame = useCallback(() => {
-    setBoard(
-      Array.from({ length: PUISSANCE4_CONFIG.ROWS }, () =>
-        Array.from({ length: PUISSANCE4_CONFIG.COLS }, () => null)
-      )
-    );
+    setBoard(createEmptyBoard(rules));
     setCurrentPlayer('Rouge');
+    setPop10State(createPop10State());
     setWinner(null);
     setWinningLine([]);
     setIsAIThinking(false);
     setAiReasoning('');
     setMoveCount(0);
-  }, []);
+  }, [rules]);
 
   // Abandonner (pour le mode online)
   const forfeit = useCallback(async () => {
-    if (mode === 'online' && gameId && playerId) {
+    if (mode === 'online' && gameId && playerId && !isSpectator) {
       try {
         await Puissance4Service.forfeitGame(gameId, playerId);
       } catch (error) {
         console.error('Error forfeiting game:', error);
       }
     }
-  }, [mode, gameId, playerId]);
+  }, [mode, gameId, playerId, isSpectator]);
+
+  // Réclamer la victoire au temps quand la pendule adverse atteint zéro
+  const claimTimeout = useCallback(async () => {
+    if (mode === 'online' && gameId && !isSpectator) {
+      try {
+        await Puissance4Service.claimTimeout(gameId);
+      } catch (error) {
+        console.error('Error claiming timeout:', error);
+      }
+    }
+  }, [mode, gameId, isSpectator]);
+
+  // Ne plus apparaître comme spectateur en quittant l'écran
+  useEffect(() => {
+    if (mode !== 'online' || !gameId || !playerId || !isSpectator) return;
+
+    return () => {
+      Puissance4Service.leaveAsSpectator(gameId, playerId).catch(error =>
+        console.error('Error leaving as spectator:', error)
+      );
+    };
+  }, [mode, gameId, playerId, isSpectator]);
 
   return {
     board,
+    rules,
     currentPlayer,
+    pop10State,
     winner,
     winningLine,
     isAIThinking,
@@ -411,5 +387,9 @@ export const usePuissance4Game = ({
     playMove,
     resetGame,
     forfeit,
+    clockState,
+    winReason,
+    claimTimeout,
+    spectators,
   };
 };
@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CustomWordTheme } from '../../types/wordSearch.types';
+import { CustomThemeInput, CustomThemeService } from '../../services/wordsearch/CustomThemeService';
+
+export const useCustomThemes = () => {
+  const [customThemes, setCustomThemes] = useState<CustomWordTheme[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadThemes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setCustomThemes(await CustomThemeService.getThemes());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadThemes();
+  }, [loadThemes]);
+
+  const saveTheme = useCallback(async (input: CustomThemeInput, ownerName: string) => {
+    const savedTheme = await CustomThemeService.saveTheme(input, ownerName);
+    setCustomThemes(themes => [savedTheme, ...themes.filter(theme => theme.id !== savedTheme.id)]);
+    return savedTheme;
+  }, []);
+
+  const deleteTheme = useCallback(async (themeId: string) => {
+    await CustomThemeService.deleteTheme(themeId);
+    setCustomThemes(themes => themes.filter(theme => theme.id !== themeId));
+  }, []);
+
+  return {
+    customThemes,
+    loading,
+    loadThemes,
+    saveTheme,
+    deleteTheme,
+  };
+};
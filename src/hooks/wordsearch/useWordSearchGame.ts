@@ -1,10 +1,12 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { Cell, Difficulty, GameResult, GameState, Grid, Word } from '../../types/wordSearch.types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Cell, Difficulty, GameResult, GameState, Grid, GridShapeName, Word } from '../../types/wordSearch.types';
 import { WordSearchGenerator } from '../../services/wordsearch/WordSearchGenerator';
 import { DIFFICULTY_CONFIGS } from '../../data/constants/gameRules';
 import { COIN_REWARDS, XP_REWARDS } from '../../data/constants/rewards';
 import { isBonusWord, getBonusReward } from '../../data/bonusWords';
 import SoundService from '../../services/SoundService';
+import { getGridSeed } from '../../utils/wordsearch/seededRandom';
+import { getCustomThemeConfig, isCustomThemeId } from '../../utils/wordsearch/customThemes';
 
 interface UseWordSearchGameProps {
   difficulty: Difficulty;
@@ -12,6 +14,8 @@ interface UseWordSearchGameProps {
   themeId: string;
   levelId?: number;
   bonusWords?: string[];
+  seed?: string; // Grille reproductible (défi du jour) : même graine, même grille
+  shape?: GridShapeName; // Niveau spécial : grille en forme
   onGameComplete?: (result: GameResult) => void;
   onWordFound?: (word: Word) => void;
   onAllRegularWordsFound?: (remainingBonusWords: Word[]) => void;
@@ -23,11 +27,23 @@ export const useWordSearchGame = ({
   themeId,
   levelId,
   bonusWords = [],
+  seed,
+  shape,
   onGameComplete,
   onWordFound,
   onAllRegularWordsFound,
 }: UseWordSearchGameProps) => {
-  const config = DIFFICULTY_CONFIGS[difficulty];
+  const config = useMemo(() => (
+    isCustomThemeId(themeId)
+      ? getCustomThemeConfig(DIFFICULTY_CONFIGS[difficulty])
+      : DIFFICULTY_CONFIGS[difficulty]
+  ), [themeId, difficulty]);
+
+  const createGenerator = useCallback(() => (
+    seed
+      ? WordSearchGenerator.fromSeed(config.gridSize, getGridSeed(seed, themeId, difficulty))
+      : new WordSearchGenerator(config.gridSize)
+  ), [seed, themeId, difficulty, config.gridSize]);
 
   const [grid, setGrid] = useState<Grid | null>(null);
   const [gameState, setGameState] = useState<GameState>({
@@ -45,7 +61,9 @@ export const useWordSearchGame = ({
   const lastWordFoundTimeRef = useRef<number>(0);
   const [highlightedCells, setHighlightedCells] = useState<{ row: number; col: number }[]>([]);
   const [timeFreezeRemaining, setTimeFreezeRemaining] = useState<number>(0);
-  const hasInitialized = useRef(false);
+  // Grille générée pour cette graine, ce thème, cette difficulté et cette forme
+  const gridKey = `${getGridSeed(seed || '', themeId, difficulty)}:${shape || ''}`;
+  const initializedGridKey = useRef<string | null>(null);
 
   // Start background music when game starts
   useEffect(() => {
@@ -56,16 +74,15 @@ export const useWordSearchGame = ({
     };
   }, []);
 
-  // Initialize game - Only once when component mounts or difficulty changes
+  // Initialize game - Once per grid: a new seed, theme, difficulty or shape starts a new game
   useEffect(() => {
-    // Prevent re-initialization if grid already exists and difficulty hasn't changed
-    if (hasInitialized.current && grid && grid.size === config.gridSize) {
+    if (initializedGridKey.current === gridKey) {
       return;
     }
 
     console.log('Initializing word search game with', words.length, 'words');
-    const generator = new WordSearchGenerator(config.gridSize);
-    const newGrid = generator.generateGrid(words, config, bonusWords);
+    const generator = createGenerator();
+    const newGrid = generator.generateGrid(words, config, bonusWords, shape);
 
     if (!newGrid || !newGrid.cells || newGrid.cells.length === 0) {
       console.error('Failed to generate grid');
@@ -79,12 +96,21 @@ export const useWordSearchGame = ({
     });
 
     setGrid(newGrid);
-    setGameState(prev => ({
-      ...prev,
+    setGameState({
       grid: newGrid,
-    }));
-    hasInitialized.current = true;
-  }, [difficulty]);
+      selectedCells: [],
+      foundWords: [],
+      score: 0,
+      timeElapsed: 0,
+      timeLimit: config.timeLimit,
+      isGameOver: false,
+      isPaused: false,
+    });
+    lastWordFoundTimeRef.current = 0;
+    setHighlightedCells([]);
+    setTimeFreezeRemaining(0);
+    initializedGridKey.current = gridKey;
+  }, [gridKey, words, config, bonusWords, shape, createGenerator]);
 
   // Timer
   useEffect(() => {
@@ -280,7 +306,7 @@ export const useWordSearchGame = ({
 
     // Calculate rewards
     const regularWords = usedFoundWords.filter(w => !w.isBonus);
-    const bonusWords = usedFoundWords.filter(w => w.isBonus);
+    const foundBonusWords = usedFoundWords.filter(w => w.isBonus);
     const wordsFound = regularWords.length;
     const totalWords = usedGrid.words.filter(w => !w.isBonus).length;
     const isPerfect = wordsFound === totalWords;
@@ -312,7 +338,7 @@ export const useWordSearchGame = ({
     xpEarned += wordsFound * XP_REWARDS.perWord;
 
     // Bonus words rewards
-    bonusWords.forEach(bonusWord => {
+    foundBonusWords.forEach(bonusWord => {
       const reward = getBonusReward(bonusWord.text.length);
       if (reward) {
         coinsEarned += reward.coins;
@@ -325,7 +351,7 @@ export const useWordSearchGame = ({
       timeElapsed: gameState.timeElapsed,
       wordsFound,
       totalWords,
-      bonusWordsFound: bonusWords.length,
+      bonusWordsFound: foundBonusWords.length,
       coinsEarned,
       xpEarned,
       leveledUp: false,
@@ -349,8 +375,8 @@ export const useWordSearchGame = ({
 
   // Restart game
   const restartGame = useCallback(() => {
-    const generator = new WordSearchGenerator(config.gridSize);
-    const newGrid = generator.generateGrid(words, config, bonusWords);
+    const generator = createGenerator();
+    const newGrid = generator.generateGrid(words, config, bonusWords, shape);
     setGrid(newGrid);
     setGameState({
       grid: newGrid,
@@ -365,7 +391,7 @@ export const useWordSearchGame = ({
     lastWordFoundTimeRef.current = 0;
     setHighlightedCells([]);
     setTimeFreezeRemaining(0);
-  }, [words, config, bonusWords]);
+  }, [words, config, bonusWords, shape, createGenerator]);
 
   // Power-Up: Reveal Letter
   const revealLetter = useCallback(() => {
@@ -215,7 +215,13 @@ const GamesScreen: React.FC = () => {
 
             <Text style={styles.title}>Jeux</Text>
 
-            <View style={styles.placeholder} />
+            {/* Carnet des gages du couple */}
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => navigateToScreen('stakesLedger')}
+            >
+              <Foundation name="clipboard-notes" size={20} color={currentTheme?.text?.primary || '#FFFFFF'} />
+            </TouchableOpacity>
           </View>
 
           {/* Games Grid */}
@@ -290,9 +296,6 @@ const createStyles = (theme: any) => StyleSheet.create({
     color: theme?.text?.primary || '#FFFFFF',
     textAlign: 'center',
   },
-  placeholder: {
-    width: 40,
-  },
   content: {
     flex: 1,
     paddingHorizontal: 20,
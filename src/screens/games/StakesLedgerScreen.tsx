@@ -0,0 +1,464 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  StatusBar,
+  Dimensions,
+  ImageBackground,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { CurrentTheme } from '../../constants/Themes';
+import FeedbackService from '../../services/FeedbackService';
+import StakesLedgerService from '../../services/StakesLedgerService';
+import { useApp } from '../../context/AppContext';
+import { getBackgroundSource } from '../../utils/backgroundUtils';
+import CustomAlert from '../../components/common/CustomAlert';
+import { useCustomAlert } from '../../hooks/useCustomAlert';
+import {
+  StakeDebt,
+  StakeGameType,
+  STAKE_GAME_LABELS,
+  isDebtOverdue,
+  summarizeLedger,
+} from '../../utils/stakesLedger';
+
+const { width } = Dimensions.get('window');
+
+type LedgerFilter = 'pending' | 'toPay' | 'toReceive' | 'fulfilled';
+
+const FILTERS: { key: LedgerFilter; label: string }[] = [
+  { key: 'pending', label: 'En cours' },
+  { key: 'toPay', label: 'Je dois' },
+  { key: 'toReceive', label: 'On me doit' },
+  { key: 'fulfilled', label: 'Honorés' },
+];
+
+const GAME_ICONS: Record<StakeGameType, string> = {
+  puissance4: 'circle-multiple',
+  morpion: 'pound',
+  dominos: 'domino-mask',
+  quiz: 'head-question',
+};
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short' });
+
+/**
+ * Carnet des gages : qui doit quoi à qui, toutes parties confondues
+ */
+const StakesLedgerScreen: React.FC<any> = ({ navigation }) => {
+  const { user, currentTheme } = useApp();
+  const { alertConfig, isVisible, showAlert, hideAlert } = useCustomAlert();
+  const [debts, setDebts] = useState<StakeDebt[]>([]);
+  const [filter, setFilter] = useState<LedgerFilter>('pending');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const unsubscribe = StakesLedgerService.subscribeToLedger(
+      user.id,
+      (updatedDebts) => {
+        setDebts(updatedDebts);
+        setIsLoading(false);
+      },
+      () => setIsLoading(false)
+    );
+
+    return unsubscribe;
+  }, [user?.id]);
+
+  const now = Date.now();
+  const summary = summarizeLedger(debts, user?.id || '', now);
+
+  const filteredDebts = debts.filter(debt => {
+    switch (filter) {
+      case 'toPay':
+        return debt.status !== 'fulfilled' && debt.debtorId === user?.id;
+      case 'toReceive':
+        return debt.status !== 'fulfilled' && debt.creditorId === user?.id;
+      case 'fulfilled':
+        return debt.status === 'fulfilled';
+      default:
+        return debt.status !== 'fulfilled';
+    }
+  });
+
+  const handleUpdate = async (debt: StakeDebt, action: 'claim' | 'fulfill') => {
+    if (!user?.id) return;
+
+    try {
+      if (action === 'claim') {
+        await StakesLedgerService.claimDebt(debt.id, user.id);
+      } else {
+        await StakesLedgerService.markFulfilled(debt.id, user.id);
+      }
+      FeedbackService.success();
+    } catch (error: any) {
+      FeedbackService.error();
+      showAlert({
+        title: 'Erreur',
+        message: error?.message || 'Impossible de mettre à jour le gage',
+        type: 'error',
+        buttons: [{ text: 'OK', style: 'default' }],
+      });
+    }
+  };
+
+  const getStatusBadge = (debt: StakeDebt): { label: string; color: string } => {
+    if (debt.status === 'fulfilled') return { label: 'Honoré', color: '#4CAF50' };
+    if (isDebtOverdue(debt, now)) return { label: 'En retard', color: '#FF6B6B' };
+    if (debt.status === 'claimed') return { label: 'Réclamé', color: '#FFA502' };
+    return { label: 'À réclamer', color: '#00E5FF' };
+  };
+
+  const renderSummary = () => (
+    <View style={styles.card}>
+      <View style={styles.statsRow}>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{summary.owedByMe}</Text>
+          <Text style={styles.statLabel}>Je dois</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{summary.owedToMe}</Text>
+          <Text style={styles.statLabel}>On me doit</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={[styles.statValue, summary.overdueByMe > 0 && styles.statValueOverdue]}>
+            {summary.overdueByMe}
+          </Text>
+          <Text style={styles.statLabel}>En retard</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{summary.fulfilled}</Text>
+          <Text style={styles.statLabel}>Honorés</Text>
+        </View>
+      </View>
+    </View>
+  );
+
+  const renderDebt = (debt: StakeDebt) => {
+    const isCreditor = debt.creditorId === user?.id;
+    const badge = getStatusBadge(debt);
+
+    return (
+      <View key={debt.id} style={styles.card}>
+        <View style={styles.debtHeader}>
+          <MaterialCommunityIcons
+            name={GAME_ICONS[debt.gameType] as any}
+            size={20}
+            color={CurrentTheme.text.secondary}
+          />
+          <Text style={styles.debtGame}>
+            {STAKE_GAME_LABELS[debt.gameType]} • {formatDate(debt.createdAt)}
+          </Text>
+          <View style={[styles.badge, { backgroundColor: badge.color + '30' }]}>
+            <Text style={[styles.badgeText, { color: badge.color }]}>{badge.label}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.debtDescription}>{debt.description}</Text>
+        <Text style={styles.debtParties}>
+          {isCreditor ? `${debt.debtorName} te doit ce gage` : `Tu dois ce gage à ${debt.creditorName}`}
+        </Text>
+        {debt.status !== 'fulfilled' && (
+          <Text style={styles.debtDue}>À honorer avant le {formatDate(debt.dueAt)}</Text>
+        )}
+        {debt.status === 'fulfilled' && debt.fulfilledAt && (
+          <Text style={styles.debtDue}>Honoré le {formatDate(debt.fulfilledAt)}</Text>
+        )}
+
+        {isCreditor && debt.status !== 'fulfilled' && (
+          <View style={styles.actionsRow}>
+            {debt.status === 'owed' && (
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleUpdate(debt, 'claim')}>
+                <MaterialCommunityIcons name="gift-outline" size={18} color="#FFFFFF" />
+                <Text style={styles.actionText}>Réclamer</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonPrimary]}
+              onPress={() => handleUpdate(debt, 'fulfill')}
+            >
+              <MaterialCommunityIcons name="check" size={18} color="#FFFFFF" />
+              <Text style={styles.actionText}>Honoré</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" translucent backgroundColor="transparent" />
+
+      <ImageBackground
+        source={getBackgroundSource(user)}
+        style={styles.backgroundImage}
+        resizeMode="cover"
+      >
+        <View style={styles.blurryOverlay}>
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => {
+                FeedbackService.buttonPress();
+                navigation.goBack();
+              }}
+            >
+              <View style={styles.backButtonBlur}>
+                <MaterialCommunityIcons
+                  name="arrow-left"
+                  size={24}
+                  color={CurrentTheme.text.primary}
+                />
+              </View>
+            </TouchableOpacity>
+
+            <Text style={styles.title}>Carnet des gages</Text>
+
+            <View style={styles.placeholder} />
+          </View>
+
+          {/* Filtres */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.categoryScroll}
+            contentContainerStyle={styles.categoryContainer}
+          >
+            {FILTERS.map(item => (
+              <TouchableOpacity
+                key={item.key}
+                style={[styles.categoryButton, filter === item.key && styles.categoryButtonActive]}
+                onPress={() => {
+                  FeedbackService.buttonPress();
+                  setFilter(item.key);
+                }}
+              >
+                <Text style={styles.categoryText}>{item.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          {isLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={CurrentTheme.romantic.primary} />
+              <Text style={styles.loadingText}>Chargement du carnet...</Text>
+            </View>
+          ) : (
+            <ScrollView
+              contentContainerStyle={styles.listContent}
+              showsVerticalScrollIndicator={false}
+            >
+              {renderSummary()}
+
+              {filteredDebts.length === 0 ? (
+                <Text style={styles.emptyHint}>
+                  Aucun gage ici. Ajoutez un enjeu à votre prochaine partie !
+                </Text>
+              ) : (
+                filteredDebts.map(renderDebt)
+              )}
+            </ScrollView>
+          )}
+        </View>
+      </ImageBackground>
+
+      {alertConfig && (
+        <CustomAlert
+          visible={isVisible}
+          title={alertConfig.title}
+          message={alertConfig.message}
+          buttons={alertConfig.buttons}
+          type={alertConfig.type}
+          onClose={hideAlert}
+          theme={currentTheme}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: CurrentTheme.background.primary,
+  },
+  backgroundImage: {
+    flex: 1,
+    width: width,
+  },
+  blurryOverlay: {
+    flex: 1,
+    backgroundColor: CurrentTheme.glassmorphism.background,
+    paddingTop: 60,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+  },
+  backButtonBlur: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+    flex: 1,
+    textAlign: 'center',
+  },
+  placeholder: {
+    width: 44,
+  },
+  categoryScroll: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  categoryContainer: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  categoryButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  categoryButtonActive: {
+    backgroundColor: CurrentTheme.romantic.primary,
+  },
+  categoryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: CurrentTheme.text.secondary,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    marginBottom: 16,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  statItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: CurrentTheme.text.primary,
+  },
+  statValueOverdue: {
+    color: '#FF6B6B',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: CurrentTheme.text.secondary,
+    marginTop: 2,
+  },
+  emptyHint: {
+    fontSize: 14,
+    color: CurrentTheme.text.secondary,
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  debtHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  debtGame: {
+    flex: 1,
+    fontSize: 13,
+    color: CurrentTheme.text.secondary,
+  },
+  badge: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  debtDescription: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+    marginBottom: 4,
+  },
+  debtParties: {
+    fontSize: 14,
+    color: CurrentTheme.text.primary,
+  },
+  debtDue: {
+    fontSize: 12,
+    color: CurrentTheme.text.tertiary,
+    marginTop: 4,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  actionButtonPrimary: {
+    backgroundColor: CurrentTheme.romantic.primary,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
+
+export default StakesLedgerScreen;
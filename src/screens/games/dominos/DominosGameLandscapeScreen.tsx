@@ -13,21 +13,46 @@ import {
 import { useApp } from '../../../context/AppContext';
 import { getBackgroundSource } from '../../../utils/backgroundUtils';
 import { DominosService } from '../../../services/dominos/DominosService';
-import { DominosGame, DominoTile } from '../../../types/dominos.types';
-import { getAllPossibleMoves } from '../../../utils/dominosLogic';
+import { DominosGame, DominosMaxValue, DominoTile } from '../../../types/dominos.types';
+import {
+  calculateScore,
+  getAllPossibleMoves,
+  getHandSize,
+  getOpponents,
+  getOtherSeats,
+  getPartner,
+  isSameSide,
+} from '../../../utils/dominosLogic';
 import Foundation from 'react-native-vector-icons/Foundation';
 import { useCustomAlert } from '../../../hooks/useCustomAlert';
 import CustomAlert from '../../../components/common/CustomAlert';
 import { DominoTile3D } from '../../../components/dominos/DominoTile3D';
+import { DominoSeat } from '../../../components/dominos/DominoSeat';
 import SoundService from '../../../services/SoundService';
+import { DominosAIDifficulty } from '../../../services/dominos/DominosAIService';
+import { useDominosAIGame } from '../../../hooks/useDominosAIGame';
+import { PlayerProfile } from '../../../types/wordSearch.types';
 
 const { width, height } = Dimensions.get('window');
 
+// Tuile factice affichée de dos pour la main adverse
+const getHiddenTile = (index: number): DominoTile => ({
+  id: `hidden-${index}`,
+  left: 0,
+  right: 0,
+  isDouble: false,
+  orientation: 'horizontal',
+});
+
 interface DominosGameLandscapeScreenProps {
   route: {
     params: {
-      gameId: string;
+      gameId?: string; // Absent en mode IA
       playerId: string;
+      mode?: 'online' | 'ai';
+      difficulty?: DominosAIDifficulty;
+      maxValue?: DominosMaxValue; // Mode IA
+      playerProfile?: PlayerProfile; // Mode IA
     };
   };
 }
@@ -35,12 +60,20 @@ interface DominosGameLandscapeScreenProps {
 export const DominosGameLandscapeScreen: React.FC<DominosGameLandscapeScreenProps> = ({
   route,
 }) => {
-  const { gameId, playerId } = route.params;
+  const { gameId, playerId, mode = 'online', difficulty = 'medium', maxValue, playerProfile } = route.params;
+  const isAIMode = mode === 'ai';
   const { user, currentTheme, navigateToScreen } = useApp();
   const styles = createStyles(currentTheme);
   const { alertConfig, isVisible, showAlert, hideAlert } = useCustomAlert();
+  const aiGame = useDominosAIGame({
+    enabled: isAIMode,
+    playerProfile: playerProfile ?? null,
+    difficulty,
+    maxValue,
+  });
 
   const [game, setGame] = useState<DominosGame | null>(null);
+  const [hand, setHand] = useState<DominoTile[]>([]);
   const [loading, setLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedTileId, setSelectedTileId] = useState<string | null>(null);
@@ -55,10 +88,14 @@ export const DominosGameLandscapeScreen: React.FC<DominosGameLandscapeScreenProp
   }, []);
 
   const hasShownStartMessage = React.useRef(false);
+  const knownRoundsCount = React.useRef<number | null>(null);
+  const resultsTimeoutRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
+    if (isAIMode) return;
+
     const unsubscribe = DominosService.subscribeToGame(
-      gameId,
+      gameId!,
       (updatedGame) => {
         // Show starting tile message only once
         if (!hasShownStartMessage.current && !game && updatedGame.board.length > 0) {
@@ -74,8 +111,40 @@ export const DominosGameLandscapeScreen: React.FC<DominosGameLandscapeScreenProp
             });
           }
         }
+
+        // Nouvelle manche distribuée par le serveur : annoncer le résultat de la précédente
+        const rounds = updatedGame.rounds || [];
+        if (
+          knownRoundsCount.current !== null &&
+          rounds.length > knownRoundsCount.current &&
+          updatedGame.status === 'playing'
+        ) {
+          const lastRound = rounds[rounds.length - 1];
+          const roundWinner = updatedGame.players.find((p) => p.id === lastRound.winnerId);
+          const isRoundWinner = lastRound.winnerId === playerId;
+          // Règles haïtiennes : une manche gagnée vaut un point
+          const roundSummary = updatedGame.ruleset === 'haitian'
+            ? `${isRoundWinner ? 'Vous remportez' : `${roundWinner?.profile.name} remporte`} la manche.`
+            : `${isRoundWinner ? 'Vous marquez' : `${roundWinner?.profile.name} marque`} ${lastRound.points} points.`;
+          showAlert({
+            title: `Manche ${lastRound.roundNumber} terminée`,
+            message: `${roundSummary} ${isRoundWinner ? 'Vous commencez' : `${roundWinner?.profile.name} commence`} la manche suivante.`,
+            // Deux contre deux : la manche du partenaire est aussi la nôtre
+            type: isSameSide(updatedGame.players, playerId, lastRound.winnerId) ? 'success' : 'info',
+            buttons: [{ text: 'OK', style: 'cancel' }],
+          });
+        }
+        knownRoundsCount.current = rounds.length;
+
         setGame(updatedGame);
         setLoading(false);
+
+        // Match terminé : tableau des scores
+        if (updatedGame.status === 'finished' && !resultsTimeoutRef.current) {
+          resultsTimeoutRef.current = setTimeout(() => {
+            navigateToScreen('dominosResults', { gameId, playerId });
+          }, 1500);
+        }
       },
       (error) => {
         console.error('Error loading dominos game:', error);
@@ -97,8 +166,63 @@ export const DominosGameLandscapeScreen: React.FC<DominosGameLandscapeScreenProp
 
     return () => {
       unsubscribe();
+      if (resultsTimeoutRef.current) {
+        clearTimeout(resultsTimeoutRef.current);
+      }
     };
-  }, [gameId, playerId]);
+  }, [gameId, playerId, isAIMode]);
+
+  // Main privée : hors du document partagé, lisible par le seul joueur
+  useEffect(() => {
+    if (isAIMode) return;
+
+    const unsubscribe = DominosService.subscribeToHand(gameId!, playerId, setHand);
+    return () => unsubscribe();
+  }, [gameId, playerId, isAIMode]);
+
+  // Mode IA : la partie est jouée sur l'appareil
+  useEffect(() => {
+    if (!isAIMode) return;
+
+    setGame(aiGame.game);
+    setHand(aiGame.hand);
+    setLoading(!aiGame.game);
+  }, [isAIMode, aiGame.game, aiGame.hand]);
+
+  // Mode IA : pas d'écran de résultats en ligne, on propose la revanche
+  // (une seule fois par partie terminée)
+  const hasShownAIResult = React.useRef(false);
+  useEffect(() => {
+    if (!isAIMode) return;
+    if (game?.status !== 'finished') {
+      hasShownAIResult.current = false;
+      return;
+    }
+    if (hasShownAIResult.current) return;
+    hasShownAIResult.current = true;
+
+    const hasWon = game.winnerId === playerId;
+    showAlert({
+      title: hasWon ? '🏆 Victoire !' : 'Défaite',
+      message: game.winReason === 'lowest_score'
+        ? 'Jeu bloqué : victoire au plus petit score'
+        : hasWon ? 'Vous avez posé toutes vos tuiles' : "L'IA a posé toutes ses tuiles",
+      type: hasWon ? 'success' : 'info',
+      buttons: [
+        { text: 'Menu', style: 'cancel', onPress: () => navigateToScreen('dominosMenu') },
+        { text: 'Rejouer', onPress: aiGame.startNewGame },
+      ],
+    });
+  }, [isAIMode, game, playerId, showAlert, navigateToScreen, aiGame.startNewGame]);
+
+  const placeTile = (tileId: string, side: 'left' | 'right') =>
+    isAIMode ? aiGame.placeTile(tileId, side) : DominosService.placeTile(gameId!, playerId, tileId, side, game?.turnNumber);
+
+  const drawTile = () =>
+    isAIMode ? aiGame.drawTile() : DominosService.drawTile(gameId!, playerId, game?.turnNumber);
+
+  const passTurn = () =>
+    isAIMode ? aiGame.passTurn() : DominosService.passTurn(gameId!, playerId, game?.turnNumber);
 
   const handleTileSelect = (tile: DominoTile) => {
     if (!isMyTurn || isProcessing) {
@@ -125,7 +249,7 @@ export const DominosGameLandscapeScreen: React.FC<DominosGameLandscapeScreenProp
       // For first tile, side doesn't matter, always use 'left'
       const actualSide = game.board.length === 0 ? 'left' : side;
       console.log('Actual side:', actualSide);
-      await DominosService.placeTile(gameId, playerId, selectedTileId, actualSide);
+      await placeTile(selectedTileId, actualSide);
       console.log('Tile placed successfully!');
       SoundService.playTilePlace();
       setSelectedTileId(null);
@@ -151,16 +275,17 @@ export const DominosGameLandscapeScreen: React.FC<DominosGameLandscapeScreenProp
       const currentPlayer = game.players.find((p) => p.id === playerId);
       if (!currentPlayer) return;
 
-      const possibleMoves = getAllPossibleMoves(currentPlayer.hand, game.leftEnd, game.rightEnd);
-      const canDraw = game.drawPileCount > 0;
+      const possibleMoves = getAllPossibleMoves(hand, game.leftEnd, game.rightEnd);
+      // Une seule pioche par tour : ensuite il faut passer
+      const canDraw = game.drawPileCount > 0 && !currentPlayer.hasDrawn;
 
       if (possibleMoves.length === 0 && canDraw) {
         // Draw a tile
-        await DominosService.drawTile(gameId, playerId);
+        await drawTile();
         SoundService.playTileSelect();
       } else if (possibleMoves.length === 0 && !canDraw) {
         // Pass turn
-        await DominosService.passTurn(gameId, playerId);
+        await passTurn();
         SoundService.haptic('medium');
       } else {
         // Has moves, cannot pass
@@ -187,17 +312,17 @@ export const DominosGameLandscapeScreen: React.FC<DominosGameLandscapeScreenProp
     const currentPlayer = game.players.find((p) => p.id === playerId);
     if (!currentPlayer) return;
 
-    const possibleMoves = getAllPossibleMoves(currentPlayer.hand, game.leftEnd, game.rightEnd);
+    const possibleMoves = getAllPossibleMoves(hand, game.leftEnd, game.rightEnd);
 
     // If no moves and can draw, auto-draw
-    if (possibleMoves.length === 0 && game.drawPileCount > 0) {
+    if (possibleMoves.length === 0 && game.drawPileCount > 0 && !currentPlayer.hasDrawn) {
       const autoDrawTimer = setTimeout(() => {
         handleDrawOrPass();
       }, 500); // Wait 500ms before auto-drawing
 
       return () => clearTimeout(autoDrawTimer);
     }
-  }, [game, isMyTurn, isProcessing]);
+  }, [game, hand, isMyTurn, isProcessing]);
 
   const handleLeave = () => {
     showAlert({
@@ -211,7 +336,9 @@ export const DominosGameLandscapeScreen: React.FC<DominosGameLandscapeScreenProp
           style: 'destructive',
           onPress: async () => {
             try {
-              await DominosService.leaveGame(gameId, playerId);
+              if (!isAIMode) {
+                await DominosService.leaveGame(gameId!, playerId);
+              }
               navigateToScreen('dominosMenu');
             } catch (error) {
               console.error('Error leaving game:', error);
@@ -249,13 +376,19 @@ export const DominosGameLandscapeScreen: React.FC<DominosGameLandscapeScreenProp
   }
 
   const currentPlayer = game.players.find((p) => p.id === playerId);
-  const opponent = game.players.find((p) => p.id !== playerId);
+  const opponent = getOpponents(game.players, playerId)[0];
   const isMyTurn = game.currentPlayerId === playerId;
 
+  // Deux contre deux : partenaire en face, adversaires de chaque côté (le suivant à droite)
+  const isTeamGame = game.players.length === 4;
+  const [nextSeat, , previousSeat] = isTeamGame ? getOtherSeats(game.players, playerId) : [];
+  const topPlayer = isTeamGame ? getPartner(game.players, playerId) : opponent;
+  const currentTurnPlayer = game.players.find((p) => p.id === game.currentPlayerId);
+
   const possibleMoves = currentPlayer
-    ? getAllPossibleMoves(currentPlayer.hand, game.leftEnd, game.rightEnd)
+    ? getAllPossibleMoves(hand, game.leftEnd, game.rightEnd)
     : [];
-  const playableTileIds = possibleMoves.map((move) => move.tileId);
+  const playableTileIds = possibleMoves.map((move) => move.tile.id);
 
   return (
     <View style={styles.container}>
@@ -271,27 +404,45 @@ export const DominosGameLandscapeScreen: React.FC<DominosGameLandscapeScreenProp
 
           <View style={styles.turnIndicator}>
             <Text style={styles.turnText}>
-              {isMyTurn ? '🎯 Votre tour' : '⏳ Tour adverse'}
+              {isMyTurn
+                ? '🎯 Votre tour'
+                : isAIMode && aiGame.isAIThinking
+                  ? "🤖 L'IA réfléchit..."
+                  : isAIMode && aiGame.aiReasoning
+                    ? `🤖 ${aiGame.aiReasoning}`
+                    : isTeamGame && currentTurnPlayer
+                      ? `⏳ Tour de ${currentTurnPlayer.profile.name}`
+                      : '⏳ Tour adverse'}
             </Text>
           </View>
 
           <View style={styles.scoreContainer}>
-            <Text style={styles.scoreText}>Score: 0</Text>
+            <Text style={styles.scoreText}>
+              {game.targetScore
+                ? `${currentPlayer?.score ?? 0} - ${opponent?.score ?? 0} / ${game.targetScore}`
+                : `Points: ${calculateScore(hand)}`}
+            </Text>
+            {!!game.targetScore && (
+              <Text style={styles.roundText}>Manche {game.roundNumber ?? 1}</Text>
+            )}
           </View>
         </View>
 
-        {/* Opponent Hand - Top (20%) */}
+        {/* Opponent Hand (partner in a team game) - Top (20%) */}
         <View style={styles.opponentZone}>
-          {opponent && (
+          {topPlayer && (
             <>
               <View style={styles.opponentInfo}>
-                <Text style={styles.opponentName}>{opponent.profile.name}</Text>
-                <Text style={styles.opponentTiles}>{opponent.tilesCount} tuiles</Text>
+                <Text style={styles.opponentName}>
+                  {topPlayer.profile.name}{isTeamGame ? ' (partenaire)' : ''}
+                </Text>
+                <Text style={styles.opponentTiles}>{topPlayer.tilesCount} tuiles</Text>
               </View>
               <View style={styles.opponentHand}>
-                {opponent.hand.slice(0, 7).map((tile) => (
-                  <View key={tile.id} style={styles.smallTileWrapper}>
-                    <DominoTile3D tile={tile} showBack={true} size="small" />
+                {/* Tuiles de dos : seul le nombre de tuiles des autres joueurs est connu */}
+                {Array.from({ length: Math.min(topPlayer.tilesCount, getHandSize(game.maxValue)) }, (_, index) => (
+                  <View key={`hidden-${index}`} style={styles.smallTileWrapper}>
+                    <DominoTile3D tile={getHiddenTile(index)} showBack={true} size="small" />
                   </View>
                 ))}
               </View>
@@ -303,6 +454,13 @@ export const DominosGameLandscapeScreen: React.FC<DominosGameLandscapeScreenProp
         <View style={styles.gameBoardContainer}>
           {/* Left Side - Draw Pile */}
           <View style={styles.leftSidePanel}>
+            {previousSeat && (
+              <DominoSeat
+                player={previousSeat}
+                isCurrentTurn={game.currentPlayerId === previousSeat.id}
+                caption="Adversaire"
+              />
+            )}
             <TouchableOpacity
               style={styles.drawPileButton}
               onPress={handleDrawOrPass}
@@ -388,7 +546,14 @@ export const DominosGameLandscapeScreen: React.FC<DominosGameLandscapeScreenProp
 
           {/* Right Side - Info */}
           <View style={styles.rightSidePanel}>
-            {possibleMoves.length === 0 && game.drawPileCount > 0 && (
+            {nextSeat && (
+              <DominoSeat
+                player={nextSeat}
+                isCurrentTurn={game.currentPlayerId === nextSeat.id}
+                caption="Adversaire"
+              />
+            )}
+            {possibleMoves.length === 0 && game.drawPileCount > 0 && !currentPlayer?.hasDrawn && (
               <View style={styles.autoDrawIndicator}>
                 <ActivityIndicator size="small" color="#FFF" />
                 <Text style={styles.autoDrawText}>Pioche...</Text>
@@ -402,10 +567,10 @@ export const DominosGameLandscapeScreen: React.FC<DominosGameLandscapeScreenProp
           {currentPlayer && (
             <>
               <View style={styles.playerInfo}>
-                <Text style={styles.playerName}>Votre main ({currentPlayer.hand.length} tuiles)</Text>
+                <Text style={styles.playerName}>Votre main ({hand.length} tuiles)</Text>
               </View>
               <View style={styles.playerHand}>
-                {currentPlayer.hand.map((tile) => {
+                {hand.map((tile) => {
                   const isPlayable = playableTileIds.includes(tile.id);
                   const isSelected = selectedTileId === tile.id;
 
@@ -515,6 +680,11 @@ const createStyles = (theme: any) =>
       paddingHorizontal: 12,
       paddingVertical: 6,
     },
+    roundText: {
+      fontSize: 10,
+      color: 'rgba(255, 255, 255, 0.7)',
+      textAlign: 'center',
+    },
     scoreText: {
       fontSize: 14,
       fontWeight: '600',
@@ -565,6 +735,7 @@ const createStyles = (theme: any) =>
       width: 80,
       justifyContent: 'center',
       alignItems: 'center',
+      gap: 12,
     },
     drawPileButton: {
       alignItems: 'center',
@@ -663,6 +834,7 @@ const createStyles = (theme: any) =>
       width: 80,
       justifyContent: 'center',
       alignItems: 'center',
+      gap: 12,
     },
     autoDrawIndicator: {
       backgroundColor: 'rgba(255, 152, 0, 0.8)',
@@ -14,7 +14,7 @@ import Foundation from 'react-native-vector-icons/Foundation';
 import { useApp } from '../../../context/AppContext';
 import { getBackgroundSource } from '../../../utils/backgroundUtils';
 import { DominosService } from '../../../services/dominos/DominosService';
-import { DominosGame, DominosPlayer } from '../../../types/dominos.types';
+import { DominosGame, DominoTile } from '../../../types/dominos.types';
 import { getAllPossibleMoves } from '../../../utils/dominosLogic';
 import { AvatarDisplay } from '../../../utils/avatarUtils';
 import CustomAlert from '../../../components/common/CustomAlert';
@@ -43,6 +43,7 @@ export const DominosGameScreen: React.FC<DominosGameScreenProps> = ({
   const { alertConfig, isVisible, showAlert, hideAlert } = useCustomAlert();
 
   const [game, setGame] = useState<DominosGame | null>(null);
+  const [hand, setHand] = useState<DominoTile[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedTileId, setSelectedTileId] = useState<string | null>(null);
   const [selectedSide, setSelectedSide] = useState<'left' | 'right' | null>(null);
@@ -94,6 +95,12 @@ export const DominosGameScreen: React.FC<DominosGameScreenProps> = ({
     };
   }, [gameId, playerId]);
 
+  // Main privée : hors du document partagé, lisible par le seul joueur
+  useEffect(() => {
+    const unsubscribe = DominosService.subscribeToHand(gameId, playerId, setHand);
+    return () => unsubscribe();
+  }, [gameId, playerId]);
+
   // Timer effect
   useEffect(() => {
     if (game?.status === 'playing' && game.startedAt) {
@@ -147,16 +154,16 @@ export const DominosGameScreen: React.FC<DominosGameScreenProps> = ({
     const isMyTurn = game.currentPlayerId === playerId;
     if (!isMyTurn) return;
 
-    const possibleMoves = getAllPossibleMoves(currentPlayer.hand, game.leftEnd, game.rightEnd);
-    const tile = currentPlayer.hand.find((t) => t.id === selectedTileId);
+    const possibleMoves = getAllPossibleMoves(hand, game.leftEnd, game.rightEnd);
+    const tile = hand.find((t) => t.id === selectedTileId);
 
     if (tile) {
-      const tileMoves = possibleMoves.filter((m) => m.tileId === selectedTileId);
+      const tileMoves = possibleMoves.filter((m) => m.tile.id === selectedTileId);
       if (tileMoves.length === 1) {
         handlePlaceTile(tileMoves[0].side);
       }
     }
-  }, [selectedTileId, game, isProcessing, settings.autoPlaceTile, playerId]);
+  }, [selectedTileId, game, hand, isProcessing, settings.autoPlaceTile, playerId]);
 
   const handleTileSelect = (tile: any) => {
     if (selectedTileId === tile.id) {
@@ -209,7 +216,7 @@ export const DominosGameScreen: React.FC<DominosGameScreenProps> = ({
     ]).start();
 
     try {
-      await DominosService.placeTile(gameId, playerId, selectedTileId, side);
+      await DominosService.placeTile(gameId, playerId, selectedTileId, side, game.turnNumber);
       setSelectedTileId(null);
       setSelectedSide(null);
     } catch (error: any) {
@@ -230,7 +237,7 @@ export const DominosGameScreen: React.FC<DominosGameScreenProps> = ({
 
     setIsProcessing(true);
     try {
-      await DominosService.drawTile(gameId, playerId);
+      await DominosService.drawTile(gameId, playerId, game.turnNumber);
       // After drawing, check if we now have playable moves
       // The game state will update via subscription, pile will auto-close if moves available
     } catch (error: any) {
@@ -252,7 +259,7 @@ export const DominosGameScreen: React.FC<DominosGameScreenProps> = ({
     const passTurnAction = async () => {
       setIsProcessing(true);
       try {
-        await DominosService.passTurn(gameId, playerId);
+        await DominosService.passTurn(gameId, playerId, game.turnNumber);
       } catch (error: any) {
         console.error('Error passing turn:', error);
         showAlert({
@@ -347,7 +354,7 @@ export const DominosGameScreen: React.FC<DominosGameScreenProps> = ({
   const opponent = game.players.find((p) => p.id !== playerId);
   const isMyTurn = game.currentPlayerId === playerId;
   const possibleMoves = currentPlayer
-    ? getAllPossibleMoves(currentPlayer.hand, game.leftEnd, game.rightEnd)
+    ? getAllPossibleMoves(hand, game.leftEnd, game.rightEnd)
     : [];
   const canDraw = game.drawPileCount > 0 && !currentPlayer?.hasDrawn;
   const canPass =
@@ -355,7 +362,7 @@ export const DominosGameScreen: React.FC<DominosGameScreenProps> = ({
     (game.drawPileCount === 0 || currentPlayer?.hasDrawn);
 
   // Get playable tile IDs for hints
-  const playableTileIds = possibleMoves.map((move) => move.tileId);
+  const playableTileIds = possibleMoves.map((move) => move.tile.id);
 
   return (
     <View style={styles.container}>
@@ -478,7 +485,7 @@ export const DominosGameScreen: React.FC<DominosGameScreenProps> = ({
           {currentPlayer && (
             <View style={styles.playerHandContainer}>
               <DominoHand
-                tiles={currentPlayer.hand}
+                tiles={hand}
                 selectedTileId={selectedTileId}
                 onSelectTile={handleTileSelect}
                 isSelectable={isMyTurn && !isProcessing}
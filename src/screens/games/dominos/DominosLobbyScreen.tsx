@@ -15,7 +15,18 @@ import Foundation from 'react-native-vector-icons/Foundation';
 import { useApp } from '../../../context/AppContext';
 import { getBackgroundSource } from '../../../utils/backgroundUtils';
 import { DominosService } from '../../../services/dominos/DominosService';
-import { DominosGame } from '../../../types/dominos.types';
+import { DominosAIDifficulty, DOMINOS_AI_DIFFICULTIES } from '../../../services/dominos/DominosAIService';
+import { DominosGame, DominosMaxValue, DominosPlayer, DominosTeam } from '../../../types/dominos.types';
+import { PlayerProfile } from '../../../types/wordSearch.types';
+import {
+  DOMINOS_DEFAULT_MAX_VALUE,
+  DOMINOS_RULESETS,
+  DOMINOS_SETS,
+  DOMINOS_TEAM_LABELS,
+  formatTarget,
+  getDefaultTarget,
+  getTileSet,
+} from '../../../utils/dominosLogic';
 import { AvatarDisplay } from '../../../utils/avatarUtils';
 import CustomAlert from '../../../components/common/CustomAlert';
 import { useCustomAlert } from '../../../hooks/useCustomAlert';
@@ -25,8 +36,10 @@ const { width, height } = Dimensions.get('window');
 interface DominosLobbyScreenProps {
   route: {
     params: {
-      gameId: string;
+      gameId?: string; // Absent en mode IA
       playerId: string;
+      mode?: 'online' | 'ai';
+      playerProfile?: PlayerProfile; // Mode IA
     };
   };
 }
@@ -34,18 +47,23 @@ interface DominosLobbyScreenProps {
 export const DominosLobbyScreen: React.FC<DominosLobbyScreenProps> = ({
   route,
 }) => {
-  const { gameId, playerId } = route.params;
+  const { gameId, playerId, mode = 'online', playerProfile } = route.params;
+  const isAIMode = mode === 'ai';
   const { user, currentTheme, navigateToScreen } = useApp();
   const styles = createStyles(currentTheme);
   const { alertConfig, isVisible, showAlert, hideAlert } = useCustomAlert();
 
   const [game, setGame] = useState<DominosGame | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(!isAIMode);
   const [isReady, setIsReady] = useState(false);
+  const [difficulty, setDifficulty] = useState<DominosAIDifficulty>('medium');
+  const [aiMaxValue, setAiMaxValue] = useState<DominosMaxValue>(DOMINOS_DEFAULT_MAX_VALUE);
 
   useEffect(() => {
+    if (isAIMode) return;
+
     const unsubscribe = DominosService.subscribeToGame(
-      gameId,
+      gameId!,
       (updatedGame) => {
         setGame(updatedGame);
         setLoading(false);
@@ -82,7 +100,7 @@ export const DominosLobbyScreen: React.FC<DominosLobbyScreenProps> = ({
     return () => {
       unsubscribe();
     };
-  }, [gameId, playerId]);
+  }, [gameId, playerId, isAIMode]);
 
   const handleShareCode = async () => {
     if (!game) return;
@@ -100,7 +118,7 @@ export const DominosLobbyScreen: React.FC<DominosLobbyScreenProps> = ({
     if (!game) return;
 
     try {
-      await DominosService.setPlayerReady(gameId, playerId, !isReady);
+      await DominosService.setPlayerReady(gameId!, playerId, !isReady);
     } catch (error: any) {
       console.error('Error toggling ready:', error);
       showAlert({
@@ -112,11 +130,39 @@ export const DominosLobbyScreen: React.FC<DominosLobbyScreenProps> = ({
     }
   };
 
+  const handleSwitchTeam = async (team: DominosTeam) => {
+    try {
+      await DominosService.setPlayerTeam(gameId!, playerId, team);
+    } catch (error: any) {
+      console.error('Error switching team:', error);
+      showAlert({
+        title: 'Erreur',
+        message: error.message || "Impossible de changer d'équipe",
+        type: 'error',
+        buttons: [{ text: 'OK', style: 'cancel' }],
+      });
+    }
+  };
+
+  const handleSelectTileSet = async (maxValue: DominosMaxValue) => {
+    try {
+      await DominosService.setTileSet(gameId!, playerId, maxValue);
+    } catch (error: any) {
+      console.error('Error selecting tile set:', error);
+      showAlert({
+        title: 'Erreur',
+        message: error.message || 'Impossible de changer de jeu',
+        type: 'error',
+        buttons: [{ text: 'OK', style: 'cancel' }],
+      });
+    }
+  };
+
   const handleStartGame = async () => {
     if (!game) return;
 
     try {
-      await DominosService.startGame(gameId, playerId);
+      await DominosService.startGame(gameId!, playerId);
     } catch (error: any) {
       console.error('Error starting game:', error);
       showAlert({
@@ -140,7 +186,7 @@ export const DominosLobbyScreen: React.FC<DominosLobbyScreenProps> = ({
           style: 'destructive',
           onPress: async () => {
             try {
-              await DominosService.leaveGame(gameId, playerId);
+              await DominosService.leaveGame(gameId!, playerId);
               navigateToScreen('dominosMenu' as any);
             } catch (error) {
               console.error('Error leaving game:', error);
@@ -151,6 +197,103 @@ export const DominosLobbyScreen: React.FC<DominosLobbyScreenProps> = ({
     });
   };
 
+  const handleStartAIGame = () => {
+    navigateToScreen('dominosGameLandscape' as any, {
+      mode: 'ai',
+      difficulty,
+      maxValue: aiMaxValue,
+      playerId,
+      playerProfile,
+    });
+  };
+
+  // Choix du jeu : modifiable par l'hôte (ou en mode IA), affiché aux autres
+  const renderTileSetPicker = (
+    selected: DominosMaxValue,
+    onSelect?: (maxValue: DominosMaxValue) => void
+  ) => (
+    <View style={styles.playersContainer}>
+      <Text style={styles.sectionTitle}>Jeu de dominos</Text>
+      <View style={styles.setOptions}>
+        {DOMINOS_SETS.map((set) => (
+          <TouchableOpacity
+            key={set.maxValue}
+            style={[styles.setOption, selected === set.maxValue && styles.setOptionActive]}
+            onPress={() => onSelect?.(set.maxValue)}
+            disabled={!onSelect}
+          >
+            <Text style={styles.setOptionText}>{set.label}</Text>
+            <Text style={styles.setOptionDetail}>
+              {set.tilesCount} tuiles • {set.handSize} en main
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  if (isAIMode) {
+    return (
+      <View style={styles.container}>
+        <StatusBar barStyle="light-content" translucent backgroundColor="transparent" />
+        <ImageBackground
+          source={getBackgroundSource(user)}
+          style={styles.backgroundImage}
+          resizeMode="cover"
+        >
+          <View style={styles.blurryOverlay}>
+            {/* Header */}
+            <View style={styles.header}>
+              <TouchableOpacity
+                style={styles.backButton}
+                onPress={() => navigateToScreen('dominosMenu' as any)}
+              >
+                <Foundation name="arrow-left" size={24} color={currentTheme.text.primary} />
+              </TouchableOpacity>
+
+              <Text style={styles.title}>Contre l'IA</Text>
+
+              <View style={styles.placeholder} />
+            </View>
+
+            <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+              <View style={styles.playersContainer}>
+                <Text style={styles.sectionTitle}>Difficulté</Text>
+
+                {DOMINOS_AI_DIFFICULTIES.map((level) => (
+                  <TouchableOpacity
+                    key={level.id}
+                    style={[
+                      styles.playerCard,
+                      difficulty === level.id && styles.difficultyCardActive,
+                    ]}
+                    onPress={() => setDifficulty(level.id)}
+                  >
+                    <View style={styles.playerDetails}>
+                      <Text style={styles.playerName}>{level.label}</Text>
+                      <Text style={styles.difficultyDescription}>{level.description}</Text>
+                    </View>
+                    {difficulty === level.id && (
+                      <Foundation name="check" size={24} color={currentTheme.romantic.primary} />
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {renderTileSetPicker(aiMaxValue, setAiMaxValue)}
+            </ScrollView>
+
+            <View style={styles.bottomContainer}>
+              <TouchableOpacity style={styles.startButton} onPress={handleStartAIGame}>
+                <Text style={styles.startButtonText}>Démarrer la partie</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </ImageBackground>
+      </View>
+    );
+  }
+
   if (loading) {
     return (
       <View style={styles.container}>
@@ -191,12 +334,54 @@ export const DominosLobbyScreen: React.FC<DominosLobbyScreenProps> = ({
     );
   }
 
+  const ruleset = game.ruleset || 'classic';
+  const tileSet = getTileSet(game.maxValue);
   const isHost = game.hostId === playerId;
+  const maxPlayers = game.maxPlayers || 2;
+  const isTeamGame = maxPlayers === 4;
   const currentPlayer = game.players?.find((p) => p.id === playerId);
-  const otherPlayer = game.players?.find((p) => p.id !== playerId);
-  const allReady = game.players?.length === 2 && game.players?.every((p) => p.isReady);
+  const otherPlayers = game.players?.filter((p) => p.id !== playerId) || [];
+  const teamsBalanced = !isTeamGame || game.players.filter((p) => p.team === 0).length === 2;
+  const allReady = game.players?.length === maxPlayers && teamsBalanced && game.players?.every((p) => p.isReady);
   const canStart = isHost && allReady;
 
+  const renderPlayerCard = (player: DominosPlayer) => (
+    <View key={player.id} style={styles.playerCard}>
+      <View style={styles.playerInfo}>
+        <View style={styles.playerAvatar}>
+          <AvatarDisplay
+            avatar={player.profile.avatar}
+            imageStyle={styles.playerAvatarImage}
+            textStyle={styles.playerAvatarEmoji}
+          />
+        </View>
+        <View style={styles.playerDetails}>
+          <Text style={styles.playerName}>
+            {player.profile.name}{player.id === playerId ? ' (Vous)' : ''}
+          </Text>
+          {game.hostId === player.id && (
+            <Text style={styles.hostBadge}>👑 Hôte</Text>
+          )}
+        </View>
+      </View>
+      <View
+        style={[
+          styles.readyBadge,
+          player.isReady && styles.readyBadgeActive,
+        ]}
+      >
+        <Text
+          style={[
+            styles.readyText,
+            player.isReady && styles.readyTextActive,
+          ]}
+        >
+          {player.isReady ? '✓ Prêt' : 'En attente'}
+        </Text>
+      </View>
+    </View>
+  );
+
   return (
     <View style={styles.container}>
       <StatusBar barStyle="light-content" translucent backgroundColor="transparent" />
@@ -229,107 +414,84 @@ export const DominosLobbyScreen: React.FC<DominosLobbyScreenProps> = ({
                   <Foundation name="share" size={24} color={currentTheme.romantic.primary} />
                 </TouchableOpacity>
               </View>
+              <Text style={styles.targetScoreText}>
+                Règles : {DOMINOS_RULESETS.find((option) => option.id === ruleset)?.label} •
+                Match en {formatTarget(game.targetScore ?? getDefaultTarget(ruleset), ruleset)}
+              </Text>
             </View>
 
             {/* Players */}
             <View style={styles.playersContainer}>
-              <Text style={styles.sectionTitle}>Joueurs ({game.players?.length || 0}/2)</Text>
-
-              {/* Current Player */}
-              {currentPlayer && (
-                <View style={styles.playerCard}>
-                  <View style={styles.playerInfo}>
-                    <View style={styles.playerAvatar}>
-                      <AvatarDisplay
-                        avatar={currentPlayer.profile.avatar}
-                        imageStyle={styles.playerAvatarImage}
-                        textStyle={styles.playerAvatarEmoji}
-                      />
-                    </View>
-                    <View style={styles.playerDetails}>
-                      <Text style={styles.playerName}>
-                        {currentPlayer.profile.name} (Vous)
-                      </Text>
-                      {isHost && (
-                        <Text style={styles.hostBadge}>👑 Hôte</Text>
-                      )}
-                    </View>
-                  </View>
-                  <View
-                    style={[
-                      styles.readyBadge,
-                      currentPlayer.isReady && styles.readyBadgeActive,
-                    ]}
-                  >
-                    <Text
-                      style={[
-                        styles.readyText,
-                        currentPlayer.isReady && styles.readyTextActive,
-                      ]}
-                    >
-                      {currentPlayer.isReady ? '✓ Prêt' : 'En attente'}
-                    </Text>
-                  </View>
-                </View>
-              )}
+              <Text style={styles.sectionTitle}>
+                Joueurs ({game.players?.length || 0}/{maxPlayers})
+              </Text>
 
-              {/* Other Player or Waiting */}
-              {otherPlayer ? (
-                <View style={styles.playerCard}>
-                  <View style={styles.playerInfo}>
-                    <View style={styles.playerAvatar}>
-                      <AvatarDisplay
-                        avatar={otherPlayer.profile.avatar}
-                        imageStyle={styles.playerAvatarImage}
-                        textStyle={styles.playerAvatarEmoji}
-                      />
-                    </View>
-                    <View style={styles.playerDetails}>
-                      <Text style={styles.playerName}>{otherPlayer.profile.name}</Text>
-                      {game.hostId === otherPlayer.id && (
-                        <Text style={styles.hostBadge}>👑 Hôte</Text>
-                      )}
+              {isTeamGame ? (
+                ([0, 1] as DominosTeam[]).map((team) => {
+                  const teamPlayers = game.players.filter((p) => p.team === team);
+                  return (
+                    <View key={team} style={styles.teamSection}>
+                      <View style={styles.teamHeader}>
+                        <Text style={styles.teamTitle}>{DOMINOS_TEAM_LABELS[team]}</Text>
+                        {currentPlayer?.team !== team && teamPlayers.length < 2 && (
+                          <TouchableOpacity onPress={() => handleSwitchTeam(team)}>
+                            <Text style={styles.teamSwitchText}>Rejoindre</Text>
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                      {teamPlayers.map(renderPlayerCard)}
+                      {Array.from({ length: 2 - teamPlayers.length }, (_, index) => (
+                        <View key={`empty-${team}-${index}`} style={styles.waitingCard}>
+                          <Text style={styles.waitingText}>Place libre</Text>
+                        </View>
+                      ))}
                     </View>
-                  </View>
-                  <View
-                    style={[
-                      styles.readyBadge,
-                      otherPlayer.isReady && styles.readyBadgeActive,
-                    ]}
-                  >
-                    <Text
-                      style={[
-                        styles.readyText,
-                        otherPlayer.isReady && styles.readyTextActive,
-                      ]}
-                    >
-                      {otherPlayer.isReady ? '✓ Prêt' : 'En attente'}
-                    </Text>
-                  </View>
-                </View>
+                  );
+                })
               ) : (
-                <View style={styles.waitingCard}>
-                  <ActivityIndicator
-                    size="small"
-                    color={currentTheme.text.secondary}
-                  />
-                  <Text style={styles.waitingText}>
-                    En attente d'un adversaire...
-                  </Text>
-                </View>
+                <>
+                  {currentPlayer && renderPlayerCard(currentPlayer)}
+                  {otherPlayers.map(renderPlayerCard)}
+                  {otherPlayers.length === 0 && (
+                    <View style={styles.waitingCard}>
+                      <ActivityIndicator
+                        size="small"
+                        color={currentTheme.text.secondary}
+                      />
+                      <Text style={styles.waitingText}>
+                        En attente d'un adversaire...
+                      </Text>
+                    </View>
+                  )}
+                </>
               )}
             </View>
 
+            {/* Tile Set */}
+            {renderTileSetPicker(tileSet.maxValue, isHost ? handleSelectTileSet : undefined)}
+
             {/* Game Rules */}
             <View style={styles.rulesContainer}>
               <Text style={styles.rulesTitle}>📖 Règles du jeu</Text>
-              <Text style={styles.rulesText}>
-                • 7 tuiles par joueur au début{'\n'}
-                • Placer les tuiles bout à bout{'\n'}
-                • Les numéros doivent correspondre{'\n'}
-                • Premier à poser toutes ses tuiles gagne{'\n'}
-                • Si blocage : moins de points gagne
-              </Text>
+              {ruleset === 'haitian' ? (
+                <Text style={styles.rulesText}>
+                  • {tileSet.handSize} tuiles par joueur, pas de pioche{'\n'}
+                  • La première manche s'ouvre au {tileSet.label.toLowerCase()}{'\n'}
+                  • Premier à poser toutes ses tuiles gagne la manche{'\n'}
+                  • Si blocage : moins de points gagne, égalité au bloqueur{'\n'}
+                  • Chaque manche gagnée vaut 1 point{'\n'}
+                  • Perdre le match sans une manche : kochon 🐷
+                </Text>
+              ) : (
+                <Text style={styles.rulesText}>
+                  • {tileSet.handSize} tuiles par joueur au début{'\n'}
+                  • Placer les tuiles bout à bout{'\n'}
+                  • Les numéros doivent correspondre{'\n'}
+                  • Premier à poser toutes ses tuiles gagne la manche{'\n'}
+                  • Si blocage : moins de points gagne{'\n'}
+                  • Le gagnant marque les points adverses
+                </Text>
+              )}
             </View>
           </ScrollView>
 
@@ -362,7 +524,7 @@ export const DominosLobbyScreen: React.FC<DominosLobbyScreenProps> = ({
               </TouchableOpacity>
             )}
 
-            {!isHost && game.players.length === 2 && (
+            {!isHost && game.players.length === maxPlayers && (
               <Text style={styles.waitingForHostText}>
                 En attente de l'hôte...
               </Text>
@@ -456,6 +618,12 @@ const createStyles = (theme: any) =>
       color: theme.text.primary,
       letterSpacing: 8,
     },
+    targetScoreText: {
+      fontSize: 14,
+      color: theme.text.secondary,
+      textAlign: 'center',
+      marginTop: 12,
+    },
     shareButton: {
       marginLeft: 16,
       padding: 8,
@@ -533,6 +701,61 @@ const createStyles = (theme: any) =>
     readyTextActive: {
       color: '#4CD964',
     },
+    difficultyCardActive: {
+      borderWidth: 2,
+      borderColor: theme.romantic.primary,
+    },
+    difficultyDescription: {
+      fontSize: 13,
+      color: theme.text.secondary,
+      marginTop: 4,
+    },
+    teamSection: {
+      marginBottom: 16,
+    },
+    teamHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    teamTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.text.primary,
+    },
+    teamSwitchText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.romantic.primary,
+    },
+    setOptions: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    setOption: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: 10,
+      paddingHorizontal: 4,
+      borderRadius: 12,
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+      borderWidth: 2,
+      borderColor: 'rgba(255, 255, 255, 0.2)',
+    },
+    setOptionActive: {
+      borderColor: theme.romantic.primary,
+    },
+    setOptionText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.text.primary,
+    },
+    setOptionDetail: {
+      fontSize: 11,
+      color: theme.text.secondary,
+      marginTop: 4,
+    },
     waitingCard: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -543,6 +766,7 @@ const createStyles = (theme: any) =>
       borderWidth: 2,
       borderStyle: 'dashed',
       borderColor: 'rgba(255, 255, 255, 0.2)',
+      marginBottom: 12,
     },
     waitingText: {
       fontSize: 14,
@@ -9,18 +9,59 @@ import {
   Dimensions,
   TextInput,
   ActivityIndicator,
+  ScrollView,
 } from 'react-native';
 import Foundation from 'react-native-vector-icons/Foundation';
 import { useApp } from '../../../context/AppContext';
 import { getBackgroundSource } from '../../../utils/backgroundUtils';
 import { DominosService } from '../../../services/dominos/DominosService';
 import { PlayerProfile } from '../../../types/wordSearch.types';
+import { User } from '../../../types';
+import { DominosRuleset } from '../../../types/dominos.types';
+import {
+  DOMINOS_RULESETS,
+  formatTarget,
+  getDefaultTarget,
+  getTargetOptions,
+} from '../../../utils/dominosLogic';
 import CustomAlert from '../../../components/common/CustomAlert';
 import { useCustomAlert } from '../../../hooks/useCustomAlert';
 import auth from '@react-native-firebase/auth';
 
 const { width, height } = Dimensions.get('window');
 
+/**
+ * Profil de joueur Dominos à partir de l'utilisateur connecté
+ */
+const buildPlayerProfile = (user: User): PlayerProfile => ({
+  id: user.id,
+  name: user.name || 'Joueur',
+  avatar: {
+    type: (user.profilePicture?.startsWith('http') || user.profilePicture?.startsWith('file://') ? 'photo' : 'emoji') as 'emoji' | 'photo',
+    value: user.profilePicture || '👤',
+  },
+  level: 1,
+  xp: 0,
+  coins: 0,
+  stats: {
+    gamesPlayed: 0,
+    gamesWon: 0,
+    totalScore: 0,
+    bestScore: 0,
+    winStreak: 0,
+    bestWinStreak: 0,
+  },
+  unlockedThemes: [],
+  unlockedAvatars: [],
+  completedLevels: [],
+  powerUps: {
+    hint: 0,
+    shuffle: 0,
+    freeze: 0,
+  },
+  createdAt: Date.now(),
+});
+
 export const DominosMenuScreen: React.FC<any> = ({ navigation }) => {
   const { user, currentTheme, navigateToScreen } = useApp();
   const styles = createStyles(currentTheme);
@@ -28,6 +69,14 @@ export const DominosMenuScreen: React.FC<any> = ({ navigation }) => {
 
   const [roomCode, setRoomCode] = useState('');
   const [loading, setLoading] = useState(false);
+  const [ruleset, setRuleset] = useState<DominosRuleset>('classic');
+  const [targetScore, setTargetScore] = useState(getDefaultTarget('classic'));
+  const [maxPlayers, setMaxPlayers] = useState<2 | 4>(2);
+
+  const handleSelectRuleset = (nextRuleset: DominosRuleset) => {
+    setRuleset(nextRuleset);
+    setTargetScore(getDefaultTarget(nextRuleset));
+  };
 
   const handleCreateGame = async () => {
     console.log('handleCreateGame called, user:', user);
@@ -46,37 +95,10 @@ export const DominosMenuScreen: React.FC<any> = ({ navigation }) => {
         console.log('Anonymous sign-in successful');
       }
 
-      const playerProfile: PlayerProfile = {
-        id: user.id,
-        name: user.name || 'Joueur',
-        avatar: {
-          type: (user.profilePicture?.startsWith('http') || user.profilePicture?.startsWith('file://') ? 'photo' : 'emoji') as 'emoji' | 'photo',
-          value: user.profilePicture || '👤',
-        },
-        level: 1,
-        xp: 0,
-        coins: 0,
-        stats: {
-          gamesPlayed: 0,
-          gamesWon: 0,
-          totalScore: 0,
-          bestScore: 0,
-          winStreak: 0,
-          bestWinStreak: 0,
-        },
-        unlockedThemes: [],
-        unlockedAvatars: [],
-        completedLevels: [],
-        powerUps: {
-          hint: 0,
-          shuffle: 0,
-          freeze: 0,
-        },
-        createdAt: Date.now(),
-      };
+      const playerProfile = buildPlayerProfile(user);
 
       console.log('Creating dominos game with profile:', playerProfile);
-      const gameId = await DominosService.createGame(playerProfile);
+      const gameId = await DominosService.createGame(playerProfile, targetScore, ruleset, maxPlayers);
       navigateToScreen('dominosLobby' as any, { gameId, playerId: user.id });
     } catch (error: any) {
       console.error('Error creating dominos game:', error);
@@ -91,6 +113,17 @@ export const DominosMenuScreen: React.FC<any> = ({ navigation }) => {
     }
   };
 
+  const handlePlayAI = () => {
+    if (!user || !user.id) return;
+
+    // Partie locale : pas de connexion Firebase nécessaire
+    navigateToScreen('dominosLobby' as any, {
+      mode: 'ai',
+      playerId: user.id,
+      playerProfile: buildPlayerProfile(user),
+    });
+  };
+
   const handleJoinGame = async () => {
     if (!user || !roomCode.trim()) {
       showAlert({
@@ -112,34 +145,7 @@ export const DominosMenuScreen: React.FC<any> = ({ navigation }) => {
         console.log('Anonymous sign-in successful');
       }
 
-      const playerProfile: PlayerProfile = {
-        id: user.id,
-        name: user.name || 'Joueur',
-        avatar: {
-          type: (user.profilePicture?.startsWith('http') || user.profilePicture?.startsWith('file://') ? 'photo' : 'emoji') as 'emoji' | 'photo',
-          value: user.profilePicture || '👤',
-        },
-        level: 1,
-        xp: 0,
-        coins: 0,
-        stats: {
-          gamesPlayed: 0,
-          gamesWon: 0,
-          totalScore: 0,
-          bestScore: 0,
-          winStreak: 0,
-          bestWinStreak: 0,
-        },
-        unlockedThemes: [],
-        unlockedAvatars: [],
-        completedLevels: [],
-        powerUps: {
-          hint: 0,
-          shuffle: 0,
-          freeze: 0,
-        },
-        createdAt: Date.now(),
-      };
+      const playerProfile = buildPlayerProfile(user);
 
       const gameId = await DominosService.joinGameByCode(
         roomCode.toUpperCase(),
@@ -189,16 +195,72 @@ export const DominosMenuScreen: React.FC<any> = ({ navigation }) => {
           </View>
 
           {/* Content */}
-          <View style={styles.content}>
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
             {/* Game Icon */}
             <View style={styles.iconContainer}>
               <Foundation name="puzzle" size={80} color={currentTheme.romantic.primary} />
               <Text style={styles.subtitle}>Jeu de Dominos classique</Text>
               <Text style={styles.description}>
-                2 joueurs • 28 tuiles • Double-six
+                2 ou 4 joueurs • Double-six, double-neuf ou double-douze
               </Text>
             </View>
 
+            {/* Seats */}
+            <View style={styles.targetSection}>
+              <Text style={styles.joinLabel}>Joueurs</Text>
+              <View style={styles.targetOptions}>
+                {([2, 4] as const).map((count) => (
+                  <TouchableOpacity
+                    key={count}
+                    style={[styles.targetOption, maxPlayers === count && styles.targetOptionActive]}
+                    onPress={() => setMaxPlayers(count)}
+                    disabled={loading}
+                  >
+                    <Text style={styles.targetOptionText}>
+                      {count === 4 ? '2 contre 2' : '1 contre 1'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {/* Ruleset */}
+            <View style={styles.targetSection}>
+              <Text style={styles.joinLabel}>Règles</Text>
+              <View style={styles.targetOptions}>
+                {DOMINOS_RULESETS.map((option) => (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[styles.targetOption, ruleset === option.id && styles.targetOptionActive]}
+                    onPress={() => handleSelectRuleset(option.id)}
+                    disabled={loading}
+                  >
+                    <Text style={styles.targetOptionText}>{option.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.rulesetDescription}>
+                {DOMINOS_RULESETS.find((option) => option.id === ruleset)?.description}
+              </Text>
+            </View>
+
+            {/* Match Target */}
+            <View style={styles.targetSection}>
+              <Text style={styles.joinLabel}>Match en</Text>
+              <View style={styles.targetOptions}>
+                {getTargetOptions(ruleset).map((score) => (
+                  <TouchableOpacity
+                    key={score}
+                    style={[styles.targetOption, targetScore === score && styles.targetOptionActive]}
+                    onPress={() => setTargetScore(score)}
+                    disabled={loading}
+                  >
+                    <Text style={styles.targetOptionText}>{formatTarget(score, ruleset)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
             {/* Create Game Button */}
             <TouchableOpacity
               style={[styles.button, styles.createButton]}
@@ -215,6 +277,16 @@ export const DominosMenuScreen: React.FC<any> = ({ navigation }) => {
               )}
             </TouchableOpacity>
 
+            {/* Play vs AI Button */}
+            <TouchableOpacity
+              style={[styles.button, styles.aiButton]}
+              onPress={handlePlayAI}
+              disabled={loading}
+            >
+              <Foundation name="laptop" size={24} color="#FFFFFF" />
+              <Text style={styles.buttonText}>Jouer contre l'IA</Text>
+            </TouchableOpacity>
+
             {/* Join Game Section */}
             <View style={styles.joinSection}>
               <Text style={styles.joinLabel}>Rejoindre une partie</Text>
@@ -246,11 +318,12 @@ export const DominosMenuScreen: React.FC<any> = ({ navigation }) => {
                 • 7 tuiles par joueur au début{'\n'}
                 • Placer les tuiles bout à bout{'\n'}
                 • Les numéros doivent correspondre{'\n'}
-                • Premier à poser toutes ses tuiles gagne{'\n'}
-                • Si blocage : moins de points gagne
+                • Premier à poser toutes ses tuiles gagne la manche{'\n'}
+                • Si blocage : moins de points gagne{'\n'}
+                • Le gagnant marque les points adverses
               </Text>
             </View>
-          </View>
+          </ScrollView>
         </View>
       </ImageBackground>
 
@@ -342,11 +415,43 @@ const createStyles = (theme: any) =>
     createButton: {
       backgroundColor: theme.romantic.primary,
     },
+    aiButton: {
+      backgroundColor: theme.romantic.secondary,
+    },
     buttonText: {
       fontSize: 18,
       fontWeight: 'bold',
       color: '#FFFFFF',
     },
+    targetSection: {
+      marginBottom: 16,
+    },
+    targetOptions: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    targetOption: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: 10,
+      borderRadius: 12,
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+      borderWidth: 2,
+      borderColor: 'rgba(255, 255, 255, 0.2)',
+    },
+    targetOptionActive: {
+      borderColor: theme.romantic.primary,
+    },
+    targetOptionText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: theme.text.primary,
+    },
+    rulesetDescription: {
+      fontSize: 12,
+      color: theme.text.secondary,
+      marginTop: 8,
+    },
     joinSection: {
       marginBottom: 24,
     },
@@ -389,6 +494,7 @@ const createStyles = (theme: any) =>
       padding: 20,
       borderWidth: 1,
       borderColor: 'rgba(255, 255, 255, 0.2)',
+      marginBottom: 40,
     },
     rulesTitle: {
       fontSize: 16,
@@ -8,6 +8,7 @@ import {
   StatusBar,
   Dimensions,
   ActivityIndicator,
+  ScrollView,
 } from 'react-native';
 import Foundation from 'react-native-vector-icons/Foundation';
 import { useApp } from '../../../context/AppContext';
@@ -15,7 +16,12 @@ import { getBackgroundSource } from '../../../utils/backgroundUtils';
 import { DominosService } from '../../../services/dominos/DominosService';
 import { DominosStatsService } from '../../../services/dominos/DominosStatsService';
 import { DominosGame } from '../../../types/dominos.types';
-import { calculateScore } from '../../../utils/dominosLogic';
+import {
+  calculateScore,
+  formatTarget,
+  getOpponents,
+  isSameSide,
+} from '../../../utils/dominosLogic';
 import { AvatarDisplay } from '../../../utils/avatarUtils';
 import CustomAlert from '../../../components/common/CustomAlert';
 import { useCustomAlert } from '../../../hooks/useCustomAlert';
@@ -111,9 +117,11 @@ export const DominosResultsScreen: React.FC<DominosResultsScreenProps> = ({
   }
 
   const winner = game.players.find((p) => p.id === game.winnerId);
-  const isWinner = game.winnerId === playerId;
+  // Deux contre deux : la victoire du partenaire est celle de l'équipe
+  const isWinner = !!game.winnerId && isSameSide(game.players, playerId, game.winnerId);
+  const isTeamGame = game.players.length === 4;
   const currentPlayer = game.players.find((p) => p.id === playerId);
-  const opponent = game.players.find((p) => p.id !== playerId);
+  const opponent = getOpponents(game.players, playerId)[0];
 
   const getWinReasonText = () => {
     const gameTime = game.completedAt && game.startedAt
@@ -124,18 +132,24 @@ export const DominosResultsScreen: React.FC<DominosResultsScreenProps> = ({
 
     switch (game.winReason) {
       case 'emptied_hand':
-        if (isWinner) {
+        if (game.winnerId === playerId) {
           return minutes > 5
             ? `Victoire écrasante ! Vous avez posé toutes vos tuiles en ${minutes} minutes`
             : `Victoire rapide ! Toutes vos tuiles posées en seulement ${minutes}:${seconds.toString().padStart(2, '0')} !`;
         }
+        if (isWinner) {
+          return `${winner?.profile.name} a posé toutes ses tuiles : victoire de l'équipe !`;
+        }
         return `${winner?.profile.name} a posé toutes ses tuiles avant vous...`;
       case 'lowest_score':
-        if (isWinner) {
+        if (game.winnerId === playerId) {
           return player1Score < 5
             ? 'Victoire stratégique ! Presque aucun point restant !'
             : `Jeu bloqué - Victoire au score (${player1Score} points)`;
         }
+        if (isWinner) {
+          return `Jeu bloqué - ${winner?.profile.name} avait moins de points : victoire de l'équipe !`;
+        }
         return `Jeu bloqué - ${winner?.profile.name} avait moins de points`;
       case 'opponent_left':
         return "Victoire par forfait - Votre adversaire a quitté";
@@ -144,8 +158,20 @@ export const DominosResultsScreen: React.FC<DominosResultsScreenProps> = ({
     }
   };
 
-  const player1Score = currentPlayer ? calculateScore(currentPlayer.hand) : 0;
-  const player2Score = opponent ? calculateScore(opponent.hand) : 0;
+  // Les mains ne sont révélées qu'en fin de partie (absentes en cas d'abandon)
+  const getFinalHand = (id: string) => game.finalHands?.[id] || [];
+  const player1Score = currentPlayer ? calculateScore(getFinalHand(currentPlayer.id)) : 0;
+  // Récapitulatif : soi d'abord, puis les autres places
+  const summaryPlayers = [
+    ...(currentPlayer ? [currentPlayer] : []),
+    ...game.players.filter((p) => p.id !== playerId),
+  ];
+
+  // Match en plusieurs manches (absent des parties créées avant le mode match)
+  const isMatch = !!game.targetScore;
+  const rounds = game.rounds || [];
+  const ruleset = game.ruleset || 'classic';
+  const kochonIds = game.kochonIds || [];
 
   return (
     <View style={styles.container}>
@@ -163,7 +189,7 @@ export const DominosResultsScreen: React.FC<DominosResultsScreenProps> = ({
           </View>
 
           {/* Content */}
-          <View style={styles.content}>
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
             {/* Winner Announcement */}
             <View style={styles.winnerContainer}>
               <Text style={styles.resultEmoji}>{isWinner ? '🏆' : '😊'}</Text>
@@ -171,6 +197,17 @@ export const DominosResultsScreen: React.FC<DominosResultsScreenProps> = ({
                 {isWinner ? 'Victoire !' : 'Défaite'}
               </Text>
               <Text style={styles.winReason}>{getWinReasonText()}</Text>
+              {kochonIds.length > 0 && (
+                <View style={styles.kochonBanner}>
+                  <Text style={styles.kochonText}>
+                    {kochonIds.includes(playerId)
+                      ? `🐷 Kochon ! ${isTeamGame ? "Votre équipe n'a" : "Vous n'avez"} gagné aucune manche`
+                      : isTeamGame
+                        ? "🐷 Kochon ! L'équipe adverse n'a gagné aucune manche"
+                        : `🐷 Kochon ! ${opponent?.profile.name} n'a gagné aucune manche`}
+                  </Text>
+                </View>
+              )}
             </View>
 
             {/* Winner Card */}
@@ -188,57 +225,81 @@ export const DominosResultsScreen: React.FC<DominosResultsScreenProps> = ({
                 </View>
                 <Text style={styles.playerResultName}>{winner.profile.name}</Text>
                 <Text style={styles.playerScore}>
-                  Score: {winner.id === currentPlayer?.id ? player1Score : player2Score} points
+                  {isMatch
+                    ? `Match : ${winner.score} / ${formatTarget(game.targetScore!, ruleset)}`
+                    : `Score: ${calculateScore(getFinalHand(winner.id))} points`}
                 </Text>
                 <Text style={styles.playerTiles}>
-                  {winner.hand.length} tuiles restantes
+                  {winner.tilesCount} tuiles restantes
                 </Text>
               </View>
             )}
 
-            {/* Scores Summary */}
-            <View style={styles.scoresContainer}>
-              <Text style={styles.scoresTitle}>Récapitulatif</Text>
+            {/* Match Scoreboard */}
+            {isMatch && currentPlayer && opponent && (
+              <View style={styles.scoresContainer}>
+                <Text style={styles.scoresTitle}>Tableau du match</Text>
 
-              {currentPlayer && (
-                <View style={styles.scoreRow}>
-                  <View style={styles.scorePlayerInfo}>
-                    <View style={styles.scoreAvatar}>
-                      <AvatarDisplay
-                        avatar={currentPlayer.profile.avatar}
-                        imageStyle={styles.scoreAvatarImage}
-                        textStyle={styles.scoreAvatarEmoji}
-                      />
-                    </View>
-                    <Text style={styles.scorePlayerName}>
-                      {currentPlayer.profile.name}
+                <View style={styles.roundRow}>
+                  <Text style={styles.roundLabel} />
+                  <Text style={styles.roundHeader} numberOfLines={1}>
+                    {isTeamGame ? 'Votre équipe' : currentPlayer.profile.name}
+                  </Text>
+                  <Text style={styles.roundHeader} numberOfLines={1}>
+                    {isTeamGame ? 'Adversaires' : opponent.profile.name}
+                  </Text>
+                </View>
+
+                {rounds.map((round) => (
+                  <View key={round.roundNumber} style={styles.roundRow}>
+                    <Text style={styles.roundLabel}>
+                      Manche {round.roundNumber}
+                      {round.winReason === 'lowest_score' ? ' 🔒' : ''}
+                    </Text>
+                    <Text style={styles.roundPoints}>
+                      {isSameSide(game.players, playerId, round.winnerId) ? `+${round.points}` : '-'}
+                    </Text>
+                    <Text style={styles.roundPoints}>
+                      {isSameSide(game.players, opponent.id, round.winnerId) ? `+${round.points}` : '-'}
                     </Text>
                   </View>
-                  <View style={styles.scoreValues}>
-                    <Text style={styles.scoreText}>{player1Score} pts</Text>
-                    <Text style={styles.tilesText}>{currentPlayer.hand.length} tuiles</Text>
-                  </View>
+                ))}
+
+                <View style={[styles.roundRow, styles.roundTotalRow]}>
+                  <Text style={styles.roundLabel}>Total / {formatTarget(game.targetScore!, ruleset)}</Text>
+                  <Text style={styles.roundTotal}>{currentPlayer.score}</Text>
+                  <Text style={styles.roundTotal}>{opponent.score}</Text>
                 </View>
-              )}
+              </View>
+            )}
 
-              {opponent && (
-                <View style={styles.scoreRow}>
+            {/* Scores Summary */}
+            <View style={styles.scoresContainer}>
+              <Text style={styles.scoresTitle}>{isMatch ? 'Dernière manche' : 'Récapitulatif'}</Text>
+
+              {summaryPlayers.map((player) => (
+                <View key={player.id} style={styles.scoreRow}>
                   <View style={styles.scorePlayerInfo}>
                     <View style={styles.scoreAvatar}>
                       <AvatarDisplay
-                        avatar={opponent.profile.avatar}
+                        avatar={player.profile.avatar}
                         imageStyle={styles.scoreAvatarImage}
                         textStyle={styles.scoreAvatarEmoji}
                       />
                     </View>
-                    <Text style={styles.scorePlayerName}>{opponent.profile.name}</Text>
+                    <Text style={styles.scorePlayerName}>
+                      {player.profile.name}
+                      {isTeamGame && player.id !== playerId && isSameSide(game.players, playerId, player.id)
+                        ? ' 🤝'
+                        : ''}
+                    </Text>
                   </View>
                   <View style={styles.scoreValues}>
-                    <Text style={styles.scoreText}>{player2Score} pts</Text>
-                    <Text style={styles.tilesText}>{opponent.hand.length} tuiles</Text>
+                    <Text style={styles.scoreText}>{calculateScore(getFinalHand(player.id))} pts</Text>
+                    <Text style={styles.tilesText}>{player.tilesCount} tuiles</Text>
                   </View>
                 </View>
-              )}
+              ))}
             </View>
 
             {/* Game Stats */}
@@ -263,7 +324,7 @@ export const DominosResultsScreen: React.FC<DominosResultsScreenProps> = ({
                 </View>
               </View>
             </View>
-          </View>
+          </ScrollView>
 
           {/* Bottom Actions */}
           <View style={styles.bottomContainer}>
@@ -351,6 +412,19 @@ const createStyles = (theme: any) =>
       color: theme.text.secondary,
       textAlign: 'center',
     },
+    kochonBanner: {
+      backgroundColor: 'rgba(255, 182, 193, 0.25)',
+      borderRadius: 12,
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+      marginTop: 12,
+    },
+    kochonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.text.primary,
+      textAlign: 'center',
+    },
     playerResultCard: {
       backgroundColor: 'rgba(255, 255, 255, 0.1)',
       borderRadius: 16,
@@ -465,6 +539,41 @@ const createStyles = (theme: any) =>
       color: theme.text.secondary,
       marginTop: 2,
     },
+    roundRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+    },
+    roundTotalRow: {
+      borderBottomWidth: 0,
+    },
+    roundLabel: {
+      flex: 2,
+      fontSize: 14,
+      color: theme.text.secondary,
+    },
+    roundHeader: {
+      flex: 1,
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.text.primary,
+      textAlign: 'center',
+    },
+    roundPoints: {
+      flex: 1,
+      fontSize: 14,
+      color: theme.text.primary,
+      textAlign: 'center',
+    },
+    roundTotal: {
+      flex: 1,
+      fontSize: 16,
+      fontWeight: 'bold',
+      color: theme.text.primary,
+      textAlign: 'center',
+    },
     statsContainer: {
       backgroundColor: 'rgba(255, 255, 255, 0.1)',
       borderRadius: 16,
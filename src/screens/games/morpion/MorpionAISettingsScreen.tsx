@@ -17,6 +17,7 @@ import { getBackgroundSource } from '../../../utils/backgroundUtils';
 import { AIDifficulty, AIPersonality } from '../../../types/games';
 import { MorpionAIService } from '../../../services/MorpionAIService';
 import SoundService from '../../../services/SoundService';
+import { GomokuRules, MorpionVariant } from '../../../utils/gomokuLogic';
 
 const { width, height } = Dimensions.get('window');
 
@@ -45,6 +46,8 @@ interface MorpionAISettingsScreenProps {
       playerName?: string;
       boardSize?: number;
       winCondition?: number;
+      variant?: MorpionVariant;
+      gomokuRules?: GomokuRules;
     };
   };
 }
@@ -54,6 +57,8 @@ const MorpionAISettingsScreen: React.FC<MorpionAISettingsScreenProps> = ({ route
   const styles = createStyles(currentTheme);
   const boardSize = route?.params?.boardSize || 3;
   const winCondition = route?.params?.winCondition || 3;
+  const variant = route?.params?.variant || 'classic';
+  const gomokuRules = route?.params?.gomokuRules;
   const playerName = route?.params?.playerName || user?.name || 'Joueur 1';
 
   // State
@@ -165,6 +170,9 @@ const MorpionAISettingsScreen: React.FC<MorpionAISettingsScreenProps> = ({ route
       playerName,
       boardSize,
       winCondition,
+      variant,
+      // Pas d'ouverture swap2 contre l'IA : elle ne sait pas choisir sa couleur
+      gomokuRules: gomokuRules && { ...gomokuRules, openingRule: 'standard' },
     });
   };
 
@@ -174,6 +182,8 @@ const MorpionAISettingsScreen: React.FC<MorpionAISettingsScreenProps> = ({ route
       playerName,
       boardSize,
       winCondition,
+      variant,
+      gomokuRules,
     });
   };
 
@@ -9,12 +9,20 @@ import {
   Dimensions,
   Animated,
   ScrollView,
+  Switch,
 } from 'react-native';
 import Foundation from 'react-native-vector-icons/Foundation';
 import { BlurView } from '@react-native-community/blur';
 import { useApp } from '../../../context/AppContext';
 import { getBackgroundSource } from '../../../utils/backgroundUtils';
 import SoundService from '../../../services/SoundService';
+import {
+  DEFAULT_GOMOKU_RULES,
+  GOMOKU_BOARD_SIZE,
+  GOMOKU_WIN_LENGTH,
+  GomokuRules,
+  MorpionVariant,
+} from '../../../utils/gomokuLogic';
 
 const { width, height } = Dimensions.get('window');
 
@@ -26,6 +34,7 @@ interface BoardSizeOption {
   difficulty: string;
   color: string;
   icon: string;
+  variant?: MorpionVariant;
 }
 
 interface MorpionBoardSizeScreenProps {
@@ -42,6 +51,7 @@ const MorpionBoardSizeScreen: React.FC<MorpionBoardSizeScreenProps> = ({ route }
   const playerName = route?.params?.playerName || user?.name || 'Joueur 1';
 
   const [selectedSize, setSelectedSize] = useState<BoardSizeOption | null>(null);
+  const [gomokuRules, setGomokuRules] = useState<GomokuRules>(DEFAULT_GOMOKU_RULES);
   const [fadeAnim] = useState(new Animated.Value(0));
   const [slideAnim] = useState(new Animated.Value(30));
 
@@ -82,6 +92,16 @@ const MorpionBoardSizeScreen: React.FC<MorpionBoardSizeScreenProps> = ({ route }
       color: '#9C27B0',
       icon: 'page-copy',
     },
+    {
+      size: GOMOKU_BOARD_SIZE,
+      title: '15x15 Gomoku',
+      description: 'Le grand classique japonais : cinq pierres alignées sur un plateau géant',
+      winCondition: GOMOKU_WIN_LENGTH,
+      difficulty: 'Légendaire',
+      color: '#00BCD4',
+      icon: 'social-myspace',
+      variant: 'gomoku',
+    },
   ];
 
   useEffect(() => {
@@ -113,6 +133,8 @@ const MorpionBoardSizeScreen: React.FC<MorpionBoardSizeScreenProps> = ({ route }
       playerName,
       boardSize: selectedSize.size,
       winCondition: selectedSize.winCondition,
+      variant: selectedSize.variant || 'classic',
+      ...(selectedSize.variant === 'gomoku' ? { gomokuRules } : {}),
     });
   };
 
@@ -129,7 +151,7 @@ const MorpionBoardSizeScreen: React.FC<MorpionBoardSizeScreenProps> = ({ route }
       <View style={styles.boardPreview}>
         {Array.from({ length: size }).map((_, row) => (
           <View key={row} style={styles.previewRow}>
-            {Array.from({ length: size }).map((_, col) => (
+            {Array.from({ length: size }).map((__, col) => (
               <View
                 key={`${row}-${col}`}
                 style={[
@@ -204,11 +226,46 @@ const MorpionBoardSizeScreen: React.FC<MorpionBoardSizeScreenProps> = ({ route }
               </Text>
             </View>
           </View>
+
+          {option.variant === 'gomoku' && selectedSize?.size === option.size && renderGomokuRules()}
         </View>
       </View>
     </TouchableOpacity>
   );
 
+  const renderGomokuRules = () => (
+    <View style={styles.rulesContainer}>
+      <View style={styles.ruleRow}>
+        <View style={styles.ruleInfo}>
+          <Text style={styles.ruleTitle}>Exactement cinq</Text>
+          <Text style={styles.ruleDescription}>Une ligne de six ou plus ne compte pas</Text>
+        </View>
+        <Switch
+          value={gomokuRules.exactlyFive}
+          onValueChange={(value) => setGomokuRules(prev => ({ ...prev, exactlyFive: value }))}
+          trackColor={{ false: '#767577', true: currentTheme.romantic.primary }}
+          thumbColor={gomokuRules.exactlyFive ? '#ffffff' : '#f4f3f4'}
+        />
+      </View>
+      <View style={styles.ruleRow}>
+        <View style={styles.ruleInfo}>
+          <Text style={styles.ruleTitle}>Ouverture swap2</Text>
+          <Text style={styles.ruleDescription}>
+            Équilibre la partie : l'adversaire choisit sa couleur après l'ouverture (à deux uniquement)
+          </Text>
+        </View>
+        <Switch
+          value={gomokuRules.openingRule === 'swap2'}
+          onValueChange={(value) =>
+            setGomokuRules(prev => ({ ...prev, openingRule: value ? 'swap2' : 'standard' }))
+          }
+          trackColor={{ false: '#767577', true: currentTheme.romantic.primary }}
+          thumbColor={gomokuRules.openingRule === 'swap2' ? '#ffffff' : '#f4f3f4'}
+        />
+      </View>
+    </View>
+  );
+
   return (
     <View style={styles.container}>
       <StatusBar barStyle="light-content" translucent backgroundColor="transparent" />
@@ -469,6 +526,31 @@ const createStyles = (theme: any) =>
       fontSize: 12,
       fontWeight: '600',
     },
+    rulesContainer: {
+      marginTop: 16,
+      paddingTop: 16,
+      borderTopWidth: 1,
+      borderTopColor: 'rgba(255, 255, 255, 0.2)',
+      gap: 16,
+    },
+    ruleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    ruleInfo: {
+      flex: 1,
+    },
+    ruleTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: '#FFFFFF',
+    },
+    ruleDescription: {
+      fontSize: 12,
+      color: 'rgba(255, 255, 255, 0.7)',
+      marginTop: 2,
+    },
     continueContainer: {
       position: 'absolute',
       bottom: 0,
@@ -11,6 +11,7 @@ import {
   Animated,
   Modal,
   TextInput,
+  Switch,
 } from 'react-native';
 import Foundation from 'react-native-vector-icons/Foundation';
 import { BlurView } from '@react-native-community/blur';
@@ -20,6 +21,8 @@ import SoundService from '../../../services/SoundService';
 import { MorpionService } from '../../../services/MorpionService';
 import CustomAlert from '../../../components/common/CustomAlert';
 import { useCustomAlert } from '../../../hooks/useCustomAlert';
+import { GomokuRules, MorpionVariant } from '../../../utils/gomokuLogic';
+import { ULTIMATE_BOARD_SIZE, ULTIMATE_SUB_SIZE } from '../../../utils/ultimateLogic';
 
 const { width, height } = Dimensions.get('window');
 
@@ -42,6 +45,8 @@ interface MorpionGameModeScreenProps {
       playerName?: string;
       boardSize?: number;
       winCondition?: number;
+      variant?: MorpionVariant;
+      gomokuRules?: GomokuRules;
     };
   };
 }
@@ -50,8 +55,15 @@ const MorpionGameModeScreen: React.FC<MorpionGameModeScreenProps> = ({ route })
   const { user, currentTheme, navigateToScreen } = useApp();
   const { alertConfig, isVisible, showAlert, hideAlert } = useCustomAlert();
   const styles = createStyles(currentTheme);
-  const boardSize = route?.params?.boardSize || 3;
-  const winCondition = route?.params?.winCondition || 3;
+  const routeVariant = route?.params?.variant || 'classic';
+  const gomokuRules = route?.params?.gomokuRules;
+
+  // Ultimate is built from 3x3 grids: offered when the classic 3x3 board was chosen
+  const canPlayUltimate = routeVariant === 'ultimate' || (routeVariant === 'classic' && (route?.params?.boardSize || 3) === 3);
+  const [ultimateEnabled, setUltimateEnabled] = useState(routeVariant === 'ultimate');
+  const variant: MorpionVariant = ultimateEnabled ? 'ultimate' : routeVariant === 'ultimate' ? 'classic' : routeVariant;
+  const boardSize = ultimateEnabled ? ULTIMATE_BOARD_SIZE : routeVariant === 'ultimate' ? 3 : route?.params?.boardSize || 3;
+  const winCondition = ultimateEnabled ? ULTIMATE_SUB_SIZE : route?.params?.winCondition || 3;
   const playerName = route?.params?.playerName || user?.name || 'Joueur 1';
 
   // State
@@ -160,6 +172,8 @@ const MorpionGameModeScreen: React.FC<MorpionGameModeScreenProps> = ({ route })
           playerName,
           boardSize,
           winCondition,
+          variant,
+          gomokuRules,
         });
         break;
       case 'multiplayer':
@@ -167,6 +181,8 @@ const MorpionGameModeScreen: React.FC<MorpionGameModeScreenProps> = ({ route })
           playerName,
           boardSize,
           winCondition,
+          variant,
+          gomokuRules,
         });
         break;
       case 'tournament':
@@ -176,6 +192,8 @@ const MorpionGameModeScreen: React.FC<MorpionGameModeScreenProps> = ({ route })
           playerName,
           boardSize,
           winCondition,
+          variant,
+          gomokuRules,
         });
         break;
     }
@@ -358,6 +376,27 @@ const MorpionGameModeScreen: React.FC<MorpionGameModeScreenProps> = ({ route })
                 </Text>
               </View>
 
+              {/* Ultimate variant */}
+              {canPlayUltimate && (
+                <View style={styles.variantCard}>
+                  <View style={styles.variantInfo}>
+                    <Text style={styles.variantTitle}>Mode Ultimate</Text>
+                    <Text style={styles.variantDescription}>
+                      Neuf petites grilles : la case jouée envoie l'adversaire dans la grille correspondante
+                    </Text>
+                  </View>
+                  <Switch
+                    value={ultimateEnabled}
+                    onValueChange={(value) => {
+                      SoundService.playButtonClick();
+                      setUltimateEnabled(value);
+                    }}
+                    trackColor={{ false: '#767577', true: currentTheme.romantic.primary }}
+                    thumbColor={ultimateEnabled ? '#ffffff' : '#f4f3f4'}
+                  />
+                </View>
+              )}
+
               {/* Game Modes */}
               <View style={styles.modesContainer}>
                 {gameModes.map((mode, index) => renderGameModeCard(mode, index))}
@@ -543,6 +582,31 @@ const createStyles = (theme: any) => StyleSheet.create({
     textAlign: 'center',
     lineHeight: 22,
   },
+  variantCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    marginBottom: 20,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  variantInfo: {
+    flex: 1,
+  },
+  variantTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  variantDescription: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.7)',
+    marginTop: 4,
+    lineHeight: 18,
+  },
   modesContainer: {
     gap: 20,
   },
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -18,7 +18,7 @@ import { GameMode, AIDifficulty, AIPersonality } from '../../../types/games';
 import MorpionAIService from '../../../services/MorpionAIService';
 import MorpionCoupleMessagesService from '../../../services/MorpionCoupleMessagesService';
 import SoundService from '../../../services/SoundService';
-import { MorpionService } from '../../../services/MorpionService';
+import { MorpionService, MorpionMoveError, MorpionGame } from '../../../services/MorpionService';
 import CustomAlert from '../../../components/common/CustomAlert';
 import { useCustomAlert } from '../../../hooks/useCustomAlert';
 import { MorpionSettingsScreen } from './MorpionSettingsScreen';
@@ -26,6 +26,23 @@ import PresenceService, { PlayerPresence } from '../../../services/PresenceServi
 import InAppNotification, { NotificationType } from '../../../components/multiplayer/InAppNotification';
 import PlayerStatusIndicator from '../../../components/multiplayer/PlayerStatusIndicator';
 import DisconnectionModal from '../../../components/multiplayer/DisconnectionModal';
+import MorpionBoard from '../../../components/morpion/MorpionBoard';
+import {
+  findWinningLineThrough,
+  getInitialOpeningPhase,
+  getSwap2PhaseAfterChoice,
+  getSwap2PhaseAfterMove,
+  GomokuRules,
+  isHostOpeningTurn,
+  isOpeningChoicePhase,
+  MorpionVariant,
+  shouldSwapSymbols,
+  Swap2Choice,
+  Swap2Phase,
+} from '../../../utils/gomokuLogic';
+import { checkUltimateWinner, getActiveSubBoards, getUltimateMoveError } from '../../../utils/ultimateLogic';
+import { getTurnDeadline, WinReason } from '../../../utils/timeControl';
+import { CountdownTimer } from '../../../components/CountdownTimer';
 
 const { width, height } = Dimensions.get('window');
 
@@ -39,6 +56,8 @@ interface MorpionGameScreenProps {
       player2Name?: string;
       boardSize?: number;
       winCondition?: number;
+      variant?: MorpionVariant;
+      gomokuRules?: GomokuRules;
       gameId?: string;
       playerId?: string;
       players?: Array<{
@@ -71,6 +90,11 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
   const aiPersonality: AIPersonality = route?.params?.aiPersonality || 'balanced';
   const boardSize: number = route?.params?.boardSize || 3;
   const winCondition: number = route?.params?.winCondition || 3;
+  const variant: MorpionVariant = route?.params?.variant || 'classic';
+  const gomokuRules: GomokuRules | undefined = route?.params?.gomokuRules;
+  const isGomoku = variant === 'gomoku';
+  const isUltimate = variant === 'ultimate';
+  const exactlyFive = gomokuRules?.exactlyFive ?? false;
 
   // Online mode parameters
   const gameId: string | undefined = route?.params?.gameId;
@@ -78,17 +102,31 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
   const onlinePlayers = route?.params?.players;
 
   // Player names - for online mode, get from players array
-  const player1Name: string = gameMode === 'online' && onlinePlayers?.[0]?.name
+  const hostName: string = gameMode === 'online' && onlinePlayers?.[0]?.name
     ? onlinePlayers[0].name
     : route?.params?.playerName || user?.name || 'Joueur 1';
-  const player2Name: string = gameMode === 'online' && onlinePlayers?.[1]?.name
+  const guestName: string = gameMode === 'online' && onlinePlayers?.[1]?.name
     ? onlinePlayers[1].name
     : route?.params?.player2Name || 'Joueur 2';
 
-  // Get current player's symbol in online mode
-  const mySymbol: 'X' | 'O' | null = gameMode === 'online' && onlinePlayers && playerId
+  // Swap2 opening (Gomoku): the guest may take X, so colors can be swapped
+  const [openingPhase, setOpeningPhase] = useState<Swap2Phase | null>(() =>
+    gameMode === 'ai' ? null : getInitialOpeningPhase(gomokuRules)
+  );
+  const [colorsSwapped, setColorsSwapped] = useState(false);
+
+  // player1Name always plays X, player2Name always plays O
+  const player1Name = colorsSwapped ? guestName : hostName;
+  const player2Name = colorsSwapped ? hostName : guestName;
+
+  // Get current player's symbol in online mode (host is X until a swap2 choice)
+  const initialSymbol: 'X' | 'O' | null = gameMode === 'online' && onlinePlayers && playerId
     ? (onlinePlayers.find(p => p.id === playerId)?.symbol || null)
     : null;
+  const isHost = initialSymbol === 'X';
+  const mySymbol: 'X' | 'O' | null = initialSymbol && colorsSwapped
+    ? (initialSymbol === 'X' ? 'O' : 'X')
+    : initialSymbol;
 
   // Initialize board with dynamic size
   const createEmptyBoard = (size: number): CellValue[][] => {
@@ -123,6 +161,9 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
   const [isAIThinking, setIsAIThinking] = useState(false);
   const [aiReasoning, setAiReasoning] = useState<string>('');
   const [lastMove, setLastMove] = useState<{ row: number; col: number } | null>(null);
+  // Pendule des parties en ligne (fournie par le serveur)
+  const [clockState, setClockState] = useState<Pick<MorpionGame, 'timeControl' | 'clocks' | 'turnStartedAt' | 'status'> | null>(null);
+  const [winReason, setWinReason] = useState<WinReason | null>(null);
   const [moveHistory, setMoveHistory] = useState<Array<{ row: number; col: number; player: CellValue }>>([]);
   const [gameStats, setGameStats] = useState<GameStats>({
     xWins: 0,
@@ -209,7 +250,10 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
     return patterns;
   };
 
-  const WINNING_PATTERNS = generateWinningPatterns(boardSize, winCondition);
+  // Gomoku checks only the line through the last move (see checkGomokuMove),
+  // Ultimate checks the big grid of sub-boards (see checkUltimateWinner)
+  const WINNING_PATTERNS = isGomoku || isUltimate ? [] : generateWinningPatterns(boardSize, winCondition);
+  const lastPosition = lastMove ? lastMove.row * boardSize + lastMove.col : null;
 
   // Initialize game
   useEffect(() => {
@@ -223,6 +267,13 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
     }).start();
   }, []);
 
+  // Reprendre le cache de l'IA des sessions précédentes
+  useEffect(() => {
+    if (gameMode === 'ai') {
+      MorpionAIService.loadPersistentCache();
+    }
+  }, [gameMode]);
+
   // Cleanup timeouts on unmount
   useEffect(() => {
     return () => {
@@ -237,6 +288,86 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
     };
   }, []);
 
+  // Handle game end with enhanced animations and stats
+  const handleGameEnd = useCallback((gameWinner: 'X' | 'O' | 'draw', line: number[] | null) => {
+    setWinner(gameWinner);
+    setWinningLine(line);
+    setGameStatus('finished');
+    setIsAIThinking(false);
+
+    if (gameMode === 'ai') {
+      MorpionAIService.savePersistentCache();
+    }
+
+    // Update game statistics
+    setGameStats(prev => ({
+      ...prev,
+      xWins: gameWinner === 'X' ? prev.xWins + 1 : prev.xWins,
+      oWins: gameWinner === 'O' ? prev.oWins + 1 : prev.oWins,
+      draws: gameWinner === 'draw' ? prev.draws + 1 : prev.draws,
+      totalGames: prev.totalGames + 1,
+    }));
+
+    // Update consecutive wins
+    if (gameWinner === 'X' || gameWinner === 'O') {
+      setConsecutiveWins(prev => ({
+        X: gameWinner === 'X' ? prev.X + 1 : 0,
+        O: gameWinner === 'O' ? prev.O + 1 : 0,
+      }));
+    } else {
+      setConsecutiveWins({ X: 0, O: 0 });
+    }
+
+    if (line) {
+      // Animate winning line with stagger effect
+      line.forEach((cellIndex, index) => {
+        const timeoutId = setTimeout(() => {
+          Animated.sequence([
+            Animated.timing(cellAnimations[cellIndex], {
+              toValue: 1.3,
+              duration: 200,
+              useNativeDriver: true,
+            }),
+            Animated.spring(cellAnimations[cellIndex], {
+              toValue: 1.1,
+              friction: 8,
+              tension: 40,
+              useNativeDriver: true,
+            }),
+          ]).start();
+        }, index * 100);
+        winAnimationTimeoutsRef.current.push(timeoutId);
+      });
+
+      // Animate winning line glow
+      Animated.timing(winLineAnim, {
+        toValue: 1,
+        duration: 600,
+        useNativeDriver: true,
+      }).start();
+    }
+
+    // Celebration animation
+    Animated.spring(celebrationScale, {
+      toValue: 1,
+      friction: 8,
+      tension: 40,
+      useNativeDriver: true,
+    }).start();
+
+    if (gameWinner === 'draw') {
+      SoundService.playGameEnd();
+    } else {
+      SoundService.playGameWin();
+    }
+
+    // Auto-save high score if applicable
+    if (gameWinner === 'X' && gameMode === 'ai') {
+      // Could save to AsyncStorage here
+      console.log('Player victory against AI!');
+    }
+  }, [gameMode, cellAnimations, winLineAnim, celebrationScale]);
+
   // Subscribe to online game updates
   useEffect(() => {
     if (gameMode !== 'online' || !gameId) return;
@@ -263,13 +394,43 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
         setBoard(newBoard);
         setCurrentPlayer(updatedGame.currentPlayer as 'X' | 'O');
         setMoveCount(updatedGame.moves?.length || 0);
+        setOpeningPhase(updatedGame.openingPhase ?? null);
+        setClockState({
+          timeControl: updatedGame.timeControl,
+          clocks: updatedGame.clocks,
+          turnStartedAt: updatedGame.turnStartedAt,
+          status: updatedGame.status,
+        });
+        setWinReason(updatedGame.winReason ?? null);
+        setColorsSwapped(
+          updatedGame.players.find(p => p.id === updatedGame.hostId)?.symbol === 'O'
+        );
+
+        const lastOnlineMove = updatedGame.moves?.[updatedGame.moves.length - 1];
+        if (lastOnlineMove) {
+          setLastMove({
+            row: Math.floor(lastOnlineMove.position / boardSize),
+            col: lastOnlineMove.position % boardSize,
+          });
+        }
 
-        // Check for game end
-        if (updatedGame.status === 'finished') {
-          const result = checkWinner(newBoard);
-          if (result.winner) {
-            handleGameEnd(result.winner, result.line);
-          }
+        // Paused while we were disconnected: only we can resume it
+        if (
+          playerId &&
+          updatedGame.status === 'paused' &&
+          updatedGame.pauseReason === 'player_disconnected' &&
+          updatedGame.pausedBy !== playerId
+        ) {
+          MorpionService.resumeGame(gameId)
+            .catch(error => console.error('Error resuming game:', error));
+        }
+
+        // Check for game end (the server is authoritative for the result)
+        if (updatedGame.status === 'finished' && updatedGame.winner) {
+          handleGameEnd(
+            updatedGame.winner,
+            updatedGame.winningLine?.length ? updatedGame.winningLine : null
+          );
         }
       },
       (error) => {
@@ -281,7 +442,7 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
       console.log('🔌 Unsubscribing from online game');
       unsubscribe();
     };
-  }, [gameMode, gameId]);
+  }, [gameMode, gameId, playerId, boardSize, handleGameEnd]);
 
   // Online presence tracking
   useEffect(() => {
@@ -317,12 +478,7 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
             showNotification('player_reconnected', opponentName);
             setShowDisconnectionModal(false);
             SoundService.playButtonClick();
-
-            // Resume the game
-            if (gameId && opponentId) {
-              MorpionService.resumeGame(gameId, opponentId)
-                .catch(error => console.error('Error resuming game:', error));
-            }
+            // The reconnected opponent resumes the game from their own client
           }
           // Player disconnected
           else if (previousPresence?.status === 'online' && presence.status === 'offline') {
@@ -332,7 +488,7 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
 
             // Pause the game
             if (gameId && playerId) {
-              MorpionService.pauseGame(gameId, opponentId, 'player_disconnected')
+              MorpionService.pauseGame(gameId, 'player_disconnected')
                 .catch(error => console.error('Error pausing game:', error));
             }
           }
@@ -451,10 +607,40 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
     return { winner: null, line: null };
   };
 
+  // Gomoku: only a line through the last move can win ("exactly five" aware)
+  const checkGomokuMove = (
+    currentBoard: CellValue[][],
+    row: number,
+    col: number,
+    player: 'X' | 'O'
+  ): { winner: 'X' | 'O' | 'draw' | null; line: number[] | null } => {
+    const flatBoard = currentBoard.flat();
+    const line = findWinningLineThrough(
+      flatBoard,
+      boardSize,
+      row * boardSize + col,
+      player,
+      winCondition,
+      exactlyFive
+    );
+
+    if (line) {
+      return { winner: player, line };
+    }
+    if (flatBoard.every(cell => cell !== null)) {
+      return { winner: 'draw', line: null };
+    }
+    return { winner: null, line: null };
+  };
+
   // Enhanced handle cell press with proper indexing
   const handleCellPress = (row: number, col: number) => {
-    // Validation checks
-    if (board[row][col] !== null || gameStatus === 'finished') {
+    // Validation checks (Ultimate: the last move decides the playable sub-board)
+    if (
+      board[row][col] !== null ||
+      gameStatus === 'finished' ||
+      (isUltimate && getUltimateMoveError(board.flat(), row * boardSize + col, lastPosition))
+    ) {
       // Shake animation for invalid move
       Animated.sequence([
         Animated.timing(boardShakeAnim, {
@@ -478,6 +664,7 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
 
     if (gameMode === 'ai' && currentPlayer === 'O') return;
     if (isAIThinking) return;
+    if (isOpeningChoicePhase(openingPhase)) return;
 
     // ONLINE MODE: Check if it's the current player's turn
     if (gameMode === 'online') {
@@ -485,7 +672,11 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
         console.log('❌ No symbol assigned to player');
         return;
       }
-      if (currentPlayer !== mySymbol) {
+      // During the swap2 opening, one player places stones of both colors
+      const isMyTurn = openingPhase
+        ? isHost === isHostOpeningTurn(openingPhase)
+        : currentPlayer === mySymbol;
+      if (!isMyTurn) {
         console.log(`❌ Not your turn! Current: ${currentPlayer}, Your symbol: ${mySymbol}`);
         // Shake animation for invalid move
         Animated.sequence([
@@ -541,17 +732,23 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
     SoundService.playButtonClick();
 
     // Check for winner
-    const result = checkWinner(newBoard);
+    const result = isGomoku
+      ? checkGomokuMove(newBoard, row, col, player)
+      : isUltimate
+        ? checkUltimateWinner(newBoard.flat())
+        : checkWinner(newBoard);
     if (result.winner) {
-      handleGameEnd(result.winner, result.line);
+      handleGameEnd(result.winner, result.line?.length ? result.line : null);
     } else {
+      setOpeningPhase(prev => getSwap2PhaseAfterMove(prev, moveHistory.length + 1));
+
       // Switch player
       const nextPlayer = player === 'X' ? 'O' : 'X';
       setCurrentPlayer(nextPlayer);
 
       // If AI mode and it's AI's turn, make AI move
       if (gameMode === 'ai' && nextPlayer === 'O') {
-        aiMoveTimeoutRef.current = setTimeout(() => makeAIMove(newBoard), 600);
+        aiMoveTimeoutRef.current = setTimeout(() => makeAIMove(newBoard, row * boardSize + col), 600);
       }
     }
   };
@@ -563,11 +760,20 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
       try {
         console.log(`🎯 Making online move at [${row}, ${col}] for player ${player}`);
         const position = row * boardSize + col;
-        await MorpionService.playMove(gameId, playerId, position);
+        await MorpionService.playMove(gameId, playerId, position, moveCount);
         SoundService.playButtonClick();
         // The board will be updated via the Firestore subscription
       } catch (error) {
         console.error('❌ Error making online move:', error);
+        // Server rejected the move: show the reason (not your turn, cell taken, etc.)
+        if (error instanceof MorpionMoveError) {
+          showAlert({
+            title: error.code === 'STALE_MOVE' ? 'Partie mise à jour' : 'Coup refusé',
+            message: error.message,
+            type: error.code === 'STALE_MOVE' ? 'warning' : 'error',
+          });
+          return;
+        }
         showAlert({
           title: 'Erreur',
           message: 'Impossible de jouer ce coup',
@@ -582,7 +788,7 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
   };
 
   // Enhanced AI move with personality-based reasoning
-  const makeAIMove = async (currentBoard: CellValue[][]) => {
+  const makeAIMove = async (currentBoard: CellValue[][], lastPlayedPosition: number) => {
     setIsAIThinking(true);
 
     // Convert board format for AI
@@ -590,7 +796,16 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
 
     try {
       // Use enhanced AI with board size support
-      const aiMove = MorpionAIService.getBestMove(aiBoard, 'O', aiDifficulty, aiPersonality, boardSize);
+      const aiMove = isUltimate
+        ? MorpionAIService.getUltimateMove(aiBoard, 'O', aiDifficulty, aiPersonality, lastPlayedPosition)
+        : MorpionAIService.getBestMove(
+          aiBoard,
+          'O',
+          aiDifficulty,
+          aiPersonality,
+          boardSize,
+          exactlyFive
+        );
 
       // Use the AI's reasoning directly
       setAiReasoning(aiMove.reasoning);
@@ -629,82 +844,6 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
       }
     }
   };
-  // Handle game end with enhanced animations and stats
-  const handleGameEnd = (gameWinner: 'X' | 'O' | 'draw', line: number[] | null) => {
-    setWinner(gameWinner);
-    setWinningLine(line);
-    setGameStatus('finished');
-    setIsAIThinking(false);
-
-    // Update game statistics
-    setGameStats(prev => ({
-      ...prev,
-      xWins: gameWinner === 'X' ? prev.xWins + 1 : prev.xWins,
-      oWins: gameWinner === 'O' ? prev.oWins + 1 : prev.oWins,
-      draws: gameWinner === 'draw' ? prev.draws + 1 : prev.draws,
-      totalGames: prev.totalGames + 1,
-    }));
-
-    // Update consecutive wins
-    if (gameWinner === 'X' || gameWinner === 'O') {
-      setConsecutiveWins(prev => ({
-        X: gameWinner === 'X' ? prev.X + 1 : 0,
-        O: gameWinner === 'O' ? prev.O + 1 : 0,
-      }));
-    } else {
-      setConsecutiveWins({ X: 0, O: 0 });
-    }
-
-    if (line) {
-      // Animate winning line with stagger effect
-      line.forEach((cellIndex, index) => {
-        const timeoutId = setTimeout(() => {
-          Animated.sequence([
-            Animated.timing(cellAnimations[cellIndex], {
-              toValue: 1.3,
-              duration: 200,
-              useNativeDriver: true,
-            }),
-            Animated.spring(cellAnimations[cellIndex], {
-              toValue: 1.1,
-              friction: 8,
-              tension: 40,
-              useNativeDriver: true,
-            }),
-          ]).start();
-        }, index * 100);
-        winAnimationTimeoutsRef.current.push(timeoutId);
-      });
-
-      // Animate winning line glow
-      Animated.timing(winLineAnim, {
-        toValue: 1,
-        duration: 600,
-        useNativeDriver: true,
-      }).start();
-    }
-
-    // Celebration animation
-    Animated.spring(celebrationScale, {
-      toValue: 1,
-      friction: 8,
-      tension: 40,
-      useNativeDriver: true,
-    }).start();
-
-    if (gameWinner === 'draw') {
-      SoundService.playGameEnd();
-    } else {
-      SoundService.playGameWin();
-    }
-
-    // Auto-save high score if applicable
-    if (gameWinner === 'X' && gameMode === 'ai') {
-      // Could save to AsyncStorage here
-      console.log('Player victory against AI!');
-    }
-  };
-
   // Enhanced reset game with animation
   const resetGame = () => {
     SoundService.playButtonClick();
@@ -747,6 +886,8 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
       setAiReasoning('');
       setLastMove(null);
       setMoveHistory([]);
+      setOpeningPhase(gameMode === 'ai' ? null : getInitialOpeningPhase(gomokuRules));
+      setColorsSwapped(false);
 
       // Re-entrance animation
       Animated.spring(boardShakeAnim, {
@@ -773,6 +914,9 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
     );
 
     setBoard(newBoard);
+    // The previous move decides the playable sub-board in Ultimate
+    const previousMove = moveHistory[moveHistory.length - 2];
+    setLastMove(previousMove ? { row: previousMove.row, col: previousMove.col } : null);
     setMoveHistory(prev => prev.slice(0, -1));
     setMoveCount(prev => Math.max(0, prev - 1));
     // Switch to the player who made the last move (so they can make it again)
@@ -917,6 +1061,125 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
     return player2Name;
   };
 
+  // Swap2: the host places stones / makes the final choice, the guest the rest
+  const getOpeningPlayerName = (phase: Swap2Phase) =>
+    isHostOpeningTurn(phase) ? hostName : guestName;
+
+  // Le drapeau est tombé : le serveur vérifie l'heure et termine la partie
+  const handleClockExpire = () => {
+    if (gameMode !== 'online' || !gameId) return;
+    MorpionService.claimTimeout(gameId).catch(error => {
+      // L'autre joueur a pu réclamer le premier : la partie est déjà terminée
+      console.log('Timeout claim rejected:', error?.message);
+    });
+  };
+
+  const renderClock = (symbol: 'X' | 'O') => {
+    if (!clockState?.timeControl) return null;
+    const { timeControl, clocks, turnStartedAt, status } = clockState;
+    const isActive = status === 'playing' && gameStatus === 'playing' && currentPlayer === symbol;
+
+    return (
+      <CountdownTimer
+        label={symbol}
+        isActive={isActive}
+        endsAt={isActive ? getTurnDeadline(timeControl, clocks, symbol, turnStartedAt) : null}
+        remainingMs={clocks?.[symbol] ?? timeControl.moveLimitMs}
+        onExpire={handleClockExpire}
+      />
+    );
+  };
+
+  const getStatusText = () => {
+    if (!openingPhase) return `Tour de ${getCurrentPlayerName()}`;
+    const name = getOpeningPlayerName(openingPhase);
+    switch (openingPhase) {
+      case 'place3':
+        return `Ouverture : ${name} pose 3 pierres (${moveCount}/3)`;
+      case 'place2':
+        return `Ouverture : ${name} pose 2 pierres (${moveCount - 3}/2)`;
+      default:
+        return `${name} choisit sa couleur...`;
+    }
+  };
+
+  // The chooser is always the player whose opening turn it is
+  const canMakeOpeningChoice = isOpeningChoicePhase(openingPhase) && (
+    gameMode !== 'online' || isHost === isHostOpeningTurn(openingPhase as Swap2Phase)
+  );
+
+  const handleSwap2Choice = async (choice: Swap2Choice) => {
+    if (!openingPhase) return;
+    SoundService.playButtonClick();
+
+    if (gameMode === 'online' && gameId) {
+      try {
+        await MorpionService.makeSwap2Choice(gameId, choice);
+        // Phase and colors are updated via the Firestore subscription
+      } catch (error) {
+        console.error('❌ Error making swap2 choice:', error);
+        showAlert({
+          title: 'Choix refusé',
+          message: error instanceof MorpionMoveError ? error.message : 'Impossible d\'enregistrer votre choix',
+          type: 'error',
+        });
+      }
+      return;
+    }
+
+    const chooserIsHost = isHostOpeningTurn(openingPhase);
+    const chooserSymbol: 'X' | 'O' = chooserIsHost !== colorsSwapped ? 'X' : 'O';
+    if (shouldSwapSymbols(chooserSymbol, choice)) {
+      setColorsSwapped(prev => !prev);
+    }
+    setOpeningPhase(getSwap2PhaseAfterChoice(openingPhase, choice));
+  };
+
+  const renderSwap2ChoiceModal = () => {
+    if (!canMakeOpeningChoice || gameStatus !== 'playing' || !openingPhase) return null;
+
+    return (
+      <View style={styles.swap2Overlay}>
+        <BlurView style={styles.statsModalBlur} blurType="dark" blurAmount={30}>
+          <View style={styles.statsModalGlass} />
+        </BlurView>
+
+        <View style={styles.statsModalContent}>
+          <Text style={styles.statsModalTitle}>⚫⚪ Ouverture swap2</Text>
+          <Text style={styles.swap2Subtitle}>
+            {gameMode === 'online' ? 'Choisissez' : `${getOpeningPlayerName(openingPhase)}, choisissez`} votre couleur
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.swap2Button, styles.swap2ButtonX]}
+            onPress={() => handleSwap2Choice('black')}
+          >
+            <Text style={styles.swap2ButtonText}>Jouer X (noirs)</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.swap2Button, styles.swap2ButtonO]}
+            onPress={() => handleSwap2Choice('white')}
+          >
+            <Text style={styles.swap2ButtonText}>Jouer O (blancs)</Text>
+          </TouchableOpacity>
+
+          {openingPhase === 'choose' && (
+            <TouchableOpacity
+              style={styles.swap2Button}
+              onPress={() => handleSwap2Choice('place2')}
+            >
+              <Text style={styles.swap2ButtonText}>Poser 2 pierres de plus</Text>
+              <Text style={styles.swap2ButtonHint}>
+                {getOpeningPlayerName('finalChoose')} choisira ensuite sa couleur
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
   const getPlayerAvatar = (player: 'X' | 'O') => {
     if (player === 'O' && gameMode === 'ai') {
       const aiIcons: { [key: string]: string } = {
@@ -1003,16 +1266,21 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
             </TouchableOpacity>
 
             <View style={styles.headerCenter}>
-              <Text style={styles.headerTitle}>Morpion</Text>
-              {boardSize !== 3 && (
+              <Text style={styles.headerTitle}>
+                {isGomoku ? 'Gomoku' : isUltimate ? 'Morpion Ultimate' : 'Morpion'}
+              </Text>
+              {isUltimate ? (
+                <Text style={styles.headerSubtitle}>9 grilles • alignez 3 grilles pour gagner</Text>
+              ) : boardSize !== 3 && (
                 <Text style={styles.headerSubtitle}>
                   {boardSize}×{boardSize} • {winCondition} pour gagner
+                  {isGomoku && exactlyFive ? ' (exactement)' : ''}
                 </Text>
               )}
             </View>
 
             <View style={styles.headerActions}>
-              {moveHistory.length > 0 && gameStatus === 'playing' && (
+              {moveHistory.length > 0 && gameStatus === 'playing' && !openingPhase && (
                 <TouchableOpacity
                   style={[styles.actionButton, styles.undoButton]}
                   onPress={undoLastMove}
@@ -1159,6 +1427,12 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
 
           {/* Game Status */}
           <View style={styles.statusContainer}>
+            {gameMode === 'online' && clockState?.timeControl && (
+              <View style={styles.clocksRow}>
+                {renderClock('X')}
+                {renderClock('O')}
+              </View>
+            )}
             {gameStatus === 'playing' && (
               <>
                 {isAIThinking ? (
@@ -1186,7 +1460,7 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
                 ) : (
                   <View style={styles.statusBadge}>
                     <Text style={styles.statusText}>
-                      Tour de {getCurrentPlayerName()}
+                      {getStatusText()}
                     </Text>
                   </View>
                 )}
@@ -1207,28 +1481,45 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
           </View>
 
           {/* Game Board */}
-          <Animated.View 
-            style={[
-              styles.boardContainer,
-              {
-                transform: [{
-                  scale: boardShakeAnim
-                }]
-              }
-            ]}
-          >
-            <BlurView style={styles.boardBlur} blurType="dark" blurAmount={20}>
-              <View style={styles.boardGlass} />
-            </BlurView>
-
-            <View style={[styles.board, { padding: boardSize > 4 ? 8 : 10 }]}>
-              {Array.from({ length: boardSize }).map((_, row) => (
-                <View key={row} style={[styles.row, { gap: boardSize > 4 ? 6 : 10 }]}>
-                  {Array.from({ length: boardSize }).map((_, col) => renderCell(row, col))}
-                </View>
-              ))}
-            </View>
-          </Animated.View>
+          {isGomoku || isUltimate ? (
+            // 15x15 and Ultimate: lightweight cells (pinch to zoom for Gomoku)
+            <MorpionBoard
+              board={board.flat().map(cell => cell || '')}
+              onCellPress={(index) => handleCellPress(Math.floor(index / boardSize), index % boardSize)}
+              disabled={gameStatus === 'finished' || isAIThinking || isOpeningChoicePhase(openingPhase)}
+              winningCombination={winningLine}
+              currentPlayer={currentPlayer}
+              boardSize={boardSize}
+              lastMoveIndex={lastPosition}
+              zoomable={isGomoku}
+              variant={variant}
+              activeSubBoards={isUltimate ? getActiveSubBoards(board.flat(), lastPosition) : null}
+              style={styles.gomokuBoard}
+            />
+          ) : (
+            <Animated.View 
+              style={[
+                styles.boardContainer,
+                {
+                  transform: [{
+                    scale: boardShakeAnim
+                  }]
+                }
+              ]}
+            >
+              <BlurView style={styles.boardBlur} blurType="dark" blurAmount={20}>
+                <View style={styles.boardGlass} />
+              </BlurView>
+
+              <View style={[styles.board, { padding: boardSize > 4 ? 8 : 10 }]}>
+                {Array.from({ length: boardSize }).map((_, row) => (
+                  <View key={row} style={[styles.row, { gap: boardSize > 4 ? 6 : 10 }]}>
+                    {Array.from({ length: boardSize }).map((__, col) => renderCell(row, col))}
+                  </View>
+                ))}
+              </View>
+            </Animated.View>
+          )}
 
           {/* Game Stats */}
           <View style={styles.statsContainer}>
@@ -1255,6 +1546,9 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
           {/* Stats Modal */}
           {renderStatsModal()}
 
+          {/* Swap2 color choice */}
+          {renderSwap2ChoiceModal()}
+
           {/* Game Over Overlay */}
           {gameStatus === 'finished' && (
             <Animated.View
@@ -1323,6 +1617,10 @@ const MorpionGameScreen: React.FC<MorpionGameScreenProps> = ({ route }) => {
                   );
                 })()}
 
+                {winReason === 'timeout' && (
+                  <Text style={styles.winReasonText}>⏱️ Victoire au temps</Text>
+                )}
+
                 {consecutiveWins[winner as 'X' | 'O'] > 1 && winner !== 'draw' && gameMode === 'ai' && (
                   <Text style={styles.winStreakText}>
                     🔥 {consecutiveWins[winner as 'X' | 'O']} victoires consécutives!
@@ -1598,6 +1896,12 @@ const createStyles = (theme: any) =>
       marginBottom: 20,
       minHeight: 50,
     },
+    clocksRow: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      gap: 16,
+      marginBottom: 10,
+    },
     statusBadge: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -1837,6 +2141,54 @@ const createStyles = (theme: any) =>
       color: '#FFFFFF',
       textAlign: 'center',
     },
+    gomokuBoard: {
+      marginBottom: 20,
+    },
+    swap2Overlay: {
+      position: 'absolute',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      justifyContent: 'center',
+      alignItems: 'center',
+      zIndex: 1000,
+    },
+    swap2Subtitle: {
+      fontSize: 16,
+      color: 'rgba(255, 255, 255, 0.8)',
+      textAlign: 'center',
+      marginBottom: 20,
+    },
+    swap2Button: {
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+      borderRadius: 16,
+      paddingVertical: 14,
+      paddingHorizontal: 20,
+      marginBottom: 12,
+      borderWidth: 1,
+      borderColor: 'rgba(255, 255, 255, 0.2)',
+    },
+    swap2ButtonX: {
+      backgroundColor: 'rgba(255, 105, 180, 0.3)',
+      borderColor: '#FF69B4',
+    },
+    swap2ButtonO: {
+      backgroundColor: 'rgba(78, 205, 196, 0.3)',
+      borderColor: '#4ECDC4',
+    },
+    swap2ButtonText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: '#FFFFFF',
+      textAlign: 'center',
+    },
+    swap2ButtonHint: {
+      fontSize: 12,
+      color: 'rgba(255, 255, 255, 0.6)',
+      textAlign: 'center',
+      marginTop: 4,
+    },
     gameOverOverlay: {
       position: 'absolute',
       top: 0,
@@ -1904,6 +2256,13 @@ const createStyles = (theme: any) =>
       textAlign: 'center',
       marginBottom: 20,
     },
+    winReasonText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: '#FF6B6B',
+      textAlign: 'center',
+      marginBottom: 12,
+    },
     gameOverStats: {
       flexDirection: 'row',
       gap: 30,
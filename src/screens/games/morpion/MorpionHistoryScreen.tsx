@@ -0,0 +1,363 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  StatusBar,
+  Dimensions,
+  ImageBackground,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { CurrentTheme } from '../../../constants/Themes';
+import FeedbackService from '../../../services/FeedbackService';
+import { useApp } from '../../../context/AppContext';
+import { getBackgroundSource } from '../../../utils/backgroundUtils';
+import { MorpionService, MorpionGameHistory } from '../../../services/MorpionService';
+
+const { width } = Dimensions.get('window');
+
+type HistoryFilter = 'all' | 'partner';
+
+const MorpionHistoryScreen: React.FC<any> = ({ navigation }) => {
+  const { user } = useApp();
+  const [filter, setFilter] = useState<HistoryFilter>('all');
+  const [games, setGames] = useState<MorpionGameHistory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const loadHistory = async () => {
+      setIsLoading(true);
+      try {
+        const history = filter === 'partner' && user.partnerId
+          ? await MorpionService.getHeadToHeadHistory(user.id, user.partnerId)
+          : await MorpionService.getUserGameHistory(user.id, 50);
+        setGames(history);
+      } catch (error) {
+        console.error('Error loading Morpion history:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [user?.id, user?.partnerId, filter]);
+
+  const getOpponentName = (game: MorpionGameHistory) => {
+    const opponent = game.playerProfiles?.find(p => p.id !== user?.id);
+    return opponent?.name || 'Adversaire';
+  };
+
+  const handleOpenReplay = (game: MorpionGameHistory) => {
+    if (!game.moves || game.moves.length === 0) return;
+    FeedbackService.buttonPress();
+    navigation.navigate('morpionReplay', { history: game });
+  };
+
+  const renderGame = ({ item: game }: { item: MorpionGameHistory }) => {
+    const isWin = game.winner === user?.id;
+    const isDraw = game.result === 'draw';
+    const canReplay = !!game.moves && game.moves.length > 0;
+    const ratingChange = user?.id ? game.ratingChanges?.[user.id] : undefined;
+    const ratingDelta = ratingChange ? ratingChange.after - ratingChange.before : null;
+
+    return (
+      <TouchableOpacity
+        style={[styles.gameCard, !canReplay && styles.gameCardDisabled]}
+        onPress={() => handleOpenReplay(game)}
+        disabled={!canReplay}
+        activeOpacity={0.8}
+      >
+        <View style={styles.gameIcon}>
+          {isWin ? (
+            <MaterialCommunityIcons name="trophy" size={24} color="#FFD700" />
+          ) : isDraw ? (
+            <MaterialCommunityIcons name="equal" size={24} color="#FFA502" />
+          ) : (
+            <MaterialCommunityIcons name="close-circle" size={24} color="#FF6B6B" />
+          )}
+        </View>
+        <View style={styles.gameInfo}>
+          <Text style={styles.gameResult}>
+            {isWin ? 'Victoire' : isDraw ? 'Match Nul' : 'Défaite'} • vs {getOpponentName(game)}
+          </Text>
+          <Text style={styles.gameDetails}>
+            {game.variant === 'ultimate'
+              ? 'Ultimate'
+              : `${game.variant === 'gomoku' ? 'Gomoku ' : ''}${game.boardSize}x${game.boardSize}`} • {game.moveCount} coups
+            {game.forfeited ? ' • Abandon' : ''}
+          </Text>
+          {ratingDelta !== null && (
+            <Text style={[styles.ratingDelta, ratingDelta < 0 && styles.ratingDeltaNegative]}>
+              Elo {ratingChange!.after} ({ratingDelta >= 0 ? '+' : ''}{ratingDelta})
+            </Text>
+          )}
+          <Text style={styles.gameDate}>
+            {new Date(game.timestamp).toLocaleDateString('fr-FR', {
+              day: 'numeric',
+              month: 'short',
+              hour: '2-digit',
+              minute: '2-digit',
+            })}
+          </Text>
+        </View>
+        {canReplay ? (
+          <MaterialCommunityIcons name="play-circle" size={32} color={CurrentTheme.romantic.primary} />
+        ) : (
+          <Text style={styles.unavailableText}>Replay indisponible</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" translucent backgroundColor="transparent" />
+
+      <ImageBackground
+        source={getBackgroundSource(user)}
+        style={styles.backgroundImage}
+        resizeMode="cover"
+      >
+        <View style={styles.blurryOverlay}>
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => {
+                FeedbackService.buttonPress();
+                navigation.goBack();
+              }}
+            >
+              <View style={styles.backButtonBlur}>
+                <MaterialCommunityIcons
+                  name="arrow-left"
+                  size={24}
+                  color={CurrentTheme.text.primary}
+                />
+              </View>
+            </TouchableOpacity>
+
+            <Text style={styles.title}>Historique</Text>
+
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => {
+                FeedbackService.buttonPress();
+                navigation.navigate('morpionStats');
+              }}
+            >
+              <View style={styles.backButtonBlur}>
+                <MaterialCommunityIcons
+                  name="podium"
+                  size={24}
+                  color={CurrentTheme.text.primary}
+                />
+              </View>
+            </TouchableOpacity>
+          </View>
+
+          {/* Filter */}
+          {user?.partnerId && (
+            <View style={styles.filterContainer}>
+              <TouchableOpacity
+                style={[styles.filterButton, filter === 'all' && styles.filterButtonActive]}
+                onPress={() => setFilter('all')}
+              >
+                <Text style={styles.filterText}>Toutes</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.filterButton, filter === 'partner' && styles.filterButtonActive]}
+                onPress={() => setFilter('partner')}
+              >
+                <Text style={styles.filterText}>
+                  Contre {user.partnerName || 'mon partenaire'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {isLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={CurrentTheme.romantic.primary} />
+              <Text style={styles.loadingText}>Chargement de l'historique...</Text>
+            </View>
+          ) : games.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <MaterialCommunityIcons name="history" size={80} color={CurrentTheme.text.tertiary} />
+              <Text style={styles.emptyText}>Aucune partie terminée</Text>
+              <Text style={styles.emptyHint}>Jouez en ligne pour revoir vos parties ici</Text>
+            </View>
+          ) : (
+            <FlatList
+              data={games}
+              keyExtractor={game => game.id}
+              renderItem={renderGame}
+              contentContainerStyle={styles.listContent}
+              showsVerticalScrollIndicator={false}
+            />
+          )}
+        </View>
+      </ImageBackground>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: CurrentTheme.background.primary,
+  },
+  backgroundImage: {
+    flex: 1,
+    width: width,
+  },
+  blurryOverlay: {
+    flex: 1,
+    backgroundColor: CurrentTheme.glassmorphism.background,
+    paddingTop: 60,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+  },
+  backButtonBlur: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+    flex: 1,
+    textAlign: 'center',
+  },
+  filterContainer: {
+    flexDirection: 'row',
+    marginHorizontal: 20,
+    marginBottom: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 16,
+    padding: 4,
+  },
+  filterButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  filterButtonActive: {
+    backgroundColor: CurrentTheme.romantic.primary,
+  },
+  filterText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: CurrentTheme.text.secondary,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+    marginTop: 24,
+    textAlign: 'center',
+  },
+  emptyHint: {
+    fontSize: 16,
+    color: CurrentTheme.text.secondary,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  gameCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    marginBottom: 12,
+  },
+  gameCardDisabled: {
+    opacity: 0.6,
+  },
+  gameIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  gameInfo: {
+    flex: 1,
+  },
+  gameResult: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+    marginBottom: 4,
+  },
+  gameDetails: {
+    fontSize: 13,
+    color: CurrentTheme.text.secondary,
+  },
+  gameDate: {
+    fontSize: 12,
+    color: CurrentTheme.text.tertiary,
+    marginTop: 2,
+  },
+  ratingDelta: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2ED573',
+    marginTop: 2,
+  },
+  ratingDeltaNegative: {
+    color: '#FF6B6B',
+  },
+  unavailableText: {
+    fontSize: 11,
+    color: CurrentTheme.text.tertiary,
+    width: 70,
+    textAlign: 'right',
+  },
+});
+
+export default MorpionHistoryScreen;
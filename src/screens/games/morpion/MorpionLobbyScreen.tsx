@@ -58,6 +58,8 @@ const MorpionLobbyScreen: React.FC<any> = ({ route, navigation }) => {
             playerId: user.id,
             boardSize: updatedGame.boardSize,
             winCondition: updatedGame.winCondition,
+            variant: updatedGame.variant || 'classic',
+            gomokuRules: updatedGame.gomokuRules,
             players: updatedGame.players.map(p => ({
               id: p.id,
               name: p.profile.name,
@@ -226,6 +228,21 @@ const MorpionLobbyScreen: React.FC<any> = ({ route, navigation }) => {
                 <MaterialCommunityIcons name="trophy" size={20} color={CurrentTheme.romantic.primary} />
                 <Text style={styles.infoText}>Victoire : {game.winCondition} alignés</Text>
               </View>
+              {game.variant === 'ultimate' && (
+                <View style={styles.infoRow}>
+                  <MaterialCommunityIcons name="grid-large" size={20} color={CurrentTheme.romantic.primary} />
+                  <Text style={styles.infoText}>Ultimate • 9 grilles imbriquées</Text>
+                </View>
+              )}
+              {game.variant === 'gomoku' && (
+                <View style={styles.infoRow}>
+                  <MaterialCommunityIcons name="checkerboard" size={20} color={CurrentTheme.romantic.primary} />
+                  <Text style={styles.infoText}>
+                    Gomoku{game.gomokuRules?.exactlyFive ? ' • Exactement cinq' : ''}
+                    {game.gomokuRules?.openingRule === 'swap2' ? ' • Ouverture swap2' : ''}
+                  </Text>
+                </View>
+              )}
             </View>
 
             {/* Players */}
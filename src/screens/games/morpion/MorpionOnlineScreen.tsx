@@ -20,6 +20,8 @@ import { useApp } from '../../../context/AppContext';
 import { getBackgroundSource } from '../../../utils/backgroundUtils';
 import { MorpionService } from '../../../services/MorpionService';
 import CustomAlert from '../../../components/common/CustomAlert';
+import TimeControlPicker from '../../../components/multiplayer/TimeControlPicker';
+import { TIME_CONTROL_PRESETS } from '../../../utils/timeControl';
 import { useCustomAlert } from '../../../hooks/useCustomAlert';
 
 const { width } = Dimensions.get('window');
@@ -30,10 +32,13 @@ const MorpionOnlineScreen: React.FC<any> = ({ navigation, route }) => {
 
   const boardSize = route?.params?.boardSize || 3;
   const winCondition = route?.params?.winCondition || 3;
+  const variant = route?.params?.variant || 'classic';
+  const gomokuRules = route?.params?.gomokuRules;
 
   const [roomCode, setRoomCode] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
+  const [timeControlId, setTimeControlId] = useState(TIME_CONTROL_PRESETS[0].id);
 
   const handleCreateGame = async () => {
     if (!user) return;
@@ -48,7 +53,12 @@ const MorpionOnlineScreen: React.FC<any> = ({ navigation, route }) => {
           : { type: 'emoji' as const, value: user.profilePicture || '👤' },
       };
 
-      const gameId = await MorpionService.createGame(playerProfile, boardSize, winCondition);
+      const timeControl = TIME_CONTROL_PRESETS.find(p => p.id === timeControlId)?.timeControl || null;
+      const gameId = await MorpionService.createGame(playerProfile, boardSize, winCondition, {
+        variant,
+        gomokuRules,
+        timeControl,
+      });
 
       FeedbackService.success();
       navigation.navigate('morpionLobby', { gameId, boardSize, winCondition });
@@ -151,6 +161,14 @@ const MorpionOnlineScreen: React.FC<any> = ({ navigation, route }) => {
               <Text style={styles.optionDescription}>
                 Créez une nouvelle partie et invitez Orlie avec un code
               </Text>
+              <TimeControlPicker
+                selectedId={timeControlId}
+                onSelect={(id) => {
+                  FeedbackService.buttonPress();
+                  setTimeControlId(id);
+                }}
+                accentColor={CurrentTheme.romantic.primary}
+              />
               <TouchableOpacity
                 style={[styles.actionButton, styles.createButton]}
                 onPress={handleCreateGame}
@@ -0,0 +1,467 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  StatusBar,
+  Dimensions,
+  ImageBackground,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { CurrentTheme } from '../../../constants/Themes';
+import FeedbackService from '../../../services/FeedbackService';
+import { useApp } from '../../../context/AppContext';
+import { getBackgroundSource } from '../../../utils/backgroundUtils';
+import { MorpionGameHistory } from '../../../services/MorpionService';
+import MorpionAIService, { MoveAnalysis, MoveQuality } from '../../../services/MorpionAIService';
+import MorpionBoard from '../../../components/morpion/MorpionBoard';
+import MorpionEvaluationBar from '../../../components/morpion/MorpionEvaluationBar';
+import { useMorpionReplay } from '../../../hooks/useMorpionReplay';
+
+const { width } = Dimensions.get('window');
+
+const QUALITY_LABELS: Record<MoveQuality, string> = {
+  best: 'Meilleur coup',
+  good: 'Bon coup',
+  inaccuracy: 'Imprécision',
+  blunder: 'Gaffe',
+};
+
+const QUALITY_COLORS: Record<MoveQuality, string> = {
+  best: '#4CAF50',
+  good: '#8BC34A',
+  inaccuracy: '#FFA502',
+  blunder: '#FF6B6B',
+};
+
+const MorpionReplayScreen: React.FC<any> = ({ navigation, route }) => {
+  const { user } = useApp();
+  const history: MorpionGameHistory = route?.params?.history;
+
+  const moves = history?.moves || [];
+  const replay = useMorpionReplay({
+    moves,
+    boardSize: history?.boardSize || 3,
+    winningLine: history?.winningLine,
+  });
+
+  const [analysis, setAnalysis] = useState<MoveAnalysis[] | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  const boardSize = history?.boardSize || 3;
+  const currentAnalysis = analysis && replay.moveIndex > 0 ? analysis[replay.moveIndex - 1] : null;
+
+  const handleAnalyze = () => {
+    if (!history || moves.length === 0) return;
+    FeedbackService.buttonPress();
+    setIsAnalyzing(true);
+
+    // Laisser l'indicateur s'afficher avant le calcul (synchrone)
+    setTimeout(() => {
+      try {
+        setAnalysis(MorpionAIService.analyzeGame(moves, boardSize, history.winCondition || boardSize));
+      } catch (error) {
+        console.error('Error analyzing Morpion game:', error);
+      } finally {
+        setIsAnalyzing(false);
+      }
+    }, 50);
+  };
+
+  const formatPosition = (position: number) =>
+    `ligne ${Math.floor(position / boardSize) + 1}, colonne ${(position % boardSize) + 1}`;
+
+  const getAnalysisText = (moveAnalysis: MoveAnalysis) => {
+    if (moveAnalysis.missedWin) {
+      return 'Victoire immédiate manquée !';
+    }
+    if (moveAnalysis.missedFork) {
+      return 'Fourchette manquée : deux menaces étaient possibles';
+    }
+    if (moveAnalysis.quality !== 'best' && moveAnalysis.bestPosition !== null) {
+      return `Meilleur coup : ${formatPosition(moveAnalysis.bestPosition)}`;
+    }
+    return '';
+  };
+
+  const getPlayerName = (playerId: string) =>
+    history?.playerProfiles?.find(p => p.id === playerId)?.name || 'Joueur';
+
+  const getResultText = () => {
+    if (!history) return '';
+    if (history.result === 'draw') return 'Match nul';
+    const winnerName = history.winner ? getPlayerName(history.winner) : history.result;
+    return history.forfeited
+      ? `${winnerName} gagne par abandon`
+      : `${winnerName} gagne`;
+  };
+
+  const getStatusText = () => {
+    if (replay.isAtStart) return 'Début de la partie';
+    if (!replay.lastMove) return '';
+    return `${getPlayerName(replay.lastMove.playerId)} (${replay.lastMove.symbol}) joue ${formatPosition(replay.lastMove.position)}`;
+  };
+
+  const handleControl = (action: () => void) => {
+    FeedbackService.buttonPress();
+    action();
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" translucent backgroundColor="transparent" />
+
+      <ImageBackground
+        source={getBackgroundSource(user)}
+        style={styles.backgroundImage}
+        resizeMode="cover"
+      >
+        <View style={styles.blurryOverlay}>
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => {
+                FeedbackService.buttonPress();
+                navigation.goBack();
+              }}
+            >
+              <View style={styles.backButtonBlur}>
+                <MaterialCommunityIcons
+                  name="arrow-left"
+                  size={24}
+                  color={CurrentTheme.text.primary}
+                />
+              </View>
+            </TouchableOpacity>
+
+            <Text style={styles.title}>Replay</Text>
+
+            <View style={styles.placeholder} />
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+            <Text style={styles.resultText}>{getResultText()}</Text>
+            <Text style={styles.moveCounter}>
+              Coup {replay.moveIndex} / {replay.totalMoves}
+            </Text>
+
+            {analysis && (
+              <MorpionEvaluationBar
+                evaluation={currentAnalysis ? currentAnalysis.evaluation : 0}
+                width={width - 80}
+              />
+            )}
+
+            <MorpionBoard
+              board={replay.board.map(cell => cell || '')}
+              onCellPress={() => {}}
+              disabled
+              boardSize={boardSize}
+              winningCombination={replay.visibleWinningLine}
+              lastMoveIndex={replay.lastMove?.position ?? null}
+              zoomable={history?.variant === 'gomoku'}
+              variant={history?.variant}
+              size="large"
+              style={styles.board}
+            />
+
+            <Text style={styles.statusText}>{getStatusText()}</Text>
+
+            {currentAnalysis && (
+              <View style={styles.analysisCard}>
+                <Text style={[styles.qualityText, { color: QUALITY_COLORS[currentAnalysis.quality] }]}>
+                  {QUALITY_LABELS[currentAnalysis.quality]}
+                </Text>
+                {getAnalysisText(currentAnalysis) !== '' && (
+                  <Text style={styles.analysisText}>{getAnalysisText(currentAnalysis)}</Text>
+                )}
+              </View>
+            )}
+
+            {/* Controls */}
+            <View style={styles.controls}>
+              <TouchableOpacity
+                style={styles.controlButton}
+                onPress={() => handleControl(replay.goToStart)}
+                disabled={replay.isAtStart}
+              >
+                <MaterialCommunityIcons
+                  name="skip-previous"
+                  size={28}
+                  color={replay.isAtStart ? CurrentTheme.text.tertiary : CurrentTheme.text.primary}
+                />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.controlButton}
+                onPress={() => handleControl(replay.stepBackward)}
+                disabled={replay.isAtStart}
+              >
+                <MaterialCommunityIcons
+                  name="step-backward"
+                  size={28}
+                  color={replay.isAtStart ? CurrentTheme.text.tertiary : CurrentTheme.text.primary}
+                />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.controlButton, styles.playButton]}
+                onPress={() => handleControl(replay.togglePlay)}
+                disabled={replay.totalMoves === 0}
+              >
+                <MaterialCommunityIcons
+                  name={replay.isPlaying ? 'pause' : 'play'}
+                  size={32}
+                  color="#FFFFFF"
+                />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.controlButton}
+                onPress={() => handleControl(replay.stepForward)}
+                disabled={replay.isAtEnd}
+              >
+                <MaterialCommunityIcons
+                  name="step-forward"
+                  size={28}
+                  color={replay.isAtEnd ? CurrentTheme.text.tertiary : CurrentTheme.text.primary}
+                />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.controlButton}
+                onPress={() => handleControl(replay.goToEnd)}
+                disabled={replay.isAtEnd}
+              >
+                <MaterialCommunityIcons
+                  name="skip-next"
+                  size={28}
+                  color={replay.isAtEnd ? CurrentTheme.text.tertiary : CurrentTheme.text.primary}
+                />
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity
+              style={styles.speedButton}
+              onPress={() => handleControl(replay.cycleSpeed)}
+            >
+              <MaterialCommunityIcons name="speedometer" size={20} color={CurrentTheme.text.primary} />
+              <Text style={styles.speedText}>Vitesse x{replay.speed}</Text>
+            </TouchableOpacity>
+
+            {/* Analysis */}
+            {analysis ? (
+              <View style={styles.timeline}>
+                {analysis.map(moveAnalysis => (
+                  <TouchableOpacity
+                    key={moveAnalysis.moveNumber}
+                    style={[
+                      styles.timelineDot,
+                      { backgroundColor: QUALITY_COLORS[moveAnalysis.quality] },
+                      moveAnalysis.moveNumber === replay.moveIndex && styles.timelineDotActive,
+                    ]}
+                    onPress={() => replay.goToMove(moveAnalysis.moveNumber)}
+                  >
+                    <Text style={styles.timelineDotText}>{moveAnalysis.moveNumber}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ) : history?.variant && history.variant !== 'classic' ? (
+              // L'analyse minimax ne couvre que le Morpion classique
+              <Text style={styles.statusText}>Analyse indisponible pour cette variante</Text>
+            ) : (
+              <TouchableOpacity
+                style={styles.analyzeButton}
+                onPress={handleAnalyze}
+                disabled={isAnalyzing || moves.length === 0}
+              >
+                {isAnalyzing ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <>
+                    <MaterialCommunityIcons name="brain" size={22} color="#FFFFFF" />
+                    <Text style={styles.analyzeButtonText}>Analyser la partie</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </View>
+      </ImageBackground>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: CurrentTheme.background.primary,
+  },
+  backgroundImage: {
+    flex: 1,
+    width: width,
+  },
+  blurryOverlay: {
+    flex: 1,
+    backgroundColor: CurrentTheme.glassmorphism.background,
+    paddingTop: 60,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+  },
+  backButtonBlur: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+    flex: 1,
+    textAlign: 'center',
+  },
+  placeholder: {
+    width: 44,
+  },
+  content: {
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  resultText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: CurrentTheme.text.primary,
+    marginBottom: 4,
+  },
+  moveCounter: {
+    fontSize: 14,
+    color: CurrentTheme.text.secondary,
+    marginBottom: 24,
+  },
+  board: {
+    marginBottom: 24,
+  },
+  statusText: {
+    fontSize: 14,
+    color: CurrentTheme.text.secondary,
+    textAlign: 'center',
+    minHeight: 20,
+    marginBottom: 24,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    marginBottom: 20,
+  },
+  controlButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  playButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: CurrentTheme.romantic.primary,
+  },
+  speedButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  speedText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+  },
+  analysisCard: {
+    width: '100%',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  qualityText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  analysisText: {
+    fontSize: 14,
+    color: CurrentTheme.text.secondary,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  analyzeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    marginTop: 24,
+    paddingVertical: 16,
+    borderRadius: 16,
+    width: '100%',
+    backgroundColor: CurrentTheme.romantic.secondary,
+  },
+  analyzeButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  timeline: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 24,
+  },
+  timelineDot: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timelineDotActive: {
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
+  timelineDotText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+});
+
+export default MorpionReplayScreen;
@@ -0,0 +1,385 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  StatusBar,
+  Dimensions,
+  ImageBackground,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { CurrentTheme } from '../../../constants/Themes';
+import FeedbackService from '../../../services/FeedbackService';
+import { useApp } from '../../../context/AppContext';
+import { getBackgroundSource } from '../../../utils/backgroundUtils';
+import {
+  MorpionService,
+  MorpionPlayerRatings,
+  MorpionRatingPoint,
+} from '../../../services/MorpionService';
+import { DEFAULT_RATING, PROVISIONAL_GAMES } from '../../../utils/eloLogic';
+import MorpionRatingChart from '../../../components/morpion/MorpionRatingChart';
+
+const { width } = Dimensions.get('window');
+
+const RATING_CATEGORIES = [
+  { key: '3x3', label: '3x3' },
+  { key: '4x4', label: '4x4' },
+  { key: '5x5', label: '5x5' },
+  { key: 'ultimate', label: 'Ultimate' },
+  { key: 'gomoku', label: 'Gomoku' },
+];
+
+const MorpionStatsScreen: React.FC<any> = ({ navigation }) => {
+  const { user } = useApp();
+  const [ratingKey, setRatingKey] = useState('3x3');
+  const [ladder, setLadder] = useState<MorpionPlayerRatings[]>([]);
+  const [ratingHistory, setRatingHistory] = useState<MorpionRatingPoint[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const loadLadder = async () => {
+      setIsLoading(true);
+      try {
+        setLadder(await MorpionService.getLadder(user.id, user.partnerId));
+      } catch (error) {
+        console.error('Error loading Morpion ladder:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadLadder();
+  }, [user?.id, user?.partnerId]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    MorpionService.getRatingHistory(user.id, ratingKey)
+      .then(setRatingHistory)
+      .catch(error => console.error('Error loading rating history:', error));
+  }, [user?.id, ratingKey]);
+
+  const myEntry = ladder.find(player => player.userId === user?.id)?.ratings[ratingKey];
+
+  const rankedPlayers = ladder
+    .filter(player => player.ratings[ratingKey])
+    .sort((a, b) => b.ratings[ratingKey].rating - a.ratings[ratingKey].rating);
+
+  const renderMyRating = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Mon classement</Text>
+      <View style={styles.ratingRow}>
+        <MaterialCommunityIcons name="chess-queen" size={32} color="#FFD700" />
+        <Text style={styles.ratingValue}>{myEntry?.rating ?? DEFAULT_RATING}</Text>
+        {myEntry && myEntry.games < PROVISIONAL_GAMES && <Text style={styles.provisional}>Provisoire</Text>}
+      </View>
+      <View style={styles.statsRow}>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{myEntry?.wins ?? 0}</Text>
+          <Text style={styles.statLabel}>Victoires</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{myEntry?.draws ?? 0}</Text>
+          <Text style={styles.statLabel}>Nuls</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{myEntry?.losses ?? 0}</Text>
+          <Text style={styles.statLabel}>Défaites</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{myEntry?.peak ?? DEFAULT_RATING}</Text>
+          <Text style={styles.statLabel}>Record</Text>
+        </View>
+      </View>
+    </View>
+  );
+
+  const renderLadder = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Classement entre proches</Text>
+      {rankedPlayers.length === 0 ? (
+        <Text style={styles.emptyHint}>Aucune partie classée dans cette catégorie</Text>
+      ) : (
+        rankedPlayers.map((player, index) => {
+          const entry = player.ratings[ratingKey];
+          const isMe = player.userId === user?.id;
+          const isPartner = player.userId === user?.partnerId;
+
+          return (
+            <View key={player.userId} style={[styles.ladderRow, isMe && styles.ladderRowMe]}>
+              <Text style={styles.ladderRank}>{index + 1}</Text>
+              <View style={styles.ladderInfo}>
+                <Text style={styles.ladderName}>
+                  {isMe ? 'Moi' : player.name}
+                  {isPartner ? ' ' : ''}
+                  {isPartner && (
+                    <MaterialCommunityIcons name="heart" size={14} color={CurrentTheme.romantic.primary} />
+                  )}
+                </Text>
+                <Text style={styles.ladderDetails}>
+                  {entry.games} parties • {entry.wins}V {entry.draws}N {entry.losses}D
+                </Text>
+              </View>
+              <Text style={styles.ladderRating}>{entry.rating}</Text>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" translucent backgroundColor="transparent" />
+
+      <ImageBackground
+        source={getBackgroundSource(user)}
+        style={styles.backgroundImage}
+        resizeMode="cover"
+      >
+        <View style={styles.blurryOverlay}>
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => {
+                FeedbackService.buttonPress();
+                navigation.goBack();
+              }}
+            >
+              <View style={styles.backButtonBlur}>
+                <MaterialCommunityIcons
+                  name="arrow-left"
+                  size={24}
+                  color={CurrentTheme.text.primary}
+                />
+              </View>
+            </TouchableOpacity>
+
+            <Text style={styles.title}>Classement</Text>
+
+            <View style={styles.placeholder} />
+          </View>
+
+          {/* Catégorie de classement */}
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.categoryScroll}
+            contentContainerStyle={styles.categoryContainer}
+          >
+            {RATING_CATEGORIES.map(category => (
+              <TouchableOpacity
+                key={category.key}
+                style={[styles.categoryButton, ratingKey === category.key && styles.categoryButtonActive]}
+                onPress={() => {
+                  FeedbackService.buttonPress();
+                  setRatingKey(category.key);
+                }}
+              >
+                <Text style={styles.categoryText}>{category.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          {isLoading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={CurrentTheme.romantic.primary} />
+              <Text style={styles.loadingText}>Chargement du classement...</Text>
+            </View>
+          ) : (
+            <ScrollView
+              contentContainerStyle={styles.listContent}
+              showsVerticalScrollIndicator={false}
+            >
+              {renderMyRating()}
+
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Évolution</Text>
+                <MorpionRatingChart points={ratingHistory} width={width - 72} />
+              </View>
+
+              {renderLadder()}
+            </ScrollView>
+          )}
+        </View>
+      </ImageBackground>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: CurrentTheme.background.primary,
+  },
+  backgroundImage: {
+    flex: 1,
+    width: width,
+  },
+  blurryOverlay: {
+    flex: 1,
+    backgroundColor: CurrentTheme.glassmorphism.background,
+    paddingTop: 60,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+  },
+  backButtonBlur: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+    flex: 1,
+    textAlign: 'center',
+  },
+  placeholder: {
+    width: 44,
+  },
+  categoryScroll: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  categoryContainer: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  categoryButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  categoryButtonActive: {
+    backgroundColor: CurrentTheme.romantic.primary,
+  },
+  categoryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: CurrentTheme.text.secondary,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+    marginBottom: 12,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  ratingValue: {
+    fontSize: 36,
+    fontWeight: '700',
+    color: CurrentTheme.text.primary,
+  },
+  provisional: {
+    fontSize: 12,
+    color: CurrentTheme.text.tertiary,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  statItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: CurrentTheme.text.secondary,
+    marginTop: 2,
+  },
+  emptyHint: {
+    fontSize: 14,
+    color: CurrentTheme.text.secondary,
+    textAlign: 'center',
+  },
+  ladderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  ladderRowMe: {
+    backgroundColor: 'rgba(255, 255, 255, 0.12)',
+  },
+  ladderRank: {
+    width: 28,
+    fontSize: 16,
+    fontWeight: '700',
+    color: CurrentTheme.text.secondary,
+  },
+  ladderInfo: {
+    flex: 1,
+  },
+  ladderName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+  },
+  ladderDetails: {
+    fontSize: 12,
+    color: CurrentTheme.text.tertiary,
+    marginTop: 2,
+  },
+  ladderRating: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: CurrentTheme.romantic.primary,
+  },
+});
+
+export default MorpionStatsScreen;
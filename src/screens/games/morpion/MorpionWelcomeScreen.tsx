@@ -205,6 +205,15 @@ const MorpionWelcomeScreen: React.FC = () => {
               >
                 <Foundation name="widget" size={24} color="#FFFFFF" />
               </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.settingsButton}
+                onPress={() => {
+                  SoundService.playButtonClick();
+                  navigateToScreen('morpionHistory');
+                }}
+              >
+                <Foundation name="clock" size={24} color="#FFFFFF" />
+              </TouchableOpacity>
               <DareButton
                 gameType="morpion"
                 variant="icon"
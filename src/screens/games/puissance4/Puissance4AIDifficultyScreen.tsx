@@ -107,13 +107,14 @@ const DifficultyCard: React.FC<DifficultyCardProps> = ({
   );
 };
 
-const Puissance4AIDifficultyScreen: React.FC<any> = ({ navigation }) => {
+const Puissance4AIDifficultyScreen: React.FC<any> = ({ navigation, route }) => {
+  const { rules } = route.params || {};
   const { user } = useApp();
   const [selectedDifficulty, setSelectedDifficulty] = useState<AIDifficulty>('moyen');
   const [selectedColor, setSelectedColor] = useState<'Rouge' | 'Jaune'>('Rouge');
 
   const fadeAnims = useRef(
-    ['facile', 'moyen', 'difficile', 'expert'].map(() => new Animated.Value(0))
+    ['facile', 'moyen', 'difficile', 'expert', 'imbattable'].map(() => new Animated.Value(0))
   ).current;
 
   useEffect(() => {
@@ -134,6 +135,7 @@ const Puissance4AIDifficultyScreen: React.FC<any> = ({ navigation }) => {
     FeedbackService.success();
     navigation.navigate('puissance4Game', {
       mode: 'ai',
+      rules,
       difficulty: selectedDifficulty,
       playerColor: selectedColor,
       players: [
@@ -185,7 +187,7 @@ const Puissance4AIDifficultyScreen: React.FC<any> = ({ navigation }) => {
           >
         {/* Difficulty Cards */}
         <View style={styles.difficultiesContainer}>
-          {(['facile', 'moyen', 'difficile', 'expert'] as AIDifficulty[]).map(
+          {(['facile', 'moyen', 'difficile', 'expert', 'imbattable'] as AIDifficulty[]).map(
             (difficulty, index) => (
               <DifficultyCard
                 key={difficulty}
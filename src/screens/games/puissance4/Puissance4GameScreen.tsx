@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -25,22 +25,46 @@ import CustomAlert from '../../../components/common/CustomAlert';
 import { useCustomAlert } from '../../../hooks/useCustomAlert';
 import { AvatarDisplay } from '../../../utils/avatarUtils';
 import firestore from '@react-native-firebase/firestore';
+import CountdownTimer from '../../../components/CountdownTimer';
+import { getTurnDeadline } from '../../../utils/timeControl';
+import { analyzePositionAsync, PositionAnalysis } from '../../../utils/puissance4Solver';
+import { canPop, countStones, isStandardRules, describeRules, getPop10Target } from '../../../utils/puissance4Logic';
+import { Puissance4AIService } from '../../../services/Puissance4AIService';
+import { CoachHighlight, CoachThreat } from '../../../types/puissance4.types';
 
 const { width } = Dimensions.get('window');
 const BOARD_WIDTH = width - 40;
 const CELL_SIZE = BOARD_WIDTH / PUISSANCE4_CONFIG.COLS;
 
 const Puissance4GameScreen: React.FC<any> = ({ route, navigation }) => {
-  const { mode, difficulty, playerColor, players, gameId, stakes } = route.params || {};
+  const {
+    mode,
+    difficulty,
+    playerColor,
+    players,
+    gameId,
+    stakes,
+    rules: routeRules,
+    isSpectator = false,
+  } = route.params || {};
   const { user } = useApp();
   const { alertConfig, isVisible, showAlert, hideAlert } = useCustomAlert();
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isMountedRef = useRef(true);
   const [showMenu, setShowMenu] = useState(false);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  // undefined : calcul en cours, null : position trop ouverte pour le solveur
+  const [analysis, setAnalysis] = useState<PositionAnalysis | null | undefined>(undefined);
+  // Analyses déjà calculées, par position et joueur au trait
+  const analysisCacheRef = useRef(new Map<string, PositionAnalysis | null>());
+  const [showCoach, setShowCoach] = useState(false);
 
   // handleGameEnd DOIT être défini AVANT usePuissance4Game
   const handleGameEnd = React.useCallback(async (result: 'Rouge' | 'Jaune' | 'draw') => {
     console.log('🏆 Game ended with result:', result);
+    // Le spectateur reste sur le plateau final
+    if (isSpectator) return;
+
     // Sauvegarder dans l'historique pour les modes local et AI
     if ((mode === 'local' || mode === 'ai') && user?.id) {
       try {
@@ -140,14 +164,17 @@ const Puissance4GameScreen: React.FC<any> = ({ route, navigation }) => {
         difficulty,
         stakes: stakes || null,
         isWinner,
+        gameId,
       });
     }, 1500);
-  }, [mode, playerColor, players, user, difficulty, stakes, navigation]);
+  }, [mode, playerColor, players, user, difficulty, stakes, gameId, isSpectator, navigation]);
 
   // Initialize the game hook AFTER handleGameEnd
   const {
     board,
+    rules,
     currentPlayer,
+    pop10State,
     winner,
     winningLine,
     isAIThinking,
@@ -156,12 +183,18 @@ const Puissance4GameScreen: React.FC<any> = ({ route, navigation }) => {
     playMove,
     resetGame,
     forfeit,
+    clockState,
+    winReason,
+    claimTimeout,
+    spectators,
   } = usePuissance4Game({
     mode,
     difficulty,
     playerColor,
     gameId,
     playerId: user?.id,
+    rules: routeRules,
+    isSpectator,
     onGameEnd: handleGameEnd,
   });
 
@@ -169,6 +202,18 @@ const Puissance4GameScreen: React.FC<any> = ({ route, navigation }) => {
     playMove(columnIndex);
   };
 
+  const handleColumnPop = (columnIndex: number) => {
+    playMove(columnIndex, 'pop');
+  };
+
+  // Le solveur exact ne couvre que le classique 6x7
+  const canAnalyze = mode !== 'online' && isStandardRules(rules);
+  const isMyTurn = !isSpectator && (mode === 'local' || currentPlayer === playerColor);
+  // Pas de coach en ligne : ce serait une aide contre un vrai adversaire
+  // (ni en Pop 10, où il n'y a pas d'alignement gagnant à signaler)
+  const canCoach = mode !== 'online' && rules.variant !== 'pop10';
+  const cellSize = (width - 60) / rules.cols;
+
   const handleMenuPress = () => {
     FeedbackService.buttonPress();
     setShowMenu(!showMenu);
@@ -194,6 +239,18 @@ const Puissance4GameScreen: React.FC<any> = ({ route, navigation }) => {
     });
   };
 
+  const handleToggleAnalysis = () => {
+    FeedbackService.buttonPress();
+    setShowAnalysis(prev => !prev);
+    setShowMenu(false);
+  };
+
+  const handleToggleCoach = () => {
+    FeedbackService.buttonPress();
+    setShowCoach(prev => !prev);
+    setShowMenu(false);
+  };
+
   const handleRestart = () => {
     showAlert({
       title: 'Recommencer',
@@ -213,6 +270,93 @@ const Puissance4GameScreen: React.FC<any> = ({ route, navigation }) => {
     });
   };
 
+  const renderClock = (color: 'Rouge' | 'Jaune') => {
+    if (!clockState?.timeControl) return null;
+    const { timeControl, clocks, turnStartedAt, status } = clockState;
+    const isActive = status === 'playing' && !winner && currentPlayer === color;
+
+    return (
+      <CountdownTimer
+        style={styles.playerClock}
+        isActive={isActive}
+        endsAt={isActive ? getTurnDeadline(timeControl, clocks, color, turnStartedAt) : null}
+        remainingMs={clocks?.[color] ?? timeControl.moveLimitMs}
+        onExpire={claimTimeout}
+      />
+    );
+  };
+
+  // Analyse exacte de la position pour le joueur au trait (hors ligne uniquement).
+  // Calculée par tranches sans bloquer l'interface, une seule fois par position.
+  useEffect(() => {
+    if (!showAnalysis || !canAnalyze || winner || isAIThinking) return;
+
+    const key = `${currentPlayer}:${board.map(row => row.map(cell => cell?.[0] ?? '-').join('')).join('/')}`;
+    const cached = analysisCacheRef.current.get(key);
+    if (cached !== undefined) {
+      setAnalysis(cached);
+      return;
+    }
+    if (countStones(board) < PUISSANCE4_CONFIG.AI.SOLVER_MIN_STONES) {
+      setAnalysis(null);
+      return;
+    }
+
+    let cancelled = false;
+    setAnalysis(undefined);
+    analyzePositionAsync(board, currentPlayer, PUISSANCE4_CONFIG.AI.HINT_TIME_BUDGET_MS, () => cancelled)
+      .then(result => {
+        if (cancelled) return;
+        analysisCacheRef.current.set(key, result);
+        setAnalysis(result);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showAnalysis, canAnalyze, board, currentPlayer, winner, isAIThinking]);
+
+  const getAnalysisText = (): string => {
+    if (analysis === undefined) return 'Analyse en cours...';
+    if (analysis === null) return 'Position trop ouverte pour être résolue';
+    if (analysis.outcome === 'draw') return 'Match nul avec un jeu parfait';
+
+    const winnerColor = analysis.outcome === 'win'
+      ? currentPlayer
+      : currentPlayer === 'Rouge' ? 'Jaune' : 'Rouge';
+    const moves = analysis.movesToEnd ?? 0;
+    const column = analysis.outcome === 'win' && analysis.bestColumn !== null
+      ? ` (colonne ${analysis.bestColumn + 1})`
+      : '';
+    return `${winnerColor} gagne en ${moves} coup${moves > 1 ? 's' : ''}${column}`;
+  };
+
+  // Conseils du coach pour le joueur humain au trait
+  const coachingAdvice = useMemo(() => {
+    if (!showCoach || !canCoach || winner || isAIThinking || !isMyTurn) return null;
+    return Puissance4AIService.getCoachingAdvice(board, currentPlayer, rules);
+  }, [showCoach, canCoach, winner, isAIThinking, isMyTurn, board, currentPlayer, rules]);
+
+  const getCoachHighlight = (colIndex: number): CoachHighlight | undefined => {
+    if (!coachingAdvice) return undefined;
+    if (coachingAdvice.winningColumns.includes(colIndex)) return 'win';
+    if (coachingAdvice.blockingColumns.includes(colIndex)) return 'block';
+    if (coachingAdvice.dangerColumns.includes(colIndex)) return 'danger';
+    return undefined;
+  };
+
+  const getThreatsForColumn = (colIndex: number): Map<number, CoachThreat> | undefined => {
+    if (!coachingAdvice) return undefined;
+    const threats = new Map<number, CoachThreat>();
+    coachingAdvice.threats.forEach(threat => {
+      // Une case menacée par les deux couleurs : celle du joueur au trait d'abord
+      if (threat.col === colIndex && (!threats.has(threat.row) || threat.color === currentPlayer)) {
+        threats.set(threat.row, threat);
+      }
+    });
+    return threats;
+  };
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -235,7 +379,7 @@ const Puissance4GameScreen: React.FC<any> = ({ route, navigation }) => {
   };
 
   // Déterminer la couleur de preview
-  const previewColor = mode === 'ai' && isAIThinking ? undefined : currentPlayer;
+  const previewColor = (mode === 'ai' && isAIThinking) || isSpectator ? undefined : currentPlayer;
 
   return (
     <View style={styles.container}>
@@ -260,21 +404,44 @@ const Puissance4GameScreen: React.FC<any> = ({ route, navigation }) => {
           </View>
         </TouchableOpacity>
 
-        <TouchableOpacity style={styles.menuButton} onPress={handleMenuPress}>
-          <View style={styles.menuButtonBlur}>
-            <MaterialCommunityIcons
-              name="dots-vertical"
-              size={24}
-              color={CurrentTheme.text.primary}
-            />
+        {isSpectator ? (
+          <View style={styles.spectatorBadge}>
+            <MaterialCommunityIcons name="eye" size={18} color="#FFFFFF" />
+            <Text style={styles.spectatorBadgeText}>Spectateur</Text>
           </View>
-        </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.menuButton} onPress={handleMenuPress}>
+            <View style={styles.menuButtonBlur}>
+              <MaterialCommunityIcons
+                name="dots-vertical"
+                size={24}
+                color={CurrentTheme.text.primary}
+              />
+            </View>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Menu Dropdown */}
       {showMenu && (
         <View style={styles.menuDropdown}>
           <View style={styles.menuDropdownBlur}>
+            {canAnalyze && (
+              <TouchableOpacity style={styles.menuItem} onPress={handleToggleAnalysis}>
+                <MaterialCommunityIcons name="chart-timeline-variant" size={20} color="#FFFFFF" />
+                <Text style={styles.menuItemText}>
+                  {showAnalysis ? 'Masquer l\'analyse' : 'Afficher l\'analyse'}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {canCoach && (
+              <TouchableOpacity style={styles.menuItem} onPress={handleToggleCoach}>
+                <MaterialCommunityIcons name="school-outline" size={20} color="#FFFFFF" />
+                <Text style={styles.menuItemText}>
+                  {showCoach ? 'Désactiver le coach' : 'Mode coach'}
+                </Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity style={styles.menuItem} onPress={handleRestart}>
               <MaterialCommunityIcons name="restart" size={20} color="#FFFFFF" />
               <Text style={styles.menuItemText}>Recommencer</Text>
@@ -327,10 +494,11 @@ const Puissance4GameScreen: React.FC<any> = ({ route, navigation }) => {
                   <View style={[styles.colorDot, { backgroundColor: PUISSANCE4_CONFIG.COLORS.RED }]} />
                   <Text style={styles.playerColor}>Rouge</Text>
                 </View>
+                {renderClock('Rouge')}
               </View>
               {currentPlayer === 'Rouge' && !winner && (
                 <View style={styles.turnIndicator}>
-                  <Text style={styles.turnText}>Votre tour</Text>
+                  <Text style={styles.turnText}>{isSpectator ? 'À jouer' : 'Votre tour'}</Text>
                 </View>
               )}
             </View>
@@ -380,11 +548,12 @@ const Puissance4GameScreen: React.FC<any> = ({ route, navigation }) => {
                   <View style={[styles.colorDot, { backgroundColor: PUISSANCE4_CONFIG.COLORS.YELLOW }]} />
                   <Text style={styles.playerColor}>Jaune</Text>
                 </View>
+                {renderClock('Jaune')}
               </View>
               {currentPlayer === 'Jaune' && !winner && (
                 <View style={styles.turnIndicator}>
                   <Text style={styles.turnText}>
-                    {mode === 'ai' && isAIThinking ? 'Réfléchit...' : 'Votre tour'}
+                    {mode === 'ai' && isAIThinking ? 'Réfléchit...' : isSpectator ? 'À jouer' : 'Votre tour'}
                   </Text>
                 </View>
               )}
@@ -392,18 +561,47 @@ const Puissance4GameScreen: React.FC<any> = ({ route, navigation }) => {
           </View>
         </View>
 
-        {/* AI Thinking Bubble */}
-        {mode === 'ai' && (isAIThinking || aiReasoning) && (
-          <AIThinkingBubble message={aiReasoning} isThinking={isAIThinking} />
+        {showAnalysis && canAnalyze && !winner && (
+          <View style={styles.analysisBanner}>
+            <MaterialCommunityIcons name="chart-timeline-variant" size={18} color="#00E5FF" />
+            <Text style={styles.analysisText}>{getAnalysisText()}</Text>
+          </View>
+        )}
+
+        {winReason === 'timeout' && (
+          <View style={styles.timeoutBanner}>
+            <MaterialCommunityIcons name="timer-off-outline" size={18} color="#FF6B6B" />
+            <Text style={styles.timeoutText}>
+              Temps écoulé pour {winner === 'Rouge' ? 'Jaune' : 'Rouge'}
+            </Text>
+          </View>
+        )}
+
+        {mode === 'online' && (isSpectator || spectators.length > 0) && (
+          <View style={styles.spectatorBanner}>
+            <MaterialCommunityIcons name="eye-outline" size={18} color={CurrentTheme.text.secondary} />
+            <Text style={styles.spectatorText}>
+              {isSpectator && winner
+                ? winner === 'draw' ? 'Match nul' : `Victoire de ${winner}`
+                : `${spectators.length} spectateur${spectators.length > 1 ? 's' : ''}`}
+            </Text>
+          </View>
         )}
 
+        {/* AI Thinking Bubble (le coach prend la parole pendant le tour du joueur) */}
+        {coachingAdvice && coachingAdvice.explanation ? (
+          <AIThinkingBubble message={coachingAdvice.explanation} isThinking={false} />
+        ) : mode === 'ai' && (isAIThinking || aiReasoning) ? (
+          <AIThinkingBubble message={aiReasoning} isThinking={isAIThinking} />
+        ) : null}
+
         {/* Game Board */}
         <View style={styles.boardContainer}>
           <View style={styles.boardBackground}>
             <View style={styles.board}>
               {/* Render columns */}
               <View style={styles.columnsContainer}>
-                {board && Array.isArray(board) && board.length > 0 && Array.from({ length: PUISSANCE4_CONFIG.COLS }).map((_, colIndex) => {
+                {board && Array.isArray(board) && board.length > 0 && Array.from({ length: rules.cols }).map((_, colIndex) => {
                   const columnCells = board.map(row => row && Array.isArray(row) ? row[colIndex] : null);
                   const winningCells = getWinningCellsForColumn(colIndex);
 
@@ -413,9 +611,14 @@ const Puissance4GameScreen: React.FC<any> = ({ route, navigation }) => {
                       columnIndex={colIndex}
                       cells={columnCells}
                       onPress={handleColumnPress}
-                      disabled={!!winner || isAIThinking}
+                      disabled={!!winner || isAIThinking || isSpectator}
                       previewColor={previewColor}
                       winningCells={winningCells}
+                      cellSize={cellSize}
+                      canPop={!winner && isMyTurn && canPop(board, colIndex, currentPlayer, rules, pop10State)}
+                      onPop={handleColumnPop}
+                      highlight={getCoachHighlight(colIndex)}
+                      threats={getThreatsForColumn(colIndex)}
                     />
                   );
                 })}
@@ -446,6 +649,30 @@ const Puissance4GameScreen: React.FC<any> = ({ route, navigation }) => {
                 <Text style={styles.statText}>IA {difficulty}</Text>
               </View>
             )}
+
+            {!isStandardRules(rules) && (
+              <View style={styles.statItem}>
+                <MaterialCommunityIcons
+                  name="grid"
+                  size={20}
+                  color="#FFFFFF"
+                />
+                <Text style={styles.statText}>{describeRules(rules)}</Text>
+              </View>
+            )}
+
+            {rules.variant === 'pop10' && (
+              <View style={styles.statItem}>
+                <MaterialCommunityIcons
+                  name="trophy"
+                  size={20}
+                  color="#FFFFFF"
+                />
+                <Text style={styles.statText}>
+                  Gardés {pop10State.kept.Rouge} - {pop10State.kept.Jaune} / {getPop10Target(rules)}
+                </Text>
+              </View>
+            )}
           </View>
         </View>
       </ScrollView>
@@ -617,6 +844,75 @@ const styles = StyleSheet.create({
     color: CurrentTheme.text.muted,
     fontSize: 12,
   },
+  playerClock: {
+    marginTop: 6,
+    alignSelf: 'flex-start',
+  },
+  analysisBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 229, 255, 0.12)',
+    alignSelf: 'center',
+  },
+  analysisText: {
+    ...Typography.styles.footnote,
+    color: '#00E5FF',
+    fontWeight: '600',
+  },
+  timeoutBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 107, 107, 0.15)',
+    alignSelf: 'center',
+  },
+  timeoutText: {
+    ...Typography.styles.footnote,
+    color: '#FF6B6B',
+    fontWeight: '600',
+  },
+  spectatorBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    alignSelf: 'center',
+  },
+  spectatorText: {
+    ...Typography.styles.footnote,
+    color: CurrentTheme.text.secondary,
+    fontWeight: '600',
+  },
+  spectatorBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  spectatorBadgeText: {
+    ...Typography.styles.footnote,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   colorBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -687,6 +983,7 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(255, 255, 255, 0.15)',
     flexDirection: 'row',
     justifyContent: 'center',
+    flexWrap: 'wrap',
     gap: 30,
     padding: 16,
     borderWidth: 1,
@@ -23,11 +23,12 @@ import CustomAlert from '../../../components/common/CustomAlert';
 import { useCustomAlert } from '../../../hooks/useCustomAlert';
 import Puissance4StakesModal from '../../../components/games/puissance4/Puissance4StakesModal';
 import { Puissance4Stakes } from '../../../types/puissance4.types';
+import { describeRules, resolveRules } from '../../../utils/puissance4Logic';
 
 const { width } = Dimensions.get('window');
 
 const Puissance4LobbyScreen: React.FC<any> = ({ route, navigation }) => {
-  const { gameId } = route.params || {};
+  const { gameId, isSpectator = false } = route.params || {};
   const { user } = useApp();
   const { alertConfig, isVisible, showAlert, hideAlert } = useCustomAlert();
 
@@ -60,6 +61,7 @@ const Puissance4LobbyScreen: React.FC<any> = ({ route, navigation }) => {
             gameId,
             playerId: user.id,
             playerColor,
+            isSpectator,
             stakes: updatedGame.stakes || undefined, // Use undefined instead of null
             players: updatedGame.players.map(p => ({
               id: p.id,
@@ -80,7 +82,7 @@ const Puissance4LobbyScreen: React.FC<any> = ({ route, navigation }) => {
     );
 
     return () => unsubscribe();
-  }, [gameId, user?.id]);
+  }, [gameId, user?.id, isSpectator]);
 
   const handleToggleReady = async () => {
     if (!game || !user?.id) return;
@@ -130,7 +132,11 @@ const Puissance4LobbyScreen: React.FC<any> = ({ route, navigation }) => {
           onPress: async () => {
             try {
               if (user?.id) {
-                await Puissance4Service.leaveGame(gameId, user.id);
+                if (isSpectator) {
+                  await Puissance4Service.leaveAsSpectator(gameId, user.id);
+                } else {
+                  await Puissance4Service.leaveGame(gameId, user.id);
+                }
               }
               navigation.goBack();
             } catch (error) {
@@ -187,7 +193,7 @@ const Puissance4LobbyScreen: React.FC<any> = ({ route, navigation }) => {
 
   const currentPlayer = game.players.find(p => p.id === user?.id);
   const otherPlayer = game.players.find(p => p.id !== user?.id);
-  const isHost = game.hostId === user?.id;
+  const isHost = !isSpectator && game.hostId === user?.id;
   const canStart = game.players.length === 2 && game.players.every(p => p.isReady);
 
   return (
@@ -240,6 +246,7 @@ const Puissance4LobbyScreen: React.FC<any> = ({ route, navigation }) => {
               <Text style={styles.roomCodeHint}>
                 Partagez ce code avec votre partenaire
               </Text>
+              <Text style={styles.rulesText}>{describeRules(resolveRules(game.rules))}</Text>
             </View>
 
             {/* Players */}
@@ -348,24 +355,42 @@ const Puissance4LobbyScreen: React.FC<any> = ({ route, navigation }) => {
               )
             )}
 
-            {/* Ready Button */}
-            <TouchableOpacity
-              style={[
-                styles.readyButton,
-                isReady && styles.readyButtonActive,
-              ]}
-              onPress={handleToggleReady}
-              disabled={game.players.length < 2}
-            >
-              <MaterialCommunityIcons
-                name={isReady ? 'check-circle' : 'circle-outline'}
-                size={24}
-                color="#FFFFFF"
-              />
-              <Text style={styles.readyButtonText}>
-                {isReady ? 'Prêt !' : 'Je suis prêt'}
-              </Text>
-            </TouchableOpacity>
+            {/* Spectators */}
+            {(game.spectators || []).length > 0 && (
+              <View style={styles.spectatorsRow}>
+                <MaterialCommunityIcons name="eye-outline" size={20} color={CurrentTheme.text.secondary} />
+                <Text style={styles.stakeText}>
+                  Spectateurs : {(game.spectators || []).map(s => s.name).join(', ')}
+                </Text>
+              </View>
+            )}
+
+            {isSpectator ? (
+              <View style={styles.spectatorNotice}>
+                <MaterialCommunityIcons name="eye" size={24} color="#FFFFFF" />
+                <Text style={styles.readyButtonText}>
+                  Vous regarderez la partie dès qu'elle commence
+                </Text>
+              </View>
+            ) : (
+              <TouchableOpacity
+                style={[
+                  styles.readyButton,
+                  isReady && styles.readyButtonActive,
+                ]}
+                onPress={handleToggleReady}
+                disabled={game.players.length < 2}
+              >
+                <MaterialCommunityIcons
+                  name={isReady ? 'check-circle' : 'circle-outline'}
+                  size={24}
+                  color="#FFFFFF"
+                />
+                <Text style={styles.readyButtonText}>
+                  {isReady ? 'Prêt !' : 'Je suis prêt'}
+                </Text>
+              </TouchableOpacity>
+            )}
 
             {/* Start Button (Host only) */}
             {isHost && (
@@ -480,6 +505,12 @@ const styles = StyleSheet.create({
     marginBottom: 24,
     alignItems: 'center',
   },
+  rulesText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: CurrentTheme.text.primary,
+    marginTop: 12,
+  },
   roomCodeLabel: {
     fontSize: 14,
     color: CurrentTheme.text.secondary,
@@ -627,6 +658,22 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: CurrentTheme.romantic.primary,
   },
+  spectatorsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  spectatorNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    marginBottom: 16,
+  },
   readyButton: {
     flexDirection: 'row',
     alignItems: 'center',
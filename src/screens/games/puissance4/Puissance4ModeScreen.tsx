@@ -1,4 +1,4 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -19,6 +19,8 @@ import FeedbackService from '../../../services/FeedbackService';
 import { useApp } from '../../../context/AppContext';
 import { getBackgroundSource } from '../../../utils/backgroundUtils';
 import { DareButton } from '../../../components/DareButton';
+import Puissance4RulesPicker from '../../../components/puissance4/Puissance4RulesPicker';
+import { DEFAULT_PUISSANCE4_RULES, Puissance4Rules } from '../../../utils/puissance4Logic';
 
 const { width } = Dimensions.get('window');
 
@@ -68,6 +70,7 @@ const MODES: ModeOption[] = [
 
 const Puissance4ModeScreen: React.FC<any> = ({ navigation }) => {
   const { user } = useApp();
+  const [rules, setRules] = useState<Puissance4Rules>(DEFAULT_PUISSANCE4_RULES);
   const fadeAnims = useRef(MODES.map(() => new Animated.Value(0))).current;
   const scaleAnims = useRef(MODES.map(() => new Animated.Value(0.8))).current;
 
@@ -99,11 +102,12 @@ const Puissance4ModeScreen: React.FC<any> = ({ navigation }) => {
 
     switch (modeId) {
       case 'ai':
-        navigation.navigate('puissance4AIDifficulty');
+        navigation.navigate('puissance4AIDifficulty', { rules });
         break;
       case 'local':
         navigation.navigate('puissance4Game', {
           mode: 'local',
+          rules,
           players: [
             { id: 'player1', name: 'Joueur 1', color: 'Rouge' },
             { id: 'player2', name: 'Joueur 2', color: 'Jaune' },
@@ -111,7 +115,7 @@ const Puissance4ModeScreen: React.FC<any> = ({ navigation }) => {
         });
         break;
       case 'online':
-        navigation.navigate('puissance4Online');
+        navigation.navigate('puissance4Online', { rules });
         break;
       case 'stats':
         // TODO: Implement stats screen
@@ -166,6 +170,8 @@ const Puissance4ModeScreen: React.FC<any> = ({ navigation }) => {
               <Text style={styles.subtitle}>Choisissez un mode de jeu</Text>
             </View>
 
+            <Puissance4RulesPicker rules={rules} onChange={setRules} />
+
             {MODES.map((mode, index) => (
               <Animated.View
                 key={mode.id}
@@ -20,17 +20,22 @@ import { useApp } from '../../../context/AppContext';
 import { getBackgroundSource } from '../../../utils/backgroundUtils';
 import { Puissance4Service } from '../../../services/Puissance4Service';
 import CustomAlert from '../../../components/common/CustomAlert';
+import TimeControlPicker from '../../../components/multiplayer/TimeControlPicker';
+import { TIME_CONTROL_PRESETS } from '../../../utils/timeControl';
 import { useCustomAlert } from '../../../hooks/useCustomAlert';
 
 const { width } = Dimensions.get('window');
 
-const Puissance4OnlineScreen: React.FC<any> = ({ navigation }) => {
+const Puissance4OnlineScreen: React.FC<any> = ({ navigation, route }) => {
+  const { rules } = route.params || {};
   const { user } = useApp();
   const { alertConfig, isVisible, showAlert, hideAlert } = useCustomAlert();
 
   const [roomCode, setRoomCode] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
+  const [isWatching, setIsWatching] = useState(false);
+  const [timeControlId, setTimeControlId] = useState(TIME_CONTROL_PRESETS[0].id);
 
   const handleCreateGame = async () => {
     if (!user) return;
@@ -45,7 +50,8 @@ const Puissance4OnlineScreen: React.FC<any> = ({ navigation }) => {
           : { type: 'emoji' as const, value: user.profilePicture || '👤' },
       };
 
-      const gameId = await Puissance4Service.createGame(playerProfile);
+      const timeControl = TIME_CONTROL_PRESETS.find(p => p.id === timeControlId)?.timeControl || null;
+      const gameId = await Puissance4Service.createGame(playerProfile, { timeControl, rules });
 
       FeedbackService.success();
       navigation.navigate('puissance4Lobby', { gameId });
@@ -101,6 +107,36 @@ const Puissance4OnlineScreen: React.FC<any> = ({ navigation }) => {
     }
   };
 
+  // Regarder la partie d'amis en lecture seule
+  const handleWatchGame = async () => {
+    if (!user) return;
+
+    const code = roomCode.trim().toUpperCase();
+    if (code.length !== 6) return;
+
+    setIsWatching(true);
+    try {
+      const spectatorProfile = {
+        id: user.id,
+        name: user.name || 'Spectateur',
+      };
+
+      const gameId = await Puissance4Service.joinAsSpectator(code, spectatorProfile);
+
+      FeedbackService.success();
+      navigation.navigate('puissance4Lobby', { gameId, isSpectator: true });
+    } catch (error: any) {
+      console.error('Error watching game:', error);
+      showAlert({
+        title: 'Impossible de regarder',
+        message: error.message || 'Partie non trouvée',
+        type: 'error',
+      });
+    } finally {
+      setIsWatching(false);
+    }
+  };
+
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -148,6 +184,14 @@ const Puissance4OnlineScreen: React.FC<any> = ({ navigation }) => {
               <Text style={styles.optionDescription}>
                 Créez une nouvelle partie et invitez votre partenaire avec un code
               </Text>
+              <TimeControlPicker
+                selectedId={timeControlId}
+                onSelect={(id) => {
+                  FeedbackService.buttonPress();
+                  setTimeControlId(id);
+                }}
+                accentColor={CurrentTheme.romantic.primary}
+              />
               <TouchableOpacity
                 style={[styles.actionButton, styles.createButton]}
                 onPress={handleCreateGame}
@@ -178,7 +222,7 @@ const Puissance4OnlineScreen: React.FC<any> = ({ navigation }) => {
               </View>
               <Text style={styles.optionTitle}>Rejoindre une partie</Text>
               <Text style={styles.optionDescription}>
-                Entrez le code de partie partagé par votre partenaire
+                Entrez le code de partie pour jouer, ou pour la regarder en spectateur
               </Text>
 
               <View style={styles.inputContainer}>
@@ -208,6 +252,21 @@ const Puissance4OnlineScreen: React.FC<any> = ({ navigation }) => {
                   </>
                 )}
               </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.actionButton, styles.watchButton]}
+                onPress={handleWatchGame}
+                disabled={isWatching || roomCode.length !== 6}
+              >
+                {isWatching ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <>
+                    <MaterialCommunityIcons name="eye" size={24} color="#FFFFFF" />
+                    <Text style={styles.actionButtonText}>Regarder</Text>
+                  </>
+                )}
+              </TouchableOpacity>
             </View>
 
             {/* Info Card */}
@@ -340,6 +399,10 @@ const styles = StyleSheet.create({
   joinButton: {
     backgroundColor: CurrentTheme.romantic.secondary,
   },
+  watchButton: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    marginTop: 12,
+  },
   actionButtonText: {
     fontSize: 18,
     fontWeight: 'bold',
@@ -19,11 +19,13 @@ import { PUISSANCE4_CONFIG } from '../../../constants/Puissance4Constants';
 import { useApp } from '../../../context/AppContext';
 import { getBackgroundSource } from '../../../utils/backgroundUtils';
 import { Puissance4Stakes } from '../../../types/puissance4.types';
+import StakesLedgerService from '../../../services/StakesLedgerService';
+import { getStakeDebtId } from '../../../utils/stakesLedger';
 
 const { width } = Dimensions.get('window');
 
 const Puissance4ResultsScreen: React.FC<any> = ({ route, navigation }) => {
-  const { winner, message, moveCount, winningLine, mode, difficulty, stakes, isWinner } = route.params || {};
+  const { winner, message, moveCount, winningLine, mode, difficulty, stakes, isWinner, gameId } = route.params || {};
   const { user } = useApp();
 
   const [rewardClaimed, setRewardClaimed] = useState(false);
@@ -90,10 +92,27 @@ const Puissance4ResultsScreen: React.FC<any> = ({ route, navigation }) => {
     navigation.navigate('home');
   };
 
-  const handleClaimReward = () => {
+  // En ligne, le gage est inscrit au carnet du couple : le réclamer y met à jour la dette
+  const hasLedgerEntry = mode === 'online' && !!gameId;
+
+  const handleClaimReward = async () => {
+    if (hasLedgerEntry && user?.id) {
+      try {
+        await StakesLedgerService.claimDebt(getStakeDebtId('puissance4', gameId), user.id);
+      } catch (error) {
+        console.error('Error claiming stake:', error);
+        FeedbackService.error();
+        return;
+      }
+    }
+
     FeedbackService.success();
     setRewardClaimed(true);
-    // TODO: Add animation or effect
+  };
+
+  const handleOpenLedger = () => {
+    FeedbackService.buttonPress();
+    navigation.navigate('stakesLedger');
   };
 
   const getStakesMessage = () => {
@@ -262,6 +281,13 @@ const Puissance4ResultsScreen: React.FC<any> = ({ route, navigation }) => {
                     </Text>
                   </View>
                 )}
+
+                {hasLedgerEntry && (
+                  <TouchableOpacity style={styles.ledgerLink} onPress={handleOpenLedger}>
+                    <MaterialCommunityIcons name="notebook-heart-outline" size={18} color="#FFFFFF" />
+                    <Text style={styles.ledgerLinkText}>Voir le carnet des gages</Text>
+                  </TouchableOpacity>
+                )}
               </View>
             )}
 
@@ -467,6 +493,18 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#4CAF50',
   },
+  ledgerLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+  },
+  ledgerLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textDecorationLine: 'underline',
+  },
   forfeitBadge: {
     backgroundColor: 'rgba(255, 255, 255, 0.1)',
     paddingVertical: 12,
@@ -176,7 +176,7 @@ const CooperativeLobbyScreen: React.FC<CooperativeLobbyScreenProps> = ({
         <View style={styles.infoContainer}>
           <View style={styles.infoItem}>
             <Text style={styles.infoLabel}>Thème:</Text>
-            <Text style={styles.infoValue}>{game.themeId}</Text>
+            <Text style={styles.infoValue}>{game.themeName || game.themeId}</Text>
           </View>
           <View style={styles.infoItem}>
             <Text style={styles.infoLabel}>Difficulté:</Text>
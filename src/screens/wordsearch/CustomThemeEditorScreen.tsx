@@ -0,0 +1,380 @@
+import React, { useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { WORD_SEARCH_COLORS } from '../../data/constants/colors';
+import { CustomWordTheme, Difficulty } from '../../types/wordSearch.types';
+import { CustomThemeInput } from '../../services/wordsearch/CustomThemeService';
+import {
+  CUSTOM_THEME_MAX_WORDS,
+  CUSTOM_THEME_MIN_WORDS,
+  CUSTOM_THEME_NAME_MAX_LENGTH,
+  getCustomWordIssueMessage,
+  parseCustomWordsInput,
+  validateCustomWords,
+} from '../../utils/wordsearch/customThemes';
+import CustomAlert from '../../components/common/CustomAlert';
+import { useCustomAlert } from '../../hooks/useCustomAlert';
+
+interface CustomThemeEditorScreenProps {
+  theme?: CustomWordTheme; // Absent pour un nouveau thème
+  onSave: (input: CustomThemeInput) => Promise<void>;
+  onDelete?: () => Promise<void>;
+  onBack: () => void;
+}
+
+const ICON_OPTIONS = [
+  { icon: '💕', color: WORD_SEARCH_COLORS.primary },
+  { icon: '✈️', color: WORD_SEARCH_COLORS.info },
+  { icon: '🐾', color: WORD_SEARCH_COLORS.warning },
+  { icon: '😂', color: WORD_SEARCH_COLORS.accentDark },
+  { icon: '🏠', color: WORD_SEARCH_COLORS.success },
+  { icon: '🎉', color: WORD_SEARCH_COLORS.cellFoundQuaternary },
+];
+
+const difficultyLabels: Record<Difficulty, string> = {
+  easy: 'Facile',
+  medium: 'Moyen',
+  hard: 'Difficile',
+  expert: 'Expert',
+};
+
+const CustomThemeEditorScreen: React.FC<CustomThemeEditorScreenProps> = ({
+  theme,
+  onSave,
+  onDelete,
+  onBack,
+}) => {
+  const { alertConfig, isVisible, showAlert, hideAlert } = useCustomAlert();
+  const [name, setName] = useState(theme?.name || '');
+  const [iconIndex, setIconIndex] = useState(
+    Math.max(0, ICON_OPTIONS.findIndex(option => option.icon === theme?.icon))
+  );
+  const [wordsText, setWordsText] = useState(theme?.words.join('\n') || '');
+  const [sharedWithPartner, setSharedWithPartner] = useState(theme?.sharedWithPartner ?? true);
+  const [saving, setSaving] = useState(false);
+
+  // Validation en direct : accents retirés, mots trop longs ou en double signalés
+  const validation = useMemo(
+    () => validateCustomWords(parseCustomWordsInput(wordsText)),
+    [wordsText]
+  );
+  const canSave = validation.isValid && name.trim().length > 0 && !saving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setSaving(true);
+    try {
+      await onSave({
+        id: theme?.id,
+        name,
+        icon: ICON_OPTIONS[iconIndex].icon,
+        color: ICON_OPTIONS[iconIndex].color,
+        words: validation.words,
+        sharedWithPartner,
+      });
+    } catch (error: any) {
+      showAlert({
+        title: 'Erreur',
+        message: error?.message || 'Impossible d\'enregistrer le thème',
+        type: 'error',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!onDelete) return;
+
+    showAlert({
+      title: 'Supprimer le thème',
+      message: 'Ce thème sera aussi retiré pour ton partenaire.',
+      type: 'warning',
+      buttons: [
+        { text: 'Annuler', style: 'cancel' },
+        {
+          text: 'Supprimer',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await onDelete();
+            } catch {
+              showAlert({
+                title: 'Erreur',
+                message: 'Impossible de supprimer le thème',
+                type: 'error',
+              });
+            }
+          },
+        },
+      ],
+    });
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={onBack}>
+            <Text style={styles.backButtonText}>← Retour</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>{theme ? 'Modifier le thème' : 'Nouveau thème'}</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Nom</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="Ex : Nos voyages"
+            placeholderTextColor={WORD_SEARCH_COLORS.textLight}
+            maxLength={CUSTOM_THEME_NAME_MAX_LENGTH}
+          />
+
+          <Text style={styles.label}>Icône</Text>
+          <View style={styles.iconRow}>
+            {ICON_OPTIONS.map((option, index) => (
+              <TouchableOpacity
+                key={option.icon}
+                style={[
+                  styles.iconButton,
+                  { borderColor: option.color },
+                  iconIndex === index && { backgroundColor: option.color },
+                ]}
+                onPress={() => setIconIndex(index)}
+              >
+                <Text style={styles.iconText}>{option.icon}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Mots</Text>
+          <Text style={styles.hint}>
+            Un mot par ligne ou séparés par des virgules ({CUSTOM_THEME_MIN_WORDS} à {CUSTOM_THEME_MAX_WORDS} mots).
+            Les accents, espaces et traits d'union sont retirés.
+          </Text>
+          <TextInput
+            style={[styles.input, styles.wordsInput]}
+            value={wordsText}
+            onChangeText={setWordsText}
+            placeholder={'Saint-Malo\nLisbonne\nCrème brûlée'}
+            placeholderTextColor={WORD_SEARCH_COLORS.textLight}
+            multiline
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+
+          <View style={styles.validationCard}>
+            <Text style={styles.validationTitle}>{validation.words.length} mots valides</Text>
+            {validation.playableDifficulties.length > 0 && (
+              <Text style={styles.validationText}>
+                Jouable en : {validation.playableDifficulties.map(d => difficultyLabels[d]).join(', ')}
+              </Text>
+            )}
+            {validation.rejected.map((check, index) => (
+              <Text key={`${check.input}_${index}`} style={styles.warningText}>
+                ⚠️ {getCustomWordIssueMessage(check)}
+              </Text>
+            ))}
+            {validation.errors.map(error => (
+              <Text key={error} style={styles.errorText}>{error}</Text>
+            ))}
+          </View>
+
+          <View style={styles.shareRow}>
+            <Text style={styles.shareLabel}>Partager avec mon partenaire</Text>
+            <Switch
+              value={sharedWithPartner}
+              onValueChange={setSharedWithPartner}
+              trackColor={{ false: WORD_SEARCH_COLORS.buttonDisabled, true: WORD_SEARCH_COLORS.primaryLight }}
+              thumbColor={sharedWithPartner ? WORD_SEARCH_COLORS.primary : WORD_SEARCH_COLORS.cellDefault}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.saveButton, !canSave && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={!canSave}
+          >
+            {saving ? (
+              <ActivityIndicator color={WORD_SEARCH_COLORS.textWhite} />
+            ) : (
+              <Text style={styles.saveButtonText}>Enregistrer</Text>
+            )}
+          </TouchableOpacity>
+
+          {onDelete && (
+            <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+              <Text style={styles.deleteButtonText}>Supprimer le thème</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </View>
+      <CustomAlert
+        visible={isVisible}
+        title={alertConfig?.title || ''}
+        message={alertConfig?.message || ''}
+        type={alertConfig?.type}
+        buttons={alertConfig?.buttons}
+        onClose={hideAlert}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: WORD_SEARCH_COLORS.background,
+  },
+  container: {
+    flex: 1,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  backButton: {
+    flex: 1,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: WORD_SEARCH_COLORS.primary,
+    fontWeight: '600',
+  },
+  title: {
+    flex: 2,
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: WORD_SEARCH_COLORS.textPrimary,
+    textAlign: 'center',
+  },
+  placeholder: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: WORD_SEARCH_COLORS.textPrimary,
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  hint: {
+    fontSize: 13,
+    color: WORD_SEARCH_COLORS.textSecondary,
+    marginBottom: 8,
+    lineHeight: 18,
+  },
+  input: {
+    backgroundColor: WORD_SEARCH_COLORS.cardBg,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: WORD_SEARCH_COLORS.textDark,
+  },
+  wordsInput: {
+    minHeight: 160,
+    textAlignVertical: 'top',
+  },
+  iconRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  iconButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: WORD_SEARCH_COLORS.cardBg,
+  },
+  iconText: {
+    fontSize: 22,
+  },
+  validationCard: {
+    backgroundColor: WORD_SEARCH_COLORS.cardBg,
+    borderRadius: 12,
+    padding: 14,
+    marginTop: 12,
+    gap: 4,
+  },
+  validationTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: WORD_SEARCH_COLORS.textPrimary,
+  },
+  validationText: {
+    fontSize: 13,
+    color: WORD_SEARCH_COLORS.textSecondary,
+  },
+  warningText: {
+    fontSize: 13,
+    color: WORD_SEARCH_COLORS.warning,
+  },
+  errorText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: WORD_SEARCH_COLORS.error,
+  },
+  shareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: WORD_SEARCH_COLORS.cardBg,
+    borderRadius: 12,
+    padding: 14,
+    marginTop: 16,
+  },
+  shareLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: WORD_SEARCH_COLORS.textPrimary,
+  },
+  saveButton: {
+    backgroundColor: WORD_SEARCH_COLORS.primary,
+    borderRadius: 16,
+    padding: 18,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: WORD_SEARCH_COLORS.textWhite,
+  },
+  deleteButton: {
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: WORD_SEARCH_COLORS.error,
+  },
+});
+
+export default CustomThemeEditorScreen;
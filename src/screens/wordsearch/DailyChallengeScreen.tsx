@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, SafeAreaView, ScrollView, ActivityIndicator } from 'react-native';
+import { WORD_SEARCH_COLORS } from '../../data/constants/colors';
+import { DIFFICULTY_CONFIGS } from '../../data/constants/gameRules';
+import { WORD_THEMES } from '../../data/themes';
+import { DailyChallenge, DailyChallengeResult } from '../../types/wordSearch.types';
+import { DailyChallengeService } from '../../services/wordsearch/DailyChallengeService';
+import { AvatarDisplay } from '../../utils/avatarUtils';
+
+interface DailyChallengeScreenProps {
+  challenge: DailyChallenge;
+  onPlay: () => void;
+  onBack: () => void;
+}
+
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remaining = seconds % 60;
+  return `${minutes}:${remaining.toString().padStart(2, '0')}`;
+};
+
+const DailyChallengeScreen: React.FC<DailyChallengeScreenProps> = ({
+  challenge,
+  onPlay,
+  onBack,
+}) => {
+  const [leaderboard, setLeaderboard] = useState<DailyChallengeResult[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const theme = WORD_THEMES.find(t => t.id === challenge.themeId);
+  const config = DIFFICULTY_CONFIGS[challenge.difficulty];
+
+  useEffect(() => {
+    let cancelled = false;
+
+    DailyChallengeService.getLeaderboard(challenge.dateKey).then(results => {
+      if (!cancelled) {
+        setLeaderboard(results);
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [challenge.dateKey]);
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        <TouchableOpacity style={styles.backButton} onPress={onBack}>
+          <Text style={styles.backButtonText}>← Retour</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.title}>Défi du jour</Text>
+        <Text style={styles.subtitle}>La même grille pour vous deux, aujourd'hui seulement</Text>
+
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          <View style={styles.challengeCard}>
+            <Text style={styles.challengeIcon}>{theme?.icon || '📅'}</Text>
+            <Text style={styles.challengeTheme}>{theme?.name || challenge.themeId}</Text>
+            <View style={styles.statsContainer}>
+              <View style={styles.stat}>
+                <Text style={styles.statLabel}>Difficulté</Text>
+                <Text style={styles.statValue}>{challenge.difficulty.toUpperCase()}</Text>
+              </View>
+              <View style={styles.stat}>
+                <Text style={styles.statLabel}>Grille</Text>
+                <Text style={styles.statValue}>{config.gridSize}×{config.gridSize}</Text>
+              </View>
+              <View style={styles.stat}>
+                <Text style={styles.statLabel}>Mots</Text>
+                <Text style={styles.statValue}>{config.wordCount}</Text>
+              </View>
+            </View>
+          </View>
+
+          <Text style={styles.sectionTitle}>Classement</Text>
+          {loading ? (
+            <ActivityIndicator color={WORD_SEARCH_COLORS.primary} />
+          ) : leaderboard.length === 0 ? (
+            <Text style={styles.emptyText}>Personne n'a encore relevé le défi aujourd'hui</Text>
+          ) : (
+            leaderboard.map((entry, index) => (
+              <View key={entry.userId} style={styles.resultRow}>
+                <Text style={styles.rank}>{index === 0 ? '🏆' : `${index + 1}`}</Text>
+                <View style={styles.resultAvatar}>
+                  <AvatarDisplay
+                    avatar={entry.avatar}
+                    imageStyle={styles.resultAvatarImage}
+                    textStyle={styles.resultAvatarEmoji}
+                  />
+                </View>
+                <View style={styles.resultInfo}>
+                  <Text style={styles.resultName}>{entry.name}</Text>
+                  <Text style={styles.resultDetail}>
+                    {entry.wordsFound}/{entry.totalWords} mots • {entry.score} pts
+                  </Text>
+                </View>
+                <Text style={styles.resultTime}>{formatTime(entry.timeElapsed)}</Text>
+              </View>
+            ))
+          )}
+        </ScrollView>
+
+        <TouchableOpacity style={styles.playButton} onPress={onPlay}>
+          <Text style={styles.playButtonText}>Jouer le défi</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: WORD_SEARCH_COLORS.background,
+  },
+  container: {
+    flex: 1,
+    padding: 20,
+  },
+  backButton: {
+    marginBottom: 20,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: WORD_SEARCH_COLORS.primary,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: WORD_SEARCH_COLORS.textPrimary,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: WORD_SEARCH_COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    gap: 12,
+    paddingBottom: 20,
+  },
+  challengeCard: {
+    backgroundColor: WORD_SEARCH_COLORS.cardBg,
+    borderRadius: 20,
+    padding: 20,
+    alignItems: 'center',
+    borderWidth: 3,
+    borderColor: WORD_SEARCH_COLORS.accentDark,
+    marginBottom: 12,
+  },
+  challengeIcon: {
+    fontSize: 48,
+    marginBottom: 8,
+  },
+  challengeTheme: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: WORD_SEARCH_COLORS.textPrimary,
+    marginBottom: 16,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    alignSelf: 'stretch',
+  },
+  stat: {
+    alignItems: 'center',
+  },
+  statLabel: {
+    fontSize: 12,
+    color: WORD_SEARCH_COLORS.textSecondary,
+    marginBottom: 4,
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: WORD_SEARCH_COLORS.textPrimary,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: WORD_SEARCH_COLORS.textPrimary,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: WORD_SEARCH_COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: WORD_SEARCH_COLORS.cardBg,
+    borderRadius: 16,
+    padding: 12,
+    gap: 12,
+  },
+  rank: {
+    width: 28,
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    color: WORD_SEARCH_COLORS.textPrimary,
+  },
+  resultAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: WORD_SEARCH_COLORS.primaryLight,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  resultAvatarImage: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+  },
+  resultAvatarEmoji: {
+    fontSize: 24,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: WORD_SEARCH_COLORS.textPrimary,
+  },
+  resultDetail: {
+    fontSize: 12,
+    color: WORD_SEARCH_COLORS.textSecondary,
+    marginTop: 2,
+  },
+  resultTime: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: WORD_SEARCH_COLORS.primary,
+  },
+  playButton: {
+    backgroundColor: WORD_SEARCH_COLORS.primary,
+    borderRadius: 16,
+    padding: 18,
+    alignItems: 'center',
+  },
+  playButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: WORD_SEARCH_COLORS.textWhite,
+  },
+});
+
+export default DailyChallengeScreen;
@@ -11,7 +11,7 @@ import BonusWordsRevealModal from '../../components/wordsearch/ui/BonusWordsReve
 import PowerUpsBar from '../../components/wordsearch/ui/PowerUpsBar';
 import QuickShopModal from '../../components/wordsearch/ui/QuickShopModal';
 import { WORD_SEARCH_COLORS } from '../../data/constants/colors';
-import { Difficulty, Word, PlayerPowerUps } from '../../types/wordSearch.types';
+import { Difficulty, Word, PlayerPowerUps, GridShapeName } from '../../types/wordSearch.types';
 
 interface GameScreenProps {
   difficulty: Difficulty;
@@ -20,6 +20,9 @@ interface GameScreenProps {
   themeName: string;
   levelId?: number;
   bonusWords?: string[];
+  seed?: string; // Défi du jour : grille reproductible
+  shape?: GridShapeName; // Niveau spécial : grille en forme
+  powerUpsEnabled?: boolean; // Désactivés quand les temps sont comparés
   onExit?: () => void;
   onGameComplete?: (result: any) => void;
 }
@@ -31,10 +34,13 @@ const GameScreen: React.FC<GameScreenProps> = ({
   themeName,
   levelId,
   bonusWords = [],
+  seed,
+  shape,
+  powerUpsEnabled = true,
   onExit,
   onGameComplete,
 }) => {
-  const { profile, usePowerUp, addPowerUp, spendCoins } = useProfile();
+  const { profile, usePowerUp, refundEntry, purchasePowerUp } = useProfile();
   const { currentTheme } = usePreferences();
   const [foundWordAnimation, setFoundWordAnimation] = useState<string | null>(null);
   const [isBonusWord, setIsBonusWord] = useState<boolean>(false);
@@ -85,6 +91,8 @@ const GameScreen: React.FC<GameScreenProps> = ({
     themeId,
     levelId,
     bonusWords,
+    seed,
+    shape,
     onGameComplete,
     onWordFound: handleWordFound,
     onAllRegularWordsFound: handleAllRegularWordsFound,
@@ -95,7 +103,11 @@ const GameScreen: React.FC<GameScreenProps> = ({
   };
 
   const handleUsePowerUp = async (type: keyof PlayerPowerUps) => {
+    let entryId: string | null = null;
     try {
+      // Deduct from profile first: the effect only applies to an owned power-up
+      entryId = await usePowerUp(type);
+
       // Apply the power-up effect to the game
       switch (type) {
         case 'revealLetter':
@@ -111,11 +123,12 @@ const GameScreen: React.FC<GameScreenProps> = ({
           gamePowerUps.highlightFirst();
           break;
       }
-
-      // Deduct from profile
-      await usePowerUp(type);
     } catch (error) {
       console.error('Error using power-up:', error);
+      // Give the power-up back if the effect could not be applied
+      if (entryId) {
+        refundEntry(entryId).catch(refundError => console.error('Error refunding power-up:', refundError));
+      }
     }
   };
 
@@ -125,19 +138,8 @@ const GameScreen: React.FC<GameScreenProps> = ({
   };
 
   const handlePurchasePowerUp = async (type: keyof PlayerPowerUps, quantity: number) => {
-    const PRICES: Record<keyof PlayerPowerUps, number> = {
-      revealLetter: 10,
-      revealWord: 30,
-      timeFreeze: 20,
-      highlightFirst: 15,
-    };
-
-    const totalCost = PRICES[type] * quantity;
-
-    // Spend coins
-    await spendCoins(totalCost);
-    // Add power-ups to inventory
-    await addPowerUp(type, quantity);
+    // Price and inventory are recorded together in the ledger
+    await purchasePowerUp(type, quantity);
   };
 
   if (!grid) {
@@ -201,7 +203,7 @@ const GameScreen: React.FC<GameScreenProps> = ({
         </View>
 
         {/* Power-Ups Bar */}
-        {profile && profile.powerUps && (
+        {powerUpsEnabled && profile && profile.powerUps && (
           <PowerUpsBar
             powerUps={profile.powerUps}
             onUsePowerUp={handleUsePowerUp}
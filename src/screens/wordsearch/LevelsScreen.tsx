@@ -12,6 +12,7 @@ import { WORD_SEARCH_COLORS } from '../../data/constants/colors';
 import { LEVELS, isLevelUnlocked, LevelDefinition } from '../../data/levels';
 import { WORLDS } from '../../data/levels/worlds';
 import { useProfile } from '../../hooks/storage/useProfile';
+import { GRID_SHAPE_ICONS } from '../../utils/wordsearch/gridMasks';
 
 const { width } = Dimensions.get('window');
 const CARD_WIDTH = (width - 60) / 3; // 3 cards per row with padding
@@ -94,7 +95,10 @@ const LevelsScreen: React.FC<LevelsScreenProps> = ({ onSelectLevel, onBack }) =>
         </Text>
 
         {/* Difficulty icon */}
-        <Text style={styles.difficultyIcon}>{difficultyIcons[level.difficulty]}</Text>
+        <Text style={styles.difficultyIcon}>
+          {difficultyIcons[level.difficulty]}
+          {level.shape ? ` ${GRID_SHAPE_ICONS[level.shape]}` : ''}
+        </Text>
 
         {/* Rewards */}
         <View style={styles.rewards}>
@@ -11,6 +11,7 @@ interface MenuScreenProps {
   onSettings: () => void;
   onShop: () => void;
   onLevels: () => void;
+  onDailyChallenge: () => void;
   onEditProfile?: () => void;
   playerName?: string;
   coins?: number;
@@ -24,6 +25,7 @@ const MenuScreen: React.FC<MenuScreenProps> = ({
   onSettings,
   onShop,
   onLevels,
+  onDailyChallenge,
   onEditProfile,
   playerName = 'Player',
   coins = 0,
@@ -89,6 +91,14 @@ const MenuScreen: React.FC<MenuScreenProps> = ({
             <Text style={styles.menuButtonSubtext}>Joue avec des amis</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity style={styles.dailyButton} onPress={onDailyChallenge}>
+            <Text style={styles.dailyButtonIcon}>📅</Text>
+            <View>
+              <Text style={styles.dailyButtonText}>Défi du jour</Text>
+              <Text style={styles.menuButtonSubtext}>Même grille pour vous deux, comparez vos temps</Text>
+            </View>
+          </TouchableOpacity>
+
           <View style={styles.secondaryButtons}>
             <TouchableOpacity style={styles.secondaryButton} onPress={onPlaySolo}>
               <Text style={styles.secondaryButtonIcon}>🎯</Text>
@@ -248,6 +258,31 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: WORD_SEARCH_COLORS.textSecondary,
   },
+  dailyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    backgroundColor: WORD_SEARCH_COLORS.cardBg,
+    borderRadius: 20,
+    borderWidth: 3,
+    borderColor: WORD_SEARCH_COLORS.accentDark,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  dailyButtonIcon: {
+    fontSize: 36,
+  },
+  dailyButtonText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: WORD_SEARCH_COLORS.textPrimary,
+    marginBottom: 2,
+  },
   secondaryButtons: {
     flexDirection: 'row',
     gap: 10,
@@ -14,6 +14,7 @@ import { MultiplayerService } from '../../services/multiplayer/MultiplayerServic
 import { WordSearchGenerator } from '../../services/wordsearch/WordSearchGenerator';
 import { DIFFICULTY_CONFIGS } from '../../data/constants/gameRules';
 import { WORD_THEMES } from '../../data/themes';
+import { getCustomThemeConfig } from '../../utils/wordsearch/customThemes';
 import { AvatarDisplay } from '../../utils/avatarUtils';
 import CustomAlert from '../../components/common/CustomAlert';
 import { useCustomAlert } from '../../hooks/useCustomAlert';
@@ -114,9 +115,10 @@ const MultiplayerLobbyScreen: React.FC<MultiplayerLobbyScreenProps> = ({
     }
 
     try {
-      // Générer la grille de jeu
+      // Générer la grille de jeu (un thème personnalisé voyage avec la partie)
       const theme = WORD_THEMES.find(t => t.id === game.theme || t.name === game.theme);
-      if (!theme) {
+      const words = game.themeWords || theme?.words;
+      if (!words) {
         showAlert({
           title: 'Erreur',
           message: 'Thème introuvable',
@@ -125,9 +127,11 @@ const MultiplayerLobbyScreen: React.FC<MultiplayerLobbyScreenProps> = ({
         return;
       }
 
-      const config = DIFFICULTY_CONFIGS[game.difficulty];
+      const config = game.themeWords
+        ? getCustomThemeConfig(DIFFICULTY_CONFIGS[game.difficulty])
+        : DIFFICULTY_CONFIGS[game.difficulty];
       const generator = new WordSearchGenerator(config.gridSize);
-      const grid = generator.generateGrid(theme.words, config, []);
+      const grid = generator.generateGrid(words, config, []);
 
       // Démarrer la partie avec la grille générée
       await MultiplayerService.startGame(gameId, grid);
@@ -7,9 +7,10 @@ import {
   SafeAreaView,
   TextInput,
   ActivityIndicator,
+  ScrollView,
 } from 'react-native';
 import { WORD_SEARCH_COLORS } from '../../data/constants/colors';
-import { Difficulty } from '../../types/wordSearch.types';
+import { Difficulty, WordTheme } from '../../types/wordSearch.types';
 import { MultiplayerService } from '../../services/multiplayer/MultiplayerService';
 import { CooperativeGameService } from '../../services/multiplayer/CooperativeGameService';
 import { WORD_THEMES } from '../../data/themes';
@@ -17,6 +18,8 @@ import auth from '@react-native-firebase/auth';
 import CustomAlert from '../../components/common/CustomAlert';
 import { useCustomAlert } from '../../hooks/useCustomAlert';
 import { useApp } from '../../context/AppContext';
+import { useCustomThemes } from '../../hooks/wordsearch/useCustomThemes';
+import { toWordTheme } from '../../utils/wordsearch/customThemes';
 
 interface MultiplayerMenuScreenProps {
   onGameCreated: (gameId: string, isHost: boolean) => void;
@@ -41,8 +44,29 @@ const MultiplayerMenuScreen: React.FC<MultiplayerMenuScreenProps> = ({
   const [activeTab, setActiveTab] = useState<'competitive' | 'cooperative' | 'join'>('competitive');
   const [roomCode, setRoomCode] = useState('');
   const [selectedDifficulty, setSelectedDifficulty] = useState<Difficulty>('medium');
+  const [selectedThemeId, setSelectedThemeId] = useState('animals');
   const maxPlayers = 2; // Fixed to 2 players
   const [loading, setLoading] = useState(false);
+  const { customThemes } = useCustomThemes();
+
+  // Thèmes gratuits et thèmes personnalisés (les siens et ceux du partenaire)
+  const themeOptions: WordTheme[] = [
+    ...WORD_THEMES.filter(theme => theme.unlocked),
+    ...customThemes.map(theme => toWordTheme(theme, auth().currentUser?.uid, selectedDifficulty)),
+  ];
+  const selectedTheme = themeOptions.find(theme => theme.id === selectedThemeId);
+
+  const checkSelectedTheme = (): WordTheme | null => {
+    if (!selectedTheme || !selectedTheme.unlocked) {
+      showAlert({
+        title: 'Attention',
+        message: selectedTheme ? selectedTheme.description : 'Choisis un thème',
+        type: 'warning',
+      });
+      return null;
+    }
+    return selectedTheme;
+  };
 
   const handleCreateGame = async () => {
     if (!user) {
@@ -54,6 +78,9 @@ const MultiplayerMenuScreen: React.FC<MultiplayerMenuScreenProps> = ({
       return;
     }
 
+    const theme = checkSelectedTheme();
+    if (!theme) return;
+
     setLoading(true);
     try {
       // Ensure user is authenticated
@@ -101,8 +128,9 @@ const MultiplayerMenuScreen: React.FC<MultiplayerMenuScreenProps> = ({
       const gameId = await MultiplayerService.createGame(
         playerProfile,
         selectedDifficulty,
-        'Animaux', // Default theme, can be made configurable
-        maxPlayers
+        theme.name,
+        maxPlayers,
+        theme.custom ? theme.words : undefined
       );
       onGameCreated(gameId, true);
     } catch (error: any) {
@@ -127,6 +155,9 @@ const MultiplayerMenuScreen: React.FC<MultiplayerMenuScreenProps> = ({
       return;
     }
 
+    const theme = checkSelectedTheme();
+    if (!theme) return;
+
     setLoading(true);
     try {
       // Ensure user is authenticated
@@ -137,20 +168,6 @@ const MultiplayerMenuScreen: React.FC<MultiplayerMenuScreenProps> = ({
         console.log('Anonymous sign-in successful');
       }
 
-      // Get words from default theme (animals)
-      const animalTheme = WORD_THEMES.find(t => t.id === 'animals');
-      const words = animalTheme?.words || [];
-
-      if (words.length === 0) {
-        showAlert({
-          title: 'Erreur',
-          message: 'Aucun mot disponible pour ce thème',
-          type: 'error',
-        });
-        setLoading(false);
-        return;
-      }
-
       // Build player profile from main app user (same as Quiz Couple)
       const playerProfile = {
         id: user.id,
@@ -188,8 +205,7 @@ const MultiplayerMenuScreen: React.FC<MultiplayerMenuScreenProps> = ({
       const gameId = await CooperativeGameService.createCooperativeGame(
         playerProfile,
         selectedDifficulty,
-        'animals',
-        words,
+        theme,
         maxPlayers
       );
       onCoopGameCreated(gameId, true);
@@ -205,6 +221,34 @@ const MultiplayerMenuScreen: React.FC<MultiplayerMenuScreenProps> = ({
     }
   };
 
+  const renderThemeOptions = () => (
+    <View style={styles.optionGroup}>
+      <Text style={styles.optionLabel}>Thème</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.themeOptionButtons}>
+        {themeOptions.map((theme) => (
+          <TouchableOpacity
+            key={theme.id}
+            style={[
+              styles.optionButton,
+              selectedThemeId === theme.id && styles.optionButtonActive,
+              !theme.unlocked && styles.optionButtonDisabled,
+            ]}
+            onPress={() => setSelectedThemeId(theme.id)}
+          >
+            <Text
+              style={[
+                styles.optionButtonText,
+                selectedThemeId === theme.id && styles.optionButtonTextActive,
+              ]}
+            >
+              {theme.icon} {theme.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+
   const handleJoinGame = async () => {
     if (!user) {
       showAlert({
@@ -352,6 +396,8 @@ const MultiplayerMenuScreen: React.FC<MultiplayerMenuScreenProps> = ({
                 </View>
               </View>
 
+              {renderThemeOptions()}
+
               {/* Create Button */}
               <TouchableOpacity
                 style={[styles.actionButton, loading && styles.actionButtonDisabled]}
@@ -399,6 +445,8 @@ const MultiplayerMenuScreen: React.FC<MultiplayerMenuScreenProps> = ({
                 </View>
               </View>
 
+              {renderThemeOptions()}
+
               {/* Create Button */}
               <TouchableOpacity
                 style={[styles.actionButton, loading && styles.actionButtonDisabled]}
@@ -568,6 +616,13 @@ const styles = StyleSheet.create({
   optionButtonTextActive: {
     color: WORD_SEARCH_COLORS.primary,
   },
+  optionButtonDisabled: {
+    opacity: 0.5,
+  },
+  themeOptionButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   inputLabel: {
     fontSize: 16,
     fontWeight: '600',
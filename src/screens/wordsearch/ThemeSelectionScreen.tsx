@@ -8,6 +8,8 @@ interface ThemeSelectionScreenProps {
   onSelectTheme: (theme: WordTheme) => void;
   onBack: () => void;
   userCoins?: number;
+  onCreateTheme?: () => void;
+  onEditTheme?: (themeId: string) => void;
 }
 
 const ThemeSelectionScreen: React.FC<ThemeSelectionScreenProps> = ({
@@ -15,6 +17,8 @@ const ThemeSelectionScreen: React.FC<ThemeSelectionScreenProps> = ({
   onSelectTheme,
   onBack,
   userCoins = 0,
+  onCreateTheme,
+  onEditTheme,
 }) => {
   return (
     <SafeAreaView style={styles.safeArea}>
@@ -32,6 +36,20 @@ const ThemeSelectionScreen: React.FC<ThemeSelectionScreenProps> = ({
         <Text style={styles.title}>Choisis un Thème</Text>
 
         <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          {onCreateTheme && (
+            <TouchableOpacity style={[styles.themeCard, styles.createCard]} onPress={onCreateTheme}>
+              <View style={styles.cardContent}>
+                <View style={[styles.iconContainer, { backgroundColor: WORD_SEARCH_COLORS.primaryLight }]}>
+                  <Text style={styles.themeIcon}>➕</Text>
+                </View>
+                <View style={styles.themeInfo}>
+                  <Text style={styles.themeName}>Créer mon thème</Text>
+                  <Text style={styles.themeDescription}>Vos lieux, vos surnoms, vos blagues...</Text>
+                </View>
+              </View>
+            </TouchableOpacity>
+          )}
+
           {themes.map((theme) => {
             const canPlay = theme.unlocked || (theme.price && userCoins >= theme.price);
 
@@ -64,7 +82,11 @@ const ThemeSelectionScreen: React.FC<ThemeSelectionScreenProps> = ({
                     </View>
                   )}
 
-                  {theme.unlocked && (
+                  {theme.custom && !theme.sharedBy && onEditTheme ? (
+                    <TouchableOpacity style={styles.editButton} onPress={() => onEditTheme(theme.id)}>
+                      <Text style={styles.editText}>✏️</Text>
+                    </TouchableOpacity>
+                  ) : theme.unlocked && (
                     <View style={styles.unlockedBadge}>
                       <Text style={styles.unlockedText}>✓</Text>
                     </View>
@@ -145,6 +167,10 @@ const styles = StyleSheet.create({
   lockedCard: {
     opacity: 0.6,
   },
+  createCard: {
+    borderColor: WORD_SEARCH_COLORS.primary,
+    borderStyle: 'dashed',
+  },
   cardContent: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -211,6 +237,17 @@ const styles = StyleSheet.create({
     color: WORD_SEARCH_COLORS.textWhite,
     fontWeight: 'bold',
   },
+  editButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: WORD_SEARCH_COLORS.primaryLight,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  editText: {
+    fontSize: 18,
+  },
 });
 
 export default ThemeSelectionScreen;
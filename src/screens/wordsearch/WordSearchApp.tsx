@@ -13,17 +13,24 @@ import MultiplayerGameScreen from './MultiplayerGameScreen';
 import CooperativeLobbyScreen from './CooperativeLobbyScreen';
 import CooperativeGameScreen from './CooperativeGameScreen';
 import SettingsScreen from './SettingsScreen';
+import DailyChallengeScreen from './DailyChallengeScreen';
+import CustomThemeEditorScreen from './CustomThemeEditorScreen';
 import EditProfileModal from '../../components/wordsearch/modals/EditProfileModal';
 import AvatarSelectorModal from '../../components/wordsearch/modals/AvatarSelectorModal';
 import CustomAlert from '../../components/common/CustomAlert';
 import { useCustomAlert } from '../../hooks/useCustomAlert';
 import { usePreferences } from '../../hooks/storage/usePreferences';
-import { Difficulty, WordTheme, ShopItem, MultiplayerGame, Avatar, PlayerStats } from '../../types/wordSearch.types';
+import { Difficulty, WordTheme, ShopItem, MultiplayerGame, Avatar, PlayerStats, DailyChallenge } from '../../types/wordSearch.types';
 import { WORD_THEMES } from '../../data/themes';
 import { LevelDefinition, getBonusWordsForLevel } from '../../data/levels';
 import { useProfile } from '../../hooks/storage/useProfile';
+import { useCustomThemes } from '../../hooks/wordsearch/useCustomThemes';
+import { CustomThemeInput } from '../../services/wordsearch/CustomThemeService';
+import { toWordTheme } from '../../utils/wordsearch/customThemes';
+import { DailyChallengeService } from '../../services/wordsearch/DailyChallengeService';
+import { OnlineGameMode, OnlineRewardService } from '../../services/wordsearch/OnlineRewardService';
 
-type Screen = 'menu' | 'difficulty' | 'theme' | 'game' | 'shop' | 'levels' | 'multiplayerMenu' | 'multiplayerLobby' | 'multiplayerGame' | 'cooperativeLobby' | 'cooperativeGame' | 'settings';
+type Screen = 'menu' | 'difficulty' | 'theme' | 'game' | 'shop' | 'levels' | 'multiplayerMenu' | 'multiplayerLobby' | 'multiplayerGame' | 'cooperativeLobby' | 'cooperativeGame' | 'settings' | 'dailyChallenge' | 'customTheme';
 
 interface WordSearchAppProps {
   userPhotoURL?: string;
@@ -34,6 +41,8 @@ const WordSearchApp: React.FC<WordSearchAppProps> = ({ userPhotoURL }) => {
   const [selectedDifficulty, setSelectedDifficulty] = useState<Difficulty>('easy');
   const [selectedTheme, setSelectedTheme] = useState<WordTheme | null>(null);
   const [selectedLevel, setSelectedLevel] = useState<LevelDefinition | null>(null);
+  const [dailyChallenge, setDailyChallenge] = useState<DailyChallenge | null>(null);
+  const [editingThemeId, setEditingThemeId] = useState<string | null>(null);
   const [currentMultiplayerGameId, setCurrentMultiplayerGameId] = useState<string | null>(null);
   const [isMultiplayerHost, setIsMultiplayerHost] = useState(false);
   const [currentCooperativeGameId, setCurrentCooperativeGameId] = useState<string | null>(null);
@@ -53,16 +62,17 @@ const WordSearchApp: React.FC<WordSearchAppProps> = ({ userPhotoURL }) => {
     createProfile,
     updateProfile,
     addXP,
-    addCoins,
-    spendCoins,
-    unlockTheme,
+    rewardGame,
+    recordOnlineReward,
+    purchaseItem,
     completeLevel,
-    addPowerUp,
     resetProgress,
     deleteProfile,
     updateStats,
   } = useProfile();
 
+  const { customThemes, loadThemes, saveTheme, deleteTheme } = useCustomThemes();
+
   // Créer un profil par défaut si aucun n'existe
   useEffect(() => {
     if (!loading && !profile) {
@@ -97,7 +107,25 @@ const WordSearchApp: React.FC<WordSearchAppProps> = ({ userPhotoURL }) => {
     setCurrentScreen('levels');
   };
 
+  const handleShowDailyChallenge = () => {
+    setDailyChallenge(DailyChallengeService.getChallenge());
+    setCurrentScreen('dailyChallenge');
+  };
+
+  const handlePlayDailyChallenge = () => {
+    if (!dailyChallenge) return;
+
+    const theme = WORD_THEMES.find(t => t.id === dailyChallenge.themeId);
+    if (!theme) return;
+
+    setSelectedLevel(null);
+    setSelectedDifficulty(dailyChallenge.difficulty);
+    setSelectedTheme({ ...theme, unlocked: true });
+    setCurrentScreen('game');
+  };
+
   const handleSelectLevel = (level: LevelDefinition) => {
+    setDailyChallenge(null);
     setSelectedLevel(level);
     setSelectedDifficulty(level.difficulty);
 
@@ -115,9 +143,29 @@ const WordSearchApp: React.FC<WordSearchAppProps> = ({ userPhotoURL }) => {
   const handleSelectDifficulty = (difficulty: Difficulty) => {
     setSelectedDifficulty(difficulty);
     setCurrentScreen('theme');
+    // Recharger les thèmes personnalisés (le partenaire a pu en partager)
+    loadThemes();
+  };
+
+  const handleEditCustomTheme = (themeId: string | null) => {
+    setEditingThemeId(themeId);
+    setCurrentScreen('customTheme');
+  };
+
+  const handleSaveCustomTheme = async (input: CustomThemeInput) => {
+    await saveTheme(input, profile?.name || 'Joueur');
+    setCurrentScreen('theme');
+  };
+
+  const handleDeleteCustomTheme = async () => {
+    if (!editingThemeId) return;
+
+    await deleteTheme(editingThemeId);
+    setCurrentScreen('theme');
   };
 
   const handleSelectTheme = (theme: WordTheme) => {
+    setDailyChallenge(null);
     setSelectedTheme(theme);
     setSelectedLevel(null); // Clear level when selecting custom theme
     setCurrentScreen('game');
@@ -151,8 +199,17 @@ const WordSearchApp: React.FC<WordSearchAppProps> = ({ userPhotoURL }) => {
         await completeLevel(selectedLevel.id);
       }
 
-      // Ajouter les pièces
-      await addCoins(result.coinsEarned);
+      // Défi du jour : partager le temps avec le partenaire
+      if (dailyChallenge) {
+        try {
+          await DailyChallengeService.submitResult(dailyChallenge, profile, result);
+        } catch (error) {
+          console.error('Erreur lors de l\'envoi du résultat du défi du jour:', error);
+        }
+      }
+
+      // Ajouter les pièces (plafonnées d'après le résultat de la partie)
+      await rewardGame(result, dailyChallenge?.seed);
 
       // Ajouter l'XP et vérifier le level up
       const xpResult = await addXP(result.xpEarned);
@@ -169,6 +226,8 @@ const WordSearchApp: React.FC<WordSearchAppProps> = ({ userPhotoURL }) => {
         // Retourner à l'écran des niveaux si on jouait en mode niveau
         if (selectedLevel) {
           setCurrentScreen('levels');
+        } else if (dailyChallenge) {
+          setCurrentScreen('dailyChallenge');
         } else {
           setCurrentScreen('menu');
         }
@@ -181,48 +240,8 @@ const WordSearchApp: React.FC<WordSearchAppProps> = ({ userPhotoURL }) => {
   const handlePurchase = async (item: ShopItem) => {
     if (!profile) return;
 
-    try {
-      if (item.type === 'theme') {
-        // Débloquer un thème
-        const themeId = item.id.replace('theme_', '');
-        await unlockTheme(themeId, item.price);
-      } else if (item.type === 'powerup') {
-        // Pour les power-ups, dépenser les pièces et ajouter à l'inventaire
-        await spendCoins(item.price);
-
-        // Map shop item ID to power-up type
-        const powerUpMapping: Record<string, { type: keyof typeof profile.powerUps; quantity: number }> = {
-          'time_freeze': { type: 'timeFreeze', quantity: 1 },
-          'highlight_first': { type: 'highlightFirst', quantity: 1 },
-        };
-
-        const powerUpInfo = powerUpMapping[item.id];
-        if (powerUpInfo) {
-          await addPowerUp(powerUpInfo.type, powerUpInfo.quantity);
-        }
-      } else if (item.type === 'consumable') {
-        // Pour les consommables (hints), dépenser les pièces et ajouter à l'inventaire
-        await spendCoins(item.price);
-
-        // Map consumable items to power-ups
-        const consumableMapping: Record<string, { type: keyof typeof profile.powerUps; quantity: number }> = {
-          'hint_letter': { type: 'revealLetter', quantity: 1 },
-          'hint_word': { type: 'revealWord', quantity: 1 },
-          'hint_bundle_5': { type: 'revealLetter', quantity: 5 },
-          'hint_bundle_10': { type: 'revealLetter', quantity: 10 },
-        };
-
-        const consumableInfo = consumableMapping[item.id];
-        if (consumableInfo) {
-          await addPowerUp(consumableInfo.type, consumableInfo.quantity);
-        }
-      } else {
-        // Pour les autres types, juste dépenser les pièces
-        await spendCoins(item.price);
-      }
-    } catch (error: any) {
-      throw error;
-    }
+    // Prix et contenu lus dans le catalogue, dépense et gain enregistrés ensemble
+    await purchaseItem(item.id);
   };
 
   const handleBackToMenu = () => {
@@ -243,11 +262,31 @@ const WordSearchApp: React.FC<WordSearchAppProps> = ({ userPhotoURL }) => {
     setCurrentScreen('multiplayerGame');
   };
 
-  const handleMultiplayerGameComplete = (result: any) => {
+  /**
+   * Récompense d'une partie en ligne : calculée par le serveur à partir de la partie terminée
+   */
+  const claimOnlineReward = async (mode: OnlineGameMode, gameId: string | null): Promise<string> => {
+    if (!gameId) return '';
+
+    const entry = await OnlineRewardService.claimReward(mode, gameId);
+    if (!entry) return '';
+
+    try {
+      await recordOnlineReward(entry);
+    } catch (error) {
+      console.error('Erreur lors de l\'enregistrement de la récompense en ligne:', error);
+    }
+    return `\n\n💰 +${entry.amount} pièces`;
+  };
+
+  const handleMultiplayerGameComplete = async (result: any) => {
+    const rewardMessage = await claimOnlineReward('multiplayer', currentMultiplayerGameId);
+
     // Show results and return to menu
-    const message = result.winner?.id === profile?.id
+    const message = (result.winner?.id === profile?.id
       ? `🎉 Félicitations ! Vous avez gagné !\n\nScore: ${result.winner.score}`
-      : `😔 Partie terminée\n\n${result.winner?.profile.name || 'Un adversaire'} a gagné avec ${result.winner?.score || 0} points.`;
+      : `😔 Partie terminée\n\n${result.winner?.profile.name || 'Un adversaire'} a gagné avec ${result.winner?.score || 0} points.`)
+      + rewardMessage;
 
     showAlert({
       title: 'Partie terminée',
@@ -269,10 +308,15 @@ const WordSearchApp: React.FC<WordSearchAppProps> = ({ userPhotoURL }) => {
     setCurrentScreen('cooperativeGame');
   };
 
-  const handleCooperativeGameComplete = (result: any) => {
-    const message = result.success
+  const handleCooperativeGameComplete = async (result: any) => {
+    const rewardMessage = result.success
+      ? await claimOnlineReward('cooperative', currentCooperativeGameId)
+      : '';
+
+    const message = (result.success
       ? `🎉 Victoire ! Vous avez trouvé tous les mots ensemble !\n\nTemps: ${result.time}s\nScore total: ${result.totalScore}`
-      : `😔 Temps écoulé\n\nMots trouvés: ${result.wordsFound}/${result.totalWords}`;
+      : `😔 Temps écoulé\n\nMots trouvés: ${result.wordsFound}/${result.totalWords}`)
+      + rewardMessage;
 
     showAlert({
       title: 'Partie coopérative terminée',
@@ -325,11 +369,14 @@ const WordSearchApp: React.FC<WordSearchAppProps> = ({ userPhotoURL }) => {
     return null; // ou un écran de chargement
   }
 
-  // Filtrer les thèmes débloqués
-  const availableThemes = WORD_THEMES.map(theme => ({
-    ...theme,
-    unlocked: profile.unlockedThemes.includes(theme.id),
-  }));
+  // Filtrer les thèmes débloqués, thèmes personnalisés en premier
+  const availableThemes = [
+    ...customThemes.map(customTheme => toWordTheme(customTheme, auth().currentUser?.uid, selectedDifficulty)),
+    ...WORD_THEMES.map(wordTheme => ({
+      ...wordTheme,
+      unlocked: profile.unlockedThemes.includes(wordTheme.id),
+    })),
+  ];
 
   // Render current screen
   switch (currentScreen) {
@@ -341,6 +388,7 @@ const WordSearchApp: React.FC<WordSearchAppProps> = ({ userPhotoURL }) => {
           onSettings={handleShowSettings}
           onShop={() => setCurrentScreen('shop')}
           onLevels={handleShowLevels}
+          onDailyChallenge={handleShowDailyChallenge}
           onEditProfile={handleEditProfile}
           playerName={profile.name}
           coins={profile.coins}
@@ -364,6 +412,20 @@ const WordSearchApp: React.FC<WordSearchAppProps> = ({ userPhotoURL }) => {
           onSelectTheme={handleSelectTheme}
           onBack={() => setCurrentScreen('difficulty')}
           userCoins={profile.coins}
+          onCreateTheme={() => handleEditCustomTheme(null)}
+          onEditTheme={handleEditCustomTheme}
+        />
+      );
+
+    case 'customTheme':
+      const editingTheme = customThemes.find(customTheme => customTheme.id === editingThemeId);
+
+      return (
+        <CustomThemeEditorScreen
+          theme={editingTheme}
+          onSave={handleSaveCustomTheme}
+          onDelete={editingTheme ? handleDeleteCustomTheme : undefined}
+          onBack={() => setCurrentScreen('theme')}
         />
       );
 
@@ -398,11 +460,25 @@ const WordSearchApp: React.FC<WordSearchAppProps> = ({ userPhotoURL }) => {
           themeName={selectedTheme.name}
           levelId={selectedLevel?.id}
           bonusWords={bonusWords}
+          seed={dailyChallenge?.seed}
+          shape={selectedLevel?.shape}
+          powerUpsEnabled={!dailyChallenge}
           onExit={handleBackToMenu}
           onGameComplete={handleGameComplete}
         />
       );
 
+    case 'dailyChallenge':
+      if (!dailyChallenge) return null;
+
+      return (
+        <DailyChallengeScreen
+          challenge={dailyChallenge}
+          onPlay={handlePlayDailyChallenge}
+          onBack={handleBackToMenu}
+        />
+      );
+
     case 'multiplayerMenu':
       return (
         <MultiplayerMenuScreen
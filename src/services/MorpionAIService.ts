@@ -1,3 +1,17 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GOMOKU_BOARD_SIZE } from '../utils/gomokuLogic';
+import { fromCanonicalPosition, getCanonicalBoard } from '../utils/boardSymmetry';
+import { MORPION_OPENING_BOOKS, OpeningBook } from '../data/morpionOpeningBooks';
+import {
+  checkUltimateWinner,
+  getActiveSubBoards,
+  getSubBoardIndex,
+  getSubBoardPositions,
+  getSubBoardResult,
+  getSubBoardResults,
+  ULTIMATE_BOARD_SIZE,
+} from '../utils/ultimateLogic';
+
 export type AIPersonality = 'aggressive' | 'defensive' | 'balanced';
 export type AIDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
 
@@ -8,10 +22,45 @@ export interface AIMove {
   reasoning: string;
 }
 
+export type MoveQuality = 'best' | 'good' | 'inaccuracy' | 'blunder';
+
+export interface MoveAnalysis {
+  moveNumber: number; // 1 = premier coup
+  symbol: 'X' | 'O';
+  position: number;
+  quality: MoveQuality;
+  missedWin: boolean; // Une victoire immédiate était disponible
+  missedFork: boolean; // Une fourchette était disponible et n'a pas été jouée
+  playedScore: number; // Score du coup joué, du point de vue de X
+  bestScore: number; // Score du meilleur coup, du point de vue de X
+  bestPosition: number | null;
+  evaluation: number; // Évaluation après le coup, de -1 (O gagne) à 1 (X gagne)
+}
+
 interface PositionCache {
   [key: string]: number;
 }
 
+interface PersistedAICache {
+  version: number;
+  savedAt: number;
+  entries: [string, number][];
+}
+
+const AI_CACHE_STORAGE_KEY = '@morpion_ai_cache';
+// Incrémenter quand l'évaluation ou le format des clés change : les anciens caches sont ignorés
+const AI_CACHE_VERSION = 1;
+const MAX_CACHE_ENTRIES = 10000;
+const MAX_PERSISTED_ENTRIES = 4000;
+// En dessous, la recherche est instantanée : inutile d'occuper le stockage
+const MIN_PERSISTED_BOARD_SIZE = 4;
+
+interface GomokuCandidate {
+  row: number;
+  col: number;
+  score: number;
+}
+
 interface MCTSNode {
   visits: number;
   wins: number;
@@ -25,6 +74,29 @@ interface MCTSNode {
 export class MorpionAIService {
   private static positionCache: PositionCache = {};
   private static openingBook3x3: Map<string, { row: number; col: number }> = new Map();
+  // Condition de victoire imposée pendant une analyse (sinon déduite de la taille du plateau)
+  private static winConditionOverride: number | null = null;
+
+  private static readonly WIN_SCORE = 100;
+
+  // Valeur des motifs créés par une pierre en Gomoku (cinq, quatre ouvert, etc.)
+  private static readonly GOMOKU_PATTERN_SCORES = {
+    five: 1000000,
+    openFour: 100000,
+    four: 10000,
+    openThree: 5000,
+    three: 500,
+    openTwo: 200,
+    two: 20,
+  };
+  private static readonly GOMOKU_DIRECTIONS = [[0, 1], [1, 0], [1, 1], [1, -1]];
+
+  private static readonly ULTIMATE_WIN_SCORE = 10000;
+  private static readonly ULTIMATE_LINES = [
+    [0, 1, 2], [3, 4, 5], [6, 7, 8],
+    [0, 3, 6], [1, 4, 7], [2, 5, 8],
+    [0, 4, 8], [2, 4, 6],
+  ];
 
   /**
    * Initialize opening book for 3x3 expert play
@@ -49,9 +121,16 @@ export class MorpionAIService {
     aiSymbol: 'X' | 'O',
     difficulty: AIDifficulty,
     personality: AIPersonality = 'balanced',
-    boardSize?: number
+    boardSize?: number,
+    exactlyFive: boolean = false
   ): AIMove {
     const size = boardSize || board.length;
+
+    // Le minimax ne passe pas à l'échelle sur 15x15 : IA heuristique dédiée
+    if (size >= GOMOKU_BOARD_SIZE) {
+      return this.getGomokuMove(board, aiSymbol, difficulty, personality, exactlyFive);
+    }
+
     const availableMoves = this.getAvailableMoves(board);
 
     if (availableMoves.length === 0) {
@@ -59,7 +138,7 @@ export class MorpionAIService {
     }
 
     // Clear cache if it gets too large
-    if (Object.keys(this.positionCache).length > 10000) {
+    if (Object.keys(this.positionCache).length > MAX_CACHE_ENTRIES) {
       this.positionCache = {};
     }
 
@@ -218,7 +297,7 @@ export class MorpionAIService {
   ): AIMove {
     // Use minimax with depth based on board size
     const depth = boardSize <= 3 ? 8 : boardSize === 4 ? 6 : 4;
-    const bestMove = this.minimax(board, depth, true, aiSymbol, aiSymbol, -Infinity, Infinity, personality);
+    const bestMove = this.minimax(board, depth, true, aiSymbol, aiSymbol, -Infinity, Infinity, personality, true);
 
     if (bestMove.move) {
       return {
@@ -258,6 +337,16 @@ export class MorpionAIService {
       }
     }
 
+    // Livre d'ouvertures généré pour 4x4 et 5x5
+    const bookMove = this.getOpeningBookMove(board);
+    if (bookMove && board[bookMove.row][bookMove.col] === null) {
+      return {
+        ...bookMove,
+        confidence: 1.0,
+        reasoning: 'Ouverture du livre'
+      };
+    }
+
     // For large boards (5x5+), use MCTS
     if (boardSize >= 5 && availableMoves.length > 15) {
       return this.getMCTSMove(board, aiSymbol, availableMoves, 1000);
@@ -265,7 +354,7 @@ export class MorpionAIService {
 
     // Use full minimax for smaller boards
     const depth = boardSize <= 3 ? 10 : boardSize === 4 ? 8 : 6;
-    const bestMove = this.minimax(board, depth, true, aiSymbol, aiSymbol, -Infinity, Infinity, personality);
+    const bestMove = this.minimax(board, depth, true, aiSymbol, aiSymbol, -Infinity, Infinity, personality, true);
 
     if (bestMove.move) {
       return {
@@ -281,7 +370,8 @@ export class MorpionAIService {
   }
 
   /**
-   * Minimax algorithm with alpha-beta pruning and personality
+   * Minimax algorithm with alpha-beta pruning and personality.
+   * A la racine, le cache est ignoré : il ne contient que des scores, pas de coup.
    */
   private static minimax(
     board: (string | null)[][],
@@ -291,11 +381,12 @@ export class MorpionAIService {
     currentPlayer: 'X' | 'O',
     alpha: number,
     beta: number,
-    personality: AIPersonality = 'balanced'
+    personality: AIPersonality = 'balanced',
+    isRoot: boolean = false
   ): { score: number; move?: { row: number; col: number } } {
     // Check cache
-    const boardKey = this.boardToString(board) + depth + isMaximizing;
-    if (this.positionCache[boardKey] !== undefined) {
+    const boardKey = this.getCacheKey(board, depth, isMaximizing, aiSymbol, personality);
+    if (!isRoot && this.positionCache[boardKey] !== undefined) {
       return { score: this.positionCache[boardKey] };
     }
 
@@ -304,7 +395,7 @@ export class MorpionAIService {
 
     // Terminal states with depth-based scoring
     if (winner) {
-      const score = winner === aiSymbol ? 100 + depth : -100 - depth;
+      const score = winner === aiSymbol ? this.WIN_SCORE + depth : -this.WIN_SCORE - depth;
       this.positionCache[boardKey] = score;
       return { score };
     }
@@ -317,6 +408,10 @@ export class MorpionAIService {
 
     const availableMoves = this.getAvailableMoves(board);
 
+    // Scores outside the initial window are only bounds, not exact values: don't cache them
+    const alphaOrig = alpha;
+    const betaOrig = beta;
+
     // Sort moves by heuristic for better pruning
     const sortedMoves = this.sortMovesByHeuristic(board, availableMoves, currentPlayer, aiSymbol);
     let bestMove: { row: number; col: number } | undefined;
@@ -346,7 +441,9 @@ export class MorpionAIService {
         if (beta <= alpha) break; // Alpha-beta pruning
       }
 
-      this.positionCache[boardKey] = maxScore;
+      if (maxScore > alphaOrig && maxScore < betaOrig) {
+        this.positionCache[boardKey] = maxScore;
+      }
       return { score: maxScore, move: bestMove };
     } else {
       let minScore = Infinity;
@@ -373,7 +470,9 @@ export class MorpionAIService {
         if (beta <= alpha) break; // Alpha-beta pruning
       }
 
-      this.positionCache[boardKey] = minScore;
+      if (minScore > alphaOrig && minScore < betaOrig) {
+        this.positionCache[boardKey] = minScore;
+      }
       return { score: minScore, move: bestMove };
     }
   }
@@ -526,12 +625,18 @@ export class MorpionAIService {
     const playerSymbol = aiSymbol === 'X' ? 'O' : 'X';
     let score = 0;
 
-    // Center control bonus
-    const center = Math.floor(size / 2);
-    if (board[center]?.[center] === aiSymbol) {
-      score += personality === 'aggressive' ? 5 : 3;
-    } else if (board[center]?.[center] === playerSymbol) {
-      score -= personality === 'defensive' ? 5 : 3;
+    // Center control bonus : une case centrale en taille impaire, quatre en taille paire,
+    // pour que l'évaluation reste invariante par rotation (cache symétrique)
+    const centerStart = Math.floor((size - 1) / 2);
+    const centerEnd = Math.floor(size / 2);
+    for (let r = centerStart; r <= centerEnd; r++) {
+      for (let c = centerStart; c <= centerEnd; c++) {
+        if (board[r]?.[c] === aiSymbol) {
+          score += personality === 'aggressive' ? 5 : 3;
+        } else if (board[r]?.[c] === playerSymbol) {
+          score -= personality === 'defensive' ? 5 : 3;
+        }
+      }
     }
 
     // Corner control
@@ -636,6 +741,482 @@ export class MorpionAIService {
     };
   }
 
+  /**
+   * Gomoku AI - Évaluation par motifs sur les cases proches des pierres,
+   * avec une recherche peu profonde sur les meilleurs candidats
+   */
+  private static getGomokuMove(
+    board: (string | null)[][],
+    aiSymbol: 'X' | 'O',
+    difficulty: AIDifficulty,
+    personality: AIPersonality,
+    exactlyFive: boolean
+  ): AIMove {
+    const playerSymbol = aiSymbol === 'X' ? 'O' : 'X';
+    const candidates = this.getGomokuCandidates(board);
+
+    if (candidates.length === 0) {
+      throw new Error('No available moves');
+    }
+
+    // Plateau vide : prendre le centre
+    if (candidates.length === 1 && this.isBoardEmpty(board)) {
+      return { ...candidates[0], confidence: 0.9, reasoning: 'Ouverture au centre' };
+    }
+
+    // Toujours gagner si possible
+    const winningMove = candidates.find(move =>
+      this.isGomokuWinningMove(board, move.row, move.col, aiSymbol, exactlyFive)
+    );
+    if (winningMove) {
+      return { ...winningMove, confidence: 1.0, reasoning: 'Cinq alignés !' };
+    }
+
+    // Toujours bloquer un cinq adverse
+    const blockingMove = candidates.find(move =>
+      this.isGomokuWinningMove(board, move.row, move.col, playerSymbol, exactlyFive)
+    );
+    if (blockingMove) {
+      return { ...blockingMove, confidence: 0.95, reasoning: 'Blocage d\'une ligne de quatre' };
+    }
+
+    const ranked = this.rankGomokuCandidates(board, candidates, aiSymbol, personality, exactlyFive);
+
+    if (difficulty === 'easy') {
+      const pick = ranked[Math.floor(Math.random() * Math.min(5, ranked.length))];
+      return { row: pick.row, col: pick.col, confidence: 0.4, reasoning: 'Coup instinctif' };
+    }
+
+    if (difficulty === 'medium') {
+      const best = ranked[0];
+      return {
+        row: best.row,
+        col: best.col,
+        confidence: 0.7,
+        reasoning: this.describeGomokuMove(board, best.row, best.col, aiSymbol, exactlyFive),
+      };
+    }
+
+    // hard : 2 demi-coups sur 10 candidats, expert : 3 demi-coups sur 8 candidats
+    const depth = difficulty === 'expert' ? 3 : 2;
+    const width = difficulty === 'expert' ? 8 : 10;
+    let bestMove = ranked[0];
+    let bestValue = -Infinity;
+
+    for (const move of ranked.slice(0, width)) {
+      const nextBoard = this.makeTestMove(board, move.row, move.col, aiSymbol);
+      const value = move.score - this.searchGomoku(
+        nextBoard, playerSymbol, depth - 1, width, personality, exactlyFive
+      );
+      if (value > bestValue) {
+        bestValue = value;
+        bestMove = move;
+      }
+    }
+
+    return {
+      row: bestMove.row,
+      col: bestMove.col,
+      confidence: difficulty === 'expert' ? 0.9 : 0.8,
+      reasoning: this.describeGomokuMove(board, bestMove.row, bestMove.col, aiSymbol, exactlyFive),
+    };
+  }
+
+  /**
+   * Meilleur gain attendu pour `symbol` dans les `depth` demi-coups suivants
+   */
+  private static searchGomoku(
+    board: (string | null)[][],
+    symbol: 'X' | 'O',
+    depth: number,
+    width: number,
+    personality: AIPersonality,
+    exactlyFive: boolean
+  ): number {
+    const candidates = this.getGomokuCandidates(board);
+    if (depth <= 0 || candidates.length === 0) {
+      return 0;
+    }
+
+    if (candidates.some(move => this.isGomokuWinningMove(board, move.row, move.col, symbol, exactlyFive))) {
+      return this.GOMOKU_PATTERN_SCORES.five;
+    }
+
+    const opponent = symbol === 'X' ? 'O' : 'X';
+    const ranked = this.rankGomokuCandidates(board, candidates, symbol, personality, exactlyFive);
+
+    if (depth === 1) {
+      return ranked[0].score;
+    }
+
+    let best = -Infinity;
+    for (const move of ranked.slice(0, width)) {
+      const nextBoard = this.makeTestMove(board, move.row, move.col, symbol);
+      const value = move.score - this.searchGomoku(
+        nextBoard, opponent, depth - 1, width, personality, exactlyFive
+      );
+      best = Math.max(best, value);
+    }
+    return best;
+  }
+
+  /**
+   * Cases vides à deux cases ou moins d'une pierre (le centre si le plateau est vide)
+   */
+  private static getGomokuCandidates(board: (string | null)[][]): { row: number; col: number }[] {
+    const size = board.length;
+    const candidates: { row: number; col: number }[] = [];
+
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        if (board[row][col] !== null) continue;
+
+        let nearStone = false;
+        for (let dr = -2; dr <= 2 && !nearStone; dr++) {
+          for (let dc = -2; dc <= 2 && !nearStone; dc++) {
+            nearStone = board[row + dr]?.[col + dc] != null;
+          }
+        }
+        if (nearStone) {
+          candidates.push({ row, col });
+        }
+      }
+    }
+
+    if (candidates.length === 0 && this.isBoardEmpty(board)) {
+      const center = Math.floor(size / 2);
+      return [{ row: center, col: center }];
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Trier les candidats par valeur d'attaque + de défense, selon la personnalité
+   */
+  private static rankGomokuCandidates(
+    board: (string | null)[][],
+    candidates: { row: number; col: number }[],
+    symbol: 'X' | 'O',
+    personality: AIPersonality,
+    exactlyFive: boolean
+  ): GomokuCandidate[] {
+    const opponent = symbol === 'X' ? 'O' : 'X';
+    const attackWeight = personality === 'aggressive' ? 1.2 : personality === 'defensive' ? 0.9 : 1;
+    const defenseWeight = personality === 'defensive' ? 1.2 : personality === 'aggressive' ? 0.9 : 1;
+
+    return candidates
+      .map(move => ({
+        ...move,
+        score:
+          this.scoreGomokuCell(board, move.row, move.col, symbol, exactlyFive) * attackWeight +
+          this.scoreGomokuCell(board, move.row, move.col, opponent, exactlyFive) * defenseWeight,
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Valeur des motifs que `symbol` formerait en jouant cette case
+   */
+  private static scoreGomokuCell(
+    board: (string | null)[][],
+    row: number,
+    col: number,
+    symbol: string,
+    exactlyFive: boolean
+  ): number {
+    const scores = this.GOMOKU_PATTERN_SCORES;
+    let total = 0;
+
+    for (const [dRow, dCol] of this.GOMOKU_DIRECTIONS) {
+      const { count, openEnds } = this.getGomokuRun(board, row, col, dRow, dCol, symbol);
+
+      if (count >= 5) {
+        // Un overline ne gagne pas en règle "exactement cinq"
+        total += exactlyFive && count > 5 ? 0 : scores.five;
+      } else if (openEnds === 0) {
+        continue;
+      } else if (count === 4) {
+        total += openEnds === 2 ? scores.openFour : scores.four;
+      } else if (count === 3) {
+        total += openEnds === 2 ? scores.openThree : scores.three;
+      } else if (count === 2) {
+        total += openEnds === 2 ? scores.openTwo : scores.two;
+      }
+    }
+
+    return total;
+  }
+
+  /**
+   * Longueur de la ligne formée en posant `symbol` en (row, col) et nombre d'extrémités libres
+   */
+  private static getGomokuRun(
+    board: (string | null)[][],
+    row: number,
+    col: number,
+    dRow: number,
+    dCol: number,
+    symbol: string
+  ): { count: number; openEnds: number } {
+    let count = 1;
+    let openEnds = 0;
+
+    for (const sign of [-1, 1]) {
+      let r = row + dRow * sign;
+      let c = col + dCol * sign;
+      while (board[r]?.[c] === symbol) {
+        count++;
+        r += dRow * sign;
+        c += dCol * sign;
+      }
+      if (board[r]?.[c] === null) {
+        openEnds++;
+      }
+    }
+
+    return { count, openEnds };
+  }
+
+  private static isGomokuWinningMove(
+    board: (string | null)[][],
+    row: number,
+    col: number,
+    symbol: string,
+    exactlyFive: boolean
+  ): boolean {
+    return this.GOMOKU_DIRECTIONS.some(([dRow, dCol]) => {
+      const { count } = this.getGomokuRun(board, row, col, dRow, dCol, symbol);
+      return exactlyFive ? count === 5 : count >= 5;
+    });
+  }
+
+  private static describeGomokuMove(
+    board: (string | null)[][],
+    row: number,
+    col: number,
+    aiSymbol: 'X' | 'O',
+    exactlyFive: boolean
+  ): string {
+    const playerSymbol = aiSymbol === 'X' ? 'O' : 'X';
+    const scores = this.GOMOKU_PATTERN_SCORES;
+    const attack = this.scoreGomokuCell(board, row, col, aiSymbol, exactlyFive);
+    const defense = this.scoreGomokuCell(board, row, col, playerSymbol, exactlyFive);
+
+    if (attack >= scores.openFour) return 'Quatre ouvert, imparable !';
+    if (defense >= scores.openFour) return 'Blocage d\'un quatre ouvert';
+    if (attack >= scores.openThree * 2) return 'Double menace';
+    if (defense >= scores.openThree) return 'Blocage d\'un trois ouvert';
+    if (attack >= scores.openThree) return 'Création d\'un trois ouvert';
+    return attack >= defense ? 'Développement de l\'attaque' : 'Contrôle du jeu adverse';
+  }
+
+  private static isBoardEmpty(board: (string | null)[][]): boolean {
+    return board.every(row => row.every(cell => cell === null));
+  }
+
+  /**
+   * Ultimate AI - Alpha-beta sur la grande grille, évaluée par les petites
+   * grilles gagnées et les menaces de ligne à chaque niveau
+   */
+  static getUltimateMove(
+    board: (string | null)[][],
+    aiSymbol: 'X' | 'O',
+    difficulty: AIDifficulty,
+    personality: AIPersonality = 'balanced',
+    lastPosition: number | null = null
+  ): AIMove {
+    const flatBoard = board.flat();
+    const playerSymbol = aiSymbol === 'X' ? 'O' : 'X';
+    const moves = this.getUltimateMoves(flatBoard, lastPosition);
+
+    if (moves.length === 0) {
+      throw new Error('No available moves');
+    }
+
+    const toAIMove = (position: number, confidence: number, reasoning: string): AIMove => ({
+      row: Math.floor(position / ULTIMATE_BOARD_SIZE),
+      col: position % ULTIMATE_BOARD_SIZE,
+      confidence,
+      reasoning,
+    });
+
+    // Toujours gagner la partie si possible
+    for (const position of moves) {
+      flatBoard[position] = aiSymbol;
+      const isWin = checkUltimateWinner(flatBoard).winner === aiSymbol;
+      flatBoard[position] = null;
+      if (isWin) {
+        return toAIMove(position, 1.0, 'Victoire sur la grande grille !');
+      }
+    }
+
+    if (difficulty === 'easy' && Math.random() < 0.5) {
+      const randomMove = moves[Math.floor(Math.random() * moves.length)];
+      return toAIMove(randomMove, 0.3, 'Coup aléatoire (facile)');
+    }
+
+    const depths: Record<AIDifficulty, number> = { easy: 1, medium: 2, hard: 3, expert: 4 };
+    const depth = depths[difficulty];
+    let bestPosition = moves[0];
+    let bestScore = -Infinity;
+
+    for (const position of this.orderUltimateMoves(flatBoard, moves, aiSymbol)) {
+      flatBoard[position] = aiSymbol;
+      const score = -this.ultimateNegamax(
+        flatBoard, playerSymbol, position, depth - 1, -Infinity, -bestScore, aiSymbol, personality
+      );
+      flatBoard[position] = null;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestPosition = position;
+      }
+    }
+
+    const confidence = difficulty === 'expert' ? 0.9 : difficulty === 'hard' ? 0.8 : 0.6;
+    return toAIMove(bestPosition, confidence, this.describeUltimateMove(flatBoard, bestPosition, aiSymbol));
+  }
+
+  /**
+   * Negamax avec élagage alpha-beta, score du point de vue de `symbol`
+   */
+  private static ultimateNegamax(
+    board: (string | null)[],
+    symbol: 'X' | 'O',
+    lastPosition: number,
+    depth: number,
+    alpha: number,
+    beta: number,
+    aiSymbol: 'X' | 'O',
+    personality: AIPersonality
+  ): number {
+    const opponent = symbol === 'X' ? 'O' : 'X';
+    const result = checkUltimateWinner(board).winner;
+
+    // Gagner vite, perdre tard
+    if (result === symbol) return this.ULTIMATE_WIN_SCORE + depth;
+    if (result === opponent) return -this.ULTIMATE_WIN_SCORE - depth;
+    if (result === 'draw') return 0;
+
+    if (depth <= 0) {
+      return this.evaluateUltimate(board, symbol, symbol === aiSymbol ? personality : 'balanced');
+    }
+
+    let best = -Infinity;
+    const moves = this.orderUltimateMoves(board, this.getUltimateMoves(board, lastPosition), symbol);
+
+    for (const position of moves) {
+      board[position] = symbol;
+      const score = -this.ultimateNegamax(
+        board, opponent, position, depth - 1, -beta, -alpha, aiSymbol, personality
+      );
+      board[position] = null;
+
+      best = Math.max(best, score);
+      alpha = Math.max(alpha, score);
+      if (alpha >= beta) break;
+    }
+
+    return best;
+  }
+
+  /**
+   * Évaluation heuristique du point de vue de `symbol`
+   */
+  private static evaluateUltimate(
+    board: (string | null)[],
+    symbol: 'X' | 'O',
+    personality: AIPersonality
+  ): number {
+    const opponent = symbol === 'X' ? 'O' : 'X';
+    const attackWeight = personality === 'aggressive' ? 1.2 : 1;
+    const defenseWeight = personality === 'defensive' ? 1.2 : 1;
+    const results = getSubBoardResults(board);
+    let score = 0;
+
+    results.forEach((result, subBoard) => {
+      // Le centre et les coins de la grande grille comptent davantage
+      const positionBonus = subBoard === 4 ? 1.5 : subBoard % 2 === 0 ? 1.2 : 1;
+
+      if (result === symbol) {
+        score += 100 * positionBonus * attackWeight;
+      } else if (result === opponent) {
+        score -= 100 * positionBonus * defenseWeight;
+      } else if (result === null) {
+        const cells = getSubBoardPositions(subBoard).map(position => board[position]);
+        score += this.countUltimateThreats(cells, symbol) * 10 * attackWeight;
+        score -= this.countUltimateThreats(cells, opponent) * 10 * defenseWeight;
+        if (cells[4] === symbol) score += 3;
+        else if (cells[4] === opponent) score -= 3;
+      }
+    });
+
+    // Menaces sur la grande grille
+    score += this.countUltimateThreats(results, symbol) * 300 * attackWeight;
+    score -= this.countUltimateThreats(results, opponent) * 300 * defenseWeight;
+
+    return score;
+  }
+
+  /**
+   * Lignes de trois contenant deux symboles `symbol` et une case encore ouverte
+   */
+  private static countUltimateThreats(cells: (string | null)[], symbol: string): number {
+    return this.ULTIMATE_LINES.filter(line => {
+      const owned = line.filter(index => cells[index] === symbol).length;
+      const open = line.filter(index => cells[index] === null).length;
+      return owned === 2 && open === 1;
+    }).length;
+  }
+
+  private static getUltimateMoves(board: (string | null)[], lastPosition: number | null): number[] {
+    return getActiveSubBoards(board, lastPosition).flatMap(subBoard =>
+      getSubBoardPositions(subBoard).filter(position => board[position] === null)
+    );
+  }
+
+  /**
+   * Ordonner les coups pour l'élagage : prises de petite grille d'abord, puis centres
+   */
+  private static orderUltimateMoves(
+    board: (string | null)[],
+    moves: number[],
+    symbol: 'X' | 'O'
+  ): number[] {
+    const score = (position: number) => {
+      board[position] = symbol;
+      const winsSubBoard = getSubBoardResult(board, getSubBoardIndex(position)) === symbol;
+      board[position] = null;
+      const isCenter = position % 3 === 1 && Math.floor(position / ULTIMATE_BOARD_SIZE) % 3 === 1;
+      return (winsSubBoard ? 10 : 0) + (isCenter ? 1 : 0);
+    };
+
+    return moves
+      .map(position => ({ position, score: score(position) }))
+      .sort((a, b) => b.score - a.score)
+      .map(move => move.position);
+  }
+
+  private static describeUltimateMove(
+    board: (string | null)[],
+    position: number,
+    aiSymbol: 'X' | 'O'
+  ): string {
+    const playerSymbol = aiSymbol === 'X' ? 'O' : 'X';
+    const subBoard = getSubBoardIndex(position);
+
+    board[position] = aiSymbol;
+    const winsSubBoard = getSubBoardResult(board, subBoard) === aiSymbol;
+    board[position] = playerSymbol;
+    const blocksSubBoard = getSubBoardResult(board, subBoard) === playerSymbol;
+    board[position] = null;
+
+    if (winsSubBoard) return 'Prise d\'une petite grille';
+    if (blocksSubBoard) return 'Blocage d\'une petite grille';
+    return 'Envoi de l\'adversaire vers une grille favorable';
+  }
+
   /**
    * Helper: Convert board to string for caching
    */
@@ -643,6 +1224,28 @@ export class MorpionAIService {
     return board.flat().map(cell => cell || '0').join('');
   }
 
+  /**
+   * Helper: Dynamic win condition, unless an analysis imposes one
+   */
+  private static getWinCondition(size: number): number {
+    return this.winConditionOverride ?? (size <= 5 ? 3 : size === 6 ? 4 : 5);
+  }
+
+  /**
+   * Helper: Cache key shared by the 8 symmetric images of a position
+   */
+  private static getCacheKey(
+    board: (string | null)[][],
+    depth: number,
+    isMaximizing: boolean,
+    aiSymbol: 'X' | 'O',
+    personality: AIPersonality
+  ): string {
+    const size = board.length;
+    const { key } = getCanonicalBoard(this.boardToString(board), size);
+    return `${key}|${this.getWinCondition(size)}|${depth}${isMaximizing ? 'M' : 'm'}${aiSymbol}${personality[0]}`;
+  }
+
   /**
    * Helper: Get available moves
    */
@@ -670,7 +1273,7 @@ export class MorpionAIService {
     col: number,
     symbol: string
   ): (string | null)[][] {
-    const newBoard = board.map(row => [...row]);
+    const newBoard = board.map(cells => [...cells]);
     newBoard[row][col] = symbol;
     return newBoard;
   }
@@ -680,7 +1283,7 @@ export class MorpionAIService {
    */
   private static checkWinner(board: (string | null)[][]): string | null {
     const size = board.length;
-    const winCondition = size <= 5 ? 3 : size === 6 ? 4 : 5; // Dynamic win condition
+    const winCondition = this.getWinCondition(size);
 
     // Check rows
     for (let row = 0; row < size; row++) {
@@ -760,6 +1363,114 @@ export class MorpionAIService {
     return board.every(row => row.every(cell => cell !== null));
   }
 
+  /**
+   * Analyse post-partie : évalue chaque coup joué avec le minimax.
+   *
+   * Les scores sont toujours exprimés du point de vue de X (X maximise, O minimise)
+   * pour que le cache de positions reste cohérent sur toute la partie.
+   */
+  static analyzeGame(
+    moves: { symbol: 'X' | 'O'; position: number }[],
+    boardSize: number,
+    winCondition: number
+  ): MoveAnalysis[] {
+    const depth = this.getAnalysisDepth(boardSize);
+    const analysis: MoveAnalysis[] = [];
+
+    // La condition de victoire fait partie des clés du cache : inutile de le vider
+    this.winConditionOverride = winCondition;
+
+    try {
+      let board: (string | null)[][] = Array(boardSize).fill(null).map(() => Array(boardSize).fill(null));
+
+      moves.forEach((move, index) => {
+        const row = Math.floor(move.position / boardSize);
+        const col = move.position % boardSize;
+        const mover = move.symbol;
+        const opponent = mover === 'X' ? 'O' : 'X';
+        const availableMoves = this.getAvailableMoves(board);
+
+        // Meilleur coup disponible pour le joueur au trait
+        const best = this.minimax(board, depth, mover === 'X', 'X', mover, -Infinity, Infinity, 'balanced', true);
+
+        // Coup réellement joué
+        const boardAfter = this.makeTestMove(board, row, col, mover);
+        const played = this.checkWinner(boardAfter)
+          ? { score: mover === 'X' ? this.WIN_SCORE + depth - 1 : -this.WIN_SCORE - depth + 1 }
+          : this.minimax(boardAfter, depth - 1, opponent === 'X', 'X', opponent, -Infinity, Infinity);
+
+        // Victoire immédiate manquée
+        const winningMoves = availableMoves.filter(m =>
+          this.checkWinner(this.makeTestMove(board, m.row, m.col, mover))
+        );
+        const missedWin = winningMoves.length > 0 &&
+          !winningMoves.some(m => m.row === row && m.col === col);
+
+        // Fourchette manquée (seulement si aucune victoire immédiate n'était possible)
+        const forkMove = winningMoves.length === 0
+          ? this.findForkOpportunity(board, mover, availableMoves)
+          : null;
+        const missedFork = forkMove !== null &&
+          this.findForkOpportunity(board, mover, [{ row, col }]) === null;
+
+        // Scores du point de vue du joueur au trait
+        const sign = mover === 'X' ? 1 : -1;
+        const bestForMover = sign * best.score;
+        const playedForMover = sign * played.score;
+
+        analysis.push({
+          moveNumber: index + 1,
+          symbol: mover,
+          position: move.position,
+          quality: this.classifyMove(bestForMover, playedForMover, missedWin),
+          missedWin,
+          missedFork,
+          playedScore: played.score,
+          bestScore: best.score,
+          bestPosition: best.move ? best.move.row * boardSize + best.move.col : null,
+          evaluation: this.normalizeScore(played.score),
+        });
+
+        board = boardAfter;
+      });
+    } finally {
+      this.winConditionOverride = null;
+    }
+
+    return analysis;
+  }
+
+  /**
+   * Profondeur de recherche pour l'analyse : exhaustive en 3x3, limitée au-delà
+   */
+  private static getAnalysisDepth(boardSize: number): number {
+    if (boardSize <= 3) return 9;
+    if (boardSize === 4) return 4;
+    return 3;
+  }
+
+  /**
+   * Classer un coup selon l'écart avec le meilleur coup (scores du point de vue du joueur)
+   */
+  private static classifyMove(bestScore: number, playedScore: number, missedWin: boolean): MoveQuality {
+    if (playedScore >= bestScore) return 'best';
+
+    const threwAwayWin = bestScore >= this.WIN_SCORE && playedScore < this.WIN_SCORE;
+    const walkedIntoLoss = playedScore <= -this.WIN_SCORE && bestScore > -this.WIN_SCORE;
+    if (missedWin || threwAwayWin || walkedIntoLoss) return 'blunder';
+
+    return bestScore - playedScore <= 2 ? 'good' : 'inaccuracy';
+  }
+
+  /**
+   * Ramener un score minimax dans [-1, 1] pour la barre d'évaluation
+   */
+  private static normalizeScore(score: number): number {
+    if (score >= this.WIN_SCORE) return 1;
+    if (score <= -this.WIN_SCORE) return -1;
+    return Math.max(-0.9, Math.min(0.9, score / 10));
+  }
+
   /**
    * Get AI personality description
    */
@@ -809,6 +1520,106 @@ export class MorpionAIService {
   static clearCache(): void {
     this.positionCache = {};
   }
+
+  /**
+   * Charger le cache de positions sauvegardé lors des sessions précédentes.
+   * Un cache d'une autre version est ignoré (évaluation ou clés incompatibles).
+   */
+  static async loadPersistentCache(): Promise<void> {
+    try {
+      const saved = await AsyncStorage.getItem(AI_CACHE_STORAGE_KEY);
+      if (!saved) return;
+
+      const persisted: PersistedAICache = JSON.parse(saved);
+      if (persisted.version !== AI_CACHE_VERSION) {
+        await AsyncStorage.removeItem(AI_CACHE_STORAGE_KEY);
+        return;
+      }
+
+      persisted.entries.forEach(([key, score]) => {
+        if (this.positionCache[key] === undefined) {
+          this.positionCache[key] = score;
+        }
+      });
+    } catch (error) {
+      console.error('Error loading Morpion AI cache:', error);
+    }
+  }
+
+  /**
+   * Sauvegarder les positions 4x4 et plus, en gardant les plus récentes
+   */
+  static async savePersistentCache(): Promise<void> {
+    try {
+      const minKeyLength = MIN_PERSISTED_BOARD_SIZE * MIN_PERSISTED_BOARD_SIZE;
+      const entries = Object.entries(this.positionCache)
+        .filter(([key]) => key.indexOf('|') >= minKeyLength)
+        .slice(-MAX_PERSISTED_ENTRIES);
+
+      const persisted: PersistedAICache = {
+        version: AI_CACHE_VERSION,
+        savedAt: Date.now(),
+        entries,
+      };
+      await AsyncStorage.setItem(AI_CACHE_STORAGE_KEY, JSON.stringify(persisted));
+    } catch (error) {
+      console.error('Error saving Morpion AI cache:', error);
+    }
+  }
+
+  /**
+   * Coup du livre d'ouvertures pour la position (toutes symétries confondues)
+   */
+  private static getOpeningBookMove(board: (string | null)[][]): { row: number; col: number } | null {
+    const size = board.length;
+    const book = MORPION_OPENING_BOOKS[size];
+    if (!book || this.winConditionOverride !== null) return null;
+
+    const { key, transform } = getCanonicalBoard(this.boardToString(board), size);
+    const canonicalPosition = book[key];
+    if (canonicalPosition === undefined) return null;
+
+    const position = fromCanonicalPosition(canonicalPosition, transform);
+    return { row: Math.floor(position / size), col: position % size };
+  }
+
+  /**
+   * Générer un livre d'ouvertures : meilleur coup (minimax) pour chaque position
+   * canonique atteignable en `plies` coups ou moins. Sert à produire
+   * src/data/morpionOpeningBooks.ts ; le résultat est sérialisable en JSON.
+   */
+  static generateOpeningBook(boardSize: number, plies: number, depth: number): OpeningBook {
+    const book: OpeningBook = {};
+    let frontier: string[] = ['0'.repeat(boardSize * boardSize)];
+
+    for (let ply = 0; ply <= plies; ply++) {
+      const next = new Set<string>();
+
+      frontier.forEach(cells => {
+        const board: (string | null)[][] = Array(boardSize).fill(null).map((_, row) =>
+          Array.from(cells.slice(row * boardSize, (row + 1) * boardSize)).map(cell => (cell === '0' ? null : cell))
+        );
+        if (this.checkWinner(board) || this.isBoardFull(board)) return;
+
+        const toMove: 'X' | 'O' = ply % 2 === 0 ? 'X' : 'O';
+        const result = this.minimax(board, depth, true, toMove, toMove, -Infinity, Infinity, 'balanced', true);
+        if (!result.move) return;
+
+        book[cells] = result.move.row * boardSize + result.move.col;
+
+        if (ply < plies) {
+          this.getAvailableMoves(board).forEach(move => {
+            const child = this.makeTestMove(board, move.row, move.col, toMove);
+            next.add(getCanonicalBoard(this.boardToString(child), boardSize).key);
+          });
+        }
+      });
+
+      frontier = Array.from(next);
+    }
+
+    return book;
+  }
 }
 
 export default MorpionAIService;
@@ -1,9 +1,25 @@
 import firestore from '@react-native-firebase/firestore';
+import functions from '@react-native-firebase/functions';
 import { PlayerProfile } from '../types/wordSearch.types';
 import { withRetry } from '../utils/networkUtils';
+import {
+  getInitialOpeningPhase,
+  GOMOKU_BOARD_SIZE,
+  GOMOKU_WIN_LENGTH,
+  GomokuRules,
+  MorpionVariant,
+  Swap2Choice,
+  Swap2Phase,
+} from '../utils/gomokuLogic';
+import { ULTIMATE_BOARD_SIZE, ULTIMATE_SUB_SIZE } from '../utils/ultimateLogic';
+import { RatingChange, RatingEntry } from '../utils/eloLogic';
+import { createInitialClocks, TimeControl, WinReason } from '../utils/timeControl';
+import { isMorpionMoveErrorCode, MorpionMoveErrorCode } from '../utils/morpionMoveErrors';
 
 const MORPION_GAMES_COLLECTION = 'morpion_games';
-const MORPION_HISTORY_COLLECTION = 'morpion_history';
+const MORPION_HISTORY_COLLECTION = 'morpion_history'; // Écrit par les Cloud Functions
+const MORPION_RATINGS_COLLECTION = 'morpion_ratings'; // Écrit par les Cloud Functions
+const FIRESTORE_IN_QUERY_LIMIT = 10;
 
 export type MorpionSymbol = 'X' | 'O';
 export type CellValue = MorpionSymbol | null;
@@ -30,7 +46,7 @@ export interface MorpionGame {
   maxPlayers: 2;
   status: 'waiting' | 'playing' | 'finished' | 'paused';
   board: CellValue[]; // Tableau plat (9 éléments pour 3x3, 16 pour 4x4, etc.)
-  boardSize: number; // 3, 4, ou 5
+  boardSize: number; // 3, 4, 5, 9 (Ultimate) ou 15 (Gomoku)
   winCondition: number; // Nombre de symboles alignés pour gagner
   currentPlayer: MorpionSymbol;
   moves: MorpionMove[];
@@ -41,8 +57,89 @@ export interface MorpionGame {
   completedAt: number | null;
   updatedAt: number;
   pausedAt: number | null;
-  pausedBy: string | null; // ID du joueur qui a causé la pause (disconnection)
+  pausedBy: string | null; // ID du joueur qui a demandé la pause (fixé par le serveur)
   pauseReason: 'player_disconnected' | 'manual' | null;
+  variant?: MorpionVariant; // Absent des parties créées avant le Gomoku et l'Ultimate
+  gomokuRules?: GomokuRules;
+  openingPhase?: Swap2Phase | null; // Ouverture swap2 en cours
+  timeControl?: TimeControl | null; // Cadence (absente : sans limite)
+  clocks?: Record<MorpionSymbol, number> | null; // Banque restante au début du tour en cours
+  turnStartedAt?: number | null;
+  pauseCount?: number; // Pauses déjà prises (absent sur les anciennes parties)
+  winReason?: WinReason | null;
+}
+
+export interface CreateMorpionGameOptions {
+  variant?: MorpionVariant;
+  gomokuRules?: GomokuRules;
+  timeControl?: TimeControl | null;
+}
+
+/**
+ * Partie terminée enregistrée dans morpion_history
+ */
+export interface MorpionGameHistory {
+  id: string;
+  gameId: string;
+  roomCode: string;
+  players: string[];
+  playerProfiles: PlayerProfile[];
+  winner: string | null;
+  loser: string | null;
+  result: MorpionSymbol | 'draw';
+  moves?: MorpionMove[]; // Absent des parties enregistrées avant le replay
+  moveCount: number;
+  duration: number;
+  boardSize: number;
+  winCondition: number;
+  variant?: MorpionVariant;
+  gomokuRules?: GomokuRules | null;
+  winningLine: number[];
+  forfeited: boolean;
+  winReason?: WinReason; // Absent des parties enregistrées avant les pendules
+  timeControl?: TimeControl | null;
+  ratingKey?: string; // Absent des parties non classées ou enregistrées avant le classement
+  ratingChanges?: Record<string, RatingChange>; // Classement avant/après, par joueur
+  timestamp: number;
+  mode: 'online';
+}
+
+/**
+ * Classements Elo d'un joueur dans morpion_ratings, par taille de plateau / variante
+ */
+export interface MorpionPlayerRatings {
+  userId: string;
+  name: string;
+  ratings: Record<string, RatingEntry>;
+  updatedAt: number;
+}
+
+export interface MorpionRatingPoint {
+  timestamp: number;
+  rating: number;
+}
+
+export type { MorpionMoveErrorCode };
+
+/**
+ * Erreur typée levée quand le serveur refuse un coup
+ */
+export class MorpionMoveError extends Error {
+  constructor(public readonly code: MorpionMoveErrorCode, message: string) {
+    super(message);
+    this.name = 'MorpionMoveError';
+  }
+
+  /**
+   * Convertir une erreur de fonction callable en MorpionMoveError si possible
+   */
+  static fromCallableError(error: any): MorpionMoveError | null {
+    const reason = error?.details?.reason;
+    if (isMorpionMoveErrorCode(reason)) {
+      return new MorpionMoveError(reason, error.message);
+    }
+    return null;
+  }
 }
 
 export class MorpionService {
@@ -101,8 +198,20 @@ export class MorpionService {
   static async createGame(
     hostProfile: PlayerProfile,
     boardSize: number = 3,
-    winCondition?: number
+    winCondition?: number,
+    options: CreateMorpionGameOptions = {}
   ): Promise<string> {
+    const variant: MorpionVariant = options.variant || 'classic';
+    const isGomoku = variant === 'gomoku';
+    if (isGomoku) {
+      boardSize = GOMOKU_BOARD_SIZE;
+      winCondition = GOMOKU_WIN_LENGTH;
+    } else if (variant === 'ultimate') {
+      // Neuf grilles 3x3 stockées comme un plateau 9x9
+      boardSize = ULTIMATE_BOARD_SIZE;
+      winCondition = ULTIMATE_SUB_SIZE;
+    }
+
     return withRetry(async () => {
       const roomCode = await this.generateUniqueRoomCode();
 
@@ -140,6 +249,16 @@ export class MorpionService {
         pausedAt: null,
         pausedBy: null,
         pauseReason: null,
+        variant,
+        timeControl: options.timeControl || null,
+        clocks: createInitialClocks<MorpionSymbol>(options.timeControl || null, ['X', 'O']),
+        turnStartedAt: null,
+        ...(isGomoku && options.gomokuRules
+          ? {
+              gomokuRules: options.gomokuRules,
+              openingPhase: getInitialOpeningPhase(options.gomokuRules),
+            }
+          : {}),
       };
 
       const docRef = await firestore()
@@ -151,6 +270,7 @@ export class MorpionService {
         roomCode,
         boardSize,
         winCondition: finalWinCondition,
+        variant: gameData.variant,
       });
 
       return docRef.id;
@@ -211,10 +331,11 @@ export class MorpionService {
       throw new Error('Vous êtes déjà dans cette partie');
     }
 
+    // Le second joueur prend le symbole libre (O, sauf si l'hôte d'origine est parti)
     const newPlayer: MorpionPlayer = {
       id: playerProfile.id,
       profile: playerProfile,
-      symbol: 'O', // Le second joueur est toujours O
+      symbol: game.players[0]?.symbol === 'O' ? 'X' : 'O',
       isReady: false,
     };
 
@@ -266,133 +387,102 @@ export class MorpionService {
 
   /**
    * Démarrer la partie (hôte seulement)
+   *
+   * Géré par la Cloud Function morpionStartGame : la pendule du premier
+   * joueur part à l'heure du serveur.
    */
-  static async startGame(gameId: string, hostId: string): Promise<void> {
-    const gameRef = firestore().collection(MORPION_GAMES_COLLECTION).doc(gameId);
-    const gameDoc = await gameRef.get();
-
-    if (!gameDoc.exists) {
-      throw new Error('Partie non trouvée');
-    }
-
-    const game = { id: gameDoc.id, ...gameDoc.data() } as MorpionGame;
-
-    if (game.hostId !== hostId) {
-      throw new Error('Seul l\'hôte peut démarrer la partie');
-    }
-
-    if (game.players.length !== 2) {
-      throw new Error('Exactement 2 joueurs sont nécessaires');
-    }
-
-    if (!game.players.every(p => p.isReady)) {
-      throw new Error('Tous les joueurs doivent être prêts');
+  static async startGame(gameId: string, _hostId: string): Promise<void> {
+    try {
+      await functions().httpsCallable('morpionStartGame')({ gameId });
+      console.log('Morpion game started:', { gameId });
+    } catch (error) {
+      throw MorpionMoveError.fromCallableError(error) || error;
     }
+  }
 
-    await gameRef.update({
-      status: 'playing',
-      startedAt: Date.now(),
-      updatedAt: Date.now(),
-    });
-
-    console.log('Morpion game started:', { gameId });
+  /**
+   * Identifiant d'un coup, généré une seule fois par coup :
+   * les nouvelles tentatives le réutilisent et le serveur ne l'applique qu'une fois
+   */
+  private static generateActionId(playerId: string): string {
+    return `${playerId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   /**
    * Jouer un coup
+   *
+   * Le coup est validé et appliqué par la Cloud Function morpionPlayMove :
+   * le client n'envoie que son intention, jamais le plateau ni le vainqueur.
+   * Le même actionId est envoyé à chaque tentative : un coup appliqué dont la
+   * réponse s'est perdue n'est pas refusé en STALE_MOVE à la tentative suivante.
    */
   static async playMove(
     gameId: string,
     playerId: string,
-    position: number
+    position: number,
+    expectedMoveCount?: number
   ): Promise<void> {
-    return withRetry(async () => {
-      const gameRef = firestore().collection(MORPION_GAMES_COLLECTION).doc(gameId);
-      const gameDoc = await gameRef.get();
-
-      if (!gameDoc.exists) {
-        throw new Error('Partie non trouvée');
-      }
-
-      const game = { id: gameDoc.id, ...gameDoc.data() } as MorpionGame;
-
-      if (game.status !== 'playing') {
-        if (game.status === 'paused') {
-          throw new Error('La partie est en pause');
-        }
-        throw new Error('La partie n\'est pas en cours');
-      }
-
-      // Trouver le joueur
-      const player = game.players.find(p => p.id === playerId);
-      if (!player) {
-        throw new Error('Joueur non trouvé');
-      }
-
-      // Vérifier que c'est son tour
-      if (player.symbol !== game.currentPlayer) {
-        throw new Error('Ce n\'est pas votre tour');
-      }
-
-      // Vérifier que la case est vide
-      if (game.board[position] !== null) {
-        throw new Error('Cette case est déjà occupée');
-      }
-
-      // Mettre à jour le plateau
-      const newBoard = [...game.board];
-      newBoard[position] = player.symbol;
+    const actionId = this.generateActionId(playerId);
+    try {
+      const result = await withRetry(async () => {
+        return functions().httpsCallable('morpionPlayMove')({
+          gameId,
+          position,
+          actionId,
+          expectedMoveCount,
+        });
+      }, { maxRetries: 2 }, 'playMorpionMove');
 
-      // Ajouter le coup à l'historique
-      const move: MorpionMove = {
-        playerId,
-        symbol: player.symbol,
+      console.log('Move played:', {
+        gameId,
         position,
-        timestamp: Date.now(),
-      };
-
-      const newMoves = [...game.moves, move];
-
-      // Vérifier la victoire
-      const winResult = this.checkWinner(newBoard, game.boardSize, game.winCondition, player.symbol);
+        winner: (result.data as any)?.winner,
+      });
+    } catch (error) {
+      throw MorpionMoveError.fromCallableError(error) || error;
+    }
+  }
 
-      let updateData: any = {
-        board: newBoard,
-        moves: newMoves,
-        updatedAt: Date.now(),
-      };
+  /**
+   * Choisir sa couleur pendant l'ouverture swap2 (Gomoku)
+   *
+   * Validé par la Cloud Function morpionSwap2Choice, qui échange les
+   * symboles des joueurs si nécessaire.
+   */
+  static async makeSwap2Choice(gameId: string, choice: Swap2Choice): Promise<void> {
+    try {
+      const result = await withRetry(async () => {
+        return functions().httpsCallable('morpionSwap2Choice')({ gameId, choice });
+      }, { maxRetries: 2 }, 'morpionSwap2Choice');
 
-      if (winResult.winner) {
-        // Victoire
-        updateData.winner = player.symbol;
-        updateData.winningLine = winResult.line;
-        updateData.status = 'finished';
-        updateData.completedAt = Date.now();
-
-        // Sauvegarder dans l'historique
-        await this.saveGameHistory(game, player.symbol, newMoves.length);
-      } else if (this.isBoardFull(newBoard)) {
-        // Match nul
-        updateData.winner = 'draw';
-        updateData.status = 'finished';
-        updateData.completedAt = Date.now();
-
-        // Sauvegarder dans l'historique
-        await this.saveGameHistory(game, 'draw', newMoves.length);
-      } else {
-        // Passer au joueur suivant
-        updateData.currentPlayer = game.currentPlayer === 'X' ? 'O' : 'X';
-      }
+      console.log('Swap2 choice made:', {
+        gameId,
+        choice,
+        openingPhase: (result.data as any)?.openingPhase,
+      });
+    } catch (error) {
+      throw MorpionMoveError.fromCallableError(error) || error;
+    }
+  }
 
-      await gameRef.update(updateData);
+  /**
+   * Réclamer la victoire au temps quand la pendule de l'adversaire est tombée
+   *
+   * Vérifié par la Cloud Function morpionClaimTimeout avec l'heure du serveur.
+   */
+  static async claimTimeout(gameId: string): Promise<void> {
+    try {
+      const result = await withRetry(async () => {
+        return functions().httpsCallable('morpionClaimTimeout')({ gameId });
+      }, { maxRetries: 2 }, 'morpionClaimTimeout');
 
-      console.log('Move played:', {
+      console.log('Timeout claimed:', {
         gameId,
-        playerId,
-        position,
-        winner: updateData.winner,
+        winner: (result.data as any)?.winner,
       });
-    }, { maxRetries: 2 }, 'playMorpionMove');
+    } catch (error) {
+      throw MorpionMoveError.fromCallableError(error) || error;
+    }
   }
 
   /**
@@ -504,6 +594,21 @@ export class MorpionService {
     return { winner: false, line: [] };
   }
 
+  /**
+   * Reconstruire le plateau après les `moveCount` premiers coups (pour le replay)
+   */
+  static getBoardAtMove(
+    moves: MorpionMove[],
+    boardSize: number,
+    moveCount: number
+  ): CellValue[] {
+    const board: CellValue[] = Array(boardSize * boardSize).fill(null);
+    moves.slice(0, moveCount).forEach(move => {
+      board[move.position] = move.symbol;
+    });
+    return board;
+  }
+
   /**
    * Vérifier si le plateau est plein
    */
@@ -513,37 +618,17 @@ export class MorpionService {
 
   /**
    * Abandonner la partie
+   *
+   * Géré par la Cloud Function morpionForfeitGame, qui déclare l'adversaire
+   * vainqueur et enregistre l'historique.
    */
   static async forfeitGame(gameId: string, playerId: string): Promise<void> {
-    const gameRef = firestore().collection(MORPION_GAMES_COLLECTION).doc(gameId);
-    const gameDoc = await gameRef.get();
-
-    if (!gameDoc.exists) {
-      throw new Error('Partie non trouvée');
-    }
-
-    const game = { id: gameDoc.id, ...gameDoc.data() } as MorpionGame;
-
-    // Trouver le joueur qui abandonne
-    const forfeitingPlayer = game.players.find(p => p.id === playerId);
-    if (!forfeitingPlayer) {
-      throw new Error('Joueur non trouvé');
+    try {
+      const result = await functions().httpsCallable('morpionForfeitGame')({ gameId });
+      console.log('Game forfeited:', { gameId, playerId, winner: (result.data as any)?.winner });
+    } catch (error) {
+      throw MorpionMoveError.fromCallableError(error) || error;
     }
-
-    // L'autre joueur gagne
-    const winnerSymbol = forfeitingPlayer.symbol === 'X' ? 'O' : 'X';
-
-    await gameRef.update({
-      status: 'finished',
-      winner: winnerSymbol,
-      completedAt: Date.now(),
-      updatedAt: Date.now(),
-    });
-
-    // Sauvegarder dans l'historique avec indication d'abandon
-    await this.saveGameHistory(game, winnerSymbol, game.moves.length, true);
-
-    console.log('Game forfeited:', { gameId, playerId, winner: winnerSymbol });
   }
 
   /**
@@ -558,6 +643,12 @@ export class MorpionService {
     }
 
     const game = { id: gameDoc.id, ...gameDoc.data() } as MorpionGame;
+
+    // Les joueurs sont figés une fois la partie lancée (classement, couleurs swap2)
+    if (game.status !== 'waiting') {
+      return;
+    }
+
     const updatedPlayers = game.players.filter(p => p.id !== playerId);
 
     if (updatedPlayers.length === 0) {
@@ -609,161 +700,48 @@ export class MorpionService {
       );
   }
 
-  /**
-   * Sauvegarder la partie dans l'historique
-   */
-  static async saveGameHistory(
-    game: MorpionGame,
-    result: MorpionSymbol | 'draw',
-    moveCount: number,
-    forfeited: boolean = false
-  ): Promise<void> {
-    try {
-      const player1 = game.players[0];
-      const player2 = game.players[1];
-
-      if (!player1 || !player2) {
-        console.error('Cannot save history: missing players');
-        return;
-      }
-
-      const duration = game.completedAt && game.startedAt
-        ? game.completedAt - game.startedAt
-        : 0;
-
-      const winnerId = result === 'draw'
-        ? null
-        : game.players.find(p => p.symbol === result)?.id || null;
-
-      const loserId = result === 'draw'
-        ? null
-        : game.players.find(p => p.symbol !== result)?.id || null;
-
-      await firestore().collection(MORPION_HISTORY_COLLECTION).add({
-        gameId: game.id,
-        roomCode: game.roomCode,
-        players: [player1.id, player2.id],
-        playerProfiles: [player1.profile, player2.profile],
-        winner: winnerId,
-        loser: loserId,
-        result,
-        moveCount,
-        duration,
-        boardSize: game.boardSize,
-        winCondition: game.winCondition,
-        winningLine: game.winningLine,
-        forfeited,
-        timestamp: Date.now(),
-        mode: 'online',
-      });
-
-      console.log('Game history saved:', {
-        gameId: game.id,
-        result,
-        moveCount,
-        forfeited,
-      });
-    } catch (error) {
-      console.error('Error saving game history:', error);
-    }
-  }
-
   /**
    * Mettre la partie en pause (en cas de déconnexion)
+   *
+   * Géré par la Cloud Function morpionPauseGame, qui date la pause à l'heure
+   * du serveur et plafonne le nombre de pauses par partie.
+   * Le serveur enregistre l'appelant dans `pausedBy` ; pour une déconnexion,
+   * c'est le joueur resté connecté.
    */
   static async pauseGame(
     gameId: string,
-    playerId: string,
     reason: 'player_disconnected' | 'manual' = 'player_disconnected'
   ): Promise<void> {
     try {
-      const gameRef = firestore().collection(MORPION_GAMES_COLLECTION).doc(gameId);
-      const gameDoc = await gameRef.get();
-
-      if (!gameDoc.exists) {
-        throw new Error('Partie non trouvée');
-      }
-
-      const game = { id: gameDoc.id, ...gameDoc.data() } as MorpionGame;
-
-      // Ne peut mettre en pause que si la partie est en cours
-      if (game.status !== 'playing') {
-        console.warn(`Cannot pause game with status: ${game.status}`);
-        return;
-      }
-
-      // Vérifier que le joueur fait partie de la partie
-      const player = game.players.find(p => p.id === playerId);
-      if (!player) {
-        throw new Error('Joueur non trouvé dans la partie');
-      }
-
-      await gameRef.update({
-        status: 'paused',
-        pausedAt: Date.now(),
-        pausedBy: playerId,
-        pauseReason: reason,
-        updatedAt: Date.now(),
-      });
+      await functions().httpsCallable('morpionPauseGame')({ gameId, reason });
 
       console.log('Game paused:', {
         gameId,
-        playerId,
         reason,
       });
     } catch (error) {
       console.error('Error pausing game:', error);
-      throw error;
+      throw MorpionMoveError.fromCallableError(error) || error;
     }
   }
 
   /**
    * Reprendre la partie après une pause
+   *
+   * Géré par la Cloud Function morpionResumeGame : le temps de pause, plafonné,
+   * est rendu au joueur au trait. Après une déconnexion, seul le joueur
+   * déconnecté peut reprendre la partie, à sa reconnexion.
    */
-  static async resumeGame(gameId: string, playerId: string): Promise<void> {
+  static async resumeGame(gameId: string): Promise<void> {
     try {
-      const gameRef = firestore().collection(MORPION_GAMES_COLLECTION).doc(gameId);
-      const gameDoc = await gameRef.get();
-
-      if (!gameDoc.exists) {
-        throw new Error('Partie non trouvée');
-      }
-
-      const game = { id: gameDoc.id, ...gameDoc.data() } as MorpionGame;
-
-      // Ne peut reprendre que si la partie est en pause
-      if (game.status !== 'paused') {
-        console.warn(`Cannot resume game with status: ${game.status}`);
-        return;
-      }
-
-      // Vérifier que le joueur fait partie de la partie
-      const player = game.players.find(p => p.id === playerId);
-      if (!player) {
-        throw new Error('Joueur non trouvé dans la partie');
-      }
-
-      // Vérifier que c'est le joueur qui a causé la pause qui reprend
-      // (sauf si c'était une pause manuelle, n'importe quel joueur peut reprendre)
-      if (game.pauseReason === 'player_disconnected' && game.pausedBy !== playerId) {
-        throw new Error('Seul le joueur déconnecté peut reprendre la partie');
-      }
-
-      await gameRef.update({
-        status: 'playing',
-        pausedAt: null,
-        pausedBy: null,
-        pauseReason: null,
-        updatedAt: Date.now(),
-      });
+      await functions().httpsCallable('morpionResumeGame')({ gameId });
 
       console.log('Game resumed:', {
         gameId,
-        playerId,
       });
     } catch (error) {
       console.error('Error resuming game:', error);
-      throw error;
+      throw MorpionMoveError.fromCallableError(error) || error;
     }
   }
 
@@ -812,8 +790,11 @@ export class MorpionService {
         .where('pausedAt', '<', cutoffTime)
         .get();
 
+      // Les parties avec pendule se terminent au temps (morpionClaimTimeout)
+      const untimedDocs = snapshot.docs.filter(doc => !doc.data().timeControl);
+
       const batch = firestore().batch();
-      snapshot.docs.forEach(doc => {
+      untimedDocs.forEach(doc => {
         batch.update(doc.ref, {
           status: 'finished',
           winner: null,
@@ -824,7 +805,7 @@ export class MorpionService {
 
       await batch.commit();
 
-      console.log(`Cleaned up ${snapshot.docs.length} old paused games`);
+      console.log(`Cleaned up ${untimedDocs.length} old paused games`);
     } catch (error) {
       console.error('Error cleaning up old paused games:', error);
     }
@@ -833,7 +814,7 @@ export class MorpionService {
   /**
    * Obtenir l'historique des parties d'un utilisateur
    */
-  static async getUserGameHistory(userId: string, limit: number = 20) {
+  static async getUserGameHistory(userId: string, limit: number = 20): Promise<MorpionGameHistory[]> {
     try {
       const snapshot = await firestore()
         .collection(MORPION_HISTORY_COLLECTION)
@@ -845,7 +826,7 @@ export class MorpionService {
       return snapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data(),
-      }));
+      } as MorpionGameHistory));
     } catch (error) {
       console.error('Error fetching user game history:', error);
       return [];
@@ -855,7 +836,7 @@ export class MorpionService {
   /**
    * Obtenir l'historique des parties entre deux joueurs
    */
-  static async getHeadToHeadHistory(user1Id: string, user2Id: string) {
+  static async getHeadToHeadHistory(user1Id: string, user2Id: string): Promise<MorpionGameHistory[]> {
     try {
       const snapshot = await firestore()
         .collection(MORPION_HISTORY_COLLECTION)
@@ -868,8 +849,8 @@ export class MorpionService {
         .map(doc => ({
           id: doc.id,
           ...doc.data(),
-        }))
-        .filter((game: any) => game.players.includes(user2Id));
+        } as MorpionGameHistory))
+        .filter((game: MorpionGameHistory) => game.players.includes(user2Id));
 
       return games;
     } catch (error) {
@@ -877,4 +858,72 @@ export class MorpionService {
       return [];
     }
   }
+
+  /**
+   * Obtenir les classements d'un joueur
+   */
+  static async getPlayerRatings(userId: string): Promise<MorpionPlayerRatings | null> {
+    try {
+      const doc = await firestore().collection(MORPION_RATINGS_COLLECTION).doc(userId).get();
+      return doc.exists ? (doc.data() as MorpionPlayerRatings) : null;
+    } catch (error) {
+      console.error('Error fetching player ratings:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Évolution du classement d'un joueur, de la plus ancienne à la plus récente partie
+   */
+  static async getRatingHistory(
+    userId: string,
+    ratingKey: string,
+    limit: number = 50
+  ): Promise<MorpionRatingPoint[]> {
+    const games = await this.getUserGameHistory(userId, limit);
+
+    return games
+      .filter(game => game.ratingKey === ratingKey && game.ratingChanges?.[userId])
+      .map(game => ({
+        timestamp: game.timestamp,
+        rating: game.ratingChanges![userId].after,
+      }))
+      .reverse();
+  }
+
+  /**
+   * Classement entre proches : le joueur, son partenaire et ses adversaires récents
+   */
+  static async getLadder(userId: string, partnerId?: string): Promise<MorpionPlayerRatings[]> {
+    try {
+      const recentGames = await this.getUserGameHistory(userId, 50);
+      const playerIds = new Set<string>([userId]);
+      if (partnerId) {
+        playerIds.add(partnerId);
+      }
+      recentGames.forEach(game => game.players.forEach(id => playerIds.add(id)));
+
+      const ids = Array.from(playerIds);
+      const chunks: string[][] = [];
+      for (let i = 0; i < ids.length; i += FIRESTORE_IN_QUERY_LIMIT) {
+        chunks.push(ids.slice(i, i + FIRESTORE_IN_QUERY_LIMIT));
+      }
+
+      const snapshots = await Promise.all(
+        chunks.map(chunk =>
+          firestore()
+            .collection(MORPION_RATINGS_COLLECTION)
+            .where(firestore.FieldPath.documentId(), 'in', chunk)
+            .get()
+        )
+      );
+
+      return snapshots.flatMap(snapshot =>
+        snapshot.docs.map(doc => doc.data() as MorpionPlayerRatings)
+      );
+    } catch (error) {
+      console.error('Error fetching Morpion ladder:', error);
+      return [];
+    }
+  }
 }
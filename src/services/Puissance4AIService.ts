@@ -1,30 +1,58 @@
-import { CellValue, AIMove, AIDifficulty } from '../types/puissance4.types';
-import { PUISSANCE4_CONFIG, AI_REASONING_MESSAGES } from '../constants/Puissance4Constants';
+import {
+  CellValue,
+  AIMove,
+  AIDifficulty,
+  CoachingAdvice,
+  CoachThreat,
+} from '../types/puissance4.types';
+import {
+  PUISSANCE4_CONFIG,
+  AI_REASONING_MESSAGES,
+  COACH_MESSAGES,
+} from '../constants/Puissance4Constants';
+import { analyzePositionAsync } from '../utils/puissance4Solver';
+import {
+  Puissance4Rules,
+  Puissance4Action,
+  Pop10State,
+  DEFAULT_PUISSANCE4_RULES,
+  applyAction,
+  countStones,
+  findAvailableRow,
+  getLegalActions,
+  getLineThrough,
+  getOpponentColor,
+  isStandardRules,
+} from '../utils/puissance4Logic';
 
 /**
  * Service d'Intelligence Artificielle pour le Puissance 4
  * Implémente l'algorithme MiniMax avec élagage Alpha-Beta
  */
 export class Puissance4AIService {
-  private static readonly ROWS = PUISSANCE4_CONFIG.ROWS;
-  private static readonly COLS = PUISSANCE4_CONFIG.COLS;
-  private static readonly WIN_LENGTH = PUISSANCE4_CONFIG.WIN_LENGTH;
-
   /**
-   * Point d'entrée principal - retourne le meilleur coup selon la difficulté
+   * Point d'entrée principal - retourne le meilleur coup selon la difficulté.
+   * Asynchrone : le solveur du niveau Imbattable rend la main à l'interface.
    */
-  static getBestMove(
+  static async getBestMove(
     board: CellValue[][],
     aiColor: 'Rouge' | 'Jaune',
-    difficulty: AIDifficulty = 'moyen'
-  ): AIMove {
+    difficulty: AIDifficulty = 'moyen',
+    rules: Puissance4Rules = DEFAULT_PUISSANCE4_RULES,
+    pop10?: Pop10State
+  ): Promise<AIMove> {
     const playerColor: 'Rouge' | 'Jaune' = aiColor === 'Rouge' ? 'Jaune' : 'Rouge';
 
+    // Pop 10 : pas d'alignement gagnant, le MiniMax ne s'applique pas
+    if (rules.variant === 'pop10') {
+      return this.getPop10Move(board, aiColor, difficulty, rules, pop10);
+    }
+
     // Vérifier si on peut gagner immédiatement (TOUJOURS prioritaire)
-    const winningMove = this.findImmediateWin(board, aiColor);
+    const winningMove = this.findImmediateWin(board, aiColor, rules);
     if (winningMove !== null) {
       return {
-        column: winningMove,
+        ...winningMove,
         score: 10000,
         reasoning: this.getRandomMessage(AI_REASONING_MESSAGES.WINNING_MOVE),
       };
@@ -32,14 +60,14 @@ export class Puissance4AIService {
 
     // Pour mode facile, ne pas bloquer systématiquement
     if (difficulty === 'facile') {
-      return this.getEasyMove(board, aiColor, playerColor);
+      return this.getEasyMove(board, aiColor, playerColor, rules);
     }
 
     // Pour autres difficultés, bloquer le joueur s'il peut gagner
-    const blockingMove = this.findImmediateWin(board, playerColor);
+    const blockingMove = this.findBlockingMove(board, playerColor, rules);
     if (blockingMove !== null) {
       return {
-        column: blockingMove,
+        ...blockingMove,
         score: 5000,
         reasoning: this.getRandomMessage(AI_REASONING_MESSAGES.BLOCKING_MOVE),
       };
@@ -48,14 +76,115 @@ export class Puissance4AIService {
     // Stratégie selon la difficulté
     switch (difficulty) {
       case 'moyen':
-        return this.getMediumMove(board, aiColor, playerColor);
+        return this.getMediumMove(board, aiColor, playerColor, rules);
       case 'difficile':
-        return this.getHardMove(board, aiColor, playerColor);
+        return this.getHardMove(board, aiColor, playerColor, rules);
       case 'expert':
-        return this.getExpertMove(board, aiColor, playerColor);
+        return this.getExpertMove(board, aiColor, playerColor, rules);
+      case 'imbattable':
+        return this.getPerfectMove(board, aiColor, playerColor, rules);
       default:
-        return this.getRandomMove(board);
+        return this.getRandomMove(board, aiColor, rules);
+    }
+  }
+
+  /**
+   * Mode coach : coups gagnants, colonnes à bloquer ou à éviter, menaces
+   * et leur parité, avec une suggestion expliquée pour le joueur au trait.
+   *
+   * Parité (règle classique) : le premier joueur (Rouge) profite des menaces
+   * sur les rangées impaires en partant du bas, le second (Jaune) des paires.
+   */
+  static getCoachingAdvice(
+    board: CellValue[][],
+    color: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules = DEFAULT_PUISSANCE4_RULES
+  ): CoachingAdvice {
+    const opponent = getOpponentColor(color);
+    const actions = getLegalActions(board, color, rules);
+
+    const winningActions = actions.filter(
+      action => applyAction(board, action, color, rules)?.winner === color
+    );
+    const blockingColumns = this.getAvailableColumns(board, rules).filter(
+      col => applyAction(board, { type: 'drop', column: col }, opponent, rules)?.winner === opponent
+    );
+
+    // Colonnes qui ouvrent à l'adversaire une victoire qu'il n'avait pas encore
+    const existingWins = new Set(
+      getLegalActions(board, opponent, rules)
+        .filter(action => applyAction(board, action, opponent, rules)?.winner === opponent)
+        .map(action => `${action.type}-${action.column}`)
+    );
+    const dangerColumns = this.getAvailableColumns(board, rules).filter(col => {
+      const result = applyAction(board, { type: 'drop', column: col }, color, rules);
+      if (!result || result.winner) return false;
+      return getLegalActions(result.board, opponent, rules).some(
+        action =>
+          !existingWins.has(`${action.type}-${action.column}`) &&
+          applyAction(result.board, action, opponent, rules)?.winner === opponent
+      );
+    });
+
+    const threats = [
+      ...this.findThreats(board, color, rules),
+      ...this.findThreats(board, opponent, rules),
+    ];
+
+    let suggestion: Puissance4Action | null = null;
+    let explanation: string;
+
+    if (winningActions.length > 0) {
+      suggestion = winningActions[0];
+      explanation = (suggestion.type === 'pop' ? COACH_MESSAGES.WIN_POP : COACH_MESSAGES.WIN_DROP)
+        .replace('{col}', String(suggestion.column + 1));
+    } else if (blockingColumns.length === 1) {
+      suggestion = { type: 'drop', column: blockingColumns[0] };
+      explanation = COACH_MESSAGES.BLOCK.replace('{col}', String(blockingColumns[0] + 1));
+    } else if (blockingColumns.length > 1) {
+      suggestion = { type: 'drop', column: blockingColumns[0] };
+      explanation = COACH_MESSAGES.DOUBLE_THREAT
+        .replace('{cols}', this.formatColumns(blockingColumns))
+        .replace('{col}', String(blockingColumns[0] + 1));
+    } else {
+      const safeActions = actions.filter(
+        action => action.type === 'pop' || !dangerColumns.includes(action.column)
+      );
+      suggestion = this.findCoachMove(
+        board,
+        safeActions.length > 0 ? safeActions : actions,
+        color,
+        opponent,
+        rules
+      );
+      const message = safeActions.length > 0 ? COACH_MESSAGES.SAFE_MOVE : COACH_MESSAGES.NO_SAFE_MOVE;
+      explanation = suggestion ? message.replace('{col}', String(suggestion.column + 1)) : '';
+
+      if (dangerColumns.length > 0 && safeActions.length > 0) {
+        explanation += ` ${COACH_MESSAGES.DANGER.replace('{cols}', this.formatColumns(dangerColumns))}`;
+      }
+
+      // Menaces en attente : la parité décide souvent de la fin de partie
+      const ownThreat = threats.find(threat => threat.color === color && threat.isFavorable);
+      const opponentThreat = threats.find(threat => threat.color === opponent && threat.isFavorable);
+      const parityThreat = ownThreat || opponentThreat;
+      if (parityThreat) {
+        const template = ownThreat ? COACH_MESSAGES.GOOD_PARITY : COACH_MESSAGES.OPPONENT_PARITY;
+        explanation += ` ${template
+          .replace('{row}', String(parityThreat.rowFromBottom))
+          .replace('{parity}', parityThreat.rowFromBottom % 2 === 1 ? 'impaire' : 'paire')
+          .replace('{col}', String(parityThreat.col + 1))}`;
+      }
     }
+
+    return {
+      winningColumns: winningActions.map(action => action.column),
+      blockingColumns,
+      dangerColumns,
+      threats,
+      suggestion,
+      explanation,
+    };
   }
 
   /**
@@ -64,37 +193,34 @@ export class Puissance4AIService {
   private static getEasyMove(
     board: CellValue[][],
     aiColor: 'Rouge' | 'Jaune',
-    playerColor: 'Rouge' | 'Jaune'
+    playerColor: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules
   ): AIMove {
-    const availableCols = this.getAvailableColumns(board);
-    const centerCol = Math.floor(this.COLS / 2);
+    const availableCols = this.getAvailableColumns(board, rules);
+    const centerCol = Math.floor(rules.cols / 2);
 
     // Bloquer seulement 40% du temps (au lieu de 100%)
     if (Math.random() < 0.4) {
-      const blockingMove = this.findImmediateWin(board, playerColor);
+      const blockingMove = this.findBlockingMove(board, playerColor, rules);
       if (blockingMove !== null) {
         return {
-          column: blockingMove,
+          ...blockingMove,
           score: 5000,
           reasoning: this.getRandomMessage(AI_REASONING_MESSAGES.BLOCKING_MOVE),
         };
       }
     }
 
-    // 30% de chance de jouer complètement au hasard
-    if (Math.random() < 0.3) {
-      const randomCol = availableCols[Math.floor(Math.random() * availableCols.length)];
-      return {
-        column: randomCol,
-        score: 0,
-        reasoning: this.getRandomMessage(AI_REASONING_MESSAGES.RANDOM_MOVE),
-      };
+    // 30% de chance de jouer complètement au hasard (retraits compris)
+    if (Math.random() < 0.3 || availableCols.length === 0) {
+      return this.getRandomMove(board, aiColor, rules);
     }
 
     // 50% de chance de jouer au centre si disponible
     if (Math.random() < 0.5 && availableCols.includes(centerCol)) {
       return {
         column: centerCol,
+        type: 'drop',
         score: 50,
         reasoning: this.getRandomMessage(AI_REASONING_MESSAGES.CENTER_CONTROL),
       };
@@ -104,6 +230,7 @@ export class Puissance4AIService {
     const randomCol = availableCols[Math.floor(Math.random() * availableCols.length)];
     return {
       column: randomCol,
+      type: 'drop',
       score: 0,
       reasoning: this.getRandomMessage(AI_REASONING_MESSAGES.RANDOM_MOVE),
     };
@@ -115,10 +242,11 @@ export class Puissance4AIService {
   private static getMediumMove(
     board: CellValue[][],
     aiColor: 'Rouge' | 'Jaune',
-    playerColor: 'Rouge' | 'Jaune'
+    playerColor: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules
   ): AIMove {
-    const depth = PUISSANCE4_CONFIG.AI.MINIMAX_DEPTH.moyen;
-    return this.getMiniMaxMove(board, aiColor, playerColor, depth);
+    const depth = this.getSearchDepth(PUISSANCE4_CONFIG.AI.MINIMAX_DEPTH.moyen, rules);
+    return this.getMiniMaxMove(board, aiColor, playerColor, depth, rules);
   }
 
   /**
@@ -127,10 +255,11 @@ export class Puissance4AIService {
   private static getHardMove(
     board: CellValue[][],
     aiColor: 'Rouge' | 'Jaune',
-    playerColor: 'Rouge' | 'Jaune'
+    playerColor: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules
   ): AIMove {
-    const depth = PUISSANCE4_CONFIG.AI.MINIMAX_DEPTH.difficile;
-    return this.getMiniMaxMove(board, aiColor, playerColor, depth);
+    const depth = this.getSearchDepth(PUISSANCE4_CONFIG.AI.MINIMAX_DEPTH.difficile, rules);
+    return this.getMiniMaxMove(board, aiColor, playerColor, depth, rules);
   }
 
   /**
@@ -139,10 +268,68 @@ export class Puissance4AIService {
   private static getExpertMove(
     board: CellValue[][],
     aiColor: 'Rouge' | 'Jaune',
-    playerColor: 'Rouge' | 'Jaune'
+    playerColor: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules
   ): AIMove {
-    const depth = PUISSANCE4_CONFIG.AI.MINIMAX_DEPTH.expert;
-    return this.getMiniMaxMove(board, aiColor, playerColor, depth);
+    const depth = this.getSearchDepth(PUISSANCE4_CONFIG.AI.MINIMAX_DEPTH.expert, rules);
+    return this.getMiniMaxMove(board, aiColor, playerColor, depth, rules);
+  }
+
+  /**
+   * IA Imbattable - Solveur exact, repli sur l'IA Expert si la position
+   * est trop ouverte pour être résolue dans le temps imparti
+   * (ou si les règles ne sont pas le classique 6x7)
+   */
+  private static async getPerfectMove(
+    board: CellValue[][],
+    aiColor: 'Rouge' | 'Jaune',
+    playerColor: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules
+  ): Promise<AIMove> {
+    if (!isStandardRules(rules)) {
+      return this.getExpertMove(board, aiColor, playerColor, rules);
+    }
+
+    // Plateau vide : le centre est le seul coup gagnant
+    if (board.every(row => row.every(cell => cell === null))) {
+      return {
+        column: Math.floor(rules.cols / 2),
+        type: 'drop',
+        score: 0,
+        reasoning: this.getRandomMessage(AI_REASONING_MESSAGES.CENTER_CONTROL),
+      };
+    }
+
+    // Ouverture : hors de portée du solveur, inutile de faire attendre le joueur
+    if (countStones(board) < PUISSANCE4_CONFIG.AI.SOLVER_MIN_STONES) {
+      return this.getExpertMove(board, aiColor, playerColor, rules);
+    }
+
+    const analysis = await analyzePositionAsync(board, aiColor, PUISSANCE4_CONFIG.AI.SOLVER_TIME_BUDGET_MS);
+    if (!analysis || analysis.bestColumn === null) {
+      return this.getExpertMove(board, aiColor, playerColor, rules);
+    }
+
+    let reasoning: string;
+    if (analysis.outcome === 'win') {
+      reasoning = this.getRandomMessage(AI_REASONING_MESSAGES.SOLVED_WIN)
+        .replace('{n}', String(analysis.movesToEnd));
+    } else if (analysis.outcome === 'draw') {
+      reasoning = this.getRandomMessage(AI_REASONING_MESSAGES.SOLVED_DRAW);
+    } else {
+      reasoning = this.getRandomMessage(AI_REASONING_MESSAGES.SOLVED_LOSS);
+    }
+
+    return { column: analysis.bestColumn, type: 'drop', score: analysis.score, reasoning };
+  }
+
+  /**
+   * Profondeur réduite sur les grands plateaux et en PopOut (plus de coups possibles)
+   */
+  private static getSearchDepth(baseDepth: number, rules: Puissance4Rules): number {
+    const extraColumns = Math.max(0, rules.cols - PUISSANCE4_CONFIG.COLS);
+    const popOutPenalty = rules.variant === 'popout' ? 2 : 0;
+    return Math.max(2, baseDepth - 2 * extraColumns - popOutPenalty);
   }
 
   /**
@@ -152,30 +339,32 @@ export class Puissance4AIService {
     board: CellValue[][],
     aiColor: 'Rouge' | 'Jaune',
     playerColor: 'Rouge' | 'Jaune',
-    depth: number
+    depth: number,
+    rules: Puissance4Rules
   ): AIMove {
     let bestScore = -Infinity;
-    let bestColumn = Math.floor(this.COLS / 2); // Centre par défaut
-    const availableCols = this.getAvailableColumns(board);
+    // Centre par défaut
+    let bestAction: Puissance4Action = { type: 'drop', column: Math.floor(rules.cols / 2) };
 
-    // Ordonner les colonnes pour optimiser l'élagage (colonnes centrales d'abord)
-    const orderedCols = this.orderColumnsByImportance(availableCols);
+    // Ordonner les coups pour optimiser l'élagage (colonnes centrales d'abord)
+    const orderedActions = this.orderActionsByImportance(getLegalActions(board, aiColor, rules), rules);
 
-    for (const col of orderedCols) {
-      const newBoard = this.simulateMove(board, col, aiColor);
-      const score = this.minimax(
-        newBoard,
-        depth - 1,
+    for (const action of orderedActions) {
+      const score = this.scoreAction(
+        board,
+        action,
+        depth,
         -Infinity,
         Infinity,
-        false,
+        true,
         aiColor,
-        playerColor
+        playerColor,
+        rules
       );
 
       if (score > bestScore) {
         bestScore = score;
-        bestColumn = col;
+        bestAction = action;
       }
     }
 
@@ -191,7 +380,32 @@ export class Puissance4AIService {
       reasoning = this.getRandomMessage(AI_REASONING_MESSAGES.DEFENSIVE_MOVE);
     }
 
-    return { column: bestColumn, score: bestScore, reasoning };
+    return { ...bestAction, score: bestScore, reasoning };
+  }
+
+  /**
+   * Jouer un coup puis évaluer la position obtenue
+   */
+  private static scoreAction(
+    board: CellValue[][],
+    action: Puissance4Action,
+    depth: number,
+    alpha: number,
+    beta: number,
+    isAIMove: boolean,
+    aiColor: 'Rouge' | 'Jaune',
+    playerColor: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules
+  ): number {
+    const result = applyAction(board, action, isAIMove ? aiColor : playerColor, rules);
+    if (!result) return isAIMove ? -Infinity : Infinity;
+
+    // Cas terminaux (en PopOut, un retrait peut faire gagner l'adversaire)
+    if (result.winner === aiColor) return 1000 + depth - 1; // Préférer victoires rapides
+    if (result.winner === playerColor) return -1000 - depth + 1;
+    if (result.winner === 'draw') return 0;
+
+    return this.minimax(result.board, depth - 1, alpha, beta, !isAIMove, aiColor, playerColor, rules);
   }
 
   /**
@@ -204,31 +418,19 @@ export class Puissance4AIService {
     beta: number,
     isMaximizing: boolean,
     aiColor: 'Rouge' | 'Jaune',
-    playerColor: 'Rouge' | 'Jaune'
+    playerColor: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules
   ): number {
-    // Cas terminaux
-    const winner = this.checkWinner(board);
-    if (winner === aiColor) return 1000 + depth; // Préférer victoires rapides
-    if (winner === playerColor) return -1000 - depth;
-    if (this.isBoardFull(board)) return 0;
-    if (depth === 0) return this.evaluatePosition(board, aiColor, playerColor);
+    if (depth === 0) return this.evaluatePosition(board, aiColor, playerColor, rules);
 
-    const availableCols = this.getAvailableColumns(board);
-    const orderedCols = this.orderColumnsByImportance(availableCols);
+    const actions = getLegalActions(board, isMaximizing ? aiColor : playerColor, rules);
+    if (actions.length === 0) return 0;
+    const orderedActions = this.orderActionsByImportance(actions, rules);
 
     if (isMaximizing) {
       let maxScore = -Infinity;
-      for (const col of orderedCols) {
-        const newBoard = this.simulateMove(board, col, aiColor);
-        const score = this.minimax(
-          newBoard,
-          depth - 1,
-          alpha,
-          beta,
-          false,
-          aiColor,
-          playerColor
-        );
+      for (const action of orderedActions) {
+        const score = this.scoreAction(board, action, depth, alpha, beta, true, aiColor, playerColor, rules);
         maxScore = Math.max(maxScore, score);
         alpha = Math.max(alpha, score);
         if (beta <= alpha) break; // Élagage Alpha-Beta
@@ -236,17 +438,8 @@ export class Puissance4AIService {
       return maxScore;
     } else {
       let minScore = Infinity;
-      for (const col of orderedCols) {
-        const newBoard = this.simulateMove(board, col, playerColor);
-        const score = this.minimax(
-          newBoard,
-          depth - 1,
-          alpha,
-          beta,
-          true,
-          aiColor,
-          playerColor
-        );
+      for (const action of orderedActions) {
+        const score = this.scoreAction(board, action, depth, alpha, beta, false, aiColor, playerColor, rules);
         minScore = Math.min(minScore, score);
         beta = Math.min(beta, score);
         if (beta <= alpha) break; // Élagage Alpha-Beta
@@ -261,67 +454,41 @@ export class Puissance4AIService {
   private static evaluatePosition(
     board: CellValue[][],
     aiColor: 'Rouge' | 'Jaune',
-    playerColor: 'Rouge' | 'Jaune'
+    playerColor: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules
   ): number {
     let score = 0;
-
-    // Évaluer toutes les fenêtres possibles de 4 cases
-    // Horizontal
-    for (let row = 0; row < this.ROWS; row++) {
-      for (let col = 0; col <= this.COLS - this.WIN_LENGTH; col++) {
-        const window = [
-          board[row][col],
-          board[row][col + 1],
-          board[row][col + 2],
-          board[row][col + 3],
-        ];
-        score += this.evaluateWindow(window, aiColor, playerColor);
-      }
-    }
-
-    // Vertical
-    for (let col = 0; col < this.COLS; col++) {
-      for (let row = 0; row <= this.ROWS - this.WIN_LENGTH; row++) {
-        const window = [
-          board[row][col],
-          board[row + 1][col],
-          board[row + 2][col],
-          board[row + 3][col],
-        ];
-        score += this.evaluateWindow(window, aiColor, playerColor);
-      }
-    }
-
-    // Diagonale descendante (\)
-    for (let row = 0; row <= this.ROWS - this.WIN_LENGTH; row++) {
-      for (let col = 0; col <= this.COLS - this.WIN_LENGTH; col++) {
-        const window = [
-          board[row][col],
-          board[row + 1][col + 1],
-          board[row + 2][col + 2],
-          board[row + 3][col + 3],
-        ];
-        score += this.evaluateWindow(window, aiColor, playerColor);
-      }
-    }
-
-    // Diagonale montante (/)
-    for (let row = this.WIN_LENGTH - 1; row < this.ROWS; row++) {
-      for (let col = 0; col <= this.COLS - this.WIN_LENGTH; col++) {
-        const window = [
-          board[row][col],
-          board[row - 1][col + 1],
-          board[row - 2][col + 2],
-          board[row - 3][col + 3],
-        ];
-        score += this.evaluateWindow(window, aiColor, playerColor);
+    const { rows, cols, winLength } = rules;
+
+    // Évaluer toutes les fenêtres possibles de winLength cases :
+    // horizontal, vertical, diagonale descendante (\) et montante (/)
+    const directions = [
+      { dr: 0, dc: 1 },
+      { dr: 1, dc: 0 },
+      { dr: 1, dc: 1 },
+      { dr: -1, dc: 1 },
+    ];
+
+    for (const { dr, dc } of directions) {
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          const endRow = row + dr * (winLength - 1);
+          const endCol = col + dc * (winLength - 1);
+          if (endRow < 0 || endRow >= rows || endCol >= cols) continue;
+
+          const window: CellValue[] = [];
+          for (let i = 0; i < winLength; i++) {
+            window.push(board[row + dr * i][col + dc * i]);
+          }
+          score += this.evaluateWindow(window, aiColor, playerColor);
+        }
       }
     }
 
     // Bonus pour contrôle du centre
-    const centerCol = Math.floor(this.COLS / 2);
+    const centerCol = Math.floor(cols / 2);
     let centerCount = 0;
-    for (let row = 0; row < this.ROWS; row++) {
+    for (let row = 0; row < rows; row++) {
       if (board[row][centerCol] === aiColor) centerCount++;
     }
     score += centerCount * 3;
@@ -330,7 +497,7 @@ export class Puissance4AIService {
   }
 
   /**
-   * Évalue une fenêtre de 4 cases avec scoring amélioré
+   * Évalue une fenêtre d'alignement avec scoring amélioré
    */
   private static evaluateWindow(
     window: CellValue[],
@@ -338,27 +505,28 @@ export class Puissance4AIService {
     playerColor: 'Rouge' | 'Jaune'
   ): number {
     let score = 0;
+    const size = window.length;
     const aiCount = window.filter(cell => cell === aiColor).length;
     const playerCount = window.filter(cell => cell === playerColor).length;
     const emptyCount = window.filter(cell => cell === null).length;
 
     // Fenêtre favorable à l'IA (scores augmentés)
-    if (aiCount === 4) {
+    if (aiCount === size) {
       score += 1000;  // Victoire = score très élevé
-    } else if (aiCount === 3 && emptyCount === 1) {
+    } else if (aiCount === size - 1 && emptyCount === 1) {
       score += 100;   // Quasi-victoire = très important
-    } else if (aiCount === 2 && emptyCount === 2) {
+    } else if (aiCount === size - 2 && emptyCount === 2) {
       score += 10;    // Opportunité à développer
-    } else if (aiCount === 1 && emptyCount === 3) {
+    } else if (aiCount === 1 && emptyCount === size - 1) {
       score += 1;     // Début de séquence
     }
 
     // Fenêtre favorable au joueur - blocage plus agressif
-    if (playerCount === 3 && emptyCount === 1) {
+    if (playerCount === size - 1 && emptyCount === 1) {
       score -= 200;   // URGENT - bloquer absolument
-    } else if (playerCount === 2 && emptyCount === 2) {
+    } else if (playerCount === size - 2 && emptyCount === 2) {
       score -= 50;    // Bloquer opportunité adverse
-    } else if (playerCount === 1 && emptyCount === 3) {
+    } else if (playerCount === 1 && emptyCount === size - 1) {
       score -= 5;     // Surveiller
     }
 
@@ -375,147 +543,191 @@ export class Puissance4AIService {
    */
   private static findImmediateWin(
     board: CellValue[][],
-    color: 'Rouge' | 'Jaune'
-  ): number | null {
-    for (let col = 0; col < this.COLS; col++) {
-      if (this.canPlayColumn(board, col)) {
-        const newBoard = this.simulateMove(board, col, color);
-        if (this.checkWinner(newBoard) === color) {
-          return col;
-        }
+    color: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules
+  ): Puissance4Action | null {
+    for (const action of getLegalActions(board, color, rules)) {
+      if (applyAction(board, action, color, rules)?.winner === color) {
+        return action;
       }
     }
     return null;
   }
 
   /**
-   * Vérifie s'il y a un gagnant
+   * Colonne où déposer un jeton pour empêcher une victoire adverse par dépôt
    */
-  private static checkWinner(board: CellValue[][]): 'Rouge' | 'Jaune' | null {
-    // Vérifier toutes les directions pour chaque case
-    for (let row = 0; row < this.ROWS; row++) {
-      for (let col = 0; col < this.COLS; col++) {
-        const color = board[row][col];
-        if (!color) continue;
-
-        // Horizontal
-        if (col <= this.COLS - this.WIN_LENGTH) {
-          let win = true;
-          for (let i = 1; i < this.WIN_LENGTH; i++) {
-            if (board[row][col + i] !== color) {
-              win = false;
-              break;
-            }
-          }
-          if (win) return color;
-        }
+  private static findBlockingMove(
+    board: CellValue[][],
+    opponentColor: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules
+  ): Puissance4Action | null {
+    for (const col of this.getAvailableColumns(board, rules)) {
+      const action: Puissance4Action = { type: 'drop', column: col };
+      if (applyAction(board, action, opponentColor, rules)?.winner === opponentColor) {
+        return action;
+      }
+    }
+    return null;
+  }
 
-        // Vertical
-        if (row <= this.ROWS - this.WIN_LENGTH) {
-          let win = true;
-          for (let i = 1; i < this.WIN_LENGTH; i++) {
-            if (board[row + i][col] !== color) {
-              win = false;
-              break;
-            }
-          }
-          if (win) return color;
-        }
+  /**
+   * Cases vides (pas encore jouables) qui complèteraient un alignement de `color`
+   */
+  private static findThreats(
+    board: CellValue[][],
+    color: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules
+  ): CoachThreat[] {
+    const threats: CoachThreat[] = [];
+    const favorsOdd = color === 'Rouge';
+
+    for (let col = 0; col < rules.cols; col++) {
+      const landingRow = findAvailableRow(board, col);
+      for (let row = landingRow - 1; row >= 0; row--) {
+        const testBoard = board.map(r => [...r]);
+        testBoard[row][col] = color;
+        if (getLineThrough(testBoard, row, col, color, rules.winLength).length === 0) continue;
+
+        const rowFromBottom = rules.rows - row;
+        threats.push({
+          row,
+          col,
+          color,
+          rowFromBottom,
+          isFavorable: (rowFromBottom % 2 === 1) === favorsOdd,
+        });
+      }
+    }
 
-        // Diagonale \
-        if (
-          row <= this.ROWS - this.WIN_LENGTH &&
-          col <= this.COLS - this.WIN_LENGTH
-        ) {
-          let win = true;
-          for (let i = 1; i < this.WIN_LENGTH; i++) {
-            if (board[row + i][col + i] !== color) {
-              win = false;
-              break;
-            }
-          }
-          if (win) return color;
-        }
+    // Les menaces les plus basses comptent le plus
+    return threats.sort((a, b) => a.rowFromBottom - b.rowFromBottom);
+  }
 
-        // Diagonale /
-        if (row >= this.WIN_LENGTH - 1 && col <= this.COLS - this.WIN_LENGTH) {
-          let win = true;
-          for (let i = 1; i < this.WIN_LENGTH; i++) {
-            if (board[row - i][col + i] !== color) {
-              win = false;
-              break;
-            }
-          }
-          if (win) return color;
-        }
+  /**
+   * Meilleur coup parmi `actions` avec une recherche peu profonde
+   */
+  private static findCoachMove(
+    board: CellValue[][],
+    actions: Puissance4Action[],
+    color: 'Rouge' | 'Jaune',
+    opponent: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules
+  ): Puissance4Action | null {
+    const depth = this.getSearchDepth(PUISSANCE4_CONFIG.AI.COACH_DEPTH, rules);
+    let bestScore = -Infinity;
+    let bestAction: Puissance4Action | null = null;
+
+    for (const action of this.orderActionsByImportance(actions, rules)) {
+      const score = this.scoreAction(board, action, depth, -Infinity, Infinity, true, color, opponent, rules);
+      if (bestAction === null || score > bestScore) {
+        bestScore = score;
+        bestAction = action;
       }
     }
 
-    return null;
+    return bestAction;
   }
 
   /**
    * HELPERS
    */
 
-  private static getAvailableColumns(board: CellValue[][]): number[] {
-    return Array.from({ length: this.COLS }, (_, i) => i).filter(col =>
-      this.canPlayColumn(board, col)
-    );
+  private static getAvailableColumns(board: CellValue[][], rules: Puissance4Rules): number[] {
+    return Array.from({ length: rules.cols }, (_, i) => i).filter(col => board[0][col] === null);
   }
 
-  private static canPlayColumn(board: CellValue[][], col: number): boolean {
-    return board[0][col] === null;
-  }
+  private static getRandomMove(
+    board: CellValue[][],
+    color: 'Rouge' | 'Jaune',
+    rules: Puissance4Rules
+  ): AIMove {
+    const actions = getLegalActions(board, color, rules);
+    const action = actions[Math.floor(Math.random() * actions.length)];
 
-  private static findAvailableRow(board: CellValue[][], col: number): number {
-    for (let row = this.ROWS - 1; row >= 0; row--) {
-      if (board[row][col] === null) return row;
-    }
-    return -1;
+    return {
+      ...action,
+      score: 0,
+      reasoning: this.getRandomMessage(AI_REASONING_MESSAGES.RANDOM_MOVE),
+    };
   }
 
-  private static simulateMove(
+  /**
+   * Pop 10 : retirer en priorité un jeton qui sera gardé, sinon déposer là
+   * où le jeton prolonge le plus ses propres lignes (au centre à égalité)
+   */
+  private static getPop10Move(
     board: CellValue[][],
-    col: number,
-    color: 'Rouge' | 'Jaune'
-  ): CellValue[][] {
-    const newBoard = board.map(row => [...row]);
-    const row = this.findAvailableRow(board, col);
-    if (row !== -1) {
-      newBoard[row][col] = color;
+    aiColor: 'Rouge' | 'Jaune',
+    difficulty: AIDifficulty,
+    rules: Puissance4Rules,
+    pop10?: Pop10State
+  ): AIMove {
+    const actions = getLegalActions(board, aiColor, rules, pop10);
+    if (difficulty === 'facile') {
+      return {
+        ...actions[Math.floor(Math.random() * actions.length)],
+        score: 0,
+        reasoning: this.getRandomMessage(AI_REASONING_MESSAGES.RANDOM_MOVE),
+      };
     }
-    return newBoard;
-  }
 
-  private static isBoardFull(board: CellValue[][]): boolean {
-    return board[0].every(cell => cell !== null);
-  }
+    const centerCol = Math.floor(rules.cols / 2);
+    const scored = actions.map(action => {
+      if (action.type === 'pop') {
+        const isKept = getLineThrough(board, rules.rows - 1, action.column, aiColor, rules.winLength).length > 0;
+        return { action, score: isKept ? 100 : -Math.abs(action.column - centerCol) };
+      }
+
+      const row = findAvailableRow(board, action.column);
+      const result = applyAction(board, action, aiColor, rules, pop10);
+      const neighbours = result
+        ? [-1, 0, 1].reduce((count, dr) => count + [-1, 0, 1].filter(
+            dc => (dr !== 0 || dc !== 0) && result.board[row + dr]?.[action.column + dc] === aiColor
+          ).length, 0)
+        : 0;
+      const line = result ? getLineThrough(result.board, row, action.column, aiColor, rules.winLength) : [];
+      return { action, score: (line.length > 0 ? 10 : 0) + neighbours - Math.abs(action.column - centerCol) };
+    });
 
-  private static getRandomMove(board: CellValue[][]): AIMove {
-    const availableCols = this.getAvailableColumns(board);
-    const column = availableCols[Math.floor(Math.random() * availableCols.length)];
+    const best = scored.reduce((a, b) => (b.score > a.score ? b : a));
+    const messages = best.score >= 100
+      ? AI_REASONING_MESSAGES.STRATEGIC_MOVE
+      : best.action.column === centerCol ? AI_REASONING_MESSAGES.CENTER_CONTROL : AI_REASONING_MESSAGES.DEFENSIVE_MOVE;
 
     return {
-      column,
-      score: 0,
-      reasoning: this.getRandomMessage(AI_REASONING_MESSAGES.RANDOM_MOVE),
+      ...best.action,
+      score: best.score,
+      reasoning: this.getRandomMessage(messages),
     };
   }
 
   /**
-   * Ordonne les colonnes par importance (centre d'abord)
+   * Ordonne les coups par importance (dépôts au centre d'abord, retraits ensuite)
    * Optimise l'élagage Alpha-Beta
    */
-  private static orderColumnsByImportance(columns: number[]): number[] {
-    const centerCol = Math.floor(this.COLS / 2);
-    return [...columns].sort((a, b) => {
-      const distA = Math.abs(a - centerCol);
-      const distB = Math.abs(b - centerCol);
+  private static orderActionsByImportance(
+    actions: Puissance4Action[],
+    rules: Puissance4Rules
+  ): Puissance4Action[] {
+    const centerCol = Math.floor(rules.cols / 2);
+    return [...actions].sort((a, b) => {
+      if (a.type !== b.type) return a.type === 'drop' ? -1 : 1;
+      const distA = Math.abs(a.column - centerCol);
+      const distB = Math.abs(b.column - centerCol);
       return distA - distB;
     });
   }
 
+  /**
+   * « la colonne 3 » ou « les colonnes 3 et 5 »
+   */
+  private static formatColumns(columns: number[]): string {
+    const labels = columns.map(col => String(col + 1));
+    if (labels.length === 1) return `la colonne ${labels[0]}`;
+    return `les colonnes ${labels.slice(0, -1).join(', ')} et ${labels[labels.length - 1]}`;
+  }
+
   /**
    * Sélectionne un message aléatoire
    */
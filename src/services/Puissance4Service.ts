@@ -1,8 +1,27 @@
 import firestore from '@react-native-firebase/firestore';
+import functions from '@react-native-firebase/functions';
 import { CellValue, Puissance4Stakes } from '../types/puissance4.types';
 import { PlayerProfile } from '../types/wordSearch.types';
-import { PUISSANCE4_CONFIG } from '../constants/Puissance4Constants';
 import { withRetry, getErrorMessage } from '../utils/networkUtils';
+import StakesLedgerService from './StakesLedgerService';
+import {
+  Puissance4Rules,
+  Puissance4ActionType,
+  Pop10State,
+  resolveRules,
+  createEmptyBoard,
+  createPop10State,
+  applyAction,
+  getLineThrough,
+  flatTo2D as toBoard2D,
+  twoDToFlat as toFlatBoard,
+} from '../utils/puissance4Logic';
+import {
+  TimeControl,
+  WinReason,
+  createInitialClocks,
+  getClocksAfterMove,
+} from '../utils/timeControl';
 
 const PUISSANCE4_GAMES_COLLECTION = 'puissance4_games';
 const PUISSANCE4_HISTORY_COLLECTION = 'puissance4_history';
@@ -14,14 +33,31 @@ export interface Puissance4Player {
   isReady: boolean;
 }
 
+export interface Puissance4Spectator {
+  id: string;
+  name: string;
+  joinedAt: number;
+}
+
 export interface Puissance4Move {
+  moveNumber?: number; // Absent sur les anciennes parties : position dans moves + 1
   playerId: string;
   color: 'Rouge' | 'Jaune';
+  type?: Puissance4ActionType; // Absent sur les anciennes parties : 'drop'
   column: number;
   row: number;
   timestamp: number;
 }
 
+/**
+ * Dernier coup appliqué pour un joueur : une nouvelle tentative du même
+ * coup (même actionId) est reconnue au lieu d'être refusée comme obsolète
+ */
+export interface Puissance4ActionReceipt {
+  actionId: string;
+  moveNumber: number;
+}
+
 export interface Puissance4Game {
   id: string;
   roomCode: string;
@@ -29,64 +65,61 @@ export interface Puissance4Game {
   players: Puissance4Player[];
   maxPlayers: 2;
   status: 'waiting' | 'playing' | 'finished';
-  board: (CellValue | null)[]; // Tableau plat pour Firestore (6x7 = 42 éléments)
+  board: (CellValue | null)[]; // Tableau plat pour Firestore (rows x cols éléments)
+  rules?: Puissance4Rules; // Absent sur les anciennes parties : classique 6x7
+  pop10?: Pop10State | null; // Variante Pop 10 uniquement : jetons gardés, jeton à reposer
   currentPlayer: 'Rouge' | 'Jaune';
   moves: Puissance4Move[];
+  moveNumber?: number; // Nombre de coups joués (absent sur les anciennes parties : moves.length)
+  lastActions?: Record<string, Puissance4ActionReceipt>; // Par joueur
+  spectators?: Puissance4Spectator[]; // Lecture seule : regardent la partie sans jouer
   winner: 'Rouge' | 'Jaune' | 'draw' | null;
   winningLine: { row: number; col: number }[];
   stakes: Puissance4Stakes | null;
+  timeControl?: TimeControl | null; // Cadence choisie à la création (null : sans limite)
+  clocks?: Record<'Rouge' | 'Jaune', number> | null; // Banque restante de chaque couleur au début du tour
+  turnStartedAt?: number | null; // Horodatage serveur, converti en millisecondes à la lecture
+  winReason?: WinReason | null;
   createdAt: number;
   startedAt: number | null;
   completedAt: number | null;
   updatedAt: number;
 }
 
+export interface CreatePuissance4GameOptions {
+  stakes?: Puissance4Stakes;
+  timeControl?: TimeControl | null;
+  rules?: Puissance4Rules;
+}
+
 export class Puissance4Service {
   /**
    * Convertir un board plat en board 2D pour l'affichage
    */
-  static flatTo2D(flatBoard: (CellValue | null)[]): CellValue[][] {
-    const board: CellValue[][] = [];
-    for (let row = 0; row < PUISSANCE4_CONFIG.ROWS; row++) {
-      const rowData: CellValue[] = [];
-      for (let col = 0; col < PUISSANCE4_CONFIG.COLS; col++) {
-        const index = row * PUISSANCE4_CONFIG.COLS + col;
-        rowData.push(flatBoard[index] || null);
-      }
-      board.push(rowData);
-    }
-    return board;
+  static flatTo2D(flatBoard: (CellValue | null)[], rules?: Puissance4Rules): CellValue[][] {
+    return toBoard2D(flatBoard, resolveRules(rules));
   }
 
   /**
    * Convertir un board 2D en board plat pour Firestore
    */
   static twoDToFlat(board2D: CellValue[][]): (CellValue | null)[] {
-    const flatBoard: (CellValue | null)[] = [];
-    for (let row = 0; row < PUISSANCE4_CONFIG.ROWS; row++) {
-      for (let col = 0; col < PUISSANCE4_CONFIG.COLS; col++) {
-        flatBoard.push(board2D[row][col] || null);
-      }
-    }
-    return flatBoard;
+    return toFlatBoard(board2D);
   }
 
   /**
-   * Obtenir une cellule depuis le board plat
+   * Lire une partie depuis Firestore.
+   * turnStartedAt est un horodatage serveur : il est converti en millisecondes
+   * (estimé localement tant que l'écriture n'est pas confirmée).
    */
-  static getCell(flatBoard: (CellValue | null)[], row: number, col: number): CellValue | null {
-    const index = row * PUISSANCE4_CONFIG.COLS + col;
-    return flatBoard[index] || null;
-  }
-
-  /**
-   * Définir une cellule dans le board plat
-   */
-  static setCell(flatBoard: (CellValue | null)[], row: number, col: number, value: CellValue | null): (CellValue | null)[] {
-    const newBoard = [...flatBoard];
-    const index = row * PUISSANCE4_CONFIG.COLS + col;
-    newBoard[index] = value;
-    return newBoard;
+  private static readGame(snapshot: any): Puissance4Game {
+    const data = snapshot.data({ serverTimestamps: 'estimate' }) || {};
+    const turnStartedAt = data.turnStartedAt;
+    return {
+      id: snapshot.id,
+      ...data,
+      turnStartedAt: typeof turnStartedAt?.toMillis === 'function' ? turnStartedAt.toMillis() : turnStartedAt ?? null,
+    } as Puissance4Game;
   }
 
   /**
@@ -141,13 +174,19 @@ export class Puissance4Service {
   /**
    * Créer une nouvelle partie de Puissance 4
    */
-  static async createGame(hostProfile: PlayerProfile, stakes?: Puissance4Stakes): Promise<string> {
+  static async createGame(
+    hostProfile: PlayerProfile,
+    options: CreatePuissance4GameOptions = {}
+  ): Promise<string> {
+    const { stakes, timeControl = null } = options;
+    const rules = resolveRules(options.rules);
+
     return withRetry(async () => {
       const roomCode = await this.generateUniqueRoomCode();
 
       // Plateau vide - Firestore ne supporte pas les nested arrays
-      // On stocke le board comme un tableau plat de 42 éléments (6 rows x 7 cols)
-      const emptyBoard: (CellValue | null)[] = Array(PUISSANCE4_CONFIG.ROWS * PUISSANCE4_CONFIG.COLS).fill(null);
+      // On stocke le board comme un tableau plat de rows x cols éléments
+      const emptyBoard = this.twoDToFlat(createEmptyBoard(rules));
 
       const hostPlayer: Puissance4Player = {
         id: hostProfile.id,
@@ -163,11 +202,19 @@ export class Puissance4Service {
         maxPlayers: 2,
         status: 'waiting',
         board: emptyBoard,
+        rules,
+        pop10: rules.variant === 'pop10' ? createPop10State() : null,
         currentPlayer: 'Rouge',
         moves: [],
+        moveNumber: 0,
+        spectators: [],
         winner: null,
         winningLine: [],
         stakes: stakes || null,
+        timeControl,
+        clocks: createInitialClocks<'Rouge' | 'Jaune'>(timeControl, ['Rouge', 'Jaune']),
+        turnStartedAt: null,
+        winReason: null,
         createdAt: Date.now(),
         startedAt: null,
         completedAt: null,
@@ -181,6 +228,7 @@ export class Puissance4Service {
       console.log('Puissance 4 game created:', {
         gameId: docRef.id,
         roomCode,
+        rules,
       });
 
       return docRef.id;
@@ -206,7 +254,7 @@ export class Puissance4Service {
     }
 
     const gameDoc = snapshot.docs[0];
-    const game = { id: gameDoc.id, ...gameDoc.data() } as Puissance4Game;
+    const game = this.readGame(gameDoc);
 
     // Vérifier qu'il n'y a qu'un seul joueur
     if (game.players.length >= 2) {
@@ -239,6 +287,81 @@ export class Puissance4Service {
     return gameDoc.id;
   }
 
+  /**
+   * Rejoindre une partie en spectateur via le code room (en attente ou en cours).
+   * Un joueur de la partie ne peut pas s'y inscrire comme spectateur.
+   */
+  static async joinAsSpectator(
+    roomCode: string,
+    spectatorProfile: Pick<PlayerProfile, 'id' | 'name'>
+  ): Promise<string> {
+    const snapshot = await firestore()
+      .collection(PUISSANCE4_GAMES_COLLECTION)
+      .where('roomCode', '==', roomCode)
+      .where('status', 'in', ['waiting', 'playing'])
+      .limit(1)
+      .get();
+
+    if (snapshot.empty) {
+      throw new Error('Partie non trouvée ou déjà terminée');
+    }
+
+    const gameRef = snapshot.docs[0].ref;
+
+    await firestore().runTransaction(async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      const game = this.readGame(gameDoc);
+
+      if (game.players.some(p => p.id === spectatorProfile.id)) {
+        throw new Error('Vous jouez déjà dans cette partie');
+      }
+
+      const spectators = game.spectators || [];
+      if (spectators.some(s => s.id === spectatorProfile.id)) {
+        return;
+      }
+
+      const spectator: Puissance4Spectator = {
+        id: spectatorProfile.id,
+        name: spectatorProfile.name,
+        joinedAt: Date.now(),
+      };
+
+      transaction.update(gameRef, {
+        spectators: [...spectators, spectator],
+        updatedAt: Date.now(),
+      });
+    });
+
+    console.log('Spectator joined Puissance 4 game:', {
+      gameId: gameRef.id,
+      spectatorId: spectatorProfile.id,
+    });
+
+    return gameRef.id;
+  }
+
+  /**
+   * Quitter une partie regardée en spectateur
+   */
+  static async leaveAsSpectator(gameId: string, spectatorId: string): Promise<void> {
+    const gameRef = firestore().collection(PUISSANCE4_GAMES_COLLECTION).doc(gameId);
+
+    await firestore().runTransaction(async (transaction) => {
+      const gameDoc = await transaction.get(gameRef);
+      if (!gameDoc.exists) {
+        return;
+      }
+
+      const game = this.readGame(gameDoc);
+      transaction.update(gameRef, {
+        spectators: (game.spectators || []).filter(s => s.id !== spectatorId),
+      });
+    });
+
+    console.log('Spectator left Puissance 4 game:', { gameId, spectatorId });
+  }
+
   /**
    * Définir le statut ready d'un joueur
    */
@@ -254,7 +377,7 @@ export class Puissance4Service {
       throw new Error('Partie non trouvée');
     }
 
-    const game = { id: gameDoc.id, ...gameDoc.data() } as Puissance4Game;
+    const game = this.readGame(gameDoc);
     const updatedPlayers = game.players.map(p =>
       p.id === playerId ? { ...p, isReady } : p
     );
@@ -285,7 +408,7 @@ export class Puissance4Service {
       throw new Error('Partie non trouvée');
     }
 
-    const game = { id: gameDoc.id, ...gameDoc.data() } as Puissance4Game;
+    const game = this.readGame(gameDoc);
 
     if (game.status !== 'waiting') {
       throw new Error('Les enjeux ne peuvent être modifiés qu\'avant le début de la partie');
@@ -310,7 +433,7 @@ export class Puissance4Service {
       throw new Error('Partie non trouvée');
     }
 
-    const game = { id: gameDoc.id, ...gameDoc.data() } as Puissance4Game;
+    const game = this.readGame(gameDoc);
 
     if (game.hostId !== hostId) {
       throw new Error('Seul l\'hôte peut démarrer la partie');
@@ -324,114 +447,195 @@ export class Puissance4Service {
       throw new Error('Tous les joueurs doivent être prêts');
     }
 
+    const now = Date.now();
     await gameRef.update({
       status: 'playing',
-      startedAt: Date.now(),
-      updatedAt: Date.now(),
+      startedAt: now,
+      turnStartedAt: firestore.FieldValue.serverTimestamp(), // Heure du serveur : les règles la vérifient
+      updatedAt: now,
     });
 
     console.log('Puissance 4 game started:', { gameId });
   }
 
   /**
-   * Jouer un coup
+   * Identifiant d'un coup, généré une seule fois par coup :
+   * les nouvelles tentatives le réutilisent
+   */
+  private static generateActionId(playerId: string): string {
+    return `${playerId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Nombre de coups joués sur la partie
+   */
+  static getMoveNumber(game: Puissance4Game): number {
+    return game.moveNumber ?? game.moves.length;
+  }
+
+  /**
+   * Jouer un coup (dépôt, ou retrait d'un jeton du bas en PopOut).
+   *
+   * Transactionnel : le coup est refusé si la partie a avancé depuis que le
+   * joueur l'a vue (`expectedMoveNumber`), ce qui évite qu'un double appui ou
+   * deux appareils n'écrivent deux coups sur le même plateau.
+   * Le même actionId est envoyé à chaque tentative : un coup validé dont la
+   * réponse s'est perdue n'est pas refusé comme obsolète à la tentative suivante.
    */
   static async playMove(
     gameId: string,
     playerId: string,
-    columnIndex: number
+    columnIndex: number,
+    moveType: Puissance4ActionType = 'drop',
+    expectedMoveNumber?: number
   ): Promise<void> {
+    const actionId = this.generateActionId(playerId);
     return withRetry(async () => {
       const gameRef = firestore().collection(PUISSANCE4_GAMES_COLLECTION).doc(gameId);
-      const gameDoc = await gameRef.get();
 
-      if (!gameDoc.exists) {
-        throw new Error('Partie non trouvée');
-      }
+      const outcome = await firestore().runTransaction(async (transaction) => {
+        const gameDoc = await transaction.get(gameRef);
 
-      const game = { id: gameDoc.id, ...gameDoc.data() } as Puissance4Game;
+        if (!gameDoc.exists) {
+          throw new Error('Partie non trouvée');
+        }
 
-      if (game.status !== 'playing') {
-        throw new Error('La partie n\'est pas en cours');
-      }
+        const game = this.readGame(gameDoc);
 
-      // Trouver le joueur
-      const player = game.players.find(p => p.id === playerId);
-      if (!player) {
-        throw new Error('Joueur non trouvé');
-      }
+        // Coup déjà appliqué par une tentative précédente (la partie a pu se terminer)
+        const receipt = game.lastActions?.[playerId];
+        if (receipt?.actionId === actionId) {
+          return { game, result: null, moveCount: receipt.moveNumber };
+        }
 
-      // Vérifier que c'est son tour
-      if (player.color !== game.currentPlayer) {
-        throw new Error('Ce n\'est pas votre tour');
-      }
+        if (game.status !== 'playing') {
+          throw new Error('La partie n\'est pas en cours');
+        }
 
-      // Trouver la ligne disponible (de bas en haut)
-      let rowIndex = -1;
-      for (let row = PUISSANCE4_CONFIG.ROWS - 1; row >= 0; row--) {
-        if (this.getCell(game.board, row, columnIndex) === null) {
-          rowIndex = row;
-          break;
+        // Trouver le joueur (les spectateurs ne jouent pas)
+        const player = game.players.find(p => p.id === playerId);
+        if (!player) {
+          throw new Error('Joueur non trouvé');
         }
-      }
 
-      if (rowIndex === -1) {
-        throw new Error('Cette colonne est pleine');
-      }
+        const moveNumber = this.getMoveNumber(game);
+        if (expectedMoveNumber !== undefined && expectedMoveNumber !== moveNumber) {
+          throw new Error('La partie a changé, veuillez réessayer');
+        }
 
-      // Mettre à jour le plateau (format plat)
-      const newBoard = this.setCell(game.board, rowIndex, columnIndex, player.color);
+        // Vérifier que c'est son tour
+        if (player.color !== game.currentPlayer) {
+          throw new Error('Ce n\'est pas votre tour');
+        }
 
-      // Ajouter le coup à l'historique
-      const move: Puissance4Move = {
-        playerId,
-        color: player.color,
-        column: columnIndex,
-        row: rowIndex,
-        timestamp: Date.now(),
-      };
+        // Les règles Firestore refusent un coup arrivé après la chute du drapeau
+        // (heure du serveur) : voir claimTimeout dans le catch ci-dessous
+        const now = Date.now();
+
+        const rules = resolveRules(game.rules);
+        const result = applyAction(
+          this.flatTo2D(game.board, rules),
+          { type: moveType, column: columnIndex },
+          player.color,
+          rules,
+          game.pop10 || undefined
+        );
+
+        if (!result) {
+          if (rules.variant === 'pop10') {
+            throw new Error('Ce coup n\'est pas possible à ce moment de la partie');
+          }
+          throw new Error(moveType === 'pop'
+            ? 'Vous ne pouvez retirer que vos propres jetons du bas'
+            : 'Cette colonne est pleine');
+        }
 
-      const newMoves = [...game.moves, move];
+        // Ajouter le coup à l'historique
+        const move: Puissance4Move = {
+          moveNumber: moveNumber + 1,
+          playerId,
+          color: player.color,
+          type: moveType,
+          column: columnIndex,
+          row: result.row,
+          timestamp: now,
+        };
+
+        const newMoves = [...game.moves, move];
+
+        let updateData: any = {
+          board: this.twoDToFlat(result.board),
+          moves: newMoves,
+          moveNumber: moveNumber + 1,
+          [`lastActions.${playerId}`]: { actionId, moveNumber: moveNumber + 1 },
+          updatedAt: now,
+        };
+
+        if (result.pop10) {
+          updateData.pop10 = result.pop10;
+        }
 
-      // Vérifier la victoire
-      const winResult = this.checkWinner(newBoard, rowIndex, columnIndex, player.color);
+        if (game.timeControl) {
+          updateData.clocks = getClocksAfterMove(game.timeControl, game.clocks, player.color, game.turnStartedAt, now);
+          updateData.turnStartedAt = firestore.FieldValue.serverTimestamp();
+        }
 
-      let updateData: any = {
-        board: newBoard,
-        moves: newMoves,
-        updatedAt: Date.now(),
-      };
+        if (result.winner === 'draw') {
+          // Match nul
+          updateData.winner = 'draw';
+          updateData.status = 'finished';
+          updateData.winReason = 'draw';
+          updateData.completedAt = now;
+        } else if (result.winner) {
+          // Victoire (en PopOut, un retrait peut faire gagner l'adversaire)
+          updateData.winner = result.winner;
+          updateData.winningLine = result.winningLine;
+          updateData.status = 'finished';
+          updateData.winReason = 'alignment';
+          updateData.completedAt = now;
+        } else {
+          // Passer au joueur suivant (en Pop 10, un jeton gardé fait rejouer)
+          updateData.currentPlayer = result.nextPlayer;
+        }
 
-      if (winResult.winner) {
-        // Victoire
-        updateData.winner = player.color;
-        updateData.winningLine = winResult.line;
-        updateData.status = 'finished';
-        updateData.completedAt = Date.now();
-
-        // Sauvegarder dans l'historique
-        await this.saveGameHistory(game, player.color, newMoves.length);
-      } else if (this.isBoardFull(newBoard)) {
-        // Match nul
-        updateData.winner = 'draw';
-        updateData.status = 'finished';
-        updateData.completedAt = Date.now();
-
-        // Sauvegarder dans l'historique
-        await this.saveGameHistory(game, 'draw', newMoves.length);
-      } else {
-        // Passer au joueur suivant
-        updateData.currentPlayer = game.currentPlayer === 'Rouge' ? 'Jaune' : 'Rouge';
+        transaction.update(gameRef, updateData);
+
+        return { game, result, moveCount: newMoves.length };
+      }).catch(async (error: any) => {
+        // Coup refusé par les règles : si le drapeau est tombé, le serveur termine la partie au temps
+        if (error?.code === 'firestore/permission-denied' && await this.claimTimeout(gameId)) {
+          throw new Error('Le temps est écoulé');
+        }
+        throw error;
+      });
+
+      const { game, result, moveCount } = outcome;
+
+      if (!result) {
+        // La tentative précédente a échoué après validation, avant d'écrire l'historique
+        const endedByThisMove = game.winReason === 'alignment' || game.winReason === 'draw';
+        if (game.status === 'finished' && game.winner && endedByThisMove && this.getMoveNumber(game) === moveCount) {
+          await this.saveGameHistory(game, game.winner, moveCount);
+        }
+        console.log('Move already played:', { gameId, playerId, moveNumber: moveCount });
+        return;
       }
 
-      await gameRef.update(updateData);
+      // Historique écrit une fois la transaction validée (elle peut être rejouée)
+      if (result.winner === 'draw') {
+        await this.saveGameHistory(game, 'draw', moveCount);
+      } else if (result.winner) {
+        await this.saveGameHistory({ ...game, winningLine: result.winningLine }, result.winner, moveCount);
+      }
 
       console.log('Move played:', {
         gameId,
         playerId,
+        type: moveType,
         column: columnIndex,
-        row: rowIndex,
-        winner: updateData.winner,
+        row: result.row,
+        moveNumber: moveCount,
+        winner: result.winner,
       });
     }, { maxRetries: 2 }, 'playPuissance4Move');
   }
@@ -443,70 +647,12 @@ export class Puissance4Service {
     board: (CellValue | null)[],
     row: number,
     col: number,
-    color: 'Rouge' | 'Jaune'
+    color: 'Rouge' | 'Jaune',
+    rules?: Puissance4Rules
   ): { winner: boolean; line: { row: number; col: number }[] } {
-    const directions = [
-      { dr: 0, dc: 1 },  // Horizontal →
-      { dr: 1, dc: 0 },  // Vertical ↓
-      { dr: 1, dc: 1 },  // Diagonale ↘
-      { dr: 1, dc: -1 }, // Diagonale ↙
-    ];
-
-    for (const { dr, dc } of directions) {
-      const line: { row: number; col: number }[] = [{ row, col }];
-      let count = 1;
-
-      // Direction positive
-      let r = row + dr;
-      let c = col + dc;
-      while (
-        r >= 0 &&
-        r < PUISSANCE4_CONFIG.ROWS &&
-        c >= 0 &&
-        c < PUISSANCE4_CONFIG.COLS &&
-        this.getCell(board, r, c) === color
-      ) {
-        line.push({ row: r, col: c });
-        count++;
-        r += dr;
-        c += dc;
-      }
-
-      // Direction négative
-      r = row - dr;
-      c = col - dc;
-      while (
-        r >= 0 &&
-        r < PUISSANCE4_CONFIG.ROWS &&
-        c >= 0 &&
-        c < PUISSANCE4_CONFIG.COLS &&
-        this.getCell(board, r, c) === color
-      ) {
-        line.unshift({ row: r, col: c });
-        count++;
-        r -= dr;
-        c -= dc;
-      }
-
-      if (count >= PUISSANCE4_CONFIG.WIN_LENGTH) {
-        return { winner: true, line };
-      }
-    }
-
-    return { winner: false, line: [] };
-  }
-
-  /**
-   * Vérifier si le plateau est plein (board au format plat)
-   */
-  static isBoardFull(board: (CellValue | null)[]): boolean {
-    // Vérifier si la première ligne (indices 0-6) est pleine
-    for (let col = 0; col < PUISSANCE4_CONFIG.COLS; col++) {
-      if (this.getCell(board, 0, col) === null) {
-        return false;
-      }
-    }
-    return true;
+    const resolved = resolveRules(rules);
+    const line = getLineThrough(this.flatTo2D(board, resolved), row, col, color, resolved.winLength);
+    return { winner: line.length > 0, line };
   }
 
   /**
@@ -520,7 +666,7 @@ export class Puissance4Service {
       throw new Error('Partie non trouvée');
     }
 
-    const game = { id: gameDoc.id, ...gameDoc.data() } as Puissance4Game;
+    const game = this.readGame(gameDoc);
 
     // Trouver le joueur qui abandonne
     const forfeitingPlayer = game.players.find(p => p.id === playerId);
@@ -534,16 +680,38 @@ export class Puissance4Service {
     await gameRef.update({
       status: 'finished',
       winner: winnerColor,
+      winReason: 'forfeit',
       completedAt: Date.now(),
       updatedAt: Date.now(),
     });
 
     // Sauvegarder dans l'historique avec indication d'abandon
-    await this.saveGameHistory(game, winnerColor, game.moves.length, true);
+    await this.saveGameHistory(game, winnerColor, game.moves.length, 'forfeit');
 
     console.log('Game forfeited:', { gameId, playerId, winner: winnerColor });
   }
 
+  /**
+   * Réclamer la victoire au temps quand le drapeau du joueur au trait est tombé.
+   * Tranché par la Cloud Function puissance4ClaimTimeout avec l'heure du serveur :
+   * un seul des deux clients termine la partie et enregistre l'historique.
+   * Retourne true si la partie a été terminée par cet appel.
+   */
+  static async claimTimeout(gameId: string): Promise<boolean> {
+    const result = await functions().httpsCallable('puissance4ClaimTimeout')({ gameId });
+    if (!(result.data as any)?.finished) {
+      return false;
+    }
+
+    const gameDoc = await firestore().collection(PUISSANCE4_GAMES_COLLECTION).doc(gameId).get();
+    const finishedGame = this.readGame(gameDoc);
+
+    await this.saveGameHistory(finishedGame, finishedGame.winner as 'Rouge' | 'Jaune', finishedGame.moves.length, 'timeout');
+
+    console.log('Game lost on time:', { gameId, winner: finishedGame.winner });
+    return true;
+  }
+
   /**
    * Quitter la partie
    */
@@ -555,7 +723,7 @@ export class Puissance4Service {
       return;
     }
 
-    const game = { id: gameDoc.id, ...gameDoc.data() } as Puissance4Game;
+    const game = this.readGame(gameDoc);
     const updatedPlayers = game.players.filter(p => p.id !== playerId);
 
     if (updatedPlayers.length === 0) {
@@ -594,7 +762,7 @@ export class Puissance4Service {
       .onSnapshot(
         (snapshot) => {
           if (snapshot.exists) {
-            const game = { id: snapshot.id, ...snapshot.data() } as Puissance4Game;
+            const game = this.readGame(snapshot);
             onUpdate(game);
           }
         },
@@ -614,7 +782,7 @@ export class Puissance4Service {
     game: Puissance4Game,
     result: 'Rouge' | 'Jaune' | 'draw',
     moveCount: number,
-    forfeited: boolean = false
+    winReason: WinReason = result === 'draw' ? 'draw' : 'alignment'
   ): Promise<void> {
     try {
       const player1 = game.players[0];
@@ -648,8 +816,11 @@ export class Puissance4Service {
         moveCount,
         duration,
         stakes: game.stakes,
+        rules: resolveRules(game.rules),
         winningLine: game.winningLine,
-        forfeited,
+        forfeited: winReason === 'forfeit',
+        winReason,
+        timeControl: game.timeControl || null,
         timestamp: Date.now(),
         mode: 'online',
       });
@@ -658,11 +829,45 @@ export class Puissance4Service {
         gameId: game.id,
         result,
         moveCount,
-        forfeited,
+        winReason,
       });
     } catch (error) {
       console.error('Error saving game history:', error);
     }
+
+    if (result !== 'draw') {
+      await this.recordStakeDebt(game, result);
+    }
+  }
+
+  /**
+   * Inscrire le gage de la partie au carnet du couple (le perdant le doit au gagnant)
+   */
+  private static async recordStakeDebt(game: Puissance4Game, winnerColor: 'Rouge' | 'Jaune'): Promise<void> {
+    if (!game.stakes || game.stakes.type === 'none' || !game.stakes.description) {
+      return;
+    }
+
+    const winner = game.players.find(p => p.color === winnerColor);
+    const loser = game.players.find(p => p.color !== winnerColor);
+    if (!winner || !loser) {
+      return;
+    }
+
+    try {
+      await StakesLedgerService.recordDebt({
+        gameType: 'puissance4',
+        gameId: game.id,
+        debtorId: loser.id,
+        debtorName: loser.profile.name,
+        creditorId: winner.id,
+        creditorName: winner.profile.name,
+        description: game.stakes.description,
+        presetId: game.stakes.presetId ?? null,
+      });
+    } catch (error) {
+      console.error('Error recording stake debt:', error);
+    }
   }
 
   /**
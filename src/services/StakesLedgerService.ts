@@ -0,0 +1,131 @@
+import firestore from '@react-native-firebase/firestore';
+import {
+  StakeDebt,
+  StakeDebtInput,
+  StakeDebtStatus,
+  StakeGameType,
+  STAKE_DEBTS_COLLECTION,
+  createStakeDebt,
+  getStakeDebtId,
+  canUpdateDebtStatus,
+} from '../utils/stakesLedger';
+
+/**
+ * Carnet des gages partagé par le couple, alimenté par les parties à enjeu
+ */
+export class StakesLedgerService {
+  /**
+   * Enregistrer la dette du perdant d'une partie à enjeu.
+   * Transactionnel et idempotent : une seule dette par partie.
+   * Retourne null si la partie n'a pas de perdant ou pas d'enjeu.
+   */
+  static async recordDebt(input: StakeDebtInput): Promise<StakeDebt | null> {
+    if (!input.description.trim() || input.debtorId === input.creditorId) {
+      return null;
+    }
+
+    const debt = createStakeDebt(input, Date.now());
+    const debtRef = firestore().collection(STAKE_DEBTS_COLLECTION).doc(debt.id);
+
+    const recorded = await firestore().runTransaction(async (transaction) => {
+      const debtDoc = await transaction.get(debtRef);
+      if (debtDoc.exists) {
+        return debtDoc.data() as StakeDebt;
+      }
+
+      transaction.set(debtRef, debt);
+      return debt;
+    });
+
+    console.log('Stake debt recorded:', { debtId: recorded.id, status: recorded.status });
+    return recorded;
+  }
+
+  /**
+   * Le gagnant réclame son gage
+   */
+  static async claimDebt(debtId: string, userId: string): Promise<void> {
+    await this.updateStatus(debtId, userId, 'claimed');
+  }
+
+  /**
+   * Le gagnant confirme que le gage a été honoré
+   */
+  static async markFulfilled(debtId: string, userId: string): Promise<void> {
+    await this.updateStatus(debtId, userId, 'fulfilled');
+  }
+
+  /**
+   * Dette d'une partie donnée (null si la partie n'avait pas d'enjeu)
+   */
+  static async getDebtForGame(gameType: StakeGameType, gameId: string): Promise<StakeDebt | null> {
+    try {
+      const doc = await firestore()
+        .collection(STAKE_DEBTS_COLLECTION)
+        .doc(getStakeDebtId(gameType, gameId))
+        .get();
+      return doc.exists ? (doc.data() as StakeDebt) : null;
+    } catch (error) {
+      console.error('Error fetching stake debt:', error);
+      return null;
+    }
+  }
+
+  /**
+   * S'abonner à toutes les dettes du joueur (dues et à recevoir), les plus récentes d'abord
+   */
+  static subscribeToLedger(
+    userId: string,
+    onUpdate: (debts: StakeDebt[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return firestore()
+      .collection(STAKE_DEBTS_COLLECTION)
+      .where('participants', 'array-contains', userId)
+      .orderBy('createdAt', 'desc')
+      .onSnapshot(
+        (snapshot) => {
+          onUpdate(snapshot.docs.map(doc => doc.data() as StakeDebt));
+        },
+        (error) => {
+          console.error('Error subscribing to stakes ledger:', error);
+          if (onError) {
+            onError(error);
+          }
+        }
+      );
+  }
+
+  private static async updateStatus(
+    debtId: string,
+    userId: string,
+    status: StakeDebtStatus
+  ): Promise<void> {
+    const debtRef = firestore().collection(STAKE_DEBTS_COLLECTION).doc(debtId);
+
+    await firestore().runTransaction(async (transaction) => {
+      const debtDoc = await transaction.get(debtRef);
+      if (!debtDoc.exists) {
+        throw new Error('Gage introuvable');
+      }
+
+      const debt = debtDoc.data() as StakeDebt;
+      if (debt.status === status) {
+        return;
+      }
+      if (!canUpdateDebtStatus(debt, status, userId)) {
+        throw new Error('Seul le gagnant peut mettre à jour ce gage');
+      }
+
+      const now = Date.now();
+      transaction.update(debtRef, {
+        status,
+        ...(status === 'claimed' ? { claimedAt: now } : { fulfilledAt: now }),
+      });
+    });
+
+    console.log('Stake debt updated:', { debtId, status });
+  }
+}
+
+export default StakesLedgerService;
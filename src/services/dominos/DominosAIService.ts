@@ -0,0 +1,197 @@
+import { DominoTile, TilePlacement } from '../../types/dominos.types';
+import { getAllPossibleMoves, getConnectingValue, PossibleMove } from '../../utils/dominosLogic';
+
+export type DominosAIDifficulty = 'easy' | 'medium' | 'hard';
+
+/**
+ * Ce que l'IA a déduit de la main adverse au fil des pioches et des passes
+ */
+export interface DominosOpponentModel {
+  missingSuits: number[]; // Valeurs que l'adversaire n'avait pas quand il a passé, depuis sa dernière pioche
+}
+
+export interface DominosAIContext {
+  board: TilePlacement[];
+  leftEnd: number | null;
+  rightEnd: number | null;
+  opponentModel: DominosOpponentModel;
+  maxValue?: number; // Valeur maximale du jeu (6 pour un double-six)
+}
+
+export interface DominosAIMove {
+  tile: DominoTile;
+  side: 'left' | 'right';
+  reasoning: string;
+}
+
+export const DOMINOS_AI_DIFFICULTIES: { id: DominosAIDifficulty; label: string; description: string }[] = [
+  { id: 'easy', label: 'Facile', description: 'Joue une tuile au hasard' },
+  { id: 'medium', label: 'Moyen', description: 'Se débarrasse des tuiles les plus lourdes' },
+  { id: 'hard', label: 'Difficile', description: 'Compte les tuiles et bloque vos valeurs manquantes' },
+];
+
+/**
+ * IA des Dominos pour les parties hors ligne
+ */
+export class DominosAIService {
+  // Bonus du niveau difficile pour chaque extrémité que l'adversaire ne peut pas suivre
+  private static readonly BLOCKING_BONUS = 10;
+  private static readonly FOLLOW_UP_BONUS = 3;
+  private static readonly DOUBLE_BONUS = 5;
+
+  static createOpponentModel(): DominosOpponentModel {
+    return { missingSuits: [] };
+  }
+
+  /**
+   * L'adversaire a passé : il n'a aucune des deux extrémités
+   */
+  static recordOpponentCannotPlay(
+    model: DominosOpponentModel,
+    leftEnd: number | null,
+    rightEnd: number | null
+  ): DominosOpponentModel {
+    const ends = [leftEnd, rightEnd].filter((end): end is number => end !== null);
+    return { missingSuits: Array.from(new Set([...model.missingSuits, ...ends])) };
+  }
+
+  /**
+   * L'adversaire a pioché : la tuile inconnue peut porter n'importe quelle
+   * valeur manquante, les déductions précédentes ne tiennent plus
+   */
+  static recordOpponentDraw(): DominosOpponentModel {
+    return this.createOpponentModel();
+  }
+
+  /**
+   * L'adversaire a posé une tuile : il possédait (au moins après sa pioche) ses deux valeurs
+   */
+  static recordOpponentPlay(model: DominosOpponentModel, tile: DominoTile): DominosOpponentModel {
+    return {
+      missingSuits: model.missingSuits.filter(suit => suit !== tile.left && suit !== tile.right),
+    };
+  }
+
+  /**
+   * Choisir le coup de l'IA (null si aucune tuile ne peut être posée)
+   */
+  static chooseMove(
+    hand: DominoTile[],
+    context: DominosAIContext,
+    difficulty: DominosAIDifficulty
+  ): DominosAIMove | null {
+    const moves = getAllPossibleMoves(hand, context.leftEnd, context.rightEnd);
+    if (moves.length === 0) return null;
+
+    switch (difficulty) {
+      case 'easy': {
+        const move = moves[Math.floor(Math.random() * moves.length)];
+        return { tile: move.tile, side: move.side, reasoning: 'Au hasard' };
+      }
+      case 'medium':
+        return this.getGreedyMove(moves);
+      case 'hard':
+        return this.getTrackingMove(hand, moves, context);
+    }
+  }
+
+  /**
+   * Poser la tuile la plus lourde, les doubles d'abord à égalité
+   */
+  private static getGreedyMove(moves: PossibleMove[]): DominosAIMove {
+    const best = moves.reduce((a, b) => {
+      const diff = this.getPips(b.tile) - this.getPips(a.tile);
+      if (diff !== 0) return diff > 0 ? b : a;
+      return !this.isDouble(a.tile) && this.isDouble(b.tile) ? b : a;
+    });
+
+    return {
+      tile: best.tile,
+      side: best.side,
+      reasoning: `Se débarrasse du ${best.tile.left}-${best.tile.right}`,
+    };
+  }
+
+  /**
+   * Évaluer chaque coup : points déchargés, extrémités que l'adversaire ne peut
+   * pas suivre (passes, pioches et tuiles épuisées) et coups de suite gardés en main
+   */
+  private static getTrackingMove(
+    hand: DominoTile[],
+    moves: PossibleMove[],
+    context: DominosAIContext
+  ): DominosAIMove {
+    const blockedSuits = this.getBlockedSuits(hand, context);
+
+    let best: { move: PossibleMove; score: number; blocking: number } | null = null;
+    for (const move of moves) {
+      const [newLeft, newRight] = this.getEndsAfterMove(move, context.leftEnd, context.rightEnd);
+      const remaining = hand.filter(t => t.id !== move.tile.id);
+
+      const blocking = [newLeft, newRight].filter(end => blockedSuits.has(end)).length;
+      const followUps = remaining.filter(t =>
+        t.left === newLeft || t.right === newLeft || t.left === newRight || t.right === newRight
+      ).length;
+
+      const score =
+        this.getPips(move.tile) +
+        blocking * this.BLOCKING_BONUS +
+        Math.min(followUps, 3) * this.FOLLOW_UP_BONUS +
+        (this.isDouble(move.tile) ? this.DOUBLE_BONUS : 0);
+
+      if (!best || score > best.score) {
+        best = { move, score, blocking };
+      }
+    }
+
+    const { move, blocking } = best!;
+    return {
+      tile: move.tile,
+      side: move.side,
+      reasoning: blocking > 0
+        ? `Ferme le jeu avec le ${move.tile.left}-${move.tile.right}`
+        : `Garde la main avec le ${move.tile.left}-${move.tile.right}`,
+    };
+  }
+
+  /**
+   * Valeurs que l'adversaire ne peut pas avoir : déduites de ses passes et
+   * pioches, ou épuisées (toutes les tuiles de la valeur sont visibles)
+   */
+  private static getBlockedSuits(hand: DominoTile[], context: DominosAIContext): Set<number> {
+    const maxValue = context.maxValue ?? 6;
+    const blocked = new Set(context.opponentModel.missingSuits);
+    const visible = [...hand, ...context.board.map(p => p.tile)];
+
+    for (let suit = 0; suit <= maxValue; suit++) {
+      const seen = visible.filter(t => t.left === suit || t.right === suit).length;
+      // Chaque valeur apparaît sur maxValue + 1 tuiles
+      if (seen === maxValue + 1) {
+        blocked.add(suit);
+      }
+    }
+
+    return blocked;
+  }
+
+  private static getEndsAfterMove(
+    move: PossibleMove,
+    leftEnd: number | null,
+    rightEnd: number | null
+  ): [number, number] {
+    if (leftEnd === null || rightEnd === null) {
+      return [move.tile.left, move.tile.right];
+    }
+    return move.side === 'left'
+      ? [getConnectingValue(move.tile, leftEnd), rightEnd]
+      : [leftEnd, getConnectingValue(move.tile, rightEnd)];
+  }
+
+  private static getPips(tile: DominoTile): number {
+    return tile.left + tile.right;
+  }
+
+  private static isDouble(tile: DominoTile): boolean {
+    return tile.left === tile.right;
+  }
+}
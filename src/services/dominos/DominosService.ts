@@ -1,24 +1,86 @@
 import firestore from '@react-native-firebase/firestore';
+import functions from '@react-native-firebase/functions';
 import {
   DominosGame,
+  DominosHand,
+  DominosMaxValue,
   DominosPlayer,
+  DominosRuleset,
+  DominosTeam,
   DominoTile,
-  TilePlacement,
 } from '../../types/dominos.types';
 import { PlayerProfile } from '../../types/wordSearch.types';
-import {
-  initializeDeck,
-  distributeTiles,
-  canPlaceTile,
-  getConnectingValue,
-  getAllPossibleMoves,
-  calculateScore,
-  isGameBlocked,
-  getWinnerByScore,
-  determineStartingPlayer,
-} from '../../utils/dominosLogic';
+import { withRetry } from '../../utils/networkUtils';
+import { DOMINOS_DEFAULT_MAX_VALUE, DOMINOS_DEFAULT_TARGET_SCORE, isSameSide } from '../../utils/dominosLogic';
 
 const DOMINOS_GAMES_COLLECTION = 'dominos_games';
+const DOMINOS_HANDS_SUBCOLLECTION = 'hands';
+
+/**
+ * Codes d'erreur renvoyés par les Cloud Functions des Dominos.
+ * Doit rester synchronisé avec functions/src/dominos/dominosRules.ts
+ */
+export type DominosMoveErrorCode =
+  | 'UNAUTHENTICATED'
+  | 'INVALID_ARGUMENT'
+  | 'GAME_NOT_FOUND'
+  | 'GAME_NOT_WAITING'
+  | 'GAME_NOT_PLAYING'
+  | 'NOT_HOST'
+  | 'PLAYERS_MISSING'
+  | 'PLAYERS_NOT_READY'
+  | 'TEAMS_UNBALANCED'
+  | 'NOT_A_PLAYER'
+  | 'NOT_YOUR_TURN'
+  | 'STALE_ACTION'
+  | 'TILE_NOT_IN_HAND'
+  | 'INVALID_PLACEMENT'
+  | 'DRAW_PILE_EMPTY'
+  | 'ALREADY_DRAWN'
+  | 'MOVES_AVAILABLE'
+  | 'MUST_DRAW';
+
+const DOMINOS_MOVE_ERROR_CODES: DominosMoveErrorCode[] = [
+  'UNAUTHENTICATED',
+  'INVALID_ARGUMENT',
+  'GAME_NOT_FOUND',
+  'GAME_NOT_WAITING',
+  'GAME_NOT_PLAYING',
+  'NOT_HOST',
+  'PLAYERS_MISSING',
+  'PLAYERS_NOT_READY',
+  'TEAMS_UNBALANCED',
+  'NOT_A_PLAYER',
+  'NOT_YOUR_TURN',
+  'STALE_ACTION',
+  'TILE_NOT_IN_HAND',
+  'INVALID_PLACEMENT',
+  'DRAW_PILE_EMPTY',
+  'ALREADY_DRAWN',
+  'MOVES_AVAILABLE',
+  'MUST_DRAW',
+];
+
+/**
+ * Erreur typée levée quand le serveur refuse une action
+ */
+export class DominosMoveError extends Error {
+  constructor(public readonly code: DominosMoveErrorCode, message: string) {
+    super(message);
+    this.name = 'DominosMoveError';
+  }
+
+  /**
+   * Convertir une erreur de fonction callable en DominosMoveError si possible
+   */
+  static fromCallableError(error: any): DominosMoveError | null {
+    const reason = error?.details?.reason;
+    if (DOMINOS_MOVE_ERROR_CODES.includes(reason)) {
+      return new DominosMoveError(reason, error.message);
+    }
+    return null;
+  }
+}
 
 export class DominosService {
   /**
@@ -35,40 +97,54 @@ export class DominosService {
 
   /**
    * Créer une nouvelle partie
+   *
+   * Aucune tuile n'est distribuée ici : la Cloud Function dominosStartGame
+   * distribue les mains au démarrage, hors du document partagé.
+   * Le match se joue en plusieurs manches jusqu'à targetScore (points en
+   * règles classiques, manches gagnées en règles haïtiennes). À quatre
+   * joueurs, la partie se joue deux contre deux.
    */
-  static async createGame(hostProfile: PlayerProfile): Promise<string> {
+  static async createGame(
+    hostProfile: PlayerProfile,
+    targetScore: number = DOMINOS_DEFAULT_TARGET_SCORE,
+    ruleset: DominosRuleset = 'classic',
+    maxPlayers: 2 | 4 = 2
+  ): Promise<string> {
     console.log('Creating dominos game for host:', hostProfile);
     const roomCode = this.generateRoomCode();
     console.log('Generated room code:', roomCode);
-    const deck = initializeDeck();
-    const { player1Hand, drawPile } = distributeTiles(deck);
 
     const hostPlayer: DominosPlayer = {
       id: hostProfile.id,
       profile: hostProfile,
-      hand: player1Hand,
-      tilesCount: 7,
+      tilesCount: 0,
       hasDrawn: false,
       hasPassed: false,
       score: 0,
       isReady: false,
+      ...(maxPlayers === 4 ? { team: 0 as DominosTeam } : {}),
     };
 
     const gameData: Omit<DominosGame, 'id'> = {
       roomCode: roomCode,
       hostId: hostProfile.id,
       players: [hostPlayer],
-      maxPlayers: 2,
+      maxPlayers,
+      maxValue: DOMINOS_DEFAULT_MAX_VALUE,
       status: 'waiting' as const,
       currentPlayerId: '',
       board: [],
-      drawPile: drawPile,
-      drawPileCount: drawPile.length,
+      drawPileCount: 0,
       leftEnd: null,
       rightEnd: null,
       isBlocked: false,
       winnerId: null,
       winReason: null,
+      ruleset,
+      targetScore,
+      kochonIds: [],
+      roundNumber: 1,
+      rounds: [],
       createdAt: Date.now(),
       startedAt: null,
       completedAt: null,
@@ -139,9 +215,10 @@ export class DominosService {
     const game = { id: gameDoc.id, ...gameDoc.data() } as DominosGame;
     console.log('Game found:', { id: game.id, players: game.players.length, status: game.status });
 
-    if (game.players.length >= 2) {
+    const maxPlayers = game.maxPlayers || 2;
+    if (game.players.length >= maxPlayers) {
       console.log('Game is already full');
-      throw new Error('La partie est complète (2 joueurs maximum)');
+      throw new Error(`La partie est complète (${maxPlayers} joueurs maximum)`);
     }
 
     if (game.players.some((p) => p.id === playerProfile.id)) {
@@ -149,31 +226,19 @@ export class DominosService {
       throw new Error('Vous êtes déjà dans cette partie');
     }
 
-    // Distribuer les tuiles pour le 2ème joueur depuis la pioche existante
-    const drawPile = game.drawPile || [];
-    if (drawPile.length < 7) {
-      throw new Error('Pas assez de tuiles dans la pioche');
-    }
-
-    // Prendre 7 tuiles de la pioche pour le joueur 2
-    const player2Hand = drawPile.slice(0, 7);
-    const updatedDrawPile = drawPile.slice(7);
-
     const newPlayer: DominosPlayer = {
       id: playerProfile.id,
       profile: playerProfile,
-      hand: player2Hand,
-      tilesCount: 7,
+      tilesCount: 0,
       hasDrawn: false,
       hasPassed: false,
       score: 0,
       isReady: false,
+      ...(maxPlayers === 4 ? { team: this.getOpenTeam(game) } : {}),
     };
 
     await gameDoc.ref.update({
       players: firestore.FieldValue.arrayUnion(newPlayer),
-      drawPile: updatedDrawPile,
-      drawPileCount: updatedDrawPile.length,
       updatedAt: Date.now(),
     });
 
@@ -214,98 +279,24 @@ export class DominosService {
   }
 
   /**
-   * Démarrer la partie (hôte seulement)
+   * Équipe qui compte le moins de joueurs (partie à quatre)
    */
-  static async startGame(gameId: string, hostId: string): Promise<void> {
-    const gameRef = firestore().collection(DOMINOS_GAMES_COLLECTION).doc(gameId);
-    const gameDoc = await gameRef.get();
-
-    if (!gameDoc.exists) {
-      throw new Error('Partie non trouvée');
-    }
-
-    const game = { id: gameDoc.id, ...gameDoc.data() } as DominosGame;
-
-    if (game.hostId !== hostId) {
-      throw new Error("Seul l'hôte peut démarrer la partie");
-    }
-
-    if (game.players.length !== 2) {
-      throw new Error('Exactement 2 joueurs sont nécessaires');
-    }
-
-    if (!game.players.every((p) => p.isReady)) {
-      throw new Error('Tous les joueurs doivent être prêts');
-    }
-
-    // Déterminer qui commence (joueur avec le double le plus haut)
-    const { startingPlayerId, highestDouble } = determineStartingPlayer(game.players);
-
-    // Si un joueur a un double, on place automatiquement le plus haut au centre
-    let updatedBoard = game.board;
-    let updatedPlayers = game.players;
-    let leftEnd = null;
-    let rightEnd = null;
-
-    if (highestDouble) {
-      // Placer le double le plus haut automatiquement
-      const startingPlayer = game.players.find(p => p.id === startingPlayerId);
-      if (startingPlayer) {
-        // Retirer le double de la main du joueur
-        const updatedHand = startingPlayer.hand.filter(t => t.id !== highestDouble.id);
-
-        updatedPlayers = game.players.map(p =>
-          p.id === startingPlayerId
-            ? { ...p, hand: updatedHand, tilesCount: updatedHand.length }
-            : p
-        );
-
-        // Placer le double au centre
-        updatedBoard = [{
-          tile: highestDouble,
-          side: 'left',
-          reversed: false,
-        }];
-
-        // Les deux extrémités sont la valeur du double
-        leftEnd = highestDouble.left;
-        rightEnd = highestDouble.right;
-
-        console.log('Auto-placed highest double:', highestDouble, 'by player:', startingPlayerId);
-      }
-    }
-
-    // Le prochain joueur sera l'autre joueur
-    const nextPlayerId = game.players.find(p => p.id !== startingPlayerId)?.id || game.players[0].id;
-
-    await gameRef.update({
-      status: 'playing',
-      startedAt: Date.now(),
-      currentPlayerId: nextPlayerId, // Next player starts since first tile is placed
-      board: updatedBoard,
-      players: updatedPlayers,
-      leftEnd,
-      rightEnd,
-      updatedAt: Date.now(),
-    });
-
-    console.log('Dominos game started:', {
-      gameId,
-      startingPlayerId,
-      highestDouble,
-      nextPlayerId,
-      firstTilePlaced: !!highestDouble
-    });
+  private static getOpenTeam(game: DominosGame): DominosTeam {
+    const teamACount = game.players.filter((p) => p.team === 0).length;
+    const teamBCount = game.players.filter((p) => p.team === 1).length;
+    return teamACount <= teamBCount ? 0 : 1;
   }
 
   /**
-   * Placer une tuile sur le plateau
+   * Changer d'équipe dans la salle d'attente (partie à quatre)
+   *
+   * Les places autour de la table sont attribuées au démarrage par la
+   * Cloud Function : les partenaires se font face.
    */
-  static async placeTile(
+  static async setPlayerTeam(
     gameId: string,
     playerId: string,
-    tileId: string,
-    side: 'left' | 'right'
+    team: DominosTeam
   ): Promise<void> {
     const gameRef = firestore().collection(DOMINOS_GAMES_COLLECTION).doc(gameId);
     const gameDoc = await gameRef.get();
@@ -315,140 +306,32 @@ export class DominosService {
     }
 
     const game = { id: gameDoc.id, ...gameDoc.data() } as DominosGame;
-
-    if (game.status !== 'playing') {
-      throw new Error("La partie n'est pas en cours");
-    }
-
-    if (game.currentPlayerId !== playerId) {
-      throw new Error("Ce n'est pas votre tour");
-    }
-
-    // Trouver le joueur et la tuile
-    const player = game.players.find((p) => p.id === playerId);
-    if (!player) {
-      throw new Error('Joueur non trouvé');
-    }
-
-    const tile = player.hand.find((t) => t.id === tileId);
-    if (!tile) {
-      throw new Error('Tuile non trouvée dans votre main');
-    }
-
-    // Vérifier si le coup est valide
-    const { canPlaceLeft, canPlaceRight } = canPlaceTile(
-      tile,
-      game.leftEnd,
-      game.rightEnd
-    );
-
-    if (side === 'left' && !canPlaceLeft) {
-      throw new Error('Impossible de placer cette tuile à gauche');
+    if (game.players.filter((p) => p.team === team && p.id !== playerId).length >= 2) {
+      throw new Error('Cette équipe est complète');
     }
 
-    if (side === 'right' && !canPlaceRight) {
-      throw new Error('Impossible de placer cette tuile à droite');
-    }
-
-    // Déterminer la nouvelle orientation et les nouvelles extrémités
-    let newLeftEnd = game.leftEnd;
-    let newRightEnd = game.rightEnd;
-    let orientation: 'horizontal' | 'vertical' = 'horizontal';
-
-    if (game.board.length === 0) {
-      // Premier coup
-      newLeftEnd = tile.left;
-      newRightEnd = tile.right;
-      if (tile.isDouble) orientation = 'vertical';
-    } else if (side === 'left') {
-      newLeftEnd = getConnectingValue(tile, game.leftEnd!);
-      if (tile.isDouble) orientation = 'vertical';
-    } else {
-      newRightEnd = getConnectingValue(tile, game.rightEnd!);
-      if (tile.isDouble) orientation = 'vertical';
-    }
-
-    // Créer le placement
-    const placement: TilePlacement = {
-      tile: { ...tile, orientation },
-      position: side === 'left' ? -game.board.length : game.board.length,
-      side,
-      timestamp: Date.now(),
-      playerId,
-    };
-
-    // Retirer la tuile de la main du joueur
-    const updatedHand = player.hand.filter((t) => t.id !== tileId);
     const updatedPlayers = game.players.map((p) =>
-      p.id === playerId
-        ? { ...p, hand: updatedHand, tilesCount: updatedHand.length, hasDrawn: false, hasPassed: false }
-        : { ...p, hasDrawn: false, hasPassed: false }
+      p.id === playerId ? { ...p, team } : p
     );
 
-    // Vérifier si le joueur a gagné
-    const hasWon = updatedHand.length === 0;
-    let winnerId = game.winnerId;
-    let winReason = game.winReason;
-    let status = game.status;
-
-    if (hasWon) {
-      winnerId = playerId;
-      winReason = 'emptied_hand';
-      status = 'finished';
-    }
-
-    // Passer au joueur suivant
-    const currentPlayerIndex = game.players.findIndex((p) => p.id === playerId);
-    const nextPlayerId = game.players[(currentPlayerIndex + 1) % 2].id;
-
-    // Vérifier si le jeu est bloqué
-    if (!hasWon) {
-      const player1 = updatedPlayers[0];
-      const player2 = updatedPlayers[1];
-      const blocked = isGameBlocked(
-        player1.hand,
-        player2.hand,
-        newLeftEnd,
-        newRightEnd,
-        game.drawPileCount
-      );
-
-      if (blocked) {
-        const winnerIndex = getWinnerByScore(player1.hand, player2.hand);
-        if (winnerIndex >= 0) {
-          winnerId = updatedPlayers[winnerIndex].id;
-          winReason = 'lowest_score';
-          status = 'finished';
-        }
-      }
-    }
-
     await gameRef.update({
       players: updatedPlayers,
-      board: [...game.board, placement],
-      leftEnd: newLeftEnd,
-      rightEnd: newRightEnd,
-      currentPlayerId: hasWon ? playerId : nextPlayerId,
-      winnerId,
-      winReason,
-      status,
-      completedAt: status === 'finished' ? Date.now() : null,
       updatedAt: Date.now(),
     });
 
-    console.log('Tile placed:', {
-      gameId,
-      playerId,
-      tileId,
-      side,
-      hasWon,
-    });
+    console.log('Player team updated:', { gameId, playerId, team });
   }
 
   /**
-   * Piocher une tuile
+   * Choisir le jeu de dominos dans la salle d'attente (hôte seulement)
+   *
+   * La Cloud Function dominosStartGame en déduit la taille des mains.
    */
-  static async drawTile(gameId: string, playerId: string): Promise<void> {
+  static async setTileSet(
+    gameId: string,
+    hostId: string,
+    maxValue: DominosMaxValue
+  ): Promise<void> {
     const gameRef = firestore().collection(DOMINOS_GAMES_COLLECTION).doc(gameId);
     const gameDoc = await gameRef.get();
 
@@ -456,97 +339,121 @@ export class DominosService {
       throw new Error('Partie non trouvée');
     }
 
-    const game = { id: gameDoc.id, ...gameDoc.data() } as DominosGame;
-
-    if (game.currentPlayerId !== playerId) {
-      throw new Error("Ce n'est pas votre tour");
-    }
-
-    if (game.drawPileCount <= 0 || !game.drawPile || game.drawPile.length === 0) {
-      throw new Error('La pioche est vide');
-    }
-
-    const player = game.players.find((p) => p.id === playerId);
-    if (!player) {
-      throw new Error('Joueur non trouvé');
+    const game = gameDoc.data() as DominosGame;
+    if (game.hostId !== hostId) {
+      throw new Error("Seul l'hôte peut choisir le jeu");
     }
-
-    if (player.hasDrawn) {
-      throw new Error('Vous avez déjà pioché ce tour');
+    if (game.status !== 'waiting') {
+      throw new Error('La partie a déjà commencé');
     }
 
-    // Piocher la première tuile de la pioche
-    const drawnTile = game.drawPile[0];
-    const updatedDrawPile = game.drawPile.slice(1);
-
-    const updatedPlayers = game.players.map((p) =>
-      p.id === playerId
-        ? {
-            ...p,
-            hand: [...p.hand, drawnTile],
-            tilesCount: p.hand.length + 1,
-            hasDrawn: true,
-          }
-        : p
-    );
-
     await gameRef.update({
-      players: updatedPlayers,
-      drawPile: updatedDrawPile,
-      drawPileCount: updatedDrawPile.length,
+      maxValue,
       updatedAt: Date.now(),
     });
 
-    console.log('Tile drawn:', { gameId, playerId, tile: drawnTile });
+    console.log('Dominos tile set updated:', { gameId, maxValue });
   }
 
   /**
-   * Passer son tour
+   * Démarrer la partie (hôte seulement)
+   *
+   * La Cloud Function dominosStartGame mélange, distribue les mains dans
+   * la sous-collection hands et pose automatiquement le double le plus haut.
    */
-  static async passTurn(gameId: string, playerId: string): Promise<void> {
-    const gameRef = firestore().collection(DOMINOS_GAMES_COLLECTION).doc(gameId);
-    const gameDoc = await gameRef.get();
-
-    if (!gameDoc.exists) {
-      throw new Error('Partie non trouvée');
-    }
-
-    const game = { id: gameDoc.id, ...gameDoc.data() } as DominosGame;
-
-    if (game.currentPlayerId !== playerId) {
-      throw new Error("Ce n'est pas votre tour");
-    }
-
-    const player = game.players.find((p) => p.id === playerId);
-    if (!player) {
-      throw new Error('Joueur non trouvé');
+  static async startGame(gameId: string, hostId: string): Promise<void> {
+    try {
+      const result = await functions().httpsCallable('dominosStartGame')({ gameId });
+      console.log('Dominos game started:', {
+        gameId,
+        hostId,
+        currentPlayerId: (result.data as any)?.currentPlayerId,
+      });
+    } catch (error) {
+      throw DominosMoveError.fromCallableError(error) || error;
     }
+  }
 
-    // Vérifier qu'il n'y a vraiment aucun coup possible
-    const possibleMoves = getAllPossibleMoves(player.hand, game.leftEnd, game.rightEnd);
-    if (possibleMoves.length > 0) {
-      throw new Error('Vous avez encore des coups possibles');
-    }
+  /**
+   * Identifiant d'une action de tour, généré une seule fois par action :
+   * les nouvelles tentatives le réutilisent et le serveur ne l'applique qu'une fois
+   */
+  private static generateActionId(playerId: string): string {
+    return `${playerId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
 
-    // Vérifier que la pioche est vide ou que le joueur a pioché
-    if (game.drawPileCount > 0 && !player.hasDrawn) {
-      throw new Error('Vous devez piocher avant de passer');
+  /**
+   * Appeler une Cloud Function d'action de tour avec nouvelles tentatives.
+   *
+   * Le même actionId est envoyé à chaque tentative : si la première a été
+   * appliquée mais sa réponse perdue, le serveur renvoie le même résultat.
+   * expectedTurn (turnNumber vu par le joueur) refuse une action préparée
+   * sur une partie qui a avancé depuis.
+   */
+  private static async callTurnAction(
+    name: string,
+    playerId: string,
+    data: Record<string, unknown>,
+    expectedTurn?: number
+  ): Promise<any> {
+    const actionId = this.generateActionId(playerId);
+    try {
+      const result = await withRetry(async () => {
+        return functions().httpsCallable(name)({ ...data, actionId, expectedTurn });
+      }, { maxRetries: 2 }, name);
+      return result.data;
+    } catch (error) {
+      throw DominosMoveError.fromCallableError(error) || error;
     }
+  }
 
-    const updatedPlayers = game.players.map((p) =>
-      p.id === playerId ? { ...p, hasPassed: true, hasDrawn: false } : { ...p, hasDrawn: false }
-    );
+  /**
+   * Placer une tuile sur le plateau
+   *
+   * Validé par la Cloud Function dominosPlaceTile : seule elle peut lire
+   * la main de l'adversaire pour détecter un jeu bloqué.
+   */
+  static async placeTile(
+    gameId: string,
+    playerId: string,
+    tileId: string,
+    side: 'left' | 'right',
+    expectedTurn?: number
+  ): Promise<void> {
+    const result = await this.callTurnAction('dominosPlaceTile', playerId, { gameId, tileId, side }, expectedTurn);
+    console.log('Tile placed:', {
+      gameId,
+      playerId,
+      tileId,
+      side,
+      winnerId: result?.winnerId,
+    });
+  }
 
-    // Passer au joueur suivant
-    const currentPlayerIndex = game.players.findIndex((p) => p.id === playerId);
-    const nextPlayerId = game.players[(currentPlayerIndex + 1) % 2].id;
 
-    await gameRef.update({
-      players: updatedPlayers,
-      currentPlayerId: nextPlayerId,
-      updatedAt: Date.now(),
+  /**
+   * Piocher une tuile
+   *
+   * La pioche est tirée côté serveur par la Cloud Function dominosDrawTile :
+   * la tuile piochée n'apparaît que dans la main du joueur.
+   */
+  static async drawTile(gameId: string, playerId: string, expectedTurn?: number): Promise<void> {
+    const result = await this.callTurnAction('dominosDrawTile', playerId, { gameId }, expectedTurn);
+    console.log('Tile drawn:', {
+      gameId,
+      playerId,
+      drawPileCount: result?.drawPileCount,
     });
+  }
 
+  /**
+   * Passer son tour
+   *
+   * Vérifié par la Cloud Function dominosPassTurn, qui termine la partie
+   * au score si plus aucun joueur ne peut poser.
+   */
+  static async passTurn(gameId: string, playerId: string, expectedTurn?: number): Promise<void> {
+    await this.callTurnAction('dominosPassTurn', playerId, { gameId }, expectedTurn);
     console.log('Turn passed:', { gameId, playerId });
   }
 
@@ -569,22 +476,21 @@ export class DominosService {
       await gameRef.delete();
       console.log('Dominos game deleted (no players left):', { gameId });
     } else {
-      // Si en cours de partie, l'autre joueur gagne
+      // Si en cours de partie, le camp adverse gagne
       const updates: any = {
         players: updatedPlayers,
         updatedAt: Date.now(),
       };
 
       if (game.status === 'playing') {
+        const opponent = updatedPlayers.find((p) => !isSameSide(game.players, playerId, p.id));
         updates.status = 'finished';
-        updates.winnerId = updatedPlayers[0].id;
+        updates.winnerId = (opponent || updatedPlayers[0]).id;
         updates.winReason = 'opponent_left';
         updates.completedAt = Date.now();
-      } else {
-        // Si l'hôte quitte, assigner un nouvel hôte
-        if (game.hostId === playerId) {
-          updates.hostId = updatedPlayers[0].id;
-        }
+      } else if (game.status === 'waiting' && game.hostId === playerId) {
+        // Si l'hôte quitte la salle d'attente, assigner un nouvel hôte
+        updates.hostId = updatedPlayers[0].id;
       }
 
       await gameRef.update(updates);
@@ -622,4 +528,32 @@ export class DominosService {
         }
       );
   }
+
+  /**
+   * S'abonner à sa propre main (lisible uniquement par son propriétaire)
+   */
+  static subscribeToHand(
+    gameId: string,
+    playerId: string,
+    onUpdate: (tiles: DominoTile[]) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return firestore()
+      .collection(DOMINOS_GAMES_COLLECTION)
+      .doc(gameId)
+      .collection(DOMINOS_HANDS_SUBCOLLECTION)
+      .doc(playerId)
+      .onSnapshot(
+        (snapshot) => {
+          const hand = snapshot.exists ? (snapshot.data() as DominosHand) : null;
+          onUpdate(hand?.tiles || []);
+        },
+        (error) => {
+          console.error('Error subscribing to dominos hand:', error);
+          if (onError) {
+            onError(error);
+          }
+        }
+      );
+  }
 }
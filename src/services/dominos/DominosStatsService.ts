@@ -1,5 +1,6 @@
 import firestore from '@react-native-firebase/firestore';
-import { DominosGame } from '../../types/dominos.types';
+import { DominosGame, DominosRuleset } from '../../types/dominos.types';
+import { getHandSize, getOpponents, isSameSide } from '../../utils/dominosLogic';
 
 const DOMINOS_STATS_COLLECTION = 'dominos_stats';
 const DOMINOS_HISTORY_COLLECTION = 'dominos_history';
@@ -15,6 +16,8 @@ export interface DominosPlayerStats {
   averageGameTime: number;
   winStreak: number;
   bestWinStreak: number;
+  kochonsGiven: number; // Matchs haïtiens gagnés sans que l'adversaire marque une manche
+  kochonsTaken: number; // Matchs haïtiens perdus sans une seule manche
   lastPlayed: number;
 }
 
@@ -28,7 +31,10 @@ export interface DominosGameHistory {
   tilesPlaced: number;
   tilesDrawn: number;
   finalTilesLeft: number;
-  finalScore: number;
+  finalScore: number; // Points cumulés sur le match
+  roundsPlayed: number;
+  ruleset: DominosRuleset;
+  kochon: 'given' | 'taken' | null;
   gameTime: number;
   endReason: 'emptied_hand' | 'lowest_score' | 'opponent_left';
   playedAt: number;
@@ -61,6 +67,8 @@ export class DominosStatsService {
         averageGameTime: 0,
         winStreak: 0,
         bestWinStreak: 0,
+        kochonsGiven: 0,
+        kochonsTaken: 0,
         lastPlayed: 0,
       };
     } catch (error) {
@@ -83,16 +91,26 @@ export class DominosStatsService {
       const player = game.players.find((p) => p.id === userId);
       if (!player) return;
 
-      const won = game.winnerId === userId;
-      const opponent = game.players.find((p) => p.id !== userId);
+      // Deux contre deux : la victoire du partenaire compte pour l'équipe
+      const won = !!game.winnerId && isSameSide(game.players, userId, game.winnerId);
+      const opponent = getOpponents(game.players, userId)[0];
 
       // Calculer les statistiques de la partie
-      const tilesPlaced = 7 - player.hand.length;
-      const tilesDrawn = player.tilesCount - 7; // Approximatif
+      const handSize = getHandSize(game.maxValue);
+      const tilesPlaced = handSize - player.tilesCount;
+      const tilesDrawn = player.tilesCount - handSize; // Approximatif
       const gameTime = game.completedAt && game.startedAt
         ? game.completedAt - game.startedAt
         : 0;
 
+      // Kochon : un perdant sans manche gagnée (règles haïtiennes)
+      const kochonIds = game.kochonIds || [];
+      const kochon = kochonIds.includes(userId)
+        ? 'taken'
+        : won && kochonIds.length > 0
+          ? 'given'
+          : null;
+
       // Mettre à jour la série de victoires
       let newWinStreak = won ? currentStats.winStreak + 1 : 0;
       let newBestWinStreak = Math.max(currentStats.bestWinStreak, newWinStreak);
@@ -121,6 +139,9 @@ export class DominosStatsService {
         averageGameTime: newAverageGameTime,
         winStreak: newWinStreak,
         bestWinStreak: newBestWinStreak,
+        // Statistiques antérieures aux règles haïtiennes : compteurs absents
+        kochonsGiven: (currentStats.kochonsGiven || 0) + (kochon === 'given' ? 1 : 0),
+        kochonsTaken: (currentStats.kochonsTaken || 0) + (kochon === 'taken' ? 1 : 0),
         lastPlayed: Date.now(),
       };
 
@@ -135,8 +156,11 @@ export class DominosStatsService {
         won,
         tilesPlaced,
         tilesDrawn,
-        finalTilesLeft: player.hand.length,
+        finalTilesLeft: player.tilesCount,
         finalScore: player.score,
+        roundsPlayed: game.rounds?.length || 1,
+        ruleset: game.ruleset || 'classic',
+        kochon,
         gameTime,
         endReason: game.winReason || 'opponent_left',
         playedAt: Date.now(),
@@ -146,7 +170,7 @@ export class DominosStatsService {
         .collection(DOMINOS_HISTORY_COLLECTION)
         .add(historyEntry);
 
-      console.log('Dominos stats updated:', { userId, won });
+      console.log('Dominos stats updated:', { userId, won, kochon });
     } catch (error) {
       console.error('Error updating dominos stats:', error);
       throw error;
@@ -1,7 +1,8 @@
 import firestore from '@react-native-firebase/firestore';
 import { CooperativeGame, CooperativePlayer, PlayerCursor, SelectionUpdate, WordFoundEvent } from '../../types/cooperativeGame.types';
-import { PlayerProfile, Cell } from '../../types/wordSearch.types';
+import { PlayerProfile, Cell, WordTheme } from '../../types/wordSearch.types';
 import { WordSearchGenerator } from '../wordsearch/WordSearchGenerator';
+import { getCustomThemeConfig } from '../../utils/wordsearch/customThemes';
 
 const COOPERATIVE_GAMES_COLLECTION = 'cooperative_games';
 
@@ -36,8 +37,7 @@ export class CooperativeGameService {
   static async createCooperativeGame(
     hostProfile: PlayerProfile,
     difficulty: 'easy' | 'medium' | 'hard' | 'expert',
-    themeId: string,
-    words: string[],
+    theme: Pick<WordTheme, 'id' | 'name' | 'words' | 'custom'>,
     maxPlayers: number = 4,
     levelId?: number
   ): Promise<string> {
@@ -59,7 +59,11 @@ export class CooperativeGameService {
 
     // Générer la grille
     const generator = new WordSearchGenerator(gridSize);
-    const grid = generator.generateGrid(words, difficultyConfig, []);
+    const grid = generator.generateGrid(
+      theme.words,
+      theme.custom ? getCustomThemeConfig(difficultyConfig) : difficultyConfig,
+      []
+    );
 
     console.log('Generated grid:', {
       size: grid.size,
@@ -97,6 +101,7 @@ export class CooperativeGameService {
       roomCode,
       hostId: hostProfile.id,
       players: [hostPlayer],
+      playerIds: [hostPlayer.id],
       maxPlayers,
       status: 'waiting',
       grid: {
@@ -107,7 +112,8 @@ export class CooperativeGameService {
       words: grid.words.map(w => w.text),
       wordsFound: [],
       difficulty,
-      themeId,
+      themeId: theme.id,
+      themeName: theme.name,
       timeLimit,
       timeRemaining: timeLimit,
       activeSelections: {},
@@ -190,6 +196,7 @@ export class CooperativeGameService {
 
     await gameDoc.ref.update({
       players: firestore.FieldValue.arrayUnion(newPlayer),
+      playerIds: firestore.FieldValue.arrayUnion(newPlayer.id),
       updatedAt: Date.now(),
     });
 
@@ -378,6 +385,7 @@ export class CooperativeGameService {
 
       await gameRef.update({
         players: updatedPlayers,
+        playerIds: firestore.FieldValue.arrayRemove(playerId),
         hostId: newHostId,
         updatedAt: Date.now(),
       });
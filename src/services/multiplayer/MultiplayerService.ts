@@ -18,12 +18,14 @@ export class MultiplayerService {
 
   /**
    * Créer un nouveau jeu avec code de salon
+   * @param themeWords mots d'un thème personnalisé, enregistrés avec la partie
    */
   static async createGame(
     hostProfile: PlayerProfile,
     difficulty: string,
     theme: string,
-    maxPlayers: number = 4
+    maxPlayers: number = 4,
+    themeWords?: string[]
   ): Promise<string> {
     try {
       const gameId = `game_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -49,6 +51,7 @@ export class MultiplayerService {
         id: gameId,
         hostId: hostProfile.id,
         players: [hostPlayer],
+        playerIds: [hostPlayer.id],
         grid: { cells: [], size: 0, words: [] }, // Sera généré au démarrage
         difficulty: difficulty as any,
         theme,
@@ -62,6 +65,7 @@ export class MultiplayerService {
         id: game.id,
         hostId: game.hostId,
         players: game.players,
+        playerIds: game.playerIds,
         grid: game.grid,
         difficulty: game.difficulty,
         theme: game.theme,
@@ -71,6 +75,10 @@ export class MultiplayerService {
         createdAt: firestore.FieldValue.serverTimestamp(),
       };
 
+      if (themeWords) {
+        gameData.themeWords = themeWords;
+      }
+
       await firestore()
         .collection(this.GAMES_COLLECTION)
         .doc(gameId)
@@ -148,6 +156,7 @@ export class MultiplayerService {
 
       await gameDoc.ref.update({
         players: [...game.players, newPlayer],
+        playerIds: firestore.FieldValue.arrayUnion(newPlayer.id),
       });
 
       return gameDoc.id;
@@ -183,6 +192,7 @@ export class MultiplayerService {
         id: gameId,
         hostId: hostProfile.id,
         players: [hostPlayer],
+        playerIds: [hostPlayer.id],
         grid: { cells: [], size: 0, words: [] }, // Sera généré au démarrage
         difficulty: difficulty as any,
         theme,
@@ -195,6 +205,7 @@ export class MultiplayerService {
         id: game.id,
         hostId: game.hostId,
         players: game.players,
+        playerIds: game.playerIds,
         grid: game.grid,
         difficulty: game.difficulty,
         theme: game.theme,
@@ -249,6 +260,7 @@ export class MultiplayerService {
 
       await gameRef.update({
         players: [...game.players, newPlayer],
+        playerIds: firestore.FieldValue.arrayUnion(newPlayer.id),
       });
     } catch (error) {
       console.error('Erreur lors de la jonction au lobby:', error);
@@ -273,6 +285,7 @@ export class MultiplayerService {
       if (game.hostId === playerId && updatedPlayers.length > 0) {
         await gameRef.update({
           players: updatedPlayers,
+          playerIds: firestore.FieldValue.arrayRemove(playerId),
           hostId: updatedPlayers[0].id,
         });
       } else if (updatedPlayers.length === 0) {
@@ -281,6 +294,7 @@ export class MultiplayerService {
       } else {
         await gameRef.update({
           players: updatedPlayers,
+          playerIds: firestore.FieldValue.arrayRemove(playerId),
         });
       }
     } catch (error) {
@@ -1,45 +1,64 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { PlayerProfile, Avatar, PlayerStats } from '../../types/wordSearch.types';
+import {
+  PlayerProfile,
+  PlayerPowerUps,
+  Avatar,
+  PlayerStats,
+  GameResult,
+  LedgerEntry,
+} from '../../types/wordSearch.types';
+import { ProfileCloudService } from '../wordsearch/ProfileCloudService';
+import { OnlineRewardService } from '../wordsearch/OnlineRewardService';
+import { STARTER_THEMES, createDefaultStats, mergeProfiles } from '../../utils/wordsearch/profileMerge';
+import {
+  createLedgerEntry,
+  createLevelRewardEntry,
+  createOpeningEntries,
+  createStarterPack,
+  getGameRewardEntryId,
+  getLedgerBalances,
+  getMaxGameReward,
+  getOpeningBalances,
+  sanitizeLedger,
+} from '../../utils/wordsearch/economyLedger';
+import { POWER_UP_UNIT_PRICES, SHOP_ITEM_GRANTS, getShopItemById } from '../../data/shop';
 
 const PROFILE_KEY = '@wordSearch:profile';
 const STATS_KEY = '@wordSearch:stats';
+// Copie du profil local prise avant sa première fusion avec le compte
+const BACKUP_KEY = '@wordSearch:profile:backup';
+
+// Délai avant d'envoyer une série de modifications vers le compte
+const SYNC_DELAY_MS = 2000;
 
 export class ProfileService {
+  private static syncTimeout: ReturnType<typeof setTimeout> | null = null;
+
   /**
    * Créer un nouveau profil
    */
   static async createProfile(name: string, avatar: Avatar, photoURL?: string): Promise<PlayerProfile> {
+    const ledger = createStarterPack(Date.now());
+    const owner = { id: Date.now().toString(), level: 1 };
     const profile: PlayerProfile = {
-      id: Date.now().toString(),
+      ...owner,
       name,
       avatar,
       photoURL, // Photo Firebase Auth pour affichage dans les jeux multiplayer
-      level: 1,
       xp: 0,
-      coins: 0,
-      stats: {
-        gamesPlayed: 0,
-        gamesWon: 0,
-        totalWordsFound: 0,
-        totalScore: 0,
-        bestTime: 0,
-        favortieDifficulty: 'easy',
-        multiplayerWins: 0,
-        multiplayerGames: 0,
-      },
-      unlockedThemes: ['animals', 'food', 'sports'], // Thèmes de départ
+      ...getLedgerBalances(ledger, owner),
+      stats: createDefaultStats(),
+      unlockedThemes: [...STARTER_THEMES], // Thèmes de départ
       unlockedAvatars: [],
       completedLevels: [],
-      powerUps: {
-        revealLetter: 3, // Start with 3 free hints
-        revealWord: 1, // Start with 1 free reveal
-        timeFreeze: 0,
-        highlightFirst: 0,
-      },
       createdAt: Date.now(),
+      ledger,
+      // Un profil neuf ne doit pas écraser le nom ou l'avatar déjà présents sur le compte
+      updatedAt: 0,
+      progressResetAt: 0,
     };
 
-    await this.saveProfile(profile);
+    await this.persist(profile, false);
     return profile;
   }
 
@@ -65,28 +84,26 @@ export class ProfileService {
         const profile = JSON.parse(data);
         let needsSave = false;
 
-        // Migration: Add powerUps if missing (for old profiles)
-        if (!profile.powerUps) {
-          profile.powerUps = {
-            revealLetter: 3,
-            revealWord: 1,
-            timeFreeze: 0,
-            highlightFirst: 0,
-          };
-          needsSave = true;
-        }
-
         // Migration: Add photoURL if missing (for old profiles)
         if (profile.photoURL === undefined) {
           profile.photoURL = null;
           needsSave = true;
         }
 
+        // Migration: les soldes existants deviennent les écritures d'ouverture du registre
+        if (!profile.ledger) {
+          profile.openingBalances = getOpeningBalances(profile);
+          profile.ledger = createOpeningEntries(profile, profile.openingBalances);
+          delete profile.coinLedger;
+          needsSave = true;
+        }
+
         if (needsSave) {
           await this.saveProfile(profile);
         }
 
-        return profile;
+        // Les soldes stockés ne font pas foi : ils sont recalculés depuis le registre
+        return this.withBalances(profile);
       }
       return null;
     } catch (error) {
@@ -103,8 +120,9 @@ export class ProfileService {
       const profile = await this.loadProfile();
       if (!profile) return null;
 
-      const updatedProfile = { ...profile, ...updates };
-      await this.saveProfile(updatedProfile);
+      // Pièces et power-ups ne se modifient qu'au travers du registre
+      const updatedProfile = this.withBalances({ ...profile, ...updates, ledger: profile.ledger });
+      await this.persist(updatedProfile);
 
       // Synchroniser avec Firestore et les parties actives si le nom ou l'avatar a changé
       if (updates.name || updates.avatar) {
@@ -142,13 +160,15 @@ export class ProfileService {
     const newLevel = this.calculateLevel(profile.xp);
     profile.level = newLevel;
 
-    // Récompense de niveau si level up
+    // Récompense de niveau si level up : 50 pièces par niveau
     const leveledUp = newLevel > oldLevel;
-    if (leveledUp) {
-      profile.coins += 50 * (newLevel - oldLevel); // 50 pièces par niveau
+    const rewards: LedgerEntry[] = [];
+    for (let level = oldLevel + 1; level <= newLevel; level++) {
+      rewards.push(createLevelRewardEntry(level, Date.now()));
     }
+    this.addLedgerEntries(profile, rewards);
 
-    await this.saveProfile(profile);
+    await this.persist(profile);
 
     return {
       leveledUp,
@@ -158,45 +178,111 @@ export class ProfileService {
   }
 
   /**
-   * Ajouter des pièces
+   * Créditer les pièces d'une partie solo. La récompense annoncée par le jeu
+   * est plafonnée à ce que le résultat de la partie permet d'obtenir.
    */
-  static async addCoins(coins: number): Promise<PlayerProfile> {
+  static async rewardGame(result: GameResult, gameId?: string): Promise<{ coinsEarned: number; profile: PlayerProfile }> {
     const profile = await this.loadProfile();
     if (!profile) throw new Error('Profil non trouvé');
 
-    profile.coins += coins;
-    await this.saveProfile(profile);
+    const coinsEarned = Math.max(0, Math.min(Math.floor(result.coinsEarned), getMaxGameReward(result)));
+    if (coinsEarned > 0) {
+      const now = Date.now();
+      const gameResult = {
+        score: result.score,
+        timeElapsed: result.timeElapsed,
+        wordsFound: result.wordsFound,
+        totalWords: result.totalWords,
+        bonusWordsFound: result.bonusWordsFound,
+        difficulty: result.difficulty,
+        theme: result.theme,
+      };
+      this.addLedgerEntries(profile, [createLedgerEntry({
+        id: getGameRewardEntryId(gameResult, gameId || now),
+        type: 'earn',
+        currency: 'coins',
+        amount: coinsEarned,
+        reason: 'game_reward',
+        gameId,
+        gameResult,
+      }, now)]);
+      await this.persist(profile);
+    }
+
+    return { coinsEarned, profile };
+  }
+
+  /**
+   * Enregistrer une récompense de partie en ligne validée par le serveur
+   */
+  static async recordOnlineReward(entry: LedgerEntry): Promise<PlayerProfile> {
+    const profile = await this.loadProfile();
+    if (!profile) throw new Error('Profil non trouvé');
+
+    this.addLedgerEntries(profile, [entry]);
+    await this.persist(profile);
     return profile;
   }
 
   /**
-   * Dépenser des pièces
+   * Acheter un article du magasin : le prix et le contenu viennent du
+   * catalogue, la dépense et ce qu'elle rapporte sont enregistrées ensemble
    */
-  static async spendCoins(coins: number): Promise<PlayerProfile> {
+  static async purchaseItem(itemId: string): Promise<PlayerProfile> {
     const profile = await this.loadProfile();
     if (!profile) throw new Error('Profil non trouvé');
 
-    if (profile.coins < coins) {
-      throw new Error('Pas assez de pièces');
+    const item = getShopItemById(itemId);
+    if (!item) throw new Error('Article introuvable');
+
+    const themeId = item.type === 'theme' ? item.id.replace('theme_', '') : null;
+    if (themeId && profile.unlockedThemes.includes(themeId)) {
+      throw new Error('Thème déjà débloqué');
     }
 
-    profile.coins -= coins;
-    await this.saveProfile(profile);
+    const now = Date.now();
+    const grant = SHOP_ITEM_GRANTS[item.id];
+    this.spend(profile, item.price, item.id, now);
+    if (grant) {
+      this.addLedgerEntries(profile, [createLedgerEntry({
+        type: 'earn',
+        currency: grant.type,
+        amount: grant.quantity,
+        reason: 'shop_purchase',
+        itemId: item.id,
+      }, now)]);
+    }
+    if (themeId) {
+      profile.unlockedThemes.push(themeId);
+    }
+
+    await this.persist(profile);
     return profile;
   }
 
   /**
-   * Débloquer un thème
+   * Acheter des power-ups depuis la partie (boutique rapide)
    */
-  static async unlockTheme(themeId: string): Promise<PlayerProfile> {
+  static async purchasePowerUp(powerUpType: keyof PlayerPowerUps, quantity: number): Promise<PlayerProfile> {
     const profile = await this.loadProfile();
     if (!profile) throw new Error('Profil non trouvé');
 
-    if (!profile.unlockedThemes.includes(themeId)) {
-      profile.unlockedThemes.push(themeId);
-      await this.saveProfile(profile);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error('Quantité invalide');
     }
 
+    const now = Date.now();
+    const itemId = `quick_${powerUpType}`;
+    this.spend(profile, POWER_UP_UNIT_PRICES[powerUpType] * quantity, itemId, now);
+    this.addLedgerEntries(profile, [createLedgerEntry({
+      type: 'earn',
+      currency: powerUpType,
+      amount: quantity,
+      reason: 'shop_purchase',
+      itemId,
+    }, now)]);
+
+    await this.persist(profile);
     return profile;
   }
 
@@ -209,37 +295,60 @@ export class ProfileService {
 
     if (!profile.completedLevels.includes(levelId)) {
       profile.completedLevels.push(levelId);
-      await this.saveProfile(profile);
+      await this.persist(profile);
     }
 
     return profile;
   }
 
   /**
-   * Ajouter des power-ups
+   * Utiliser un power-up
+   * @returns l'écriture de dépense, à rembourser si l'effet n'a pas pu s'appliquer
    */
-  static async addPowerUp(powerUpType: keyof PlayerProfile['powerUps'], quantity: number): Promise<PlayerProfile> {
+  static async usePowerUp(powerUpType: keyof PlayerPowerUps): Promise<{ entryId: string; profile: PlayerProfile }> {
     const profile = await this.loadProfile();
     if (!profile) throw new Error('Profil non trouvé');
 
-    profile.powerUps[powerUpType] += quantity;
-    await this.saveProfile(profile);
-    return profile;
+    if (profile.powerUps[powerUpType] <= 0) {
+      throw new Error('Pas assez de power-ups');
+    }
+
+    const entry = createLedgerEntry({
+      type: 'spend',
+      currency: powerUpType,
+      amount: 1,
+      reason: 'power_up_used',
+    }, Date.now());
+    this.addLedgerEntries(profile, [entry]);
+    await this.persist(profile);
+    return { entryId: entry.id, profile };
   }
 
   /**
-   * Utiliser un power-up
+   * Rembourser une dépense (une seule fois)
    */
-  static async usePowerUp(powerUpType: keyof PlayerProfile['powerUps']): Promise<PlayerProfile> {
+  static async refundEntry(entryId: string): Promise<PlayerProfile> {
     const profile = await this.loadProfile();
     if (!profile) throw new Error('Profil non trouvé');
 
-    if (profile.powerUps[powerUpType] <= 0) {
-      throw new Error('Pas assez de power-ups');
+    const ledger = profile.ledger || [];
+    const original = ledger.find(entry => entry.id === entryId);
+    if (!original || original.type !== 'spend') {
+      throw new Error('Dépense introuvable');
+    }
+    if (ledger.some(entry => entry.refundOf === entryId)) {
+      return profile;
     }
 
-    profile.powerUps[powerUpType] -= 1;
-    await this.saveProfile(profile);
+    this.addLedgerEntries(profile, [createLedgerEntry({
+      type: 'refund',
+      currency: original.currency,
+      amount: original.amount,
+      reason: original.reason,
+      itemId: original.itemId,
+      refundOf: original.id,
+    }, Date.now())]);
+    await this.persist(profile);
     return profile;
   }
 
@@ -251,10 +360,83 @@ export class ProfileService {
     if (!profile) throw new Error('Profil non trouvé');
 
     profile.stats = { ...profile.stats, ...statsUpdate };
+    await this.persist(profile);
+    return profile;
+  }
+
+  /**
+   * Synchroniser avec le compte Firebase. Hors ligne, le profil local est
+   * renvoyé tel quel et sera fusionné à la prochaine synchronisation.
+   */
+  static async syncWithCloud(): Promise<PlayerProfile | null> {
+    const local = await this.loadProfile();
+
+    // Garder l'ancien profil local intact avant sa première fusion
+    if (local && !local.lastSyncedAt) {
+      const backup = await AsyncStorage.getItem(BACKUP_KEY);
+      if (!backup) {
+        await AsyncStorage.setItem(BACKUP_KEY, JSON.stringify(local));
+      }
+    }
+
+    const verified = await OnlineRewardService.getVerifiedEntries();
+    const synced = await ProfileCloudService.syncProfile(local, verified);
+    if (!synced) return local;
+
+    // Le profil a pu changer pendant l'appel réseau : la fusion ne perd rien
+    const latest = await this.loadProfile();
+    const profile = latest ? mergeProfiles(latest, synced) : synced;
+    if (verified) {
+      ProfileCloudService.applyVerifiedEntries(profile, verified);
+    }
     await this.saveProfile(profile);
     return profile;
   }
 
+  /**
+   * Enregistrer une modification locale et planifier l'envoi vers le compte
+   */
+  private static async persist(profile: PlayerProfile, touch = true): Promise<void> {
+    if (touch) {
+      profile.updatedAt = Date.now();
+    }
+    await this.saveProfile(profile);
+
+    if (this.syncTimeout) {
+      clearTimeout(this.syncTimeout);
+    }
+    this.syncTimeout = setTimeout(() => {
+      this.syncTimeout = null;
+      this.syncWithCloud();
+    }, SYNC_DELAY_MS);
+  }
+
+  /**
+   * Ajouter des écritures au registre et recalculer les soldes
+   */
+  private static addLedgerEntries(profile: PlayerProfile, entries: LedgerEntry[]): void {
+    profile.ledger = sanitizeLedger([...(profile.ledger || []), ...entries], profile);
+    this.withBalances(profile);
+  }
+
+  private static spend(profile: PlayerProfile, price: number, itemId: string, now: number): void {
+    if (profile.coins < price) {
+      throw new Error('Pas assez de pièces');
+    }
+
+    this.addLedgerEntries(profile, [createLedgerEntry({
+      type: 'spend',
+      currency: 'coins',
+      amount: price,
+      reason: 'shop_purchase',
+      itemId,
+    }, now)]);
+  }
+
+  private static withBalances(profile: PlayerProfile): PlayerProfile {
+    return Object.assign(profile, getLedgerBalances(profile.ledger || [], profile));
+  }
+
   /**
    * Calculer le niveau basé sur l'XP total
    */
@@ -283,36 +465,28 @@ export class ProfileService {
       if (!currentProfile) throw new Error('Profil non trouvé');
 
       // Garder seulement le nom et l'avatar
+      const ledger = createStarterPack(Date.now());
+      const owner = { id: currentProfile.id, level: 1 };
       const resetProfile: PlayerProfile = {
-        id: currentProfile.id,
+        ...owner,
         name: currentProfile.name,
         avatar: currentProfile.avatar,
-        level: 1,
         xp: 0,
-        coins: 0,
-        stats: {
-          gamesPlayed: 0,
-          gamesWon: 0,
-          totalWordsFound: 0,
-          totalScore: 0,
-          bestTime: 0,
-          favortieDifficulty: 'easy',
-          multiplayerWins: 0,
-          multiplayerGames: 0,
-        },
-        unlockedThemes: ['animals', 'food', 'sports'],
+        ...getLedgerBalances(ledger, owner),
+        stats: createDefaultStats(),
+        unlockedThemes: [...STARTER_THEMES],
         unlockedAvatars: [],
         completedLevels: [],
-        powerUps: {
-          revealLetter: 3,
-          revealWord: 1,
-          timeFreeze: 0,
-          highlightFirst: 0,
-        },
         createdAt: currentProfile.createdAt,
+        ledger,
+        // Figés une fois pour toutes, même si les écritures d'ouverture disparaissent
+        openingBalances: currentProfile.openingBalances,
+        // Une réinitialisation plus récente l'emporte sur la progression des autres appareils
+        progressResetAt: Date.now(),
+        lastSyncedAt: currentProfile.lastSyncedAt,
       };
 
-      await this.saveProfile(resetProfile);
+      await this.persist(resetProfile);
       return resetProfile;
     } catch (error) {
       console.error('Erreur lors de la réinitialisation:', error);
@@ -325,8 +499,13 @@ export class ProfileService {
    */
   static async deleteProfile(): Promise<void> {
     try {
+      if (this.syncTimeout) {
+        clearTimeout(this.syncTimeout);
+        this.syncTimeout = null;
+      }
       await AsyncStorage.removeItem(PROFILE_KEY);
       await AsyncStorage.removeItem(STATS_KEY);
+      await ProfileCloudService.deleteProfile();
     } catch (error) {
       console.error('Erreur lors de la suppression du profil:', error);
       throw error;
@@ -0,0 +1,109 @@
+import firestore from '@react-native-firebase/firestore';
+import auth from '@react-native-firebase/auth';
+import { CustomWordTheme } from '../../types/wordSearch.types';
+import { createCustomThemeId, CUSTOM_THEME_NAME_MAX_LENGTH, validateCustomWords } from '../../utils/wordsearch/customThemes';
+
+export interface CustomThemeInput {
+  id?: string; // Absent pour un nouveau thème
+  name: string;
+  icon: string;
+  color: string;
+  words: string[]; // Saisie brute, normalisée à l'enregistrement
+  sharedWithPartner: boolean;
+}
+
+/**
+ * Thèmes personnalisés Mots Mêlés (word_search_custom_themes/{themeId}).
+ * Un thème partagé est visible par le partenaire, qui peut y jouer sans le modifier.
+ */
+export class CustomThemeService {
+  private static COLLECTION = 'word_search_custom_themes';
+
+  /**
+   * Thèmes du joueur et ceux que son partenaire lui a partagés
+   */
+  static async getThemes(): Promise<CustomWordTheme[]> {
+    const userId = auth().currentUser?.uid;
+    if (!userId) return [];
+
+    try {
+      const snapshot = await firestore()
+        .collection(this.COLLECTION)
+        .where('memberIds', 'array-contains', userId)
+        .get();
+
+      return snapshot.docs
+        .map(doc => doc.data() as CustomWordTheme)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+      console.error('Erreur lors du chargement des thèmes personnalisés:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Créer ou modifier un thème
+   * @throws Error si le nom ou la liste de mots n'est pas valide
+   */
+  static async saveTheme(input: CustomThemeInput, ownerName: string): Promise<CustomWordTheme> {
+    const userId = auth().currentUser?.uid;
+    if (!userId) {
+      throw new Error('Vous devez être connecté pour enregistrer un thème');
+    }
+
+    const name = input.name.trim();
+    if (!name || name.length > CUSTOM_THEME_NAME_MAX_LENGTH) {
+      throw new Error(`Le nom doit faire entre 1 et ${CUSTOM_THEME_NAME_MAX_LENGTH} caractères`);
+    }
+
+    const validation = validateCustomWords(input.words);
+    if (!validation.isValid) {
+      throw new Error(validation.errors[0]);
+    }
+
+    try {
+      const now = Date.now();
+      const themeId = input.id || createCustomThemeId();
+      const themeRef = firestore().collection(this.COLLECTION).doc(themeId);
+      const existing = input.id ? await themeRef.get() : null;
+
+      const partnerId = input.sharedWithPartner ? await this.getPartnerId(userId) : undefined;
+      const theme: CustomWordTheme = {
+        id: themeId,
+        ownerId: userId,
+        ownerName,
+        name,
+        icon: input.icon,
+        color: input.color,
+        words: validation.words,
+        sharedWithPartner: !!partnerId,
+        memberIds: partnerId ? [userId, partnerId] : [userId],
+        createdAt: existing?.exists ? (existing.data() as CustomWordTheme).createdAt : now,
+        updatedAt: now,
+      };
+
+      await themeRef.set(theme);
+      return theme;
+    } catch (error) {
+      console.error('Erreur lors de l\'enregistrement du thème personnalisé:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Supprimer un thème (propriétaire uniquement)
+   */
+  static async deleteTheme(themeId: string): Promise<void> {
+    try {
+      await firestore().collection(this.COLLECTION).doc(themeId).delete();
+    } catch (error) {
+      console.error('Erreur lors de la suppression du thème personnalisé:', error);
+      throw error;
+    }
+  }
+
+  private static async getPartnerId(userId: string): Promise<string | undefined> {
+    const userDoc = await firestore().collection('users').doc(userId).get();
+    return userDoc.data()?.partnerId || undefined;
+  }
+}
@@ -0,0 +1,142 @@
+import firestore from '@react-native-firebase/firestore';
+import auth from '@react-native-firebase/auth';
+import {
+  DailyChallenge,
+  DailyChallengeResult,
+  Difficulty,
+  GameResult,
+  PlayerProfile,
+} from '../../types/wordSearch.types';
+import { WORD_THEMES } from '../../data/themes';
+import { createSeededRandom } from '../../utils/wordsearch/seededRandom';
+
+// Difficulté selon le jour de la semaine UTC (dimanche = 0) : plus corsé en fin de semaine
+const DAILY_DIFFICULTIES: Difficulty[] = ['hard', 'easy', 'medium', 'medium', 'hard', 'medium', 'expert'];
+
+/**
+ * Défi du jour : la grille est reproduite sur chaque appareil à partir de la
+ * date, seuls les résultats sont partagés pour comparer les temps
+ */
+export class DailyChallengeService {
+  private static DAILY_COLLECTION = 'word_search_daily';
+  private static RESULTS_SUBCOLLECTION = 'results';
+
+  /**
+   * Clé du jour (AAAA-MM-JJ, date UTC) : les deux partenaires jouent la même
+   * grille même s'ils ne sont pas dans le même fuseau horaire
+   */
+  static getDateKey(date: Date = new Date()): string {
+    const month = `${date.getUTCMonth() + 1}`.padStart(2, '0');
+    const day = `${date.getUTCDate()}`.padStart(2, '0');
+    return `${date.getUTCFullYear()}-${month}-${day}`;
+  }
+
+  /**
+   * Défi d'une journée : thème tiré de la graine, difficulté selon le jour
+   */
+  static getChallenge(date: Date = new Date()): DailyChallenge {
+    const dateKey = this.getDateKey(date);
+    const seed = `daily-${dateKey}`;
+    const random = createSeededRandom(seed);
+    const theme = WORD_THEMES[Math.floor(random() * WORD_THEMES.length)];
+
+    return {
+      dateKey,
+      seed,
+      themeId: theme.id,
+      difficulty: DAILY_DIFFICULTIES[date.getUTCDay()],
+    };
+  }
+
+  /**
+   * Un résultat est meilleur avec plus de mots trouvés, puis en moins de temps
+   */
+  static isBetterResult(
+    result: Pick<DailyChallengeResult, 'wordsFound' | 'timeElapsed'>,
+    previous: Pick<DailyChallengeResult, 'wordsFound' | 'timeElapsed'>
+  ): boolean {
+    if (result.wordsFound !== previous.wordsFound) {
+      return result.wordsFound > previous.wordsFound;
+    }
+    return result.timeElapsed < previous.timeElapsed;
+  }
+
+  /**
+   * Enregistrer une partie du défi : seul le meilleur résultat du joueur est conservé
+   * @returns true si c'est un nouveau meilleur résultat
+   */
+  static async submitResult(
+    challenge: DailyChallenge,
+    profile: PlayerProfile,
+    result: GameResult
+  ): Promise<boolean> {
+    const userId = auth().currentUser?.uid;
+    if (!userId) {
+      throw new Error('Vous devez être connecté pour participer au défi du jour');
+    }
+
+    try {
+      const resultRef = firestore()
+        .collection(this.DAILY_COLLECTION)
+        .doc(challenge.dateKey)
+        .collection(this.RESULTS_SUBCOLLECTION)
+        .doc(userId);
+
+      const entry: DailyChallengeResult = {
+        userId,
+        dateKey: challenge.dateKey,
+        name: profile.name,
+        avatar: profile.avatar,
+        photoURL: profile.photoURL || null,
+        timeElapsed: result.timeElapsed,
+        wordsFound: result.wordsFound,
+        totalWords: result.totalWords,
+        score: result.score,
+        completedAt: Date.now(),
+      };
+
+      return await firestore().runTransaction(async (transaction) => {
+        const existing = await transaction.get(resultRef);
+        const previous = existing.data() as DailyChallengeResult | undefined;
+
+        if (previous && !this.isBetterResult(entry, previous)) {
+          return false;
+        }
+
+        transaction.set(resultRef, entry);
+        return true;
+      });
+    } catch (error) {
+      console.error('Erreur lors de l\'enregistrement du défi du jour:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Classement du jour entre le joueur et son partenaire
+   */
+  static async getLeaderboard(dateKey: string): Promise<DailyChallengeResult[]> {
+    const userId = auth().currentUser?.uid;
+    if (!userId) return [];
+
+    try {
+      const userDoc = await firestore().collection('users').doc(userId).get();
+      const partnerId: string | undefined = userDoc.data()?.partnerId;
+      const playerIds = partnerId ? [userId, partnerId] : [userId];
+
+      const resultsRef = firestore()
+        .collection(this.DAILY_COLLECTION)
+        .doc(dateKey)
+        .collection(this.RESULTS_SUBCOLLECTION);
+      const resultDocs = await Promise.all(playerIds.map(id => resultsRef.doc(id).get()));
+
+      return resultDocs
+        .filter(doc => doc.exists)
+        .map(doc => doc.data() as DailyChallengeResult)
+        .sort((a, b) => (this.isBetterResult(a, b) ? -1 : this.isBetterResult(b, a) ? 1 : 0));
+    } catch (error) {
+      console.error('Erreur lors du chargement du classement du jour:', error);
+      return [];
+    }
+  }
+}
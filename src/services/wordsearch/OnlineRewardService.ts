@@ -0,0 +1,52 @@
+import firestore from '@react-native-firebase/firestore';
+import functions from '@react-native-firebase/functions';
+import auth from '@react-native-firebase/auth';
+import { LedgerEntry } from '../../types/wordSearch.types';
+import {
+  LEDGER_ENTRIES_SUBCOLLECTION,
+  WORD_SEARCH_LEDGER_COLLECTION,
+} from '../../utils/wordsearch/economyLedger';
+
+export type OnlineGameMode = 'multiplayer' | 'cooperative';
+
+/**
+ * Récompenses des parties en ligne : calculées et enregistrées par le serveur
+ * (wordSearchClaimOnlineReward), l'application ne fait que les relire
+ */
+export class OnlineRewardService {
+  /**
+   * Réclamer la récompense d'une partie terminée
+   * @returns l'écriture créée par le serveur, ou null si la partie ne rapporte rien
+   */
+  static async claimReward(mode: OnlineGameMode, gameId: string): Promise<LedgerEntry | null> {
+    try {
+      const result = await functions().httpsCallable('wordSearchClaimOnlineReward')({ mode, gameId });
+      return result.data as LedgerEntry;
+    } catch (error) {
+      console.error('Erreur lors de la réclamation de la récompense en ligne:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Toutes les récompenses en ligne enregistrées par le serveur pour le joueur
+   * @returns null si hors ligne ou non connecté
+   */
+  static async getVerifiedEntries(): Promise<LedgerEntry[] | null> {
+    const userId = auth().currentUser?.uid;
+    if (!userId) return null;
+
+    try {
+      const snapshot = await firestore()
+        .collection(WORD_SEARCH_LEDGER_COLLECTION)
+        .doc(userId)
+        .collection(LEDGER_ENTRIES_SUBCOLLECTION)
+        // Pas de cache : une liste incomplète ferait disparaître des récompenses
+        .get({ source: 'server' });
+      return snapshot.docs.map(doc => doc.data() as LedgerEntry);
+    } catch (error) {
+      console.error('Erreur lors du chargement des récompenses en ligne:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import firestore from '@react-native-firebase/firestore';
+import auth from '@react-native-firebase/auth';
+import { LedgerEntry, PlayerProfile } from '../../types/wordSearch.types';
+import { mergeProfiles, normalizeProfile, withProfileId } from '../../utils/wordsearch/profileMerge';
+import { applyVerifiedEntries, getLedgerBalances } from '../../utils/wordsearch/economyLedger';
+
+/**
+ * Copie du profil Mots Mêlés sur le compte Firebase (word_search_profiles/{uid}).
+ * La copie locale reste la référence hors ligne : chaque synchronisation
+ * fusionne les deux copies au lieu d'en écraser une.
+ */
+export class ProfileCloudService {
+  private static COLLECTION = 'word_search_profiles';
+
+  /**
+   * Fusionner la copie locale avec celle du compte et enregistrer le résultat
+   * dans Firestore. Sans profil local (réinstallation, nouveau téléphone),
+   * la copie du compte est restaurée.
+   * @param verified récompenses en ligne enregistrées par le serveur (null si inconnues)
+   * @returns le profil fusionné, ou null si hors ligne / non connecté
+   */
+  static async syncProfile(
+    local: PlayerProfile | null,
+    verified: LedgerEntry[] | null
+  ): Promise<PlayerProfile | null> {
+    const userId = auth().currentUser?.uid;
+    if (!userId) return null;
+
+    try {
+      const profileRef = firestore().collection(this.COLLECTION).doc(userId);
+
+      const merged = await firestore().runTransaction(async (transaction) => {
+        const remoteDoc = await transaction.get(profileRef);
+        const remote = remoteDoc.exists
+          ? normalizeProfile(remoteDoc.data() as Partial<PlayerProfile>, userId)
+          : null;
+
+        if (!local && !remote) {
+          return null;
+        }
+
+        const result = local && remote
+          ? mergeProfiles(local, remote)
+          : withProfileId({ ...(local || remote) as PlayerProfile }, userId);
+        if (verified) {
+          this.applyVerifiedEntries(result, verified);
+        }
+
+        transaction.set(profileRef, this.toDocument(result));
+        return result;
+      });
+
+      return merged ? { ...merged, lastSyncedAt: Date.now() } : null;
+    } catch (error) {
+      console.error('Erreur lors de la synchronisation du profil Mots Mêlés:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Supprimer la copie du compte (suppression du profil)
+   */
+  static async deleteProfile(): Promise<void> {
+    const userId = auth().currentUser?.uid;
+    if (!userId) return;
+
+    try {
+      await firestore().collection(this.COLLECTION).doc(userId).delete();
+    } catch (error) {
+      console.error('Erreur lors de la suppression du profil Mots Mêlés en ligne:', error);
+    }
+  }
+
+  /**
+   * Remplacer les récompenses en ligne du registre par celles du serveur
+   */
+  static applyVerifiedEntries(profile: PlayerProfile, verified: LedgerEntry[]): PlayerProfile {
+    profile.ledger = applyVerifiedEntries(profile.ledger || [], verified, profile);
+    return Object.assign(profile, getLedgerBalances(profile.ledger, profile));
+  }
+
+  /**
+   * Firestore refuse les champs undefined ; la date de synchronisation reste propre à l'appareil
+   */
+  private static toDocument(profile: PlayerProfile): Omit<PlayerProfile, 'lastSyncedAt'> {
+    const document = { ...profile };
+    delete document.lastSyncedAt;
+    return JSON.parse(JSON.stringify(document));
+  }
+}
@@ -1,23 +1,41 @@
-import { Cell, Direction, DifficultyConfig, Grid, Position, Word } from '../../types/wordSearch.types';
+import { Cell, Direction, DifficultyConfig, Grid, GridMask, GridShape, Position, Word } from '../../types/wordSearch.types';
 import { DIRECTION_VECTORS, getRandomFillerLetter } from '../../data/constants/gameRules';
 import { getWordColor } from '../../data/constants/colors';
+import { createSeededRandom, RandomSource, shuffleWithRandom } from '../../utils/wordsearch/seededRandom';
+import { getLongestRun, isPlayableCell, resolveGridMask } from '../../utils/wordsearch/gridMasks';
 
 export class WordSearchGenerator {
   private grid: string[][];
   private gridSize: number;
   private placedWords: Word[] = [];
+  private random: RandomSource;
+  private mask: GridMask | null = null;
 
-  constructor(gridSize: number) {
+  /**
+   * Toute l'aléa (choix des mots, placement, lettres de remplissage) passe
+   * par `random` : avec une source déterministe, la grille est reproductible
+   */
+  constructor(gridSize: number, random: RandomSource = Math.random) {
     this.gridSize = gridSize;
+    this.random = random;
     this.grid = this.createEmptyGrid();
   }
 
+  /**
+   * Créer un générateur reproductible à partir d'une graine
+   */
+  static fromSeed(gridSize: number, seed: string): WordSearchGenerator {
+    return new WordSearchGenerator(gridSize, createSeededRandom(seed));
+  }
+
   /**
    * Generate a complete word search grid
+   * @param shape forme de la grille (cœur, étoile, cercle ou masque libre) ; carrée par défaut
    */
-  generateGrid(words: string[], config: DifficultyConfig, bonusWords: string[] = []): Grid {
+  generateGrid(words: string[], config: DifficultyConfig, bonusWords: string[] = [], shape?: GridShape): Grid {
     this.grid = this.createEmptyGrid();
     this.placedWords = [];
+    this.mask = shape ? resolveGridMask(shape, this.gridSize) : null;
 
     // Select random words based on config
     const selectedWords = this.selectWords(words, config);
@@ -60,14 +78,16 @@ export class WordSearchGenerator {
    */
   private selectWords(words: string[], config: DifficultyConfig): string[] {
     const [minLength, maxLength] = config.wordLengthRange;
+    // Dans une grille en forme, un mot doit tenir dans une suite de cases jouables
+    const maxFittingLength = this.mask ? getLongestRun(this.mask, config.directions) : this.gridSize;
 
     // Filter words by length
     const validWords = words.filter(
-      word => word.length >= minLength && word.length <= maxLength && word.length <= this.gridSize
+      word => word.length >= minLength && word.length <= maxLength && word.length <= maxFittingLength
     );
 
     // Shuffle and take the required count
-    const shuffled = [...validWords].sort(() => Math.random() - 0.5);
+    const shuffled = shuffleWithRandom(validWords, this.random);
     return shuffled.slice(0, config.wordCount);
   }
 
@@ -93,7 +113,7 @@ export class WordSearchGenerator {
 
     // Sinon, placement aléatoire classique
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const direction = allowedDirections[Math.floor(Math.random() * allowedDirections.length)];
+      const direction = allowedDirections[Math.floor(this.random() * allowedDirections.length)];
       const startPos = this.getRandomStartPosition(word.length, direction);
 
       if (this.canPlaceWord(word, startPos, direction)) {
@@ -101,9 +121,38 @@ export class WordSearchGenerator {
       }
     }
 
+    // Grille en forme : peu de positions valides, les parcourir toutes plutôt que d'abandonner le mot
+    if (this.mask) {
+      const position = this.findAnyPosition(word, allowedDirections);
+      if (position) {
+        return this.placeWordInGrid(word, position.startPos, position.direction, wordIndex, isBonus);
+      }
+    }
+
     return null;
   }
 
+  /**
+   * Choisit au hasard parmi toutes les positions où le mot peut être placé
+   */
+  private findAnyPosition(word: string, allowedDirections: Direction[]): { startPos: Position; direction: Direction } | null {
+    const positions: { startPos: Position; direction: Direction }[] = [];
+
+    for (const direction of allowedDirections) {
+      for (let row = 0; row < this.gridSize; row++) {
+        for (let col = 0; col < this.gridSize; col++) {
+          const startPos: Position = { row, col };
+          if (this.canPlaceWord(word, startPos, direction)) {
+            positions.push({ startPos, direction });
+          }
+        }
+      }
+    }
+
+    if (positions.length === 0) return null;
+    return positions[Math.floor(this.random() * positions.length)];
+  }
+
   /**
    * Trouve une position où le mot peut chevaucher avec un mot existant
    */
@@ -180,8 +229,8 @@ export class WordSearchGenerator {
     if (vector.col < 0) maxCol = wordLength - 1;
 
     return {
-      row: Math.floor(Math.random() * (maxRow + 1)),
-      col: Math.floor(Math.random() * (maxCol + 1)),
+      row: Math.floor(this.random() * (maxRow + 1)),
+      col: Math.floor(this.random() * (maxCol + 1)),
     };
   }
 
@@ -201,6 +250,11 @@ export class WordSearchGenerator {
         return false;
       }
 
+      // Les cases hors de la forme restent vides
+      if (!isPlayableCell(this.mask, row, col)) {
+        return false;
+      }
+
       // IMPORTANT: Permet le chevauchement si la lettre est la même
       // Cela permet aux mots de partager des lettres
       const cell = this.grid[row][col];
@@ -242,13 +296,13 @@ export class WordSearchGenerator {
   }
 
   /**
-   * Fill empty cells with random letters
+   * Fill empty cells with random letters (cases de la forme uniquement)
    */
   private fillEmptyCells(): void {
     for (let row = 0; row < this.gridSize; row++) {
       for (let col = 0; col < this.gridSize; col++) {
-        if (this.grid[row][col] === '') {
-          this.grid[row][col] = getRandomFillerLetter();
+        if (this.grid[row][col] === '' && isPlayableCell(this.mask, row, col)) {
+          this.grid[row][col] = getRandomFillerLetter(this.random);
         }
       }
     }
@@ -263,13 +317,18 @@ export class WordSearchGenerator {
     for (let row = 0; row < this.gridSize; row++) {
       const rowCells: Cell[] = [];
       for (let col = 0; col < this.gridSize; col++) {
-        rowCells.push({
+        const cell: Cell = {
           letter: this.grid[row][col],
           row,
           col,
           isSelected: false,
           isFound: false,
-        });
+        };
+        // Pas de champ undefined : les grilles multijoueur sont enregistrées dans Firestore
+        if (!isPlayableCell(this.mask, row, col)) {
+          cell.isBlank = true;
+        }
+        rowCells.push(cell);
       }
       cells.push(rowCells);
     }
@@ -15,6 +15,7 @@ export interface CooperativeGame {
   roomCode: string;
   hostId: string;
   players: CooperativePlayer[];
+  playerIds: string[]; // Ids de players : les règles Firestore y lisent les participants
   maxPlayers: number;
   status: 'waiting' | 'playing' | 'completed';
 
@@ -24,6 +25,7 @@ export interface CooperativeGame {
   wordsFound: string[];
   difficulty: 'easy' | 'medium' | 'hard' | 'expert';
   themeId: string;
+  themeName?: string;
   levelId?: number;
 
   // Time
@@ -3,8 +3,8 @@ import { PlayerProfile } from './wordSearch.types';
 // Tuile de domino
 export interface DominoTile {
   id: string;
-  left: number;  // 0-6
-  right: number; // 0-6
+  left: number;  // 0 à maxValue (6, 9 ou 12 selon le jeu)
+  right: number; // 0 à maxValue
   isDouble: boolean;
   orientation: 'horizontal' | 'vertical';
 }
@@ -22,12 +22,31 @@ export interface TilePlacement {
 export interface DominosPlayer {
   id: string;
   profile: PlayerProfile;
-  hand: DominoTile[];
-  tilesCount: number;
+  tilesCount: number; // Seul compteur public : la main est dans la sous-collection hands
   hasDrawn: boolean;
   hasPassed: boolean;
-  score: number;
+  score: number; // Points cumulés sur le match (score de l'équipe à quatre)
   isReady: boolean;
+  team?: DominosTeam; // Partie à quatre uniquement
+}
+
+// Équipe d'une partie à quatre : les partenaires se font face
+export type DominosTeam = 0 | 1;
+
+// Jeu utilisé : double-six (28 tuiles), double-neuf (55) ou double-douze (91)
+export type DominosMaxValue = 6 | 9 | 12;
+
+// Règles du match : classiques (avec pioche) ou haïtiennes (sans pioche, aux manches gagnées)
+export type DominosRuleset = 'classic' | 'haitian';
+
+// Résultat d'une manche du match
+export interface DominosRoundResult {
+  roundNumber: number;
+  winnerId: string;
+  winReason: 'emptied_hand' | 'lowest_score';
+  points: number; // Points restants dans la main adverse, marqués par le gagnant
+  remainingPips: Record<string, number>;
+  completedAt: number;
 }
 
 // Partie
@@ -35,24 +54,38 @@ export interface DominosGame {
   id: string;
   roomCode: string;
   hostId: string;
-  players: DominosPlayer[];
-  maxPlayers: 2;
+  players: DominosPlayer[]; // Ordre des places = ordre du jeu
+  maxPlayers: 2 | 4; // 4 : deux contre deux
+  maxValue?: DominosMaxValue; // Double-six par défaut
   status: 'waiting' | 'playing' | 'finished';
   currentPlayerId: string;
   board: TilePlacement[];
-  drawPile: DominoTile[];
-  drawPileCount: number;
+  drawPileCount: number; // La pioche elle-même n'est lisible que par le serveur
   leftEnd: number | null;
   rightEnd: number | null;
   isBlocked: boolean;
   winnerId: string | null;
   winReason: 'emptied_hand' | 'lowest_score' | 'opponent_left' | null;
+  finalHands?: Record<string, DominoTile[]> | null; // Mains révélées en fin de manche
+  ruleset?: DominosRuleset;
+  targetScore?: number; // Points (classic) ou manches gagnées (haitian) pour remporter le match
+  kochonIds?: string[]; // Perdants sans aucune manche gagnée (haitian)
+  roundNumber?: number;
+  rounds?: DominosRoundResult[];
+  turnNumber?: number; // Actions de tour jouées, à renvoyer dans expectedTurn
   createdAt: number;
   startedAt: number | null;
   completedAt: number | null;
   updatedAt: number;
 }
 
+// Main privée d'un joueur (dominos_games/{gameId}/hands/{playerId})
+export interface DominosHand {
+  playerId: string;
+  tiles: DominoTile[];
+  updatedAt: number;
+}
+
 // Statistiques de fin de partie
 export interface DominosStats {
   playerId: string;
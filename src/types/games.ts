@@ -1,6 +1,6 @@
 export type GameType = 'morpion' | 'fourInARow' | 'puzzle' | 'crosswords' | 'quizCouple';
 
-export type GameMode = 'multiplayer' | 'ai' | 'local';
+export type GameMode = 'multiplayer' | 'ai' | 'local' | 'online';
 export type AIDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
 export type AIPersonality = 'aggressive' | 'defensive' | 'balanced';
 
@@ -22,6 +22,9 @@ export type AppScreen =
   | 'morpionMultiplayerLobby'
   | 'morpionGame'
   | 'morpionResults'
+  | 'morpionHistory'
+  | 'morpionReplay'
+  | 'morpionStats'
   | 'quiz'
   | 'soundsSettings'
   | 'pinCode'
@@ -43,6 +46,7 @@ export type AppScreen =
   | 'quizCoupleCustom'
   | 'puissance4Lobby'
   | 'puissance4Stats'
+  | 'stakesLedger'
   | 'dominosMenu'
   | 'dominosLobby'
   | 'dominosGame'
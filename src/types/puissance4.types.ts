@@ -2,7 +2,7 @@ import { Player } from './games';
 
 export type CellValue = 'Rouge' | 'Jaune' | null;
 export type GameStatus = 'en_attente' | 'en_cours' | 'termine';
-export type AIDifficulty = 'facile' | 'moyen' | 'difficile' | 'expert';
+export type AIDifficulty = 'facile' | 'moyen' | 'difficile' | 'expert' | 'imbattable';
 
 export interface Puissance4Board {
   rows: number; // 6
@@ -44,10 +44,31 @@ export interface Puissance4Stats {
 
 export interface AIMove {
   column: number;
+  type?: 'drop' | 'pop'; // 'drop' par défaut, 'pop' en variante PopOut
   score: number;
   reasoning: string;
 }
 
+// Mode coach
+export type CoachHighlight = 'win' | 'block' | 'danger';
+
+export interface CoachThreat {
+  row: number;
+  col: number;
+  color: 'Rouge' | 'Jaune';
+  rowFromBottom: number; // 1 = rangée du bas
+  isFavorable: boolean; // Parité qui profite au propriétaire de la menace
+}
+
+export interface CoachingAdvice {
+  winningColumns: number[]; // Gagnent immédiatement
+  blockingColumns: number[]; // Empêchent une victoire adverse immédiate
+  dangerColumns: number[]; // Offrent la victoire à l'adversaire au coup suivant
+  threats: CoachThreat[];
+  suggestion: { column: number; type: 'drop' | 'pop' } | null;
+  explanation: string;
+}
+
 export interface WinResult {
   winner: boolean;
   line: { row: number; col: number }[] | null;
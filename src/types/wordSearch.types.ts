@@ -12,6 +12,7 @@ export interface Cell {
   isSelected: boolean;
   isFound: boolean;
   wordId?: string;
+  isBlank?: boolean; // Case hors de la forme de la grille (ni lettre ni sélection)
 }
 
 export interface Position {
@@ -30,9 +31,14 @@ export interface Word {
   isBonus?: boolean; // Mot bonus caché
 }
 
+// Grilles en forme : masque size x size, true = case jouable
+export type GridMask = boolean[][];
+export type GridShapeName = 'heart' | 'star' | 'circle';
+export type GridShape = GridShapeName | GridMask;
+
 export interface Grid {
   cells: Cell[][];
-  size: number;
+  size: number; // Côté du carré englobant, y compris pour une grille en forme
   words: Word[];
 }
 
@@ -70,6 +76,23 @@ export interface WordTheme {
   price?: number;
   color: string;
   description: string;
+  custom?: boolean; // Thème créé par un joueur (CustomWordTheme)
+  sharedBy?: string; // Nom du partenaire qui a partagé le thème
+}
+
+// Thème personnalisé (word_search_custom_themes/{themeId}) : mots normalisés en A-Z
+export interface CustomWordTheme {
+  id: string;
+  ownerId: string;
+  ownerName: string;
+  name: string;
+  icon: string;
+  color: string;
+  words: string[];
+  sharedWithPartner: boolean;
+  memberIds: string[]; // Propriétaire, et partenaire si le thème est partagé
+  createdAt: number;
+  updatedAt: number;
 }
 
 // Player profile
@@ -87,6 +110,37 @@ export interface PlayerProfile {
   completedLevels: number[];
   powerUps: PlayerPowerUps;
   createdAt: number;
+  ledger?: LedgerEntry[]; // Pièces et power-ups sont calculés à partir des écritures
+  coinLedger?: { id: string; amount: number; createdAt: number }[]; // Ancien registre (pièces seules)
+  openingBalances?: Partial<Record<LedgerCurrency, number>>; // Soldes de l'ancien profil, figés à la migration
+  updatedAt?: number; // Dernière modification locale (départage nom et avatar)
+  progressResetAt?: number; // Date de la dernière réinitialisation de la progression
+  lastSyncedAt?: number; // Dernière synchronisation réussie avec le compte Firebase
+}
+
+// Registre de l'économie : chaque gain ou dépense de pièces et de power-ups est une écriture
+export type LedgerEntryType = 'earn' | 'spend' | 'refund';
+export type LedgerCurrency = 'coins' | keyof PlayerPowerUps;
+export type LedgerReason =
+  | 'opening_balance' // Solde repris d'un ancien profil
+  | 'starter_pack'
+  | 'game_reward'
+  | 'level_up'
+  | 'online_game_reward' // Validée par le serveur
+  | 'shop_purchase'
+  | 'power_up_used';
+
+export interface LedgerEntry {
+  id: string; // Unique : la fusion entre appareils déduplique par id
+  type: LedgerEntryType;
+  currency: LedgerCurrency;
+  amount: number; // Toujours positif : le type donne le sens
+  reason: LedgerReason;
+  createdAt: number;
+  gameId?: string;
+  itemId?: string; // Article du magasin
+  refundOf?: string; // Écriture remboursée
+  gameResult?: Pick<GameResult, 'score' | 'timeElapsed' | 'wordsFound' | 'totalWords' | 'bonusWordsFound' | 'difficulty' | 'theme'>;
 }
 
 export interface PlayerPowerUps {
@@ -146,9 +200,11 @@ export interface MultiplayerGame {
   id: string;
   hostId: string;
   players: MultiplayerPlayer[];
+  playerIds: string[]; // Ids de players : les règles Firestore y lisent les participants
   grid: Grid;
   difficulty: Difficulty;
   theme: string;
+  themeWords?: string[]; // Mots d'un thème personnalisé (absents des thèmes intégrés)
   status: 'waiting' | 'playing' | 'finished';
   startedAt?: number;
   finishedAt?: number;
@@ -181,3 +237,25 @@ export interface GameResult {
   difficulty: Difficulty;
   theme: string;
 }
+
+// Défi du jour : la même grille pour tout le monde, générée à partir de la date
+export interface DailyChallenge {
+  dateKey: string; // AAAA-MM-JJ (date locale)
+  seed: string;
+  themeId: string;
+  difficulty: Difficulty;
+}
+
+// Meilleur résultat d'un joueur sur le défi du jour (word_search_daily/{dateKey}/results/{userId})
+export interface DailyChallengeResult {
+  userId: string;
+  dateKey: string;
+  name: string;
+  avatar: Avatar;
+  photoURL: string | null;
+  timeElapsed: number;
+  wordsFound: number;
+  totalWords: number;
+  score: number;
+  completedAt: number;
+}
@@ -0,0 +1,76 @@
+/**
+ * Symétries d'un plateau carré (4 rotations × réflexion).
+ *
+ * Une position et ses images par rotation ou miroir ont la même valeur :
+ * on les ramène à une forme canonique pour partager le cache de l'IA
+ * et les livres d'ouvertures.
+ */
+
+export interface CanonicalBoard {
+  key: string; // Plateau canonique sous forme de chaîne (une lettre par case)
+  transform: number[]; // transform[position] = position correspondante dans le plateau canonique
+}
+
+const transformCache = new Map<number, number[][]>();
+
+/**
+ * Les 8 permutations de positions d'un plateau size x size.
+ * La première est l'identité.
+ */
+export function getSymmetryTransforms(size: number): number[][] {
+  const cached = transformCache.get(size);
+  if (cached) {
+    return cached;
+  }
+
+  const last = size - 1;
+  const mappings: ((row: number, col: number) => [number, number])[] = [
+    (row, col) => [row, col],
+    (row, col) => [col, last - row], // Rotation 90°
+    (row, col) => [last - row, last - col], // Rotation 180°
+    (row, col) => [last - col, row], // Rotation 270°
+    (row, col) => [row, last - col], // Miroir vertical
+    (row, col) => [last - row, col], // Miroir horizontal
+    (row, col) => [col, row], // Diagonale
+    (row, col) => [last - col, last - row], // Anti-diagonale
+  ];
+
+  const transforms = mappings.map(mapping => {
+    const transform: number[] = [];
+    for (let position = 0; position < size * size; position++) {
+      const [row, col] = mapping(Math.floor(position / size), position % size);
+      transform.push(row * size + col);
+    }
+    return transform;
+  });
+
+  transformCache.set(size, transforms);
+  return transforms;
+}
+
+/**
+ * Forme canonique d'un plateau : la plus petite des 8 images (ordre lexicographique)
+ */
+export function getCanonicalBoard(cells: string, size: number): CanonicalBoard {
+  let best: CanonicalBoard | null = null;
+
+  for (const transform of getSymmetryTransforms(size)) {
+    const image: string[] = new Array(cells.length);
+    for (let position = 0; position < cells.length; position++) {
+      image[transform[position]] = cells[position];
+    }
+    const key = image.join('');
+    if (!best || key < best.key) {
+      best = { key, transform };
+    }
+  }
+
+  return best!;
+}
+
+/**
+ * Ramener une position du plateau canonique vers le plateau réel
+ */
+export function fromCanonicalPosition(canonicalPosition: number, transform: number[]): number {
+  return transform.indexOf(canonicalPosition);
+}
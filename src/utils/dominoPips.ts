@@ -0,0 +1,94 @@
+import { DimensionValue } from 'react-native';
+
+/**
+ * Disposition des points d'une moitié de domino, de 0 à 12.
+ * Partagée par DominoTile et DominoTile3D : les positions sont en
+ * pourcentage de la moitié de tuile, quelle que soit sa taille.
+ */
+export interface DotPosition {
+  top?: DimensionValue;
+  left?: DimensionValue;
+  right?: DimensionValue;
+  bottom?: DimensionValue;
+}
+
+// Au-delà de 9, quatre rangées : des points plus petits pour qu'ils ne se touchent pas
+const LARGE_VALUE_DOT_SCALE = 0.75;
+
+// Grilles à trois colonnes (7 à 12)
+const LEFT: DotPosition = { left: '12%' };
+const CENTER: DotPosition = { left: '40%' };
+const RIGHT: DotPosition = { right: '12%' };
+
+const threeRows = (columns: DotPosition[][]): DotPosition[] => {
+  const rows: DotPosition[] = [{ top: '15%' }, { top: '42%' }, { bottom: '15%' }];
+  return rows.flatMap((row, index) => columns[index].map(column => ({ ...row, ...column })));
+};
+
+const fourRows = (columns: DotPosition[][]): DotPosition[] => {
+  const rows: DotPosition[] = [{ top: '8%' }, { top: '31%' }, { top: '54%' }, { bottom: '8%' }];
+  return rows.flatMap((row, index) => columns[index].map(column => ({ ...row, ...column })));
+};
+
+export function getDotPositions(value: number): DotPosition[] {
+  switch (value) {
+    case 1:
+      return [{ top: '40%', left: '40%' }];
+    case 2:
+      return [
+        { top: '20%', left: '20%' },
+        { bottom: '20%', right: '20%' },
+      ];
+    case 3:
+      return [
+        { top: '20%', left: '20%' },
+        { top: '40%', left: '40%' },
+        { bottom: '20%', right: '20%' },
+      ];
+    case 4:
+      return [
+        { top: '20%', left: '20%' },
+        { top: '20%', right: '20%' },
+        { bottom: '20%', left: '20%' },
+        { bottom: '20%', right: '20%' },
+      ];
+    case 5:
+      return [
+        { top: '20%', left: '20%' },
+        { top: '20%', right: '20%' },
+        { top: '40%', left: '40%' },
+        { bottom: '20%', left: '20%' },
+        { bottom: '20%', right: '20%' },
+      ];
+    case 6:
+      return [
+        { top: '15%', left: '20%' },
+        { top: '15%', right: '20%' },
+        { top: '42%', left: '20%' },
+        { top: '42%', right: '20%' },
+        { bottom: '15%', left: '20%' },
+        { bottom: '15%', right: '20%' },
+      ];
+    case 7:
+      return threeRows([[LEFT, RIGHT], [LEFT, CENTER, RIGHT], [LEFT, RIGHT]]);
+    case 8:
+      return threeRows([[LEFT, CENTER, RIGHT], [LEFT, RIGHT], [LEFT, CENTER, RIGHT]]);
+    case 9:
+      return threeRows([[LEFT, CENTER, RIGHT], [LEFT, CENTER, RIGHT], [LEFT, CENTER, RIGHT]]);
+    case 10:
+      return fourRows([[LEFT, RIGHT], [LEFT, CENTER, RIGHT], [LEFT, CENTER, RIGHT], [LEFT, RIGHT]]);
+    case 11:
+      return fourRows([[LEFT, CENTER, RIGHT], [LEFT, CENTER, RIGHT], [LEFT, RIGHT], [LEFT, CENTER, RIGHT]]);
+    case 12:
+      return fourRows([[LEFT, CENTER, RIGHT], [LEFT, CENTER, RIGHT], [LEFT, CENTER, RIGHT], [LEFT, CENTER, RIGHT]]);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Taille des points relative à la taille normale de la tuile
+ */
+export function getDotScale(value: number): number {
+  return value >= 10 ? LARGE_VALUE_DOT_SCALE : 1;
+}
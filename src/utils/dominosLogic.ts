@@ -1,4 +1,92 @@
-import { DominosGame, DominoTile, DominosPlayer } from '../types/dominos.types';
+import { DominoTile, DominosMaxValue, DominosPlayer, DominosRuleset } from '../types/dominos.types';
+
+/**
+ * Règles des Dominos partagées par l'interface.
+ * En ligne, la distribution et les coups sont validés par les Cloud Functions :
+ * les mains ne sont jamais stockées dans le document partagé de la partie.
+ * Miroir côté serveur : functions/src/dominos/dominosRules.ts
+ */
+
+export const DOMINOS_DEFAULT_MAX_VALUE: DominosMaxValue = 6;
+export const DOMINOS_TARGET_SCORES = [50, 100, 150];
+export const DOMINOS_DEFAULT_TARGET_SCORE = 100;
+export const DOMINOS_HAITIAN_TARGET_WINS = [3, 4, 5];
+export const DOMINOS_HAITIAN_DEFAULT_TARGET_WINS = 3;
+
+export const DOMINOS_RULESETS: { id: DominosRuleset; label: string; description: string }[] = [
+  { id: 'classic', label: 'Classique', description: 'Pioche, le gagnant marque les points adverses' },
+  { id: 'haitian', label: 'Haïtien', description: 'Sans pioche, ouverture au plus haut double, aux manches gagnées' },
+];
+
+// Taille des mains jusqu'à quatre joueurs : il reste toujours une pioche
+export const DOMINOS_SETS: { maxValue: DominosMaxValue; label: string; tilesCount: number; handSize: number }[] = [
+  { maxValue: 6, label: 'Double-six', tilesCount: 28, handSize: 7 },
+  { maxValue: 9, label: 'Double-neuf', tilesCount: 55, handSize: 10 },
+  { maxValue: 12, label: 'Double-douze', tilesCount: 91, handSize: 12 },
+];
+
+export const DOMINOS_TEAM_LABELS = ['Équipe A', 'Équipe B'];
+
+export function normalizeMaxValue(maxValue: unknown): DominosMaxValue {
+  return maxValue === 9 || maxValue === 12 ? maxValue : DOMINOS_DEFAULT_MAX_VALUE;
+}
+
+export function getTileSet(maxValue?: DominosMaxValue) {
+  const normalized = normalizeMaxValue(maxValue);
+  return DOMINOS_SETS.find(set => set.maxValue === normalized)!;
+}
+
+export function getHandSize(maxValue?: DominosMaxValue): number {
+  return getTileSet(maxValue).handSize;
+}
+
+/**
+ * Même camp : soi-même, ou son partenaire en partie à quatre
+ */
+export function isSameSide(players: DominosPlayer[], playerId: string, otherId: string): boolean {
+  if (playerId === otherId) return true;
+  const player = players.find(p => p.id === playerId);
+  const other = players.find(p => p.id === otherId);
+  return player?.team !== undefined && player.team === other?.team;
+}
+
+/**
+ * Adversaires : l'autre joueur à deux, l'équipe adverse à quatre
+ */
+export function getOpponents(players: DominosPlayer[], playerId: string): DominosPlayer[] {
+  return players.filter(p => !isSameSide(players, playerId, p.id));
+}
+
+export function getPartner(players: DominosPlayer[], playerId: string): DominosPlayer | undefined {
+  return players.find(p => p.id !== playerId && isSameSide(players, playerId, p.id));
+}
+
+/**
+ * Les autres places vues par un joueur, dans l'ordre du jeu à partir de lui
+ */
+export function getOtherSeats(players: DominosPlayer[], playerId: string): DominosPlayer[] {
+  const index = players.findIndex(p => p.id === playerId);
+  if (index === -1) return players;
+  return [...players.slice(index + 1), ...players.slice(0, index)];
+}
+
+/**
+ * Objectifs de match proposés selon les règles
+ */
+export function getTargetOptions(ruleset: DominosRuleset): number[] {
+  return ruleset === 'haitian' ? DOMINOS_HAITIAN_TARGET_WINS : DOMINOS_TARGET_SCORES;
+}
+
+export function getDefaultTarget(ruleset: DominosRuleset): number {
+  return ruleset === 'haitian' ? DOMINOS_HAITIAN_DEFAULT_TARGET_WINS : DOMINOS_DEFAULT_TARGET_SCORE;
+}
+
+/**
+ * Libellé de l'objectif : en points ou en manches gagnées
+ */
+export function formatTarget(target: number, ruleset: DominosRuleset = 'classic'): string {
+  return ruleset === 'haitian' ? `${target} manches` : `${target} pts`;
+}
 
 export interface PossibleMove {
   tile: DominoTile;
@@ -41,9 +129,9 @@ export function getAllPossibleMoves(
   return moves;
 }
 
-export function calculateScore(player: DominosPlayer): number {
+export function calculateScore(hand: DominoTile[]): number {
   // Calculate score based on remaining tiles
-  const totalPips = player.hand.reduce((sum, tile) => sum + tile.left + tile.right, 0);
+  const totalPips = hand.reduce((sum, tile) => sum + tile.left + tile.right, 0);
   return totalPips;
 }
 
@@ -56,19 +144,22 @@ export function findHighestDouble(hand: DominoTile[]): DominoTile | null {
   return doubles[0];
 }
 
-export function determineStartingPlayer(players: DominosPlayer[]): {
+export function determineStartingPlayer(
+  playerIds: string[],
+  hands: Record<string, DominoTile[]>
+): {
   startingPlayerId: string;
   highestDouble: DominoTile | null;
 } {
   let highestDouble: DominoTile | null = null;
-  let startingPlayerId = players[0].id;
+  let startingPlayerId = playerIds[0];
 
-  for (const player of players) {
-    const playerHighestDouble = findHighestDouble(player.hand);
+  for (const playerId of playerIds) {
+    const playerHighestDouble = findHighestDouble(hands[playerId] || []);
     if (playerHighestDouble) {
       if (!highestDouble || playerHighestDouble.left > highestDouble.left) {
         highestDouble = playerHighestDouble;
-        startingPlayerId = player.id;
+        startingPlayerId = playerId;
       }
     }
   }
@@ -86,6 +177,8 @@ export function generateDominoSet(maxValue: number = 6): DominoTile[] {
         id: `domino-${id++}`,
         left: i,
         right: j,
+        isDouble: i === j,
+        orientation: 'horizontal',
       });
     }
   }
@@ -102,18 +195,18 @@ export function shuffleTiles(tiles: DominoTile[]): DominoTile[] {
   return shuffled;
 }
 
-export function initializeDeck(): DominoTile[] {
-  return shuffleTiles(generateDominoSet(6));
+export function initializeDeck(maxValue: DominosMaxValue = DOMINOS_DEFAULT_MAX_VALUE): DominoTile[] {
+  return shuffleTiles(generateDominoSet(maxValue));
 }
 
-export function distributeTiles(deck: DominoTile[]): {
+export function distributeTiles(deck: DominoTile[], handSize: number = getHandSize()): {
   player1Hand: DominoTile[];
   player2Hand: DominoTile[];
   drawPile: DominoTile[];
 } {
-  const player1Hand = deck.slice(0, 7);
-  const player2Hand = deck.slice(7, 14);
-  const drawPile = deck.slice(14);
+  const player1Hand = deck.slice(0, handSize);
+  const player2Hand = deck.slice(handSize, handSize * 2);
+  const drawPile = deck.slice(handSize * 2);
 
   return {
     player1Hand,
@@ -148,32 +241,35 @@ export function getConnectingValue(
 }
 
 export function isGameBlocked(
-  players: DominosPlayer[],
+  hands: DominoTile[][],
   leftEnd: number | null,
   rightEnd: number | null,
   drawPileCount: number
 ): boolean {
   if (drawPileCount > 0) return false;
 
-  return players.every(player => {
-    const moves = getAllPossibleMoves(player.hand, leftEnd, rightEnd);
+  return hands.every(hand => {
+    const moves = getAllPossibleMoves(hand, leftEnd, rightEnd);
     return moves.length === 0;
   });
 }
 
-export function getWinnerByScore(players: DominosPlayer[]): DominosPlayer | null {
-  if (players.length === 0) return null;
+/**
+ * Index de la main avec le moins de points (-1 si aucune main)
+ */
+export function getWinnerByScore(hands: DominoTile[][]): number {
+  if (hands.length === 0) return -1;
 
-  let winner = players[0];
-  let lowestScore = calculateScore(winner);
+  let winnerIndex = 0;
+  let lowestScore = calculateScore(hands[0]);
 
-  for (let i = 1; i < players.length; i++) {
-    const score = calculateScore(players[i]);
+  for (let i = 1; i < hands.length; i++) {
+    const score = calculateScore(hands[i]);
     if (score < lowestScore) {
       lowestScore = score;
-      winner = players[i];
+      winnerIndex = i;
     }
   }
 
-  return winner;
+  return winnerIndex;
 }
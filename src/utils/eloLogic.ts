@@ -0,0 +1,91 @@
+import { MorpionVariant } from './gomokuLogic';
+
+/**
+ * Classement Elo du Morpion en ligne.
+ *
+ * Un classement distinct par taille de plateau (3x3, 4x4, 5x5) et par
+ * variante (Ultimate, Gomoku). Le facteur K diminue une fois le joueur
+ * sorti de sa période provisoire.
+ * Copié dans functions/src/shared par functions/scripts/syncShared.js
+ */
+
+export const DEFAULT_RATING = 1200;
+export const PROVISIONAL_GAMES = 10;
+export const PROVISIONAL_K_FACTOR = 40;
+export const ESTABLISHED_K_FACTOR = 20;
+export const MIN_RATING = 100;
+
+export interface RatingEntry {
+  rating: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  peak: number;
+  updatedAt: number;
+}
+
+export interface RatingChange {
+  before: number;
+  after: number;
+}
+
+/**
+ * Clé du classement d'une partie : '3x3', '4x4', '5x5', 'ultimate' ou 'gomoku'
+ */
+export function getRatingKey(game: { boardSize: number; variant?: MorpionVariant | null }): string {
+  if (game.variant && game.variant !== 'classic') {
+    return game.variant;
+  }
+  return `${game.boardSize}x${game.boardSize}`;
+}
+
+/**
+ * Probabilité de victoire attendue du joueur A contre le joueur B
+ */
+export function getExpectedScore(ratingA: number, ratingB: number): number {
+  return 1 / (1 + Math.pow(10, (ratingB - ratingA) / 400));
+}
+
+export function getKFactor(gamesPlayed: number): number {
+  return gamesPlayed < PROVISIONAL_GAMES ? PROVISIONAL_K_FACTOR : ESTABLISHED_K_FACTOR;
+}
+
+export function createRatingEntry(now: number): RatingEntry {
+  return {
+    rating: DEFAULT_RATING,
+    games: 0,
+    wins: 0,
+    losses: 0,
+    draws: 0,
+    peak: DEFAULT_RATING,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Nouvelle entrée de classement après une partie.
+ * `score` vaut 1 pour une victoire, 0.5 pour un nul, 0 pour une défaite.
+ */
+export function applyGameResult(
+  entry: RatingEntry,
+  opponentRating: number,
+  score: 0 | 0.5 | 1,
+  now: number
+): RatingEntry {
+  const expected = getExpectedScore(entry.rating, opponentRating);
+  const rating = Math.max(
+    MIN_RATING,
+    Math.round(entry.rating + getKFactor(entry.games) * (score - expected))
+  );
+
+  return {
+    rating,
+    games: entry.games + 1,
+    wins: entry.wins + (score === 1 ? 1 : 0),
+    losses: entry.losses + (score === 0 ? 1 : 0),
+    draws: entry.draws + (score === 0.5 ? 1 : 0),
+    peak: Math.max(entry.peak, rating),
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Règles du Gomoku (variante 15x15 du Morpion, cinq alignés).
+ *
+ * X joue les noirs et commence ; O joue les blancs.
+ * Copié dans functions/src/shared par functions/scripts/syncShared.js
+ */
+
+export const GOMOKU_BOARD_SIZE = 15;
+export const GOMOKU_WIN_LENGTH = 5;
+
+export type MorpionVariant = 'classic' | 'gomoku' | 'ultimate';
+export type GomokuOpeningRule = 'standard' | 'swap2';
+
+export interface GomokuRules {
+  exactlyFive: boolean; // Une ligne de six ou plus (overline) ne gagne pas
+  openingRule: GomokuOpeningRule;
+}
+
+/**
+ * Phases de l'ouverture swap2 :
+ * - place3 : l'hôte pose trois pierres (noir, blanc, noir)
+ * - choose : l'invité choisit de jouer blanc, noir, ou de poser deux pierres de plus
+ * - place2 : l'invité pose deux pierres (blanc, noir)
+ * - finalChoose : l'hôte choisit sa couleur
+ */
+export type Swap2Phase = 'place3' | 'choose' | 'place2' | 'finalChoose';
+export type Swap2Choice = 'white' | 'black' | 'place2';
+
+export const DEFAULT_GOMOKU_RULES: GomokuRules = {
+  exactlyFive: false,
+  openingRule: 'standard',
+};
+
+const DIRECTIONS = [
+  { dRow: 0, dCol: 1 },
+  { dRow: 1, dCol: 0 },
+  { dRow: 1, dCol: 1 },
+  { dRow: 1, dCol: -1 },
+];
+
+/**
+ * Trouver la ligne gagnante passant par une case (plus rapide qu'un scan complet sur 15x15)
+ */
+export function findWinningLineThrough(
+  board: (string | null)[],
+  size: number,
+  position: number,
+  symbol: string,
+  winLength: number = GOMOKU_WIN_LENGTH,
+  exactLength: boolean = false
+): number[] | null {
+  const row = Math.floor(position / size);
+  const col = position % size;
+
+  for (const { dRow, dCol } of DIRECTIONS) {
+    const line: number[] = [position];
+
+    // Étendre dans les deux sens
+    for (const sign of [-1, 1]) {
+      let r = row + dRow * sign;
+      let c = col + dCol * sign;
+      while (r >= 0 && r < size && c >= 0 && c < size && board[r * size + c] === symbol) {
+        if (sign < 0) {
+          line.unshift(r * size + c);
+        } else {
+          line.push(r * size + c);
+        }
+        r += dRow * sign;
+        c += dCol * sign;
+      }
+    }
+
+    if (exactLength ? line.length === winLength : line.length >= winLength) {
+      return line;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Chercher un gagnant sur tout le plateau
+ */
+export function checkGomokuWinner(
+  board: (string | null)[],
+  size: number,
+  symbol: string,
+  winLength: number = GOMOKU_WIN_LENGTH,
+  exactLength: boolean = false
+): number[] | null {
+  for (let position = 0; position < board.length; position++) {
+    if (board[position] !== symbol) continue;
+    const line = findWinningLineThrough(board, size, position, symbol, winLength, exactLength);
+    if (line) {
+      return line;
+    }
+  }
+  return null;
+}
+
+/**
+ * Phase d'ouverture initiale selon la règle choisie
+ */
+export function getInitialOpeningPhase(rules?: GomokuRules): Swap2Phase | null {
+  return rules?.openingRule === 'swap2' ? 'place3' : null;
+}
+
+/**
+ * Phase suivante après un coup pendant l'ouverture swap2
+ */
+export function getSwap2PhaseAfterMove(phase: Swap2Phase | null, moveCount: number): Swap2Phase | null {
+  if (phase === 'place3' && moveCount >= 3) return 'choose';
+  if (phase === 'place2' && moveCount >= 5) return 'finalChoose';
+  return phase;
+}
+
+/**
+ * Phase suivante après le choix d'un joueur
+ */
+export function getSwap2PhaseAfterChoice(phase: Swap2Phase, choice: Swap2Choice): Swap2Phase | null {
+  return phase === 'choose' && choice === 'place2' ? 'place2' : null;
+}
+
+/**
+ * L'hôte agit pendant place3 et finalChoose, l'invité pendant choose et place2
+ */
+export function isHostOpeningTurn(phase: Swap2Phase): boolean {
+  return phase === 'place3' || phase === 'finalChoose';
+}
+
+export function isOpeningChoicePhase(phase: Swap2Phase | null | undefined): boolean {
+  return phase === 'choose' || phase === 'finalChoose';
+}
+
+/**
+ * Faut-il échanger les symboles des joueurs après ce choix ?
+ * 'white' : le joueur qui choisit prend O ; 'black' : il prend X.
+ */
+export function shouldSwapSymbols(chooserSymbol: 'X' | 'O', choice: Swap2Choice): boolean {
+  if (choice === 'white') return chooserSymbol === 'X';
+  if (choice === 'black') return chooserSymbol === 'O';
+  return false;
+}
@@ -0,0 +1,67 @@
+/**
+ * Codes d'erreur des Cloud Functions du Morpion, renvoyés au client dans
+ * `HttpsError.details.reason`.
+ * Copié dans functions/src/shared par functions/scripts/syncShared.js
+ */
+
+export const MORPION_MOVE_ERROR_CODES = [
+  'UNAUTHENTICATED',
+  'INVALID_ARGUMENT',
+  'GAME_NOT_FOUND',
+  'GAME_NOT_WAITING',
+  'GAME_NOT_PLAYING',
+  'GAME_PAUSED',
+  'GAME_NOT_PAUSED',
+  'PAUSE_LIMIT_REACHED',
+  'NOT_HOST',
+  'PLAYERS_MISSING',
+  'PLAYERS_NOT_READY',
+  'NOT_A_PLAYER',
+  'NOT_DISCONNECTED_PLAYER',
+  'NOT_YOUR_TURN',
+  'INVALID_POSITION',
+  'CELL_OCCUPIED',
+  'STALE_MOVE',
+  'CORRUPTED_HISTORY',
+  'OPENING_CHOICE_PENDING',
+  'NOT_OPENING_PLAYER',
+  'INVALID_CHOICE',
+  'WRONG_SUB_BOARD',
+  'SUB_BOARD_CLOSED',
+  'TIME_EXPIRED',
+  'CLOCK_RUNNING',
+] as const;
+
+export type MorpionMoveErrorCode = typeof MORPION_MOVE_ERROR_CODES[number];
+
+export const MORPION_MOVE_ERROR_MESSAGES: Record<MorpionMoveErrorCode, string> = {
+  UNAUTHENTICATED: 'Vous devez être connecté pour jouer',
+  INVALID_ARGUMENT: 'Coup invalide',
+  GAME_NOT_FOUND: 'Partie non trouvée',
+  GAME_NOT_WAITING: 'La partie a déjà commencé',
+  GAME_NOT_PLAYING: 'La partie n\'est pas en cours',
+  GAME_PAUSED: 'La partie est en pause',
+  GAME_NOT_PAUSED: 'La partie n\'est pas en pause',
+  PAUSE_LIMIT_REACHED: 'Nombre maximum de pauses atteint',
+  NOT_HOST: 'Seul l\'hôte peut démarrer la partie',
+  PLAYERS_MISSING: 'Exactement 2 joueurs sont nécessaires',
+  PLAYERS_NOT_READY: 'Tous les joueurs doivent être prêts',
+  NOT_A_PLAYER: 'Joueur non trouvé',
+  NOT_DISCONNECTED_PLAYER: 'Seul le joueur déconnecté peut reprendre la partie',
+  NOT_YOUR_TURN: 'Ce n\'est pas votre tour',
+  INVALID_POSITION: 'Cette case n\'existe pas',
+  CELL_OCCUPIED: 'Cette case est déjà occupée',
+  STALE_MOVE: 'La partie a changé, veuillez réessayer',
+  CORRUPTED_HISTORY: 'L\'historique de la partie est incohérent',
+  OPENING_CHOICE_PENDING: 'Un choix de couleur est en attente',
+  NOT_OPENING_PLAYER: 'C\'est à l\'autre joueur de poser les pierres d\'ouverture',
+  INVALID_CHOICE: 'Ce choix n\'est pas possible maintenant',
+  WRONG_SUB_BOARD: 'Vous devez jouer dans la grille indiquée',
+  SUB_BOARD_CLOSED: 'Cette grille est déjà terminée',
+  TIME_EXPIRED: 'Le temps est écoulé',
+  CLOCK_RUNNING: 'Le temps du joueur au trait n\'est pas écoulé',
+};
+
+export function isMorpionMoveErrorCode(reason: unknown): reason is MorpionMoveErrorCode {
+  return (MORPION_MOVE_ERROR_CODES as readonly unknown[]).includes(reason);
+}
@@ -0,0 +1,388 @@
+/**
+ * Règles du Puissance 4 et de ses variantes.
+ *
+ * - Classique : on laisse tomber un jeton dans une colonne.
+ * - PopOut : on peut aussi retirer un de ses jetons de la rangée du bas,
+ *   la colonne descend d'une case. Si un retrait aligne les deux couleurs,
+ *   le joueur qui a retiré gagne.
+ * - Pop 10 : on remplit d'abord le plateau sans qu'un alignement compte.
+ *   Ensuite chacun retire un de ses jetons du bas : s'il faisait partie d'un
+ *   alignement, le joueur le garde et rejoue, sinon il doit le reposer dans
+ *   une colonne. Le premier à garder 10 jetons gagne.
+ *
+ * Le plateau est indexé [ligne][colonne], ligne 0 en haut.
+ */
+import { CellValue } from '../types/puissance4.types';
+import { PUISSANCE4_CONFIG } from '../constants/Puissance4Constants';
+
+export type Puissance4Color = 'Rouge' | 'Jaune';
+export type Puissance4Variant = 'classic' | 'popout' | 'pop10';
+export type Puissance4ActionType = 'drop' | 'pop';
+
+export interface Puissance4Rules {
+  rows: number;
+  cols: number;
+  winLength: number;
+  variant: Puissance4Variant;
+}
+
+export interface Puissance4Action {
+  type: Puissance4ActionType;
+  column: number;
+}
+
+export interface Puissance4ActionResult {
+  board: CellValue[][];
+  row: number; // Ligne du jeton posé (ou retiré)
+  winner: Puissance4Color | 'draw' | null;
+  winningLine: { row: number; col: number }[];
+  nextPlayer: Puissance4Color; // En Pop 10, le joueur peut rejouer ou l'adversaire passer
+  pop10?: Pop10State; // Pop 10 uniquement : état après le coup
+}
+
+/**
+ * État d'une partie de Pop 10, en plus du plateau
+ */
+export interface Pop10State {
+  kept: Record<Puissance4Color, number>; // Jetons gardés par chaque couleur
+  pendingDrop: Puissance4Color | null; // Joueur qui doit reposer le jeton retiré
+}
+
+export type Pop10Phase = 'fill' | 'pop' | 'redrop';
+
+export const DEFAULT_PUISSANCE4_RULES: Puissance4Rules = {
+  rows: PUISSANCE4_CONFIG.ROWS,
+  cols: PUISSANCE4_CONFIG.COLS,
+  winLength: PUISSANCE4_CONFIG.WIN_LENGTH,
+  variant: 'classic',
+};
+
+export const PUISSANCE4_BOARD_SIZES = [
+  { id: '6x7', label: '6x7', rows: 6, cols: 7 },
+  { id: '7x8', label: '7x8', rows: 7, cols: 8 },
+  { id: '6x9', label: '6x9', rows: 6, cols: 9 },
+  { id: '5x4', label: '5x4', rows: 5, cols: 4 },
+];
+
+export const PUISSANCE4_VARIANTS: { id: Puissance4Variant; label: string; description: string }[] = [
+  { id: 'classic', label: 'Classique', description: 'Alignez vos jetons' },
+  { id: 'popout', label: 'PopOut', description: 'Retirez aussi vos jetons du bas' },
+  { id: 'pop10', label: 'Pop 10', description: 'Remplissez, puis gardez 10 jetons alignés' },
+];
+
+export const POP10_TARGET = 10;
+
+export const MIN_WIN_LENGTH = 3;
+export const MAX_WIN_LENGTH = 5;
+
+const DIRECTIONS = [
+  { dr: 0, dc: 1 },  // Horizontal →
+  { dr: 1, dc: 0 },  // Vertical ↓
+  { dr: 1, dc: 1 },  // Diagonale ↘
+  { dr: 1, dc: -1 }, // Diagonale ↙
+];
+
+export const getOpponentColor = (color: Puissance4Color): Puissance4Color =>
+  color === 'Rouge' ? 'Jaune' : 'Rouge';
+
+/**
+ * Règles d'une partie (les anciennes parties n'en stockent pas)
+ */
+export function resolveRules(rules?: Partial<Puissance4Rules> | null): Puissance4Rules {
+  return { ...DEFAULT_PUISSANCE4_RULES, ...(rules || {}) };
+}
+
+/**
+ * Les règles classiques 6x7, seules résolues par le solveur exact
+ */
+export function isStandardRules(rules: Puissance4Rules): boolean {
+  return (
+    rules.variant === 'classic' &&
+    rules.rows === DEFAULT_PUISSANCE4_RULES.rows &&
+    rules.cols === DEFAULT_PUISSANCE4_RULES.cols &&
+    rules.winLength === DEFAULT_PUISSANCE4_RULES.winLength
+  );
+}
+
+/**
+ * Longueur d'alignement jouable sur ce plateau
+ */
+export function clampWinLength(winLength: number, rows: number, cols: number): number {
+  return Math.max(MIN_WIN_LENGTH, Math.min(winLength, MAX_WIN_LENGTH, Math.max(rows, cols)));
+}
+
+export function describeRules(rules: Puissance4Rules): string {
+  const variant = PUISSANCE4_VARIANTS.find(option => option.id === rules.variant)?.label || 'Classique';
+  return `${variant} • ${rules.rows}x${rules.cols} • ${rules.winLength} alignés`;
+}
+
+export function createEmptyBoard(rules: Puissance4Rules): CellValue[][] {
+  return Array.from({ length: rules.rows }, () =>
+    Array.from({ length: rules.cols }, () => null as CellValue)
+  );
+}
+
+/**
+ * Convertir un board plat (Firestore) en board 2D
+ */
+export function flatTo2D(flatBoard: (CellValue | null)[], rules: Puissance4Rules): CellValue[][] {
+  return Array.from({ length: rules.rows }, (_, row) =>
+    Array.from({ length: rules.cols }, (__, col) => flatBoard[row * rules.cols + col] || null)
+  );
+}
+
+export function twoDToFlat(board: CellValue[][]): (CellValue | null)[] {
+  return board.flatMap(row => row.map(cell => cell || null));
+}
+
+export function findAvailableRow(board: CellValue[][], col: number): number {
+  for (let row = board.length - 1; row >= 0; row--) {
+    if (board[row][col] === null) return row;
+  }
+  return -1;
+}
+
+export function canDrop(board: CellValue[][], col: number): boolean {
+  return board[0]?.[col] === null;
+}
+
+export function isBoardFull(board: CellValue[][]): boolean {
+  return board[0].every(cell => cell !== null);
+}
+
+export function countStones(board: CellValue[][]): number {
+  return board.reduce((count, row) => count + row.filter(cell => cell !== null).length, 0);
+}
+
+export function createPop10State(): Pop10State {
+  return { kept: { Rouge: 0, Jaune: 0 }, pendingDrop: null };
+}
+
+/**
+ * Jetons à garder pour gagner (moins sur les petits plateaux)
+ */
+export function getPop10Target(rules: Puissance4Rules): number {
+  return Math.min(POP10_TARGET, Math.floor((rules.rows * rules.cols) / 4));
+}
+
+/**
+ * Phase d'une partie de Pop 10 : remplissage tant que le plateau n'a jamais
+ * été plein, puis retraits (et dépôt du jeton retiré s'il n'est pas gardé)
+ */
+export function getPop10Phase(board: CellValue[][], state: Pop10State): Pop10Phase {
+  if (state.pendingDrop) return 'redrop';
+  return state.kept.Rouge + state.kept.Jaune > 0 || isBoardFull(board) ? 'pop' : 'fill';
+}
+
+export function canPop(
+  board: CellValue[][],
+  col: number,
+  color: Puissance4Color,
+  rules: Puissance4Rules,
+  pop10: Pop10State = createPop10State()
+): boolean {
+  if (rules.variant === 'pop10' && getPop10Phase(board, pop10) !== 'pop') return false;
+  return rules.variant !== 'classic' && board[board.length - 1]?.[col] === color;
+}
+
+/**
+ * Coups jouables pour `color` (les dépôts d'abord)
+ */
+export function getLegalActions(
+  board: CellValue[][],
+  color: Puissance4Color,
+  rules: Puissance4Rules,
+  pop10: Pop10State = createPop10State()
+): Puissance4Action[] {
+  const actions: Puissance4Action[] = [];
+  const phase = rules.variant === 'pop10' ? getPop10Phase(board, pop10) : null;
+  // En Pop 10, seul le joueur qui a retiré un jeton non gardé le repose
+  const mayDrop = phase === null || phase === 'fill' || (phase === 'redrop' && pop10.pendingDrop === color);
+  for (let col = 0; mayDrop && col < rules.cols; col++) {
+    if (canDrop(board, col)) actions.push({ type: 'drop', column: col });
+  }
+  for (let col = 0; col < rules.cols; col++) {
+    if (canPop(board, col, color, rules, pop10)) actions.push({ type: 'pop', column: col });
+  }
+  return actions;
+}
+
+/**
+ * Alignement passant par (row, col), vide s'il est trop court
+ */
+export function getLineThrough(
+  board: CellValue[][],
+  row: number,
+  col: number,
+  color: Puissance4Color,
+  winLength: number
+): { row: number; col: number }[] {
+  const rows = board.length;
+  const cols = board[0].length;
+
+  for (const { dr, dc } of DIRECTIONS) {
+    const line: { row: number; col: number }[] = [{ row, col }];
+
+    // Direction positive
+    let r = row + dr;
+    let c = col + dc;
+    while (r >= 0 && r < rows && c >= 0 && c < cols && board[r][c] === color) {
+      line.push({ row: r, col: c });
+      r += dr;
+      c += dc;
+    }
+
+    // Direction négative
+    r = row - dr;
+    c = col - dc;
+    while (r >= 0 && r < rows && c >= 0 && c < cols && board[r][c] === color) {
+      line.unshift({ row: r, col: c });
+      r -= dr;
+      c -= dc;
+    }
+
+    if (line.length >= winLength) {
+      return line;
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Premier alignement de `color` sur tout le plateau (vide s'il n'y en a pas)
+ */
+export function findWinningLine(
+  board: CellValue[][],
+  color: Puissance4Color,
+  winLength: number
+): { row: number; col: number }[] {
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      if (board[row][col] !== color) continue;
+      const line = getLineThrough(board, row, col, color, winLength);
+      if (line.length > 0) return line;
+    }
+  }
+  return [];
+}
+
+/**
+ * Appliquer un coup et déterminer l'issue. Retourne null si le coup est illégal.
+ */
+export function applyAction(
+  board: CellValue[][],
+  action: Puissance4Action,
+  color: Puissance4Color,
+  rules: Puissance4Rules,
+  pop10: Pop10State = createPop10State()
+): Puissance4ActionResult | null {
+  if (rules.variant === 'pop10') {
+    return applyPop10Action(board, action, color, rules, pop10);
+  }
+
+  const { column } = action;
+  const opponent = getOpponentColor(color);
+  const newBoard = board.map(r => [...r]);
+
+  if (action.type === 'drop') {
+    const row = findAvailableRow(board, column);
+    if (row === -1) return null;
+
+    newBoard[row][column] = color;
+    const line = getLineThrough(newBoard, row, column, color, rules.winLength);
+    if (line.length > 0) {
+      return { board: newBoard, row, winner: color, winningLine: line, nextPlayer: opponent };
+    }
+
+    // En PopOut, un plateau plein n'est nul que si l'adversaire ne peut rien retirer
+    const isDraw =
+      isBoardFull(newBoard) && getLegalActions(newBoard, opponent, rules).length === 0;
+    return { board: newBoard, row, winner: isDraw ? 'draw' : null, winningLine: [], nextPlayer: opponent };
+  }
+
+  if (!canPop(board, column, color, rules)) return null;
+
+  popBottom(newBoard, column);
+
+  const ownLine = findWinningLine(newBoard, color, rules.winLength);
+  if (ownLine.length > 0) {
+    return { board: newBoard, row: rules.rows - 1, winner: color, winningLine: ownLine, nextPlayer: opponent };
+  }
+
+  const opponentLine = findWinningLine(newBoard, opponent, rules.winLength);
+  return {
+    board: newBoard,
+    row: rules.rows - 1,
+    winner: opponentLine.length > 0 ? opponent : null,
+    winningLine: opponentLine,
+    nextPlayer: opponent,
+  };
+}
+
+/**
+ * Retirer le jeton du bas : la colonne descend d'une case
+ */
+function popBottom(board: CellValue[][], column: number): void {
+  for (let row = board.length - 1; row > 0; row--) {
+    board[row][column] = board[row - 1][column];
+  }
+  board[0][column] = null;
+}
+
+/**
+ * Coup de Pop 10. Les alignements ne font jamais gagner directement : seuls
+ * comptent les jetons gardés. Un joueur sans jeton à retirer passe son tour,
+ * et la partie est nulle si aucun des deux ne peut plus rien retirer.
+ */
+function applyPop10Action(
+  board: CellValue[][],
+  action: Puissance4Action,
+  color: Puissance4Color,
+  rules: Puissance4Rules,
+  pop10: Pop10State
+): Puissance4ActionResult | null {
+  const isLegal = getLegalActions(board, color, rules, pop10).some(
+    legal => legal.type === action.type && legal.column === action.column
+  );
+  if (!isLegal) return null;
+
+  const { column } = action;
+  const newBoard = board.map(r => [...r]);
+  const state: Pop10State = { kept: { ...pop10.kept }, pendingDrop: null };
+  let row = rules.rows - 1;
+  let nextPlayer = getOpponentColor(color);
+
+  if (action.type === 'drop') {
+    row = findAvailableRow(board, column);
+    newBoard[row][column] = color;
+  } else {
+    // Le jeton est gardé s'il faisait partie d'un alignement avant le retrait
+    const keptLine = getLineThrough(board, row, column, color, rules.winLength);
+    popBottom(newBoard, column);
+
+    if (keptLine.length > 0) {
+      state.kept[color] += 1;
+      nextPlayer = color;
+      if (state.kept[color] >= getPop10Target(rules)) {
+        return { board: newBoard, row, winner: color, winningLine: keptLine, nextPlayer, pop10: state };
+      }
+    } else {
+      state.pendingDrop = color;
+      return { board: newBoard, row, winner: null, winningLine: [], nextPlayer: color, pop10: state };
+    }
+  }
+
+  // Phase de retrait : qui ne peut rien retirer passe son tour
+  if (getPop10Phase(newBoard, state) === 'pop') {
+    const other = getOpponentColor(nextPlayer);
+    if (getLegalActions(newBoard, nextPlayer, rules, state).length === 0) {
+      if (getLegalActions(newBoard, other, rules, state).length === 0) {
+        return { board: newBoard, row, winner: 'draw', winningLine: [], nextPlayer, pop10: state };
+      }
+      nextPlayer = other;
+    }
+  }
+
+  return { board: newBoard, row, winner: null, winningLine: [], nextPlayer, pop10: state };
+}
@@ -0,0 +1,452 @@
+/* eslint-disable no-bitwise */
+/**
+ * Solveur exact du Puissance 4 (6x7).
+ *
+ * Negamax avec élagage alpha-beta en fenêtre nulle, table de transposition
+ * et ordonnancement des coups par nombre de menaces créées.
+ *
+ * Bitboards : chaque colonne occupe 7 bits (6 cases + 1 bit sentinelle),
+ * bit = colonne * 7 + ligne (ligne 0 en bas). Les opérations binaires de
+ * JavaScript étant limitées à 32 bits, les colonnes 0-3 sont dans `lo`
+ * (28 bits) et les colonnes 4-6 dans `hi` (21 bits).
+ *
+ * Score du point de vue du joueur au trait : positif s'il gagne (plus il
+ * gagne tôt, plus le score est grand), 0 pour un nul, négatif s'il perd.
+ */
+import { CellValue } from '../types/puissance4.types';
+
+const WIDTH = 7;
+const HEIGHT = 6;
+const CELLS = WIDTH * HEIGHT;
+const LO_COLUMNS = 4;
+const LO_BITS = LO_COLUMNS * (HEIGHT + 1);
+const LO_MASK = (1 << LO_BITS) - 1;
+const HI_MASK = (1 << ((WIDTH - LO_COLUMNS) * (HEIGHT + 1))) - 1;
+const MIN_SCORE = -CELLS / 2 + 3;
+
+// Colonnes centrales d'abord
+const COLUMN_ORDER = [3, 2, 4, 1, 5, 0, 6];
+
+interface Bits {
+  lo: number;
+  hi: number;
+}
+
+export interface SolvedMove {
+  column: number;
+  score: number;
+}
+
+export interface PositionAnalysis {
+  bestColumn: number | null;
+  score: number;
+  outcome: 'win' | 'draw' | 'loss';
+  movesToEnd: number | null; // Coups du gagnant avant l'alignement (null : nul)
+  moves: SolvedMove[];
+}
+
+const bits = (lo: number, hi: number): Bits => ({ lo, hi });
+const and = (a: Bits, b: Bits): Bits => bits(a.lo & b.lo, a.hi & b.hi);
+const or = (a: Bits, b: Bits): Bits => bits(a.lo | b.lo, a.hi | b.hi);
+const xor = (a: Bits, b: Bits): Bits => bits(a.lo ^ b.lo, a.hi ^ b.hi);
+const not = (a: Bits): Bits => bits(~a.lo & LO_MASK, ~a.hi & HI_MASK);
+const isEmpty = (a: Bits): boolean => a.lo === 0 && a.hi === 0;
+
+// Addition colonne par colonne : la retenue ne sort jamais d'une colonne
+const add = (a: Bits, b: Bits): Bits => bits((a.lo + b.lo) & LO_MASK, (a.hi + b.hi) & HI_MASK);
+
+function shiftLeft(a: Bits, shift: number): Bits {
+  return bits(
+    (a.lo << shift) & LO_MASK,
+    ((a.hi << shift) | (a.lo >>> (LO_BITS - shift))) & HI_MASK
+  );
+}
+
+function shiftRight(a: Bits, shift: number): Bits {
+  return bits(
+    ((a.lo >>> shift) | (a.hi << (LO_BITS - shift))) & LO_MASK,
+    a.hi >>> shift
+  );
+}
+
+function popcount32(x: number): number {
+  x -= (x >>> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  return (((x + (x >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+const popcount = (a: Bits): number => popcount32(a.lo) + popcount32(a.hi);
+
+function singleBit(bit: number): Bits {
+  return bit < LO_BITS ? bits(1 << bit, 0) : bits(0, 1 << (bit - LO_BITS));
+}
+
+const bottomMask = (col: number): Bits => singleBit(col * (HEIGHT + 1));
+const topMask = (col: number): Bits => singleBit(col * (HEIGHT + 1) + HEIGHT - 1);
+
+function columnMask(col: number): Bits {
+  const column = (1 << HEIGHT) - 1;
+  return col < LO_COLUMNS
+    ? bits(column << (col * (HEIGHT + 1)), 0)
+    : bits(0, column << ((col - LO_COLUMNS) * (HEIGHT + 1)));
+}
+
+const BOTTOM_MASK_ALL = COLUMN_ORDER.reduce((acc, col) => or(acc, bottomMask(col)), bits(0, 0));
+const BOARD_MASK = COLUMN_ORDER.reduce((acc, col) => or(acc, columnMask(col)), bits(0, 0));
+
+/**
+ * Cases vides qui compléteraient un alignement de 4 pour `position`
+ */
+function computeWinningPosition(position: Bits, mask: Bits): Bits {
+  // Vertical
+  let result = and(and(shiftLeft(position, 1), shiftLeft(position, 2)), shiftLeft(position, 3));
+
+  // Horizontal (décalage HEIGHT + 1), puis les deux diagonales (HEIGHT et HEIGHT + 2)
+  for (const step of [HEIGHT + 1, HEIGHT, HEIGHT + 2]) {
+    let pair = and(shiftLeft(position, step), shiftLeft(position, 2 * step));
+    result = or(result, and(pair, shiftLeft(position, 3 * step)));
+    result = or(result, and(pair, shiftRight(position, step)));
+    pair = and(shiftRight(position, step), shiftRight(position, 2 * step));
+    result = or(result, and(pair, shiftLeft(position, step)));
+    result = or(result, and(pair, shiftRight(position, 3 * step)));
+  }
+
+  return and(result, xor(BOARD_MASK, mask));
+}
+
+/**
+ * Position : `current` contient les pions du joueur au trait, `mask` tous les pions
+ */
+class Position {
+  constructor(
+    public current: Bits,
+    public mask: Bits,
+    public moves: number
+  ) {}
+
+  static fromBoard(board: CellValue[][], colorToPlay: 'Rouge' | 'Jaune'): Position {
+    let current = bits(0, 0);
+    let mask = bits(0, 0);
+    let moves = 0;
+
+    for (let col = 0; col < WIDTH; col++) {
+      for (let row = 0; row < HEIGHT; row++) {
+        // Le plateau de l'application a sa ligne 0 en haut
+        const cell = board[HEIGHT - 1 - row][col];
+        if (!cell) continue;
+        const bit = singleBit(col * (HEIGHT + 1) + row);
+        mask = or(mask, bit);
+        if (cell === colorToPlay) {
+          current = or(current, bit);
+        }
+        moves++;
+      }
+    }
+
+    return new Position(current, mask, moves);
+  }
+
+  canPlay(col: number): boolean {
+    return isEmpty(and(this.mask, topMask(col)));
+  }
+
+  play(move: Bits): Position {
+    return new Position(xor(this.current, this.mask), or(this.mask, move), this.moves + 1);
+  }
+
+  playColumn(col: number): Position {
+    return this.play(and(add(this.mask, bottomMask(col)), columnMask(col)));
+  }
+
+  isWinningMove(col: number): boolean {
+    return !isEmpty(and(and(this.winningPosition(), this.possible()), columnMask(col)));
+  }
+
+  canWinNext(): boolean {
+    return !isEmpty(and(this.winningPosition(), this.possible()));
+  }
+
+  possible(): Bits {
+    return and(add(this.mask, BOTTOM_MASK_ALL), BOARD_MASK);
+  }
+
+  /**
+   * Coups qui ne donnent pas une victoire immédiate à l'adversaire
+   */
+  possibleNonLosingMoves(): Bits {
+    let possible = this.possible();
+    const opponentWin = this.opponentWinningPosition();
+    const forced = and(possible, opponentWin);
+
+    if (!isEmpty(forced)) {
+      if (popcount(forced) > 1) {
+        return bits(0, 0); // Deux menaces à parer : partie perdue
+      }
+      possible = forced;
+    }
+
+    // Ne pas jouer sous une case gagnante adverse
+    return and(possible, not(shiftRight(opponentWin, 1)));
+  }
+
+  moveScore(move: Bits): number {
+    return popcount(computeWinningPosition(or(this.current, move), this.mask));
+  }
+
+  // Clé unique sur 49 bits (exacte dans un double)
+  key(): number {
+    return (this.current.lo + this.mask.lo) + (this.current.hi + this.mask.hi) * (LO_MASK + 1);
+  }
+
+  private winningPosition(): Bits {
+    return computeWinningPosition(this.current, this.mask);
+  }
+
+  private opponentWinningPosition(): Bits {
+    return computeWinningPosition(xor(this.current, this.mask), this.mask);
+  }
+}
+
+/**
+ * Table de transposition à adressage direct.
+ * Taille première > 2^17 : l'index et les 32 bits bas stockés identifient la clé.
+ */
+const TABLE_SIZE = 1048583;
+const tableKeys = new Uint32Array(TABLE_SIZE);
+const tableValues = new Uint8Array(TABLE_SIZE);
+
+function tableGet(key: number): number {
+  const index = key % TABLE_SIZE;
+  return tableKeys[index] === key % 0x100000000 ? tableValues[index] : 0;
+}
+
+function tablePut(key: number, value: number): void {
+  const index = key % TABLE_SIZE;
+  tableKeys[index] = key % 0x100000000;
+  tableValues[index] = value;
+}
+
+// Levée quand le budget de nœuds est épuisé (comparée par identité)
+const SEARCH_ABORTED = new Error('Budget de recherche dépassé');
+
+class Solver {
+  private nodes = 0;
+
+  constructor(private readonly maxNodes: number) {}
+
+  solve(position: Position): number {
+    const task = new SolveTask(position);
+    task.run(this);
+    return task.score!;
+  }
+
+  negamax(position: Position, alpha: number, beta: number): number {
+    if (++this.nodes > this.maxNodes) {
+      throw SEARCH_ABORTED;
+    }
+
+    const next = position.possibleNonLosingMoves();
+    if (isEmpty(next)) {
+      return -Math.trunc((CELLS - position.moves) / 2);
+    }
+    if (position.moves >= CELLS - 2) {
+      return 0;
+    }
+
+    const min = -Math.trunc((CELLS - 2 - position.moves) / 2);
+    if (alpha < min) {
+      alpha = min;
+      if (alpha >= beta) return alpha;
+    }
+
+    let max = Math.trunc((CELLS - 1 - position.moves) / 2);
+    const stored = tableGet(position.key());
+    if (stored) {
+      max = stored + MIN_SCORE - 1;
+    }
+    if (beta > max) {
+      beta = max;
+      if (alpha >= beta) return beta;
+    }
+
+    // Tri par insertion : plus de menaces d'abord, centre d'abord à égalité
+    const candidates: { move: Bits; score: number }[] = [];
+    for (const col of COLUMN_ORDER) {
+      const move = and(next, columnMask(col));
+      if (isEmpty(move)) continue;
+      const score = position.moveScore(move);
+      let index = candidates.length;
+      while (index > 0 && candidates[index - 1].score < score) {
+        index--;
+      }
+      candidates.splice(index, 0, { move, score });
+    }
+
+    for (const { move } of candidates) {
+      const score = -this.negamax(position.play(move), -beta, -alpha);
+      if (score >= beta) return score;
+      if (score > alpha) alpha = score;
+    }
+
+    tablePut(position.key(), alpha - MIN_SCORE + 1);
+    return alpha;
+  }
+}
+
+/**
+ * Résolution d'une position par dichotomie sur des fenêtres nulles.
+ * Interrompue par un budget de nœuds, elle reprend là où elle s'était
+ * arrêtée : la fenêtre [min, max] et la table de transposition sont gardées.
+ */
+class SolveTask {
+  private min: number;
+  private max: number;
+
+  constructor(private readonly position: Position) {
+    if (position.canWinNext()) {
+      this.min = this.max = Math.trunc((CELLS + 1 - position.moves) / 2);
+    } else {
+      this.min = -Math.trunc((CELLS - position.moves) / 2);
+      this.max = Math.trunc((CELLS + 1 - position.moves) / 2);
+    }
+  }
+
+  get score(): number | null {
+    return this.min < this.max ? null : this.min;
+  }
+
+  // Lève SEARCH_ABORTED si le budget du solveur est épuisé avant la fin
+  run(solver: Solver): void {
+    while (this.min < this.max) {
+      let med = this.min + Math.trunc((this.max - this.min) / 2);
+      if (med <= 0 && Math.trunc(this.min / 2) < med) {
+        med = Math.trunc(this.min / 2);
+      } else if (med >= 0 && Math.trunc(this.max / 2) > med) {
+        med = Math.trunc(this.max / 2);
+      }
+      const result = solver.negamax(this.position, med, med + 1);
+      if (result <= med) {
+        this.max = result;
+      } else {
+        this.min = result;
+      }
+    }
+  }
+}
+
+// Tranche de recherche entre deux retours au thread de l'interface
+const SLICE_NODES = 10000;
+
+const yieldToUI = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Nombre de coups du gagnant avant l'alignement pour un score donné
+ */
+export function getMovesToResult(score: number, moveCount: number): number | null {
+  if (score === 0) return null;
+  const winnerStonesAtEnd = Math.trunc((CELLS + 2) / 2) - Math.abs(score);
+  const winnerStonesPlayed = score > 0 ? Math.floor(moveCount / 2) : Math.ceil(moveCount / 2);
+  return winnerStonesAtEnd - winnerStonesPlayed;
+}
+
+/**
+ * Score exact de la position pour `colorToPlay` (null si le budget de nœuds est dépassé)
+ */
+export function solvePosition(
+  board: CellValue[][],
+  colorToPlay: 'Rouge' | 'Jaune',
+  maxNodes: number
+): number | null {
+  try {
+    return new Solver(maxNodes).solve(Position.fromBoard(board, colorToPlay));
+  } catch (error) {
+    if (error === SEARCH_ABORTED) return null;
+    throw error;
+  }
+}
+
+/**
+ * Score exact de chaque coup jouable et meilleur coup pour `colorToPlay`.
+ * Retourne null si le budget de nœuds est dépassé (début de partie).
+ */
+export function analyzePosition(
+  board: CellValue[][],
+  colorToPlay: 'Rouge' | 'Jaune',
+  maxNodes: number
+): PositionAnalysis | null {
+  const position = Position.fromBoard(board, colorToPlay);
+  const solver = new Solver(maxNodes);
+  const moves: SolvedMove[] = [];
+
+  try {
+    for (const column of COLUMN_ORDER) {
+      if (!position.canPlay(column)) continue;
+      const score = position.isWinningMove(column)
+        ? Math.trunc((CELLS + 1 - position.moves) / 2)
+        : -solver.solve(position.playColumn(column));
+      moves.push({ column, score });
+    }
+  } catch (error) {
+    if (error === SEARCH_ABORTED) return null;
+    throw error;
+  }
+
+  return summarizeMoves(moves, position.moves);
+}
+
+/**
+ * Comme analyzePosition, mais par tranches de SLICE_NODES nœuds entre
+ * lesquelles l'interface reprend la main. Retourne null une fois
+ * `timeBudgetMs` écoulé, ou si `isCancelled` devient vrai (plateau changé).
+ */
+export async function analyzePositionAsync(
+  board: CellValue[][],
+  colorToPlay: 'Rouge' | 'Jaune',
+  timeBudgetMs: number,
+  isCancelled: () => boolean = () => false
+): Promise<PositionAnalysis | null> {
+  const position = Position.fromBoard(board, colorToPlay);
+  const deadline = Date.now() + timeBudgetMs;
+  const moves: SolvedMove[] = [];
+
+  for (const column of COLUMN_ORDER) {
+    if (!position.canPlay(column)) continue;
+    if (position.isWinningMove(column)) {
+      moves.push({ column, score: Math.trunc((CELLS + 1 - position.moves) / 2) });
+      continue;
+    }
+
+    const task = new SolveTask(position.playColumn(column));
+    for (;;) {
+      try {
+        task.run(new Solver(SLICE_NODES));
+        break;
+      } catch (error) {
+        if (error !== SEARCH_ABORTED) throw error;
+      }
+      await yieldToUI();
+      if (isCancelled() || Date.now() > deadline) return null;
+    }
+    moves.push({ column, score: -task.score! });
+  }
+
+  return summarizeMoves(moves, position.moves);
+}
+
+function summarizeMoves(solved: SolvedMove[], moveCount: number): PositionAnalysis {
+  // Un nul peut sortir de la dichotomie sous la forme -0
+  const moves = solved.map(({ column, score }) => ({ column, score: score + 0 }));
+  if (moves.length === 0) {
+    return { bestColumn: null, score: 0, outcome: 'draw', movesToEnd: null, moves };
+  }
+
+  // COLUMN_ORDER garantit la préférence pour le centre à score égal
+  const best = moves.reduce((a, b) => (b.score > a.score ? b : a));
+  return {
+    bestColumn: best.column,
+    score: best.score,
+    outcome: best.score > 0 ? 'win' : best.score < 0 ? 'loss' : 'draw',
+    movesToEnd: getMovesToResult(best.score, moveCount),
+    moves,
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Cadences de jeu (pendules) des parties en ligne de Morpion et de Puissance 4.
+ *
+ * Une cadence combine une limite par coup et/ou une banque de temps par joueur,
+ * éventuellement avec un incrément ajouté après chaque coup. Le document de la
+ * partie stocke la banque restante de chaque camp au début du tour en cours
+ * (`clocks`) et l'heure de début de ce tour (`turnStartedAt`).
+ * Copié dans functions/src/shared par functions/scripts/syncShared.js
+ */
+
+export interface TimeControl {
+  moveLimitMs: number | null; // Temps maximum pour un coup
+  bankMs: number | null; // Temps total de chaque joueur pour la partie
+  incrementMs: number; // Ajouté à la banque après chaque coup joué
+}
+
+/**
+ * Comment la partie s'est terminée (enregistré dans l'historique)
+ */
+export type WinReason = 'alignment' | 'draw' | 'forfeit' | 'timeout';
+
+export interface TimeControlPreset {
+  id: string;
+  label: string;
+  timeControl: TimeControl | null;
+}
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+  { id: 'none', label: 'Sans limite', timeControl: null },
+  { id: 'move30', label: '30 s / coup', timeControl: { moveLimitMs: 30000, bankMs: null, incrementMs: 0 } },
+  { id: 'blitz3', label: '3 min + 2 s', timeControl: { moveLimitMs: null, bankMs: 180000, incrementMs: 2000 } },
+  { id: 'rapid10', label: '10 min', timeControl: { moveLimitMs: null, bankMs: 600000, incrementMs: 0 } },
+  { id: 'daily', label: '24 h / coup', timeControl: { moveLimitMs: 86400000, bankMs: null, incrementMs: 0 } },
+];
+
+/**
+ * Banques de départ de chaque camp (null si la cadence n'a pas de banque)
+ */
+export function createInitialClocks<S extends string>(
+  timeControl: TimeControl | null,
+  sides: S[]
+): Record<S, number> | null {
+  if (!timeControl || timeControl.bankMs === null) {
+    return null;
+  }
+  const bankMs = timeControl.bankMs;
+  return Object.fromEntries(sides.map(side => [side, bankMs])) as Record<S, number>;
+}
+
+/**
+ * Temps dont dispose le joueur au trait pour ce coup
+ */
+export function getTurnAllowance(
+  timeControl: TimeControl,
+  clocks: Record<string, number> | null | undefined,
+  side: string
+): number {
+  const bank = clocks?.[side] ?? Infinity;
+  const moveLimit = timeControl.moveLimitMs ?? Infinity;
+  return Math.min(bank, moveLimit);
+}
+
+/**
+ * Heure à laquelle le drapeau du joueur au trait tombe (null : pas de limite)
+ */
+export function getTurnDeadline(
+  timeControl: TimeControl | null | undefined,
+  clocks: Record<string, number> | null | undefined,
+  side: string,
+  turnStartedAt: number | null | undefined
+): number | null {
+  if (!timeControl || !turnStartedAt) {
+    return null;
+  }
+  const allowance = getTurnAllowance(timeControl, clocks, side);
+  return Number.isFinite(allowance) ? turnStartedAt + allowance : null;
+}
+
+export function hasFlagFallen(
+  timeControl: TimeControl | null | undefined,
+  clocks: Record<string, number> | null | undefined,
+  side: string,
+  turnStartedAt: number | null | undefined,
+  now: number
+): boolean {
+  const deadline = getTurnDeadline(timeControl, clocks, side, turnStartedAt);
+  return deadline !== null && now > deadline;
+}
+
+/**
+ * Pauses d'une partie en ligne : au-delà de ce nombre, la partie ne peut plus
+ * être mise en pause ; au-delà de cette durée, la pendule repart pendant la pause
+ */
+export const MAX_PAUSES_PER_GAME = 6;
+export const MAX_PAUSE_CREDIT_MS = 30 * 60 * 1000;
+
+/**
+ * Temps de pause rendu au joueur au trait, plafonné à MAX_PAUSE_CREDIT_MS
+ */
+export function getPauseCredit(pausedAt: number | null | undefined, now: number): number {
+  if (!pausedAt) {
+    return 0;
+  }
+  return Math.min(Math.max(0, now - pausedAt), MAX_PAUSE_CREDIT_MS);
+}
+
+/**
+ * Banques après le coup du joueur `side` : temps consommé retiré, incrément ajouté
+ */
+export function getClocksAfterMove(
+  timeControl: TimeControl | null | undefined,
+  clocks: Record<string, number> | null | undefined,
+  side: string,
+  turnStartedAt: number | null | undefined,
+  now: number
+): Record<string, number> | null {
+  if (!timeControl || !clocks || clocks[side] === undefined) {
+    return clocks ?? null;
+  }
+  const elapsed = turnStartedAt ? now - turnStartedAt : 0;
+  return {
+    ...clocks,
+    [side]: Math.max(0, clocks[side] - elapsed) + timeControl.incrementMs,
+  };
+}
+
+/**
+ * Description courte d'une cadence (« 3 min + 2 s », « 30 s / coup »)
+ */
+export function describeTimeControl(timeControl: TimeControl | null | undefined): string {
+  if (!timeControl) {
+    return 'Sans limite';
+  }
+  const preset = TIME_CONTROL_PRESETS.find(
+    p =>
+      p.timeControl?.moveLimitMs === timeControl.moveLimitMs &&
+      p.timeControl?.bankMs === timeControl.bankMs &&
+      p.timeControl?.incrementMs === timeControl.incrementMs
+  );
+  return preset ? preset.label : 'Cadence personnalisée';
+}
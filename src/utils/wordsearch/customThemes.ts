@@ -0,0 +1,183 @@
+import { CustomWordTheme, Difficulty, DifficultyConfig, WordTheme } from '../../types/wordSearch.types';
+import { DIFFICULTY_CONFIGS, GAME_RULES } from '../../data/constants/gameRules';
+
+/**
+ * Thèmes personnalisés : listes de mots saisies par les joueurs (lieux de
+ * voyage, noms des animaux, blagues du couple...).
+ * La grille n'accepte que les lettres A-Z : les mots sont normalisés (accents,
+ * espaces, traits d'union) puis vérifiés pour tenir dans la grille.
+ */
+
+export const CUSTOM_THEME_ID_PREFIX = 'custom_';
+export const CUSTOM_THEME_MIN_WORDS = DIFFICULTY_CONFIGS.easy.wordCount;
+export const CUSTOM_THEME_MAX_WORDS = 50;
+export const CUSTOM_THEME_NAME_MAX_LENGTH = 30;
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard', 'expert'];
+
+// Lettres accentuées et ligatures → lettres de la grille
+const ACCENTED_LETTERS: Record<string, string> = {
+  A: 'ÀÁÂÃÄÅ',
+  C: 'Ç',
+  E: 'ÈÉÊË',
+  I: 'ÌÍÎÏ',
+  N: 'Ñ',
+  O: 'ÒÓÔÕÖØ',
+  U: 'ÙÚÛÜ',
+  Y: 'ÝŸ',
+  OE: 'Œ',
+  AE: 'Æ',
+};
+
+const LETTER_REPLACEMENTS = Object.entries(ACCENTED_LETTERS).reduce<Record<string, string>>(
+  (replacements, [letter, accented]) => {
+    accented.split('').forEach(char => {
+      replacements[char] = letter;
+    });
+    return replacements;
+  },
+  {}
+);
+
+export type CustomWordIssue = 'invalid_characters' | 'too_short' | 'too_long' | 'duplicate';
+
+export interface CustomWordCheck {
+  input: string;
+  word: string; // Mot normalisé
+  issue?: CustomWordIssue;
+}
+
+export interface CustomWordsValidation {
+  words: string[]; // Mots retenus, normalisés
+  rejected: CustomWordCheck[];
+  playableDifficulties: Difficulty[];
+  errors: string[];
+  isValid: boolean;
+}
+
+export function isCustomThemeId(themeId: string): boolean {
+  return themeId.startsWith(CUSTOM_THEME_ID_PREFIX);
+}
+
+export function createCustomThemeId(): string {
+  return `${CUSTOM_THEME_ID_PREFIX}${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * "Saint-Malo" → "SAINTMALO", "Crème brûlée" → "CREMEBRULEE", "Cœur" → "COEUR"
+ */
+export function normalizeCustomWord(input: string): string {
+  return input
+    .trim()
+    .toUpperCase()
+    .split('')
+    .map(char => LETTER_REPLACEMENTS[char] || char)
+    .join('')
+    .replace(/[\s'’-]/g, '');
+}
+
+/**
+ * Découper la saisie (un mot par ligne, ou séparés par des virgules)
+ */
+export function parseCustomWordsInput(text: string): string[] {
+  return text
+    .split(/[\n,;]/)
+    .map(word => word.trim())
+    .filter(word => word.length > 0);
+}
+
+/**
+ * Mots de la liste qui tiennent dans la grille d'une difficulté
+ */
+export function getFittingWords(words: string[], difficulty: Difficulty): string[] {
+  const { gridSize } = DIFFICULTY_CONFIGS[difficulty];
+  return words.filter(word => word.length <= gridSize);
+}
+
+export function isPlayableAt(words: string[], difficulty: Difficulty): boolean {
+  return getFittingWords(words, difficulty).length >= CUSTOM_THEME_MIN_WORDS;
+}
+
+export function validateCustomWords(inputs: string[]): CustomWordsValidation {
+  const seen = new Set<string>();
+  const checks: CustomWordCheck[] = inputs.map(input => {
+    const word = normalizeCustomWord(input);
+
+    if (!/^[A-Z]+$/.test(word)) return { input, word, issue: 'invalid_characters' };
+    if (word.length < GAME_RULES.minWordLength) return { input, word, issue: 'too_short' };
+    if (word.length > GAME_RULES.maxWordLength) return { input, word, issue: 'too_long' };
+    if (seen.has(word)) return { input, word, issue: 'duplicate' };
+
+    seen.add(word);
+    return { input, word };
+  });
+
+  const words = checks.filter(check => !check.issue).map(check => check.word);
+  const playableDifficulties = DIFFICULTIES.filter(difficulty => isPlayableAt(words, difficulty));
+
+  const errors: string[] = [];
+  if (words.length < CUSTOM_THEME_MIN_WORDS) {
+    errors.push(`Il faut au moins ${CUSTOM_THEME_MIN_WORDS} mots valides`);
+  } else if (playableDifficulties.length === 0) {
+    errors.push('Trop de mots longs : aucune grille ne peut les contenir');
+  }
+  if (words.length > CUSTOM_THEME_MAX_WORDS) {
+    errors.push(`${CUSTOM_THEME_MAX_WORDS} mots maximum`);
+  }
+
+  return {
+    words,
+    rejected: checks.filter(check => check.issue),
+    playableDifficulties,
+    errors,
+    isValid: errors.length === 0,
+  };
+}
+
+export function getCustomWordIssueMessage(check: CustomWordCheck): string {
+  switch (check.issue) {
+    case 'invalid_characters':
+      return `${check.input} : lettres uniquement`;
+    case 'too_short':
+      return `${check.input} : ${GAME_RULES.minWordLength} lettres minimum`;
+    case 'too_long':
+      return `${check.input} : ${GAME_RULES.maxWordLength} lettres maximum`;
+    case 'duplicate':
+      return `${check.input} : déjà dans la liste`;
+    default:
+      return check.input;
+  }
+}
+
+/**
+ * Les thèmes intégrés filtrent les mots par longueur selon la difficulté ;
+ * une liste personnalisée garde tous les mots qui tiennent dans la grille
+ */
+export function getCustomThemeConfig(config: DifficultyConfig): DifficultyConfig {
+  return {
+    ...config,
+    wordLengthRange: [GAME_RULES.minWordLength, config.gridSize],
+  };
+}
+
+/**
+ * Thème personnalisé → thème jouable, verrouillé si ses mots ne tiennent pas
+ * dans la grille de la difficulté choisie
+ */
+export function toWordTheme(theme: CustomWordTheme, userId: string | undefined, difficulty?: Difficulty): WordTheme {
+  const playable = !difficulty || isPlayableAt(theme.words, difficulty);
+
+  return {
+    id: theme.id,
+    name: theme.name,
+    icon: theme.icon,
+    words: theme.words,
+    unlocked: playable,
+    color: theme.color,
+    description: playable
+      ? theme.ownerId === userId ? 'Mon thème' : `Partagé par ${theme.ownerName}`
+      : 'Mots trop longs pour cette difficulté',
+    custom: true,
+    sharedBy: theme.ownerId === userId ? undefined : theme.ownerName,
+  };
+}
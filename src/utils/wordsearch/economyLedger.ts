@@ -0,0 +1,373 @@
+import {
+  GameResult,
+  LedgerCurrency,
+  LedgerEntry,
+  LedgerEntryType,
+  PlayerPowerUps,
+  PlayerProfile,
+} from '../../types/wordSearch.types';
+import { DIFFICULTY_CONFIGS } from '../../data/constants/gameRules';
+import { COIN_REWARDS, LEVEL_PROGRESSION } from '../../data/constants/rewards';
+import { BONUS_WORD_REWARDS } from '../../data/bonusWords';
+import { POWER_UP_UNIT_PRICES, SHOP_ITEM_GRANTS, getShopItemById } from '../../data/shop';
+
+/**
+ * Registre de l'économie Mots Mêlés.
+ *
+ * Pièces et power-ups ne sont plus des compteurs modifiables : leurs soldes
+ * sont recalculés à partir d'écritures (gain, dépense, remboursement) qui
+ * portent leur motif. Une écriture incohérente (récompense supérieure à ce
+ * que la partie permet, remboursement sans dépense, id qui ne correspond
+ * pas à son motif, power-ups sans l'achat qui les paie...) est ignorée.
+ * Les récompenses des parties en ligne sont écrites par le serveur.
+ * Miroir côté serveur : functions/src/wordsearch/wordSearchEconomy.ts
+ */
+
+export const WORD_SEARCH_LEDGER_COLLECTION = 'word_search_ledger';
+export const LEDGER_ENTRIES_SUBCOLLECTION = 'entries';
+
+export const POWER_UP_TYPES: (keyof PlayerPowerUps)[] = [
+  'revealLetter',
+  'revealWord',
+  'timeFreeze',
+  'highlightFirst',
+];
+
+export const STARTER_POWER_UPS: PlayerPowerUps = {
+  revealLetter: 3, // Start with 3 free hints
+  revealWord: 1, // Start with 1 free reveal
+  timeFreeze: 0,
+  highlightFirst: 0,
+};
+
+const LEDGER_TYPES: LedgerEntryType[] = ['earn', 'spend', 'refund'];
+const LEDGER_CURRENCIES: LedgerCurrency[] = ['coins', ...POWER_UP_TYPES];
+
+export interface LedgerBalances {
+  coins: number;
+  powerUps: PlayerPowerUps;
+}
+
+/**
+ * Profil titulaire du registre : les écritures d'ouverture et de niveau en dépendent
+ */
+export type LedgerOwner = Pick<PlayerProfile, 'id' | 'level' | 'openingBalances'>;
+
+export type OpeningBalances = NonNullable<PlayerProfile['openingBalances']>;
+
+type LedgerEntryInput = Omit<LedgerEntry, 'id' | 'createdAt'> & { id?: string };
+type LedgerGameResult = NonNullable<LedgerEntry['gameResult']>;
+
+const LEVEL_ENTRY_ID = /^level_(\d+)$/;
+// Achat d'un power-up à l'unité depuis la partie (boutique rapide)
+const QUICK_PURCHASE_PREFIX = 'quick_';
+
+export function createLedgerEntry(input: LedgerEntryInput, now: number): LedgerEntry {
+  return {
+    ...input,
+    id: input.id || `${now}_${Math.random().toString(36).substr(2, 9)}`,
+    createdAt: now,
+  };
+}
+
+/**
+ * Id d'une écriture d'ouverture : une seule par monnaie et par profil
+ */
+export function getOpeningEntryId(profileId: string, currency: LedgerCurrency): string {
+  return currency === 'coins' ? `opening_${profileId}` : `opening_${profileId}_${currency}`;
+}
+
+/**
+ * Id d'une récompense de partie, tiré de la partie et de son résultat :
+ * un même résultat ne peut pas être crédité deux fois sous deux ids
+ */
+export function getGameRewardEntryId(result: LedgerGameResult, gameKey: string | number): string {
+  return [
+    'game',
+    gameKey,
+    result.difficulty,
+    result.theme,
+    result.score,
+    result.timeElapsed,
+    result.wordsFound,
+    result.totalWords,
+    result.bonusWordsFound,
+  ].join('_');
+}
+
+/**
+ * Power-ups offerts à la création du profil (id fixes : offerts une seule fois)
+ */
+export function createStarterPack(now: number): LedgerEntry[] {
+  return POWER_UP_TYPES
+    .filter(type => STARTER_POWER_UPS[type] > 0)
+    .map(type => createLedgerEntry({
+      id: `starter_${type}`,
+      type: 'earn',
+      currency: type,
+      amount: STARTER_POWER_UPS[type],
+      reason: 'starter_pack',
+    }, now));
+}
+
+/**
+ * Récompense de passage de niveau : id fixe pour qu'un même niveau atteint
+ * sur deux appareils ne soit payé qu'une fois
+ */
+export function createLevelRewardEntry(level: number, now: number): LedgerEntry {
+  return createLedgerEntry({
+    id: `level_${level}`,
+    type: 'earn',
+    currency: 'coins',
+    amount: LEVEL_PROGRESSION.coinReward,
+    reason: 'level_up',
+  }, now);
+}
+
+/**
+ * Soldes d'un ancien profil, figés à sa migration vers le registre : les
+ * écritures d'ouverture doivent les reprendre à l'identique. Dans l'ancien
+ * registre de pièces, seuls les gains hors récompenses de niveau forment le
+ * solde d'ouverture (voir createOpeningEntries).
+ */
+export function getOpeningBalances(
+  profile: Pick<PlayerProfile, 'coins' | 'powerUps' | 'coinLedger'>
+): OpeningBalances {
+  const openingCoins = profile.coinLedger
+    ? profile.coinLedger
+      .filter(entry => entry.amount > 0 && !LEVEL_ENTRY_ID.test(entry.id))
+      .reduce((total, entry) => total + entry.amount, 0)
+    : profile.coins;
+
+  const powerUps = profile.powerUps || STARTER_POWER_UPS;
+  const balances: OpeningBalances = {};
+  [
+    { currency: 'coins' as LedgerCurrency, amount: openingCoins },
+    ...POWER_UP_TYPES.map(type => ({ currency: type as LedgerCurrency, amount: powerUps[type] })),
+  ]
+    .filter(({ amount }) => Number.isInteger(amount) && amount > 0)
+    .forEach(({ currency, amount }) => {
+      balances[currency] = amount;
+    });
+  return balances;
+}
+
+/**
+ * Anciens profils : les soldes figés par getOpeningBalances deviennent des
+ * écritures d'ouverture dont l'id dépend du profil, pour ne pas les compter
+ * deux fois si la migration est rejouée. Dans l'ancien registre de pièces,
+ * récompenses de niveau et dépenses gardent leur id pour rester
+ * dédupliquées entre appareils.
+ */
+export function createOpeningEntries(
+  profile: Pick<PlayerProfile, 'id' | 'createdAt' | 'coinLedger'>,
+  openingBalances: OpeningBalances
+): LedgerEntry[] {
+  const keptEntries: LedgerEntry[] = (profile.coinLedger || [])
+    .filter(entry => entry.amount < 0 || LEVEL_ENTRY_ID.test(entry.id))
+    .map(entry => ({
+      id: entry.id,
+      type: entry.amount > 0 ? 'earn' : 'spend',
+      currency: 'coins',
+      amount: Math.abs(entry.amount),
+      reason: entry.amount < 0 ? 'shop_purchase' : 'level_up',
+      createdAt: entry.createdAt,
+    }));
+
+  const openingEntries = LEDGER_CURRENCIES
+    .filter(currency => (openingBalances[currency] || 0) > 0)
+    .map(currency => createLedgerEntry({
+      id: getOpeningEntryId(profile.id, currency),
+      type: 'earn',
+      currency,
+      amount: openingBalances[currency] as number,
+      reason: 'opening_balance',
+    }, profile.createdAt));
+
+  return [...keptEntries, ...openingEntries];
+}
+
+/**
+ * Un profil local qui prend l'id du compte garde ses écritures d'ouverture :
+ * leur id suit celui du profil
+ */
+export function rekeyOpeningEntries(ledger: LedgerEntry[], fromId: string, toId: string): LedgerEntry[] {
+  return ledger.map(entry => (
+    entry.reason === 'opening_balance' && entry.id === getOpeningEntryId(fromId, entry.currency)
+      ? { ...entry, id: getOpeningEntryId(toId, entry.currency) }
+      : entry
+  ));
+}
+
+/**
+ * Récompense maximale qu'une partie solo peut rapporter, d'après son résultat
+ */
+export function getMaxGameReward(
+  result: Pick<GameResult, 'difficulty' | 'timeElapsed' | 'wordsFound' | 'totalWords' | 'bonusWordsFound'>
+): number {
+  const config = DIFFICULTY_CONFIGS[result.difficulty];
+  if (!config) return 0;
+
+  const isPerfect = result.wordsFound === result.totalWords;
+  const timeRemaining = Math.max(0, config.timeLimit - result.timeElapsed);
+  const perfectBonus = isPerfect
+    ? Math.floor(timeRemaining * COIN_REWARDS.timeBonus) + COIN_REWARDS.perfectBonus
+    : 0;
+
+  return config.coinReward + perfectBonus + result.bonusWordsFound * BONUS_WORD_REWARDS[10].coins;
+}
+
+/**
+ * Écriture recevable pour ce profil : montant et id cohérents avec son motif
+ */
+export function isValidLedgerEntry(entry: LedgerEntry, owner: LedgerOwner): boolean {
+  if (!entry || typeof entry.id !== 'string' || !entry.id) return false;
+  if (!LEDGER_TYPES.includes(entry.type) || !LEDGER_CURRENCIES.includes(entry.currency)) return false;
+  if (!Number.isInteger(entry.amount) || entry.amount <= 0) return false;
+
+  switch (entry.reason) {
+    case 'game_reward':
+      return entry.type === 'earn'
+        && entry.currency === 'coins'
+        && !!entry.gameResult
+        && entry.id === getGameRewardEntryId(entry.gameResult, entry.gameId || entry.createdAt)
+        && entry.amount <= getMaxGameReward(entry.gameResult);
+    case 'level_up': {
+      // Niveaux déjà atteints par le profil seulement (le niveau 1 ne rapporte rien)
+      const level = Number(LEVEL_ENTRY_ID.exec(entry.id)?.[1]);
+      return entry.type === 'earn'
+        && entry.currency === 'coins'
+        && entry.amount === LEVEL_PROGRESSION.coinReward
+        && level > 1
+        && level <= owner.level;
+    }
+    case 'starter_pack':
+      return entry.type === 'earn'
+        && entry.currency !== 'coins'
+        && entry.id === `starter_${entry.currency}`
+        && entry.amount === STARTER_POWER_UPS[entry.currency];
+    case 'online_game_reward':
+      return entry.type === 'earn' && entry.currency === 'coins' && !!entry.gameId;
+    case 'opening_balance':
+      return entry.type === 'earn'
+        && entry.id === getOpeningEntryId(owner.id, entry.currency)
+        && entry.amount === owner.openingBalances?.[entry.currency];
+    case 'shop_purchase':
+      // Pièces dépensées contre des power-ups, rapprochés de leur paiement par sanitizeLedger
+      if (entry.type === 'refund') return !!entry.refundOf;
+      return entry.type === 'spend'
+        ? entry.currency === 'coins'
+        : entry.currency !== 'coins' && !!entry.itemId;
+    case 'power_up_used':
+      if (entry.type === 'refund') return !!entry.refundOf;
+      return entry.type === 'spend' && entry.currency !== 'coins';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Un achat et le paiement qui lui correspond portent le même article et la même date
+ */
+const getPurchaseKey = (entry: LedgerEntry): string => `${entry.itemId}_${entry.createdAt}`;
+
+/**
+ * Power-ups reçus contre un paiement : la quantité et le prix sont ceux du
+ * catalogue, ou du prix unitaire pour la boutique rapide
+ */
+function isPaidShopGrant(grant: LedgerEntry, payment: LedgerEntry | undefined): boolean {
+  if (!payment || grant.currency === 'coins') return false;
+
+  const itemId = grant.itemId || '';
+  if (itemId.startsWith(QUICK_PURCHASE_PREFIX)) {
+    return itemId === `${QUICK_PURCHASE_PREFIX}${grant.currency}`
+      && payment.amount === POWER_UP_UNIT_PRICES[grant.currency] * grant.amount;
+  }
+
+  const item = getShopItemById(itemId);
+  const shopGrant = SHOP_ITEM_GRANTS[itemId];
+  return !!item
+    && !!shopGrant
+    && shopGrant.type === grant.currency
+    && shopGrant.quantity === grant.amount
+    && payment.amount === item.price;
+}
+
+/**
+ * Écritures retenues pour le calcul des soldes : valides, sans doublon, un
+ * seul remboursement par dépense, jamais supérieur à celle-ci, et des
+ * power-ups achetés seulement contre un paiement non remboursé
+ */
+export function sanitizeLedger(ledger: LedgerEntry[], owner: LedgerOwner): LedgerEntry[] {
+  const entries = new Map<string, LedgerEntry>();
+  ledger.filter(entry => isValidLedgerEntry(entry, owner)).forEach(entry => entries.set(entry.id, entry));
+
+  const refunded = new Set<string>();
+  const kept = [...entries.values()].filter(entry => {
+    if (entry.type !== 'refund') return true;
+
+    const original = entries.get(entry.refundOf || '');
+    if (
+      !original ||
+      original.type !== 'spend' ||
+      original.currency !== entry.currency ||
+      entry.amount > original.amount ||
+      refunded.has(original.id)
+    ) {
+      return false;
+    }
+    refunded.add(original.id);
+    return true;
+  });
+
+  // Chaque paiement ne donne ses power-ups qu'une fois
+  const payments = new Map<string, LedgerEntry>();
+  kept
+    .filter(entry => entry.reason === 'shop_purchase' && entry.type === 'spend' && !!entry.itemId)
+    .filter(entry => !refunded.has(entry.id))
+    .forEach(entry => payments.set(getPurchaseKey(entry), entry));
+
+  return kept
+    .filter(entry => {
+      if (entry.reason !== 'shop_purchase' || entry.type !== 'earn') return true;
+
+      const key = getPurchaseKey(entry);
+      if (!isPaidShopGrant(entry, payments.get(key))) return false;
+      payments.delete(key);
+      return true;
+    })
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function getLedgerBalances(ledger: LedgerEntry[], owner: LedgerOwner): LedgerBalances {
+  const balances: LedgerBalances = {
+    coins: 0,
+    powerUps: { revealLetter: 0, revealWord: 0, timeFreeze: 0, highlightFirst: 0 },
+  };
+
+  sanitizeLedger(ledger, owner).forEach(entry => {
+    const amount = entry.type === 'spend' ? -entry.amount : entry.amount;
+    if (entry.currency === 'coins') {
+      balances.coins += amount;
+    } else {
+      balances.powerUps[entry.currency] += amount;
+    }
+  });
+
+  return balances;
+}
+
+/**
+ * Récompenses en ligne : seules celles enregistrées par le serveur comptent
+ */
+export function applyVerifiedEntries(
+  ledger: LedgerEntry[],
+  verified: LedgerEntry[],
+  owner: LedgerOwner
+): LedgerEntry[] {
+  const verifiedIds = new Set(verified.map(entry => entry.id));
+  return sanitizeLedger([
+    ...ledger.filter(entry => entry.reason !== 'online_game_reward' || verifiedIds.has(entry.id)),
+    ...verified,
+  ], owner);
+}
@@ -0,0 +1,127 @@
+import { Direction, GridMask, GridShape, GridShapeName } from '../../types/wordSearch.types';
+import { DIRECTION_VECTORS } from '../../data/constants/gameRules';
+
+/**
+ * Grilles en forme : un masque de la taille de la grille indique les cases
+ * jouables (true). Les cases hors du masque restent vides et ne reçoivent ni
+ * mot ni lettre de remplissage.
+ */
+
+// Branches de l'étoile : rayon intérieur assez large pour y placer des mots,
+// étoile agrandie et descendue pour occuper toute la grille
+const STAR_POINTS = 5;
+const STAR_INNER_RADIUS = 0.62;
+const STAR_SCALE = 1.12;
+const STAR_OFFSET_Y = 0.12;
+
+// Coordonnées du centre d'une case, ramenées entre -1 et 1 (y vers le haut)
+const toUnit = (index: number, size: number): number => ((index + 0.5) / size) * 2 - 1;
+
+const isInCircle = (x: number, y: number): boolean => x * x + y * y <= 1;
+
+const isInHeart = (x: number, y: number): boolean => {
+  // Courbe du cœur (x² + y² - 1)³ - x²y³ ≤ 0, recentrée sur la grille
+  const hx = x * 1.1;
+  const hy = y * 1.15 + 0.2;
+  const a = hx * hx + hy * hy - 1;
+  return a * a * a - hx * hx * hy * hy * hy <= 0;
+};
+
+const STAR_POLYGON = Array.from({ length: STAR_POINTS * 2 }, (_, index) => {
+  const radius = index % 2 === 0 ? 1 : STAR_INNER_RADIUS;
+  const angle = Math.PI / 2 + (index * Math.PI) / STAR_POINTS;
+  return {
+    x: STAR_SCALE * radius * Math.cos(angle),
+    y: STAR_SCALE * radius * Math.sin(angle) - STAR_OFFSET_Y,
+  };
+});
+
+const isInStar = (x: number, y: number): boolean => {
+  // Test du point dans le polygone (lancer de rayon)
+  let inside = false;
+  for (let i = 0, j = STAR_POLYGON.length - 1; i < STAR_POLYGON.length; j = i++) {
+    const a = STAR_POLYGON[i];
+    const b = STAR_POLYGON[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const SHAPE_TESTS: Record<GridShapeName, (x: number, y: number) => boolean> = {
+  circle: isInCircle,
+  heart: isInHeart,
+  star: isInStar,
+};
+
+export const GRID_SHAPE_LABELS: Record<GridShapeName, string> = {
+  heart: 'Cœur',
+  star: 'Étoile',
+  circle: 'Cercle',
+};
+
+export const GRID_SHAPE_ICONS: Record<GridShapeName, string> = {
+  heart: '❤️',
+  star: '⭐',
+  circle: '⭕',
+};
+
+export function createShapeMask(shape: GridShapeName, size: number): GridMask {
+  const isInShape = SHAPE_TESTS[shape];
+  return Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (__, col) => isInShape(toUnit(col, size), -toUnit(row, size)))
+  );
+}
+
+/**
+ * Masque dessiné ligne par ligne : '#' pour une case jouable, '.' pour une case vide
+ */
+export function parseMask(rows: string[]): GridMask {
+  return rows.map(row => row.split('').map(char => char === '#'));
+}
+
+/**
+ * Masque d'une forme pour une taille de grille.
+ * Un masque libre doit avoir exactement la taille de la grille.
+ */
+export function resolveGridMask(shape: GridShape, size: number): GridMask {
+  if (typeof shape === 'string') {
+    return createShapeMask(shape, size);
+  }
+
+  if (shape.length !== size || shape.some(row => row.length !== size)) {
+    throw new Error(`Le masque doit faire ${size}x${size} cases`);
+  }
+  return shape;
+}
+
+export function isPlayableCell(mask: GridMask | null, row: number, col: number): boolean {
+  return !mask || mask[row]?.[col] === true;
+}
+
+/**
+ * Plus longue suite de cases jouables dans les directions autorisées :
+ * aucun mot plus long ne peut être placé
+ */
+export function getLongestRun(mask: GridMask, directions: Direction[]): number {
+  let longest = 0;
+
+  directions.forEach(direction => {
+    const vector = DIRECTION_VECTORS[direction];
+    mask.forEach((cells, row) => {
+      cells.forEach((playable, col) => {
+        // Ne compter qu'à partir du début d'une suite
+        if (!playable || isPlayableCell(mask, row - vector.row, col - vector.col)) return;
+
+        let length = 0;
+        while (isPlayableCell(mask, row + vector.row * length, col + vector.col * length)) {
+          length++;
+        }
+        longest = Math.max(longest, length);
+      });
+    });
+  });
+
+  return longest;
+}
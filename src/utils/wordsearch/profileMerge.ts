@@ -0,0 +1,158 @@
+import { PlayerProfile, PlayerStats } from '../../types/wordSearch.types';
+import {
+  createOpeningEntries,
+  getLedgerBalances,
+  getOpeningBalances,
+  rekeyOpeningEntries,
+  sanitizeLedger,
+} from './economyLedger';
+
+/**
+ * Fusion hors ligne du profil Mots Mêlés entre l'appareil et le compte Firebase.
+ *
+ * Chaque appareil modifie sa copie locale puis la fusionne avec celle du
+ * compte. La fusion ne perd jamais de progression : XP et niveau au maximum,
+ * déblocages réunis, pièces et power-ups recalculés depuis le registre
+ * d'écritures dédupliqué par id (voir economyLedger). Fusionner deux fois
+ * les mêmes copies donne le même résultat, une synchronisation interrompue
+ * peut donc être rejouée.
+ */
+
+export const STARTER_THEMES = ['animals', 'food', 'sports'];
+
+export function createDefaultStats(): PlayerStats {
+  return {
+    gamesPlayed: 0,
+    gamesWon: 0,
+    totalWordsFound: 0,
+    totalScore: 0,
+    bestTime: 0,
+    favortieDifficulty: 'easy',
+    multiplayerWins: 0,
+    multiplayerGames: 0,
+  };
+}
+
+/**
+ * Compléter une copie incomplète (ancien profil local ou document Firestore)
+ */
+export function normalizeProfile(data: Partial<PlayerProfile>, id: string): PlayerProfile {
+  const createdAt = typeof data.createdAt === 'number' ? data.createdAt : Date.now();
+  const isLegacy = !Array.isArray(data.ledger);
+  const owner = {
+    id,
+    level: data.level || 1,
+    openingBalances: isLegacy
+      ? getOpeningBalances({
+        coins: data.coins || 0,
+        powerUps: data.powerUps as PlayerProfile['powerUps'],
+        coinLedger: data.coinLedger,
+      })
+      : data.openingBalances,
+  };
+  const ledger = isLegacy
+    ? createOpeningEntries({ id, createdAt, coinLedger: data.coinLedger }, owner.openingBalances || {})
+    : sanitizeLedger(data.ledger || [], owner);
+
+  return {
+    id,
+    name: data.name || 'Joueur',
+    avatar: data.avatar || { type: 'emoji', value: '👤' },
+    photoURL: data.photoURL ?? undefined,
+    level: owner.level,
+    xp: data.xp || 0,
+    ...getLedgerBalances(ledger, owner),
+    stats: { ...createDefaultStats(), ...data.stats },
+    unlockedThemes: data.unlockedThemes || [...STARTER_THEMES],
+    unlockedAvatars: data.unlockedAvatars || [],
+    completedLevels: data.completedLevels || [],
+    createdAt,
+    ledger,
+    openingBalances: owner.openingBalances,
+    // Les anciens documents ont un Timestamp serveur : il ne départage rien
+    updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : 0,
+    progressResetAt: data.progressResetAt || 0,
+    lastSyncedAt: data.lastSyncedAt,
+  };
+}
+
+/**
+ * Rattacher une copie au compte : elle prend l'id du compte et ses
+ * écritures d'ouverture, liées à l'ancien id local, la suivent
+ */
+export function withProfileId(profile: PlayerProfile, id: string): PlayerProfile {
+  if (profile.id === id) return profile;
+
+  const owner = { id, level: profile.level, openingBalances: profile.openingBalances };
+  const ledger = sanitizeLedger(rekeyOpeningEntries(profile.ledger || [], profile.id, id), owner);
+  return { ...profile, id, ...getLedgerBalances(ledger, owner), ledger };
+}
+
+const union = <T>(first: T[], second: T[]): T[] => [
+  ...first,
+  ...second.filter(item => !first.includes(item)),
+];
+
+function mergeStats(latest: PlayerStats, other: PlayerStats): PlayerStats {
+  const bestTimes = [latest.bestTime, other.bestTime].filter(time => time > 0);
+
+  return {
+    gamesPlayed: Math.max(latest.gamesPlayed, other.gamesPlayed),
+    gamesWon: Math.max(latest.gamesWon, other.gamesWon),
+    totalWordsFound: Math.max(latest.totalWordsFound, other.totalWordsFound),
+    totalScore: Math.max(latest.totalScore, other.totalScore),
+    bestTime: bestTimes.length > 0 ? Math.min(...bestTimes) : 0,
+    favortieDifficulty: latest.favortieDifficulty,
+    multiplayerWins: Math.max(latest.multiplayerWins, other.multiplayerWins),
+    multiplayerGames: Math.max(latest.multiplayerGames, other.multiplayerGames),
+  };
+}
+
+/**
+ * Fusionner la copie locale et celle du compte.
+ * L'id de `remote` est conservé ; nom et avatar viennent de la copie
+ * modifiée le plus récemment. Une réinitialisation plus récente
+ * l'emporte sur toute la progression de l'autre copie.
+ */
+export function mergeProfiles(localCopy: PlayerProfile, remote: PlayerProfile): PlayerProfile {
+  const local = withProfileId(localCopy, remote.id);
+  const latest = (local.updatedAt || 0) >= (remote.updatedAt || 0) ? local : remote;
+  const other = latest === local ? remote : local;
+  const identity = {
+    id: remote.id,
+    name: latest.name,
+    avatar: latest.avatar,
+    photoURL: latest.photoURL,
+    createdAt: Math.min(local.createdAt, remote.createdAt),
+    updatedAt: Math.max(local.updatedAt || 0, remote.updatedAt || 0),
+    lastSyncedAt: Math.max(local.lastSyncedAt || 0, remote.lastSyncedAt || 0) || undefined,
+    // Les soldes d'ouverture figés sur le compte l'emportent
+    openingBalances: remote.openingBalances || local.openingBalances,
+  };
+
+  const localResetAt = local.progressResetAt || 0;
+  const remoteResetAt = remote.progressResetAt || 0;
+  if (localResetAt !== remoteResetAt) {
+    return { ...(localResetAt > remoteResetAt ? local : remote), ...identity };
+  }
+
+  const owner = {
+    id: remote.id,
+    level: Math.max(local.level, remote.level),
+    openingBalances: identity.openingBalances,
+  };
+  const ledger = sanitizeLedger([...(local.ledger || []), ...(remote.ledger || [])], owner);
+
+  return {
+    ...identity,
+    level: owner.level,
+    xp: Math.max(local.xp, remote.xp),
+    ...getLedgerBalances(ledger, owner),
+    ledger,
+    stats: mergeStats(latest.stats, other.stats),
+    unlockedThemes: union(local.unlockedThemes, remote.unlockedThemes),
+    unlockedAvatars: union(local.unlockedAvatars, remote.unlockedAvatars),
+    completedLevels: union(local.completedLevels, remote.completedLevels),
+    progressResetAt: localResetAt,
+  };
+}
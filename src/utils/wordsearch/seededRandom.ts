@@ -0,0 +1,57 @@
+/* eslint-disable no-bitwise */
+/**
+ * Générateur pseudo-aléatoire reproductible pour les grilles de mots mêlés.
+ * Une même graine donne la même suite de nombres sur tous les appareils,
+ * ce qui permet de partager une grille sans envoyer ses cellules.
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * Hacher une graine texte en entier 32 bits (xmur3)
+ */
+const hashSeed = (seed: string): number => {
+  let hash = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 2246822507);
+  hash = Math.imul(hash ^ (hash >>> 13), 3266489909);
+  return (hash ^ (hash >>> 16)) >>> 0;
+};
+
+/**
+ * Créer une source aléatoire déterministe (mulberry32) : renvoie des
+ * nombres dans [0, 1) comme Math.random
+ */
+export const createSeededRandom = (seed: string): RandomSource => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Graine d'une grille : la même graine, le même thème et la même
+ * difficulté reproduisent exactement la même grille
+ */
+export const getGridSeed = (seed: string, themeId: string, difficulty: string): string =>
+  `${seed}:${themeId}:${difficulty}`;
+
+/**
+ * Mélange de Fisher-Yates : contrairement à sort(() => random() - 0.5),
+ * le résultat ne dépend pas de l'algorithme de tri du moteur JavaScript
+ */
+export const shuffleWithRandom = <T>(items: T[], random: RandomSource): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};